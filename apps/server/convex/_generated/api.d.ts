@@ -10,14 +10,26 @@
 
 import type * as auth from "../auth.js";
 import type * as credentials from "../credentials.js";
+import type * as crons from "../crons.js";
 import type * as executions from "../executions.js";
 import type * as http from "../http.js";
+import type * as lib_cron from "../lib/cron.js";
+import type * as lib_event from "../lib/event.js";
 import type * as lib_oauth from "../lib/oauth.js";
+import type * as lib_validation from "../lib/validation.js";
+import type * as lib_webhook from "../lib/webhook.js";
+import type * as lib_worker from "../lib/worker.js";
 import type * as messages from "../messages.js";
 import type * as oauth from "../oauth.js";
+import type * as routineApprovals from "../routineApprovals.js";
+import type * as routineEvents from "../routineEvents.js";
+import type * as routineVersions from "../routineVersions.js";
 import type * as routines from "../routines.js";
+import type * as schedules from "../schedules.js";
 import type * as settings from "../settings.js";
+import type * as temporal from "../temporal.js";
 import type * as users from "../users.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -28,14 +40,26 @@ import type {
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
   credentials: typeof credentials;
+  crons: typeof crons;
   executions: typeof executions;
   http: typeof http;
+  "lib/cron": typeof lib_cron;
+  "lib/event": typeof lib_event;
   "lib/oauth": typeof lib_oauth;
+  "lib/validation": typeof lib_validation;
+  "lib/webhook": typeof lib_webhook;
+  "lib/worker": typeof lib_worker;
   messages: typeof messages;
   oauth: typeof oauth;
+  routineApprovals: typeof routineApprovals;
+  routineEvents: typeof routineEvents;
+  routineVersions: typeof routineVersions;
   routines: typeof routines;
+  schedules: typeof schedules;
   settings: typeof settings;
+  temporal: typeof temporal;
   users: typeof users;
+  webhooks: typeof webhooks;
 }>;
 
 /**
@@ -8,7 +8,7 @@ import {
 } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { requireAuthUser } from "./auth";
-import { getCredentialType } from "@kianax/plugins";
+import { getCredentialType } from "@kianax/plugins/credentials";
 
 /**
  * List all credentials for the current user.
@@ -0,0 +1,13 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Dispatch cron-triggered routines whose next fire time has passed
+crons.interval(
+  "dispatch scheduled routines",
+  { minutes: 1 },
+  internal.schedules.dispatchDue,
+);
+
+export default crons;
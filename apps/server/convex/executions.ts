@@ -2,11 +2,15 @@
  * Routine Execution Mutations and Queries
  *
  * Convex functions for managing routine execution state.
- * Called by Temporal workers during workflow execution.
+ * The mutations recording it are called by Temporal workers during
+ * workflow execution, and take the worker secret.
  */
 
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
 import { mutation, query } from "./_generated/server";
+import { requireAuthUser } from "./auth";
+import { requireWorker, workerSecretValidator } from "./lib/worker";
 
 /**
  * Create a new routine execution
@@ -14,6 +18,7 @@ import { mutation, query } from "./_generated/server";
  */
 export const create = mutation({
   args: {
+    workerSecret: workerSecretValidator,
     routineId: v.id("routines"),
     userId: v.string(),
     workflowId: v.string(),
@@ -23,10 +28,26 @@ export const create = mutation({
       v.literal("scheduled"),
       v.literal("webhook"),
       v.literal("event"),
+      v.literal("routine"),
     ),
     triggerData: v.optional(v.any()),
+    routineVersion: v.optional(v.number()),
+    rerun: v.optional(
+      v.object({
+        parentWorkflowId: v.string(),
+        startNodeId: v.string(),
+      }),
+    ),
+    parentExecution: v.optional(
+      v.object({
+        workflowId: v.string(),
+        nodeId: v.string(),
+      }),
+    ),
   },
   handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
     const executionId = await ctx.db.insert("routine_executions", {
       routineId: args.routineId,
       userId: args.userId,
@@ -35,6 +56,9 @@ export const create = mutation({
       status: "running",
       triggerType: args.triggerType,
       triggerData: args.triggerData,
+      routineVersion: args.routineVersion,
+      rerun: args.rerun,
+      parentExecution: args.parentExecution,
       nodeStates: [],
       startedAt: Date.now(),
     });
@@ -49,6 +73,7 @@ export const create = mutation({
  */
 export const updateStatus = mutation({
   args: {
+    workerSecret: workerSecretValidator,
     workflowId: v.string(),
     status: v.union(
       v.literal("pending"),
@@ -69,6 +94,8 @@ export const updateStatus = mutation({
     executionPath: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
     // Find execution by workflow ID
     const execution = await ctx.db
       .query("routine_executions")
@@ -99,6 +126,49 @@ export const updateStatus = mutation({
       }),
     });
 
+    // Notify routines subscribed to this routine's completion or failure
+    const finished = args.status === "completed" || args.status === "failed";
+    if (finished && execution.status !== args.status) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.routineEvents.publishExecutionFinished,
+        { executionId: execution._id },
+      );
+    }
+
+    return execution._id;
+  },
+});
+
+/**
+ * Record a user's request to cancel a running execution
+ * Called by the web app's cancel API before it cancels the Temporal
+ * workflow; the workflow then marks the execution as cancelled.
+ */
+export const cancel = mutation({
+  args: {
+    workflowId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+
+    const execution = await ctx.db
+      .query("routine_executions")
+      .withIndex("by_workflow_id", (q) => q.eq("workflowId", args.workflowId))
+      .first();
+
+    if (!execution || execution.userId !== user._id) {
+      throw new Error("Execution not found");
+    }
+    if (execution.status !== "pending" && execution.status !== "running") {
+      throw new Error(`Execution is already ${execution.status}`);
+    }
+
+    await ctx.db.patch(execution._id, {
+      cancelledBy: { userId: user._id, name: user.name || user.email },
+      cancelledAt: Date.now(),
+    });
+
     return execution._id;
   },
 });
@@ -112,11 +182,13 @@ export const updateStatus = mutation({
  */
 export const storeNodeResult = mutation({
   args: {
+    workerSecret: workerSecretValidator,
     workflowId: v.string(),
     nodeId: v.string(),
     iteration: v.optional(v.number()),
     status: v.string(),
     output: v.optional(v.any()),
+    outputs: v.optional(v.any()),
     error: v.optional(
       v.object({
         message: v.string(),
@@ -125,8 +197,11 @@ export const storeNodeResult = mutation({
     ),
     startedAt: v.optional(v.number()),
     completedAt: v.optional(v.number()),
+    waitingUntil: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
     // Find execution by workflow ID
     const execution = await ctx.db
       .query("routine_executions")
@@ -154,6 +229,7 @@ export const storeNodeResult = mutation({
           nodeId: args.nodeId,
           status: "running",
           startedAt: args.startedAt,
+          waitingUntil: args.waitingUntil,
         };
         await ctx.db.patch(execution._id, { nodeStates: updatedNodeStates });
       } else {
@@ -162,6 +238,7 @@ export const storeNodeResult = mutation({
           nodeId: args.nodeId,
           status: "running",
           startedAt: args.startedAt,
+          waitingUntil: args.waitingUntil,
         };
         await ctx.db.patch(execution._id, {
           nodeStates: [...execution.nodeStates, nodeState],
@@ -186,8 +263,11 @@ export const storeNodeResult = mutation({
           ...(args.iteration !== undefined && { iteration: args.iteration }),
           status: args.status,
           output: args.output,
+          outputs: args.outputs,
           error: args.error,
           completedAt: args.completedAt,
+          // Done waiting
+          waitingUntil: undefined,
           // Calculate duration based on node's start time
           duration:
             args.completedAt && startedAt
@@ -205,6 +285,7 @@ export const storeNodeResult = mutation({
           ...(args.iteration !== undefined && { iteration: args.iteration }),
           status: args.status,
           output: args.output,
+          outputs: args.outputs,
           error: args.error,
           startedAt: args.startedAt,
           completedAt: args.completedAt,
@@ -241,6 +322,34 @@ export const getByWorkflowId = query({
   },
 });
 
+/**
+ * Get the executions started by an execution's execute-routine nodes
+ */
+export const listChildren = query({
+  args: {
+    workflowId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+
+    const children = await ctx.db
+      .query("routine_executions")
+      .withIndex("by_parent_workflow_id", (q) =>
+        q.eq("parentExecution.workflowId", args.workflowId),
+      )
+      .collect();
+
+    return Promise.all(
+      children
+        .filter((child) => child.userId === user._id)
+        .map(async (child) => ({
+          ...child,
+          routineName: (await ctx.db.get(child.routineId))?.name ?? "Deleted",
+        })),
+    );
+  },
+});
+
 /**
  * Get all executions for a routine
  */
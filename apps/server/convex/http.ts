@@ -1,8 +1,44 @@
 import { httpRouter } from "convex/server";
+import { internal } from "./_generated/api";
+import { httpAction } from "./_generated/server";
 import { authComponent, createAuth } from "./auth";
 
 const http = httpRouter();
 
 authComponent.registerRoutes(http, createAuth);
 
+// Routine webhook triggers. The request is serialized and handled by the
+// internal actions in webhooks.ts.
+const webhookRoutes = [
+  { pathPrefix: "/webhook/", action: internal.webhooks.handleWebhook },
+  { pathPrefix: "/webhook-test/", action: internal.webhooks.handleWebhookTest },
+];
+
+for (const { pathPrefix, action } of webhookRoutes) {
+  const handler = httpAction(async (ctx, request) => {
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    const response = await ctx.runAction(action, {
+      request: {
+        method: request.method,
+        url: request.url,
+        headers,
+        body: await request.text(),
+      },
+    });
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  });
+
+  for (const method of ["GET", "POST", "PUT", "PATCH", "DELETE"] as const) {
+    http.route({ pathPrefix, method, handler });
+  }
+}
+
 export default http;
@@ -0,0 +1,337 @@
+import { describe, expect, it } from "vitest";
+import {
+  getNextCronRun,
+  getRoutineNextRunAt,
+  isValidTimezone,
+  parseCronExpression,
+  parseCronTriggerConfig,
+} from "./cron";
+
+function at(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+function next(
+  expression: string,
+  after: string,
+  options: { timezone?: string; startAt?: string; endAt?: string } = {},
+): string | null {
+  const run = getNextCronRun(
+    {
+      expression,
+      timezone: options.timezone,
+      startAt: options.startAt ? at(options.startAt) : undefined,
+      endAt: options.endAt ? at(options.endAt) : undefined,
+    },
+    at(after),
+  );
+  return run === null ? null : new Date(run).toISOString();
+}
+
+describe("parseCronExpression", () => {
+  it("should parse lists, ranges and steps", () => {
+    const schedule = parseCronExpression("0,30 9-17/4 1 * *");
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1]);
+    expect(schedule.months.size).toBe(12);
+    expect(schedule.daysOfWeek.size).toBe(7);
+  });
+
+  it("should read a single value with a step as a starting point", () => {
+    expect([...parseCronExpression("5/20 * * * *").minutes]).toEqual([
+      5, 25, 45,
+    ]);
+  });
+
+  it("should accept month and weekday names in any case", () => {
+    const schedule = parseCronExpression("0 0 * JAN-mar Mon,fri");
+
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 5]);
+  });
+
+  it("should treat 7 as Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCronExpression("0 0 * * 5-7").daysOfWeek].sort()).toEqual([
+      0, 5, 6,
+    ]);
+  });
+
+  it("should expand macros", () => {
+    expect(parseCronExpression("@daily")).toEqual(
+      parseCronExpression("0 0 * * *"),
+    );
+    expect(parseCronExpression(" @Weekly ")).toEqual(
+      parseCronExpression("0 0 * * 0"),
+    );
+  });
+
+  it("should track which day fields are restricted", () => {
+    expect(parseCronExpression("0 0 1 * *")).toMatchObject({
+      restrictedDayOfMonth: true,
+      restrictedDayOfWeek: false,
+    });
+  });
+
+  it("should reject invalid expressions", () => {
+    expect(() => parseCronExpression("* * * *")).toThrow(
+      'Invalid cron expression "* * * *": expected 5 fields, got 4',
+    );
+    expect(() => parseCronExpression("60 * * * *")).toThrow(
+      "minute value 60 out of range (0-59)",
+    );
+    expect(() => parseCronExpression("* * 0 * *")).toThrow(
+      "day of month value 0 out of range (1-31)",
+    );
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow(
+      'Invalid minute field: "*/0"',
+    );
+    expect(() => parseCronExpression("* 5-2 * * *")).toThrow(
+      'Invalid hour range: "5-2"',
+    );
+    expect(() => parseCronExpression("* * * foo *")).toThrow(
+      'Invalid month value: "foo"',
+    );
+    expect(() => parseCronExpression("1- * * * *")).toThrow(
+      'Invalid minute field: "1-"',
+    );
+  });
+});
+
+describe("parseCronTriggerConfig", () => {
+  it("should trim the expression and keep the optional fields", () => {
+    expect(
+      parseCronTriggerConfig({
+        expression: " 0 9 * * 1-5 ",
+        timezone: "Europe/Berlin",
+        startAt: 1000,
+        endAt: 2000,
+      }),
+    ).toEqual({
+      expression: "0 9 * * 1-5",
+      timezone: "Europe/Berlin",
+      startAt: 1000,
+      endAt: 2000,
+    });
+  });
+
+  it("should read the schedule key of older configs", () => {
+    expect(parseCronTriggerConfig({ schedule: "@hourly" })).toEqual({
+      expression: "@hourly",
+    });
+  });
+
+  it("should ignore empty timezones and bounds", () => {
+    expect(
+      parseCronTriggerConfig({
+        expression: "* * * * *",
+        timezone: "",
+        startAt: null,
+      }),
+    ).toEqual({ expression: "* * * * *" });
+  });
+
+  it("should reject invalid configs", () => {
+    expect(() => parseCronTriggerConfig(undefined)).toThrow(
+      "Cron trigger requires a schedule expression",
+    );
+    expect(() => parseCronTriggerConfig({ expression: "  " })).toThrow(
+      "Cron trigger requires a schedule expression",
+    );
+    expect(() => parseCronTriggerConfig({ expression: "bad" })).toThrow(
+      "expected 5 fields",
+    );
+    expect(() =>
+      parseCronTriggerConfig({
+        expression: "* * * * *",
+        timezone: "Mars/Base",
+      }),
+    ).toThrow("Unknown timezone: Mars/Base");
+    expect(() =>
+      parseCronTriggerConfig({ expression: "* * * * *", startAt: "today" }),
+    ).toThrow("Cron trigger startAt must be a timestamp");
+    expect(() =>
+      parseCronTriggerConfig({
+        expression: "* * * * *",
+        startAt: 2000,
+        endAt: 1000,
+      }),
+    ).toThrow("Cron trigger endAt must be after startAt");
+  });
+});
+
+describe("getNextCronRun", () => {
+  it("should return the next matching minute strictly after the given time", () => {
+    expect(next("* * * * *", "2024-01-01T10:00:00Z")).toBe(
+      "2024-01-01T10:01:00.000Z",
+    );
+    expect(next("* * * * *", "2024-01-01T10:00:30Z")).toBe(
+      "2024-01-01T10:01:00.000Z",
+    );
+    expect(next("*/15 * * * *", "2024-01-01T10:07:00Z")).toBe(
+      "2024-01-01T10:15:00.000Z",
+    );
+  });
+
+  it("should roll over to the next hour, day, month and year", () => {
+    expect(next("5 * * * *", "2024-01-01T10:30:00Z")).toBe(
+      "2024-01-01T11:05:00.000Z",
+    );
+    expect(next("0 9 * * *", "2024-01-31T10:00:00Z")).toBe(
+      "2024-02-01T09:00:00.000Z",
+    );
+    expect(next("0 0 1 1 *", "2024-06-15T00:00:00Z")).toBe(
+      "2025-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("should match weekdays", () => {
+    // 2024-01-06 is a Saturday
+    expect(next("0 9 * * 1-5", "2024-01-06T00:00:00Z")).toBe(
+      "2024-01-08T09:00:00.000Z",
+    );
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 15th, or any Monday: Monday 2024-01-08 comes first
+    expect(next("0 0 15 * 1", "2024-01-02T00:00:00Z")).toBe(
+      "2024-01-08T00:00:00.000Z",
+    );
+    expect(next("0 0 15 * 1", "2024-01-08T00:00:00Z")).toBe(
+      "2024-01-15T00:00:00.000Z",
+    );
+  });
+
+  it("should fire on Feb 29 only in leap years", () => {
+    expect(next("0 0 29 2 *", "2025-01-01T00:00:00Z")).toBe(
+      "2028-02-29T00:00:00.000Z",
+    );
+  });
+
+  it("should return null for schedules that never fire", () => {
+    expect(next("0 0 30 2 *", "2024-01-01T00:00:00Z")).toBeNull();
+  });
+
+  it("should evaluate the expression in the timezone", () => {
+    // 09:00 in New York is 14:00 UTC in winter
+    expect(
+      next("0 9 * * *", "2024-01-15T12:00:00Z", {
+        timezone: "America/New_York",
+      }),
+    ).toBe("2024-01-15T14:00:00.000Z");
+    // Offsets that aren't whole hours
+    expect(
+      next("0 9 * * *", "2024-01-15T00:00:00Z", { timezone: "Asia/Kolkata" }),
+    ).toBe("2024-01-15T03:30:00.000Z");
+  });
+
+  it("should follow daylight saving time changes", () => {
+    // Clocks in New York go forward on 2024-03-10 and back on 2024-11-03
+    const timezone = "America/New_York";
+    expect(next("0 9 * * *", "2024-03-09T15:00:00Z", { timezone })).toBe(
+      "2024-03-10T13:00:00.000Z",
+    );
+    expect(next("0 9 * * *", "2024-11-02T14:00:00Z", { timezone })).toBe(
+      "2024-11-03T14:00:00.000Z",
+    );
+  });
+
+  it("should skip local times that don't exist", () => {
+    // 02:30 doesn't exist on 2024-03-10 in New York
+    expect(
+      next("30 2 * * *", "2024-03-09T08:00:00Z", {
+        timezone: "America/New_York",
+      }),
+    ).toBe("2024-03-11T06:30:00.000Z");
+  });
+
+  it("should fire once at local times that repeat", () => {
+    // 01:30 happens twice on 2024-11-03 in New York; the first is 05:30 UTC
+    const timezone = "America/New_York";
+    const first = next("30 1 * * *", "2024-11-03T04:00:00Z", { timezone });
+    expect(first).toBe("2024-11-03T05:30:00.000Z");
+    expect(next("30 1 * * *", first!, { timezone })).toBe(
+      "2024-11-04T06:30:00.000Z",
+    );
+  });
+
+  it("should not fire before startAt", () => {
+    expect(
+      next("0 * * * *", "2024-01-01T00:00:00Z", {
+        startAt: "2024-01-01T05:00:00Z",
+      }),
+    ).toBe("2024-01-01T05:00:00.000Z");
+  });
+
+  it("should not fire after endAt", () => {
+    expect(
+      next("0 * * * *", "2024-01-01T00:00:00Z", {
+        endAt: "2024-01-01T01:00:00Z",
+      }),
+    ).toBe("2024-01-01T01:00:00.000Z");
+    expect(
+      next("0 * * * *", "2024-01-01T01:00:00Z", {
+        endAt: "2024-01-01T01:30:00Z",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getRoutineNextRunAt", () => {
+  const after = at("2024-01-01T00:00:00Z");
+
+  it("should schedule active cron routines", () => {
+    expect(
+      getRoutineNextRunAt(
+        {
+          triggerType: "cron",
+          status: "active",
+          triggerConfig: { expression: "@hourly" },
+        },
+        after,
+      ),
+    ).toBe(at("2024-01-01T01:00:00Z"));
+  });
+
+  it("should not schedule other routines", () => {
+    const triggerConfig = { expression: "@hourly" };
+    expect(
+      getRoutineNextRunAt(
+        { triggerType: "cron", status: "paused", triggerConfig },
+        after,
+      ),
+    ).toBeUndefined();
+    expect(
+      getRoutineNextRunAt(
+        { triggerType: "manual", status: "active", triggerConfig },
+        after,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should not schedule routines whose schedule ended", () => {
+    expect(
+      getRoutineNextRunAt(
+        {
+          triggerType: "cron",
+          status: "active",
+          triggerConfig: { expression: "@hourly", endAt: after },
+        },
+        after,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("isValidTimezone", () => {
+  it("should accept IANA timezones", () => {
+    expect(isValidTimezone("UTC")).toBe(true);
+    expect(isValidTimezone("America/Sao_Paulo")).toBe(true);
+  });
+
+  it("should reject unknown timezones", () => {
+    expect(isValidTimezone("Mars/Base")).toBe(false);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Cron schedule parsing and next-fire computation for cron-triggered routines.
+ *
+ * Supports standard 5-field expressions (minute hour day-of-month month
+ * day-of-week) with lists, ranges, steps, month/weekday names and the
+ * common @hourly/@daily/@weekly/@monthly/@yearly macros. Fire times are
+ * evaluated in the configured IANA timezone (UTC by default).
+ */
+
+/**
+ * Typed trigger config for routines with triggerType "cron"
+ */
+export interface CronTriggerConfig {
+  /** 5-field cron expression, e.g. "0 9 * * 1-5" */
+  expression: string;
+  /** IANA timezone the expression is evaluated in (defaults to UTC) */
+  timezone?: string;
+  /** Don't fire before this timestamp (ms) */
+  startAt?: number;
+  /** Don't fire after this timestamp (ms) */
+  endAt?: number;
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not "*") */
+  restrictedDayOfMonth: boolean;
+  /** Whether day-of-week was restricted (not "*") */
+  restrictedDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as an alias for Sunday
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+] as const;
+
+/** Upper bound on search steps so impossible schedules (e.g. Feb 30) terminate */
+const MAX_SEARCH_STEPS = 5 * 366 * 24;
+
+/**
+ * Validate and normalize a routine's triggerConfig for cron routines.
+ * Throws with a user-facing message if the config is invalid.
+ */
+export function parseCronTriggerConfig(value: unknown): CronTriggerConfig {
+  if (!value || typeof value !== "object") {
+    throw new Error("Cron trigger requires a schedule expression");
+  }
+
+  const raw = value as Record<string, unknown>;
+  // "schedule" is the key used by routines created before the typed config
+  const expression = raw.expression ?? raw.schedule;
+  if (typeof expression !== "string" || expression.trim() === "") {
+    throw new Error("Cron trigger requires a schedule expression");
+  }
+
+  parseCronExpression(expression);
+
+  const config: CronTriggerConfig = { expression: expression.trim() };
+
+  if (raw.timezone !== undefined && raw.timezone !== "") {
+    if (typeof raw.timezone !== "string" || !isValidTimezone(raw.timezone)) {
+      throw new Error(`Unknown timezone: ${String(raw.timezone)}`);
+    }
+    config.timezone = raw.timezone;
+  }
+
+  for (const key of ["startAt", "endAt"] as const) {
+    const bound = raw[key];
+    if (bound === undefined || bound === null) continue;
+    if (typeof bound !== "number" || !Number.isFinite(bound)) {
+      throw new Error(`Cron trigger ${key} must be a timestamp`);
+    }
+    config[key] = bound;
+  }
+
+  if (
+    config.startAt !== undefined &&
+    config.endAt !== undefined &&
+    config.endAt <= config.startAt
+  ) {
+    throw new Error("Cron trigger endAt must be after startAt");
+  }
+
+  return config;
+}
+
+/**
+ * Parse a cron expression into its allowed values per field.
+ * Throws with a descriptive message on invalid syntax.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const expanded = MACROS[normalized] ?? normalized;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index]!),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Normalize Sunday (7 -> 0)
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: parts[2] !== "*",
+    restrictedDayOfWeek: parts[4] !== "*",
+  };
+}
+
+/**
+ * Compute the next fire time strictly after `after`, honoring the
+ * config's timezone and start/end window. Returns null when the schedule
+ * never fires again.
+ */
+export function getNextCronRun(
+  config: CronTriggerConfig,
+  after: number,
+): number | null {
+  const schedule = parseCronExpression(config.expression);
+  const timezone = config.timezone ?? "UTC";
+
+  // Start searching from the first whole minute after the reference point
+  const from =
+    config.startAt !== undefined ? Math.max(after, config.startAt - 1) : after;
+  let candidate = Math.floor(from / 60_000) * 60_000 + 60_000;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (config.endAt !== undefined && candidate > config.endAt) {
+      return null;
+    }
+
+    const parts = getZonedParts(candidate, timezone);
+
+    // Hour-granular skipping keeps DST transitions correct: local days may be
+    // 23 or 25 hours long, so we never assume a fixed day length.
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      candidate += (60 - parts.minute) * 60_000;
+      continue;
+    }
+
+    if (!schedule.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * 60_000;
+      continue;
+    }
+
+    if (!schedule.minutes.has(parts.minute)) {
+      const nextMinute = findNext(schedule.minutes, parts.minute);
+      candidate +=
+        (nextMinute === undefined
+          ? 60 - parts.minute
+          : nextMinute - parts.minute) * 60_000;
+      continue;
+    }
+
+    // Wall-clock times repeated when clocks go back only fire the first time
+    const hourEarlier = getZonedParts(candidate - 3_600_000, timezone);
+    if (
+      hourEarlier.day === parts.day &&
+      hourEarlier.hour === parts.hour &&
+      hourEarlier.minute === parts.minute
+    ) {
+      candidate += 60_000;
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Compute the nextRunAt value to store on a routine.
+ * Only active cron routines are scheduled; everything else clears it.
+ */
+export function getRoutineNextRunAt(
+  routine: { triggerType: string; triggerConfig?: unknown; status: string },
+  after: number = Date.now(),
+): number | undefined {
+  if (routine.triggerType !== "cron" || routine.status !== "active") {
+    return undefined;
+  }
+  const config = parseCronTriggerConfig(routine.triggerConfig);
+  return getNextCronRun(config, after) ?? undefined;
+}
+
+/**
+ * Check whether a string is a timezone supported by the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseField(field: string, spec: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const [rangePart, stepPart] = item.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!rangePart || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} field: "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === "*") {
+      start = spec.min;
+      // "*" for day of week covers 0-6; 7 is only an explicit alias
+      end = spec.name === "day of week" ? 6 : spec.max;
+    } else if (rangePart.includes("-")) {
+      const [low, high] = rangePart.split("-");
+      start = parseValue(low, spec, field);
+      end = parseValue(high, spec, field);
+    } else {
+      start = parseValue(rangePart, spec, field);
+      // "5/15" means "starting at 5, every 15"
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid ${spec.name} range: "${rangePart}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(
+  value: string | undefined,
+  spec: (typeof FIELDS)[number],
+  field: string,
+): number {
+  if (value === undefined || value === "") {
+    throw new Error(`Invalid ${spec.name} field: "${field}"`);
+  }
+
+  let parsed: number;
+  if ("names" in spec && spec.names.includes(value as never)) {
+    parsed = (spec.names as readonly string[]).indexOf(value) + spec.nameOffset;
+  } else if (/^\d+$/.test(value)) {
+    parsed = Number(value);
+  } else {
+    throw new Error(`Invalid ${spec.name} value: "${value}"`);
+  }
+
+  if (parsed < spec.min || parsed > spec.max) {
+    throw new Error(
+      `${spec.name} value ${parsed} out of range (${spec.min}-${spec.max})`,
+    );
+  }
+
+  return parsed;
+}
+
+function matchesDay(
+  schedule: CronSchedule,
+  parts: { day: number; weekday: number },
+): boolean {
+  const dayOfMonthMatch = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeekMatch = schedule.daysOfWeek.has(parts.weekday);
+
+  // Standard cron semantics: when both fields are restricted, either may match
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+function findNext(values: Set<number>, current: number): number | undefined {
+  let next: number | undefined;
+  for (const value of values) {
+    if (value > current && (next === undefined || value < next)) {
+      next = value;
+    }
+  }
+  return next;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get wall-clock date parts for a timestamp in the given timezone
+ */
+function getZonedParts(timestamp: number, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday?.toLowerCase() ?? ""),
+  };
+}
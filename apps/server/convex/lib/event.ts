@@ -0,0 +1,118 @@
+/**
+ * Event trigger config and event matching for event-triggered routines.
+ *
+ * A routine with triggerType "event" subscribes to exactly one event:
+ * another routine completing or failing, or a custom event published by an
+ * emit-event node. Events only reach routines owned by the same user.
+ */
+
+/**
+ * Typed trigger config for routines with triggerType "event"
+ */
+export type EventTriggerConfig =
+  | {
+      event: "routine.completed" | "routine.failed";
+      /** Routine whose executions are watched */
+      routineId: string;
+    }
+  | {
+      event: "custom";
+      /** Name passed to an emit-event node */
+      name: string;
+    };
+
+/**
+ * Event chains deeper than this are dropped, so routines that trigger
+ * each other (directly or in a cycle) can't run forever
+ */
+export const MAX_EVENT_DEPTH = 10;
+
+const CUSTOM_EVENT_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+
+/**
+ * Validate and normalize a routine's triggerConfig for event routines
+ */
+export function parseEventTriggerConfig(value: unknown): EventTriggerConfig {
+  const raw = (value ?? {}) as Record<string, unknown>;
+
+  switch (raw.event) {
+    case "routine.completed":
+    case "routine.failed": {
+      if (typeof raw.routineId !== "string" || raw.routineId.length === 0) {
+        throw new Error("Event trigger requires a routine to watch");
+      }
+      return { event: raw.event, routineId: raw.routineId };
+    }
+
+    case "custom": {
+      const name = typeof raw.name === "string" ? raw.name.trim() : "";
+      if (!name) {
+        throw new Error("Custom event trigger requires an event name");
+      }
+      if (!CUSTOM_EVENT_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Invalid event name "${name}": use letters, digits, ".", "_", ":" or "-"`,
+        );
+      }
+      return { event: "custom", name };
+    }
+
+    default:
+      throw new Error(`Unknown event type: ${String(raw.event)}`);
+  }
+}
+
+/**
+ * Key identifying an event, matched against subscribers' `eventKey`
+ */
+export function getEventKey(config: EventTriggerConfig): string {
+  return config.event === "custom"
+    ? `custom:${config.name}`
+    : `${config.event}:${config.routineId}`;
+}
+
+/**
+ * Compute the `eventKey` a routine subscribes to, or undefined if the
+ * routine isn't event-triggered
+ */
+export function getRoutineEventKey(routine: {
+  triggerType: string;
+  triggerConfig?: unknown;
+}): string | undefined {
+  if (routine.triggerType !== "event") {
+    return undefined;
+  }
+  return getEventKey(parseEventTriggerConfig(routine.triggerConfig));
+}
+
+/**
+ * Collect an execution's final outputs: outputs of completed nodes that
+ * don't feed into another node that ran. For a linear routine this is the
+ * last node; for branching routines it's the end of each taken branch.
+ */
+export function getFinalOutputs(
+  connections: Array<{ sourceNodeId: string; targetNodeId: string }>,
+  nodeStates: Array<{ nodeId: string; status: string; output?: unknown }>,
+): Record<string, unknown> {
+  const completed = new Map<string, unknown>();
+  for (const state of nodeStates) {
+    if (state.status === "completed") {
+      completed.set(state.nodeId, state.output);
+    }
+  }
+
+  const feedsCompletedNode = new Set<string>();
+  for (const connection of connections) {
+    if (completed.has(connection.targetNodeId)) {
+      feedsCompletedNode.add(connection.sourceNodeId);
+    }
+  }
+
+  const outputs: Record<string, unknown> = {};
+  for (const [nodeId, output] of completed) {
+    if (!feedsCompletedNode.has(nodeId)) {
+      outputs[nodeId] = output;
+    }
+  }
+  return outputs;
+}
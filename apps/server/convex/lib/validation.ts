@@ -0,0 +1,59 @@
+/**
+ * Checks a routine must pass before it's published.
+ *
+ * The editor runs the same validation to show problems while editing;
+ * publishing repeats it here so an invalid graph can't reach production
+ * by calling the mutation directly.
+ */
+
+import {
+  type RoutineDefinition,
+  validateExpressions,
+  validateExpressionTypes,
+  validateGraph,
+} from "@kianax/execution-engine";
+import { getPluginSchemas } from "@kianax/plugins/registry";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Convert a routine's draft graph to the execution engine's format
+ */
+function toRoutineDefinition(routine: Doc<"routines">): RoutineDefinition {
+  return {
+    id: routine._id,
+    name: routine.name,
+    nodes: routine.nodes.map((node) => ({
+      id: node.id,
+      pluginId: node.pluginId,
+      label: node.label || node.pluginId,
+      parameters: node.config || {},
+      credentialMappings: node.credentialMappings,
+      onError: node.onError,
+      retry: node.retry,
+      timeout: node.timeout,
+    })),
+    connections: routine.connections.map((connection) => ({
+      id: connection.id,
+      sourceNodeId: connection.sourceNodeId,
+      targetNodeId: connection.targetNodeId,
+      sourceHandle: connection.sourceHandle || undefined,
+      targetHandle: connection.targetHandle || undefined,
+    })),
+    variables: routine.variables,
+  };
+}
+
+/**
+ * Messages of the graph and expression errors that block publishing a
+ * routine's draft, empty when it can be published
+ */
+export function getPublishProblems(routine: Doc<"routines">): string[] {
+  const definition = toRoutineDefinition(routine);
+  return [
+    ...validateGraph(definition).errors,
+    ...validateExpressions(definition).errors,
+    ...validateExpressionTypes(definition, (node) =>
+      getPluginSchemas(node.pluginId, node.parameters),
+    ),
+  ].map((error) => error.message);
+}
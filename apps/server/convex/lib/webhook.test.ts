@@ -0,0 +1,270 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  parseWebhookTriggerConfig,
+  timingSafeEqual,
+  toWebhookRequestData,
+  verifyWebhookRequest,
+  type WebhookHttpRequest,
+  type WebhookVerification,
+} from "./webhook";
+
+function request(
+  headers: Record<string, string>,
+  body = '{"event":"push"}',
+): WebhookHttpRequest {
+  return {
+    method: "POST",
+    url: "https://example.convex.site/webhooks/token?source=test",
+    headers,
+    body,
+  };
+}
+
+const SHARED_SECRET: WebhookVerification = {
+  type: "shared-secret",
+  header: "x-webhook-secret",
+  secret: "s3cret",
+};
+
+const HMAC: WebhookVerification = {
+  type: "hmac",
+  header: "x-hub-signature-256",
+  secret: "It's a Secret to Everybody",
+  algorithm: "sha256",
+  encoding: "hex",
+  prefix: "sha256=",
+};
+
+describe("parseWebhookTriggerConfig", () => {
+  it("should generate a token and use defaults for new webhooks", () => {
+    const config = parseWebhookTriggerConfig(undefined);
+
+    expect(config.token).toMatch(/^[0-9a-f]{48}$/);
+    expect(config).toMatchObject({
+      verification: { type: "none" },
+      responseMode: "immediate",
+      responseTimeoutMs: 30_000,
+    });
+  });
+
+  it("should keep the previous token and settings when updating", () => {
+    const previous = parseWebhookTriggerConfig({
+      responseMode: "respond-node",
+      responseTimeoutMs: 5_000,
+      verification: SHARED_SECRET,
+    });
+
+    expect(parseWebhookTriggerConfig({}, previous)).toEqual(previous);
+    expect(parseWebhookTriggerConfig({ token: "new" }, previous).token).toBe(
+      "new",
+    );
+  });
+
+  it("should normalize verification headers", () => {
+    const config = parseWebhookTriggerConfig({
+      verification: { type: "hmac", header: " X-Signature ", secret: "key" },
+    });
+
+    expect(config.verification).toEqual({
+      type: "hmac",
+      header: "x-signature",
+      secret: "key",
+      algorithm: "sha256",
+      encoding: "hex",
+      prefix: undefined,
+    });
+  });
+
+  it("should reject invalid configs", () => {
+    expect(() => parseWebhookTriggerConfig({ responseMode: "later" })).toThrow(
+      "Unknown webhook response mode: later",
+    );
+    expect(() => parseWebhookTriggerConfig({ responseTimeoutMs: 500 })).toThrow(
+      "Webhook response timeout must be between 1 and 300 seconds",
+    );
+    expect(() =>
+      parseWebhookTriggerConfig({ responseTimeoutMs: "soon" }),
+    ).toThrow("Webhook response timeout must be between");
+    expect(() =>
+      parseWebhookTriggerConfig({
+        verification: { type: "shared-secret", header: "x-secret" },
+      }),
+    ).toThrow("Shared secret verification requires a header and secret");
+    expect(() =>
+      parseWebhookTriggerConfig({
+        verification: { type: "hmac", header: "", secret: "key" },
+      }),
+    ).toThrow("HMAC verification requires a header and secret");
+    expect(() =>
+      parseWebhookTriggerConfig({
+        verification: {
+          type: "hmac",
+          header: "x-signature",
+          secret: "key",
+          algorithm: "md5",
+        },
+      }),
+    ).toThrow("Unsupported HMAC algorithm: md5");
+    expect(() =>
+      parseWebhookTriggerConfig({
+        verification: {
+          type: "hmac",
+          header: "x-signature",
+          secret: "key",
+          encoding: "base32",
+        },
+      }),
+    ).toThrow("Unsupported signature encoding: base32");
+    expect(() =>
+      parseWebhookTriggerConfig({ verification: { type: "basic" } }),
+    ).toThrow("Unknown webhook verification type: basic");
+  });
+});
+
+describe("verifyWebhookRequest", () => {
+  it("should accept any request without verification", async () => {
+    expect(await verifyWebhookRequest({ type: "none" }, request({}))).toBe(
+      null,
+    );
+  });
+
+  it("should check the shared secret header", async () => {
+    expect(
+      await verifyWebhookRequest(
+        SHARED_SECRET,
+        request({ "x-webhook-secret": "s3cret" }),
+      ),
+    ).toBe(null);
+    expect(
+      await verifyWebhookRequest(
+        SHARED_SECRET,
+        request({ "x-webhook-secret": "s3cret!" }),
+      ),
+    ).toBe("Missing or invalid x-webhook-secret header");
+    expect(await verifyWebhookRequest(SHARED_SECRET, request({}))).toBe(
+      "Missing or invalid x-webhook-secret header",
+    );
+  });
+
+  it("should check HMAC signatures of the body", async () => {
+    // Example from GitHub's webhook documentation
+    const body = "Hello, World!";
+    const signature =
+      "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17";
+
+    expect(
+      await verifyWebhookRequest(
+        HMAC,
+        request({ "x-hub-signature-256": signature }, body),
+      ),
+    ).toBe(null);
+    expect(
+      await verifyWebhookRequest(
+        HMAC,
+        request({ "x-hub-signature-256": signature }, `${body}!`),
+      ),
+    ).toBe("Invalid webhook signature");
+    expect(await verifyWebhookRequest(HMAC, request({}, body))).toBe(
+      "Missing x-hub-signature-256 header",
+    );
+  });
+
+  it("should support SHA-1 and base64 signatures without a prefix", async () => {
+    const verification: WebhookVerification = {
+      type: "hmac",
+      header: "x-signature",
+      secret: "key",
+      algorithm: "sha1",
+      encoding: "base64",
+    };
+    const body = '{"id":1}';
+    const signature = createHmac("sha1", "key").update(body).digest("base64");
+
+    expect(
+      await verifyWebhookRequest(
+        verification,
+        request({ "x-signature": signature }, body),
+      ),
+    ).toBe(null);
+    expect(
+      await verifyWebhookRequest(
+        verification,
+        request(
+          {
+            "x-signature": createHmac("sha1", "other")
+              .update(body)
+              .digest("base64"),
+          },
+          body,
+        ),
+      ),
+    ).toBe("Invalid webhook signature");
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("should compare strings", () => {
+    expect(timingSafeEqual("secret", "secret")).toBe(true);
+    expect(timingSafeEqual("", "")).toBe(true);
+    expect(timingSafeEqual("secret", "secreT")).toBe(false);
+  });
+
+  it("should reject strings of different lengths", () => {
+    expect(timingSafeEqual("secret", "secret2")).toBe(false);
+    expect(timingSafeEqual("secretsecret", "secret")).toBe(false);
+    expect(timingSafeEqual("secret", "")).toBe(false);
+    expect(timingSafeEqual("", "secret")).toBe(false);
+  });
+
+  it("should compare multibyte characters by their bytes", () => {
+    expect(timingSafeEqual("clé", "clé")).toBe(true);
+    expect(timingSafeEqual("clé", "cle")).toBe(false);
+  });
+});
+
+describe("toWebhookRequestData", () => {
+  it("should parse the query and JSON body without the verification header", () => {
+    const data = toWebhookRequestData(
+      request({
+        "content-type": "application/json",
+        "x-webhook-secret": "s3cret",
+        "user-agent": "test",
+      }),
+      SHARED_SECRET,
+    );
+
+    expect(data).toEqual({
+      method: "POST",
+      headers: { "content-type": "application/json", "user-agent": "test" },
+      query: { source: "test" },
+      body: { event: "push" },
+    });
+  });
+
+  it("should parse form bodies and pass other bodies through", () => {
+    const form = request(
+      { "content-type": "application/x-www-form-urlencoded" },
+      "a=1&b=two",
+    );
+    const text = request({ "content-type": "text/plain" }, "hello");
+
+    expect(toWebhookRequestData(form, { type: "none" }).body).toEqual({
+      a: "1",
+      b: "two",
+    });
+    expect(toWebhookRequestData(text, { type: "none" }).body).toBe("hello");
+    expect(
+      toWebhookRequestData(request({}, ""), { type: "none" }).body,
+    ).toBeUndefined();
+  });
+
+  it("should throw on malformed JSON", () => {
+    expect(() =>
+      toWebhookRequestData(
+        request({ "content-type": "application/json" }, "{bad"),
+        { type: "none" },
+      ),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Webhook trigger config, request verification and payload parsing.
+ *
+ * Each webhook routine gets a random secret token that is part of its URL.
+ * Requests can additionally be verified with a shared secret header or an
+ * HMAC signature of the raw body (GitHub/Stripe style).
+ */
+
+/**
+ * How incoming webhook requests are verified (in addition to the URL token)
+ */
+export type WebhookVerification =
+  | { type: "none" }
+  | {
+      type: "shared-secret";
+      /** Header carrying the secret, e.g. "x-webhook-secret" */
+      header: string;
+      secret: string;
+    }
+  | {
+      type: "hmac";
+      /** Header carrying the signature, e.g. "x-hub-signature-256" */
+      header: string;
+      secret: string;
+      algorithm: "sha256" | "sha1";
+      encoding: "hex" | "base64";
+      /** Prefix stripped from the header value, e.g. "sha256=" */
+      prefix?: string;
+    };
+
+/**
+ * When the webhook caller gets its response:
+ * - "immediate": right away with 202 and the execution ID
+ * - "respond-node": when the routine reaches a Respond to Webhook node
+ */
+export type WebhookResponseMode = "immediate" | "respond-node";
+
+const DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_MS = 30_000;
+const MIN_WEBHOOK_RESPONSE_TIMEOUT_MS = 1_000;
+const MAX_WEBHOOK_RESPONSE_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Typed trigger config for routines with triggerType "webhook"
+ */
+export interface WebhookTriggerConfig {
+  /** Secret token embedded in the webhook URL */
+  token: string;
+  verification: WebhookVerification;
+  responseMode: WebhookResponseMode;
+  /** How long a "respond-node" webhook waits before a fallback response */
+  responseTimeoutMs: number;
+}
+
+/**
+ * Serializable form of an incoming HTTP request, passed from the HTTP
+ * router to the webhook action. Header names are lowercased.
+ */
+export interface WebhookHttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Request data exposed to the routine as {{ trigger.* }}
+ */
+export interface WebhookRequestData {
+  method: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Generate a URL-safe random token for webhook URLs
+ */
+export function generateWebhookToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return toHex(bytes);
+}
+
+/**
+ * Validate and normalize a routine's triggerConfig for webhook routines.
+ * Keeps the existing token when the update doesn't include one, and
+ * generates a token for new webhook routines.
+ */
+export function parseWebhookTriggerConfig(
+  value: unknown,
+  previous?: unknown,
+): WebhookTriggerConfig {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const prev = (previous ?? {}) as Record<string, unknown>;
+
+  const token =
+    typeof raw.token === "string" && raw.token.length > 0
+      ? raw.token
+      : typeof prev.token === "string" && prev.token.length > 0
+        ? prev.token
+        : generateWebhookToken();
+
+  const responseMode = raw.responseMode ?? prev.responseMode ?? "immediate";
+  if (responseMode !== "immediate" && responseMode !== "respond-node") {
+    throw new Error(`Unknown webhook response mode: ${String(responseMode)}`);
+  }
+
+  const responseTimeoutMs = Number(
+    raw.responseTimeoutMs ??
+      prev.responseTimeoutMs ??
+      DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_MS,
+  );
+  if (
+    !Number.isFinite(responseTimeoutMs) ||
+    responseTimeoutMs < MIN_WEBHOOK_RESPONSE_TIMEOUT_MS ||
+    responseTimeoutMs > MAX_WEBHOOK_RESPONSE_TIMEOUT_MS
+  ) {
+    throw new Error(
+      `Webhook response timeout must be between ${MIN_WEBHOOK_RESPONSE_TIMEOUT_MS / 1000} and ${MAX_WEBHOOK_RESPONSE_TIMEOUT_MS / 1000} seconds`,
+    );
+  }
+
+  return {
+    token,
+    verification: parseVerification(raw.verification ?? prev.verification),
+    responseMode,
+    responseTimeoutMs,
+  };
+}
+
+function parseVerification(value: unknown): WebhookVerification {
+  if (!value || typeof value !== "object") {
+    return { type: "none" };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const header = typeof raw.header === "string" ? raw.header.trim() : "";
+  const secret = typeof raw.secret === "string" ? raw.secret : "";
+
+  switch (raw.type) {
+    case "none":
+    case undefined:
+      return { type: "none" };
+
+    case "shared-secret":
+      if (!header || !secret) {
+        throw new Error(
+          "Shared secret verification requires a header and secret",
+        );
+      }
+      return { type: "shared-secret", header: header.toLowerCase(), secret };
+
+    case "hmac": {
+      if (!header || !secret) {
+        throw new Error("HMAC verification requires a header and secret");
+      }
+      const algorithm = raw.algorithm ?? "sha256";
+      if (algorithm !== "sha256" && algorithm !== "sha1") {
+        throw new Error(`Unsupported HMAC algorithm: ${String(algorithm)}`);
+      }
+      const encoding = raw.encoding ?? "hex";
+      if (encoding !== "hex" && encoding !== "base64") {
+        throw new Error(`Unsupported signature encoding: ${String(encoding)}`);
+      }
+      return {
+        type: "hmac",
+        header: header.toLowerCase(),
+        secret,
+        algorithm,
+        encoding,
+        prefix:
+          typeof raw.prefix === "string" && raw.prefix ? raw.prefix : undefined,
+      };
+    }
+
+    default:
+      throw new Error(`Unknown webhook verification type: ${String(raw.type)}`);
+  }
+}
+
+/**
+ * Verify a webhook request against the routine's verification settings.
+ * Returns an error message, or null if the request is valid.
+ */
+export async function verifyWebhookRequest(
+  verification: WebhookVerification,
+  request: WebhookHttpRequest,
+): Promise<string | null> {
+  switch (verification.type) {
+    case "none":
+      return null;
+
+    case "shared-secret": {
+      const provided = request.headers[verification.header];
+      if (!provided || !timingSafeEqual(provided, verification.secret)) {
+        return `Missing or invalid ${verification.header} header`;
+      }
+      return null;
+    }
+
+    case "hmac": {
+      let provided = request.headers[verification.header];
+      if (!provided) {
+        return `Missing ${verification.header} header`;
+      }
+      if (verification.prefix && provided.startsWith(verification.prefix)) {
+        provided = provided.slice(verification.prefix.length);
+      }
+
+      const expected = await computeHmac(
+        verification.secret,
+        request.body,
+        verification.algorithm,
+        verification.encoding,
+      );
+      if (!timingSafeEqual(provided, expected)) {
+        return "Invalid webhook signature";
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Convert an incoming request into trigger data.
+ * JSON and form bodies are parsed; anything else is passed through as text.
+ * The verification header is left out, since trigger data is stored with
+ * the execution.
+ */
+export function toWebhookRequestData(
+  request: WebhookHttpRequest,
+  verification: WebhookVerification,
+): WebhookRequestData {
+  const url = new URL(request.url);
+
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const headers = { ...request.headers };
+  if (verification.type !== "none") {
+    delete headers[verification.header];
+  }
+
+  return {
+    method: request.method,
+    headers,
+    query,
+    body: parseBody(request.body, request.headers["content-type"]),
+  };
+}
+
+function parseBody(rawBody: string, contentType?: string): unknown {
+  if (rawBody === "") {
+    return undefined;
+  }
+
+  if (contentType?.includes("application/json")) {
+    // Throws on malformed JSON; the HTTP handler turns this into a 400
+    return JSON.parse(rawBody);
+  }
+
+  if (contentType?.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+
+  return rawBody;
+}
+
+async function computeHmac(
+  secret: string,
+  payload: string,
+  algorithm: "sha256" | "sha1",
+  encoding: "hex" | "base64",
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: algorithm === "sha1" ? "SHA-1" : "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, encoder.encode(payload)),
+  );
+
+  return encoding === "base64"
+    ? btoa(String.fromCharCode(...signature))
+    : toHex(signature);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Constant-time string comparison to avoid leaking secrets through timing
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i]! ^ (bBytes[i % bBytes.length] ?? 0);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,28 @@
+/**
+ * Authentication of Temporal workers.
+ *
+ * Functions that only workers may call (recording executions, publishing
+ * events, recording approvals, loading called routines) are public so the
+ * workers' HTTP client can reach them, and take the WORKER_SECRET shared
+ * with the workers as an argument:
+ *
+ *   npx convex env set WORKER_SECRET <random secret>
+ */
+
+import { v } from "convex/values";
+import { timingSafeEqual } from "./webhook";
+
+/**
+ * Argument validator for the worker secret
+ */
+export const workerSecretValidator = v.string();
+
+/**
+ * Throw unless the secret matches the deployment's WORKER_SECRET
+ */
+export function requireWorker(secret: string): void {
+  const expected = process.env.WORKER_SECRET;
+  if (!expected || !timingSafeEqual(secret, expected)) {
+    throw new Error("Unauthorized");
+  }
+}
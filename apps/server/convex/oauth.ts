@@ -1,7 +1,7 @@
 import { v } from "convex/values";
 import { action, query } from "./_generated/server";
 import { internal } from "./_generated/api";
-import { getCredentialType } from "@kianax/plugins";
+import { getCredentialType } from "@kianax/plugins/credentials";
 import { resolveOAuth2Config, fetchOAuth2Token } from "./lib/oauth";
 
 /**
@@ -0,0 +1,218 @@
+/**
+ * Approvals
+ *
+ * Approval nodes pause their execution until someone responds. The
+ * workflow records each request here as a pending approval, listed in the
+ * dashboard; responding records the decision, and the web app then signals
+ * the waiting workflow. Requests nobody answered in time are closed by the
+ * workflow as "timeout" (or "cancelled" when the execution is cancelled).
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+import { requireAuthUser } from "./auth";
+import { requireWorker, workerSecretValidator } from "./lib/worker";
+
+/** Max pending approvals listed in the dashboard */
+const MAX_PENDING = 100;
+
+/**
+ * Check submitted form values against the request's fields. Required
+ * fields only have to be filled in to approve.
+ */
+function validateValues(
+  fields: NonNullable<Doc<"routine_approvals">["fields"]>,
+  values: Record<string, unknown>,
+  decision: "approved" | "rejected",
+): void {
+  for (const field of fields) {
+    const value = values[field.name];
+    const label = field.label || field.name;
+
+    if (value === undefined || value === null || value === "") {
+      if (field.required && decision === "approved") {
+        throw new Error(`${label} is required`);
+      }
+      continue;
+    }
+
+    const valid =
+      field.type === "number"
+        ? typeof value === "number" && Number.isFinite(value)
+        : field.type === "boolean"
+          ? typeof value === "boolean"
+          : typeof value === "string";
+    if (!valid) {
+      throw new Error(`${label} must be a ${field.type}`);
+    }
+  }
+
+  const names = new Set(fields.map((field) => field.name));
+  for (const name of Object.keys(values)) {
+    if (!names.has(name)) {
+      throw new Error(`Unknown field: ${name}`);
+    }
+  }
+}
+
+/**
+ * Record a pending approval for an approval node
+ * Called by Temporal activities when an approval node starts waiting
+ */
+export const create = mutation({
+  args: {
+    workerSecret: workerSecretValidator,
+    workflowId: v.string(),
+    nodeId: v.string(),
+    title: v.string(),
+    instructions: v.optional(v.string()),
+    data: v.optional(v.any()),
+    fields: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          label: v.optional(v.string()),
+          type: v.union(
+            v.literal("text"),
+            v.literal("number"),
+            v.literal("boolean"),
+          ),
+          required: v.optional(v.boolean()),
+        }),
+      ),
+    ),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, { workerSecret, ...args }) => {
+    requireWorker(workerSecret);
+
+    const execution = await ctx.db
+      .query("routine_executions")
+      .withIndex("by_workflow_id", (q) => q.eq("workflowId", args.workflowId))
+      .first();
+
+    if (!execution) {
+      throw new Error(
+        `Execution not found for workflow ID: ${args.workflowId}`,
+      );
+    }
+
+    return await ctx.db.insert("routine_approvals", {
+      ...args,
+      userId: execution.userId,
+      routineId: execution.routineId,
+      status: "pending",
+    });
+  },
+});
+
+/**
+ * Close a node's pending approval without a response
+ * Called by Temporal activities when the approval times out or the
+ * execution is cancelled
+ */
+export const close = mutation({
+  args: {
+    workerSecret: workerSecretValidator,
+    workflowId: v.string(),
+    nodeId: v.string(),
+    status: v.union(v.literal("timeout"), v.literal("cancelled")),
+  },
+  handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
+    const pending = await ctx.db
+      .query("routine_approvals")
+      .withIndex("by_workflow_and_node", (q) =>
+        q.eq("workflowId", args.workflowId).eq("nodeId", args.nodeId),
+      )
+      .filter((q) => q.eq(q.field("status"), "pending"))
+      .collect();
+
+    for (const approval of pending) {
+      await ctx.db.patch(approval._id, { status: args.status });
+    }
+  },
+});
+
+/**
+ * Approve or reject a pending approval
+ * Called by the web app's respond API, which then signals the waiting
+ * workflow with the returned response
+ */
+export const respond = mutation({
+  args: {
+    approvalId: v.id("routine_approvals"),
+    decision: v.union(v.literal("approved"), v.literal("rejected")),
+    values: v.optional(v.record(v.string(), v.any())),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+
+    const approval = await ctx.db.get(args.approvalId);
+    if (!approval || approval.userId !== user._id) {
+      throw new Error("Approval not found");
+    }
+    if (approval.status !== "pending") {
+      throw new Error(`Approval is already ${approval.status}`);
+    }
+    if (approval.expiresAt <= Date.now()) {
+      throw new Error("Approval has expired");
+    }
+
+    const values = args.values ?? {};
+    validateValues(approval.fields ?? [], values, args.decision);
+
+    const comment = args.comment?.trim() || undefined;
+    const respondedBy = { userId: user._id, name: user.name || user.email };
+    const respondedAt = Date.now();
+
+    await ctx.db.patch(approval._id, {
+      status: args.decision,
+      values,
+      comment,
+      respondedBy,
+      respondedAt,
+    });
+
+    return {
+      workflowId: approval.workflowId,
+      response: {
+        nodeId: approval.nodeId,
+        decision: args.decision,
+        values,
+        comment,
+        respondedBy,
+        respondedAt,
+      },
+    };
+  },
+});
+
+/**
+ * List the current user's pending approvals, newest first, with the name
+ * of the routine waiting on each
+ */
+export const listPending = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireAuthUser(ctx);
+
+    const approvals = await ctx.db
+      .query("routine_approvals")
+      .withIndex("by_user_and_status", (q) =>
+        q.eq("userId", user._id).eq("status", "pending"),
+      )
+      .order("desc")
+      .take(MAX_PENDING);
+
+    return await Promise.all(
+      approvals.map(async (approval) => {
+        const routine = await ctx.db.get(approval.routineId);
+        return { ...approval, routineName: routine?.name ?? "Deleted routine" };
+      }),
+    );
+  },
+});
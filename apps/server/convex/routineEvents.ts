@@ -0,0 +1,169 @@
+/**
+ * Routine Events
+ *
+ * Routines with triggerType "event" subscribe to one event (see
+ * lib/event.ts). Two kinds of events are published:
+ *
+ * - "routine.completed" / "routine.failed" when an execution finishes;
+ *   subscribers get the execution's final node outputs as trigger data
+ * - "custom" events published by emit-event nodes; subscribers get the
+ *   emitted payload as trigger data
+ *
+ * Each matching active routine of the same user gets a new execution with
+ * triggerType "event".
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+} from "./_generated/server";
+import { getEventKey, getFinalOutputs, MAX_EVENT_DEPTH } from "./lib/event";
+import { requireWorker, workerSecretValidator } from "./lib/worker";
+import { getVersionGraph } from "./routineVersions";
+
+/** Max subscribers started per event */
+const MAX_SUBSCRIBERS = 100;
+
+/**
+ * Start executions for all active routines of a user subscribed to an event
+ */
+async function publishEvent(
+  ctx: MutationCtx,
+  event: {
+    userId: string;
+    eventKey: string;
+    /** Unique per event occurrence, used for deterministic workflow IDs */
+    eventId: string;
+    /** Chain depth of the publishing execution (0 if not event-triggered) */
+    sourceDepth: number;
+    triggerData: Record<string, unknown>;
+  },
+): Promise<void> {
+  const depth = event.sourceDepth + 1;
+  if (depth > MAX_EVENT_DEPTH) {
+    console.warn(
+      `Dropping event ${event.eventKey}: event chain exceeded ${MAX_EVENT_DEPTH} levels`,
+    );
+    return;
+  }
+
+  const subscribers = await ctx.db
+    .query("routines")
+    .withIndex("by_event_key", (q) =>
+      q.eq("eventKey", event.eventKey).eq("status", "active"),
+    )
+    .filter((q) => q.eq(q.field("userId"), event.userId))
+    .take(MAX_SUBSCRIBERS);
+
+  const now = Date.now();
+  for (const routine of subscribers) {
+    await ctx.scheduler.runAfter(0, internal.temporal.startRoutineExecution, {
+      routineId: routine._id,
+      workflowId: `event-${routine._id}-${event.eventId}`,
+      triggerType: "event",
+      triggerData: { ...event.triggerData, depth },
+    });
+    await ctx.db.patch(routine._id, { lastExecutedAt: now });
+  }
+}
+
+/**
+ * Chain depth of an execution: how many events led to it
+ */
+function getExecutionDepth(triggerData: unknown): number {
+  const data = triggerData as { source?: unknown; depth?: unknown } | undefined;
+  return data?.source === "event" && typeof data.depth === "number"
+    ? data.depth
+    : 0;
+}
+
+/**
+ * Publish "routine.completed" / "routine.failed" for a finished execution.
+ * Scheduled by executions.updateStatus.
+ */
+export const publishExecutionFinished = internalMutation({
+  args: {
+    executionId: v.id("routine_executions"),
+  },
+  handler: async (ctx, args) => {
+    const execution = await ctx.db.get(args.executionId);
+    if (
+      !execution ||
+      (execution.status !== "completed" && execution.status !== "failed")
+    ) {
+      return;
+    }
+
+    const routine = await ctx.db.get(execution.routineId);
+    if (!routine) return;
+    // The final nodes of the version that ran, not of the current draft
+    const graph = await getVersionGraph(ctx, routine, execution.routineVersion);
+
+    const event =
+      execution.status === "completed" ? "routine.completed" : "routine.failed";
+
+    await publishEvent(ctx, {
+      userId: execution.userId,
+      eventKey: getEventKey({ event, routineId: routine._id }),
+      eventId: execution.workflowId,
+      sourceDepth: getExecutionDepth(execution.triggerData),
+      triggerData: {
+        source: "event",
+        event,
+        routineId: routine._id,
+        routineName: routine.name,
+        executionId: execution.workflowId,
+        outputs: getFinalOutputs(graph.connections, execution.nodeStates),
+        ...(execution.error !== undefined && { error: execution.error }),
+      },
+    });
+  },
+});
+
+/**
+ * Publish a custom event from an emit-event node
+ * Called by Temporal activities during workflow execution
+ */
+export const emit = mutation({
+  args: {
+    workerSecret: workerSecretValidator,
+    workflowId: v.string(),
+    nodeId: v.string(),
+    name: v.string(),
+    payload: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
+    const execution = await ctx.db
+      .query("routine_executions")
+      .withIndex("by_workflow_id", (q) => q.eq("workflowId", args.workflowId))
+      .first();
+
+    if (!execution) {
+      throw new Error(
+        `Execution not found for workflow ID: ${args.workflowId}`,
+      );
+    }
+
+    const now = Date.now();
+    await publishEvent(ctx, {
+      userId: execution.userId,
+      eventKey: getEventKey({ event: "custom", name: args.name }),
+      eventId: `${execution.workflowId}-${args.nodeId}-${now}`,
+      sourceDepth: getExecutionDepth(execution.triggerData),
+      triggerData: {
+        source: "event",
+        event: "custom",
+        name: args.name,
+        payload: args.payload,
+        routineId: execution.routineId,
+        executionId: execution.workflowId,
+        emittedAt: now,
+      },
+    });
+  },
+});
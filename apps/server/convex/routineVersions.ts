@@ -0,0 +1,368 @@
+/**
+ * Routine Versions
+ *
+ * Every change to a routine's graph (nodes, connections or variables)
+ * bumps its version, and the new graph is recorded here as a snapshot with
+ * its author and an optional message. So that auto-saving the editor
+ * doesn't fill the history, a change without a message replaces the
+ * previous snapshot when the same author recorded it without a message a
+ * few minutes earlier, unless it was published or an execution ran it;
+ * other snapshots never change. Moving nodes on the canvas only updates
+ * the draft, so snapshots keep the positions of their last change. Executions store the version they ran, so a run can be
+ * inspected against the exact graph that produced it. Rolling back applies
+ * an earlier snapshot as a new version, so history is never rewritten.
+ *
+ * The routine document holds the draft graph. Publishing points the
+ * routine's publishedVersion at a version, whose snapshot production
+ * triggers run.
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { requireAuthUser } from "./auth";
+
+/** Max versions listed in the editor's history panel */
+const MAX_VERSIONS = 100;
+
+/** How long after its first save a snapshot absorbs unnamed changes */
+const MERGE_WINDOW_MS = 10 * 60 * 1000;
+
+/** Versions deleted per mutation when a routine is deleted */
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Record the graph of a routine's new version
+ * Called by the routine mutations that change the graph, with the version
+ * they set
+ */
+export async function recordRoutineVersion(
+  ctx: MutationCtx,
+  routine: Pick<
+    Doc<"routines">,
+    "_id" | "version" | "nodes" | "connections" | "variables"
+  >,
+  author: Doc<"routine_versions">["author"],
+  message?: string,
+): Promise<void> {
+  const trimmedMessage = message?.trim() || undefined;
+  const previous = trimmedMessage
+    ? null
+    : await getMergeableSnapshot(ctx, routine._id, author);
+  if (previous) {
+    await ctx.db.patch(previous._id, {
+      version: routine.version,
+      nodes: routine.nodes,
+      connections: routine.connections,
+      variables: routine.variables,
+    });
+    return;
+  }
+
+  await ctx.db.insert("routine_versions", {
+    routineId: routine._id,
+    version: routine.version,
+    nodes: routine.nodes,
+    connections: routine.connections,
+    variables: routine.variables,
+    author,
+    message: trimmedMessage,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * The latest snapshot of a routine if an unnamed change by the author can
+ * replace it: recorded by them without a message within the merge window,
+ * and neither published nor run since
+ */
+async function getMergeableSnapshot(
+  ctx: MutationCtx,
+  routineId: Id<"routines">,
+  author: Doc<"routine_versions">["author"],
+) {
+  const latest = await ctx.db
+    .query("routine_versions")
+    .withIndex("by_routine_and_version", (q) => q.eq("routineId", routineId))
+    .order("desc")
+    .first();
+  if (
+    !latest ||
+    latest.message !== undefined ||
+    latest.author.userId !== author.userId ||
+    latest.createdAt < Date.now() - MERGE_WINDOW_MS
+  ) {
+    return null;
+  }
+
+  const routine = await ctx.db.get(routineId);
+  if (routine?.publishedVersion === latest.version) {
+    return null;
+  }
+
+  const execution = await ctx.db
+    .query("routine_executions")
+    .withIndex("by_routine_and_version", (q) =>
+      q.eq("routineId", routineId).eq("routineVersion", latest.version),
+    )
+    .first();
+  return execution ? null : latest;
+}
+
+/**
+ * Find the snapshot of a routine version
+ */
+async function getSnapshot(
+  ctx: QueryCtx,
+  routineId: Id<"routines">,
+  version: number,
+) {
+  return await ctx.db
+    .query("routine_versions")
+    .withIndex("by_routine_and_version", (q) =>
+      q.eq("routineId", routineId).eq("version", version),
+    )
+    .unique();
+}
+
+/**
+ * The graph production runs of a routine use: the snapshot of its
+ * published version, or its current graph if it was published before
+ * drafts existed
+ */
+export async function getPublishedGraph(
+  ctx: QueryCtx,
+  routine: Doc<"routines">,
+) {
+  return await getVersionGraph(ctx, routine, routine.publishedVersion);
+}
+
+/**
+ * The graph of a routine version, e.g. the one an execution ran: its
+ * snapshot, or the routine's current graph for versions without one
+ */
+export async function getVersionGraph(
+  ctx: QueryCtx,
+  routine: Doc<"routines">,
+  version: number | undefined,
+) {
+  const snapshot =
+    version !== undefined ? await getSnapshot(ctx, routine._id, version) : null;
+  const graph = snapshot ?? routine;
+  return {
+    version: graph.version,
+    nodes: graph.nodes,
+    connections: graph.connections,
+    variables: graph.variables,
+  };
+}
+
+/**
+ * Publish the current version of a routine, recording its snapshot if it
+ * has none (routines created before versions existed)
+ */
+export async function publishCurrentVersion(
+  ctx: MutationCtx,
+  routine: Doc<"routines">,
+  author: Doc<"routine_versions">["author"],
+): Promise<void> {
+  if (!(await getSnapshot(ctx, routine._id, routine.version))) {
+    await recordRoutineVersion(ctx, routine, author);
+  }
+  await ctx.db.patch(routine._id, {
+    publishedVersion: routine.version,
+    publishedAt: Date.now(),
+  });
+}
+
+/**
+ * Publish the current graph of a routine published before drafts existed,
+ * so production keeps running it once the draft changes
+ * Called by the routine mutations before they change the graph
+ */
+export async function keepPublishedGraph(
+  ctx: MutationCtx,
+  routine: Doc<"routines">,
+  author: Doc<"routine_versions">["author"],
+): Promise<void> {
+  if (routine.publishedVersion === undefined) {
+    await publishCurrentVersion(ctx, routine, author);
+  }
+}
+
+/**
+ * Delete the versions of a deleted routine
+ * Runs in batches through the scheduler, so routines with a long history
+ * don't exceed a mutation's limits
+ */
+export async function deleteRoutineVersions(
+  ctx: MutationCtx,
+  routineId: Id<"routines">,
+): Promise<void> {
+  await ctx.scheduler.runAfter(0, internal.routineVersions.deleteBatch, {
+    routineId,
+  });
+}
+
+/**
+ * Delete a batch of a deleted routine's versions, scheduling the next
+ * batch until none are left
+ */
+export const deleteBatch = internalMutation({
+  args: {
+    routineId: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const versions = await ctx.db
+      .query("routine_versions")
+      .withIndex("by_routine_and_version", (q) =>
+        q.eq("routineId", args.routineId),
+      )
+      .take(DELETE_BATCH_SIZE);
+    for (const version of versions) {
+      await ctx.db.delete(version._id);
+    }
+
+    if (versions.length === DELETE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.routineVersions.deleteBatch, {
+        routineId: args.routineId,
+      });
+    }
+  },
+});
+
+/**
+ * List the versions of a routine, newest first, without their graphs
+ */
+export const list = query({
+  args: {
+    routineId: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      return [];
+    }
+
+    const versions = await ctx.db
+      .query("routine_versions")
+      .withIndex("by_routine_and_version", (q) =>
+        q.eq("routineId", args.routineId),
+      )
+      .order("desc")
+      .take(MAX_VERSIONS);
+
+    return versions.map((version) => ({
+      version: version.version,
+      published: version.version === routine.publishedVersion,
+      author: version.author,
+      message: version.message,
+      createdAt: version.createdAt,
+      nodeCount: version.nodes.length,
+      connectionCount: version.connections.length,
+    }));
+  },
+});
+
+/**
+ * Get the snapshot of a routine version
+ * Returns null for versions recorded before snapshots existed
+ */
+export const get = query({
+  args: {
+    routineId: v.id("routines"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      return null;
+    }
+
+    return await getSnapshot(ctx, args.routineId, args.version);
+  },
+});
+
+/**
+ * Roll the draft of a routine back to an earlier version
+ * The snapshot's graph becomes a new version, which is returned
+ */
+export const rollback = mutation({
+  args: {
+    routineId: v.id("routines"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      throw new Error(`Routine ${args.routineId} not found or unauthorized`);
+    }
+
+    const snapshot = await getSnapshot(ctx, args.routineId, args.version);
+    if (!snapshot) {
+      throw new Error(`Version ${args.version} not found`);
+    }
+
+    const author = { userId: user._id, name: user.name || user.email };
+    await keepPublishedGraph(ctx, routine, author);
+
+    const rolledBack = {
+      _id: routine._id,
+      version: routine.version + 1,
+      nodes: snapshot.nodes,
+      connections: snapshot.connections,
+      variables: snapshot.variables,
+    };
+    await ctx.db.patch(routine._id, {
+      nodes: rolledBack.nodes,
+      connections: rolledBack.connections,
+      variables: rolledBack.variables,
+      version: rolledBack.version,
+    });
+    await recordRoutineVersion(
+      ctx,
+      rolledBack,
+      author,
+      `Rolled back to version ${args.version}`,
+    );
+
+    return rolledBack;
+  },
+});
+
+/**
+ * Set or clear the message of a version (its graph can't change)
+ */
+export const setMessage = mutation({
+  args: {
+    routineId: v.id("routines"),
+    version: v.number(),
+    message: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      throw new Error(`Routine ${args.routineId} not found or unauthorized`);
+    }
+
+    const snapshot = await getSnapshot(ctx, args.routineId, args.version);
+    if (!snapshot) {
+      throw new Error(`Version ${args.version} not found`);
+    }
+
+    await ctx.db.patch(snapshot._id, {
+      message: args.message.trim() || undefined,
+    });
+  },
+});
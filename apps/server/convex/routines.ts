@@ -1,6 +1,91 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import {
+  internalMutation,
+  internalQuery,
+  type MutationCtx,
+  mutation,
+  query,
+} from "./_generated/server";
 import { requireAuthUser } from "./auth";
+import { getRoutineNextRunAt, parseCronTriggerConfig } from "./lib/cron";
+import { getRoutineEventKey, parseEventTriggerConfig } from "./lib/event";
+import { getPublishProblems } from "./lib/validation";
+import { parseWebhookTriggerConfig } from "./lib/webhook";
+import { requireWorker, workerSecretValidator } from "./lib/worker";
+import {
+  deleteRoutineVersions,
+  getPublishedGraph,
+  keepPublishedGraph,
+  publishCurrentVersion,
+  recordRoutineVersion,
+} from "./routineVersions";
+
+const triggerTypeValidator = v.union(
+  v.literal("manual"),
+  v.literal("cron"),
+  v.literal("webhook"),
+  v.literal("event"),
+);
+
+// Variable validators (reusable)
+const variableValidator = v.object({
+  id: v.string(),
+  name: v.string(),
+  type: v.union(
+    v.literal("string"),
+    v.literal("number"),
+    v.literal("boolean"),
+    v.literal("json"),
+  ),
+  value: v.any(),
+  description: v.optional(v.string()),
+});
+
+/**
+ * Apply a change to a routine's draft graph as a new version
+ */
+async function commitGraphChange(
+  ctx: MutationCtx,
+  routine: Doc<"routines">,
+  changes: Partial<
+    Pick<Doc<"routines">, "nodes" | "connections" | "variables">
+  >,
+  author: Doc<"routine_versions">["author"],
+): Promise<void> {
+  await keepPublishedGraph(ctx, routine, author);
+  const version = routine.version + 1;
+  await ctx.db.patch(routine._id, { ...changes, version });
+  await recordRoutineVersion(ctx, { ...routine, ...changes, version }, author);
+}
+
+/**
+ * Nodes without their canvas positions, to compare graphs by behavior
+ */
+function withoutPositions(nodes: Doc<"routines">["nodes"]) {
+  return nodes.map(({ position: _position, ...node }) => node);
+}
+
+/**
+ * Validate and normalize triggerConfig for trigger types that have a typed
+ * config. Other trigger types store their config as-is.
+ */
+function normalizeTriggerConfig(
+  triggerType: string,
+  triggerConfig: unknown,
+  previousConfig?: unknown,
+): unknown {
+  switch (triggerType) {
+    case "cron":
+      return parseCronTriggerConfig(triggerConfig);
+    case "webhook":
+      return parseWebhookTriggerConfig(triggerConfig, previousConfig);
+    case "event":
+      return parseEventTriggerConfig(triggerConfig);
+    default:
+      return triggerConfig;
+  }
+}
 
 /**
  * Create a new routine
@@ -15,12 +100,7 @@ export const create = mutation({
       v.literal("paused"),
       v.literal("archived"),
     ),
-    triggerType: v.union(
-      v.literal("manual"),
-      v.literal("cron"),
-      v.literal("webhook"),
-      v.literal("event"),
-    ),
+    triggerType: triggerTypeValidator,
     triggerConfig: v.optional(v.any()),
     nodes: v.array(
       v.object({
@@ -30,6 +110,24 @@ export const create = mutation({
         position: v.object({ x: v.number(), y: v.number() }),
         config: v.optional(v.any()),
         credentialMappings: v.optional(v.record(v.string(), v.string())),
+        onError: v.optional(
+          v.union(
+            v.literal("stop"),
+            v.literal("continue"),
+            v.literal("error-handle"),
+          ),
+        ),
+        retry: v.optional(
+          v.object({
+            maxAttempts: v.optional(v.number()),
+            initialInterval: v.optional(v.number()),
+            backoffCoefficient: v.optional(v.number()),
+            maximumInterval: v.optional(v.number()),
+            retryableErrorCodes: v.optional(v.array(v.string())),
+          }),
+        ),
+        timeout: v.optional(v.number()),
+        pinnedData: v.optional(v.any()),
       }),
     ),
     connections: v.array(
@@ -45,18 +143,46 @@ export const create = mutation({
   },
   handler: async (ctx, args) => {
     const user = await requireAuthUser(ctx);
+    const triggerConfig = normalizeTriggerConfig(
+      args.triggerType,
+      args.triggerConfig,
+    );
+
     const routineId = await ctx.db.insert("routines", {
       userId: user._id,
       name: args.name,
       description: args.description,
       status: args.status,
       triggerType: args.triggerType,
-      triggerConfig: args.triggerConfig,
+      triggerConfig,
+      nextRunAt: getRoutineNextRunAt({
+        triggerType: args.triggerType,
+        triggerConfig,
+        status: args.status,
+      }),
+      eventKey: getRoutineEventKey({
+        triggerType: args.triggerType,
+        triggerConfig,
+      }),
       nodes: args.nodes,
       connections: args.connections,
       tags: args.tags,
+      // The initial graph is what triggers run until a draft is published
       version: 1,
+      publishedVersion: 1,
+      publishedAt: Date.now(),
     });
+    await recordRoutineVersion(
+      ctx,
+      {
+        _id: routineId,
+        version: 1,
+        nodes: args.nodes,
+        connections: args.connections,
+      },
+      { userId: user._id, name: user.name || user.email },
+      "Created",
+    );
 
     return routineId;
   },
@@ -128,6 +254,8 @@ export const update = mutation({
         v.literal("archived"),
       ),
     ),
+    triggerType: v.optional(triggerTypeValidator),
+    triggerConfig: v.optional(v.any()),
     nodes: v.optional(
       v.array(
         v.object({
@@ -137,6 +265,24 @@ export const update = mutation({
           position: v.object({ x: v.number(), y: v.number() }),
           config: v.optional(v.any()),
           credentialMappings: v.optional(v.record(v.string(), v.string())),
+          onError: v.optional(
+            v.union(
+              v.literal("stop"),
+              v.literal("continue"),
+              v.literal("error-handle"),
+            ),
+          ),
+          retry: v.optional(
+            v.object({
+              maxAttempts: v.optional(v.number()),
+              initialInterval: v.optional(v.number()),
+              backoffCoefficient: v.optional(v.number()),
+              maximumInterval: v.optional(v.number()),
+              retryableErrorCodes: v.optional(v.array(v.string())),
+            }),
+          ),
+          timeout: v.optional(v.number()),
+          pinnedData: v.optional(v.any()),
         }),
       ),
     ),
@@ -151,30 +297,135 @@ export const update = mutation({
         }),
       ),
     ),
+    variables: v.optional(v.array(variableValidator)),
     tags: v.optional(v.array(v.string())),
+    // Describes the new version when the graph changes
+    message: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const user = await requireAuthUser(ctx);
-    const { id, ...updates } = args;
+    const { id, message, ...updates } = args;
 
-    // Get current routine to increment version if nodes/connections changed
+    // Get current routine to increment version if the graph changed
     const current = await ctx.db.get(id);
     if (!current || current.userId !== user._id) {
       throw new Error(`Routine ${id} not found or unauthorized`);
     }
 
+    // Saving an unchanged graph (e.g. before publishing) keeps the version,
+    // and so does only moving nodes: positions are saved without a snapshot
     const shouldIncrementVersion =
-      updates.nodes !== undefined || updates.connections !== undefined;
+      (updates.nodes !== undefined &&
+        JSON.stringify(withoutPositions(updates.nodes)) !==
+          JSON.stringify(withoutPositions(current.nodes))) ||
+      (["connections", "variables"] as const).some(
+        (key) =>
+          updates[key] !== undefined &&
+          JSON.stringify(updates[key]) !== JSON.stringify(current[key]),
+      );
+
+    // Reschedule when anything affecting the cron schedule changes
+    const shouldReschedule =
+      updates.status !== undefined ||
+      updates.triggerType !== undefined ||
+      updates.triggerConfig !== undefined;
+
+    const triggerType = updates.triggerType ?? current.triggerType;
+    const triggerChanged =
+      updates.triggerType !== undefined || updates.triggerConfig !== undefined;
+    if (triggerChanged) {
+      updates.triggerConfig = normalizeTriggerConfig(
+        triggerType,
+        updates.triggerConfig ?? current.triggerConfig,
+        current.triggerConfig,
+      );
+    }
+
+    const author = { userId: user._id, name: user.name || user.email };
+    if (shouldIncrementVersion) {
+      await keepPublishedGraph(ctx, current, author);
+    }
 
     await ctx.db.patch(id, {
       ...updates,
       ...(shouldIncrementVersion ? { version: current.version + 1 } : {}),
+      ...(shouldReschedule
+        ? {
+            nextRunAt: getRoutineNextRunAt({
+              triggerType,
+              triggerConfig: updates.triggerConfig ?? current.triggerConfig,
+              status: updates.status ?? current.status,
+            }),
+          }
+        : {}),
+      ...(triggerChanged
+        ? {
+            eventKey: getRoutineEventKey({
+              triggerType,
+              triggerConfig: updates.triggerConfig,
+            }),
+          }
+        : {}),
     });
 
+    if (shouldIncrementVersion) {
+      await recordRoutineVersion(
+        ctx,
+        {
+          _id: id,
+          version: current.version + 1,
+          nodes: updates.nodes ?? current.nodes,
+          connections: updates.connections ?? current.connections,
+          variables: updates.variables ?? current.variables,
+        },
+        author,
+        message,
+      );
+    }
+
     return id;
   },
 });
 
+/**
+ * Publish the draft of a routine: production triggers run its current
+ * version from now on. Drafts whose graph or expressions have errors are
+ * rejected.
+ */
+export const publish = mutation({
+  args: {
+    id: v.id("routines"),
+    // The validated version, so a draft saved since isn't published
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.id);
+    if (!routine || routine.userId !== user._id) {
+      throw new Error(`Routine ${args.id} not found or unauthorized`);
+    }
+    if (routine.version !== args.version) {
+      throw new Error(
+        "The draft changed while publishing, please publish again",
+      );
+    }
+
+    const problems = getPublishProblems(routine);
+    if (problems.length > 0) {
+      throw new Error(
+        `Cannot publish: ${problems.length} problem${problems.length > 1 ? "s" : ""} must be fixed first (${problems[0]})`,
+      );
+    }
+
+    await publishCurrentVersion(ctx, routine, {
+      userId: user._id,
+      name: user.name || user.email,
+    });
+
+    return routine.version;
+  },
+});
+
 /**
  * Delete a routine
  */
@@ -189,6 +440,7 @@ export const deleteRoutine = mutation({
       throw new Error(`Routine ${args.id} not found or unauthorized`);
     }
     await ctx.db.delete(args.id);
+    await deleteRoutineVersions(ctx, args.id);
   },
 });
 
@@ -205,6 +457,24 @@ export const addNode = mutation({
       position: v.object({ x: v.number(), y: v.number() }),
       config: v.optional(v.any()),
       credentialMappings: v.optional(v.record(v.string(), v.string())),
+      onError: v.optional(
+        v.union(
+          v.literal("stop"),
+          v.literal("continue"),
+          v.literal("error-handle"),
+        ),
+      ),
+      retry: v.optional(
+        v.object({
+          maxAttempts: v.optional(v.number()),
+          initialInterval: v.optional(v.number()),
+          backoffCoefficient: v.optional(v.number()),
+          maximumInterval: v.optional(v.number()),
+          retryableErrorCodes: v.optional(v.array(v.string())),
+        }),
+      ),
+      timeout: v.optional(v.number()),
+      pinnedData: v.optional(v.any()),
     }),
   },
   handler: async (ctx, args) => {
@@ -214,12 +484,12 @@ export const addNode = mutation({
       throw new Error(`Routine ${args.routineId} not found or unauthorized`);
     }
 
-    const updatedNodes = [...routine.nodes, args.node];
-
-    await ctx.db.patch(args.routineId, {
-      nodes: updatedNodes,
-      version: routine.version + 1,
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { nodes: [...routine.nodes, args.node] },
+      { userId: user._id, name: user.name || user.email },
+    );
 
     return args.node.id;
   },
@@ -246,12 +516,12 @@ export const addConnection = mutation({
       throw new Error(`Routine ${args.routineId} not found or unauthorized`);
     }
 
-    const updatedConnections = [...routine.connections, args.connection];
-
-    await ctx.db.patch(args.routineId, {
-      connections: updatedConnections,
-      version: routine.version + 1,
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { connections: [...routine.connections, args.connection] },
+      { userId: user._id, name: user.name || user.email },
+    );
 
     return args.connection.id;
   },
@@ -302,20 +572,6 @@ export const updateLastExecuted = mutation({
   },
 });
 
-// Variable validators (reusable)
-const variableValidator = v.object({
-  id: v.string(),
-  name: v.string(),
-  type: v.union(
-    v.literal("string"),
-    v.literal("number"),
-    v.literal("boolean"),
-    v.literal("json"),
-  ),
-  value: v.any(),
-  description: v.optional(v.string()),
-});
-
 /**
  * Set all variables for a routine (replaces existing)
  */
@@ -331,9 +587,12 @@ export const setVariables = mutation({
       throw new Error(`Routine ${args.routineId} not found or unauthorized`);
     }
 
-    await ctx.db.patch(args.routineId, {
-      variables: args.variables,
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { variables: args.variables },
+      { userId: user._id, name: user.name || user.email },
+    );
   },
 });
 
@@ -358,9 +617,12 @@ export const addVariable = mutation({
       throw new Error(`Variable "${args.variable.name}" already exists`);
     }
 
-    await ctx.db.patch(args.routineId, {
-      variables: [...existingVars, args.variable],
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { variables: [...existingVars, args.variable] },
+      { userId: user._id, name: user.name || user.email },
+    );
 
     return args.variable.id;
   },
@@ -423,9 +685,12 @@ export const updateVariable = mutation({
       description: args.updates.description ?? currentVar.description,
     };
 
-    await ctx.db.patch(args.routineId, {
-      variables: updatedVars,
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { variables: updatedVars },
+      { userId: user._id, name: user.name || user.email },
+    );
   },
 });
 
@@ -451,9 +716,12 @@ export const removeVariable = mutation({
       throw new Error(`Variable ${args.variableId} not found`);
     }
 
-    await ctx.db.patch(args.routineId, {
-      variables: updatedVars,
-    });
+    await commitGraphChange(
+      ctx,
+      routine,
+      { variables: updatedVars },
+      { userId: user._id, name: user.name || user.email },
+    );
   },
 });
 
@@ -473,3 +741,58 @@ export const getVariables = query({
     return routine.variables || [];
   },
 });
+
+/**
+ * Get a routine with its published graph, without auth checks.
+ * Used by trigger dispatchers (cron, webhooks, events) that run outside a
+ * user session.
+ */
+export const getPublishedInternal = internalQuery({
+  args: {
+    id: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const routine = await ctx.db.get(args.id);
+    if (!routine) return null;
+    return { ...routine, ...(await getPublishedGraph(ctx, routine)) };
+  },
+});
+
+/**
+ * Get the published graph of a routine called by an execute-routine node,
+ * by the (untrusted) ID from the node's config. Returns null unless the
+ * routine belongs to the calling routine's user. The rest of the routine
+ * (e.g. its trigger secrets) is left out.
+ * Called by Temporal workers when starting the called routine.
+ */
+export const getForRoutineCall = query({
+  args: {
+    workerSecret: workerSecretValidator,
+    routineId: v.string(),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    requireWorker(args.workerSecret);
+
+    const id = ctx.db.normalizeId("routines", args.routineId);
+    if (!id) return null;
+
+    const routine = await ctx.db.get(id);
+    if (!routine || routine.userId !== args.userId) return null;
+    return { routineId: id, ...(await getPublishedGraph(ctx, routine)) };
+  },
+});
+
+/**
+ * Update last executed timestamp without auth checks.
+ * Used by trigger dispatchers after starting an execution.
+ */
+export const updateLastExecutedInternal = internalMutation({
+  args: {
+    id: v.id("routines"),
+    timestamp: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.id, { lastExecutedAt: args.timestamp });
+  },
+});
@@ -0,0 +1,131 @@
+/**
+ * Cron Trigger Scheduling
+ *
+ * Active routines with triggerType "cron" store their next fire time in
+ * `nextRunAt`. A Convex cron job (see crons.ts) ticks every minute, claims
+ * routines that are due and starts a Temporal execution for each.
+ *
+ * Paused, archived and draft routines have no `nextRunAt`, so they are
+ * never picked up.
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { getRoutineNextRunAt, parseCronTriggerConfig } from "./lib/cron";
+
+/** Max routines dispatched per tick; the rest are picked up next minute */
+const DISPATCH_BATCH_SIZE = 100;
+
+/**
+ * List active cron routines whose next fire time has passed
+ * Routines without one (schedules that ended or never fire) sort first in
+ * the index and are skipped, so they can't fill the batch.
+ */
+export const listDue = internalQuery({
+  args: {
+    now: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("routines")
+      .withIndex("by_next_run", (q) =>
+        q
+          .eq("triggerType", "cron")
+          .eq("status", "active")
+          .gte("nextRunAt", 0)
+          .lte("nextRunAt", args.now),
+      )
+      .take(DISPATCH_BATCH_SIZE);
+  },
+});
+
+/**
+ * Claim a scheduled run and advance the routine to its next fire time.
+ *
+ * Returns false if the run was already claimed or the routine was
+ * rescheduled/paused since it was listed, so each fire time starts at
+ * most one execution.
+ */
+export const claimRun = internalMutation({
+  args: {
+    routineId: v.id("routines"),
+    scheduledFor: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.nextRunAt !== args.scheduledFor) {
+      return false;
+    }
+
+    const now = Date.now();
+    let nextRunAt: number | undefined;
+    try {
+      // Missed fire times (e.g. downtime) are skipped, not replayed
+      nextRunAt = getRoutineNextRunAt(
+        routine,
+        Math.max(now, args.scheduledFor),
+      );
+    } catch (error) {
+      console.error(
+        `Invalid cron config for routine ${routine._id}, unscheduling:`,
+        error,
+      );
+      await ctx.db.patch(routine._id, { nextRunAt: undefined });
+      return false;
+    }
+
+    await ctx.db.patch(routine._id, { nextRunAt, lastExecutedAt: now });
+    return true;
+  },
+});
+
+/**
+ * Start executions for all due cron routines.
+ * Invoked every minute by the cron job in crons.ts.
+ */
+export const dispatchDue = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const due = await ctx.runQuery(internal.schedules.listDue, {
+      now: Date.now(),
+    });
+
+    for (const routine of due) {
+      const scheduledFor = routine.nextRunAt;
+      if (scheduledFor === undefined) continue;
+
+      const claimed = await ctx.runMutation(internal.schedules.claimRun, {
+        routineId: routine._id,
+        scheduledFor,
+      });
+      if (!claimed) continue;
+
+      const config = parseCronTriggerConfig(routine.triggerConfig);
+
+      try {
+        await ctx.runAction(internal.temporal.startRoutineExecution, {
+          routineId: routine._id,
+          // Deterministic ID so Temporal rejects duplicate starts of the same fire time
+          workflowId: `scheduled-${routine._id}-${scheduledFor}`,
+          triggerType: "scheduled",
+          triggerData: {
+            source: "cron-trigger",
+            scheduledFor,
+            expression: config.expression,
+            timezone: config.timezone ?? "UTC",
+          },
+        });
+      } catch (error) {
+        console.error(
+          `Failed to start scheduled run for routine ${routine._id}:`,
+          error,
+        );
+      }
+    }
+  },
+});
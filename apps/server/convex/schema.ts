@@ -1,6 +1,59 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Routine definition (DAG structure), shared by routines and their versions
+const routineNode = v.object({
+  id: v.string(),
+  pluginId: v.string(),
+  label: v.string(),
+  position: v.object({ x: v.number(), y: v.number() }),
+  config: v.optional(v.any()), // Plugin behavior settings (timeout, format, etc.)
+  // Mapping of Credential Request Alias (or ID) -> User Credential ID
+  credentialMappings: v.optional(v.record(v.string(), v.string())),
+  // What happens when the node fails (defaults to stopping the routine)
+  onError: v.optional(
+    v.union(
+      v.literal("stop"),
+      v.literal("continue"),
+      v.literal("error-handle"),
+    ),
+  ),
+  // Retries and per-attempt timeout (ms) for the node's plugin runs
+  retry: v.optional(
+    v.object({
+      maxAttempts: v.optional(v.number()),
+      initialInterval: v.optional(v.number()),
+      backoffCoefficient: v.optional(v.number()),
+      maximumInterval: v.optional(v.number()),
+      retryableErrorCodes: v.optional(v.array(v.string())),
+    }),
+  ),
+  timeout: v.optional(v.number()),
+  // Sample output emitted instead of running the node in test runs
+  pinnedData: v.optional(v.any()),
+});
+
+const routineConnection = v.object({
+  id: v.string(),
+  sourceNodeId: v.string(),
+  targetNodeId: v.string(),
+  sourceHandle: v.optional(v.string()),
+  targetHandle: v.optional(v.string()),
+});
+
+const routineVariable = v.object({
+  id: v.string(),
+  name: v.string(),
+  type: v.union(
+    v.literal("string"),
+    v.literal("number"),
+    v.literal("boolean"),
+    v.literal("json"),
+  ),
+  value: v.any(),
+  description: v.optional(v.string()),
+});
+
 export default defineSchema({
   // Legacy tables (demo)
   messages: defineTable({
@@ -27,52 +80,54 @@ export default defineSchema({
       v.literal("event"),
     ),
     triggerConfig: v.optional(v.any()), // Type depends on triggerType
-    // Routine definition (DAG structure)
-    nodes: v.array(
-      v.object({
-        id: v.string(),
-        pluginId: v.string(),
-        label: v.string(),
-        position: v.object({ x: v.number(), y: v.number() }),
-        config: v.optional(v.any()), // Plugin behavior settings (timeout, format, etc.)
-        // Mapping of Credential Request Alias (or ID) -> User Credential ID
-        credentialMappings: v.optional(v.record(v.string(), v.string())),
-      }),
-    ),
-    connections: v.array(
+    // Next fire time for active cron routines (unset when not scheduled)
+    nextRunAt: v.optional(v.number()),
+    // Event an event-triggered routine subscribes to (see lib/event.ts)
+    eventKey: v.optional(v.string()),
+    // Sample trigger payload captured in test mode (e.g. webhook test URL),
+    // used by the editor for autocomplete and expression previews
+    triggerSample: v.optional(
       v.object({
-        id: v.string(),
-        sourceNodeId: v.string(),
-        targetNodeId: v.string(),
-        sourceHandle: v.optional(v.string()),
-        targetHandle: v.optional(v.string()),
+        data: v.any(),
+        capturedAt: v.number(),
       }),
     ),
+    // Routine definition (DAG structure). This is the draft the editor
+    // saves; production triggers run the published version.
+    nodes: v.array(routineNode),
+    connections: v.array(routineConnection),
     // Routine-level variables accessible via {{ vars.name }} expressions
-    variables: v.optional(
-      v.array(
-        v.object({
-          id: v.string(),
-          name: v.string(),
-          type: v.union(
-            v.literal("string"),
-            v.literal("number"),
-            v.literal("boolean"),
-            v.literal("json"),
-          ),
-          value: v.any(),
-          description: v.optional(v.string()),
-        }),
-      ),
-    ),
+    variables: v.optional(v.array(routineVariable)),
     tags: v.optional(v.array(v.string())),
+    // Current version, snapshotted in routine_versions
     version: v.number(),
+    // Version production triggers run (unset for routines published before
+    // drafts existed, which run their current graph until it changes)
+    publishedVersion: v.optional(v.number()),
+    publishedAt: v.optional(v.number()),
     lastExecutedAt: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_status", ["status"])
     .index("by_user_and_status", ["userId", "status"])
-    .index("by_trigger_type", ["triggerType", "status"]),
+    .index("by_trigger_type", ["triggerType", "status"])
+    .index("by_next_run", ["triggerType", "status", "nextRunAt"])
+    .index("by_event_key", ["eventKey", "status"]),
+
+  // Snapshots of routine graphs, one per recorded version
+  routine_versions: defineTable({
+    routineId: v.id("routines"),
+    version: v.number(),
+    nodes: v.array(routineNode),
+    connections: v.array(routineConnection),
+    variables: v.optional(v.array(routineVariable)),
+    author: v.object({
+      userId: v.string(),
+      name: v.string(),
+    }),
+    message: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_routine_and_version", ["routineId", "version"]),
 
   // Routine execution history
   routine_executions: defineTable({
@@ -97,9 +152,29 @@ export default defineSchema({
       v.literal("scheduled"),
       v.literal("webhook"),
       v.literal("event"),
+      v.literal("routine"),
     ),
     triggerData: v.optional(v.any()),
 
+    // Version of the routine graph that ran (see routine_versions)
+    routineVersion: v.optional(v.number()),
+
+    // Set when another execution's execute-routine node started this one
+    parentExecution: v.optional(
+      v.object({
+        workflowId: v.string(),
+        nodeId: v.string(),
+      }),
+    ),
+
+    // Set when this execution re-ran a previous one from a node
+    rerun: v.optional(
+      v.object({
+        parentWorkflowId: v.string(),
+        startNodeId: v.string(),
+      }),
+    ),
+
     // Execution path (ordered list of executed node IDs for conditional branching)
     executionPath: v.optional(v.array(v.string())),
 
@@ -110,6 +185,8 @@ export default defineSchema({
         status: v.string(),
         input: v.optional(v.any()),
         output: v.optional(v.any()),
+        // Output items by port, so later runs can re-run from a node
+        outputs: v.optional(v.any()),
         error: v.optional(
           v.object({
             message: v.string(),
@@ -119,6 +196,8 @@ export default defineSchema({
         startedAt: v.optional(v.number()),
         completedAt: v.optional(v.number()),
         duration: v.optional(v.number()),
+        // When a running node that is waiting (e.g. a wait node) continues
+        waitingUntil: v.optional(v.number()),
       }),
     ),
 
@@ -130,15 +209,73 @@ export default defineSchema({
       }),
     ),
 
+    // Cancellation (who asked to cancel the run, and when)
+    cancelledBy: v.optional(
+      v.object({
+        userId: v.string(),
+        name: v.string(),
+      }),
+    ),
+    cancelledAt: v.optional(v.number()),
+
     // Metrics
     startedAt: v.number(),
     completedAt: v.optional(v.number()),
     duration: v.optional(v.number()),
   })
     .index("by_routine", ["routineId"])
+    .index("by_routine_and_version", ["routineId", "routineVersion"])
     .index("by_user", ["userId"])
     .index("by_status", ["status"])
-    .index("by_workflow_id", ["workflowId"]),
+    .index("by_workflow_id", ["workflowId"])
+    .index("by_parent_workflow_id", ["parentExecution.workflowId"]),
+
+  // Approvals requested by approval nodes of running executions
+  routine_approvals: defineTable({
+    userId: v.string(),
+    routineId: v.id("routines"),
+    // Temporal workflow ID of the waiting execution
+    workflowId: v.string(),
+    nodeId: v.string(),
+    title: v.string(),
+    instructions: v.optional(v.string()),
+    data: v.optional(v.any()), // Context data to review
+    // Form fields filled in when responding
+    fields: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          label: v.optional(v.string()),
+          type: v.union(
+            v.literal("text"),
+            v.literal("number"),
+            v.literal("boolean"),
+          ),
+          required: v.optional(v.boolean()),
+        }),
+      ),
+    ),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("approved"),
+      v.literal("rejected"),
+      v.literal("timeout"),
+      v.literal("cancelled"),
+    ),
+    expiresAt: v.number(),
+    // Response
+    values: v.optional(v.record(v.string(), v.any())),
+    comment: v.optional(v.string()),
+    respondedBy: v.optional(
+      v.object({
+        userId: v.string(),
+        name: v.string(),
+      }),
+    ),
+    respondedAt: v.optional(v.number()),
+  })
+    .index("by_user_and_status", ["userId", "status"])
+    .index("by_workflow_and_node", ["workflowId", "nodeId"]),
 
   // User Credentials (new system)
   user_credentials: defineTable({
@@ -0,0 +1,176 @@
+"use node";
+
+/**
+ * Temporal Integration
+ *
+ * Node-runtime actions for starting routine executions from Convex.
+ * Used by non-manual triggers (cron schedules, webhooks, events) that
+ * don't go through the web app's execute API.
+ */
+
+import { type ObjectType, v } from "convex/values";
+import {
+  Client,
+  Connection,
+  WithStartWorkflowOperation,
+  type Workflow,
+} from "@temporalio/client";
+import { internal } from "./_generated/api";
+import { type ActionCtx, internalAction } from "./_generated/server";
+
+let client: Client | null = null;
+
+/**
+ * Get or create the Temporal client (reused across action invocations)
+ */
+async function getTemporalClient(): Promise<Client> {
+  if (client) {
+    return client;
+  }
+
+  const address = process.env.TEMPORAL_ADDRESS || "localhost:7233";
+  const clientCert = process.env.TEMPORAL_CLIENT_CERT;
+  const clientKey = process.env.TEMPORAL_CLIENT_KEY;
+
+  const connection = await Connection.connect(
+    clientCert && clientKey
+      ? {
+          address,
+          tls: {
+            clientCertPair: {
+              crt: Buffer.from(clientCert, "base64"),
+              key: Buffer.from(clientKey, "base64"),
+            },
+          },
+        }
+      : { address },
+  );
+
+  client = new Client({
+    connection,
+    namespace: process.env.TEMPORAL_NAMESPACE || "default",
+  });
+
+  return client;
+}
+
+const startArgs = {
+  routineId: v.id("routines"),
+  workflowId: v.string(),
+  triggerType: v.union(
+    v.literal("manual"),
+    v.literal("scheduled"),
+    v.literal("webhook"),
+    v.literal("event"),
+  ),
+  triggerData: v.optional(v.any()),
+};
+
+/**
+ * Build the routineExecutor workflow start options for a routine
+ */
+async function buildWorkflowStartOptions(
+  ctx: ActionCtx,
+  args: ObjectType<typeof startArgs>,
+) {
+  const routine = await ctx.runQuery(internal.routines.getPublishedInternal, {
+    id: args.routineId,
+  });
+  if (!routine) {
+    throw new Error(`Routine ${args.routineId} not found`);
+  }
+
+  const routineInput = {
+    routineId: routine._id,
+    userId: routine.userId,
+    routineVersion: routine.version,
+    nodes: routine.nodes.map((node) => ({
+      id: node.id,
+      pluginId: node.pluginId,
+      config: node.config || {},
+      credentialMappings: node.credentialMappings,
+      onError: node.onError,
+      retry: node.retry,
+      timeout: node.timeout,
+      // pinnedData is left out: pins only apply to test runs
+    })),
+    connections: routine.connections,
+    variables: routine.variables,
+    triggerData: {
+      ...args.triggerData,
+      timestamp: Date.now(),
+      triggerType: args.triggerType,
+    },
+  };
+
+  return {
+    taskQueue: process.env.TASK_QUEUE || "default",
+    args: [routineInput],
+    workflowId: args.workflowId,
+  };
+}
+
+/**
+ * Start a routineExecutor workflow for a routine
+ * Returns the Temporal workflow ID
+ */
+export const startRoutineExecution = internalAction({
+  args: startArgs,
+  handler: async (ctx, args): Promise<string> => {
+    const options = await buildWorkflowStartOptions(ctx, args);
+
+    const temporal = await getTemporalClient();
+    const handle = await temporal.workflow.start("routineExecutor", options);
+
+    return handle.workflowId;
+  },
+});
+
+/**
+ * HTTP response produced by a respond-to-webhook node
+ * (mirrors WebhookResponseResult in @kianax/shared/temporal)
+ */
+export type WebhookResponseResult =
+  | {
+      type: "response";
+      response: {
+        statusCode: number;
+        headers: Record<string, string>;
+        body: unknown;
+      };
+    }
+  | { type: "timeout" }
+  | { type: "no-response" };
+
+/**
+ * Start a routineExecutor workflow and wait until the routine responds
+ * through a respond-to-webhook node, finishes without responding, or the
+ * timeout elapses. The workflow keeps running after the response.
+ */
+export const startRoutineExecutionAndWait = internalAction({
+  args: {
+    ...startArgs,
+    timeoutMs: v.number(),
+  },
+  handler: async (ctx, args): Promise<WebhookResponseResult> => {
+    const { timeoutMs, ...startOptionArgs } = args;
+    const options = await buildWorkflowStartOptions(ctx, startOptionArgs);
+
+    const temporal = await getTemporalClient();
+    const startWorkflowOperation = new WithStartWorkflowOperation(
+      "routineExecutor",
+      { ...options, workflowIdConflictPolicy: "FAIL" },
+    );
+
+    // Start and update atomically, so fast routines can't finish before the
+    // update is registered. See webhookResponseUpdate in the workers app.
+    return await temporal.workflow.executeUpdateWithStart<
+      Workflow,
+      WebhookResponseResult,
+      [number]
+    >("webhookResponse", {
+      args: [timeoutMs],
+      startWorkflowOperation,
+    });
+  },
+});
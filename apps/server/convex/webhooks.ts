@@ -0,0 +1,375 @@
+/**
+ * Webhook Triggers
+ *
+ * Routines with triggerType "webhook" can be started over HTTP:
+ *
+ *   {CONVEX_SITE_URL}/webhook/{routineId}/{token}       - production URL
+ *   {CONVEX_SITE_URL}/webhook-test/{routineId}/{token}  - test URL
+ *
+ * The production URL starts an execution with the request's method,
+ * headers, query and body as trigger data. Depending on the trigger's
+ * response mode it either returns 202 right away, or waits for the routine
+ * to reach a Respond to Webhook node and returns that node's response.
+ *
+ * The test URL only captures the request as a sample payload for the
+ * editor and never runs the routine.
+ *
+ * http.ts forwards matching requests to the internal actions below.
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import {
+  type ActionCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { requireAuthUser } from "./auth";
+import {
+  generateWebhookToken,
+  parseWebhookTriggerConfig,
+  timingSafeEqual,
+  toWebhookRequestData,
+  verifyWebhookRequest,
+  type WebhookHttpRequest,
+  type WebhookRequestData,
+  type WebhookTriggerConfig,
+} from "./lib/webhook";
+
+/** Status codes whose responses can't have a body */
+const NO_BODY_STATUS_CODES = new Set([204, 205, 304]);
+
+// Keep in sync with the routes registered in http.ts
+const WEBHOOK_PATH_PREFIX = "/webhook/";
+const WEBHOOK_TEST_PATH_PREFIX = "/webhook-test/";
+
+/**
+ * Get the webhook URLs and settings for a routine
+ */
+export const getWebhookInfo = query({
+  args: {
+    routineId: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (
+      !routine ||
+      routine.userId !== user._id ||
+      routine.triggerType !== "webhook"
+    ) {
+      return null;
+    }
+
+    const config = parseWebhookTriggerConfig(routine.triggerConfig);
+    const baseUrl = process.env.CONVEX_SITE_URL ?? "";
+
+    return {
+      url: `${baseUrl}${WEBHOOK_PATH_PREFIX}${routine._id}/${config.token}`,
+      testUrl: `${baseUrl}${WEBHOOK_TEST_PATH_PREFIX}${routine._id}/${config.token}`,
+      verification: config.verification,
+      sample: routine.triggerSample,
+    };
+  },
+});
+
+/**
+ * Generate a new webhook token, invalidating the old URLs
+ */
+export const regenerateToken = mutation({
+  args: {
+    routineId: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      throw new Error(`Routine ${args.routineId} not found or unauthorized`);
+    }
+    if (routine.triggerType !== "webhook") {
+      throw new Error(`Routine ${args.routineId} is not a webhook routine`);
+    }
+
+    const config = parseWebhookTriggerConfig(routine.triggerConfig);
+    await ctx.db.patch(args.routineId, {
+      triggerConfig: { ...config, token: generateWebhookToken() },
+    });
+  },
+});
+
+/**
+ * Clear the captured sample payload
+ */
+export const clearSample = mutation({
+  args: {
+    routineId: v.id("routines"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuthUser(ctx);
+    const routine = await ctx.db.get(args.routineId);
+    if (!routine || routine.userId !== user._id) {
+      throw new Error(`Routine ${args.routineId} not found or unauthorized`);
+    }
+    await ctx.db.patch(args.routineId, { triggerSample: undefined });
+  },
+});
+
+/**
+ * Look up a webhook routine by the (untrusted) ID from the request path
+ */
+export const getRoutineForWebhook = internalQuery({
+  args: {
+    routineId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId("routines", args.routineId);
+    if (!id) return null;
+
+    const routine = await ctx.db.get(id);
+    if (!routine || routine.triggerType !== "webhook") return null;
+    return routine;
+  },
+});
+
+/**
+ * Store a request received on the test URL as the routine's sample payload
+ */
+export const captureSample = internalMutation({
+  args: {
+    routineId: v.id("routines"),
+    data: v.any(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.routineId, {
+      triggerSample: { data: args.data, capturedAt: Date.now() },
+    });
+  },
+});
+
+/**
+ * Response returned to the HTTP router (see http.ts)
+ */
+export interface WebhookHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** null for no-content responses (204, 205, 304) */
+  body: string | null;
+}
+
+const webhookHttpRequestValidator = v.object({
+  method: v.string(),
+  url: v.string(),
+  headers: v.record(v.string(), v.string()),
+  body: v.string(),
+});
+
+type WebhookRequestResult =
+  | { ok: false; response: WebhookHttpResponse }
+  | {
+      ok: true;
+      routine: Doc<"routines">;
+      config: WebhookTriggerConfig;
+      data: WebhookRequestData;
+    };
+
+/**
+ * Resolve the routine from the URL, check the token and verify the request
+ */
+async function authenticateWebhookRequest(
+  ctx: ActionCtx,
+  request: WebhookHttpRequest,
+  pathPrefix: string,
+): Promise<WebhookRequestResult> {
+  const path = new URL(request.url).pathname.slice(pathPrefix.length);
+  const [routineId, token] = path.split("/");
+  if (!routineId || !token) {
+    return { ok: false, response: jsonResponse({ error: "Not found" }, 404) };
+  }
+
+  const routine = await ctx.runQuery(internal.webhooks.getRoutineForWebhook, {
+    routineId,
+  });
+  if (!routine) {
+    return { ok: false, response: jsonResponse({ error: "Not found" }, 404) };
+  }
+
+  const config = parseWebhookTriggerConfig(routine.triggerConfig);
+  if (!timingSafeEqual(token, config.token)) {
+    return { ok: false, response: jsonResponse({ error: "Not found" }, 404) };
+  }
+
+  const verificationError = await verifyWebhookRequest(
+    config.verification,
+    request,
+  );
+  if (verificationError) {
+    return {
+      ok: false,
+      response: jsonResponse({ error: verificationError }, 401),
+    };
+  }
+
+  try {
+    return {
+      ok: true,
+      routine,
+      config,
+      data: toWebhookRequestData(request, config.verification),
+    };
+  } catch {
+    return {
+      ok: false,
+      response: jsonResponse({ error: "Invalid JSON body" }, 400),
+    };
+  }
+}
+
+/**
+ * Production webhook URL: start an execution with the request as trigger data
+ */
+export const handleWebhook = internalAction({
+  args: {
+    request: webhookHttpRequestValidator,
+  },
+  handler: async (ctx, args): Promise<WebhookHttpResponse> => {
+    const result = await authenticateWebhookRequest(
+      ctx,
+      args.request,
+      WEBHOOK_PATH_PREFIX,
+    );
+    if (!result.ok) return result.response;
+
+    const { routine, config, data } = result;
+    if (routine.status !== "active") {
+      return jsonResponse({ error: "Routine is not active" }, 409);
+    }
+
+    const now = Date.now();
+    // Unique per request: Temporal rejects a duplicate ID, and requests can
+    // arrive in the same millisecond
+    const workflowId = `webhook-${routine._id}-${crypto.randomUUID()}`;
+    const startArgs = {
+      routineId: routine._id,
+      workflowId,
+      triggerType: "webhook" as const,
+      triggerData: { source: "webhook", ...data },
+    };
+
+    if (config.responseMode === "immediate") {
+      await ctx.runAction(internal.temporal.startRoutineExecution, startArgs);
+      await ctx.runMutation(internal.routines.updateLastExecutedInternal, {
+        id: routine._id,
+        timestamp: now,
+      });
+      return jsonResponse({ accepted: true, executionId: workflowId }, 202);
+    }
+
+    // Wait for the routine to reach a Respond to Webhook node
+    const outcome = await ctx.runAction(
+      internal.temporal.startRoutineExecutionAndWait,
+      { ...startArgs, timeoutMs: config.responseTimeoutMs },
+    );
+    await ctx.runMutation(internal.routines.updateLastExecutedInternal, {
+      id: routine._id,
+      timestamp: now,
+    });
+
+    switch (outcome.type) {
+      case "response":
+        return toHttpResponse(outcome.response);
+      case "timeout":
+        return jsonResponse(
+          {
+            error: `Routine did not respond within ${config.responseTimeoutMs / 1000}s`,
+            executionId: workflowId,
+          },
+          504,
+        );
+      case "no-response":
+        return jsonResponse(
+          {
+            error: "Routine finished without responding",
+            executionId: workflowId,
+          },
+          500,
+        );
+    }
+  },
+});
+
+/**
+ * Test webhook URL: capture the request as a sample payload without running
+ */
+export const handleWebhookTest = internalAction({
+  args: {
+    request: webhookHttpRequestValidator,
+  },
+  handler: async (ctx, args): Promise<WebhookHttpResponse> => {
+    const result = await authenticateWebhookRequest(
+      ctx,
+      args.request,
+      WEBHOOK_TEST_PATH_PREFIX,
+    );
+    if (!result.ok) return result.response;
+
+    await ctx.runMutation(internal.webhooks.captureSample, {
+      routineId: result.routine._id,
+      data: { source: "webhook", ...result.data },
+    });
+
+    return jsonResponse({ captured: true }, 200);
+  },
+});
+
+/**
+ * Convert a Respond to Webhook node's output into an HTTP response.
+ * Strings are sent as-is; anything else is serialized as JSON. No-content
+ * statuses are sent without a body.
+ */
+function toHttpResponse(response: {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+}): WebhookHttpResponse {
+  if (NO_BODY_STATUS_CODES.has(response.statusCode)) {
+    return {
+      status: response.statusCode,
+      headers: response.headers,
+      body: null,
+    };
+  }
+
+  const hasContentType = Object.keys(response.headers).some(
+    (key) => key.toLowerCase() === "content-type",
+  );
+
+  if (typeof response.body === "string") {
+    return {
+      status: response.statusCode,
+      headers: hasContentType
+        ? response.headers
+        : { "Content-Type": "text/plain; charset=utf-8", ...response.headers },
+      body: response.body,
+    };
+  }
+
+  return {
+    status: response.statusCode,
+    headers: hasContentType
+      ? response.headers
+      : { "Content-Type": "application/json", ...response.headers },
+    body: response.body === undefined ? "" : JSON.stringify(response.body),
+  };
+}
+
+function jsonResponse(body: unknown, status: number): WebhookHttpResponse {
+  return {
+    status,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  };
+}
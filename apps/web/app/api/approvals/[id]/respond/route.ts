@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@kianax/server/convex/_generated/api";
+import type { Id } from "@kianax/server/convex/_generated/dataModel";
+import { getToken } from "@kianax/web/lib/auth-server";
+import { signalApproval } from "@kianax/web/lib/temporal-client";
+import { parseWebEnv } from "@kianax/config";
+
+/**
+ * Approve or reject a pending approval
+ * The route param is the approval's ID. The response is recorded first,
+ * then the waiting workflow is signalled to continue on the decision's
+ * handle.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Authenticate user
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { decision, values, comment } = body;
+
+    if (decision !== "approved" && decision !== "rejected") {
+      return NextResponse.json(
+        { error: "decision must be approved or rejected" },
+        { status: 400 },
+      );
+    }
+
+    // Initialize Convex client
+    const env = parseWebEnv();
+    const convex = new ConvexHttpClient(env.convex.publicUrl);
+    convex.setAuth(token);
+
+    // Check ownership and form values, and record the response
+    const { workflowId, response } = await convex.mutation(
+      api.routineApprovals.respond,
+      {
+        approvalId: id as Id<"routine_approvals">,
+        decision,
+        ...(values !== undefined && { values }),
+        ...(comment !== undefined && { comment }),
+      },
+    );
+
+    await signalApproval(workflowId, response);
+
+    return NextResponse.json({ success: true, decision });
+  } catch (error: any) {
+    console.error("Failed to respond to approval:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to respond to approval" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "@kianax/server/convex/_generated/api";
+import { getToken } from "@kianax/web/lib/auth-server";
+import { cancelRoutine } from "@kianax/web/lib/temporal-client";
+import { parseWebEnv } from "@kianax/config";
+
+/**
+ * Cancel a running execution
+ * The route param is the execution's Temporal workflow ID. Cancelling the
+ * workflow aborts in-flight plugin runs; the workflow then marks the nodes
+ * that never ran as skipped and the execution as cancelled.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Authenticate user
+    const token = await getToken();
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: workflowId } = await params;
+
+    // Initialize Convex client
+    const env = parseWebEnv();
+    const convex = new ConvexHttpClient(env.convex.publicUrl);
+    convex.setAuth(token);
+
+    // Check ownership and record who cancelled the run
+    await convex.mutation(api.executions.cancel, { workflowId });
+
+    await cancelRoutine(workflowId);
+
+    return NextResponse.json({
+      success: true,
+      workflowId,
+      message: "Cancellation requested",
+    });
+  } catch (error: any) {
+    console.error("Failed to cancel execution:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to cancel execution" },
+      { status: 500 },
+    );
+  }
+}
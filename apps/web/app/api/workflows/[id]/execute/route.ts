@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "@kianax/server/convex/_generated/api";
-import type { Id } from "@kianax/server/convex/_generated/dataModel";
+import type { Doc, Id } from "@kianax/server/convex/_generated/dataModel";
 import { getToken } from "@kianax/web/lib/auth-server";
 import { parseWebEnv } from "@kianax/config";
 
+/**
+ * Start a routine execution
+ * Send { rerunFrom: { workflowId, nodeId } } to re-run an earlier execution
+ * from a node: only that node and its downstream nodes run again.
+ */
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
@@ -32,6 +37,48 @@ export async function POST(
       return NextResponse.json({ error: "Routine not found" }, { status: 404 });
     }
 
+    // Optional re-run of an earlier execution of this routine
+    const body = await request.json().catch(() => ({}));
+    const rerunFrom = body?.rerunFrom as
+      | { workflowId: string; nodeId: string }
+      | undefined;
+    const parent = rerunFrom
+      ? await convex.query(api.executions.getByWorkflowId, {
+          workflowId: rerunFrom.workflowId,
+        })
+      : null;
+    if (rerunFrom && parent?.routineId !== routine._id) {
+      return NextResponse.json(
+        { error: "Execution not found" },
+        { status: 404 },
+      );
+    }
+
+    // Re-runs run the version the parent execution ran, so the outputs they
+    // reuse fit the graph. Executions from before versions were recorded
+    // fall back to the draft.
+    const snapshot =
+      parent?.routineVersion !== undefined
+        ? await convex.query(api.routineVersions.get, {
+            routineId,
+            version: parent.routineVersion,
+          })
+        : null;
+    const graph: Pick<
+      Doc<"routines">,
+      "version" | "nodes" | "connections" | "variables"
+    > = snapshot ?? routine;
+
+    if (
+      rerunFrom &&
+      !graph.nodes.some((node) => node.id === rerunFrom.nodeId)
+    ) {
+      return NextResponse.json(
+        { error: `Node ${rerunFrom.nodeId} not found in routine` },
+        { status: 400 },
+      );
+    }
+
     // Import Temporal client
     const { Client, Connection } = await import("@temporalio/client");
 
@@ -51,23 +98,38 @@ export async function POST(
       JSON.stringify(routine.variables, null, 2),
     );
 
-    // Convert routine to workflow input
+    // Convert routine to workflow input. Test runs use the saved draft,
+    // while triggers run the published version.
     const routineInput = {
       routineId: routine._id,
       userId: routine.userId,
-      nodes: routine.nodes.map((node: any) => ({
+      routineVersion: graph.version,
+      nodes: graph.nodes.map((node) => ({
         id: node.id,
         pluginId: node.pluginId,
         config: node.config || {},
         credentialMappings: node.credentialMappings,
+        onError: node.onError,
+        retry: node.retry,
+        timeout: node.timeout,
+        pinnedData: node.pinnedData,
       })),
-      connections: routine.connections,
-      variables: routine.variables,
-      triggerData: {
+      connections: graph.connections,
+      variables: graph.variables,
+      // Re-runs replay the parent execution's trigger
+      triggerData: parent?.triggerData ?? {
         timestamp: Date.now(),
         source: "manual-trigger",
-        triggerType: routine.triggerType,
+        triggerType: "manual",
       },
+      // Runs started from the editor are test runs, which emit pinned data
+      testRun: true,
+      ...(rerunFrom && {
+        rerun: {
+          parentWorkflowId: rerunFrom.workflowId,
+          startNodeId: rerunFrom.nodeId,
+        },
+      }),
     };
 
     console.log(
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@kianax/server/convex/_generated/api";
+import type { Id } from "@kianax/server/convex/_generated/dataModel";
+import { Spinner } from "@kianax/ui/components/spinner";
+import { toast } from "sonner";
+import {
+  ApprovalCard,
+  EmptyApprovalsState,
+  type ApprovalDecision,
+} from "@/components/approvals";
+
+export default function ApprovalsPage() {
+  const approvals = useQuery(api.routineApprovals.listPending);
+  const [respondingId, setRespondingId] =
+    useState<Id<"routine_approvals"> | null>(null);
+
+  // Responses go through the API, which also resumes the waiting routine
+  const handleRespond = async (
+    id: Id<"routine_approvals">,
+    decision: ApprovalDecision,
+    values: Record<string, unknown>,
+    comment?: string,
+  ) => {
+    setRespondingId(id);
+    try {
+      const response = await fetch(`/api/approvals/${id}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, values, comment }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to respond to approval");
+      }
+
+      toast.success(decision === "approved" ? "Approved" : "Rejected");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to respond to approval");
+      console.error(error);
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (approvals === undefined) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Spinner className="h-8 w-8 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+        <p className="text-muted-foreground">
+          Review requests from routines waiting on your decision.
+        </p>
+      </div>
+
+      {approvals.length === 0 ? (
+        <EmptyApprovalsState />
+      ) : (
+        <div className="grid max-w-3xl gap-4">
+          {approvals.map((approval) => (
+            <ApprovalCard
+              key={approval._id}
+              approval={approval}
+              responding={respondingId === approval._id}
+              onRespond={handleRespond}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,9 +11,14 @@ import { IconArrowLeft, IconLoader2 } from "@tabler/icons-react";
 import { toast } from "sonner";
 import {
   validateExpressions,
+  validateExpressionTypes,
+  validateGraph,
+  validateRoutineCalls,
   PortType,
-  type ExpressionValidationError,
+  type CallableRoutine,
 } from "@kianax/execution-engine";
+import { getPluginSchemas } from "@kianax/plugins";
+import type { RoutineValidationError } from "@kianax/web/components/routines/routine-editor/types";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -27,23 +32,25 @@ export default function RoutineEditorPage({ params }: PageProps) {
   // Fetch routine data
   const routine = useQuery(api.routines.get, { id: routineId });
 
-  // Mutations to update routine
+  // The user's routines, for validating execute-routine nodes
+  const userRoutines = useQuery(api.routines.listByUser, {});
+
+  // Mutations to update and publish routine
   const updateRoutine = useMutation(api.routines.update);
-  const setVariables = useMutation(api.routines.setVariables);
+  const publishRoutine = useMutation(api.routines.publish);
 
   // State for validation errors
   const [validationErrors, setValidationErrors] = useState<
-    ExpressionValidationError[]
+    RoutineValidationError[]
   >([]);
 
-  // Validate routine expressions
-  const validateRoutine = (
+  // Convert to execution-engine format
+  const toRoutineDefinition = (
     nodes: any[],
     connections: any[],
-    variables: any[] = [],
-  ): ExpressionValidationError[] => {
-    // Convert to execution-engine format
-    const routineDefinition = {
+    variables: any[],
+  ) => {
+    return {
       name: routine?.name || "Routine",
       nodes: nodes.map((n) => ({
         id: n.id,
@@ -51,6 +58,9 @@ export default function RoutineEditorPage({ params }: PageProps) {
         label: n.label || n.pluginId,
         parameters: n.config || {},
         credentialMappings: n.credentialMappings,
+        onError: n.onError,
+        retry: n.retry,
+        timeout: n.timeout,
       })),
       connections: connections.map((c) => ({
         id: c.id,
@@ -67,9 +77,46 @@ export default function RoutineEditorPage({ params }: PageProps) {
         value: v.value,
       })),
     };
+  };
+
+  // Validate routine expressions (references and types) and routine calls
+  const validateRoutine = (
+    nodes: any[],
+    connections: any[],
+    variables: any[] = [],
+  ): RoutineValidationError[] => {
+    const routineDefinition = toRoutineDefinition(
+      nodes,
+      connections,
+      variables,
+    );
+
+    const expressionErrors = [
+      ...validateExpressions(routineDefinition).errors,
+      ...validateExpressionTypes(routineDefinition, (node) =>
+        getPluginSchemas(node.pluginId, node.parameters),
+      ),
+    ];
+
+    // Routine calls can only be checked once the user's routines are loaded
+    if (!userRoutines) return expressionErrors;
+    const callableRoutines = new Map<string, CallableRoutine>(
+      userRoutines.map((r) => [
+        r._id,
+        {
+          name: r.name,
+          nodes: r.nodes.map((n) => ({
+            pluginId: n.pluginId,
+            parameters: n.config || {},
+          })),
+        },
+      ]),
+    );
 
-    const result = validateExpressions(routineDefinition);
-    return result.errors;
+    return [
+      ...expressionErrors,
+      ...validateRoutineCalls(routineId, routineDefinition, callableRoutines),
+    ];
   };
 
   const handleSave = async (
@@ -82,27 +129,21 @@ export default function RoutineEditorPage({ params }: PageProps) {
       const errors = validateRoutine(nodes, connections, variables || []);
       setValidationErrors(errors);
 
-      // Save regardless of validation errors (allow drafts)
+      // Save regardless of validation errors (allow drafts), as one version
       await updateRoutine({
         id: routineId,
         nodes,
         connections,
+        variables,
       });
-      // If variables are provided, also update them
-      if (variables !== undefined) {
-        await setVariables({
-          routineId,
-          variables,
-        });
-      }
 
       // Show appropriate message
       if (errors.length > 0) {
         toast.warning(
-          `Saved with ${errors.length} expression warning${errors.length > 1 ? "s" : ""}`,
+          `Draft saved with ${errors.length} validation warning${errors.length > 1 ? "s" : ""}`,
         );
       } else {
-        toast.success("Routine saved successfully!");
+        toast.success("Draft saved");
       }
     } catch (error) {
       toast.error("Failed to save routine");
@@ -110,6 +151,47 @@ export default function RoutineEditorPage({ params }: PageProps) {
     }
   };
 
+  // Publish the saved draft once its graph and expressions are valid, so
+  // production triggers run it
+  const handlePublish = async () => {
+    if (!routine) return;
+    const variables = routine.variables || [];
+    const errors = validateRoutine(
+      routine.nodes,
+      routine.connections,
+      variables,
+    );
+    setValidationErrors(errors);
+
+    const problems = [
+      ...validateGraph(
+        toRoutineDefinition(routine.nodes, routine.connections, variables),
+      ).errors,
+      ...errors,
+    ];
+    if (problems.length > 0) {
+      toast.error(
+        `Cannot publish: ${problems.length} problem${problems.length > 1 ? "s" : ""} must be fixed first`,
+        { description: problems[0]!.message },
+      );
+      return;
+    }
+
+    try {
+      const version = await publishRoutine({
+        id: routineId,
+        version: routine.version,
+      });
+      toast.success(`Published version ${version}`, {
+        description: "Triggers now run this version of the routine",
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to publish routine",
+      );
+    }
+  };
+
   const handleBack = () => {
     router.push("/dashboard/routines");
   };
@@ -156,8 +238,12 @@ export default function RoutineEditorPage({ params }: PageProps) {
           initialNodes={routine.nodes || []}
           initialConnections={routine.connections || []}
           initialVariables={routine.variables || []}
+          triggerSample={routine.triggerSample?.data}
           validationErrors={validationErrors}
+          version={routine.version}
+          publishedVersion={routine.publishedVersion}
           onSave={handleSave}
+          onPublish={handlePublish}
         />
       </div>
     </div>
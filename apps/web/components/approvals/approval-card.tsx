@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@kianax/ui/components/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@kianax/ui/components/card";
+import { Checkbox } from "@kianax/ui/components/checkbox";
+import { Input } from "@kianax/ui/components/input";
+import { Label } from "@kianax/ui/components/label";
+import { Textarea } from "@kianax/ui/components/textarea";
+import { IconCheck, IconClock, IconX } from "@tabler/icons-react";
+import type { Id } from "@kianax/server/convex/_generated/dataModel";
+
+interface ApprovalField {
+  name: string;
+  label?: string;
+  type: "text" | "number" | "boolean";
+  required?: boolean;
+}
+
+export type ApprovalDecision = "approved" | "rejected";
+
+interface ApprovalCardProps {
+  approval: {
+    _id: Id<"routine_approvals">;
+    _creationTime: number;
+    routineName: string;
+    title: string;
+    instructions?: string;
+    data?: unknown;
+    fields?: ApprovalField[];
+    expiresAt: number;
+  };
+  responding: boolean;
+  onRespond: (
+    id: Id<"routine_approvals">,
+    decision: ApprovalDecision,
+    values: Record<string, unknown>,
+    comment?: string,
+  ) => void;
+}
+
+/**
+ * Pending approval with the data to review, its form and the
+ * Approve / Reject actions
+ */
+export function ApprovalCard({
+  approval,
+  responding,
+  onRespond,
+}: ApprovalCardProps) {
+  const fields = approval.fields ?? [];
+  const [values, setValues] = useState<Record<string, unknown>>(() =>
+    Object.fromEntries(
+      fields
+        .filter((field) => field.type === "boolean")
+        .map((field) => [field.name, false]),
+    ),
+  );
+  const [comment, setComment] = useState("");
+
+  const missingRequired = fields.some(
+    (field) =>
+      field.required &&
+      (values[field.name] === undefined || values[field.name] === ""),
+  );
+
+  const setValue = (name: string, value: unknown) => {
+    setValues((prev) => {
+      const next = { ...prev };
+      if (value === undefined) {
+        delete next[name];
+      } else {
+        next[name] = value;
+      }
+      return next;
+    });
+  };
+
+  const respond = (decision: ApprovalDecision) => {
+    onRespond(approval._id, decision, values, comment.trim() || undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{approval.title}</CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span>{approval.routineName}</span>
+          <span>
+            Requested{" "}
+            {formatDistanceToNow(new Date(approval._creationTime), {
+              addSuffix: true,
+            })}
+          </span>
+          <span className="flex items-center gap-1">
+            <IconClock className="size-3.5" />
+            Times out{" "}
+            {formatDistanceToNow(new Date(approval.expiresAt), {
+              addSuffix: true,
+            })}
+          </span>
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {approval.instructions && (
+          <p className="text-sm whitespace-pre-wrap">{approval.instructions}</p>
+        )}
+
+        {approval.data !== undefined && (
+          <pre className="max-h-64 overflow-auto rounded-md border bg-muted/50 p-3 font-mono text-xs">
+            {typeof approval.data === "string"
+              ? approval.data
+              : JSON.stringify(approval.data, null, 2)}
+          </pre>
+        )}
+
+        {fields.map((field) => {
+          const id = `${approval._id}-${field.name}`;
+          const label = `${field.label || field.name}${field.required ? " *" : ""}`;
+
+          if (field.type === "boolean") {
+            return (
+              <div key={field.name} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={values[field.name] === true}
+                  onCheckedChange={(checked) =>
+                    setValue(field.name, checked === true)
+                  }
+                />
+                <Label htmlFor={id}>{label}</Label>
+              </div>
+            );
+          }
+
+          return (
+            <div key={field.name} className="space-y-1.5">
+              <Label htmlFor={id}>{label}</Label>
+              <Input
+                id={id}
+                type={field.type === "number" ? "number" : "text"}
+                value={
+                  values[field.name] === undefined
+                    ? ""
+                    : String(values[field.name])
+                }
+                onChange={(e) => {
+                  const raw = e.target.value;
+                  if (field.type === "number") {
+                    const parsed = Number(raw);
+                    setValue(
+                      field.name,
+                      raw && Number.isFinite(parsed) ? parsed : undefined,
+                    );
+                  } else {
+                    setValue(field.name, raw || undefined);
+                  }
+                }}
+              />
+            </div>
+          );
+        })}
+
+        <div className="space-y-1.5">
+          <Label htmlFor={`${approval._id}-comment`}>Comment</Label>
+          <Textarea
+            id={`${approval._id}-comment`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder="Optional"
+          />
+        </div>
+      </CardContent>
+
+      <CardFooter className="justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={responding}
+          onClick={() => respond("rejected")}
+        >
+          <IconX className="mr-2 size-4" />
+          Reject
+        </Button>
+        <Button
+          disabled={responding || missingRequired}
+          onClick={() => respond("approved")}
+        >
+          <IconCheck className="mr-2 size-4" />
+          Approve
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { IconUserCheck } from "@tabler/icons-react";
+
+export function EmptyApprovalsState() {
+  return (
+    <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12 text-center">
+      <IconUserCheck className="h-12 w-12 text-muted-foreground/50" />
+      <h3 className="mt-4 text-lg font-semibold">No pending approvals</h3>
+      <p className="text-sm text-muted-foreground">
+        Routines waiting on an approval node show up here.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { ApprovalCard, type ApprovalDecision } from "./approval-card";
+export { EmptyApprovalsState } from "./empty-approvals-state";
@@ -1,7 +1,12 @@
 "use client";
 
 import * as React from "react";
-import { IconFolder, IconInnerShadowTop, IconKey } from "@tabler/icons-react";
+import {
+  IconFolder,
+  IconInnerShadowTop,
+  IconKey,
+  IconUserCheck,
+} from "@tabler/icons-react";
 
 import { NavPlugins } from "./nav-plugins";
 import { NavMain } from "./nav-main";
@@ -25,6 +30,11 @@ const data = {
       url: "/dashboard/routines",
       icon: IconFolder,
     },
+    {
+      title: "Approvals",
+      url: "/dashboard/approvals",
+      icon: IconUserCheck,
+    },
     {
       title: "Credentials",
       url: "/dashboard/settings/credentials",
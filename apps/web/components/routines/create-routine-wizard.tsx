@@ -23,6 +23,15 @@ import {
 } from "@kianax/ui/components/select";
 import { IconArrowLeft, IconArrowRight, IconCheck } from "@tabler/icons-react";
 import { toast } from "sonner";
+import {
+  CronScheduleFields,
+  toCronTriggerConfig,
+} from "./cron-schedule-fields";
+import {
+  EventTriggerFields,
+  isEventTriggerConfigComplete,
+  toEventTriggerConfig,
+} from "./event-trigger-fields";
 
 interface CreateRoutineWizardProps {
   open: boolean;
@@ -62,7 +71,6 @@ export function CreateRoutineWizard({
   const tagsId = useId();
   const statusId = useId();
   const triggerId = useId();
-  const cronScheduleId = useId();
 
   const [formData, setFormData] = useState<RoutineFormData>({
     name: "",
@@ -88,6 +96,17 @@ export function CreateRoutineWizard({
       case 1:
         return formData.name.trim().length > 0;
       case 2:
+        if (formData.triggerType === "cron") {
+          return (
+            toCronTriggerConfig(formData.triggerConfig).expression.trim()
+              .length > 0
+          );
+        }
+        if (formData.triggerType === "event") {
+          return isEventTriggerConfigComplete(
+            toEventTriggerConfig(formData.triggerConfig),
+          );
+        }
         return formData.triggerType !== null;
       case 3:
         return true; // Plugins are optional
@@ -119,7 +138,12 @@ export function CreateRoutineWizard({
         description: formData.description || undefined,
         status: formData.status,
         triggerType: formData.triggerType,
-        triggerConfig: formData.triggerConfig,
+        triggerConfig:
+          formData.triggerType === "cron"
+            ? toCronTriggerConfig(formData.triggerConfig)
+            : formData.triggerType === "event"
+              ? toEventTriggerConfig(formData.triggerConfig)
+              : formData.triggerConfig,
         nodes: [], // Empty for now
         connections: [], // Empty for now
         tags: formData.tags.length > 0 ? formData.tags : undefined,
@@ -296,7 +320,7 @@ export function CreateRoutineWizard({
                       Webhook - HTTP trigger
                     </SelectItem>
                     <SelectItem value="event">
-                      Event - Platform event
+                      Event - Routine or custom event
                     </SelectItem>
                   </SelectContent>
                 </Select>
@@ -304,20 +328,12 @@ export function CreateRoutineWizard({
 
               {/* Trigger-specific configuration */}
               {formData.triggerType === "cron" && (
-                <div className="space-y-2">
-                  <Label htmlFor={cronScheduleId}>Cron Schedule</Label>
-                  <Input
-                    id={cronScheduleId}
-                    placeholder="0 9 * * * (every day at 9 AM)"
-                    value={(formData.triggerConfig.schedule as string) || ""}
-                    onChange={(e) =>
-                      updateField("triggerConfig", { schedule: e.target.value })
-                    }
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Use cron syntax. Example: "0 */6 * * *" for every 6 hours
-                  </p>
-                </div>
+                <CronScheduleFields
+                  value={toCronTriggerConfig(formData.triggerConfig)}
+                  onChange={(config) =>
+                    updateField("triggerConfig", { ...config })
+                  }
+                />
               )}
 
               {formData.triggerType === "webhook" && (
@@ -331,12 +347,12 @@ export function CreateRoutineWizard({
               )}
 
               {formData.triggerType === "event" && (
-                <div className="rounded-lg bg-muted p-4">
-                  <p className="text-sm text-muted-foreground">
-                    Event triggers will be configured after creating the
-                    routine. You'll be able to select from platform events.
-                  </p>
-                </div>
+                <EventTriggerFields
+                  value={toEventTriggerConfig(formData.triggerConfig)}
+                  onChange={(config) =>
+                    updateField("triggerConfig", { ...config })
+                  }
+                />
               )}
 
               {formData.triggerType === "manual" && (
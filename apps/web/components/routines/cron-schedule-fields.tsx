@@ -0,0 +1,110 @@
+"use client";
+
+import { useId } from "react";
+import { format } from "date-fns";
+import { Input } from "@kianax/ui/components/input";
+import { Label } from "@kianax/ui/components/label";
+
+/**
+ * Cron trigger config (mirrors CronTriggerConfig in the server's lib/cron.ts)
+ */
+export interface CronTriggerConfig {
+  expression: string;
+  timezone?: string;
+  startAt?: number;
+  endAt?: number;
+}
+
+interface CronScheduleFieldsProps {
+  value: CronTriggerConfig;
+  onChange: (value: CronTriggerConfig) => void;
+}
+
+/**
+ * Read a cron config from a routine's untyped triggerConfig.
+ * Falls back to the legacy `schedule` key and the browser's timezone.
+ */
+export function toCronTriggerConfig(triggerConfig: unknown): CronTriggerConfig {
+  const raw = (triggerConfig ?? {}) as Record<string, unknown>;
+  return {
+    expression: String(raw.expression ?? raw.schedule ?? ""),
+    timezone:
+      typeof raw.timezone === "string"
+        ? raw.timezone
+        : Intl.DateTimeFormat().resolvedOptions().timeZone,
+    startAt: typeof raw.startAt === "number" ? raw.startAt : undefined,
+    endAt: typeof raw.endAt === "number" ? raw.endAt : undefined,
+  };
+}
+
+function toDateTimeInput(timestamp?: number): string {
+  return timestamp ? format(timestamp, "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+function fromDateTimeInput(value: string): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+export function CronScheduleFields({
+  value,
+  onChange,
+}: CronScheduleFieldsProps) {
+  const expressionId = useId();
+  const timezoneId = useId();
+  const startId = useId();
+  const endId = useId();
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={expressionId}>Cron Schedule</Label>
+        <Input
+          id={expressionId}
+          placeholder="0 9 * * * (every day at 9 AM)"
+          value={value.expression}
+          onChange={(e) => onChange({ ...value, expression: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Use cron syntax. Example: "0 */6 * * *" for every 6 hours
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={timezoneId}>Timezone</Label>
+        <Input
+          id={timezoneId}
+          placeholder="UTC"
+          value={value.timezone ?? ""}
+          onChange={(e) =>
+            onChange({ ...value, timezone: e.target.value || undefined })
+          }
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={startId}>Start (optional)</Label>
+          <Input
+            id={startId}
+            type="datetime-local"
+            value={toDateTimeInput(value.startAt)}
+            onChange={(e) =>
+              onChange({ ...value, startAt: fromDateTimeInput(e.target.value) })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={endId}>End (optional)</Label>
+          <Input
+            id={endId}
+            type="datetime-local"
+            value={toDateTimeInput(value.endAt)}
+            onChange={(e) =>
+              onChange({ ...value, endAt: fromDateTimeInput(e.target.value) })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,12 +24,32 @@ import {
   SelectValue,
 } from "@kianax/ui/components/select";
 import { toast } from "sonner";
+import {
+  CronScheduleFields,
+  toCronTriggerConfig,
+  type CronTriggerConfig,
+} from "./cron-schedule-fields";
+import {
+  EventTriggerFields,
+  isEventTriggerConfigComplete,
+  toEventTriggerConfig,
+  type EventTriggerConfig,
+} from "./event-trigger-fields";
+import {
+  WebhookTriggerFields,
+  toWebhookResponseSettings,
+  toWebhookVerification,
+  type WebhookResponseSettings,
+  type WebhookVerification,
+} from "./webhook-trigger-fields";
 
 interface Routine {
   _id: Id<"routines">;
   name: string;
   description?: string;
   status: "draft" | "active" | "paused" | "archived";
+  triggerType: "manual" | "cron" | "webhook" | "event";
+  triggerConfig?: unknown;
   tags?: string[];
 }
 
@@ -50,6 +70,16 @@ export function EditRoutineModal({
     "draft" | "active" | "paused" | "archived"
   >("draft");
   const [tags, setTags] = useState<string[]>([]);
+  const [cronConfig, setCronConfig] = useState<CronTriggerConfig>(
+    toCronTriggerConfig(undefined),
+  );
+  const [eventConfig, setEventConfig] = useState<EventTriggerConfig>(
+    toEventTriggerConfig(undefined),
+  );
+  const [webhookVerification, setWebhookVerification] =
+    useState<WebhookVerification>({ type: "none" });
+  const [webhookResponse, setWebhookResponse] =
+    useState<WebhookResponseSettings>(toWebhookResponseSettings(undefined));
   const [isSaving, setIsSaving] = useState(false);
 
   const nameId = useId();
@@ -66,6 +96,10 @@ export function EditRoutineModal({
       setDescription(routine.description || "");
       setStatus(routine.status);
       setTags(routine.tags || []);
+      setCronConfig(toCronTriggerConfig(routine.triggerConfig));
+      setEventConfig(toEventTriggerConfig(routine.triggerConfig));
+      setWebhookVerification(toWebhookVerification(routine.triggerConfig));
+      setWebhookResponse(toWebhookResponseSettings(routine.triggerConfig));
     }
   }, [routine]);
 
@@ -77,6 +111,14 @@ export function EditRoutineModal({
       return;
     }
 
+    if (
+      routine.triggerType === "event" &&
+      !isEventTriggerConfigComplete(eventConfig)
+    ) {
+      toast.error("Choose the event this routine runs on");
+      return;
+    }
+
     setIsSaving(true);
     try {
       await updateRoutine({
@@ -85,6 +127,20 @@ export function EditRoutineModal({
         description: description.trim() || undefined,
         status,
         tags: tags.length > 0 ? tags : undefined,
+        ...(routine.triggerType === "cron"
+          ? { triggerConfig: cronConfig }
+          : {}),
+        ...(routine.triggerType === "event"
+          ? { triggerConfig: eventConfig }
+          : {}),
+        ...(routine.triggerType === "webhook"
+          ? {
+              triggerConfig: {
+                verification: webhookVerification,
+                ...webhookResponse,
+              },
+            }
+          : {}),
       });
 
       toast.success("Routine updated successfully");
@@ -155,6 +211,27 @@ export function EditRoutineModal({
             </Select>
           </div>
 
+          {routine?.triggerType === "cron" && (
+            <CronScheduleFields value={cronConfig} onChange={setCronConfig} />
+          )}
+          {routine?.triggerType === "event" && (
+            <EventTriggerFields
+              value={eventConfig}
+              onChange={setEventConfig}
+              routineId={routine._id}
+            />
+          )}
+
+          {routine?.triggerType === "webhook" && (
+            <WebhookTriggerFields
+              routineId={routine._id}
+              verification={webhookVerification}
+              onVerificationChange={setWebhookVerification}
+              responseSettings={webhookResponse}
+              onResponseSettingsChange={setWebhookResponse}
+            />
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="edit-tags">Tags (comma separated)</Label>
             <Input
@@ -0,0 +1,144 @@
+"use client";
+
+import { useId } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@kianax/server/convex/_generated/api";
+import { Input } from "@kianax/ui/components/input";
+import { Label } from "@kianax/ui/components/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+
+/**
+ * Event trigger config (mirrors EventTriggerConfig in the server's
+ * lib/event.ts, flattened for editing)
+ */
+export interface EventTriggerConfig {
+  event: "routine.completed" | "routine.failed" | "custom";
+  /** Watched routine, for routine.completed / routine.failed */
+  routineId?: string;
+  /** Custom event name, for custom events */
+  name?: string;
+}
+
+interface EventTriggerFieldsProps {
+  value: EventTriggerConfig;
+  onChange: (value: EventTriggerConfig) => void;
+  /** Routine being edited, excluded from the watchable routines */
+  routineId?: string;
+}
+
+/**
+ * Read an event config from a routine's untyped triggerConfig
+ */
+export function toEventTriggerConfig(
+  triggerConfig: unknown,
+): EventTriggerConfig {
+  const raw = (triggerConfig ?? {}) as Record<string, unknown>;
+  const event =
+    raw.event === "routine.failed" || raw.event === "custom"
+      ? raw.event
+      : "routine.completed";
+  return {
+    event,
+    routineId: typeof raw.routineId === "string" ? raw.routineId : undefined,
+    name: typeof raw.name === "string" ? raw.name : undefined,
+  };
+}
+
+/**
+ * Whether the config has everything the server needs
+ */
+export function isEventTriggerConfigComplete(
+  config: EventTriggerConfig,
+): boolean {
+  return config.event === "custom"
+    ? Boolean(config.name?.trim())
+    : Boolean(config.routineId);
+}
+
+export function EventTriggerFields({
+  value,
+  onChange,
+  routineId,
+}: EventTriggerFieldsProps) {
+  const eventId = useId();
+  const sourceRoutineId = useId();
+  const nameId = useId();
+
+  const routines = useQuery(api.routines.listByUser, {});
+  const watchableRoutines = routines?.filter(
+    (routine) => routine._id !== routineId && routine.status !== "archived",
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={eventId}>Event</Label>
+        <Select
+          value={value.event}
+          onValueChange={(event) =>
+            onChange({ ...value, event: event as EventTriggerConfig["event"] })
+          }
+        >
+          <SelectTrigger id={eventId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="routine.completed">
+              Another routine completed
+            </SelectItem>
+            <SelectItem value="routine.failed">
+              Another routine failed
+            </SelectItem>
+            <SelectItem value="custom">Custom event</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.event === "custom" ? (
+        <div className="space-y-2">
+          <Label htmlFor={nameId}>Event Name</Label>
+          <Input
+            id={nameId}
+            placeholder="order.created"
+            value={value.name ?? ""}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Runs when an Emit Event node publishes this name. The emitted
+            payload is available as {"{{ trigger.payload }}"}.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={sourceRoutineId}>Routine</Label>
+          <Select
+            value={value.routineId ?? ""}
+            onValueChange={(id) => onChange({ ...value, routineId: id })}
+          >
+            <SelectTrigger id={sourceRoutineId}>
+              <SelectValue placeholder="Select a routine" />
+            </SelectTrigger>
+            <SelectContent>
+              {watchableRoutines?.map((routine) => (
+                <SelectItem key={routine._id} value={routine._id}>
+                  {routine.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            The routine's final node outputs are available as{" "}
+            {"{{ trigger.outputs }}"}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
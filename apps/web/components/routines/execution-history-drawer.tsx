@@ -17,8 +17,10 @@ import {
   IconChevronRight,
   IconClock,
   IconLoader2,
+  IconPlayerStop,
 } from "@tabler/icons-react";
 import { ExecutionStatusBadge } from "./execution-status-badge";
+import { useCancelExecution } from "./routine-editor/hooks/use-cancel-execution";
 import { format } from "date-fns";
 import { Badge } from "@kianax/ui/components/badge";
 
@@ -28,6 +30,8 @@ interface ExecutionHistoryDrawerProps {
   routineId: Id<"routines"> | null;
   routineName: string;
   onSelectExecution?: (executionId: string) => void;
+  /** Show the routine version an execution ran */
+  onSelectVersion?: (version: number) => void;
   activeExecutionId?: string | null;
 }
 
@@ -37,12 +41,15 @@ export function ExecutionHistoryDrawer({
   routineId,
   routineName,
   onSelectExecution,
+  onSelectVersion,
   activeExecutionId,
 }: ExecutionHistoryDrawerProps) {
   const [expandedExecution, setExpandedExecution] = useState<string | null>(
     null,
   );
 
+  const { cancelExecution, cancellingId } = useCancelExecution();
+
   // Fetch executions for this routine
   const executions = useQuery(
     api.executions.getByRoutine,
@@ -91,6 +98,9 @@ export function ExecutionHistoryDrawer({
             <div className="space-y-4">
               {executions.map((execution) => {
                 const isActive = activeExecutionId === execution.workflowId;
+                const isCancellable =
+                  execution.status === "running" ||
+                  execution.status === "pending";
                 return (
                   <div
                     key={execution._id}
@@ -109,6 +119,28 @@ export function ExecutionHistoryDrawer({
                           >
                             {execution.workflowId.slice(0, 8)}...
                           </Badge>
+                          {execution.routineVersion !== undefined &&
+                            (onSelectVersion ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-5 px-1.5 font-mono text-xs"
+                                title="Compare with the current version"
+                                onClick={() => {
+                                  onSelectVersion(execution.routineVersion!);
+                                  onOpenChange(false);
+                                }}
+                              >
+                                v{execution.routineVersion}
+                              </Button>
+                            ) : (
+                              <Badge
+                                variant="outline"
+                                className="font-mono text-xs"
+                              >
+                                v{execution.routineVersion}
+                              </Badge>
+                            ))}
                           {isActive && (
                             <Badge variant="default" className="text-xs">
                               Viewing
@@ -118,8 +150,47 @@ export function ExecutionHistoryDrawer({
                         <div className="text-sm text-muted-foreground">
                           {formatTimestamp(execution.startedAt)}
                         </div>
+                        {execution.rerun && (
+                          <div className="text-xs text-muted-foreground">
+                            Re-run of{" "}
+                            <span className="font-mono">
+                              {execution.rerun.parentWorkflowId.slice(0, 8)}...
+                            </span>{" "}
+                            from {execution.rerun.startNodeId}
+                          </div>
+                        )}
+                        {execution.cancelledAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Cancelled{" "}
+                            {execution.cancelledBy &&
+                              `by ${execution.cancelledBy.name} `}
+                            at {formatTimestamp(execution.cancelledAt)}
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
+                        {isCancellable && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={
+                              cancellingId === execution.workflowId ||
+                              execution.cancelledAt !== undefined
+                            }
+                            onClick={() =>
+                              cancelExecution(execution.workflowId)
+                            }
+                          >
+                            {cancellingId === execution.workflowId ? (
+                              <IconLoader2 className="size-4 animate-spin" />
+                            ) : (
+                              <IconPlayerStop className="size-4" />
+                            )}
+                            {execution.cancelledAt !== undefined
+                              ? "Cancelling"
+                              : "Cancel"}
+                          </Button>
+                        )}
                         {onSelectExecution && (
                           <Button
                             size="sm"
@@ -199,7 +270,9 @@ export function ExecutionHistoryDrawer({
                                           className={`text-xs ${
                                             nodeState.status === "completed"
                                               ? "bg-green-500 text-white"
-                                              : ""
+                                              : nodeState.status === "skipped"
+                                                ? "opacity-60"
+                                                : ""
                                           }`}
                                         >
                                           {nodeState.status}
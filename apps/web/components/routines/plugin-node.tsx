@@ -1,25 +1,53 @@
-import { memo, useMemo } from "react";
-import { Handle, Position, type NodeProps } from "@xyflow/react";
+import { memo, useEffect, useMemo } from "react";
+import {
+  Handle,
+  Position,
+  useUpdateNodeInternals,
+  type NodeProps,
+} from "@xyflow/react";
 import { motion } from "motion/react";
-import { IconLoader2, IconCheck, IconAlertTriangle } from "@tabler/icons-react";
 import {
+  IconLoader2,
+  IconCheck,
+  IconAlertTriangle,
+  IconBan,
+  IconPin,
+} from "@tabler/icons-react";
+import type { NodeErrorMode, NodeRetryPolicy } from "@kianax/execution-engine";
+import {
+  getNodeOutputs,
   getPluginInputs,
-  getPluginOutputs,
   getPluginMetadata,
 } from "@/lib/plugins";
 import { cn } from "@kianax/ui/lib/utils";
 
+/**
+ * Status of a node in the execution being viewed. "cancelled" nodes were
+ * interrupted by cancelling the run; "skipped" nodes never ran.
+ */
+export type NodeExecutionStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "pending"
+  | "cancelled"
+  | "skipped";
+
 export interface PluginNodeData extends Record<string, unknown> {
   label: string;
   pluginId: string;
   enabled: boolean;
   config?: Record<string, unknown>;
   credentialMappings?: Record<string, string>;
-  executionStatus?: "running" | "completed" | "failed" | "pending";
+  onError?: NodeErrorMode;
+  retry?: NodeRetryPolicy;
+  timeout?: number;
+  pinnedData?: Record<string, unknown>;
+  executionStatus?: NodeExecutionStatus;
   onConfigure?: (nodeId: string) => void;
 }
 
-function PluginNode({ data, selected }: NodeProps) {
+function PluginNode({ id, data, selected }: NodeProps) {
   const nodeData = data as PluginNodeData;
 
   // Get plugin metadata and ports
@@ -31,20 +59,32 @@ function PluginNode({ data, selected }: NodeProps) {
     () => getPluginInputs(nodeData.pluginId),
     [nodeData.pluginId],
   );
+  // Some plugins (e.g. switch) derive their output handles from config,
+  // and nodes routing errors get an extra "error" handle
   const outputs = useMemo(
-    () => getPluginOutputs(nodeData.pluginId),
-    [nodeData.pluginId],
+    () => getNodeOutputs(nodeData.pluginId, nodeData.config, nodeData.onError),
+    [nodeData.pluginId, nodeData.config, nodeData.onError],
   );
 
   const inputPorts = Object.values(inputs);
   const outputPorts = Object.values(outputs);
 
+  // React Flow caches handle positions; refresh them when handles change
+  const updateNodeInternals = useUpdateNodeInternals();
+  const outputHandleKey = outputPorts.map((port) => port.name).join("|");
+  useEffect(() => {
+    if (outputHandleKey) {
+      updateNodeInternals(id);
+    }
+  }, [id, outputHandleKey, updateNodeInternals]);
+
   // --- Styles ---
 
   // Outer wrapper: Position relative for crosshairs
   const wrapperClasses = cn(
     "relative min-w-[280px] group rounded-xl transition-all duration-200",
     !selected && "hover:-translate-y-0.5",
+    nodeData.executionStatus === "skipped" && "opacity-50",
   );
 
   // Inner Card: The actual visible node
@@ -126,6 +166,16 @@ function PluginNode({ data, selected }: NodeProps) {
             </div>
           </div>
 
+          {/* Pinned data replaces the node's output in test runs */}
+          {nodeData.pinnedData && (
+            <div
+              className="rounded-full bg-primary/10 p-1"
+              title="Output pinned for test runs"
+            >
+              <IconPin className="w-3 h-3 text-primary" />
+            </div>
+          )}
+
           {/* Status Badge (Top Right) */}
           {nodeData.executionStatus === "running" && (
             <IconLoader2 className="w-4 h-4 text-status-running animate-spin" />
@@ -140,6 +190,11 @@ function PluginNode({ data, selected }: NodeProps) {
               <IconAlertTriangle className="w-3 h-3 text-status-failed" />
             </div>
           )}
+          {nodeData.executionStatus === "cancelled" && (
+            <div className="rounded-full bg-muted p-1">
+              <IconBan className="w-3 h-3 text-muted-foreground" />
+            </div>
+          )}
 
           {/* Status Bar (Bottom of Header) */}
           {nodeData.executionStatus === "running" ? (
@@ -9,6 +9,7 @@ import {
   IconHistory,
   IconLoader2,
   IconDeviceFloppy,
+  IconRocket,
 } from "@tabler/icons-react";
 import {
   ToggleGroup,
@@ -24,6 +25,11 @@ interface CanvasControlsProps {
   hasUnsavedChanges: boolean;
   isStartingTest: boolean;
   onRunTest: () => void;
+  /** Publish the saved draft; unset when the routine can't be published */
+  onPublish?: () => void;
+  isPublishing?: boolean;
+  /** The draft differs from the version production triggers run */
+  hasUnpublishedChanges?: boolean;
   onApplyJson?: () => void;
   onToggleHistory: () => void;
   viewingExecutionId: string | null;
@@ -36,6 +42,9 @@ export function CanvasControls({
   hasUnsavedChanges,
   isStartingTest,
   onRunTest,
+  onPublish,
+  isPublishing = false,
+  hasUnpublishedChanges = false,
   onApplyJson,
   onToggleHistory,
   viewingExecutionId,
@@ -120,6 +129,11 @@ export function CanvasControls({
                     <div className="size-1.5 rounded-full bg-amber-500 animate-pulse" />
                     Unsaved
                   </span>
+                ) : hasUnpublishedChanges ? (
+                  <span className="flex items-center gap-1.5">
+                    <div className="size-1.5 rounded-full bg-amber-500" />
+                    Draft saved
+                  </span>
                 ) : (
                   <span className="flex items-center gap-1.5 text-green-600 dark:text-green-500">
                     <IconCheck className="size-3.5" />
@@ -156,6 +170,31 @@ export function CanvasControls({
                 )}
                 Run
               </Button>
+
+              {/* Publish Button */}
+              {onPublish && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-full h-8 px-3"
+                  onClick={onPublish}
+                  disabled={
+                    isPublishing || hasUnsavedChanges || !hasUnpublishedChanges
+                  }
+                  title={
+                    hasUnpublishedChanges
+                      ? "Validate the draft and run it in production"
+                      : "Production runs the saved routine"
+                  }
+                >
+                  {isPublishing ? (
+                    <IconLoader2 className="mr-1.5 size-3.5 animate-spin" />
+                  ) : (
+                    <IconRocket className="mr-1.5 size-3.5" />
+                  )}
+                  {hasUnpublishedChanges ? "Publish" : "Published"}
+                </Button>
+              )}
             </>
           )}
         </div>
@@ -17,8 +17,17 @@ import {
 } from "react";
 import type { Node, Edge } from "@xyflow/react";
 import type { RoutineVariable } from "./variables-panel";
+import {
+  ERROR_HANDLE,
+  getExpressionErrors,
+  PortType,
+  validateExpressionTypes,
+  type NodeErrorMode,
+  type RoutineDefinition,
+} from "@kianax/execution-engine";
 import {
   getPluginOutputs,
+  getPluginSchemas,
   getPluginOutputSchemaFields,
   type OutputSchemaField,
 } from "@kianax/plugins";
@@ -34,6 +43,18 @@ interface ContextNode {
   outputs: string[];
   /** Output schema fields for autocomplete (from plugin output schema) */
   outputSchemaFields?: OutputSchemaField[];
+  /** Pinned sample output (port -> data), used for previews */
+  pinnedData?: Record<string, unknown>;
+}
+
+/**
+ * Validation error of an expression in a node's config
+ */
+export interface NodeExpressionError {
+  /** The expression, with its braces */
+  expression: string;
+  message: string;
+  type: string;
 }
 
 /**
@@ -43,6 +64,9 @@ interface ExpressionContextValue {
   /** All routine variables */
   variables: RoutineVariable[];
 
+  /** Sample trigger payload for previews, if one was captured */
+  triggerSample?: unknown;
+
   /** All nodes in the routine */
   allNodes: ContextNode[];
 
@@ -56,6 +80,24 @@ interface ExpressionContextValue {
    * Check if a node is upstream of another node.
    */
   isUpstream: (sourceNodeId: string, targetNodeId: string) => boolean;
+
+  /**
+   * Check if a node is inside a loop body, where {{ $item }} and
+   * {{ $iteration }} are available.
+   */
+  isInLoopBody: (nodeId: string) => boolean;
+
+  /**
+   * Validate the expressions of a node's config (references and types),
+   * against the rest of the routine as currently edited.
+   */
+  getNodeExpressionErrors: (
+    nodeId: string,
+    config: Record<string, unknown>,
+  ) => NodeExpressionError[];
+
+  /** Create a routine variable, if the editor allows it */
+  onCreateVariable?: (name: string) => void;
 }
 
 const ExpressionContext = createContext<ExpressionContextValue | null>(null);
@@ -67,6 +109,10 @@ interface ExpressionContextProviderProps {
   edges: Edge[];
   /** Routine variables */
   variables: RoutineVariable[];
+  /** Sample trigger payload (e.g. captured from the webhook test URL) */
+  triggerSample?: unknown;
+  /** Create a routine variable (quick-fix for undefined variables) */
+  onCreateVariable?: (name: string) => void;
   children: ReactNode;
 }
 
@@ -80,6 +126,8 @@ export function ExpressionContextProvider({
   nodes,
   edges,
   variables,
+  triggerSample,
+  onCreateVariable,
   children,
 }: ExpressionContextProviderProps) {
   // Convert React Flow nodes to context nodes with output information
@@ -87,12 +135,24 @@ export function ExpressionContextProvider({
     return nodes.map((node) => {
       const pluginId = (node.data as { pluginId: string }).pluginId;
       const label = (node.data as { label: string }).label;
-
-      // Get output port names from plugin registry
-      const outputs = getPluginOutputs(pluginId);
+      const config = (node.data as { config?: Record<string, unknown> }).config;
+      const onError = (node.data as { onError?: NodeErrorMode }).onError;
+      const pinnedData = (node.data as { pinnedData?: Record<string, unknown> })
+        .pinnedData;
+
+      // Get output port names from plugin registry, plus the automatic
+      // error handle
+      const outputs = getPluginOutputs(pluginId, config);
+      if (onError === "error-handle" && !outputs.includes(ERROR_HANDLE)) {
+        outputs.push(ERROR_HANDLE);
+      }
 
       // Get output schema fields for autocomplete
-      const outputSchemaFields = getPluginOutputSchemaFields(pluginId);
+      const outputSchemaFields = getPluginOutputSchemaFields(
+        pluginId,
+        undefined,
+        config,
+      );
 
       return {
         id: node.id,
@@ -101,6 +161,7 @@ export function ExpressionContextProvider({
         outputs,
         outputSchemaFields:
           outputSchemaFields.length > 0 ? outputSchemaFields : undefined,
+        pinnedData,
       };
     });
   }, [nodes]);
@@ -155,14 +216,115 @@ export function ExpressionContextProvider({
     [getUpstreamNodes],
   );
 
+  // Nodes reachable from a loop node's iteration handle, without passing
+  // back through that loop node
+  const loopBodyNodeIds = useMemo(() => {
+    const bodyIds = new Set<string>();
+    const loopNodeIds = allNodes
+      .filter((n) => n.pluginId === "loop")
+      .map((n) => n.id);
+
+    for (const loopId of loopNodeIds) {
+      const queue = edges
+        .filter((e) => e.source === loopId && e.sourceHandle === "iteration")
+        .map((e) => e.target);
+      const visited = new Set<string>();
+
+      while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        if (currentId === loopId || visited.has(currentId)) continue;
+        visited.add(currentId);
+        bodyIds.add(currentId);
+
+        for (const edge of edges) {
+          if (edge.source === currentId) queue.push(edge.target);
+        }
+      }
+    }
+
+    return bodyIds;
+  }, [allNodes, edges]);
+
+  const isInLoopBody = useCallback(
+    (nodeId: string): boolean => loopBodyNodeIds.has(nodeId),
+    [loopBodyNodeIds],
+  );
+
+  const getNodeExpressionErrors = useCallback(
+    (
+      nodeId: string,
+      config: Record<string, unknown>,
+    ): NodeExpressionError[] => {
+      const routine: RoutineDefinition = {
+        name: "Routine",
+        nodes: nodes.map((node) => {
+          const data = node.data as {
+            pluginId: string;
+            label?: string;
+            config?: Record<string, unknown>;
+            onError?: NodeErrorMode;
+          };
+          return {
+            id: node.id,
+            pluginId: data.pluginId,
+            label: data.label || data.pluginId,
+            parameters: node.id === nodeId ? config : data.config || {},
+            onError: data.onError,
+          };
+        }),
+        connections: edges.map((edge) => ({
+          id: edge.id,
+          sourceNodeId: edge.source,
+          targetNodeId: edge.target,
+          sourcePort: edge.sourceHandle || "output",
+          targetPort: edge.targetHandle || "input",
+          type: PortType.Main,
+        })),
+        variables: variables.map((v) => ({
+          id: v.id,
+          name: v.name,
+          type: v.type,
+          value: v.value,
+        })),
+      };
+
+      return [
+        ...getExpressionErrors(routine),
+        ...validateExpressionTypes(routine, (node) =>
+          getPluginSchemas(node.pluginId, node.parameters),
+        ),
+      ]
+        .filter((error) => error.nodeId === nodeId)
+        .map(({ expression, message, type }) => ({
+          expression,
+          message,
+          type,
+        }));
+    },
+    [nodes, edges, variables],
+  );
+
   const value = useMemo<ExpressionContextValue>(
     () => ({
       variables,
+      triggerSample,
       allNodes,
       getUpstreamNodes,
       isUpstream,
+      isInLoopBody,
+      getNodeExpressionErrors,
+      onCreateVariable,
     }),
-    [variables, allNodes, getUpstreamNodes, isUpstream],
+    [
+      variables,
+      triggerSample,
+      allNodes,
+      getUpstreamNodes,
+      isUpstream,
+      isInLoopBody,
+      getNodeExpressionErrors,
+      onCreateVariable,
+    ],
   );
 
   return (
@@ -220,6 +382,23 @@ export interface NodeExpressionContext {
     outputSchemaFields?: OutputSchemaField[];
   }>;
   hasTrigger: boolean;
+  /** Sample trigger payload for previews, if one was captured */
+  triggerData?: unknown;
+  /** Whether the node is inside a loop body */
+  inLoop: boolean;
+  /** Pinned sample data of upstream nodes (nodeId -> port -> data) */
+  pinnedData?: Record<string, unknown>;
+}
+
+/**
+ * Collect the pinned data of upstream nodes, keyed by node ID
+ */
+function getPinnedData(
+  upstreamNodes: ContextNode[],
+): Record<string, unknown> | undefined {
+  const pinned = upstreamNodes.filter((node) => node.pinnedData);
+  if (pinned.length === 0) return undefined;
+  return Object.fromEntries(pinned.map((node) => [node.id, node.pinnedData]));
 }
 
 /**
@@ -230,7 +409,8 @@ export interface NodeExpressionContext {
 export function useNodeExpressionContext(
   nodeId: string,
 ): NodeExpressionContext {
-  const { variables, getUpstreamNodes } = useExpressionContext();
+  const { variables, triggerSample, getUpstreamNodes, isInLoopBody } =
+    useExpressionContext();
 
   return useMemo(() => {
     const upstreamNodes = getUpstreamNodes(nodeId);
@@ -250,8 +430,11 @@ export function useNodeExpressionContext(
         outputSchemaFields: n.outputSchemaFields,
       })),
       hasTrigger: true, // Assume trigger is always available
+      triggerData: triggerSample,
+      inLoop: isInLoopBody(nodeId),
+      pinnedData: getPinnedData(upstreamNodes),
     };
-  }, [nodeId, variables, getUpstreamNodes]);
+  }, [nodeId, variables, triggerSample, getUpstreamNodes, isInLoopBody]);
 }
 
 /**
@@ -285,6 +468,9 @@ export function useOptionalNodeExpressionContext(
         outputSchemaFields: n.outputSchemaFields,
       })),
       hasTrigger: true,
+      triggerData: context.triggerSample,
+      inLoop: context.isInLoopBody(nodeId),
+      pinnedData: getPinnedData(upstreamNodes),
     };
   }, [nodeId, context]);
 }
@@ -0,0 +1,128 @@
+import type { Node } from "@xyflow/react";
+import { describe, expect, it } from "vitest";
+import {
+  describeLocations,
+  findReferences,
+  renameReferencesInNodes,
+  renameReferencesInVariables,
+} from "./expression-refactoring";
+import type { RoutineVariable } from "./variables-panel";
+
+function node(id: string, config: unknown, label = id): Node {
+  return { id, position: { x: 0, y: 0 }, data: { label, config } };
+}
+
+function variable(name: string, value: unknown): RoutineVariable {
+  return { id: name, name, type: "string", value };
+}
+
+const renames = new Map([["http_1", "fetch"]]);
+
+describe("renameReferencesInNodes", () => {
+  it("should rename references anywhere in a config", () => {
+    const [renamed] = renameReferencesInNodes(
+      [
+        node("format", {
+          text: "{{ nodes.http_1.success.data }}",
+          headers: [{ value: "Bearer {{ nodes.http_1.success.token }}" }],
+          retries: 3,
+        }),
+      ],
+      renames,
+    );
+
+    expect(renamed!.data.config).toEqual({
+      text: "{{ nodes.fetch.success.data }}",
+      headers: [{ value: "Bearer {{ nodes.fetch.success.token }}" }],
+      retries: 3,
+    });
+  });
+
+  it("should rename nested and repeated references", () => {
+    const [renamed] = renameReferencesInNodes(
+      [
+        node("format", {
+          text: "{{ nodes.http_1.items[nodes.index.i] }} {{ nodes.http_1.count }}",
+        }),
+      ],
+      new Map([
+        ["http_1", "fetch"],
+        ["index", "pick"],
+      ]),
+    );
+
+    expect(renamed!.data.config).toEqual({
+      text: "{{ nodes.fetch.items[nodes.pick.i] }} {{ nodes.fetch.count }}",
+    });
+  });
+
+  it("should keep nodes and config parts without references", () => {
+    const headers = [{ value: "static" }];
+    const unchanged = node("a", { text: "{{ vars.x }}" });
+    const changed = node("b", { headers, text: "{{ nodes.http_1.v }}" });
+
+    const [first, second] = renameReferencesInNodes(
+      [unchanged, changed],
+      renames,
+    );
+
+    expect(first).toBe(unchanged);
+    expect(second).not.toBe(changed);
+    expect((second!.data.config as { headers: unknown }).headers).toBe(headers);
+  });
+});
+
+describe("renameReferencesInVariables", () => {
+  it("should rename references in variable values", () => {
+    const unchanged = variable("b", 42);
+    expect(
+      renameReferencesInVariables(
+        [variable("a", { url: "{{ nodes.http_1.url }}" }), unchanged],
+        renames,
+      ),
+    ).toEqual([variable("a", { url: "{{ nodes.fetch.url }}" }), unchanged]);
+  });
+});
+
+describe("findReferences", () => {
+  it("should find expressions in configs and variables with their labels", () => {
+    const nodes = [
+      node(
+        "a",
+        { text: "{{ nodes.http_1.x }} and {{ nodes.http_1.y }}" },
+        "Format",
+      ),
+      node("b", { text: "{{ nodes.other.x }}" }, "Other"),
+      node("c", { text: "{{ nodes.http_1.z }}" }, ""),
+    ];
+    const variables = [variable("url", "{{ nodes.http_1.url }}")];
+
+    expect(findReferences(nodes, variables, (id) => id === "http_1")).toEqual([
+      { label: "Format", expression: "{{ nodes.http_1.x }}" },
+      { label: "Format", expression: "{{ nodes.http_1.y }}" },
+      { label: "c", expression: "{{ nodes.http_1.z }}" },
+      { label: "vars.url", expression: "{{ nodes.http_1.url }}" },
+    ]);
+  });
+});
+
+describe("describeLocations", () => {
+  const at = (...labels: string[]) =>
+    labels.map((label) => ({ label, expression: "" }));
+
+  it("should count expressions and list where they are", () => {
+    expect(describeLocations(at("Format"))).toBe("1 expression in Format");
+    expect(describeLocations(at("Format", "Format", "Notify"))).toBe(
+      "3 expressions in Format and Notify",
+    );
+    expect(describeLocations(at("A", "B", "C"))).toBe(
+      "3 expressions in A, B and C",
+    );
+  });
+
+  it("should shorten long lists of places", () => {
+    expect(describeLocations(at("A", "B", "C", "D", "E"))).toBe(
+      "5 expressions in A, B, C and 2 more",
+    );
+  });
+});
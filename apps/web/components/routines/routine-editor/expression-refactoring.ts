@@ -0,0 +1,143 @@
+/**
+ * Expression refactoring for graph edits
+ *
+ * Finds and rewrites the {{ nodes.<id> }} references in node configs and
+ * variable values, so renaming, deleting and copying nodes doesn't leave
+ * dangling references behind.
+ */
+
+import type { Node } from "@xyflow/react";
+import {
+  findNodeReferences,
+  renameNodeReferences,
+} from "@kianax/shared/expressions";
+import type { RoutineVariable } from "./variables-panel";
+
+/**
+ * An expression found in a node's config or a variable's value
+ */
+export interface ExpressionLocation {
+  /** Node label or variable name, for display */
+  label: string;
+  /** The expression, with its braces */
+  expression: string;
+}
+
+/**
+ * A refactoring applied to the graph, summarized for the user
+ */
+export interface ExpressionRefactoring {
+  /** Identifies the refactoring, e.g. to update its toast */
+  id: string;
+  title: string;
+  description: string;
+  /** Revert the graph edit and the rewritten expressions */
+  undo: () => void;
+}
+
+/**
+ * Rewrite node references in the configs of nodes
+ */
+export function renameReferencesInNodes(
+  nodes: Node[],
+  renames: ReadonlyMap<string, string>,
+): Node[] {
+  return nodes.map((node) => {
+    const config = (node.data as { config?: unknown }).config;
+    const renamed = mapStrings(config, (text) =>
+      renameNodeReferences(text, renames),
+    );
+    return renamed === config
+      ? node
+      : { ...node, data: { ...node.data, config: renamed } };
+  });
+}
+
+/**
+ * Rewrite node references in the values of variables
+ */
+export function renameReferencesInVariables(
+  variables: RoutineVariable[],
+  renames: ReadonlyMap<string, string>,
+): RoutineVariable[] {
+  return variables.map((variable) => {
+    const value = mapStrings(variable.value, (text) =>
+      renameNodeReferences(text, renames),
+    );
+    return value === variable.value ? variable : { ...variable, value };
+  });
+}
+
+/**
+ * Find the expressions reading a matching node in node configs and
+ * variable values
+ */
+export function findReferences(
+  nodes: Node[],
+  variables: RoutineVariable[],
+  matches: (nodeId: string) => boolean,
+): ExpressionLocation[] {
+  const locations: ExpressionLocation[] = [];
+  const collect = (value: unknown, label: string) => {
+    mapStrings(value, (text) => {
+      for (const expression of findNodeReferences(text, matches)) {
+        locations.push({
+          label,
+          expression: text.slice(expression.start, expression.end),
+        });
+      }
+      return text;
+    });
+  };
+
+  for (const node of nodes) {
+    const data = node.data as { label?: string; config?: unknown };
+    collect(data.config, data.label || node.id);
+  }
+  for (const variable of variables) {
+    collect(variable.value, `vars.${variable.name}`);
+  }
+  return locations;
+}
+
+/**
+ * Describe where expressions are, e.g. "3 expressions in Format and Notify"
+ */
+export function describeLocations(locations: ExpressionLocation[]): string {
+  const labels = [...new Set(locations.map((l) => l.label))];
+  const places =
+    labels.length > 3
+      ? `${labels.slice(0, 3).join(", ")} and ${labels.length - 3} more`
+      : labels.length > 1
+        ? `${labels.slice(0, -1).join(", ")} and ${labels.at(-1)}`
+        : labels[0];
+  const count = locations.length;
+  return `${count} ${count === 1 ? "expression" : "expressions"} in ${places}`;
+}
+
+/**
+ * Map the strings of a JSON-like value, keeping the value (and its parts)
+ * when nothing changes
+ */
+function mapStrings(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === "string") return map(value);
+
+  if (Array.isArray(value)) {
+    const mapped = value.map((item) => mapStrings(item, map));
+    return mapped.some((item, i) => item !== value[i]) ? mapped : value;
+  }
+
+  if (value && typeof value === "object") {
+    let changed = false;
+    const mapped = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const result = mapStrings(item, map);
+        if (result !== item) changed = true;
+        return [key, result];
+      }),
+    );
+    return changed ? mapped : value;
+  }
+
+  return value;
+}
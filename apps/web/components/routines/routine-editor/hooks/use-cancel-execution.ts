@@ -0,0 +1,34 @@
+import { useState } from "react";
+import { toast } from "sonner";
+
+/**
+ * Cancel running executions through the cancel API
+ * Tracks which execution is being cancelled so its button can show
+ * progress; the execution's status updates once the workflow stops.
+ */
+export function useCancelExecution() {
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const cancelExecution = async (workflowId: string) => {
+    setCancellingId(workflowId);
+    try {
+      const response = await fetch(`/api/executions/${workflowId}/cancel`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to cancel execution");
+      }
+
+      toast.success("Cancelling execution");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel execution");
+      console.error(error);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return { cancelExecution, cancellingId };
+}
@@ -2,9 +2,14 @@ import { useState, useMemo, useEffect } from "react";
 import { useQuery } from "convex/react";
 import { api } from "@kianax/server/convex/_generated/api";
 import { toast } from "sonner";
-import type { RoutineNode, RoutineConnection, RoutineVariable } from "../types";
+import type {
+  RoutineNode,
+  RoutineConnection,
+  RoutineValidationError,
+  RoutineVariable,
+} from "../types";
 import type { Id } from "@kianax/server/convex/_generated/dataModel";
-import type { ExpressionValidationError } from "@kianax/execution-engine";
+import type { NodeExecutionStatus } from "../../plugin-node";
 
 interface UseRoutineExecutionProps {
   routineId: Id<"routines">;
@@ -13,7 +18,7 @@ interface UseRoutineExecutionProps {
     connections: RoutineConnection[];
   };
   variables: RoutineVariable[];
-  validationErrors: ExpressionValidationError[];
+  validationErrors: RoutineValidationError[];
   onSave: (
     nodes: RoutineNode[],
     connections: RoutineConnection[],
@@ -86,11 +91,18 @@ export function useRoutineExecution({
     recentExecutions,
   ]);
 
-  const handleRunTest = async () => {
+  /**
+   * Save the routine and start a test run, or a re-run of an earlier
+   * execution from one of its nodes
+   */
+  const startTestRun = async (rerunFrom?: {
+    workflowId: string;
+    nodeId: string;
+  }) => {
     // Block execution if there are validation errors
     if (validationErrors.length > 0) {
       toast.error(
-        `Cannot run: ${validationErrors.length} expression error${validationErrors.length > 1 ? "s" : ""} must be fixed first`,
+        `Cannot run: ${validationErrors.length} validation error${validationErrors.length > 1 ? "s" : ""} must be fixed first`,
       );
       // Show the first error details
       const firstError = validationErrors[0];
@@ -109,6 +121,10 @@ export function useRoutineExecution({
 
       const response = await fetch(`/api/workflows/${routineId}/execute`, {
         method: "POST",
+        ...(rerunFrom && {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ rerunFrom }),
+        }),
       });
 
       if (!response.ok) {
@@ -119,7 +135,7 @@ export function useRoutineExecution({
       const data = await response.json();
       setTestWorkflowId(data.workflowId);
       setTestPanelOpen(true);
-      toast.success("Test run started");
+      toast.success(rerunFrom ? "Re-run started" : "Test run started");
 
       if (onTest) onTest();
     } catch (error: any) {
@@ -130,12 +146,18 @@ export function useRoutineExecution({
     }
   };
 
+  const handleRunTest = () => startTestRun();
+
+  // Re-run the execution being viewed from a node, reusing its earlier
+  // outputs for the nodes before it
+  const handleRerunFromNode = (nodeId: string) => {
+    if (!activeExecution) return;
+    return startTestRun({ workflowId: activeExecution.workflowId, nodeId });
+  };
+
   // Compute node status map for the active execution
   const nodeStatusMap = useMemo(() => {
-    const map = new Map<
-      string,
-      "running" | "completed" | "failed" | "pending"
-    >();
+    const map = new Map<string, NodeExecutionStatus>();
     if (!activeExecution || !activeExecution.nodeStates) return map;
 
     activeExecution.nodeStates.forEach((state: any) => {
@@ -154,6 +176,7 @@ export function useRoutineExecution({
     selectedResultNodeId,
     setSelectedResultNodeId,
     handleRunTest,
+    handleRerunFromNode,
     activeExecution,
     recentExecutions,
     nodeStatusMap,
@@ -1,4 +1,11 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
 import {
   applyNodeChanges,
   applyEdgeChanges,
@@ -12,22 +19,61 @@ import {
   type OnNodesChange,
   type OnEdgesChange,
 } from "@xyflow/react";
-import type { RoutineNode, RoutineConnection } from "../types";
-import type { PluginNodeData } from "../../plugin-node";
+import { isValidNodeId } from "@kianax/shared/expressions";
+import type { NodeSettings, RoutineNode, RoutineConnection } from "../types";
+import type { NodeExecutionStatus, PluginNodeData } from "../../plugin-node";
+import type { RoutineVariable } from "../variables-panel";
+import {
+  describeLocations,
+  findReferences,
+  renameReferencesInNodes,
+  renameReferencesInVariables,
+  type ExpressionRefactoring,
+} from "../expression-refactoring";
+import { getNodeOutputs, getPluginMetadata } from "@/lib/plugins";
+
+/** Marks clipboard text holding copied nodes */
+const CLIPBOARD_TYPE = "kianax/nodes";
+
+/** Offset of pasted and duplicated nodes from the originals */
+const PASTE_OFFSET = 40;
+
+interface ClipboardNodes {
+  type: typeof CLIPBOARD_TYPE;
+  nodes: RoutineNode[];
+  connections: RoutineConnection[];
+}
 
 interface UseRoutineGraphProps {
   initialNodes: RoutineNode[];
   initialConnections: RoutineConnection[];
+  /** Routine variables, whose values are refactored with node configs */
+  variables: RoutineVariable[];
+  setVariables: Dispatch<SetStateAction<RoutineVariable[]>>;
   onConfigureNode?: (nodeId: string) => void;
 }
 
+/**
+ * A new node ID in the `node-<timestamp>` format, not taken yet
+ */
+function createNodeId(taken: ReadonlySet<string>): string {
+  let time = Date.now();
+  while (taken.has(`node-${time}`)) time++;
+  return `node-${time}`;
+}
+
 export function useRoutineGraph({
   initialNodes,
   initialConnections,
+  variables,
+  setVariables,
   onConfigureNode,
 }: UseRoutineGraphProps) {
   const [nodes, setNodes] = useState<Node[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
+  const [refactoring, setRefactoring] = useState<ExpressionRefactoring | null>(
+    null,
+  );
   const isInitializedRef = useRef(false);
 
   // --- Conversion Helpers ---
@@ -44,6 +90,10 @@ export function useRoutineGraph({
           onConfigure: onConfigureNode,
           config: node.config,
           credentialMappings: node.credentialMappings,
+          onError: node.onError,
+          retry: node.retry,
+          timeout: node.timeout,
+          pinnedData: node.pinnedData,
         },
       }));
     },
@@ -82,6 +132,10 @@ export function useRoutineGraph({
           position: node.position,
           config: data.config,
           credentialMappings: data.credentialMappings,
+          onError: data.onError,
+          retry: data.retry,
+          timeout: data.timeout,
+          pinnedData: data.pinnedData,
         };
       });
     },
@@ -118,9 +172,56 @@ export function useRoutineGraph({
 
   // --- Event Handlers ---
 
-  const onNodesChange: OnNodesChange = useCallback((changes: NodeChange[]) => {
-    setNodes((nds) => applyNodeChanges(changes, nds));
-  }, []);
+  const onNodesChange: OnNodesChange = useCallback(
+    (changes: NodeChange[]) => {
+      setNodes((nds) => applyNodeChanges(changes, nds));
+
+      // Flag the expressions still reading deleted nodes
+      const removedIds = new Set(
+        changes.flatMap((change) =>
+          change.type === "remove" ? [change.id] : [],
+        ),
+      );
+      if (removedIds.size === 0) return;
+
+      const removedNodes = nodes.filter((node) => removedIds.has(node.id));
+      const removedEdges = edges.filter(
+        (edge) => removedIds.has(edge.source) || removedIds.has(edge.target),
+      );
+      const references = findReferences(
+        nodes.filter((node) => !removedIds.has(node.id)),
+        variables,
+        (id) => removedIds.has(id),
+      );
+      if (references.length === 0) return;
+
+      setRefactoring({
+        id: `delete-${Date.now()}`,
+        title:
+          removedNodes.length === 1
+            ? `Deleted "${getNodeLabel(removedNodes[0]!)}"`
+            : `Deleted ${removedNodes.length} nodes`,
+        description: `${describeLocations(references)} still ${
+          references.length === 1 ? "reads" : "read"
+        } ${removedNodes.length === 1 ? "it" : "them"}`,
+        undo: () => {
+          setNodes((nds) => [
+            ...nds,
+            ...removedNodes.filter(
+              (node) => !nds.some((n) => n.id === node.id),
+            ),
+          ]);
+          setEdges((eds) => [
+            ...eds,
+            ...removedEdges.filter(
+              (edge) => !eds.some((e) => e.id === edge.id),
+            ),
+          ]);
+        },
+      });
+    },
+    [nodes, edges, variables],
+  );
 
   const onEdgesChange: OnEdgesChange = useCallback((changes: EdgeChange[]) => {
     setEdges((eds) => applyEdgeChanges(changes, eds));
@@ -187,25 +288,269 @@ export function useRoutineGraph({
     [nodes, onConfigureNode],
   );
 
+  /**
+   * Rewrite node IDs in the graph, the configs of nodes and the values of
+   * variables
+   */
+  const applyRenames = useCallback(
+    (renames: ReadonlyMap<string, string>) => {
+      setNodes((nds) =>
+        renameReferencesInNodes(nds, renames).map((node) =>
+          renames.has(node.id) ? { ...node, id: renames.get(node.id)! } : node,
+        ),
+      );
+      setEdges((eds) =>
+        eds.map((edge) => ({
+          ...edge,
+          source: renames.get(edge.source) ?? edge.source,
+          target: renames.get(edge.target) ?? edge.target,
+        })),
+      );
+      setVariables((vars) => renameReferencesInVariables(vars, renames));
+    },
+    [setVariables],
+  );
+
+  /**
+   * Change a node's ID, rewriting the expressions that read it.
+   * Returns an error message if the ID can't be used.
+   */
+  const renameNode = useCallback(
+    (nodeId: string, newId: string): string | undefined => {
+      if (!isValidNodeId(newId)) {
+        return "Node IDs can only contain letters, digits, _, $ and single hyphens";
+      }
+      if (nodes.some((node) => node.id === newId)) {
+        return `A node with ID "${newId}" already exists`;
+      }
+      const node = nodes.find((n) => n.id === nodeId);
+      if (!node) return undefined;
+
+      const references = findReferences(
+        nodes,
+        variables,
+        (id) => id === nodeId,
+      );
+      applyRenames(new Map([[nodeId, newId]]));
+
+      setRefactoring({
+        id: `rename-${Date.now()}`,
+        title: `Changed the ID of "${getNodeLabel(node)}" to ${newId}`,
+        description:
+          references.length > 0
+            ? `Updated ${describeLocations(references)}`
+            : "No expressions read this node",
+        undo: () => applyRenames(new Map([[newId, nodeId]])),
+      });
+      return undefined;
+    },
+    [nodes, variables, applyRenames],
+  );
+
+  /**
+   * Add copies of nodes with new IDs, with the connections between them.
+   * Expressions of the copies reading each other are rewritten to read
+   * the copies; those reading nodes missing from the routine are flagged.
+   */
+  const insertNodes = useCallback(
+    (
+      routineNodes: RoutineNode[],
+      routineConnections: RoutineConnection[],
+      action: "Duplicated" | "Pasted",
+    ) => {
+      if (routineNodes.length === 0) return;
+
+      const taken = new Set(nodes.map((node) => node.id));
+      const renames = new Map<string, string>();
+      for (const node of routineNodes) {
+        const id = createNodeId(taken);
+        taken.add(id);
+        renames.set(node.id, id);
+      }
+
+      const copies = renameReferencesInNodes(
+        convertToReactFlowNodes(
+          routineNodes.map((node) => ({
+            ...node,
+            id: renames.get(node.id)!,
+            position: {
+              x: node.position.x + PASTE_OFFSET,
+              y: node.position.y + PASTE_OFFSET,
+            },
+          })),
+        ),
+        renames,
+      ).map((node) => ({ ...node, selected: true }));
+      const copyIds = new Set(copies.map((node) => node.id));
+      const copyEdges = convertToReactFlowEdges(
+        routineConnections
+          .filter(
+            (conn) =>
+              renames.has(conn.sourceNodeId) && renames.has(conn.targetNodeId),
+          )
+          .map((conn) => {
+            const source = renames.get(conn.sourceNodeId)!;
+            const target = renames.get(conn.targetNodeId)!;
+            return {
+              ...conn,
+              id: `${source}-${target}-${Date.now()}`,
+              sourceNodeId: source,
+              targetNodeId: target,
+            };
+          }),
+      );
+
+      setNodes((nds) => [
+        ...nds.map((node) => ({ ...node, selected: false })),
+        ...copies,
+      ]);
+      setEdges((eds) => [...eds, ...copyEdges]);
+
+      // References the copies now read from each other, and references
+      // to nodes that aren't in this routine
+      const rewritten = findReferences(
+        convertToReactFlowNodes(routineNodes),
+        [],
+        (id) => renames.has(id),
+      );
+      const dangling = findReferences(copies, [], (id) => !taken.has(id));
+
+      const count = copies.length;
+      setRefactoring({
+        id: `${action.toLowerCase()}-${Date.now()}`,
+        title: `${action} ${count === 1 ? `"${getNodeLabel(copies[0]!)}"` : `${count} nodes`}`,
+        description: [
+          rewritten.length > 0 &&
+            `Updated ${describeLocations(rewritten)} to read the copies`,
+          dangling.length > 0 &&
+            `${describeLocations(dangling)} ${
+              dangling.length === 1 ? "reads a node" : "read nodes"
+            } missing from this routine`,
+        ]
+          .filter(Boolean)
+          .join(". "),
+        undo: () => {
+          setNodes((nds) => nds.filter((node) => !copyIds.has(node.id)));
+          setEdges((eds) =>
+            eds.filter(
+              (edge) => !copyIds.has(edge.source) && !copyIds.has(edge.target),
+            ),
+          );
+        },
+      });
+    },
+    [nodes, convertToReactFlowNodes, convertToReactFlowEdges],
+  );
+
+  /**
+   * Nodes and the connections between them, in the saved format
+   */
+  const getNodesToCopy = useCallback(
+    (nodeIds: string[]) => {
+      const ids = new Set(nodeIds);
+      return {
+        nodes: convertFromReactFlowNodes(
+          nodes.filter((node) => ids.has(node.id)),
+        ),
+        connections: convertFromReactFlowEdges(
+          edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target)),
+        ),
+      };
+    },
+    [nodes, edges, convertFromReactFlowNodes, convertFromReactFlowEdges],
+  );
+
+  const duplicateNodes = useCallback(
+    (nodeIds: string[]) => {
+      const { nodes: routineNodes, connections } = getNodesToCopy(nodeIds);
+      insertNodes(routineNodes, connections, "Duplicated");
+    },
+    [getNodesToCopy, insertNodes],
+  );
+
+  /**
+   * Serialize nodes (and the connections between them) for the clipboard
+   */
+  const copyNodes = useCallback(
+    (nodeIds: string[]): string | undefined => {
+      const copied = getNodesToCopy(nodeIds);
+      if (copied.nodes.length === 0) return undefined;
+      return JSON.stringify({ type: CLIPBOARD_TYPE, ...copied });
+    },
+    [getNodesToCopy],
+  );
+
+  /**
+   * Paste nodes copied with copyNodes, possibly from another routine.
+   * Returns false if the text doesn't hold copied nodes.
+   */
+  const pasteNodes = useCallback(
+    (text: string): boolean => {
+      let clipboard: ClipboardNodes;
+      try {
+        clipboard = JSON.parse(text);
+      } catch {
+        return false;
+      }
+      if (clipboard?.type !== CLIPBOARD_TYPE) return false;
+
+      insertNodes(clipboard.nodes, clipboard.connections, "Pasted");
+      return true;
+    },
+    [insertNodes],
+  );
+
   const updateNodeConfig = useCallback(
     (
       nodeId: string,
       config: Record<string, unknown>,
       label: string,
       credentialMappings?: Record<string, string>,
+      settings: NodeSettings = {},
     ) => {
       setNodes((nds) =>
         nds.map((node) =>
           node.id === nodeId
             ? {
                 ...node,
-                data: { ...node.data, config, label, credentialMappings },
+                data: {
+                  ...node.data,
+                  config,
+                  label,
+                  credentialMappings,
+                  onError: settings.onError,
+                  retry: settings.retry,
+                  timeout: settings.timeout,
+                },
               }
             : node,
         ),
       );
+
+      // Drop connections from output handles the new config or error
+      // mode removed
+      const data = nodes.find((node) => node.id === nodeId)?.data as
+        | PluginNodeData
+        | undefined;
+      if (
+        data &&
+        (getPluginMetadata(data.pluginId)?.dynamicOutputHandles ||
+          data.onError !== settings.onError)
+      ) {
+        const handles = new Set(
+          Object.keys(getNodeOutputs(data.pluginId, config, settings.onError)),
+        );
+        setEdges((eds) =>
+          eds.filter(
+            (edge) =>
+              edge.source !== nodeId ||
+              !edge.sourceHandle ||
+              handles.has(edge.sourceHandle),
+          ),
+        );
+      }
     },
-    [],
+    [nodes],
   );
 
   const setNodesSelection = useCallback((nodeId: string | null) => {
@@ -218,12 +563,7 @@ export function useRoutineGraph({
   }, []);
 
   const updateNodeExecutionStatus = useCallback(
-    (
-      nodeStatusMap: Map<
-        string,
-        "running" | "completed" | "failed" | "pending"
-      >,
-    ) => {
+    (nodeStatusMap: Map<string, NodeExecutionStatus>) => {
       setNodes((currentNodes) =>
         currentNodes.map((node) => {
           const status = nodeStatusMap.get(node.id);
@@ -245,12 +585,7 @@ export function useRoutineGraph({
   );
 
   const updateEdgeExecutionStatus = useCallback(
-    (
-      nodeStatusMap: Map<
-        string,
-        "running" | "completed" | "failed" | "pending"
-      >,
-    ) => {
+    (nodeStatusMap: Map<string, NodeExecutionStatus>) => {
       setEdges((currentEdges) =>
         currentEdges.map((edge) => {
           const sourceStatus = nodeStatusMap.get(edge.source);
@@ -284,6 +619,19 @@ export function useRoutineGraph({
     [],
   );
 
+  const pinNodeData = useCallback(
+    (nodeId: string, pinnedData: Record<string, unknown> | undefined) => {
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.id === nodeId
+            ? { ...node, data: { ...node.data, pinnedData } }
+            : node,
+        ),
+      );
+    },
+    [],
+  );
+
   const getRoutineData = useCallback(() => {
     return {
       nodes: convertFromReactFlowNodes(nodes),
@@ -308,7 +656,13 @@ export function useRoutineGraph({
     onEdgesChange,
     onConnect,
     addNode,
+    renameNode,
+    duplicateNodes,
+    copyNodes,
+    pasteNodes,
+    refactoring,
     updateNodeConfig,
+    pinNodeData,
     updateNodeExecutionStatus,
     updateEdgeExecutionStatus,
     setNodesSelection,
@@ -320,3 +674,7 @@ export function useRoutineGraph({
     convertToReactFlowEdges,
   };
 }
+
+function getNodeLabel(node: Node): string {
+  return (node.data as PluginNodeData).label || node.id;
+}
@@ -4,6 +4,7 @@ import { useCallback, useState, useEffect } from "react";
 import type { Node } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { toast } from "sonner";
+import { nanoid } from "nanoid";
 import { CanvasControls } from "./canvas-controls";
 import type { RoutineEditorProps, EditorMode } from "./types";
 import { ExpressionContextProvider } from "./expression-context";
@@ -13,15 +14,20 @@ import { useRoutineExecution } from "./hooks/use-routine-execution";
 import { JsonEditor } from "./json-editor";
 import { VisualEditor } from "./visual-editor";
 import type { RoutineVariable } from "./variables-panel";
+import type { RoutineSnapshot } from "./version-diff";
 
 export function RoutineEditor({
   routineId,
   initialNodes,
   initialConnections,
   initialVariables = [],
+  triggerSample,
   validationErrors = [],
+  version,
+  publishedVersion,
   onSave,
   onTest,
+  onPublish,
 }: RoutineEditorProps) {
   const [editorMode, setEditorMode] = useState<EditorMode>("visual");
   const [jsonValue, setJsonValue] = useState("");
@@ -32,6 +38,7 @@ export function RoutineEditor({
     null,
   );
   const [historyDrawerOpen, setHistoryDrawerOpen] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
 
   // Variables state
   const [variables, setVariables] =
@@ -53,7 +60,13 @@ export function RoutineEditor({
     onEdgesChange,
     onConnect,
     addNode,
+    renameNode,
+    duplicateNodes,
+    copyNodes,
+    pasteNodes,
+    refactoring,
     updateNodeConfig,
+    pinNodeData,
     updateNodeExecutionStatus,
     updateEdgeExecutionStatus,
     setNodesSelection,
@@ -65,6 +78,8 @@ export function RoutineEditor({
   } = useRoutineGraph({
     initialNodes,
     initialConnections,
+    variables,
+    setVariables,
     onConfigureNode: handleConfigureNode,
   });
 
@@ -76,6 +91,7 @@ export function RoutineEditor({
     selectedResultNodeId,
     setSelectedResultNodeId,
     handleRunTest,
+    handleRerunFromNode,
     activeExecution,
     nodeStatusMap,
     viewingExecutionId,
@@ -106,6 +122,22 @@ export function RoutineEditor({
     updateEdgeExecutionStatus(nodeStatusMap);
   }, [nodeStatusMap, updateNodeExecutionStatus, updateEdgeExecutionStatus]);
 
+  // Summarize expression refactorings, with a way to undo them
+  useEffect(() => {
+    if (!refactoring) return;
+    toast(refactoring.title, {
+      id: refactoring.id,
+      description: refactoring.description,
+      action: {
+        label: "Undo",
+        onClick: () => {
+          refactoring.undo();
+          triggerAutoSave();
+        },
+      },
+    });
+  }, [refactoring, triggerAutoSave]);
+
   // Sync JSON when switching to JSON mode
   useEffect(() => {
     if (editorMode === "json") {
@@ -126,6 +158,49 @@ export function RoutineEditor({
     [triggerAutoSave],
   );
 
+  // Quick-fix for expressions that use an undefined variable
+  const handleCreateVariable = useCallback(
+    (name: string) => {
+      if (variables.some((v) => v.name === name)) return;
+      handleVariablesChange([
+        ...variables,
+        { id: nanoid(), name, type: "string", value: "" },
+      ]);
+      toast.success(`Variable "${name}" created`, {
+        description: "Set its type and value in the variables panel",
+      });
+    },
+    [variables, handleVariablesChange],
+  );
+
+  // The rollback is saved as a new version, so it only needs showing.
+  // The inspector would hold the config from before the rollback.
+  const handleRollback = useCallback(
+    (snapshot: RoutineSnapshot) => {
+      setNodes(convertToReactFlowNodes(snapshot.nodes));
+      setEdges(convertToReactFlowEdges(snapshot.connections));
+      setVariables(snapshot.variables ?? []);
+      setConfigDrawerOpen(false);
+      setConfiguringNodeId(null);
+    },
+    [setNodes, setEdges, convertToReactFlowNodes, convertToReactFlowEdges],
+  );
+
+  const handlePublish = async () => {
+    if (!onPublish) return;
+    setIsPublishing(true);
+    try {
+      await onPublish();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  // Unsaved edits and saved drafts aren't what production runs yet
+  const hasUnpublishedChanges =
+    hasUnsavedChanges ||
+    (publishedVersion !== undefined && version !== publishedVersion);
+
   const handleApplyJson = () => {
     try {
       const parsed = JSON.parse(jsonValue);
@@ -177,6 +252,8 @@ export function RoutineEditor({
       nodes={nodes}
       edges={edges}
       variables={variables}
+      triggerSample={triggerSample}
+      onCreateVariable={handleCreateVariable}
     >
       <div className="relative h-full w-full">
         {editorMode === "visual" ? (
@@ -188,7 +265,12 @@ export function RoutineEditor({
             onConnect={onConnect}
             onNodeClick={onNodeClick}
             addNode={addNode}
+            renameNode={renameNode}
+            duplicateNodes={duplicateNodes}
+            copyNodes={copyNodes}
+            pasteNodes={pasteNodes}
             updateNodeConfig={updateNodeConfig}
+            pinNodeData={pinNodeData}
             triggerAutoSave={triggerAutoSave}
             variables={variables}
             onVariablesChange={handleVariablesChange}
@@ -200,6 +282,7 @@ export function RoutineEditor({
             setViewingExecutionId={setViewingExecutionId}
             historyDrawerOpen={historyDrawerOpen}
             setHistoryDrawerOpen={setHistoryDrawerOpen}
+            onRollback={handleRollback}
             configuringNodeId={configuringNodeId}
             setConfiguringNodeId={setConfiguringNodeId}
             configDrawerOpen={configDrawerOpen}
@@ -213,6 +296,10 @@ export function RoutineEditor({
             hasUnsavedChanges={hasUnsavedChanges}
             isStartingTest={isStartingTest}
             onRunTest={handleRunTest}
+            onPublish={onPublish && handlePublish}
+            isPublishing={isPublishing}
+            hasUnpublishedChanges={hasUnpublishedChanges}
+            onRerunFromNode={handleRerunFromNode}
             onApplyJson={undefined}
             onExitViewingMode={() => {
               setViewingExecutionId(null);
@@ -228,6 +315,9 @@ export function RoutineEditor({
               hasUnsavedChanges={hasUnsavedChanges}
               isStartingTest={isStartingTest}
               onRunTest={handleRunTest}
+              onPublish={onPublish && handlePublish}
+              isPublishing={isPublishing}
+              hasUnpublishedChanges={hasUnpublishedChanges}
               onApplyJson={handleApplyJson}
               onToggleHistory={() => setHistoryDrawerOpen(true)}
               viewingExecutionId={viewingExecutionId}
@@ -29,6 +29,7 @@ import {
   IconLoader2,
   IconClock,
   IconDatabase,
+  IconPlayerPlay,
 } from "@tabler/icons-react";
 import { toast } from "sonner";
 import Link from "next/link";
@@ -36,10 +37,17 @@ import { format } from "date-fns";
 import { useQuery } from "convex/react";
 import { api } from "@kianax/server/convex/_generated/api";
 import { getPluginConfigComponent, getPluginMetadata } from "@kianax/plugins";
-import { useOptionalNodeExpressionContext } from "./expression-context";
+import {
+  useOptionalExpressionContext,
+  useOptionalNodeExpressionContext,
+} from "./expression-context";
 import { ExpressionDataPicker } from "@kianax/ui/components/expression-data-picker";
 import { buildExpressionContext } from "@kianax/ui/components/expression-input";
 import { motion } from "motion/react";
+import type { NodeErrorMode, NodeRetryPolicy } from "@kianax/execution-engine";
+import { NodeSettingsForm } from "./node-settings";
+import { PinnedDataSection } from "./pinned-data";
+import type { NodeSettings } from "./types";
 
 // --- Types ---
 
@@ -50,9 +58,12 @@ interface NodeExecutionState {
   error?: { message: string; stack?: string };
   startedAt?: number;
   completedAt?: number;
+  /** Set while the node waits (e.g. wait nodes) */
+  waitingUntil?: number;
 }
 
 interface TestExecution {
+  workflowId: string;
   nodeStates: NodeExecutionState[];
   triggerData?: unknown;
   status: string;
@@ -65,14 +76,29 @@ interface NodeInspectorProps {
   nodeLabel: string;
   config?: Record<string, unknown>;
   credentialMappings?: Record<string, string>;
+  onError?: NodeErrorMode;
+  retry?: NodeRetryPolicy;
+  timeout?: number;
+  /** Sample output emitted instead of running the node in test runs */
+  pinnedData?: Record<string, unknown>;
   onSave: (
     nodeId: string,
     config: Record<string, unknown>,
     label: string,
     credentialMappings?: Record<string, string>,
+    settings?: NodeSettings,
+  ) => void;
+  /** Change the node's ID; returns an error message if it can't be used */
+  onRename?: (nodeId: string, newId: string) => string | undefined;
+  onPinData?: (
+    nodeId: string,
+    pinnedData: Record<string, unknown> | undefined,
   ) => void;
   onClose: () => void;
   testExecution?: TestExecution | null;
+  /** Re-run the viewed execution from this node */
+  onRerunFromNode?: (nodeId: string) => void;
+  isStartingTest?: boolean;
   defaultTab?: "config" | "result";
   hasUnsavedChanges: boolean;
 }
@@ -94,9 +120,17 @@ export function NodeInspector({
   nodeLabel,
   config,
   credentialMappings,
+  onError,
+  retry,
+  timeout,
+  pinnedData,
   onSave,
+  onRename,
+  onPinData,
   onClose,
   testExecution,
+  onRerunFromNode,
+  isStartingTest,
   defaultTab = "config",
   hasUnsavedChanges,
 }: NodeInspectorProps) {
@@ -109,29 +143,64 @@ export function NodeInspector({
 
   // --- Config State & Logic ---
   const nodeLabelInputId = useId();
+  const nodeIdInputId = useId();
   const [localConfig, setLocalConfig] = useState<Record<string, unknown>>(
     config || {},
   );
   const [localLabel, setLocalLabel] = useState<string>(nodeLabel);
+  const [localId, setLocalId] = useState<string>(nodeId);
   const [localCredentialMappings, setLocalCredentialMappings] = useState<
     Record<string, string>
   >(credentialMappings || {});
+  const [localSettings, setLocalSettings] = useState<NodeSettings>({
+    onError,
+    retry,
+    timeout,
+  });
 
   // Sync local state with props
   useEffect(() => {
     setLocalConfig(config || {});
     setLocalLabel(nodeLabel);
     setLocalCredentialMappings(credentialMappings || {});
-  }, [config, nodeLabel, credentialMappings]);
+    setLocalSettings({ onError, retry, timeout });
+  }, [config, nodeLabel, credentialMappings, onError, retry, timeout]);
 
   const metadata = getPluginMetadata(pluginId);
   const requirements = metadata?.credentialRequirements || [];
   const userCredentials = useQuery(api.credentials.list);
   const ConfigComponent = getPluginConfigComponent(pluginId);
 
+  // Routines that config UIs can reference (e.g. execute-routine)
+  const userRoutines = useQuery(api.routines.listByUser, {});
+  const routineOptions = useMemo(
+    () =>
+      userRoutines?.map((routine) => ({
+        id: routine._id,
+        name: routine.name,
+      })),
+    [userRoutines],
+  );
+
   const handleSave = () => {
     try {
-      onSave(nodeId, localConfig, localLabel, localCredentialMappings);
+      onSave(
+        nodeId,
+        localConfig,
+        localLabel,
+        localCredentialMappings,
+        localSettings,
+      );
+
+      // Rewrites the expressions reading the node, and remounts the
+      // inspector for the new ID
+      const newId = localId.trim();
+      const renameError =
+        newId !== nodeId ? onRename?.(nodeId, newId) : undefined;
+      if (renameError) {
+        toast.error(renameError);
+        return;
+      }
       toast.success("Configuration updated");
     } catch (error) {
       console.error("Failed to save configuration:", error);
@@ -141,6 +210,13 @@ export function NodeInspector({
 
   // --- Expression Context Logic ---
   const expressionContext = useOptionalNodeExpressionContext(nodeId);
+  const routineContext = useOptionalExpressionContext();
+
+  // Validate the config as edited, so fields show errors before saving
+  const expressionErrors = useMemo(
+    () => routineContext?.getNodeExpressionErrors(nodeId, localConfig),
+    [routineContext, nodeId, localConfig],
+  );
 
   const executionResults = useMemo(() => {
     if (!testExecution?.nodeStates) return undefined;
@@ -158,9 +234,18 @@ export function NodeInspector({
     return {
       ...expressionContext,
       executionResults,
-      triggerData: testExecution?.triggerData,
+      // Prefer the last test run's trigger data, then the captured sample
+      triggerData: testExecution?.triggerData ?? expressionContext.triggerData,
+      errors: expressionErrors,
+      onCreateVariable: routineContext?.onCreateVariable,
     };
-  }, [expressionContext, executionResults, testExecution?.triggerData]);
+  }, [
+    expressionContext,
+    executionResults,
+    testExecution?.triggerData,
+    expressionErrors,
+    routineContext?.onCreateVariable,
+  ]);
 
   const uiContext = buildExpressionContext(enrichedContext);
   const hasExpressionData =
@@ -280,6 +365,29 @@ export function NodeInspector({
                   />
                 </div>
 
+                {/* Node ID */}
+                {onRename && (
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor={nodeIdInputId}
+                      className="text-sm font-medium"
+                    >
+                      Node ID
+                    </Label>
+                    <Input
+                      id={nodeIdInputId}
+                      value={localId}
+                      onChange={(e) => setLocalId(e.target.value)}
+                      className="font-mono text-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Expressions read this node as{" "}
+                      <code>{`{{ nodes.${nodeId} }}`}</code>. Changing the ID
+                      updates them.
+                    </p>
+                  </div>
+                )}
+
                 {/* Credentials */}
                 {requirements.length > 0 && (
                   <div className="space-y-4 pt-2">
@@ -357,6 +465,8 @@ export function NodeInspector({
                       value={localConfig}
                       onChange={setLocalConfig}
                       expressionContext={enrichedContext}
+                      routines={routineOptions}
+                      executionError={executionState?.error?.message}
                     />
                   ) : (
                     <div className="text-sm text-muted-foreground py-8 text-center italic bg-muted/20 rounded-lg border border-dashed">
@@ -364,6 +474,14 @@ export function NodeInspector({
                     </div>
                   )}
                 </div>
+
+                <div className="h-px bg-border" />
+
+                {/* Node Settings */}
+                <NodeSettingsForm
+                  value={localSettings}
+                  onChange={setLocalSettings}
+                />
               </div>
             </ScrollArea>
           </div>
@@ -412,10 +530,44 @@ export function NodeInspector({
                               : ""
                       }`}
                     >
-                      {executionState.status}
+                      {executionState.status === "running" &&
+                      executionState.waitingUntil
+                        ? "waiting"
+                        : executionState.status}
                     </Badge>
                   </div>
 
+                  {/* Wake-up time of waiting nodes */}
+                  {executionState.status === "running" &&
+                    executionState.waitingUntil && (
+                      <div className="flex items-center gap-2 bg-blue-500/5 p-3 rounded-lg border border-blue-500/20 text-sm">
+                        <IconClock className="size-4 text-blue-600" />
+                        Waiting until{" "}
+                        {format(new Date(executionState.waitingUntil), "PPp")}
+                      </div>
+                    )}
+
+                  {/* Re-run from here, reusing earlier outputs */}
+                  {onRerunFromNode &&
+                    testExecution?.status !== "running" &&
+                    testExecution?.status !== "pending" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        disabled={isStartingTest}
+                        onClick={() => onRerunFromNode(nodeId)}
+                        title="Run this node and the nodes after it again, reusing earlier outputs"
+                      >
+                        {isStartingTest ? (
+                          <IconLoader2 className="size-4 animate-spin" />
+                        ) : (
+                          <IconPlayerPlay className="size-4" />
+                        )}
+                        Re-run from this node
+                      </Button>
+                    )}
+
                   {/* Timing Grid */}
                   <div className="grid grid-cols-2 gap-3">
                     <div className="bg-muted/30 p-3 rounded-lg border border-border">
@@ -485,6 +637,19 @@ export function NodeInspector({
                   </div>
                 </>
               )}
+
+              {/* Pinned sample data for test runs and previews */}
+              {onPinData && (
+                <PinnedDataSection
+                  pinnedData={pinnedData}
+                  lastOutput={
+                    executionState?.status === "completed"
+                      ? executionState.output
+                      : undefined
+                  }
+                  onChange={(data) => onPinData(nodeId, data)}
+                />
+              )}
             </div>
           </ScrollArea>
         </TabsContent>
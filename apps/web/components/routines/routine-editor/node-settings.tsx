@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import { Input } from "@kianax/ui/components/input";
+import { Label } from "@kianax/ui/components/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconAlertTriangle, IconRefresh } from "@tabler/icons-react";
+import {
+  DEFAULT_NODE_TIMEOUT,
+  DEFAULT_RETRY_POLICY,
+  type NodeErrorMode,
+  type NodeRetryPolicy,
+} from "@kianax/execution-engine";
+import type { NodeSettings } from "./types";
+
+interface NodeSettingsFormProps {
+  value: NodeSettings;
+  onChange: (value: NodeSettings) => void;
+}
+
+const ERROR_MODES: Array<{
+  value: NodeErrorMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "stop",
+    label: "Stop routine",
+    description: "A failure stops the whole routine.",
+  },
+  {
+    value: "continue",
+    label: "Continue with error as output",
+    description: "A failure is passed on as { error } through the output.",
+  },
+  {
+    value: "error-handle",
+    label: "Route to error handle",
+    description:
+      "A failure is sent to the Error handle with its message, code and details.",
+  },
+];
+
+/**
+ * Parse a number input, treating an empty field as "use the default"
+ */
+function parseNumber(value: string, scale = 1): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed * scale : undefined;
+}
+
+/**
+ * Node Settings Form
+ *
+ * Engine-level settings every node has, whatever its plugin: what happens
+ * when it fails, how failed runs are retried and how long each attempt may
+ * take. Empty fields fall back to the defaults shown as placeholders.
+ */
+export function NodeSettingsForm({ value, onChange }: NodeSettingsFormProps) {
+  const fieldId = useId();
+  const retry = value.retry ?? {};
+  const errorMode = value.onError ?? "stop";
+
+  // Codes are edited as text and parsed when the field loses focus, so
+  // typing a separator doesn't get normalized away
+  const codes = retry.retryableErrorCodes?.join(", ") ?? "";
+  const [codesText, setCodesText] = useState(codes);
+  useEffect(() => {
+    setCodesText(codes);
+  }, [codes]);
+
+  const updateRetry = (updates: Partial<NodeRetryPolicy>) => {
+    const next = { ...retry, ...updates };
+    const isEmpty = Object.values(next).every((v) => v === undefined);
+    onChange({ ...value, retry: isEmpty ? undefined : next });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Error Handling */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <IconAlertTriangle className="size-4 text-muted-foreground" />
+          On Error
+        </h4>
+        <Select
+          value={errorMode}
+          onValueChange={(mode) =>
+            onChange({
+              ...value,
+              // Stopping is the default, so it isn't stored
+              onError: mode === "stop" ? undefined : (mode as NodeErrorMode),
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ERROR_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {ERROR_MODES.find((mode) => mode.value === errorMode)?.description}
+        </p>
+      </div>
+
+      {/* Retry & Timeout */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <IconRefresh className="size-4 text-muted-foreground" />
+          Retry & Timeout
+        </h4>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor={`${fieldId}-attempts`} className="text-xs">
+              Max Attempts
+            </Label>
+            <Input
+              id={`${fieldId}-attempts`}
+              type="number"
+              min={1}
+              value={retry.maxAttempts ?? ""}
+              onChange={(e) =>
+                updateRetry({ maxAttempts: parseNumber(e.target.value) })
+              }
+              placeholder={String(DEFAULT_RETRY_POLICY.maxAttempts)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${fieldId}-timeout`} className="text-xs">
+              Timeout (s)
+            </Label>
+            <Input
+              id={`${fieldId}-timeout`}
+              type="number"
+              min={1}
+              value={value.timeout !== undefined ? value.timeout / 1000 : ""}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  timeout: parseNumber(e.target.value, 1000),
+                })
+              }
+              placeholder={String(DEFAULT_NODE_TIMEOUT / 1000)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${fieldId}-interval`} className="text-xs">
+              Retry Delay (s)
+            </Label>
+            <Input
+              id={`${fieldId}-interval`}
+              type="number"
+              min={0}
+              value={
+                retry.initialInterval !== undefined
+                  ? retry.initialInterval / 1000
+                  : ""
+              }
+              onChange={(e) =>
+                updateRetry({
+                  initialInterval: parseNumber(e.target.value, 1000),
+                })
+              }
+              placeholder={String(DEFAULT_RETRY_POLICY.initialInterval / 1000)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${fieldId}-backoff`} className="text-xs">
+              Backoff Multiplier
+            </Label>
+            <Input
+              id={`${fieldId}-backoff`}
+              type="number"
+              min={1}
+              step={0.5}
+              value={retry.backoffCoefficient ?? ""}
+              onChange={(e) =>
+                updateRetry({
+                  backoffCoefficient: parseNumber(e.target.value),
+                })
+              }
+              placeholder={String(DEFAULT_RETRY_POLICY.backoffCoefficient)}
+              className="h-9"
+            />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${fieldId}-codes`} className="text-xs">
+            Retry Only Error Codes
+          </Label>
+          <Input
+            id={`${fieldId}-codes`}
+            value={codesText}
+            onChange={(e) => setCodesText(e.target.value)}
+            onBlur={() => {
+              const parsed = codesText
+                .split(",")
+                .map((code) => code.trim())
+                .filter(Boolean);
+              updateRetry({
+                retryableErrorCodes: parsed.length > 0 ? parsed : undefined,
+              });
+            }}
+            placeholder="All errors (e.g. ECONNRESET, RATE_LIMIT)"
+            className="h-9 font-mono"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Each attempt may run for the timeout. The delay grows by the backoff
+          multiplier after every retry.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Textarea } from "@kianax/ui/components/textarea";
+import { IconPin, IconPinnedOff, IconPencil } from "@tabler/icons-react";
+import { toast } from "sonner";
+
+interface PinnedDataSectionProps {
+  /** Currently pinned output (port -> data) */
+  pinnedData?: Record<string, unknown>;
+  /** Output of the node's last test run, which can be pinned as is */
+  lastOutput?: unknown;
+  onChange: (pinnedData: Record<string, unknown> | undefined) => void;
+}
+
+const EMPTY_PIN = { output: {} };
+
+function isPortOutput(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pinned Data Section
+ *
+ * Pins sample output to a node, either from its last test run or as
+ * hand-edited JSON. Test runs emit the pinned data instead of running the
+ * node, and expression previews of downstream nodes use it.
+ */
+export function PinnedDataSection({
+  pinnedData,
+  lastOutput,
+  onChange,
+}: PinnedDataSectionProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(JSON.stringify(pinnedData ?? EMPTY_PIN, null, 2));
+  };
+
+  const handlePinDraft = () => {
+    if (draft === null) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      toast.error("Invalid JSON");
+      return;
+    }
+    if (!isPortOutput(parsed)) {
+      toast.error("Pinned data must map output ports to data", {
+        description: 'For example { "output": { "id": 1 } }',
+      });
+      return;
+    }
+    onChange(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+        <IconPin className="size-3" />
+        Pinned Data
+      </div>
+
+      {draft !== null ? (
+        <>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-40 font-mono text-xs"
+            placeholder='{ "output": { } }'
+          />
+          <p className="text-xs text-muted-foreground">
+            Map each output port to its data. Arrays are emitted as one item per
+            element.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handlePinDraft}>
+              <IconPin className="size-4" />
+              Pin
+            </Button>
+          </div>
+        </>
+      ) : pinnedData ? (
+        <>
+          <pre className="bg-primary/5 text-foreground p-3 rounded-lg text-xs font-mono overflow-x-auto border border-primary/20 leading-relaxed">
+            {JSON.stringify(pinnedData, null, 2)}
+          </pre>
+          <p className="text-xs text-muted-foreground">
+            Test runs skip this node and emit the pinned data. Active runs
+            always execute it.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <IconPencil className="size-4" />
+              Edit
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(undefined)}
+            >
+              <IconPinnedOff className="size-4" />
+              Unpin
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Pin sample output to skip this node in test runs and preview
+            expressions with it.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              disabled={!isPortOutput(lastOutput)}
+              onClick={() => isPortOutput(lastOutput) && onChange(lastOutput)}
+            >
+              <IconPin className="size-4" />
+              Pin last output
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={startEditing}
+            >
+              <IconPencil className="size-4" />
+              Edit JSON
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import {
   IconPointer,
   IconHandGrab,
   IconVariable,
+  IconVersions,
 } from "@tabler/icons-react";
 import { Button } from "@kianax/ui/components/button";
 import { cn } from "@kianax/ui/lib/utils";
@@ -17,6 +18,8 @@ interface ToolbarProps {
   onAddNode: () => void;
   onToggleVariables: () => void;
   variablesPanelOpen: boolean;
+  onToggleVersions: () => void;
+  versionsDrawerOpen: boolean;
 }
 
 export function Toolbar({
@@ -25,6 +28,8 @@ export function Toolbar({
   onAddNode,
   onToggleVariables,
   variablesPanelOpen,
+  onToggleVersions,
+  versionsDrawerOpen,
 }: ToolbarProps) {
   return (
     <div className="absolute left-3 top-1/2 -translate-y-1/2 z-10 flex flex-col gap-0.5 rounded-md border bg-background p-1 shadow-lg">
@@ -53,6 +58,20 @@ export function Toolbar({
         <IconVariable className="size-4" />
       </Button>
 
+      {/* Versions */}
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "size-8",
+          versionsDrawerOpen && "bg-accent text-accent-foreground",
+        )}
+        onClick={onToggleVersions}
+        title="Versions"
+      >
+        <IconVersions className="size-4" />
+      </Button>
+
       <div className="h-px bg-border my-0.5" />
 
       {/* Pointer Tool */}
@@ -1,5 +1,11 @@
 import type { Id } from "@kianax/server/convex/_generated/dataModel";
-import type { ExpressionValidationError } from "@kianax/execution-engine";
+import type {
+  ExpressionTypeValidationError,
+  ExpressionValidationError,
+  NodeErrorMode,
+  NodeRetryPolicy,
+  RoutineCallValidationError,
+} from "@kianax/execution-engine";
 
 export interface RoutineNode {
   id: string;
@@ -8,8 +14,20 @@ export interface RoutineNode {
   position: { x: number; y: number };
   config?: Record<string, unknown>;
   credentialMappings?: Record<string, string>;
+  onError?: NodeErrorMode;
+  retry?: NodeRetryPolicy;
+  /** Time limit per attempt, in milliseconds */
+  timeout?: number;
+  /**
+   * Sample output (port -> data) emitted instead of running the node in
+   * test runs and used for expression previews. Never used in production.
+   */
+  pinnedData?: Record<string, unknown>;
 }
 
+/** Engine settings of a node, independent of its plugin */
+export type NodeSettings = Pick<RoutineNode, "onError" | "retry" | "timeout">;
+
 export interface RoutineConnection {
   id: string;
   sourceNodeId: string;
@@ -26,19 +44,36 @@ export interface RoutineVariable {
   description?: string;
 }
 
+/**
+ * Validation error shown in the editor: an invalid expression, an
+ * expression not matching the plugins' schemas, or an invalid routine call
+ */
+export type RoutineValidationError =
+  | ExpressionValidationError
+  | ExpressionTypeValidationError
+  | RoutineCallValidationError;
+
 export interface RoutineEditorProps {
   routineId: Id<"routines">;
   initialNodes: RoutineNode[];
   initialConnections: RoutineConnection[];
   initialVariables?: RoutineVariable[];
-  /** Expression validation errors from parent component */
-  validationErrors?: ExpressionValidationError[];
+  /** Sample trigger payload (e.g. captured from the webhook test URL) */
+  triggerSample?: unknown;
+  /** Validation errors from parent component */
+  validationErrors?: RoutineValidationError[];
+  /** Version of the saved draft */
+  version?: number;
+  /** Version production triggers run (unset if it is the saved draft) */
+  publishedVersion?: number;
   onSave: (
     nodes: RoutineNode[],
     connections: RoutineConnection[],
     variables?: RoutineVariable[],
   ) => Promise<void>;
   onTest?: () => void;
+  /** Validate the saved draft and publish it */
+  onPublish?: () => Promise<void>;
 }
 
 export type EditorMode = "visual" | "json";
@@ -1,17 +1,18 @@
 "use client";
 
-import type { ExpressionValidationError } from "@kianax/execution-engine";
 import { IconAlertTriangle, IconX } from "@tabler/icons-react";
 import { Button } from "@kianax/ui/components/button";
+import type { RoutineValidationError } from "./types";
 
 interface ValidationPanelProps {
-  errors: ExpressionValidationError[];
+  errors: RoutineValidationError[];
   onClose: () => void;
   onNodeClick?: (nodeId: string) => void;
 }
 
 /**
- * Panel that displays expression validation errors
+ * Panel that displays expression, expression type and routine call
+ * validation errors
  */
 export function ValidationPanel({
   errors,
@@ -26,7 +27,7 @@ export function ValidationPanel({
         <div className="flex items-center gap-2 text-sm font-medium text-destructive">
           <IconAlertTriangle className="size-4" />
           <span>
-            {errors.length} Expression Error{errors.length > 1 ? "s" : ""}
+            {errors.length} Validation Error{errors.length > 1 ? "s" : ""}
           </span>
         </div>
         <Button
@@ -62,17 +63,22 @@ export function ValidationPanel({
                     <span>{error.nodeLabel || error.nodeId}</span>
                   )}
                 </p>
-                <code className="mt-1 block rounded bg-muted px-1 py-0.5 text-[10px] text-muted-foreground">
-                  {error.expression}
-                </code>
+                {"expression" in error && (
+                  <code className="mt-1 block rounded bg-muted px-1 py-0.5 text-[10px] text-muted-foreground">
+                    {error.expression}
+                  </code>
+                )}
               </div>
               <span
                 className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium ${
-                  error.type === "UNDEFINED_VARIABLE"
+                  error.type === "UNDEFINED_VARIABLE" ||
+                  error.type === "UNKNOWN_ROUTINE"
                     ? "bg-amber-500/20 text-amber-600"
                     : error.type === "NOT_UPSTREAM"
                       ? "bg-blue-500/20 text-blue-600"
-                      : "bg-red-500/20 text-red-600"
+                      : error.type === "TYPE_MISMATCH"
+                        ? "bg-violet-500/20 text-violet-600"
+                        : "bg-red-500/20 text-red-600"
                 }`}
               >
                 {error.type === "UNDEFINED_VARIABLE"
@@ -81,7 +87,21 @@ export function ValidationPanel({
                     ? "Not Upstream"
                     : error.type === "SELF_REFERENCE"
                       ? "Self Ref"
-                      : "Invalid Node"}
+                      : error.type === "OUTSIDE_LOOP"
+                        ? "Outside Loop"
+                        : error.type === "INVALID_EXPRESSION"
+                          ? "Invalid Expression"
+                          : error.type === "UNKNOWN_ROUTINE"
+                            ? "Unknown Routine"
+                            : error.type === "RECURSIVE_CALL"
+                              ? "Recursive Call"
+                              : error.type === "UNKNOWN_HANDLE"
+                                ? "Unknown Output"
+                                : error.type === "UNKNOWN_FIELD"
+                                  ? "Unknown Field"
+                                  : error.type === "TYPE_MISMATCH"
+                                    ? "Type Mismatch"
+                                    : "Invalid Node"}
               </span>
             </div>
           </div>
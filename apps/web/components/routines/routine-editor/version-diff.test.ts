@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import type { RoutineConnection, RoutineNode } from "./types";
+import {
+  countChanges,
+  diffVersions,
+  type RoutineSnapshot,
+} from "./version-diff";
+
+function node(id: string, config: Record<string, unknown> = {}): RoutineNode {
+  return {
+    id,
+    pluginId: "http-request",
+    label: id,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+function connection(
+  id: string,
+  sourceNodeId: string,
+  targetNodeId: string,
+  sourceHandle?: string,
+): RoutineConnection {
+  return { id, sourceNodeId, targetNodeId, sourceHandle };
+}
+
+function snapshot(partial: Partial<RoutineSnapshot>): RoutineSnapshot {
+  return { nodes: [], connections: [], ...partial };
+}
+
+describe("diffVersions", () => {
+  it("should find no changes between equal versions", () => {
+    const version = snapshot({
+      nodes: [node("a", { url: "https://a.test" }), node("b")],
+      connections: [connection("c1", "a", "b")],
+      variables: [{ id: "v1", name: "token", type: "string", value: "x" }],
+    });
+
+    const diff = diffVersions(version, structuredClone(version));
+
+    expect(diff).toEqual({ nodes: [], connections: [], variables: [] });
+    expect(countChanges(diff)).toBe(0);
+  });
+
+  it("should find added, removed and changed nodes", () => {
+    const diff = diffVersions(
+      snapshot({ nodes: [node("a", { url: "1" }), node("b")] }),
+      snapshot({ nodes: [node("a", { url: "2" }), node("c")] }),
+    );
+
+    expect(diff.nodes).toEqual([
+      {
+        id: "a",
+        label: "a",
+        pluginId: "http-request",
+        kind: "changed",
+        fields: [{ path: "config.url", before: "1", after: "2" }],
+      },
+      {
+        id: "c",
+        label: "c",
+        pluginId: "http-request",
+        kind: "added",
+        fields: [],
+      },
+      {
+        id: "b",
+        label: "b",
+        pluginId: "http-request",
+        kind: "removed",
+        fields: [],
+      },
+    ]);
+  });
+
+  it("should report nested config changes by path", () => {
+    const diff = diffVersions(
+      snapshot({
+        nodes: [node("a", { headers: { Authorization: "old", Accept: "*" } })],
+      }),
+      snapshot({
+        nodes: [node("a", { headers: { Authorization: "new", Accept: "*" } })],
+      }),
+    );
+
+    expect(diff.nodes[0]!.fields).toEqual([
+      { path: "config.headers.Authorization", before: "old", after: "new" },
+    ]);
+  });
+
+  it("should compare arrays as a whole", () => {
+    const diff = diffVersions(
+      snapshot({ nodes: [node("a", { items: [1, 2] })] }),
+      snapshot({ nodes: [node("a", { items: [1, 3] })] }),
+    );
+
+    expect(diff.nodes[0]!.fields).toEqual([
+      { path: "config.items", before: [1, 2], after: [1, 3] },
+    ]);
+  });
+
+  it("should report settings that were added or removed", () => {
+    const diff = diffVersions(
+      snapshot({ nodes: [{ ...node("a"), timeout: 5000 }] }),
+      snapshot({ nodes: [{ ...node("a"), onError: "continue" }] }),
+    );
+
+    expect(diff.nodes[0]!.fields).toEqual([
+      { path: "timeout", before: 5000, after: undefined },
+      { path: "onError", before: undefined, after: "continue" },
+    ]);
+  });
+
+  it("should identify connections by their ends", () => {
+    const diff = diffVersions(
+      snapshot({
+        connections: [
+          connection("c1", "a", "b", "success"),
+          connection("c2", "a", "c"),
+        ],
+      }),
+      snapshot({
+        connections: [
+          // Same ends with a new ID, e.g. after reconnecting the edge
+          connection("c3", "a", "b", "success"),
+          connection("c4", "a", "b", "error"),
+        ],
+      }),
+    );
+
+    expect(diff.connections).toEqual([
+      { kind: "added", connection: connection("c4", "a", "b", "error") },
+      { kind: "removed", connection: connection("c2", "a", "c") },
+    ]);
+  });
+
+  it("should find variable changes without comparing IDs", () => {
+    const diff = diffVersions(
+      snapshot({
+        variables: [
+          { id: "v1", name: "limit", type: "number", value: 10 },
+          { id: "v2", name: "old", type: "string", value: "" },
+        ],
+      }),
+      snapshot({
+        variables: [
+          { id: "v1", name: "limit", type: "number", value: 20 },
+          { id: "v3", name: "new", type: "boolean", value: true },
+        ],
+      }),
+    );
+
+    expect(diff.variables).toEqual([
+      {
+        name: "limit",
+        kind: "changed",
+        fields: [{ path: "value", before: 10, after: 20 }],
+      },
+      { name: "new", kind: "added", fields: [] },
+      { name: "old", kind: "removed", fields: [] },
+    ]);
+    expect(countChanges(diff)).toBe(3);
+  });
+
+  it("should treat missing variables as none", () => {
+    const diff = diffVersions(
+      snapshot({}),
+      snapshot({
+        variables: [{ id: "v1", name: "token", type: "string", value: "x" }],
+      }),
+    );
+
+    expect(diff.variables).toEqual([
+      { name: "token", kind: "added", fields: [] },
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Differences between two versions of a routine
+ *
+ * Compares the nodes (including their configs and settings), connections
+ * and variables of two routine snapshots, for the version history panel.
+ */
+
+import type { RoutineConnection, RoutineNode, RoutineVariable } from "./types";
+
+/**
+ * The graph of a routine version
+ */
+export interface RoutineSnapshot {
+  nodes: RoutineNode[];
+  connections: RoutineConnection[];
+  variables?: RoutineVariable[];
+}
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A changed value, e.g. config.url of a node
+ */
+export interface FieldChange {
+  /** Dotted path of the value, e.g. "config.headers.Authorization" */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeChange {
+  id: string;
+  label: string;
+  pluginId: string;
+  kind: ChangeKind;
+  /** Changed values, for changed nodes */
+  fields: FieldChange[];
+}
+
+export interface ConnectionChange {
+  kind: Exclude<ChangeKind, "changed">;
+  connection: RoutineConnection;
+}
+
+export interface VariableChange {
+  name: string;
+  kind: ChangeKind;
+  fields: FieldChange[];
+}
+
+export interface VersionDiff {
+  nodes: NodeChange[];
+  connections: ConnectionChange[];
+  variables: VariableChange[];
+}
+
+/**
+ * Diff two versions of a routine: what changed from `base` to `compare`
+ */
+export function diffVersions(
+  base: RoutineSnapshot,
+  compare: RoutineSnapshot,
+): VersionDiff {
+  return {
+    nodes: pairByKey(base.nodes, compare.nodes, (node) => node.id)
+      .map(([before, after]): NodeChange => {
+        const node = (after ?? before)!;
+        return {
+          id: node.id,
+          label: node.label,
+          pluginId: node.pluginId,
+          kind: getKind(before, after),
+          fields:
+            before && after
+              ? diffValues(toFields(before), toFields(after))
+              : [],
+        };
+      })
+      .filter(isChange),
+    connections: pairByKey(
+      base.connections,
+      compare.connections,
+      getConnectionKey,
+    ).flatMap(([before, after]): ConnectionChange[] =>
+      // Connections are identified by their ends, so they only come and go
+      before && after
+        ? []
+        : [
+            {
+              kind: before ? "removed" : "added",
+              connection: (after ?? before)!,
+            },
+          ],
+    ),
+    variables: pairByKey(
+      base.variables ?? [],
+      compare.variables ?? [],
+      (variable) => variable.id,
+    )
+      .map(([before, after]): VariableChange => {
+        const variable = (after ?? before)!;
+        return {
+          name: variable.name,
+          kind: getKind(before, after),
+          fields:
+            before && after
+              ? diffValues(
+                  { ...before, id: undefined },
+                  { ...after, id: undefined },
+                )
+              : [],
+        };
+      })
+      .filter(isChange),
+  };
+}
+
+/**
+ * Count the changes of a diff
+ */
+export function countChanges(diff: VersionDiff): number {
+  return diff.nodes.length + diff.connections.length + diff.variables.length;
+}
+
+/**
+ * Identifies a connection by its ends (connection IDs are regenerated by
+ * some edits, e.g. reconnecting an edge)
+ */
+function getConnectionKey(connection: RoutineConnection): string {
+  return [
+    connection.sourceNodeId,
+    connection.sourceHandle ?? "",
+    connection.targetNodeId,
+    connection.targetHandle ?? "",
+  ].join(":");
+}
+
+/**
+ * Pair up the items of two lists by key, in the order of `after` then the
+ * removed items
+ */
+function pairByKey<T>(
+  before: T[],
+  after: T[],
+  getKey: (item: T) => string,
+): Array<[T | undefined, T | undefined]> {
+  const beforeByKey = new Map(before.map((item) => [getKey(item), item]));
+  const afterKeys = new Set(after.map(getKey));
+
+  const pairs: Array<[T | undefined, T | undefined]> = after.map((item) => [
+    beforeByKey.get(getKey(item)),
+    item,
+  ]);
+  for (const item of before) {
+    if (!afterKeys.has(getKey(item))) pairs.push([item, undefined]);
+  }
+
+  return pairs;
+}
+
+function getKind(before: unknown, after: unknown): ChangeKind {
+  return !before ? "added" : !after ? "removed" : "changed";
+}
+
+/** Leaves out items whose values are all the same */
+function isChange(change: { kind: ChangeKind; fields: FieldChange[] }) {
+  return change.kind !== "changed" || change.fields.length > 0;
+}
+
+/**
+ * The values of a node that are compared (the ID is what identifies it)
+ */
+function toFields(node: RoutineNode): Record<string, unknown> {
+  const { id: _id, ...fields } = node;
+  return fields;
+}
+
+/**
+ * Changed leaves of two values, by dotted path. Arrays are compared as a
+ * whole.
+ */
+function diffValues(before: unknown, after: unknown, path = ""): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key),
+    );
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,526 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@kianax/server/convex/_generated/api";
+import type { Id } from "@kianax/server/convex/_generated/dataModel";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@kianax/ui/components/sheet";
+import { Button } from "@kianax/ui/components/button";
+import { Badge } from "@kianax/ui/components/badge";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import {
+  IconArrowBackUp,
+  IconArrowRight,
+  IconLoader2,
+  IconPencil,
+  IconVersions,
+} from "@tabler/icons-react";
+import { cn } from "@kianax/ui/lib/utils";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  type ChangeKind,
+  countChanges,
+  diffVersions,
+  type FieldChange,
+  type RoutineSnapshot,
+  type VersionDiff,
+} from "./version-diff";
+
+interface VersionHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  routineId: Id<"routines">;
+  /**
+   * Version compared with the latest one when opening (e.g. the version an
+   * execution ran). Defaults to comparing the latest version with the one
+   * before it.
+   */
+  focusVersion?: number | null;
+  /** Show the graph restored by a rollback */
+  onRollback: (snapshot: RoutineSnapshot) => void;
+}
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  added: "border-green-500 bg-green-500/5",
+  removed: "border-destructive bg-destructive/5",
+  changed: "border-amber-500 bg-amber-500/5",
+};
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
+/**
+ * Version History Drawer
+ *
+ * Lists the saved versions of a routine, shows what changed between any
+ * two of them, and rolls the draft back to an earlier version.
+ */
+export function VersionHistoryDrawer({
+  open,
+  onOpenChange,
+  routineId,
+  focusVersion,
+  onRollback,
+}: VersionHistoryDrawerProps) {
+  const [selection, setSelection] = useState<{
+    base: number;
+    compare: number;
+  } | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [editingVersion, setEditingVersion] = useState<number | null>(null);
+  const [messageDraft, setMessageDraft] = useState("");
+
+  const versions = useQuery(
+    api.routineVersions.list,
+    open ? { routineId } : "skip",
+  );
+  const base = useQuery(
+    api.routineVersions.get,
+    selection ? { routineId, version: selection.base } : "skip",
+  );
+  const compare = useQuery(
+    api.routineVersions.get,
+    selection ? { routineId, version: selection.compare } : "skip",
+  );
+  const rollback = useMutation(api.routineVersions.rollback);
+  const setMessage = useMutation(api.routineVersions.setMessage);
+
+  // Compare the focused version (or the one before the latest) with the
+  // latest version
+  useEffect(() => {
+    if (!open) {
+      setSelection(null);
+      return;
+    }
+    if (selection || !versions?.length) return;
+    const latest = versions[0]!.version;
+    const isFocused =
+      focusVersion !== latest &&
+      versions.some((v) => v.version === focusVersion);
+    setSelection({
+      base: isFocused ? focusVersion! : (versions[1]?.version ?? latest),
+      compare: latest,
+    });
+  }, [open, focusVersion, versions, selection]);
+
+  const diff = useMemo(
+    () => (base && compare ? diffVersions(base, compare) : null),
+    [base, compare],
+  );
+
+  // Node labels of both versions, for describing connections
+  const labels = useMemo(
+    () =>
+      new Map(
+        [...(base?.nodes ?? []), ...(compare?.nodes ?? [])].map((node) => [
+          node.id,
+          node.label,
+        ]),
+      ),
+    [base, compare],
+  );
+
+  const handleCompare = (version: number) => {
+    const index = versions?.findIndex((v) => v.version === version) ?? -1;
+    setSelection({
+      base: versions?.[index + 1]?.version ?? version,
+      compare: version,
+    });
+  };
+
+  const handleRollback = async (version: number) => {
+    setRollingBack(version);
+    try {
+      const rolledBack = await rollback({ routineId, version });
+      onRollback(rolledBack);
+      // Show what the rollback changed
+      if (versions?.[0]) {
+        setSelection({
+          base: versions[0].version,
+          compare: rolledBack.version,
+        });
+      }
+      toast.success(`Rolled back to version ${version}`, {
+        description: `Saved as draft version ${rolledBack.version}. Publish it to run it in production.`,
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to roll back",
+      );
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const handleSaveMessage = async (version: number) => {
+    setEditingVersion(null);
+    try {
+      await setMessage({ routineId, version, message: messageDraft });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save message",
+      );
+    }
+  };
+
+  const formatTimestamp = (timestamp: number) =>
+    format(new Date(timestamp), "MMM d, yyyy HH:mm");
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>
+            Compare saved versions of the routine, or roll back to one
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6 px-4 pb-4">
+          {versions === undefined ? (
+            <div className="flex items-center justify-center py-8">
+              <IconLoader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12 text-center">
+              <div className="mx-auto flex size-12 items-center justify-center rounded-full bg-muted">
+                <IconVersions className="size-6 text-muted-foreground" />
+              </div>
+              <h3 className="mt-4 text-lg font-semibold">No versions yet</h3>
+              <p className="mt-2 text-sm text-muted-foreground">
+                A version is recorded each time the routine is saved
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Comparison */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <VersionSelect
+                    versions={versions}
+                    value={selection?.base}
+                    onChange={(version) =>
+                      selection && setSelection({ ...selection, base: version })
+                    }
+                  />
+                  <IconArrowRight className="size-4 shrink-0 text-muted-foreground" />
+                  <VersionSelect
+                    versions={versions}
+                    value={selection?.compare}
+                    onChange={(version) =>
+                      selection &&
+                      setSelection({ ...selection, compare: version })
+                    }
+                  />
+                </div>
+
+                {base === null || compare === null ? (
+                  <p className="text-sm text-muted-foreground">
+                    This version wasn't recorded.
+                  </p>
+                ) : !diff ? (
+                  <div className="flex items-center justify-center py-4">
+                    <IconLoader2 className="size-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : countChanges(diff) === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No differences between these versions.
+                  </p>
+                ) : (
+                  <VersionDiffView
+                    diff={diff}
+                    getLabel={(id) => labels.get(id) ?? id}
+                  />
+                )}
+              </div>
+
+              {/* Versions */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Versions</h4>
+                {versions.map((version, index) => {
+                  const isSelected = selection?.compare === version.version;
+                  return (
+                    <div
+                      key={version.version}
+                      className={cn(
+                        "rounded-lg border p-3 space-y-1",
+                        isSelected && "border-primary bg-primary/5",
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Badge
+                              variant="secondary"
+                              className="font-mono text-xs"
+                            >
+                              v{version.version}
+                            </Badge>
+                            {index === 0 && (
+                              <Badge variant="default" className="text-xs">
+                                Current
+                              </Badge>
+                            )}
+                            {version.published && (
+                              <Badge variant="outline" className="text-xs">
+                                Published
+                              </Badge>
+                            )}
+                            <span className="truncate text-xs text-muted-foreground">
+                              {version.author.name} ·{" "}
+                              {formatTimestamp(version.createdAt)}
+                            </span>
+                          </div>
+                          {editingVersion === version.version ? (
+                            <Input
+                              autoFocus
+                              className="h-7 text-sm"
+                              placeholder="Describe this version"
+                              value={messageDraft}
+                              onChange={(e) => setMessageDraft(e.target.value)}
+                              onBlur={() => handleSaveMessage(version.version)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                  handleSaveMessage(version.version);
+                                } else if (e.key === "Escape") {
+                                  setEditingVersion(null);
+                                }
+                              }}
+                            />
+                          ) : (
+                            <button
+                              type="button"
+                              className="group flex items-center gap-1 text-left text-sm"
+                              onClick={() => {
+                                setMessageDraft(version.message ?? "");
+                                setEditingVersion(version.version);
+                              }}
+                            >
+                              <span
+                                className={cn(
+                                  !version.message && "text-muted-foreground",
+                                )}
+                              >
+                                {version.message || "No message"}
+                              </span>
+                              <IconPencil className="size-3 opacity-0 group-hover:opacity-60" />
+                            </button>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {version.nodeCount} nodes ·{" "}
+                            {version.connectionCount} connections
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            size="sm"
+                            variant={isSelected ? "secondary" : "outline"}
+                            onClick={() => handleCompare(version.version)}
+                          >
+                            Compare
+                          </Button>
+                          {index > 0 && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={rollingBack !== null}
+                              onClick={() => handleRollback(version.version)}
+                            >
+                              {rollingBack === version.version ? (
+                                <IconLoader2 className="size-4 animate-spin" />
+                              ) : (
+                                <IconArrowBackUp className="size-4" />
+                              )}
+                              Roll back
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: Array<{ version: number; message?: string }>;
+  value: number | undefined;
+  onChange: (version: number) => void;
+}) {
+  return (
+    <Select
+      value={value === undefined ? undefined : String(value)}
+      onValueChange={(v) => onChange(Number(v))}
+    >
+      <SelectTrigger className="h-8 flex-1 text-xs">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem
+            key={version.version}
+            value={String(version.version)}
+            className="text-xs"
+          >
+            v{version.version}
+            {version.message && ` · ${version.message}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Changes to nodes, connections and variables, colored by kind
+ */
+function VersionDiffView({
+  diff,
+  getLabel,
+}: {
+  diff: VersionDiff;
+  getLabel: (nodeId: string) => string;
+}) {
+  return (
+    <div className="space-y-4">
+      {diff.nodes.length > 0 && (
+        <DiffSection title="Nodes">
+          {diff.nodes.map((change) => (
+            <DiffRow key={change.id} kind={change.kind}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{change.label}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {change.id} · {change.pluginId}
+                </span>
+              </div>
+              <FieldChanges fields={change.fields} />
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+
+      {diff.connections.length > 0 && (
+        <DiffSection title="Connections">
+          {diff.connections.map(({ kind, connection }) => (
+            <DiffRow
+              key={`${kind}-${connection.id}-${connection.sourceNodeId}-${connection.targetNodeId}`}
+              kind={kind}
+            >
+              <span className="font-medium">
+                {getLabel(connection.sourceNodeId)}
+                {connection.sourceHandle && (
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {" "}
+                    ({connection.sourceHandle})
+                  </span>
+                )}{" "}
+                → {getLabel(connection.targetNodeId)}
+              </span>
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+
+      {diff.variables.length > 0 && (
+        <DiffSection title="Variables">
+          {diff.variables.map((change) => (
+            <DiffRow key={change.name} kind={change.kind}>
+              <span className="font-mono">vars.{change.name}</span>
+              <FieldChanges fields={change.fields} />
+            </DiffRow>
+          ))}
+        </DiffSection>
+      )}
+    </div>
+  );
+}
+
+function DiffSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-semibold">{title}</h4>
+      <div className="space-y-2">{children}</div>
+    </div>
+  );
+}
+
+function DiffRow({
+  kind,
+  children,
+}: {
+  kind: ChangeKind;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={cn("rounded-md border-l-2 p-2 text-sm", KIND_STYLES[kind])}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 flex-1 space-y-1">{children}</div>
+        <span className="text-xs text-muted-foreground">
+          {KIND_LABELS[kind]}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function FieldChanges({ fields }: { fields: FieldChange[] }) {
+  if (fields.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {fields.map((field) => (
+        <div key={field.path} className="text-xs">
+          <span className="font-mono text-muted-foreground">{field.path}</span>{" "}
+          <span className="font-mono text-destructive line-through">
+            {formatValue(field.before)}
+          </span>{" "}
+          →{" "}
+          <span className="font-mono text-green-600">
+            {formatValue(field.after)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Short display of a changed value
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(none)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
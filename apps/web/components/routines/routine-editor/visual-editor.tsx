@@ -24,12 +24,13 @@ import { NodeSelector } from "./sidebar";
 import { VariablesPanel, type RoutineVariable } from "./variables-panel";
 import { ValidationPanel } from "./validation-panel";
 import { ExecutionHistoryDrawer } from "../execution-history-drawer";
+import { VersionHistoryDrawer } from "./version-history-drawer";
+import type { RoutineSnapshot } from "./version-diff";
 import { getPluginMetadata } from "@/lib/plugins";
-import type { ExpressionValidationError } from "@kianax/execution-engine";
 import type { Id } from "@kianax/server/convex/_generated/dataModel";
 import { NodeInspector } from "./node-inspector";
 import { CanvasControls } from "./canvas-controls";
-import type { EditorMode } from "./types";
+import type { EditorMode, NodeSettings, RoutineValidationError } from "./types";
 
 const nodeTypes = {
   pluginNode: PluginNode,
@@ -46,11 +47,23 @@ interface VisualEditorProps {
 
   // Actions
   addNode: (pluginId: string, name: string) => void;
+  /** Change a node's ID; returns an error message if it can't be used */
+  renameNode: (nodeId: string, newId: string) => string | undefined;
+  duplicateNodes: (nodeIds: string[]) => void;
+  /** Serialize nodes for the clipboard */
+  copyNodes: (nodeIds: string[]) => string | undefined;
+  /** Paste copied nodes; returns false if the text holds none */
+  pasteNodes: (text: string) => boolean;
   updateNodeConfig: (
     nodeId: string,
     config: Record<string, unknown>,
     label: string,
     credentialMappings?: Record<string, string>,
+    settings?: NodeSettings,
+  ) => void;
+  pinNodeData: (
+    nodeId: string,
+    pinnedData: Record<string, unknown> | undefined,
   ) => void;
   triggerAutoSave: () => void;
 
@@ -59,7 +72,7 @@ interface VisualEditorProps {
   onVariablesChange: (variables: RoutineVariable[]) => void;
 
   // Validation
-  validationErrors: ExpressionValidationError[];
+  validationErrors: RoutineValidationError[];
   onValidationNodeClick: (nodeId: string) => void;
 
   // Execution & History
@@ -69,6 +82,8 @@ interface VisualEditorProps {
   setViewingExecutionId: (id: string | null) => void;
   historyDrawerOpen: boolean;
   setHistoryDrawerOpen: (open: boolean) => void;
+  /** Show the graph restored by rolling back to a version */
+  onRollback: (snapshot: RoutineSnapshot) => void;
 
   // Config & Result State
   configuringNodeId: string | null;
@@ -86,6 +101,10 @@ interface VisualEditorProps {
   hasUnsavedChanges: boolean;
   isStartingTest: boolean;
   onRunTest: () => void;
+  onPublish?: () => void;
+  isPublishing: boolean;
+  hasUnpublishedChanges: boolean;
+  onRerunFromNode: (nodeId: string) => void;
   onApplyJson?: () => void;
   onExitViewingMode: () => void;
 }
@@ -98,7 +117,12 @@ export function VisualEditor({
   onConnect,
   onNodeClick,
   addNode,
+  renameNode,
+  duplicateNodes,
+  copyNodes,
+  pasteNodes,
   updateNodeConfig,
+  pinNodeData,
   triggerAutoSave,
   variables,
   onVariablesChange,
@@ -110,6 +134,7 @@ export function VisualEditor({
   setViewingExecutionId,
   historyDrawerOpen,
   setHistoryDrawerOpen,
+  onRollback,
   configuringNodeId,
   setConfiguringNodeId,
   configDrawerOpen,
@@ -124,6 +149,10 @@ export function VisualEditor({
   hasUnsavedChanges,
   isStartingTest,
   onRunTest,
+  onPublish,
+  isPublishing,
+  hasUnpublishedChanges,
+  onRerunFromNode,
   onApplyJson,
   onExitViewingMode,
 }: VisualEditorProps) {
@@ -133,6 +162,9 @@ export function VisualEditor({
   // Local UI State
   const [nodeSelectorOpen, setNodeSelectorOpen] = useState(false);
   const [variablesPanelOpen, setVariablesPanelOpen] = useState(false);
+  const [versionsDrawerOpen, setVersionsDrawerOpen] = useState(false);
+  // Version compared with the latest one, e.g. the version an execution ran
+  const [focusedVersion, setFocusedVersion] = useState<number | null>(null);
   const [activeTool, setActiveTool] = useState<"select" | "hand" | null>(
     "hand",
   );
@@ -190,13 +222,93 @@ export function VisualEditor({
       config: Record<string, unknown>,
       label: string,
       credentialMappings?: Record<string, string>,
+      settings?: NodeSettings,
     ) => {
-      updateNodeConfig(nodeId, config, label, credentialMappings);
+      updateNodeConfig(nodeId, config, label, credentialMappings, settings);
       triggerAutoSave();
     },
     [updateNodeConfig, triggerAutoSave],
   );
 
+  const handleRenameNode = useCallback(
+    (nodeId: string, newId: string) => {
+      const error = renameNode(nodeId, newId);
+      if (!error) {
+        setConfiguringNodeId(newId);
+        triggerAutoSave();
+      }
+      return error;
+    },
+    [renameNode, setConfiguringNodeId, triggerAutoSave],
+  );
+
+  // Copy, paste and duplicate selected nodes, unless a field has focus
+  useEffect(() => {
+    const isEditing = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+    const getSelectedIds = () =>
+      nodes.filter((node) => node.selected).map((node) => node.id);
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditing(event.target)) return;
+      const text = copyNodes(getSelectedIds());
+      if (!text) return;
+      event.clipboardData?.setData("text/plain", text);
+      event.preventDefault();
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditing(event.target) || viewingExecutionId) return;
+      const text = event.clipboardData?.getData("text/plain");
+      if (text && pasteNodes(text)) {
+        event.preventDefault();
+        triggerAutoSave();
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key !== "d" ||
+        !(event.metaKey || event.ctrlKey) ||
+        isEditing(event.target) ||
+        viewingExecutionId
+      ) {
+        return;
+      }
+      const selectedIds = getSelectedIds();
+      if (selectedIds.length === 0) return;
+      event.preventDefault();
+      duplicateNodes(selectedIds);
+      triggerAutoSave();
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [
+    nodes,
+    copyNodes,
+    pasteNodes,
+    duplicateNodes,
+    triggerAutoSave,
+    viewingExecutionId,
+  ]);
+
+  const handlePinNodeData = useCallback(
+    (nodeId: string, pinnedData: Record<string, unknown> | undefined) => {
+      pinNodeData(nodeId, pinnedData);
+      triggerAutoSave();
+    },
+    [pinNodeData, triggerAutoSave],
+  );
+
   return (
     <ResizablePanelGroup direction="horizontal" className="h-full w-full">
       <ResizablePanel
@@ -214,6 +326,9 @@ export function VisualEditor({
             hasUnsavedChanges={hasUnsavedChanges}
             isStartingTest={isStartingTest}
             onRunTest={onRunTest}
+            onPublish={onPublish}
+            isPublishing={isPublishing}
+            hasUnpublishedChanges={hasUnpublishedChanges}
             onApplyJson={onApplyJson}
             onToggleHistory={() => setHistoryDrawerOpen(true)}
             viewingExecutionId={viewingExecutionId}
@@ -227,6 +342,8 @@ export function VisualEditor({
             onAddNode={() => setNodeSelectorOpen(true)}
             onToggleVariables={() => setVariablesPanelOpen((prev) => !prev)}
             variablesPanelOpen={variablesPanelOpen}
+            onToggleVersions={() => setVersionsDrawerOpen((prev) => !prev)}
+            versionsDrawerOpen={versionsDrawerOpen}
           />
 
           {/* Node Selector */}
@@ -325,8 +442,23 @@ export function VisualEditor({
             onSelectExecution={(execId) => {
               setViewingExecutionId(execId);
             }}
+            onSelectVersion={(version) => {
+              setFocusedVersion(version);
+              setVersionsDrawerOpen(true);
+            }}
             activeExecutionId={viewingExecutionId}
           />
+
+          <VersionHistoryDrawer
+            open={versionsDrawerOpen}
+            onOpenChange={(open) => {
+              setVersionsDrawerOpen(open);
+              if (!open) setFocusedVersion(null);
+            }}
+            routineId={routineId}
+            focusVersion={focusedVersion}
+            onRollback={onRollback}
+          />
         </div>
       </ResizablePanel>
 
@@ -363,9 +495,17 @@ export function VisualEditor({
             credentialMappings={
               (inspectedNode.data as PluginNodeData).credentialMappings
             }
+            onError={(inspectedNode.data as PluginNodeData).onError}
+            retry={(inspectedNode.data as PluginNodeData).retry}
+            timeout={(inspectedNode.data as PluginNodeData).timeout}
+            pinnedData={(inspectedNode.data as PluginNodeData).pinnedData}
             onSave={handleSaveNodeConfig}
+            onRename={handleRenameNode}
+            onPinData={handlePinNodeData}
             onClose={handleCloseInspector}
             testExecution={activeExecution}
+            onRerunFromNode={onRerunFromNode}
+            isStartingTest={isStartingTest}
             hasUnsavedChanges={hasUnsavedChanges}
           />
         )}
@@ -28,7 +28,7 @@ import {
   IconSettingsAutomation,
 } from "@tabler/icons-react";
 import { StatusBadge } from "./status-badge";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface Routine {
   _id: Id<"routines">;
@@ -38,6 +38,7 @@ interface Routine {
   triggerType: "manual" | "cron" | "webhook" | "event";
   nodes: unknown[];
   lastExecutedAt?: number;
+  nextRunAt?: number;
   _creationTime: number;
 }
 
@@ -83,6 +84,16 @@ export function RoutinesTable({
     return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
   };
 
+  const formatNextRun = (routine: Routine) => {
+    if (routine.triggerType !== "cron") return "—";
+    if (!routine.nextRunAt) {
+      return routine.status === "active" ? "Not scheduled" : "Paused";
+    }
+    return formatDistanceToNow(new Date(routine.nextRunAt), {
+      addSuffix: true,
+    });
+  };
+
   if (routines.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center rounded-lg border border-dashed p-12 text-center">
@@ -107,6 +118,7 @@ export function RoutinesTable({
             <TableHead>Trigger</TableHead>
             <TableHead>Nodes</TableHead>
             <TableHead>Last Run</TableHead>
+            <TableHead>Next Run</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -134,6 +146,17 @@ export function RoutinesTable({
               <TableCell className="text-sm text-muted-foreground">
                 {formatLastRun(routine.lastExecutedAt)}
               </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                <span
+                  title={
+                    routine.nextRunAt
+                      ? format(new Date(routine.nextRunAt), "PPpp")
+                      : undefined
+                  }
+                >
+                  {formatNextRun(routine)}
+                </span>
+              </TableCell>
               <TableCell className="text-right">
                 <TooltipProvider delayDuration={300}>
                   <div className="flex items-center justify-end gap-1">
@@ -12,8 +12,12 @@ import {
   IconX,
   IconChevronRight,
   IconAlertTriangle,
+  IconBan,
+  IconPlayerStop,
+  IconCornerDownRight,
 } from "@tabler/icons-react";
 import { format } from "date-fns";
+import { useCancelExecution } from "./routine-editor/hooks/use-cancel-execution";
 
 interface TestRunPanelProps {
   workflowId: string | null;
@@ -36,6 +40,12 @@ export function TestRunPanel({
     api.executions.getByWorkflowId,
     workflowId ? { workflowId } : "skip",
   );
+  // Executions started by execute-routine nodes
+  const childExecutions = useQuery(
+    api.executions.listChildren,
+    workflowId ? { workflowId } : "skip",
+  );
+  const { cancelExecution, cancellingId } = useCancelExecution();
 
   if (!isOpen) return null;
 
@@ -67,7 +77,9 @@ export function TestRunPanel({
                       ? "border-emerald-500/50 bg-emerald-500/10 text-emerald-600 dark:text-emerald-400"
                       : execution.status === "failed"
                         ? "border-destructive/50 bg-destructive/10 text-destructive"
-                        : ""
+                        : execution.status === "cancelled"
+                          ? "border-muted-foreground/50 bg-muted text-muted-foreground"
+                          : ""
                 }`}
               >
                 {execution.status === "running" && (
@@ -79,6 +91,9 @@ export function TestRunPanel({
                 {execution.status === "failed" && (
                   <IconAlertTriangle className="mr-1 size-3" />
                 )}
+                {execution.status === "cancelled" && (
+                  <IconBan className="mr-1 size-3" />
+                )}
                 {execution.status.toUpperCase()}
               </Badge>
             )}
@@ -90,14 +105,37 @@ export function TestRunPanel({
             </div>
           )}
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-8 w-8 p-0"
-          onClick={onClose}
-        >
-          <IconX className="size-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          {execution &&
+            (execution.status === "running" ||
+              execution.status === "pending") && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                disabled={
+                  cancellingId === workflowId ||
+                  execution.cancelledAt !== undefined
+                }
+                onClick={() => cancelExecution(workflowId)}
+              >
+                {cancellingId === workflowId ? (
+                  <IconLoader2 className="size-4 animate-spin" />
+                ) : (
+                  <IconPlayerStop className="size-4" />
+                )}
+                {execution.cancelledAt !== undefined ? "Cancelling" : "Cancel"}
+              </Button>
+            )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onClose}
+          >
+            <IconX className="size-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Body */}
@@ -137,7 +175,9 @@ export function TestRunPanel({
                             ? "bg-destructive"
                             : nodeState.status === "running"
                               ? "bg-blue-500 animate-pulse"
-                              : "bg-muted-foreground"
+                              : nodeState.status === "skipped"
+                                ? "bg-muted-foreground/40"
+                                : "bg-muted-foreground"
                       }`}
                     />
                     <span className="font-mono text-xs text-muted-foreground w-16 shrink-0">
@@ -155,6 +195,16 @@ export function TestRunPanel({
                         Iter {nodeState.iteration}
                       </Badge>
                     )}
+                    {nodeState.status === "running" &&
+                      nodeState.waitingUntil && (
+                        <span className="text-[10px] text-muted-foreground shrink-0">
+                          until{" "}
+                          {format(
+                            new Date(nodeState.waitingUntil),
+                            "MMM d, HH:mm",
+                          )}
+                        </span>
+                      )}
                     <Badge
                       variant={
                         nodeState.status === "failed"
@@ -163,10 +213,34 @@ export function TestRunPanel({
                       }
                       className="text-[10px] h-5 capitalize"
                     >
-                      {nodeState.status}
+                      {nodeState.status === "running" && nodeState.waitingUntil
+                        ? "waiting"
+                        : nodeState.status}
                     </Badge>
                     <IconChevronRight className="size-4 text-muted-foreground opacity-50" />
                   </button>
+                  {childExecutions
+                    ?.filter(
+                      (child) =>
+                        child.parentExecution?.nodeId === nodeState.nodeId,
+                    )
+                    .map((child) => (
+                      <div
+                        key={child._id}
+                        className="flex items-center gap-2 pb-2 pl-9 pr-2 text-xs text-muted-foreground"
+                      >
+                        <IconCornerDownRight className="size-3 shrink-0" />
+                        <span className="truncate">
+                          Called {child.routineName}
+                        </span>
+                        <Badge
+                          variant="outline"
+                          className="ml-auto text-[10px] h-5 capitalize"
+                        >
+                          {child.status}
+                        </Badge>
+                      </div>
+                    ))}
                 </div>
               ))}
             </div>
@@ -0,0 +1,358 @@
+"use client";
+
+import { useId } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@kianax/server/convex/_generated/api";
+import type { Id } from "@kianax/server/convex/_generated/dataModel";
+import { Button } from "@kianax/ui/components/button";
+import { Input } from "@kianax/ui/components/input";
+import { Label } from "@kianax/ui/components/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconCopy, IconRefresh, IconTrash } from "@tabler/icons-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+/**
+ * Webhook verification settings (mirrors WebhookVerification in the
+ * server's lib/webhook.ts)
+ */
+export type WebhookVerification =
+  | { type: "none" }
+  | { type: "shared-secret"; header: string; secret: string }
+  | {
+      type: "hmac";
+      header: string;
+      secret: string;
+      algorithm: "sha256" | "sha1";
+      encoding: "hex" | "base64";
+      prefix?: string;
+    };
+
+/**
+ * When the webhook caller gets its response (mirrors WebhookTriggerConfig
+ * in the server's lib/webhook.ts)
+ */
+export interface WebhookResponseSettings {
+  responseMode: "immediate" | "respond-node";
+  responseTimeoutMs: number;
+}
+
+interface WebhookTriggerFieldsProps {
+  routineId: Id<"routines">;
+  verification: WebhookVerification;
+  onVerificationChange: (verification: WebhookVerification) => void;
+  responseSettings: WebhookResponseSettings;
+  onResponseSettingsChange: (settings: WebhookResponseSettings) => void;
+}
+
+/**
+ * Read the verification settings from a routine's untyped triggerConfig
+ */
+export function toWebhookVerification(
+  triggerConfig: unknown,
+): WebhookVerification {
+  const raw = (triggerConfig ?? {}) as { verification?: WebhookVerification };
+  return raw.verification ?? { type: "none" };
+}
+
+/**
+ * Read the response settings from a routine's untyped triggerConfig
+ */
+export function toWebhookResponseSettings(
+  triggerConfig: unknown,
+): WebhookResponseSettings {
+  const raw = (triggerConfig ?? {}) as Partial<WebhookResponseSettings>;
+  return {
+    responseMode: raw.responseMode ?? "immediate",
+    responseTimeoutMs: raw.responseTimeoutMs ?? 30_000,
+  };
+}
+
+function UrlField({ label, url }: { label: string; url: string }) {
+  const inputId = useId();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url).then(
+      () => toast.success(`${label} copied`),
+      () => toast.error("Failed to copy URL"),
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={inputId}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={inputId}
+          value={url}
+          readOnly
+          className="font-mono text-xs"
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleCopy}
+          title={`Copy ${label}`}
+        >
+          <IconCopy className="size-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function WebhookTriggerFields({
+  routineId,
+  verification,
+  onVerificationChange,
+  responseSettings,
+  onResponseSettingsChange,
+}: WebhookTriggerFieldsProps) {
+  const responseModeId = useId();
+  const responseTimeoutId = useId();
+  const verificationTypeId = useId();
+  const headerId = useId();
+  const secretId = useId();
+  const algorithmId = useId();
+  const prefixId = useId();
+
+  const webhookInfo = useQuery(api.webhooks.getWebhookInfo, { routineId });
+  const regenerateToken = useMutation(api.webhooks.regenerateToken);
+  const clearSample = useMutation(api.webhooks.clearSample);
+
+  const handleRegenerate = async () => {
+    if (
+      !confirm(
+        "Regenerate the webhook URL? Callers using the current URL will stop working.",
+      )
+    ) {
+      return;
+    }
+    try {
+      await regenerateToken({ routineId });
+      toast.success("Webhook URL regenerated");
+    } catch (error) {
+      toast.error("Failed to regenerate webhook URL");
+      console.error(error);
+    }
+  };
+
+  const handleTypeChange = (type: WebhookVerification["type"]) => {
+    switch (type) {
+      case "none":
+        onVerificationChange({ type: "none" });
+        break;
+      case "shared-secret":
+        onVerificationChange({
+          type: "shared-secret",
+          header: "x-webhook-secret",
+          secret: "",
+        });
+        break;
+      case "hmac":
+        onVerificationChange({
+          type: "hmac",
+          header: "x-signature-256",
+          secret: "",
+          algorithm: "sha256",
+          encoding: "hex",
+        });
+        break;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {webhookInfo && (
+        <>
+          <UrlField label="Webhook URL" url={webhookInfo.url} />
+          <UrlField label="Test URL" url={webhookInfo.testUrl} />
+          <p className="text-xs text-muted-foreground">
+            Requests to the test URL are captured as sample data for the editor
+            and don't run the routine.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleRegenerate}>
+            <IconRefresh className="mr-1.5 size-3.5" />
+            Regenerate URL
+          </Button>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={responseModeId}>Respond</Label>
+          <Select
+            value={responseSettings.responseMode}
+            onValueChange={(value) =>
+              onResponseSettingsChange({
+                ...responseSettings,
+                responseMode: value as WebhookResponseSettings["responseMode"],
+              })
+            }
+          >
+            <SelectTrigger id={responseModeId}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="immediate">Immediately</SelectItem>
+              <SelectItem value="respond-node">
+                Using Respond to Webhook node
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {responseSettings.responseMode === "respond-node" && (
+          <div className="space-y-2">
+            <Label htmlFor={responseTimeoutId}>Timeout (seconds)</Label>
+            <Input
+              id={responseTimeoutId}
+              type="number"
+              min={1}
+              max={300}
+              value={String(responseSettings.responseTimeoutMs / 1000)}
+              onChange={(e) =>
+                onResponseSettingsChange({
+                  ...responseSettings,
+                  responseTimeoutMs: Number(e.target.value) * 1000,
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {responseSettings.responseMode === "immediate"
+          ? "Callers get 202 Accepted with the execution ID as soon as the routine starts."
+          : "Callers wait for the first Respond to Webhook node. If none runs before the timeout, they get a 504 error."}
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor={verificationTypeId}>Verification</Label>
+        <Select
+          value={verification.type}
+          onValueChange={(value) =>
+            handleTypeChange(value as WebhookVerification["type"])
+          }
+        >
+          <SelectTrigger id={verificationTypeId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">URL token only</SelectItem>
+            <SelectItem value="shared-secret">Shared secret header</SelectItem>
+            <SelectItem value="hmac">HMAC signature</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {verification.type !== "none" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={headerId}>Header</Label>
+            <Input
+              id={headerId}
+              value={verification.header}
+              onChange={(e) =>
+                onVerificationChange({
+                  ...verification,
+                  header: e.target.value,
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={secretId}>Secret</Label>
+            <Input
+              id={secretId}
+              type="password"
+              value={verification.secret}
+              onChange={(e) =>
+                onVerificationChange({
+                  ...verification,
+                  secret: e.target.value,
+                })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {verification.type === "hmac" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={algorithmId}>Algorithm</Label>
+            <Select
+              value={`${verification.algorithm}-${verification.encoding}`}
+              onValueChange={(value) => {
+                const [algorithm, encoding] = value.split("-") as [
+                  "sha256" | "sha1",
+                  "hex" | "base64",
+                ];
+                onVerificationChange({ ...verification, algorithm, encoding });
+              }}
+            >
+              <SelectTrigger id={algorithmId}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sha256-hex">SHA-256 (hex)</SelectItem>
+                <SelectItem value="sha256-base64">SHA-256 (base64)</SelectItem>
+                <SelectItem value="sha1-hex">SHA-1 (hex)</SelectItem>
+                <SelectItem value="sha1-base64">SHA-1 (base64)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={prefixId}>Signature prefix</Label>
+            <Input
+              id={prefixId}
+              placeholder="sha256="
+              value={verification.prefix ?? ""}
+              onChange={(e) =>
+                onVerificationChange({
+                  ...verification,
+                  prefix: e.target.value || undefined,
+                })
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {webhookInfo?.sample && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>
+              Sample payload{" "}
+              <span className="font-normal text-muted-foreground">
+                (captured{" "}
+                {formatDistanceToNow(new Date(webhookInfo.sample.capturedAt), {
+                  addSuffix: true,
+                })}
+                )
+              </span>
+            </Label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              onClick={() => clearSample({ routineId })}
+              title="Clear sample"
+            >
+              <IconTrash className="size-3.5" />
+            </Button>
+          </div>
+          <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+            {JSON.stringify(webhookInfo.sample.data, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
 
 import { getAllPluginMetadata, createPluginInstance } from "@kianax/plugins";
 import type { PluginMetadata, PluginTag } from "@kianax/plugin-sdk";
+import { ERROR_HANDLE, type NodeErrorMode } from "@kianax/execution-engine";
 
 /**
  * Get all available plugins
@@ -36,15 +37,40 @@ export function getPluginInputs(
 
 /**
  * Get plugin output port definitions
+ *
+ * Pass the node's config for plugins whose output handles depend on it
+ * (e.g. one handle per switch case).
  */
 export function getPluginOutputs(
   pluginId: string,
+  config?: Record<string, unknown>,
 ): Record<string, { name: string; label: string; description?: string }> {
   const plugin = createPluginInstance(pluginId);
   if (!plugin) return {};
 
-  const schemas = plugin.defineSchemas();
-  return schemas.outputs;
+  return plugin.getOutputs(config);
+}
+
+/**
+ * Get a node's output handles: the plugin's outputs, plus the automatic
+ * "error" handle when the node routes errors to it
+ */
+export function getNodeOutputs(
+  pluginId: string,
+  config?: Record<string, unknown>,
+  onError?: NodeErrorMode,
+): Record<string, { name: string; label: string; description?: string }> {
+  const outputs = getPluginOutputs(pluginId, config);
+  if (onError !== "error-handle" || outputs[ERROR_HANDLE]) return outputs;
+
+  return {
+    ...outputs,
+    [ERROR_HANDLE]: {
+      name: ERROR_HANDLE,
+      label: "Error",
+      description: "Error (message, code, details) when the node fails",
+    },
+  };
 }
 
 /**
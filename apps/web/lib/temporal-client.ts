@@ -15,6 +15,7 @@
 
 import { Client, Connection } from "@temporalio/client";
 import { parseWebEnv } from "@kianax/config";
+import type { ApprovalResponse } from "@kianax/shared/temporal";
 
 let client: Client | null = null;
 let connection: Connection | null = null;
@@ -106,6 +107,18 @@ export async function cancelRoutine(routineId: string) {
   await handle.cancel();
 }
 
+/**
+ * Resume an approval node waiting on someone's response
+ * The signal name matches approvalSignal in the workers app.
+ */
+export async function signalApproval(
+  routineId: string,
+  response: ApprovalResponse,
+) {
+  const handle = await getRoutineHandle(routineId);
+  await handle.signal("approval", response);
+}
+
 /**
  * Query routine execution status
  */
@@ -5,13 +5,21 @@
  * These activities call Convex mutations to store real-time status.
  */
 
+import { ApplicationFailure } from "@temporalio/activity";
 import { ConvexHttpClient } from "convex/browser";
 import type {
   CreateRoutineExecutionInput,
   UpdateRoutineStatusInput,
   StoreNodeResultInput,
+  EmitEventInput,
+  GetExecutionOutputsInput,
+  CreateApprovalInput,
+  CloseApprovalInput,
+  GetCalledRoutineInput,
+  RoutineInput,
 } from "@kianax/shared/temporal";
-import { api } from "../../../server/convex/_generated/api.js";
+import { restoreOutputs, type PortData } from "@kianax/execution-engine";
+import { api } from "@kianax/server/convex/_generated/api";
 import { parseWorkerEnv } from "@kianax/config";
 
 /**
@@ -30,6 +38,13 @@ function getConvexClient(): ConvexHttpClient {
   return convexClient;
 }
 
+/**
+ * Secret authenticating the worker-only Convex functions
+ */
+function getWorkerSecret(): string {
+  return parseWorkerEnv().workerSecret;
+}
+
 /**
  * Create routine execution record
  * Called at the start of a workflow
@@ -40,6 +55,7 @@ export async function createRoutineExecution(
   try {
     const convex = getConvexClient();
     await convex.mutation(api.executions.create, {
+      workerSecret: getWorkerSecret(),
       routineId: input.routineId as any, // Type conversion for Convex ID
       userId: input.userId,
       workflowId: input.workflowId,
@@ -48,6 +64,13 @@ export async function createRoutineExecution(
       ...(input.triggerData !== undefined && {
         triggerData: input.triggerData,
       }),
+      ...(input.routineVersion !== undefined && {
+        routineVersion: input.routineVersion,
+      }),
+      ...(input.rerun !== undefined && { rerun: input.rerun }),
+      ...(input.parentExecution !== undefined && {
+        parentExecution: input.parentExecution,
+      }),
     });
   } catch (error: any) {
     console.error("Failed to create routine execution:", error);
@@ -65,6 +88,7 @@ export async function updateRoutineStatus(
   try {
     const convex = getConvexClient();
     await convex.mutation(api.executions.updateStatus, {
+      workerSecret: getWorkerSecret(),
       workflowId: input.workflowId,
       status:
         input.status === "running"
@@ -99,18 +123,151 @@ export async function storeNodeResult(
   try {
     const convex = getConvexClient();
     await convex.mutation(api.executions.storeNodeResult, {
+      workerSecret: getWorkerSecret(),
       workflowId: input.workflowId,
       nodeId: input.nodeId,
       status: input.status,
       ...(input.output !== undefined && { output: input.output }),
+      ...(input.outputs !== undefined && { outputs: input.outputs }),
       ...(input.error !== undefined && { error: input.error }),
       ...(input.startedAt !== undefined && { startedAt: input.startedAt }),
       ...(input.completedAt !== undefined && {
         completedAt: input.completedAt,
       }),
+      ...(input.waitingUntil !== undefined && {
+        waitingUntil: input.waitingUntil,
+      }),
     });
   } catch (error: any) {
     console.error("Failed to store node result:", error);
     // Don't throw - we don't want Convex update failures to fail the workflow
   }
 }
+
+/**
+ * Load an earlier execution's node outputs, for re-running from a node
+ * Uses each node's latest completed run. Failures are thrown, since a
+ * re-run can't start without the outputs.
+ */
+export async function getExecutionOutputs(
+  input: GetExecutionOutputsInput,
+): Promise<Record<string, PortData[]>> {
+  const convex = getConvexClient();
+  const execution = await convex.query(api.executions.getByWorkflowId, {
+    workflowId: input.workflowId,
+  });
+
+  if (!execution) {
+    throw new Error(`Execution not found for workflow ID: ${input.workflowId}`);
+  }
+
+  const nodeOutputs: Record<string, PortData[]> = {};
+  for (const nodeState of execution.nodeStates) {
+    if (nodeState.status !== "completed") continue;
+
+    // Older executions only stored the output summary
+    nodeOutputs[nodeState.nodeId] =
+      nodeState.outputs ??
+      restoreOutputs(nodeState.nodeId, nodeState.output ?? {});
+  }
+
+  return nodeOutputs;
+}
+
+/**
+ * Load the routine an execute-routine node calls, as workflow input
+ * Failures are thrown; a routine that doesn't exist or belongs to another
+ * user fails the node without retrying.
+ */
+export async function getCalledRoutine(
+  input: GetCalledRoutineInput,
+): Promise<Omit<RoutineInput, "triggerData" | "parentExecution">> {
+  const convex = getConvexClient();
+  const routine = await convex.query(api.routines.getForRoutineCall, {
+    workerSecret: getWorkerSecret(),
+    routineId: input.routineId,
+    userId: input.userId,
+  });
+
+  if (!routine) {
+    throw ApplicationFailure.create({
+      message: `Routine not found: ${input.routineId}`,
+      type: "ROUTINE_NOT_FOUND",
+      nonRetryable: true,
+    });
+  }
+
+  return {
+    routineId: routine.routineId,
+    userId: input.userId,
+    routineVersion: routine.version,
+    nodes: routine.nodes.map((node) => ({
+      id: node.id,
+      pluginId: node.pluginId,
+      config: node.config || {},
+      credentialMappings: node.credentialMappings,
+      onError: node.onError,
+      retry: node.retry,
+      timeout: node.timeout,
+      // pinnedData is left out: pins only apply to test runs
+    })),
+    connections: routine.connections,
+    variables: routine.variables,
+  };
+}
+
+/**
+ * Publish a custom event from an emit-event node
+ * Unlike the status updates above, failures are thrown so the node fails
+ */
+export async function emitEvent(input: EmitEventInput): Promise<void> {
+  const convex = getConvexClient();
+  await convex.mutation(api.routineEvents.emit, {
+    workerSecret: getWorkerSecret(),
+    workflowId: input.workflowId,
+    nodeId: input.nodeId,
+    name: input.name,
+    ...(input.payload !== undefined && { payload: input.payload }),
+  });
+}
+
+/**
+ * Record a pending approval for an approval node
+ * Failures are thrown, since nobody could respond to an unlisted approval
+ */
+export async function createApproval(
+  input: CreateApprovalInput,
+): Promise<void> {
+  const convex = getConvexClient();
+  await convex.mutation(api.routineApprovals.create, {
+    workerSecret: getWorkerSecret(),
+    workflowId: input.workflowId,
+    nodeId: input.nodeId,
+    title: input.title,
+    expiresAt: input.expiresAt,
+    ...(input.instructions !== undefined && {
+      instructions: input.instructions,
+    }),
+    ...(input.data !== undefined && { data: input.data }),
+    ...(input.fields !== undefined && { fields: input.fields }),
+  });
+}
+
+/**
+ * Close a node's pending approval that nobody responded to
+ * Called when the approval times out or the execution is cancelled
+ */
+export async function closeApproval(input: CloseApprovalInput): Promise<void> {
+  try {
+    const convex = getConvexClient();
+    await convex.mutation(api.routineApprovals.close, {
+      workerSecret: getWorkerSecret(),
+      workflowId: input.workflowId,
+      nodeId: input.nodeId,
+      status: input.status,
+    });
+  } catch (error: any) {
+    console.error("Failed to close approval:", error);
+    // Don't throw - the approval can no longer be responded to anyway
+  }
+}
@@ -5,12 +5,14 @@
  * Activities can make network calls, use Date.now(), etc.
  */
 
-import { Context } from "@temporalio/activity";
+import { ApplicationFailure, Context } from "@temporalio/activity";
+import { isRetryableError } from "@kianax/execution-engine";
 import type { ExecutePluginInput } from "@kianax/shared/temporal";
 import { createPluginInstance, getPluginMetadata } from "@kianax/plugins";
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "@kianax/server/convex/_generated/api";
 import { parseWorkerEnv } from "@kianax/config";
+import { codeSandbox } from "../lib/code-sandbox.js";
 
 // Lazy-initialize convex client (env vars already loaded by entry point)
 let convex: ConvexHttpClient | null = null;
@@ -23,8 +25,36 @@ function getConvex(): ConvexHttpClient {
   return convex;
 }
 
+/** How often a running plugin heartbeats, so cancellation reaches it */
+const HEARTBEAT_INTERVAL_MS = 5000;
+
 export async function executePlugin(
   input: ExecutePluginInput,
+): Promise<{ output: unknown; nodeState: Record<string, unknown> }> {
+  try {
+    return await runPlugin(input);
+  } catch (error) {
+    // Errors without one of the node's retryable codes fail the node
+    // without Temporal retrying them
+    if (
+      error instanceof Error &&
+      !isRetryableError(error, {
+        retryableErrorCodes: input.retryableErrorCodes,
+      })
+    ) {
+      const { code } = error as Error & { code?: unknown };
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: typeof code === "string" ? code : error.name,
+        nonRetryable: true,
+      });
+    }
+    throw error;
+  }
+}
+
+async function runPlugin(
+  input: ExecutePluginInput,
 ): Promise<{ output: unknown; nodeState: Record<string, unknown> }> {
   const {
     pluginId,
@@ -60,6 +90,7 @@ export async function executePlugin(
 
   // 2. Get plugin schemas
   const schemas = plugin.defineSchemas();
+  const isBatch = metadata?.executionMode === "batch";
 
   // 3. Validate inputs against plugin's input schemas
   const validatedInputs: Record<string, any> = {};
@@ -71,14 +102,18 @@ export async function executePlugin(
       );
     }
 
-    // Validate using zod schema
-    const result = inputSchema.schema.safeParse(inputValue);
-    if (!result.success) {
-      throw new Error(
-        `Invalid input for ${inputName}: ${result.error.message}`,
-      );
-    }
-    validatedInputs[inputName] = result.data;
+    // Validate using zod schema (batch plugins receive one value per item)
+    const values = isBatch ? (inputValue as unknown[]) : [inputValue];
+    const validated = values.map((value) => {
+      const result = inputSchema.schema.safeParse(value);
+      if (!result.success) {
+        throw new Error(
+          `Invalid input for ${inputName}: ${result.error.message}`,
+        );
+      }
+      return result.data;
+    });
+    validatedInputs[inputName] = isBatch ? validated : validated[0];
   }
 
   // 4. Load user credentials if plugin requires them
@@ -120,39 +155,63 @@ export async function executePlugin(
 
   console.log(`  Executing plugin...`);
 
-  // 5. Execute plugin with nodeState
-  const output = await plugin.execute(
-    validatedInputs,
-    config || {},
-    {
-      userId: context.userId,
-      routineId: context.routineId,
-      executionId: context.executionId,
-      nodeId: context.nodeId,
-      credentials,
-      triggerData: context.triggerData,
-    },
-    nodeState, // Pass nodeState to plugin
+  // 5. Execute plugin with nodeState. Cancellation requests only reach the
+  // activity through heartbeats, so keep heartbeating while the plugin runs.
+  const activityContext = Context.current();
+  const heartbeat = setInterval(
+    () => activityContext.heartbeat(),
+    HEARTBEAT_INTERVAL_MS,
   );
+  let output: Record<string, unknown>;
+  try {
+    output = await plugin.execute(
+      validatedInputs,
+      config || {},
+      {
+        userId: context.userId,
+        routineId: context.routineId,
+        executionId: context.executionId,
+        nodeId: context.nodeId,
+        credentials,
+        triggerData: context.triggerData,
+        variables: context.variables,
+        itemConfigs: context.itemConfigs,
+        // Aborted when the routine is cancelled
+        signal: activityContext.cancellationSignal,
+        // Isolated runner for user code (code plugin)
+        sandbox: codeSandbox,
+      },
+      nodeState, // Pass nodeState to plugin
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
 
   // 6. Validate outputs against plugin's output schemas
+  // (resolved per node: handles can depend on config, e.g. switch cases)
+  const outputPorts = plugin.getOutputs(config || {});
   const validatedOutputs: Record<string, any> = {};
   for (const [outputName, outputValue] of Object.entries(output)) {
-    const outputSchema = schemas.outputs[outputName];
+    const outputSchema = outputPorts[outputName];
     if (!outputSchema) {
       throw new Error(
-        `Unknown output: ${outputName}. Available outputs: ${Object.keys(schemas.outputs).join(", ")}`,
+        `Unknown output: ${outputName}. Available outputs: ${Object.keys(outputPorts).join(", ")}`,
       );
     }
 
-    // Validate using zod schema
-    const result = outputSchema.schema.safeParse(outputValue);
-    if (!result.success) {
-      throw new Error(
-        `Invalid output for ${outputName}: ${result.error.message}`,
-      );
-    }
-    validatedOutputs[outputName] = result.data;
+    // Validate using zod schema (batch plugins may return an array of items)
+    const batchItems = isBatch && Array.isArray(outputValue);
+    const values = batchItems ? outputValue : [outputValue];
+    const validated = values.map((value: unknown) => {
+      const result = outputSchema.schema.safeParse(value);
+      if (!result.success) {
+        throw new Error(
+          `Invalid output for ${outputName}: ${result.error.message}`,
+        );
+      }
+      return result.data;
+    });
+    validatedOutputs[outputName] = batchItems ? validated : validated[0];
   }
 
   console.log(`  Plugin executed successfully`);
@@ -166,3 +225,19 @@ export async function executePlugin(
     nodeState, // Return potentially modified nodeState
   };
 }
+
+/**
+ * Look up how each plugin runs for multiple input items
+ *
+ * Workflows can't load plugin code, so they resolve execution modes once
+ * per run through this activity.
+ */
+export async function getPluginExecutionModes(input: {
+  pluginIds: string[];
+}): Promise<Record<string, "per-item" | "batch">> {
+  const modes: Record<string, "per-item" | "batch"> = {};
+  for (const pluginId of input.pluginIds) {
+    modes[pluginId] = getPluginMetadata(pluginId)?.executionMode ?? "per-item";
+  }
+  return modes;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { CodeExecutionError } from "@kianax/plugin-sdk";
+import { decodeLineMap, runCode } from "./code-sandbox.js";
+
+const LIMITS = { timeoutMs: 1000, memoryLimitMb: 32 };
+
+function run(
+  code: string,
+  globals: Record<string, unknown> = {},
+  language: "javascript" | "typescript" = "javascript",
+) {
+  return runCode({ code, language, globals, ...LIMITS });
+}
+
+async function runError(
+  code: string,
+  language: "javascript" | "typescript" = "javascript",
+): Promise<CodeExecutionError> {
+  const error = await run(code, {}, language).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(CodeExecutionError);
+  return error as CodeExecutionError;
+}
+
+describe("runCode", () => {
+  it("should return the code's result with access to its globals", async () => {
+    const { result, logs } = await run(
+      `console.log("count", items.length);
+       return items.map((item) => ({ ...item, total: item.price * vars.qty }));`,
+      { items: [{ price: 2 }, { price: 5 }], vars: { qty: 3 } },
+    );
+
+    expect(result).toEqual([
+      { price: 2, total: 6 },
+      { price: 5, total: 15 },
+    ]);
+    expect(logs).toEqual(["count 2"]);
+  });
+
+  it("should support await", async () => {
+    const { result } = await run(
+      "const value = await Promise.resolve(42);\nreturn value;",
+    );
+    expect(result).toBe(42);
+  });
+
+  it("should not expose the host", async () => {
+    const { result } = await run(
+      "return [typeof require, typeof process, typeof fetch, typeof setTimeout];",
+    );
+    expect(result).toEqual([
+      "undefined",
+      "undefined",
+      "undefined",
+      "undefined",
+    ]);
+
+    const error = await runError('return new Function("return process")();');
+    expect(error.message).toContain("EvalError");
+  });
+
+  it("should report runtime errors at the user's line", async () => {
+    const error = await runError(
+      "const a = 1;\nconst b = a.missing.value;\nreturn b;",
+    );
+
+    expect(error.message).toMatch(/^TypeError: .*\(line 2, column \d+\)$/);
+    expect(error.line).toBe(2);
+  });
+
+  it("should report syntax errors at the user's line", async () => {
+    const error = await runError("const a = 1;\n\nconst = 2;");
+    expect(error.message).toContain("SyntaxError");
+    expect(error.line).toBe(3);
+  });
+
+  it("should stop code exceeding the CPU time limit", async () => {
+    const error = await runError("while (true) {}");
+    expect(error.message).toBe("Code exceeded the CPU time limit of 1000ms");
+  });
+
+  it("should stop code exceeding the memory limit", async () => {
+    const error = await runError(
+      "const chunks = [];\nwhile (true) chunks.push(new Array(100000).fill(1));",
+    );
+    expect(error.message).toMatch(/memory limit|CPU time limit/);
+  });
+
+  it("should compile TypeScript and map error lines back", async () => {
+    const { result } = await run(
+      "interface Item { price: number }\nconst list: Item[] = items;\nreturn list.length;",
+      { items: [{ price: 1 }] },
+      "typescript",
+    );
+    expect(result).toBe(1);
+
+    const error = await runError(
+      "type Id = string;\n\nconst id: Id = 'bad';\nthrow new Error(id);",
+      "typescript",
+    );
+    expect(error.message).toMatch(/^Error: bad \(line 4/);
+  });
+
+  it("should report TypeScript syntax errors", async () => {
+    const error = await runError("const a: number = ;", "typescript");
+    expect(error.message).toContain("SyntaxError");
+    expect(error.line).toBe(1);
+  });
+});
+
+describe("decodeLineMap", () => {
+  it("should map generated lines to source lines", () => {
+    // Line 0 -> 0, line 1 unmapped, line 2 -> 2
+    expect(decodeLineMap("AAAA;;AAEA")).toEqual([0, -1, 2]);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Code Sandbox
+ *
+ * Runs user code for plugins such as the code plugin (see CodeSandbox in
+ * the plugin SDK). Each run gets its own worker thread with a capped heap,
+ * and inside it a fresh V8 context holding nothing but JavaScript builtins
+ * and the run's globals:
+ * - No require, process, fetch or timers, so no network or filesystem
+ * - eval and new Function are disabled
+ * - Globals and results cross the boundary as JSON only, so no host object
+ *   (and no host Function constructor) is reachable from the code
+ * - CPU time is limited by the context's timeout, memory by the worker's
+ *   resource limits, and a wall-clock guard terminates the worker
+ *
+ * TypeScript is compiled to JavaScript first; error locations are mapped
+ * back to the user's lines either way.
+ */
+
+import { Worker } from "node:worker_threads";
+import {
+  CodeExecutionError,
+  type CodeSandbox,
+  type CodeSandboxOptions,
+  type CodeSandboxResult,
+} from "@kianax/plugin-sdk";
+
+/** File name of user code in stack traces */
+const CODE_FILENAME = "user-code.js";
+
+/** Extra wall-clock time on top of the CPU limit before giving up */
+const WALL_CLOCK_GRACE_MS = 2000;
+
+/** The code runs as the body of an async function starting on line 2 */
+const WRAPPER_PREFIX = "(async () => {\n";
+const WRAPPER_SUFFIX = "\n})()";
+
+/**
+ * Message posted by the sandbox worker
+ */
+type SandboxMessage =
+  | { resultJson?: string; logs: string[] }
+  | {
+      error: { name: string; message: string; stack: string };
+      logs: string[];
+    };
+
+/**
+ * Runs in the worker thread (CommonJS): evaluates the code in a fresh
+ * context and posts the outcome. Everything the code can touch is created
+ * inside the context.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const { source, globalsJson, timeoutMs, filename } = workerData;
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+
+vm.runInContext(\`
+  "use strict";
+  globalThis.__logs = [];
+  const format = (value) => {
+    if (typeof value === "string") return value;
+    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+  };
+  const log = (...args) => { __logs.push(args.map(format).join(" ")); };
+  globalThis.console = { log, info: log, warn: log, error: log, debug: log };
+  const globals = JSON.parse(\${JSON.stringify(globalsJson)});
+  for (const key of Object.keys(globals)) globalThis[key] = globals[key];
+\`, context);
+
+// Read values out as JSON, so no code runs outside of the time limit
+const readJson = (expression) => {
+  const json = vm.runInContext(\`JSON.stringify(\${expression})\`, context, {
+    timeout: timeoutMs,
+  });
+  return json === undefined ? undefined : JSON.parse(json);
+};
+const readLogs = () => {
+  try { return readJson("__logs"); } catch { return []; }
+};
+
+try {
+  const script = new vm.Script(source + \`
+    .then(
+      (value) => { globalThis.__outcome = { resultJson: JSON.stringify(value) }; },
+      (error) => { globalThis.__outcome = { error: {
+        name: String(error?.name ?? "Error"),
+        message: String(error?.message ?? error),
+        stack: String(error?.stack ?? ""),
+      } }; },
+    );\`, { filename });
+  script.runInContext(context, { timeout: timeoutMs });
+
+  const outcome = readJson("globalThis.__outcome");
+  parentPort.postMessage(
+    outcome === undefined
+      ? { error: {
+          name: "Error",
+          message: "Code did not finish: it awaits something that never resolves",
+          stack: "",
+        }, logs: readLogs() }
+      : { ...outcome, logs: readLogs() },
+  );
+} catch (error) {
+  parentPort.postMessage({
+    error: {
+      name: error?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT" ? "TimeoutError" : String(error?.name ?? "Error"),
+      message: String(error?.message ?? error),
+      stack: String(error?.stack ?? ""),
+    },
+    logs: readLogs(),
+  });
+}
+`;
+
+/**
+ * Sandbox passed to plugins in the plugin context
+ */
+export const codeSandbox: CodeSandbox = { run: runCode };
+
+/**
+ * Run user code in the sandbox
+ *
+ * @throws {CodeExecutionError} When the code fails to compile, throws, or
+ *   exceeds its limits
+ */
+export async function runCode(
+  options: CodeSandboxOptions,
+): Promise<CodeSandboxResult> {
+  const wrapped = `${WRAPPER_PREFIX}${options.code}${WRAPPER_SUFFIX}`;
+  const { source, lineMap } =
+    options.language === "typescript"
+      ? await compileTypeScript(wrapped)
+      : { source: wrapped, lineMap: undefined };
+
+  let globalsJson: string;
+  try {
+    globalsJson = JSON.stringify(options.globals);
+  } catch (error) {
+    throw new CodeExecutionError(
+      `Code input is not JSON-serializable: ${(error as Error).message}`,
+    );
+  }
+
+  const message = await runInWorker(
+    { source, globalsJson, timeoutMs: options.timeoutMs },
+    options,
+  );
+
+  if ("error" in message) {
+    const { name, message: errorMessage, stack } = message.error;
+    if (name === "TimeoutError") {
+      throw new CodeExecutionError(
+        `Code exceeded the CPU time limit of ${options.timeoutMs}ms`,
+      );
+    }
+
+    const location = getStackLocation(stack);
+    throw new CodeExecutionError(
+      `${name}: ${errorMessage}`,
+      location && toUserLine(location.line, lineMap),
+      location?.column,
+    );
+  }
+
+  return {
+    result:
+      message.resultJson === undefined
+        ? undefined
+        : JSON.parse(message.resultJson),
+    logs: message.logs,
+  };
+}
+
+/**
+ * Run compiled code in a fresh worker thread, terminating it when it
+ * exceeds its memory limit, runs too long or the signal aborts
+ */
+function runInWorker(
+  workerData: { source: string; globalsJson: string; timeoutMs: number },
+  options: Pick<CodeSandboxOptions, "timeoutMs" | "memoryLimitMb" | "signal">,
+): Promise<SandboxMessage> {
+  const { signal } = options;
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { ...workerData, filename: CODE_FILENAME },
+      // Nothing from the host environment, even if the context leaks
+      env: {},
+      resourceLimits: {
+        maxOldGenerationSizeMb: options.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.min(16, options.memoryLimitMb),
+        stackSizeMb: 4,
+      },
+      stdout: true,
+      stderr: true,
+    });
+
+    let settled = false;
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(wallClock);
+      signal?.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      action();
+    };
+
+    const wallClock = setTimeout(
+      () =>
+        finish(() =>
+          reject(
+            new CodeExecutionError(
+              `Code exceeded the time limit of ${options.timeoutMs}ms`,
+            ),
+          ),
+        ),
+      options.timeoutMs + WALL_CLOCK_GRACE_MS,
+    );
+
+    const onAbort = () =>
+      finish(() => reject(signal?.reason ?? new Error("Code run aborted")));
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    worker.once("message", (message: SandboxMessage) =>
+      finish(() => resolve(message)),
+    );
+    worker.once("error", (error: Error & { code?: string }) =>
+      finish(() =>
+        reject(
+          error.code === "ERR_WORKER_OUT_OF_MEMORY"
+            ? new CodeExecutionError(
+                `Code exceeded the memory limit of ${options.memoryLimitMb} MB`,
+              )
+            : new CodeExecutionError(`Code sandbox failed: ${error.message}`),
+        ),
+      ),
+    );
+    worker.once("exit", (exitCode) =>
+      finish(() =>
+        reject(
+          new CodeExecutionError(
+            `Code sandbox exited unexpectedly (code ${exitCode})`,
+          ),
+        ),
+      ),
+    );
+  });
+}
+
+/**
+ * Compile TypeScript to JavaScript, with a map from generated lines to
+ * lines of the TypeScript source
+ *
+ * @throws {CodeExecutionError} On syntax errors (type errors are ignored)
+ */
+async function compileTypeScript(
+  wrapped: string,
+): Promise<{ source: string; lineMap: number[] }> {
+  const { default: ts } = await import("typescript");
+
+  const output = ts.transpileModule(wrapped, {
+    fileName: "user-code.ts",
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.None,
+      sourceMap: true,
+      removeComments: false,
+    },
+  });
+
+  const diagnostic = output.diagnostics?.find(
+    (d) => d.category === ts.DiagnosticCategory.Error,
+  );
+  if (diagnostic) {
+    const position =
+      diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : undefined;
+    throw new CodeExecutionError(
+      `SyntaxError: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`,
+      position && toUserLine(position.line + 1),
+      position && position.character + 1,
+    );
+  }
+
+  const sourceMap = JSON.parse(output.sourceMapText ?? "{}") as {
+    mappings?: string;
+  };
+  return {
+    // Back to an expression: the sandbox appends .then() to it
+    source: output.outputText
+      .replace(/\n\/\/# sourceMappingURL=.*\s*$/, "")
+      .replace(/;\s*$/, ""),
+    lineMap: decodeLineMap(sourceMap.mappings ?? ""),
+  };
+}
+
+/**
+ * Find the first location in user code in an error stack
+ */
+function getStackLocation(
+  stack: string,
+): { line: number; column?: number } | undefined {
+  const escaped = CODE_FILENAME.replace(".", "\\.");
+  const match = new RegExp(`${escaped}:(\\d+)(?::(\\d+))?`).exec(stack);
+  if (!match) return undefined;
+
+  return {
+    line: Number(match[1]),
+    column: match[2] === undefined ? undefined : Number(match[2]),
+  };
+}
+
+/**
+ * Convert a line of the wrapped (and possibly compiled) code to a line of
+ * the user's code, or undefined when it falls outside of it
+ *
+ * @param line - 1-based line in the code that ran
+ * @param lineMap - Compiled line (0-based) -> source line (0-based)
+ */
+function toUserLine(line: number, lineMap?: number[]): number | undefined {
+  const sourceLine = lineMap ? (lineMap[line - 1] ?? -1) + 1 : line;
+  // Line 1 is the wrapper's opening line
+  const userLine = sourceLine - 1;
+  return userLine >= 1 ? userLine : undefined;
+}
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Decode the source line of each generated line from source map mappings
+ * (the first mapped segment of each line wins)
+ *
+ * @returns Generated line (0-based) -> source line (0-based), -1 when unmapped
+ */
+export function decodeLineMap(mappings: string): number[] {
+  const lines: number[] = [];
+  let sourceLine = 0;
+
+  for (const generatedLine of mappings.split(";")) {
+    let mapped = -1;
+    for (const segment of generatedLine.split(",")) {
+      if (!segment) continue;
+      const fields = decodeVlq(segment);
+      // [column, source, sourceLine, sourceColumn, name]; line is relative
+      if (fields.length >= 4) {
+        sourceLine += fields[2] ?? 0;
+        if (mapped === -1) mapped = sourceLine;
+      }
+    }
+    lines.push(mapped);
+  }
+
+  return lines;
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
@@ -25,6 +25,10 @@ export function adaptRoutineInput(input: RoutineInput): RoutineDefinition {
     label: node.pluginId, // Use pluginId as label (could be enhanced later)
     parameters: node.config, // config -> parameters
     credentialMappings: node.credentialMappings,
+    onError: node.onError,
+    retry: node.retry,
+    timeout: node.timeout,
+    pinnedData: node.pinnedData,
   }));
 
   // Convert connections to edges (flow-based model)
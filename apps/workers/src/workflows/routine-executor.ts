@@ -3,28 +3,101 @@
  *
  * Uses the execution-engine package for graph traversal
  * with Temporal activities for plugin execution.
+ *
+ * Cancelling the workflow cancels in-flight plugin activities, marks the
+ * nodes that never ran as skipped and records the execution as cancelled.
+ *
+ * Re-runs (input.rerun) only run a node and its downstream nodes, reusing
+ * the parent execution's outputs for the rest of the routine. Test runs
+ * (input.testRun) emit pinned node data instead of running those nodes.
+ *
+ * Approval nodes record a pending approval and wait for the "approval"
+ * signal sent when someone responds, or for the node's approval timeout.
+ * Wait nodes sleep on a durable workflow timer until their wake-up time.
+ * Execute-routine nodes run the called routine as a child workflow, either
+ * waiting for its final outputs or leaving it running on its own.
+ * Time spent waiting doesn't count toward the routine's time limit.
+ *
+ * The workflow returns the routine's final outputs (see RoutineResult).
  */
 
-import { proxyActivities, workflowInfo } from "@temporalio/workflow";
+import {
+  ActivityFailure,
+  allHandlersFinished,
+  CancellationScope,
+  CancelledFailure,
+  ChildWorkflowCancellationType,
+  ChildWorkflowFailure,
+  condition,
+  defineSignal,
+  defineUpdate,
+  executeChild,
+  isCancellation,
+  ParentClosePolicy,
+  proxyActivities,
+  setHandler,
+  sleep,
+  startChild,
+  uuid4,
+  workflowInfo,
+} from "@temporalio/workflow";
 import type * as activities from "../activities/index.js";
-import type { RoutineInput } from "@kianax/shared/temporal";
+import type {
+  ApprovalResponse,
+  ExecutePluginInput,
+  RoutineInput,
+  RoutineResult,
+  WebhookResponse,
+  WebhookResponseResult,
+} from "@kianax/shared/temporal";
 import {
   BFSIterationStrategy,
+  ExecutionCancelledError,
+  assertRoutineCallAllowed,
   ExecutionState,
-  ExpressionResolver,
+  executeForItems,
+  gatherNodeInputs,
+  getErrorMode,
+  getApprovalOutput,
+  getApprovalRequest,
+  getErrorOutputs,
+  getFinalOutputs,
+  getLoopContext,
+  getNodeTimeout,
+  getOutputData,
+  getPinnedOutputs,
+  getRetryPolicy,
+  getRoutineCall,
+  getRoutineCallOutput,
+  getWaitOutput,
+  getWaitUntil,
+  isApprovalNode,
+  isCancellationError,
+  isExecuteRoutineNode,
+  isWaitNode,
+  seedRerunState,
+  toExecutionError,
+  withErrorHandling,
   type ExecutionGraph,
+  type ItemExecutionMode,
   type Node,
   type Edge,
   validateGraph,
 } from "@kianax/execution-engine";
 import { adaptRoutineInput } from "../lib/routine-adapter.js";
 
-// Proxy activities with timeout and retry configuration
+// Proxy activities with timeout and retry configuration (plugin runs use
+// each node's own policy, see executePluginActivity)
 const {
-  executePlugin,
   createRoutineExecution,
   updateRoutineStatus,
   storeNodeResult,
+  emitEvent,
+  getExecutionOutputs,
+  getPluginExecutionModes,
+  createApproval,
+  closeApproval,
+  getCalledRoutine,
 } = proxyActivities<typeof activities>({
   startToCloseTimeout: "5 minutes",
   retry: {
@@ -35,15 +108,110 @@ const {
   },
 });
 
+/** Plugin whose output is sent back to synchronous webhook callers */
+const RESPOND_TO_WEBHOOK_PLUGIN_ID = "respond-to-webhook";
+
+/** Plugin whose output is published as a custom event */
+const EMIT_EVENT_PLUGIN_ID = "emit-event";
+
 /**
- * Routine Executor using execution-engine
+ * Update sent by webhooks that wait for the routine's response.
+ * Takes a timeout in milliseconds and resolves once a respond-to-webhook
+ * node has run, the routine finished without responding, or the timeout
+ * elapsed - whichever comes first. The routine keeps running afterwards.
+ */
+export const webhookResponseUpdate = defineUpdate<
+  WebhookResponseResult,
+  [timeoutMs: number]
+>("webhookResponse");
+
+/**
+ * Signal sent when someone approves or rejects a pending approval.
+ * Resumes the waiting approval node (response.nodeId).
  */
-export async function routineExecutor(input: RoutineInput): Promise<void> {
-  const { routineId, userId, triggerData } = input;
+export const approvalSignal = defineSignal<[ApprovalResponse]>("approval");
 
+/**
+ * Who runs the routine, and through which chain of routine calls
+ */
+interface RoutineCaller {
+  userId: string;
+  /** Routine IDs of the running executions, outermost first */
+  callStack: string[];
+}
+
+/**
+ * Routine Executor using execution-engine
+ */
+export async function routineExecutor(
+  input: RoutineInput,
+): Promise<RoutineResult> {
   // Get workflow execution info
   const { workflowId: executionId, runId } = workflowInfo();
 
+  // First respond-to-webhook output, handed to a waiting webhook caller
+  let webhookResponse: WebhookResponse | undefined;
+  let finished = false;
+
+  setHandler(webhookResponseUpdate, async (timeoutMs) => {
+    const settled = await condition(
+      () => webhookResponse !== undefined || finished,
+      timeoutMs,
+    );
+    if (webhookResponse !== undefined) {
+      return { type: "response", response: webhookResponse };
+    }
+    return settled ? { type: "no-response" } : { type: "timeout" };
+  });
+
+  // Latest response per approval node, until the node picks it up
+  const approvalResponses = new Map<string, ApprovalResponse>();
+  setHandler(approvalSignal, (response) => {
+    approvalResponses.set(response.nodeId, response);
+  });
+
+  try {
+    return await runRoutine(
+      input,
+      executionId,
+      runId,
+      approvalResponses,
+      (node, output) => {
+        if (
+          webhookResponse === undefined &&
+          node.pluginId === RESPOND_TO_WEBHOOK_PLUGIN_ID
+        ) {
+          webhookResponse = (output as { output: WebhookResponse }).output;
+        }
+      },
+    );
+  } finally {
+    // Release a waiting webhook caller before the workflow completes
+    finished = true;
+    await condition(allHandlersFinished);
+  }
+}
+
+/**
+ * Validate, record and execute the routine graph
+ */
+async function runRoutine(
+  input: RoutineInput,
+  executionId: string,
+  runId: string,
+  approvalResponses: Map<string, ApprovalResponse>,
+  onNodeCompleted: (node: Node, output: unknown) => void,
+): Promise<RoutineResult> {
+  const {
+    routineId,
+    userId,
+    routineVersion,
+    triggerData,
+    rerun,
+    testRun,
+    parentExecution,
+  } = input;
+
   // Convert Temporal format to execution-engine format
   const routine = adaptRoutineInput(input);
 
@@ -63,6 +231,12 @@ export async function routineExecutor(input: RoutineInput): Promise<void> {
     runId,
     triggerType: (triggerData as any)?.triggerType || "manual",
     triggerData,
+    routineVersion,
+    rerun,
+    parentExecution: parentExecution && {
+      workflowId: parentExecution.workflowId,
+      nodeId: parentExecution.nodeId,
+    },
   });
 
   // Update routine status to running
@@ -73,10 +247,30 @@ export async function routineExecutor(input: RoutineInput): Promise<void> {
     startedAt: Date.now(),
   });
 
+  // Build execution graph
+  const graph = buildExecutionGraph(routine, routineId, triggerData);
+  const state = new ExecutionState();
+  const startedNodes = new Set<string>();
+  const caller: RoutineCaller = {
+    userId,
+    callStack: [...(parentExecution?.callStack ?? []), routineId],
+  };
+
   try {
-    // Build execution graph
-    const graph = buildExecutionGraph(routine, routineId, triggerData);
-    const state = new ExecutionState();
+    // Per-item or batch execution for each plugin in the routine
+    const executionModes = await getPluginExecutionModes({
+      pluginIds: [...new Set(routine.nodes.map((node) => node.pluginId))],
+    });
+
+    // Reuse the parent execution's outputs for nodes that don't run again
+    if (rerun) {
+      seedRerunState(graph, state, {
+        startNodeId: rerun.startNodeId,
+        nodeOutputs: await getExecutionOutputs({
+          workflowId: rerun.parentWorkflowId,
+        }),
+      });
+    }
 
     // Use BFS iteration strategy from execution-engine
     const iterationStrategy = new BFSIterationStrategy();
@@ -86,11 +280,23 @@ export async function routineExecutor(input: RoutineInput): Promise<void> {
       graph,
       state,
       async (nodeId: string) => {
-        await executeNodeWithActivity(nodeId, graph, state, executionId);
+        startedNodes.add(nodeId);
+        const output = await executeNodeWithActivity(
+          nodeId,
+          graph,
+          state,
+          executionId,
+          executionModes[graph.nodes.get(nodeId)!.pluginId] ?? "per-item",
+          testRun === true,
+          approvalResponses,
+          caller,
+        );
+        onNodeCompleted(graph.nodes.get(nodeId)!, output);
       },
       {
-        maxExecutionTime: 30 * 60 * 1000, // 30 minutes
+        maxExecutionTime: 30 * 60 * 1000, // 30 minutes, excluding waiting
         maxExecutions: 10000, // Prevent infinite loops
+        startNodeIds: rerun && [rerun.startNodeId],
       },
     );
 
@@ -102,7 +308,14 @@ export async function routineExecutor(input: RoutineInput): Promise<void> {
       completedAt: Date.now(),
       executionPath: state.executionPath.map((item) => item.nodeId),
     });
+
+    return { outputs: getFinalOutputs(graph, state) };
   } catch (error: any) {
+    if (isRoutineCancelled(error)) {
+      await recordCancellation(graph, state, startedNodes, executionId);
+      throw isCancellation(error) ? error : new CancelledFailure(error.message);
+    }
+
     // Workflow failed
     await updateRoutineStatus({
       workflowId: executionId,
@@ -120,6 +333,51 @@ export async function routineExecutor(input: RoutineInput): Promise<void> {
   }
 }
 
+/**
+ * Check whether an error comes from the workflow being cancelled
+ */
+function isRoutineCancelled(error: unknown): boolean {
+  return isCancellation(error) || isCancellationError(error);
+}
+
+/**
+ * Record a cancelled run: nodes interrupted mid-run are marked cancelled,
+ * nodes that never ran are marked skipped
+ *
+ * Runs in a non-cancellable scope, since activities scheduled in the
+ * cancelled workflow scope would fail immediately.
+ */
+async function recordCancellation(
+  graph: ExecutionGraph,
+  state: ExecutionState,
+  startedNodes: Set<string>,
+  executionId: string,
+): Promise<void> {
+  await CancellationScope.nonCancellable(async () => {
+    const completedAt = Date.now();
+
+    for (const nodeId of graph.nodes.keys()) {
+      if (state.hasExecuted(nodeId)) continue;
+
+      await storeNodeResult({
+        workflowId: executionId,
+        routineId: graph.routineId,
+        nodeId,
+        status: startedNodes.has(nodeId) ? "cancelled" : "skipped",
+        completedAt,
+      });
+    }
+
+    await updateRoutineStatus({
+      workflowId: executionId,
+      routineId: graph.routineId,
+      status: "cancelled",
+      completedAt,
+      executionPath: state.executionPath.map((item) => item.nodeId),
+    });
+  });
+}
+
 /**
  * Build execution graph (adapted from execution-engine)
  */
@@ -178,13 +436,22 @@ function buildExecutionGraph(
 
 /**
  * Execute a single node using Temporal activity
+ * Runs the plugin once per input item (or once for all items in batch mode)
+ * and returns the first run's output. Pinned nodes in test runs emit their
+ * pinned data without running. Approval nodes wait for a response, wait
+ * nodes for their wake-up time and execute-routine nodes for the called
+ * routine instead of running their plugin.
  */
 async function executeNodeWithActivity(
   nodeId: string,
   graph: ExecutionGraph,
   state: ExecutionState,
   executionId: string,
-): Promise<void> {
+  executionMode: ItemExecutionMode,
+  usePinnedData: boolean,
+  approvalResponses: Map<string, ApprovalResponse>,
+  caller: RoutineCaller,
+): Promise<unknown> {
   const node = graph.nodes.get(nodeId);
 
   if (!node) {
@@ -194,9 +461,6 @@ async function executeNodeWithActivity(
   // Gather inputs from upstream nodes (using execution-engine logic)
   const inputs = gatherNodeInputs(nodeId, graph, state);
 
-  // Get or initialize nodeState for stateful plugins
-  const nodeState = state.getNodeState(nodeId);
-
   try {
     // Mark node as running before execution
     await storeNodeResult({
@@ -219,39 +483,112 @@ async function executeNodeWithActivity(
         routineId: graph.routineId,
         startedAt: startTime,
       },
+      loop: getLoopContext(nodeId, graph, state),
     };
 
-    // Resolve expressions in node config before execution
-    const resolver = new ExpressionResolver(expressionContext);
-    const resolvedConfig = resolver.resolve(node.parameters);
-
-    // Execute plugin as Temporal Activity
-    const result = await executePlugin({
-      pluginId: node.pluginId,
-      config: resolvedConfig,
-      inputs,
-      context: {
-        userId: graph.routineId, // TODO: Pass userId from graph metadata
-        routineId: graph.routineId,
-        executionId,
-        nodeId,
-        triggerData: graph.triggerData,
-      },
-      nodeState,
-      credentialMappings: node.credentialMappings,
-    });
-
-    // Store updated nodeState
-    if (result.nodeState) {
-      state.setNodeState(nodeId, result.nodeState);
-    }
+    // Test runs emit pinned data instead of running the plugin
+    const pinnedOutputs = usePinnedData ? getPinnedOutputs(node) : undefined;
+    let firstOutput: unknown = pinnedOutputs && node.pinnedData;
 
-    // Convert plugin output to PortData[] format
-    const portDataArray = convertToPortData(result.output);
+    // Execute plugin as Temporal Activity, once per run. Expressions in the
+    // node config are resolved against each run's item, and failed runs
+    // follow the node's error mode.
+    const outputs =
+      pinnedOutputs ??
+      (await executeForItems(
+        nodeId,
+        node.parameters,
+        inputs,
+        executionMode,
+        expressionContext,
+        withErrorHandling(
+          async ({ config, inputs: pluginInputs, itemConfigs }) => {
+            if (isWaitNode(node)) {
+              const output = await waitUntil(
+                nodeId,
+                config,
+                pluginInputs,
+                graph,
+                state,
+                executionId,
+                startTime,
+              );
+              firstOutput ??= output;
+              return output;
+            }
+
+            if (isExecuteRoutineNode(node)) {
+              const output = await callRoutine(
+                nodeId,
+                config,
+                state,
+                executionId,
+                caller,
+              );
+              firstOutput ??= output;
+              return output;
+            }
+
+            if (isApprovalNode(node)) {
+              const output = await waitForApproval(
+                nodeId,
+                config,
+                state,
+                executionId,
+                approvalResponses,
+              );
+              firstOutput ??= output;
+              return output;
+            }
+
+            const result = await executePluginActivity(node, {
+              pluginId: node.pluginId,
+              config,
+              inputs: pluginInputs,
+              context: {
+                userId: graph.routineId, // TODO: Pass userId from graph metadata
+                routineId: graph.routineId,
+                executionId,
+                nodeId,
+                triggerData: graph.triggerData,
+                variables: graph.variables,
+                itemConfigs,
+              },
+              // Get or initialize nodeState for stateful plugins
+              nodeState: state.getNodeState(nodeId),
+              credentialMappings: node.credentialMappings,
+            });
+
+            // Publish custom events to subscribed routines
+            if (node.pluginId === EMIT_EVENT_PLUGIN_ID) {
+              const event = (
+                result.output as {
+                  output: { eventName: string; payload?: unknown };
+                }
+              ).output;
+              await emitEvent({
+                workflowId: executionId,
+                nodeId,
+                name: event.eventName,
+                payload: event.payload,
+              });
+            }
+
+            // Store updated nodeState
+            if (result.nodeState) {
+              state.setNodeState(nodeId, result.nodeState);
+            }
+
+            firstOutput ??= result.output;
+            return result.output as Record<string, unknown>;
+          },
+          getErrorMode(node),
+        ),
+      ));
 
     // Store result in state
     state.addNodeResult(nodeId, {
-      outputs: portDataArray,
+      outputs,
       executionTime: Date.now() - startTime,
       status: "success",
     });
@@ -262,15 +599,48 @@ async function executeNodeWithActivity(
       routineId: graph.routineId,
       nodeId,
       status: "completed",
-      output: result.output,
+      output: getOutputData(outputs),
+      outputs,
       completedAt: Date.now(),
     });
+
+    return firstOutput;
   } catch (error: any) {
+    // Cancellation ends the routine; it isn't a node failure
+    if (isRoutineCancelled(error)) throw error;
+
     // Unwrap Temporal ActivityFailure to get the real error message
     const rootCause = error.cause || error;
     const errorMessage = rootCause.message || error.message || "Unknown error";
     const errorStack = rootCause.stack || error.stack;
 
+    // Keep going when the node handles its own errors
+    const errorMode = getErrorMode(node);
+    if (errorMode !== "stop") {
+      const executionError = toExecutionError(rootCause);
+      const outputs = getErrorOutputs(nodeId, executionError, errorMode);
+
+      state.addNodeResult(nodeId, {
+        outputs,
+        executionTime: 0,
+        status: "success",
+        error: executionError,
+      });
+
+      await storeNodeResult({
+        workflowId: executionId,
+        routineId: graph.routineId,
+        nodeId,
+        status: "completed",
+        output: getOutputData(outputs),
+        outputs,
+        error: { message: errorMessage, stack: errorStack },
+        completedAt: Date.now(),
+      });
+
+      return undefined;
+    }
+
     // Mark node as failed
     state.addNodeResult(nodeId, {
       outputs: [],
@@ -303,81 +673,227 @@ async function executeNodeWithActivity(
 }
 
 /**
- * Gather inputs for a node from upstream nodes
- * Converts from PortData[] back to Record<string, unknown>
+ * Sleep until a wait node's wake-up time, returning its output
  *
- * Flow-based routing:
- * - If edge has sourceHandle: get data from that specific handle
- * - If edge has no sourceHandle: get ALL data from source node
+ * Uses a durable workflow timer, so no activity or worker is blocked. The
+ * node's state shows when it continues while it waits.
  */
-function gatherNodeInputs(
+async function waitUntil(
   nodeId: string,
+  config: Record<string, unknown>,
+  inputs: Record<string, unknown>,
   graph: ExecutionGraph,
   state: ExecutionState,
-): Record<string, unknown> {
-  const incomingEdges = graph.edgesByTarget.get(nodeId) || [];
-  const inputs: Record<string, unknown> = {};
+  executionId: string,
+  startedAt: number,
+): Promise<Record<string, unknown>> {
+  const waitStart = Date.now();
+  const until = getWaitUntil(config, waitStart);
+
+  if (until > waitStart) {
+    try {
+      await storeNodeResult({
+        workflowId: executionId,
+        routineId: graph.routineId,
+        nodeId,
+        status: "running",
+        startedAt,
+        waitingUntil: until,
+      });
+      await sleep(until - waitStart);
+    } catch (error) {
+      // Surface cancellation so node error handling doesn't swallow it
+      if (isCancellation(error)) {
+        throw new ExecutionCancelledError("Routine cancelled");
+      }
+      throw error;
+    } finally {
+      state.addWaitingTime(Date.now() - waitStart);
+    }
+  }
 
-  for (const edge of incomingEdges) {
-    // Get the latest output from the source node
-    const portDataArray = state.nodeOutputs.get(edge.sourceNodeId);
+  return getWaitOutput(inputs, until);
+}
 
-    if (portDataArray) {
-      // Get the handle (prefer sourceHandle, fallback to sourcePort for backwards compat)
-      const handle = edge.sourceHandle ?? edge.sourcePort;
+/**
+ * Record a pending approval and wait for someone to respond or for the
+ * approval timeout, returning the approval node's output
+ *
+ * The pending approval is closed when nobody responds in time or the
+ * routine is cancelled while waiting.
+ */
+async function waitForApproval(
+  nodeId: string,
+  config: Record<string, unknown>,
+  state: ExecutionState,
+  executionId: string,
+  approvalResponses: Map<string, ApprovalResponse>,
+): Promise<Record<string, unknown>> {
+  const request = getApprovalRequest(config);
+  const waitStart = Date.now();
 
-      // Determine target port name (prefer targetHandle, fallback to targetPort, then "input")
-      const targetPortName = edge.targetHandle ?? edge.targetPort ?? "input";
+  // A response left over from an earlier item's approval doesn't count
+  approvalResponses.delete(nodeId);
 
-      if (handle) {
-        // Handle-based: get specific port
-        const portData = portDataArray.find((p) => p.portName === handle);
+  try {
+    await createApproval({
+      workflowId: executionId,
+      nodeId,
+      title: request.title,
+      instructions: request.instructions,
+      data: request.data,
+      fields: request.fields,
+      expiresAt: waitStart + request.timeoutMs,
+    });
 
-        if (portData?.items && portData.items.length > 0 && portData.items[0]) {
-          inputs[targetPortName] = portData.items[0].data;
-        }
-      } else {
-        // Flow-based: get first available data from source
-        for (const portData of portDataArray) {
-          if (
-            portData.items &&
-            portData.items.length > 0 &&
-            portData.items[0]
-          ) {
-            inputs[targetPortName] = portData.items[0].data;
-            break; // Take first available data
-          }
-        }
-      }
+    const responded = await condition(
+      () => approvalResponses.has(nodeId),
+      request.timeoutMs,
+    );
+    if (!responded) {
+      await closeApproval({
+        workflowId: executionId,
+        nodeId,
+        status: "timeout",
+      });
+      return getApprovalOutput(request);
     }
-  }
 
-  return inputs;
+    const response = approvalResponses.get(nodeId);
+    approvalResponses.delete(nodeId);
+    return getApprovalOutput(request, response);
+  } catch (error) {
+    if (isCancellation(error)) {
+      await CancellationScope.nonCancellable(() =>
+        closeApproval({
+          workflowId: executionId,
+          nodeId,
+          status: "cancelled",
+        }),
+      );
+      // Surface cancellation so node error handling doesn't swallow it
+      throw new ExecutionCancelledError("Routine cancelled");
+    }
+    throw error instanceof ActivityFailure && error.cause ? error.cause : error;
+  } finally {
+    state.addWaitingTime(Date.now() - waitStart);
+  }
 }
 
 /**
- * Convert plugin output (Record<string, unknown>) to PortData[]
+ * Run the routine an execute-routine node calls as a child workflow,
+ * returning the node's output
+ *
+ * The node's input becomes the called routine's trigger data. Waiting calls
+ * return the called routine's final outputs, and cancelling this execution
+ * cancels the called one. Fire and forget calls return once the called
+ * routine has started, and leave it running whatever happens here.
  */
-function convertToPortData(
-  output: unknown,
-): import("@kianax/execution-engine").PortData[] {
-  if (!output || typeof output !== "object") {
-    return [];
-  }
-
-  const portDataArray: import("@kianax/execution-engine").PortData[] = [];
+async function callRoutine(
+  nodeId: string,
+  config: Record<string, unknown>,
+  state: ExecutionState,
+  executionId: string,
+  caller: RoutineCaller,
+): Promise<Record<string, unknown>> {
+  const call = getRoutineCall(config);
+  assertRoutineCallAllowed(caller.callStack, call.routineId);
+  const waitStart = Date.now();
 
-  for (const [portName, data] of Object.entries(output)) {
-    portDataArray.push({
-      portName,
-      items: [
-        {
-          data,
-          metadata: {},
+  try {
+    const routine = await getCalledRoutine({
+      routineId: call.routineId,
+      userId: caller.userId,
+    });
+    const childInput: RoutineInput = {
+      ...routine,
+      triggerData: {
+        ...call.input,
+        timestamp: Date.now(),
+        triggerType: "routine",
+        caller: {
+          routineId: caller.callStack[caller.callStack.length - 1],
+          executionId,
+          nodeId,
         },
-      ],
+      },
+      parentExecution: {
+        workflowId: executionId,
+        nodeId,
+        callStack: caller.callStack,
+      },
+    };
+    const workflowId = `${executionId}-${nodeId}-${uuid4()}`;
+
+    if (call.mode === "fire-and-forget") {
+      await startChild(routineExecutor, {
+        workflowId,
+        args: [childInput],
+        parentClosePolicy: ParentClosePolicy.ABANDON,
+        cancellationType: ChildWorkflowCancellationType.ABANDON,
+      });
+      return getRoutineCallOutput(call, workflowId);
+    }
+
+    const result = await executeChild(routineExecutor, {
+      workflowId,
+      args: [childInput],
     });
+    return getRoutineCallOutput(call, workflowId, result.outputs);
+  } catch (error) {
+    // Surface cancellation of this execution (not of the called routine)
+    // so node error handling doesn't swallow it
+    if (
+      isCancellation(error) &&
+      CancellationScope.current().consideredCancelled
+    ) {
+      throw new ExecutionCancelledError("Routine cancelled");
+    }
+    throw (error instanceof ActivityFailure ||
+      error instanceof ChildWorkflowFailure) &&
+      error.cause
+      ? error.cause
+      : error;
+  } finally {
+    if (call.mode === "wait") {
+      state.addWaitingTime(Date.now() - waitStart);
+    }
   }
+}
 
-  return portDataArray;
+/**
+ * Run the plugin activity with the node's retry policy and timeout,
+ * surfacing the plugin's own error instead of Temporal's ActivityFailure
+ * wrapper
+ */
+async function executePluginActivity(
+  node: Node,
+  input: ExecutePluginInput,
+): Promise<{ output: unknown; nodeState: Record<string, unknown> }> {
+  const policy = getRetryPolicy(node);
+  const { executePlugin } = proxyActivities<typeof activities>({
+    startToCloseTimeout: getNodeTimeout(node),
+    // Cancellation reaches running activities through heartbeats
+    heartbeatTimeout: "20s",
+    retry: {
+      initialInterval: policy.initialInterval,
+      backoffCoefficient: policy.backoffCoefficient,
+      // Temporal rejects a maximum below the initial interval
+      maximumInterval: Math.max(policy.maximumInterval, policy.initialInterval),
+      maximumAttempts: policy.maxAttempts,
+    },
+  });
+
+  try {
+    return await executePlugin({
+      ...input,
+      retryableErrorCodes: policy.retryableErrorCodes,
+    });
+  } catch (error) {
+    // Surface cancellation so node error handling doesn't swallow it
+    if (isCancellation(error)) {
+      throw new ExecutionCancelledError("Routine cancelled");
+    }
+    throw error instanceof ActivityFailure && error.cause ? error.cause : error;
+  }
 }
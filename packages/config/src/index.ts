@@ -46,6 +46,8 @@ export const workerEnvSchema = z.object({
   convex: convexSchema,
   temporal: temporalSchema,
   taskQueue: z.string().default("default"),
+  /** Shared with Convex, authenticates worker-only functions */
+  workerSecret: z.string().min(1, "WORKER_SECRET is required"),
 });
 
 export const serverEnvSchema = z.object({
@@ -110,6 +112,7 @@ export function parseWorkerEnv(): WorkerEnv {
       clientKey: process.env.TEMPORAL_CLIENT_KEY,
     },
     taskQueue: process.env.TASK_QUEUE,
+    workerSecret: process.env.WORKER_SECRET,
   });
   return _workerEnv;
 }
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_APPROVAL_TIMEOUT_MINUTES,
+  getApprovalOutput,
+  getApprovalRequest,
+  isApprovalNode,
+} from "./approval.js";
+
+describe("isApprovalNode", () => {
+  it("should only match approval nodes", () => {
+    expect(isApprovalNode({ pluginId: "approval" })).toBe(true);
+    expect(isApprovalNode({ pluginId: "if-else" })).toBe(false);
+  });
+});
+
+describe("getApprovalRequest", () => {
+  it("should read the request from the node config", () => {
+    const request = getApprovalRequest({
+      title: "Refund order #42",
+      instructions: "Check the amount",
+      data: { orderId: 42, amount: 120 },
+      fields: [{ name: "reason", type: "text", required: true }],
+      timeoutMinutes: 60,
+    });
+
+    expect(request).toEqual({
+      title: "Refund order #42",
+      instructions: "Check the amount",
+      data: { orderId: 42, amount: 120 },
+      fields: [
+        { name: "reason", label: undefined, type: "text", required: true },
+      ],
+      timeoutMs: 60 * 60 * 1000,
+    });
+  });
+
+  it("should default the title and timeout", () => {
+    const request = getApprovalRequest({});
+
+    expect(request.title).toBe("Approval required");
+    expect(request.timeoutMs).toBe(
+      DEFAULT_APPROVAL_TIMEOUT_MINUTES * 60 * 1000,
+    );
+    expect(request.fields).toBeUndefined();
+  });
+
+  it("should reject invalid timeouts", () => {
+    expect(() => getApprovalRequest({ timeoutMinutes: 0 })).toThrow(
+      "Invalid approval timeout",
+    );
+    expect(() => getApprovalRequest({ timeoutMinutes: "soon" })).toThrow(
+      "Invalid approval timeout",
+    );
+  });
+
+  it("should reject invalid and duplicate fields", () => {
+    expect(() =>
+      getApprovalRequest({ fields: [{ name: "1st", type: "text" }] }),
+    ).toThrow("Invalid approval field name: 1st");
+    expect(() =>
+      getApprovalRequest({
+        fields: [
+          { name: "amount", type: "number" },
+          { name: "amount", type: "text" },
+        ],
+      }),
+    ).toThrow("Duplicate approval field: amount");
+    expect(() =>
+      getApprovalRequest({ fields: [{ name: "due", type: "date" }] }),
+    ).toThrow("Invalid type for approval field due: date");
+  });
+});
+
+describe("getApprovalOutput", () => {
+  const request = getApprovalRequest({ data: { orderId: 42 } });
+
+  it("should route responses to the decision's handle", () => {
+    const respondedBy = { userId: "user-1", name: "Ada" };
+
+    expect(
+      getApprovalOutput(request, {
+        decision: "approved",
+        values: { amount: 100 },
+        respondedBy,
+        respondedAt: 1000,
+      }),
+    ).toEqual({
+      approved: {
+        decision: "approved",
+        data: { orderId: 42 },
+        values: { amount: 100 },
+        comment: undefined,
+        respondedBy,
+        respondedAt: 1000,
+      },
+    });
+
+    const rejected = getApprovalOutput(request, {
+      decision: "rejected",
+      comment: "Too much",
+      respondedBy,
+      respondedAt: 1000,
+    });
+    expect(rejected).toHaveProperty("rejected.comment", "Too much");
+  });
+
+  it("should take the timeout handle without a response", () => {
+    expect(getApprovalOutput(request)).toEqual({
+      timeout: {
+        decision: "timeout",
+        data: { orderId: 42 },
+        values: {},
+        comment: undefined,
+        respondedBy: undefined,
+        respondedAt: undefined,
+      },
+    });
+  });
+});
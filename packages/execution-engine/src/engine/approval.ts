@@ -0,0 +1,160 @@
+/**
+ * Approval support
+ *
+ * Approval nodes pause an execution until someone approves or rejects a
+ * request, optionally filling in a form, or until the node's approval
+ * timeout runs out. The decision picks the handle the routine continues on.
+ *
+ * Waiting is up to the runtime (the Temporal workflow waits for a signal),
+ * so approval nodes don't run their plugin: the runtime reads the request
+ * from the node's resolved config and routes the response with
+ * getApprovalOutput.
+ */
+
+import type { Node } from "../types/graph.js";
+
+/** Plugin ID of the approval node */
+export const APPROVAL_PLUGIN_ID = "approval";
+
+/** Time to wait for a response when the node doesn't set one: one day */
+export const DEFAULT_APPROVAL_TIMEOUT_MINUTES = 24 * 60;
+
+/** Longest time to wait for a response: 30 days */
+export const MAX_APPROVAL_TIMEOUT_MINUTES = 30 * 24 * 60;
+
+/** How an approval ended, which is also the handle the routine takes */
+export type ApprovalDecision = "approved" | "rejected" | "timeout";
+
+/**
+ * Form field filled in when responding
+ */
+export interface ApprovalField {
+  name: string;
+  label?: string;
+  type: "text" | "number" | "boolean";
+  required?: boolean;
+}
+
+/**
+ * What the reviewer is asked to approve
+ */
+export interface ApprovalRequest {
+  title: string;
+  instructions?: string;
+  /** Context data to review */
+  data?: unknown;
+  fields?: ApprovalField[];
+  /** How long to wait before taking the "timeout" handle */
+  timeoutMs: number;
+}
+
+/**
+ * Someone's response to an approval request
+ */
+export interface ApprovalResponse {
+  decision: "approved" | "rejected";
+  /** Submitted form field values */
+  values?: Record<string, unknown>;
+  comment?: string;
+  respondedBy: { userId: string; name: string };
+  respondedAt: number;
+}
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FIELD_TYPES = new Set(["text", "number", "boolean"]);
+
+/**
+ * Check whether a node is an approval node
+ */
+export function isApprovalNode(node: Pick<Node, "pluginId">): boolean {
+  return node.pluginId === APPROVAL_PLUGIN_ID;
+}
+
+/**
+ * Read and validate the approval request from a node's resolved config
+ */
+export function getApprovalRequest(
+  config: Record<string, unknown>,
+): ApprovalRequest {
+  const timeoutMinutes =
+    config.timeoutMinutes ?? DEFAULT_APPROVAL_TIMEOUT_MINUTES;
+  if (
+    typeof timeoutMinutes !== "number" ||
+    !Number.isFinite(timeoutMinutes) ||
+    timeoutMinutes < 1 ||
+    timeoutMinutes > MAX_APPROVAL_TIMEOUT_MINUTES
+  ) {
+    throw new Error(
+      `Invalid approval timeout: ${String(timeoutMinutes)} (use 1-${MAX_APPROVAL_TIMEOUT_MINUTES} minutes)`,
+    );
+  }
+
+  return {
+    title:
+      typeof config.title === "string" && config.title.trim()
+        ? config.title
+        : "Approval required",
+    instructions:
+      typeof config.instructions === "string" && config.instructions
+        ? config.instructions
+        : undefined,
+    data: config.data,
+    fields: getApprovalFields(config.fields),
+    timeoutMs: timeoutMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Validate the form fields of an approval request
+ */
+function getApprovalFields(fields: unknown): ApprovalField[] | undefined {
+  if (fields === undefined || fields === null) return undefined;
+  if (!Array.isArray(fields)) {
+    throw new Error("Approval fields must be an array");
+  }
+
+  const names = new Set<string>();
+  return fields.map((field: Partial<ApprovalField>) => {
+    if (!field?.name || !FIELD_NAME_PATTERN.test(field.name)) {
+      throw new Error(`Invalid approval field name: ${String(field?.name)}`);
+    }
+    if (names.has(field.name)) {
+      throw new Error(`Duplicate approval field: ${field.name}`);
+    }
+    names.add(field.name);
+
+    const type = field.type ?? "text";
+    if (!FIELD_TYPES.has(type)) {
+      throw new Error(`Invalid type for approval field ${field.name}: ${type}`);
+    }
+
+    return {
+      name: field.name,
+      label: field.label || undefined,
+      type,
+      required: field.required === true,
+    };
+  });
+}
+
+/**
+ * Output of an approval node: the decision's handle receives the reviewed
+ * data and the response (no response means the request timed out)
+ */
+export function getApprovalOutput(
+  request: ApprovalRequest,
+  response?: ApprovalResponse,
+): Record<string, unknown> {
+  const decision: ApprovalDecision = response?.decision ?? "timeout";
+
+  return {
+    [decision]: {
+      decision,
+      data: request.data,
+      values: response?.values ?? {},
+      comment: response?.comment,
+      respondedBy: response?.respondedBy,
+      respondedAt: response?.respondedAt,
+    },
+  };
+}
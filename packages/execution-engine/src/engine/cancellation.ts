@@ -0,0 +1,78 @@
+/**
+ * Execution cancellation
+ *
+ * Executions are cancelled through an AbortSignal. The executor checks it
+ * before each node and hands it to plugins so in-flight work (e.g. an HTTP
+ * request) can be aborted. Cancellation is never retried or handled by a
+ * node's error mode: it always ends the execution.
+ */
+
+import type { ItemRunner } from "./item-execution.js";
+
+/**
+ * Thrown when an execution is cancelled
+ */
+export class ExecutionCancelledError extends Error {
+  constructor(message = "Execution cancelled") {
+    super(message);
+    this.name = "ExecutionCancelledError";
+  }
+}
+
+/**
+ * Check whether an error means the execution was cancelled
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof ExecutionCancelledError;
+}
+
+/**
+ * Throw an ExecutionCancelledError if the signal was aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ExecutionCancelledError();
+  }
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting with an
+ * ExecutionCancelledError if the signal is aborted meanwhile
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ExecutionCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Wrap a runner so it doesn't start once the signal is aborted, and so
+ * failures caused by the abort (e.g. an aborted fetch) surface as
+ * cancellation rather than node errors
+ */
+export function withCancellation(
+  run: ItemRunner,
+  signal?: AbortSignal,
+): ItemRunner {
+  if (!signal) return run;
+
+  return async (itemRun) => {
+    throwIfCancelled(signal);
+    try {
+      return await run(itemRun);
+    } catch (error) {
+      throwIfCancelled(signal);
+      throw error;
+    }
+  };
+}
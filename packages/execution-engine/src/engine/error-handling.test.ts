@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getErrorMode,
+  getErrorOutputs,
+  toExecutionError,
+  withErrorHandling,
+} from "./error-handling.js";
+import { ExecutionCancelledError } from "./cancellation.js";
+import type { Node } from "../types/graph.js";
+
+function createNode(overrides: Partial<Node> = {}): Node {
+  return {
+    id: "risky",
+    pluginId: "http-request",
+    label: "Risky",
+    parameters: {},
+    ...overrides,
+  };
+}
+
+const run = { config: {}, inputs: {} };
+
+describe("getErrorMode", () => {
+  it("should stop by default", () => {
+    expect(getErrorMode(createNode())).toBe("stop");
+    expect(getErrorMode(createNode({ onError: "error-handle" }))).toBe(
+      "error-handle",
+    );
+  });
+});
+
+describe("toExecutionError", () => {
+  it("should keep the message, code and details of errors", () => {
+    const error = Object.assign(new Error("Rate limited"), {
+      code: "RATE_LIMITED",
+      details: { retryAfter: 30 },
+    });
+
+    expect(toExecutionError(error)).toEqual({
+      message: "Rate limited",
+      code: "RATE_LIMITED",
+      details: { retryAfter: 30 },
+    });
+  });
+
+  it("should leave out codes and details that aren't usable", () => {
+    const error = Object.assign(new Error("Failed"), {
+      code: 500,
+      details: null,
+    });
+
+    expect(toExecutionError(error)).toEqual({ message: "Failed" });
+    expect(
+      toExecutionError(Object.assign(new Error("Failed"), { details: "x" })),
+    ).toEqual({ message: "Failed" });
+  });
+
+  it("should convert thrown values that aren't errors", () => {
+    expect(toExecutionError("boom")).toEqual({ message: "boom" });
+    expect(toExecutionError(undefined)).toEqual({ message: "undefined" });
+  });
+});
+
+describe("withErrorHandling", () => {
+  it("should return the runner itself for stop", () => {
+    const runner = vi.fn();
+
+    expect(withErrorHandling(runner, "stop")).toBe(runner);
+  });
+
+  it("should pass through the outputs of successful runs", async () => {
+    const runner = vi.fn().mockResolvedValue({ success: { ok: true } });
+
+    await expect(withErrorHandling(runner, "continue")(run)).resolves.toEqual({
+      success: { ok: true },
+    });
+    expect(runner).toHaveBeenCalledWith(run);
+  });
+
+  it("should put the error on the output handle for continue", async () => {
+    const runner = vi.fn().mockRejectedValue(new Error("Timeout"));
+
+    await expect(withErrorHandling(runner, "continue")(run)).resolves.toEqual({
+      output: { error: { message: "Timeout" } },
+    });
+  });
+
+  it("should route the error to the error handle for error-handle", async () => {
+    const runner = vi
+      .fn()
+      .mockRejectedValue(
+        Object.assign(new Error("Not found"), { code: "NOT_FOUND" }),
+      );
+
+    await expect(
+      withErrorHandling(runner, "error-handle")(run),
+    ).resolves.toEqual({ error: { message: "Not found", code: "NOT_FOUND" } });
+  });
+
+  it("should always propagate cancellation", async () => {
+    const runner = vi.fn().mockRejectedValue(new ExecutionCancelledError());
+
+    await expect(withErrorHandling(runner, "continue")(run)).rejects.toThrow(
+      ExecutionCancelledError,
+    );
+    await expect(
+      withErrorHandling(runner, "error-handle")(run),
+    ).rejects.toThrow(ExecutionCancelledError);
+  });
+});
+
+describe("getErrorOutputs", () => {
+  const error = { message: "Missing credential" };
+
+  it("should output { error } on the output handle for continue", () => {
+    expect(getErrorOutputs("risky", error, "continue")).toEqual([
+      {
+        portName: "output",
+        items: [
+          {
+            data: { error },
+            metadata: { sourceNode: "risky", sourcePort: "output" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should output the error on the error handle for error-handle", () => {
+    expect(getErrorOutputs("risky", error, "error-handle")).toEqual([
+      {
+        portName: "error",
+        items: [
+          {
+            data: error,
+            metadata: { sourceNode: "risky", sourcePort: "error" },
+          },
+        ],
+      },
+    ]);
+  });
+});
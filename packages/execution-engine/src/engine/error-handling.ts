@@ -0,0 +1,101 @@
+/**
+ * Per-node error handling
+ *
+ * Each node decides what happens when its plugin throws:
+ * - stop: the routine fails (default)
+ * - continue: the node succeeds with { error } on its "output" handle
+ * - error-handle: the error is routed to the node's "error" handle
+ *
+ * Errors are handled per run, so with multiple items only the failing
+ * items take the error path. Cancellation always propagates.
+ */
+
+import type { ExecutionError, PortData } from "../types/execution.js";
+import type { Node } from "../types/graph.js";
+import { isCancellationError } from "./cancellation.js";
+import type { ItemRunner } from "./item-execution.js";
+
+/**
+ * What happens when a node's plugin throws
+ */
+export type NodeErrorMode = "stop" | "continue" | "error-handle";
+
+/** Handle carrying the error for nodes set to "error-handle" */
+export const ERROR_HANDLE = "error";
+
+/** Handle carrying { error } for nodes set to "continue" */
+export const CONTINUE_HANDLE = "output";
+
+/**
+ * Get a node's error mode
+ */
+export function getErrorMode(node: Node): NodeErrorMode {
+  return node.onError ?? "stop";
+}
+
+/**
+ * Convert a thrown value to the error passed downstream
+ * (message plus the error's code and details, when it has them)
+ */
+export function toExecutionError(error: unknown): ExecutionError {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+
+  const { code, details } = error as Error & {
+    code?: unknown;
+    details?: unknown;
+  };
+  return {
+    message: error.message,
+    ...(typeof code === "string" && { code }),
+    ...(details !== null &&
+      typeof details === "object" && {
+        details: details as Record<string, unknown>,
+      }),
+  };
+}
+
+/**
+ * Wrap a runner so errors follow the node's error mode instead of
+ * propagating (errors still propagate for "stop")
+ */
+export function withErrorHandling(
+  run: ItemRunner,
+  mode: NodeErrorMode,
+): ItemRunner {
+  if (mode === "stop") return run;
+
+  return async (itemRun) => {
+    try {
+      return await run(itemRun);
+    } catch (error) {
+      if (isCancellationError(error)) throw error;
+      return toErrorOutput(toExecutionError(error), mode);
+    }
+  };
+}
+
+/**
+ * Outputs of a node that failed outside of a plugin run (e.g. missing
+ * credentials), for error modes other than "stop"
+ */
+export function getErrorOutputs(
+  nodeId: string,
+  error: ExecutionError,
+  mode: Exclude<NodeErrorMode, "stop">,
+): PortData[] {
+  return Object.entries(toErrorOutput(error, mode)).map(([portName, data]) => ({
+    portName,
+    items: [{ data, metadata: { sourceNode: nodeId, sourcePort: portName } }],
+  }));
+}
+
+function toErrorOutput(
+  error: ExecutionError,
+  mode: Exclude<NodeErrorMode, "stop">,
+): Record<string, unknown> {
+  return mode === "continue"
+    ? { [CONTINUE_HANDLE]: { error } }
+    : { [ERROR_HANDLE]: error };
+}
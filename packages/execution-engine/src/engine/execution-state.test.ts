@@ -266,6 +266,7 @@ describe("ExecutionState", () => {
 
       state.addNodeResult("node1", result);
       state.setNodeState("node1", { counter: 5 });
+      state.addWaitingTime(1000);
 
       state.clear();
 
@@ -275,6 +276,16 @@ describe("ExecutionState", () => {
       expect(state.nodeResults.size).toBe(0);
       expect(state.nodeOutputs.size).toBe(0);
       expect(state.nodeStates.size).toBe(0);
+      expect(state.waitingTime).toBe(0);
+    });
+  });
+
+  describe("addWaitingTime", () => {
+    it("should add up time spent waiting", () => {
+      state.addWaitingTime(1000);
+      state.addWaitingTime(500);
+
+      expect(state.waitingTime).toBe(1500);
     });
   });
 
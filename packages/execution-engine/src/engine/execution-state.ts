@@ -5,6 +5,7 @@
  * - Results from each node execution
  * - Node-specific persistent state
  * - Execution path with run indexes
+ * - Time spent waiting for input (e.g. approvals)
  */
 
 import type {
@@ -27,6 +28,19 @@ export class ExecutionState {
   /** Node outputs for data flow (latest output only) */
   public readonly nodeOutputs = new Map<string, PortData[]>();
 
+  /**
+   * Time spent waiting on people or external input, in milliseconds.
+   * Not counted toward the execution time limit.
+   */
+  public waitingTime = 0;
+
+  /**
+   * Record time a node spent waiting for input
+   */
+  addWaitingTime(ms: number): void {
+    this.waitingTime += ms;
+  }
+
   /**
    * Add a node execution result
    */
@@ -44,6 +58,18 @@ export class ExecutionState {
     this.executionPath.push({ nodeId, runIndex });
   }
 
+  /**
+   * Seed a node's outputs from an earlier execution (when re-running from a
+   * node downstream of it). Seeded nodes feed data to the nodes that run,
+   * but aren't part of this execution's path.
+   */
+  seedNodeOutputs(nodeId: string, outputs: PortData[]): void {
+    this.nodeResults.set(nodeId, [
+      { outputs, executionTime: 0, status: "success" },
+    ]);
+    this.nodeOutputs.set(nodeId, outputs);
+  }
+
   /**
    * Get the run index for a node (how many times it has executed)
    */
@@ -59,6 +85,17 @@ export class ExecutionState {
     return this.getRunIndex(nodeId) > 0;
   }
 
+  /**
+   * Get the position of a node's latest run in the execution path
+   * (-1 if it hasn't run)
+   */
+  getLastPathIndex(nodeId: string): number {
+    for (let i = this.executionPath.length - 1; i >= 0; i--) {
+      if (this.executionPath[i]?.nodeId === nodeId) return i;
+    }
+    return -1;
+  }
+
   /**
    * Get the latest result for a node
    */
@@ -132,6 +169,7 @@ export class ExecutionState {
     this.executionPath.length = 0;
     this.nodeStates.clear();
     this.nodeOutputs.clear();
+    this.waitingTime = 0;
   }
 
   /**
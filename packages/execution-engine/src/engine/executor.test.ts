@@ -462,6 +462,487 @@ describe("RoutineExecutor", () => {
   });
 });
 
+describe("RoutineExecutor - Error Handling", () => {
+  const failingPlugin: Plugin = {
+    execute: async () => {
+      throw Object.assign(new Error("Rate limited"), {
+        code: "RATE_LIMIT",
+        details: { retryAfter: 30 },
+      });
+    },
+    getId: () => "failing-plugin",
+    getMetadata: () => ({
+      id: "failing-plugin",
+      name: "Failing Plugin",
+      description: "A failing plugin",
+      version: "1.0.0",
+      tags: ["test"],
+    }),
+  };
+
+  const echoPlugin: Plugin = {
+    execute: async (inputs) => ({ output: inputs.input ?? { ok: true } }),
+    getId: () => "echo-plugin",
+    getMetadata: () => ({
+      id: "echo-plugin",
+      name: "Echo Plugin",
+      description: "Echoes its input",
+      version: "1.0.0",
+      tags: ["test"],
+    }),
+  };
+
+  const registry: PluginRegistry = {
+    getPlugin: (id) =>
+      ({ "failing-plugin": failingPlugin, "echo-plugin": echoPlugin })[id],
+    createPluginInstance: (id) =>
+      ({ "failing-plugin": failingPlugin, "echo-plugin": echoPlugin })[id],
+  };
+
+  function createRoutine(
+    onError: Node["onError"],
+    pluginId = "failing-plugin",
+  ): RoutineDefinition {
+    return {
+      id: "test-routine",
+      name: "Error Handling Routine",
+      nodes: [
+        {
+          id: "start",
+          pluginId: "echo-plugin",
+          label: "Start",
+          parameters: {},
+        },
+        {
+          id: "risky",
+          pluginId,
+          label: "Risky",
+          parameters: {},
+          onError,
+          retry: { maxAttempts: 1 },
+        },
+        {
+          id: "onOutput",
+          pluginId: "echo-plugin",
+          label: "On Output",
+          parameters: {},
+        },
+        {
+          id: "onError",
+          pluginId: "echo-plugin",
+          label: "On Error",
+          parameters: {},
+        },
+      ],
+      connections: [
+        {
+          id: "e1",
+          sourceNodeId: "start",
+          sourceHandle: "output",
+          targetNodeId: "risky",
+        },
+        {
+          id: "e2",
+          sourceNodeId: "risky",
+          sourceHandle: "output",
+          targetNodeId: "onOutput",
+        },
+        {
+          id: "e3",
+          sourceNodeId: "risky",
+          sourceHandle: "error",
+          targetNodeId: "onError",
+        },
+      ],
+    };
+  }
+
+  it("should stop the routine by default", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    await expect(executor.execute(createRoutine(undefined))).rejects.toThrow(
+      "Rate limited",
+    );
+  });
+
+  it("should continue with the error as output", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    const result = await executor.execute(createRoutine("continue"));
+
+    expect(result.status).toBe("completed");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "start",
+      "risky",
+      "onOutput",
+    ]);
+    expect(
+      result.nodeResults.get("onOutput")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({
+      error: {
+        message: "Rate limited",
+        code: "RATE_LIMIT",
+        details: { retryAfter: 30 },
+      },
+    });
+  });
+
+  it("should route the error to the error handle", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    const result = await executor.execute(createRoutine("error-handle"));
+
+    expect(result.status).toBe("completed");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "start",
+      "risky",
+      "onError",
+    ]);
+    expect(
+      result.nodeResults.get("onError")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({
+      message: "Rate limited",
+      code: "RATE_LIMIT",
+      details: { retryAfter: 30 },
+    });
+  });
+
+  it("should handle errors raised before the plugin runs", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    const result = await executor.execute(
+      createRoutine("error-handle", "missing-plugin"),
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.nodeResults.get("risky")?.[0]?.error).toEqual({
+      message: "Plugin not found: missing-plugin",
+    });
+    expect(
+      result.nodeResults.get("onError")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({ message: "Plugin not found: missing-plugin" });
+  });
+});
+
+describe("RoutineExecutor - Cancellation", () => {
+  function createRegistry(controller: AbortController): PluginRegistry {
+    // "first" cancels the execution while a fetch-like request is in flight
+    const plugin: Plugin = {
+      execute: async (_inputs, config, context) => {
+        if ((config as { cancel?: boolean }).cancel) {
+          const request = new Promise((_, reject) =>
+            context.signal?.addEventListener("abort", () =>
+              reject(new Error("This operation was aborted")),
+            ),
+          );
+          controller.abort();
+          await request;
+        }
+        return { output: { ok: true } };
+      },
+      getId: () => "cancellable-plugin",
+      getMetadata: () => ({
+        id: "cancellable-plugin",
+        name: "Cancellable Plugin",
+        description: "Cancels the execution when configured to",
+        version: "1.0.0",
+        tags: ["test"],
+      }),
+    };
+    return {
+      getPlugin: () => plugin,
+      createPluginInstance: () => plugin,
+    };
+  }
+
+  function createRoutine(onError?: Node["onError"]): RoutineDefinition {
+    return {
+      id: "test-routine",
+      name: "Cancellation Routine",
+      nodes: [
+        {
+          id: "start",
+          pluginId: "cancellable-plugin",
+          label: "Start",
+          parameters: {},
+        },
+        {
+          id: "request",
+          pluginId: "cancellable-plugin",
+          label: "Request",
+          parameters: { cancel: true },
+          onError,
+        },
+        {
+          id: "after",
+          pluginId: "cancellable-plugin",
+          label: "After",
+          parameters: {},
+        },
+      ],
+      connections: [
+        { id: "e1", sourceNodeId: "start", targetNodeId: "request" },
+        { id: "e2", sourceNodeId: "request", targetNodeId: "after" },
+      ],
+    };
+  }
+
+  it("should stop and report the nodes that never ran", async () => {
+    const controller = new AbortController();
+    const executor = new RoutineExecutor(createRegistry(controller), {
+      signal: controller.signal,
+    });
+
+    const result = await executor.execute(createRoutine());
+
+    expect(result.status).toBe("cancelled");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual(["start"]);
+    expect(result.skippedNodes).toEqual(["request", "after"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should not route cancellation to the error handle", async () => {
+    const controller = new AbortController();
+    const executor = new RoutineExecutor(createRegistry(controller), {
+      signal: controller.signal,
+    });
+
+    const result = await executor.execute(createRoutine("continue"));
+
+    expect(result.status).toBe("cancelled");
+    expect(result.skippedNodes).toEqual(["request", "after"]);
+  });
+
+  it("should not start when already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const executor = new RoutineExecutor(createRegistry(controller), {
+      signal: controller.signal,
+    });
+
+    const result = await executor.execute(createRoutine());
+
+    expect(result.status).toBe("cancelled");
+    expect(result.skippedNodes).toEqual(["start", "request", "after"]);
+  });
+});
+
+describe("RoutineExecutor - Re-run from a node", () => {
+  const calls: string[] = [];
+
+  const recordingPlugin: Plugin = {
+    execute: async (inputs, _config, context) => {
+      calls.push(context.nodeId);
+      return { output: { from: context.nodeId, input: inputs.input } };
+    },
+    getId: () => "recording-plugin",
+    getMetadata: () => ({
+      id: "recording-plugin",
+      name: "Recording Plugin",
+      description: "Records which nodes ran",
+      version: "1.0.0",
+      tags: ["test"],
+    }),
+  };
+
+  const registry: PluginRegistry = {
+    getPlugin: () => recordingPlugin,
+    createPluginInstance: () => recordingPlugin,
+  };
+
+  const routine: RoutineDefinition = {
+    id: "test-routine",
+    name: "Re-run Routine",
+    nodes: ["fetch", "summarize", "notify"].map((id) => ({
+      id,
+      pluginId: "recording-plugin",
+      label: id,
+      parameters: {},
+    })),
+    connections: [
+      { id: "e1", sourceNodeId: "fetch", targetNodeId: "summarize" },
+      { id: "e2", sourceNodeId: "summarize", targetNodeId: "notify" },
+    ],
+  };
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it("should only run the start node and its downstream nodes", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    const result = await executor.execute(
+      routine,
+      {},
+      {
+        startNodeId: "summarize",
+        nodeOutputs: {
+          fetch: [
+            {
+              portName: "output",
+              items: [{ data: { cached: true }, metadata: {} }],
+            },
+          ],
+        },
+      },
+    );
+
+    expect(result.status).toBe("completed");
+    expect(calls).toEqual(["summarize", "notify"]);
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "summarize",
+      "notify",
+    ]);
+    expect(
+      result.nodeResults.get("summarize")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({ from: "summarize", input: { cached: true } });
+  });
+});
+
+describe("RoutineExecutor - Pinned data", () => {
+  const execute = vi.fn(async (inputs: Record<string, unknown>) => ({
+    output: { received: inputs.input ?? null },
+  }));
+
+  const plugin: Plugin = {
+    execute,
+    getId: () => "echo-plugin",
+    getMetadata: () => ({
+      id: "echo-plugin",
+      name: "Echo Plugin",
+      description: "Echoes its input",
+      version: "1.0.0",
+      tags: ["test"],
+    }),
+  };
+
+  const registry: PluginRegistry = {
+    getPlugin: () => plugin,
+    createPluginInstance: () => plugin,
+  };
+
+  const routine: RoutineDefinition = {
+    id: "test-routine",
+    name: "Pinned Routine",
+    nodes: [
+      {
+        id: "fetch",
+        pluginId: "echo-plugin",
+        label: "Fetch",
+        parameters: {},
+        pinnedData: { output: { sample: true } },
+      },
+      { id: "use", pluginId: "echo-plugin", label: "Use", parameters: {} },
+    ],
+    connections: [{ id: "e1", sourceNodeId: "fetch", targetNodeId: "use" }],
+  };
+
+  beforeEach(() => {
+    execute.mockClear();
+  });
+
+  it("should emit pinned data instead of running pinned nodes", async () => {
+    const executor = new RoutineExecutor(registry, { usePinnedData: true });
+
+    const result = await executor.execute(routine);
+
+    expect(result.status).toBe("completed");
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(
+      result.nodeResults.get("use")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({ received: { sample: true } });
+  });
+
+  it("should ignore pinned data unless enabled", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    await executor.execute(routine);
+
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RoutineExecutor - Wait nodes", () => {
+  const execute = vi.fn(async (inputs: Record<string, unknown>) => ({
+    output: { received: inputs.input ?? null },
+  }));
+
+  const plugin: Plugin = {
+    execute,
+    getId: () => "echo-plugin",
+    getMetadata: () => ({
+      id: "echo-plugin",
+      name: "Echo Plugin",
+      description: "Echoes its input",
+      version: "1.0.0",
+      tags: ["test"],
+    }),
+  };
+
+  const registry: PluginRegistry = {
+    getPlugin: () => plugin,
+    createPluginInstance: () => plugin,
+  };
+
+  function createWaitRoutine(amount: number): RoutineDefinition {
+    return {
+      id: "test-routine",
+      name: "Wait Routine",
+      nodes: [
+        {
+          id: "fetch",
+          pluginId: "echo-plugin",
+          label: "Fetch",
+          parameters: {},
+        },
+        {
+          id: "wait",
+          pluginId: "wait",
+          label: "Wait",
+          parameters: { mode: "duration", amount, unit: "seconds" },
+        },
+        { id: "use", pluginId: "echo-plugin", label: "Use", parameters: {} },
+      ],
+      connections: [
+        { id: "e1", sourceNodeId: "fetch", targetNodeId: "wait" },
+        { id: "e2", sourceNodeId: "wait", targetNodeId: "use" },
+      ],
+    };
+  }
+
+  beforeEach(() => {
+    execute.mockClear();
+  });
+
+  it("should wait, then pass input items on without running a plugin", async () => {
+    const executor = new RoutineExecutor(registry);
+
+    const startTime = Date.now();
+    const result = await executor.execute(createWaitRoutine(0.05));
+
+    expect(result.status).toBe("completed");
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(
+      result.nodeResults.get("use")?.[0]?.outputs[0]?.items[0]?.data,
+    ).toEqual({ received: { received: null } });
+  });
+
+  it("should stop waiting when cancelled", async () => {
+    const controller = new AbortController();
+    const executor = new RoutineExecutor(registry, {
+      signal: controller.signal,
+    });
+
+    setTimeout(() => controller.abort(), 20);
+    const result = await executor.execute(createWaitRoutine(60));
+
+    expect(result.status).toBe("cancelled");
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe("RoutineExecutor - Plugin Execution (Integration)", () => {
   // These tests would require a real plugin implementation
   // For now, we document the expected behavior
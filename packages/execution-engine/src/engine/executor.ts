@@ -6,14 +6,20 @@
  * - Parallel execution
  * - Loop nodes
  * - Data lineage tracking
+ * - Cancellation through an AbortSignal
+ * - Re-running from a node with an earlier execution's outputs
+ * - Pinned sample data for test runs
+ * - Wait nodes (delays that don't count toward the time limit)
  */
 
+import type { CodeSandbox } from "@kianax/plugin-sdk";
 import type {
   ExecutionCallbacks,
   ExecutionResult,
   ExecutorOptions,
   NodeExecutionResult,
   PortData,
+  RerunOptions,
 } from "../types/execution";
 import type {
   Edge,
@@ -28,10 +34,25 @@ import {
   getDefaultIterationStrategy,
   type IterationStrategy,
 } from "./iteration-strategy";
+import type { ExpressionContext } from "./expression-resolver";
+import { getLoopContext } from "./loop";
+import { executeForItems, type ItemExecutionMode } from "./item-execution";
 import {
-  ExpressionResolver,
-  type ExpressionContext,
-} from "./expression-resolver";
+  getErrorMode,
+  getErrorOutputs,
+  toExecutionError,
+  withErrorHandling,
+} from "./error-handling";
+import { withRetry } from "./retry";
+import {
+  delay,
+  isCancellationError,
+  throwIfCancelled,
+  withCancellation,
+} from "./cancellation";
+import { seedRerunState } from "./rerun";
+import { getPinnedOutputs } from "./pinned-data";
+import { getWaitOutput, getWaitUntil, isWaitNode } from "./wait";
 
 /**
  * Plugin interface (from @kianax/plugin-sdk)
@@ -64,6 +85,14 @@ export interface PluginContext {
    */
   credentials?: Record<string, unknown>;
   triggerData?: unknown;
+  /** Routine variables */
+  variables?: Record<string, unknown>;
+  /** Aborted when the execution is cancelled */
+  signal?: AbortSignal;
+  /** Runs user code for plugins such as the code plugin */
+  sandbox?: CodeSandbox;
+  /** Batch runs: the node's config resolved for each input item */
+  itemConfigs?: Record<string, unknown>[];
 }
 
 /**
@@ -76,6 +105,8 @@ export interface PluginMetadata {
   version: string;
   tags: string[];
   credentialRequirements?: { id: string; alias?: string; required?: boolean }[];
+  /** How the plugin runs for multiple input items (default "per-item") */
+  executionMode?: ItemExecutionMode;
 }
 
 /**
@@ -118,11 +149,12 @@ export class RoutineExecutor {
   private readonly options: ExecutorOptions;
 
   /**
-   * Execute a routine
+   * Execute a routine, or only part of it when re-running from a node
    */
   async execute(
     routine: RoutineDefinition,
     callbacks: ExecutionCallbacks = {},
+    rerun?: RerunOptions,
   ): Promise<ExecutionResult> {
     // Initialize execution metadata
     this.executionId = `exec-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
@@ -140,17 +172,37 @@ export class RoutineExecutor {
     const graph = this.buildExecutionGraph(routine);
     const state = new ExecutionState();
 
+    // Reuse earlier outputs for the nodes that don't run again
+    if (rerun) {
+      seedRerunState(graph, state, rerun);
+    }
+
     // Execute graph using the configured iteration strategy
-    await this.iterationStrategy.execute(
-      graph,
-      state,
-      (nodeId) => this.executeNode(nodeId, graph, state, callbacks),
-      {
-        maxExecutionTime: this.options.maxExecutionTime,
-        maxExecutions: this.options.maxNodes, // Renamed for clarity
-        verbose: this.options.verbose,
-      },
-    );
+    try {
+      await this.iterationStrategy.execute(
+        graph,
+        state,
+        (nodeId) => this.executeNode(nodeId, graph, state, callbacks),
+        {
+          maxExecutionTime: this.options.maxExecutionTime,
+          maxExecutions: this.options.maxNodes, // Renamed for clarity
+          verbose: this.options.verbose,
+          startNodeIds: rerun && [rerun.startNodeId],
+        },
+      );
+    } catch (error) {
+      if (!isCancellationError(error)) throw error;
+
+      return {
+        status: "cancelled",
+        nodeResults: state.nodeResults,
+        executionPath: state.executionPath,
+        errors: state.getErrors(),
+        skippedNodes: routine.nodes
+          .map((node) => node.id)
+          .filter((nodeId) => !state.hasExecuted(nodeId)),
+      };
+    }
 
     return {
       status: state.hasErrors() ? "failed" : "completed",
@@ -221,6 +273,8 @@ export class RoutineExecutor {
       throw new Error(`Node not found: ${nodeId}`);
     }
 
+    throwIfCancelled(this.options.signal);
+
     // Call onNodeStart callback
     await callbacks.onNodeStart?.(nodeId);
 
@@ -234,15 +288,24 @@ export class RoutineExecutor {
       const nodeState = state.getNodeState(nodeId);
       const runIndex = state.getRunIndex(nodeId);
 
-      // Execute plugin (will be delegated to plugin registry)
-      const outputs = await this.executePlugin(
-        node,
-        inputs,
-        nodeState,
-        runIndex,
-        graph,
-        state,
-      );
+      // Execute plugin (will be delegated to plugin registry), or emit the
+      // node's pinned data in test runs. Wait nodes wait instead of running
+      // their plugin.
+      const pinnedOutputs = this.options.usePinnedData
+        ? getPinnedOutputs(node)
+        : undefined;
+      const outputs =
+        pinnedOutputs ??
+        (isWaitNode(node)
+          ? await this.executeWait(node, inputs, graph, state)
+          : await this.executePlugin(
+              node,
+              inputs,
+              nodeState,
+              runIndex,
+              graph,
+              state,
+            ));
 
       // Create result
       const result: NodeExecutionResult = {
@@ -257,8 +320,26 @@ export class RoutineExecutor {
       // Call onNodeComplete callback
       await callbacks.onNodeComplete?.(nodeId, result);
     } catch (error) {
+      // Cancellation ends the execution without failing the node
+      if (isCancellationError(error)) throw error;
+
       const err = error as Error;
 
+      // Keep going when the node handles its own errors
+      const errorMode = getErrorMode(node);
+      if (errorMode !== "stop") {
+        const executionError = toExecutionError(err);
+        const result: NodeExecutionResult = {
+          outputs: getErrorOutputs(nodeId, executionError, errorMode),
+          executionTime: Date.now() - startTime,
+          status: "success",
+          error: executionError,
+        };
+        state.addNodeResult(nodeId, result);
+        await callbacks.onNodeComplete?.(nodeId, result);
+        return;
+      }
+
       // Create error result
       const result: NodeExecutionResult = {
         outputs: [],
@@ -340,24 +421,7 @@ export class RoutineExecutor {
     }
 
     // Build expression context for resolving variables
-    const expressionContext: ExpressionContext = {
-      nodes: state.nodeOutputs,
-      vars: graph.variables,
-      trigger: graph.triggerData,
-      execution: {
-        id: this.executionId,
-        routineId: graph.routineId,
-        startedAt: this.startedAt,
-      },
-    };
-
-    // Resolve expressions in node parameters
-    const resolver = new ExpressionResolver(expressionContext);
-    const resolvedParameters = resolver.resolve(node.parameters);
-
-    // Transform inputs from PortData[] to Record<string, any>
-    // For each port, we take the first item's data (plugins work with single items)
-    const pluginInputs = this.transformInputsToPlugin(inputs);
+    const expressionContext = this.getExpressionContext(node, graph, state);
 
     // Create plugin context
     const context: PluginContext = {
@@ -366,73 +430,89 @@ export class RoutineExecutor {
       executionId: this.executionId,
       nodeId: node.id,
       triggerData: graph.triggerData,
+      variables: graph.variables,
       credentials,
+      signal: this.options.signal,
+      sandbox: this.options.sandbox,
     };
 
-    // Execute plugin with resolved parameters
-    const pluginOutputs = await plugin.execute(
-      pluginInputs,
-      resolvedParameters,
-      context,
-      nodeState,
+    // Run the plugin once per input item (or once for all items in batch
+    // mode), resolving expressions relative to each item. Runs are retried
+    // following the node's policy, then failures follow its error mode.
+    // Cancellation skips both.
+    return executeForItems(
+      node.id,
+      node.parameters,
+      inputs,
+      plugin.getMetadata().executionMode ?? "per-item",
+      expressionContext,
+      withErrorHandling(
+        withRetry(
+          withCancellation(
+            ({ config, inputs: pluginInputs, itemConfigs, signal }) =>
+              plugin.execute(
+                pluginInputs,
+                config,
+                { ...context, itemConfigs, signal },
+                nodeState,
+              ),
+            this.options.signal,
+          ),
+          node,
+          this.options.signal,
+        ),
+        getErrorMode(node),
+      ),
     );
-
-    // Transform outputs from Record<string, any> to PortData[]
-    return this.transformOutputsFromPlugin(pluginOutputs, node.id);
   }
 
   /**
-   * Transform execution-engine inputs (PortData[]) to plugin inputs (Record<string, any>)
+   * Wait until the wait node's wake-up time, then pass its input items on.
+   * Time spent waiting doesn't count toward the execution's time limit.
    */
-  private transformInputsToPlugin(inputs: PortData[]): Record<string, unknown> {
-    const result: Record<string, unknown> = {};
-
-    for (const portData of inputs) {
-      // For now, we take the first item's data from each port
-      // TODO: Handle multiple items (batching, array inputs, etc.)
-      if (portData.items.length > 0) {
-        const firstItem = portData.items[0];
-        result[portData.portName] = firstItem?.data;
-      }
-    }
-
-    return result;
+  private async executeWait(
+    node: Node,
+    inputs: PortData[],
+    graph: ExecutionGraph,
+    state: ExecutionState,
+  ): Promise<PortData[]> {
+    return executeForItems(
+      node.id,
+      node.parameters,
+      inputs,
+      "batch",
+      this.getExpressionContext(node, graph, state),
+      withErrorHandling(async ({ config, inputs: waitInputs }) => {
+        const waitStart = Date.now();
+        const until = getWaitUntil(config, waitStart);
+        try {
+          await delay(until - waitStart, this.options.signal);
+        } finally {
+          state.addWaitingTime(Date.now() - waitStart);
+        }
+        return getWaitOutput(waitInputs, until);
+      }, getErrorMode(node)),
+    );
   }
 
   /**
-   * Transform plugin outputs (Record<string, any>) to execution-engine outputs (PortData[])
+   * Expression context for resolving a node's parameters
    */
-  private transformOutputsFromPlugin(
-    outputs: Record<string, unknown>,
-    sourceNodeId: string,
-  ): PortData[] {
-    const result: PortData[] = [];
-
-    for (const [portName, value] of Object.entries(outputs)) {
-      // Skip undefined/null outputs
-      if (value === undefined || value === null) {
-        result.push({
-          portName,
-          items: [],
-        });
-        continue;
-      }
-
-      // Wrap the plugin output in an ExecutionItem
-      result.push({
-        portName,
-        items: [
-          {
-            data: value,
-            metadata: {
-              sourceNode: sourceNodeId,
-              sourcePort: portName,
-            },
-          },
-        ],
-      });
-    }
-
-    return result;
+  private getExpressionContext(
+    node: Node,
+    graph: ExecutionGraph,
+    state: ExecutionState,
+  ): ExpressionContext {
+    return {
+      nodes: state.nodeOutputs,
+      vars: graph.variables,
+      trigger: graph.triggerData,
+      execution: {
+        id: this.executionId,
+        routineId: graph.routineId,
+        startedAt: this.startedAt,
+      },
+      loop: getLoopContext(node.id, graph, state),
+    };
   }
 }
@@ -178,6 +178,76 @@ describe("ExpressionResolver", () => {
       });
     });
 
+    describe("current item", () => {
+      beforeEach(() => {
+        context.nodes.set("split_1", [
+          {
+            portName: "output",
+            items: [
+              { data: { name: "first" }, metadata: {} },
+              { data: { name: "second" }, metadata: {} },
+            ],
+          },
+        ]);
+        context.nodes.set("enrich_1", [
+          {
+            portName: "output",
+            items: [
+              { data: { score: 1 }, metadata: { lineage: { split_1: 0 } } },
+              { data: { score: 2 }, metadata: { lineage: { split_1: 1 } } },
+            ],
+          },
+        ]);
+      });
+
+      it("should resolve the item the current item came from", () => {
+        const itemResolver = new ExpressionResolver({
+          ...context,
+          item: {
+            data: { score: 2 },
+            metadata: {
+              sourceNode: "enrich_1",
+              sourcePort: "output",
+              sourceItemIndex: 1,
+              lineage: { split_1: 1 },
+            },
+          },
+        });
+
+        expect(itemResolver.resolve("{{ nodes.enrich_1.output.score }}")).toBe(
+          2,
+        );
+      });
+
+      it("should follow lineage to items further upstream", () => {
+        const itemResolver = new ExpressionResolver({
+          ...context,
+          item: {
+            data: { score: 2 },
+            metadata: {
+              sourceNode: "enrich_1",
+              sourcePort: "output",
+              sourceItemIndex: 1,
+              lineage: { split_1: 1 },
+            },
+          },
+        });
+
+        expect(itemResolver.resolve("{{ nodes.split_1.output.name }}")).toBe(
+          "second",
+        );
+        expect(itemResolver.resolve("{{ nodes.split_1 }}")).toEqual({
+          output: { name: "second" },
+        });
+      });
+
+      it("should fall back to the first item without lineage", () => {
+        expect(resolver.resolve("{{ nodes.split_1.output.name }}")).toBe(
+          "first",
+        );
+      });
+    });
+
     describe("trigger expressions", () => {
       it("should resolve trigger data", () => {
         expect(resolver.resolve("{{ trigger.type }}")).toBe("webhook");
@@ -329,6 +399,82 @@ describe("ExpressionResolver", () => {
       });
     });
 
+    describe("operators and functions", () => {
+      it("should evaluate arithmetic", () => {
+        expect(resolver.resolve("{{ vars.maxRetries + 1 }}")).toBe(4);
+        expect(resolver.resolve("{{ vars.config.timeout / 1000 * 2 }}")).toBe(
+          10,
+        );
+        expect(resolver.resolve("{{ (vars.maxRetries + 1) % 3 }}")).toBe(1);
+      });
+
+      it("should evaluate comparisons and logical operators", () => {
+        expect(
+          resolver.resolve(
+            "{{ nodes.http_1.success.status >= 200 && vars.debug }}",
+          ),
+        ).toBe(true);
+        expect(resolver.resolve("{{ trigger.type != 'webhook' }}")).toBe(false);
+        expect(resolver.resolve("{{ vars.unknown || 'fallback' }}")).toBe(
+          "fallback",
+        );
+      });
+
+      it("should evaluate ternaries", () => {
+        expect(
+          resolver.resolve(
+            "{{ vars.maxRetries > 2 ? 'many' : 'few' }} retries",
+          ),
+        ).toBe("many retries");
+      });
+
+      it("should call functions directly and as pipes", () => {
+        expect(
+          resolver.resolve("{{ nodes.http_1.success.body.name | upper }}"),
+        ).toBe("TEST ITEM");
+        expect(
+          resolver.resolve("{{ nodes.http_1.success.body.tags | join('-') }}"),
+        ).toBe("a-b-c");
+        expect(resolver.resolve("{{ round(10 / 3, 2) }}")).toBe(3.33);
+        expect(
+          resolver.resolve("{{ vars.unknown | default('none') | upper }}"),
+        ).toBe("NONE");
+      });
+
+      it("should evaluate string and array literals", () => {
+        expect(resolver.resolve("{{ ['a', vars.maxRetries] }}")).toEqual([
+          "a",
+          3,
+        ]);
+        expect(resolver.resolve("{{ 'id: ' + trigger.payload.userId }}")).toBe(
+          "id: user-789",
+        );
+      });
+
+      it("should resolve bracket access and hyphenated node IDs", () => {
+        context.nodes.set("node-123", context.nodes.get("http_1")!);
+        expect(
+          resolver.resolve("{{ nodes.node-123.success.body.tags[2] }}"),
+        ).toBe("c");
+        expect(resolver.resolve("{{ vars.config.headers['X-Custom'] }}")).toBe(
+          "value",
+        );
+      });
+
+      it("should not expose prototype properties", () => {
+        expect(resolver.resolve("{{ vars.constructor }}")).toBe(undefined);
+        expect(resolver.resolve("{{ vars.config.__proto__ }}")).toBe(undefined);
+      });
+
+      it("should resolve invalid expressions to undefined", () => {
+        expect(resolver.resolve("{{ vars.maxRetries + }}")).toBe(undefined);
+        expect(resolver.resolve("{{ vars.apiUrl | unknownFn }}")).toBe(
+          undefined,
+        );
+        expect(resolver.resolve("{{ vars.apiUrl * 2 }}")).toBe(undefined);
+      });
+    });
+
     describe("edge cases", () => {
       it("should handle whitespace in expressions", () => {
         expect(resolver.resolve("{{  vars.apiUrl  }}")).toBe(
@@ -428,6 +574,28 @@ describe("ExpressionResolver", () => {
       expect(refs).toHaveLength(2);
     });
 
+    it("should extract references inside operators and function calls", () => {
+      const refs = resolver.extractReferences(
+        "{{ nodes.http_1.success.count > 0 ? vars.label : default(trigger.name, 'x') }}",
+      );
+      expect(refs.map((ref) => [ref.source, ...ref.path])).toEqual([
+        ["nodes", "http_1", "success", "count"],
+        ["vars", "label"],
+        ["trigger", "name"],
+      ]);
+    });
+
+    it("should split array indices into path segments", () => {
+      const refs = resolver.extractReferences(
+        "{{ nodes.loop_1.output[0].id }}",
+      );
+      expect(refs[0]).toMatchObject({
+        path: ["loop_1", "output", "0", "id"],
+        nodeId: "loop_1",
+        portName: "output",
+      });
+    });
+
     it("should return empty array for no references", () => {
       const refs = resolver.extractReferences("no expressions here");
       expect(refs).toHaveLength(0);
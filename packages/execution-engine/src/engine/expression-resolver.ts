@@ -1,15 +1,32 @@
 /**
  * Expression Resolver for Variable System
  *
- * Resolves expressions like {{ nodes.http_1.success.data }} in node configurations.
+ * Resolves expressions like {{ nodes.http_1.success.data }} in node configurations,
+ * with operators, function calls and pipes ({{ vars.count + 1 }},
+ * {{ nodes.http_1.success.name | upper }}; see @kianax/shared/expressions).
  * Supports multiple variable sources:
  * - nodes: Access outputs from previously executed nodes
  * - vars: Access routine-level variables
  * - trigger: Access trigger data
  * - execution: Access execution metadata
+ * - $item / $iteration: Current loop item and iteration, inside a loop body
  */
 
-import type { PortData } from "../types/execution.js";
+import {
+  collectReferences,
+  containsExpressions,
+  evaluate,
+  ExpressionError,
+  type ExpressionNode,
+  type ExpressionReference,
+  type ExpressionScope,
+  type ExpressionSource,
+  findExpressions,
+  parseExpression,
+  renderTemplate,
+} from "@kianax/shared/expressions";
+import type { ExecutionItem, PortData } from "../types/execution.js";
+import type { LoopContext } from "./loop.js";
 
 /**
  * Context for expression resolution
@@ -27,14 +44,21 @@ export interface ExpressionContext {
     routineId: string;
     startedAt: number;
   };
+  /** Innermost loop around the node, if it runs inside a loop body */
+  loop?: LoopContext;
+  /**
+   * Input item the node is running for. Node references resolve to the
+   * item paired with it (via lineage) instead of the first item.
+   */
+  item?: ExecutionItem;
 }
 
 /**
  * Reference to a variable in an expression
  */
 export interface VariableReference {
-  /** The source type (nodes, vars, trigger, execution) */
-  source: "nodes" | "vars" | "trigger" | "execution";
+  /** The source type (nodes, vars, trigger, execution, $item, $iteration) */
+  source: ExpressionSource;
   /** The full path after the source */
   path: string[];
   /** The original expression string */
@@ -45,17 +69,6 @@ export interface VariableReference {
   portName?: string;
 }
 
-/**
- * Expression pattern: {{ source.path.to.value }}
- * Captures the content between {{ and }}
- */
-const EXPRESSION_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
-
-/**
- * Valid source types for expressions
- */
-const VALID_SOURCES = ["nodes", "vars", "trigger", "execution"] as const;
-
 export class ExpressionResolver {
   constructor(private context: ExpressionContext) {}
 
@@ -94,186 +107,109 @@ export class ExpressionResolver {
    * If the string contains multiple expressions or mixed content, returns a string.
    */
   private resolveString(value: string): unknown {
-    // Check if the entire string is a single expression
-    const trimmed = value.trim();
-    const singleExprMatch = trimmed.match(/^\{\{\s*([^}]+?)\s*\}\}$/);
-
-    if (singleExprMatch?.[1]) {
-      // Single expression - return the resolved value directly (preserves type)
-      return this.resolveExpression(singleExprMatch[1]);
-    }
-
-    // Multiple expressions or mixed content - interpolate as string
-    return value.replace(EXPRESSION_PATTERN, (_match, expr) => {
-      const resolved = this.resolveExpression(expr);
-      if (resolved === undefined || resolved === null) {
-        return "";
-      }
-      if (typeof resolved === "object") {
-        return JSON.stringify(resolved);
-      }
-      return String(resolved);
-    });
+    return renderTemplate(value, (expression) =>
+      this.resolveExpression(expression.source),
+    );
   }
 
   /**
-   * Resolve a single expression (without the {{ }} delimiters)
+   * Resolve a single expression (without the {{ }} delimiters).
+   * Invalid expressions resolve to undefined, with a warning.
    */
   private resolveExpression(expr: string): unknown {
-    const parts = expr.trim().split(".");
-    if (parts.length === 0) {
-      return undefined;
-    }
-
-    const source = parts[0] as (typeof VALID_SOURCES)[number];
-    if (!VALID_SOURCES.includes(source)) {
-      console.warn(`Unknown expression source: ${source}`);
-      return undefined;
-    }
-
-    const path = parts.slice(1);
-
-    switch (source) {
-      case "nodes":
-        return this.resolveNodeReference(path);
-      case "vars":
-        return this.resolveVarsReference(path);
-      case "trigger":
-        return this.resolvePath(this.context.trigger, path);
-      case "execution":
-        return this.resolvePath(this.context.execution, path);
-      default:
+    try {
+      const node = parseExpression(expr);
+      const references = collectReferences(node);
+      this.warnMissingNodes(references);
+      return evaluate(node, this.getScope(references));
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        console.warn(`Invalid expression "${expr}": ${error.message}`);
         return undefined;
+      }
+      throw error;
     }
   }
 
   /**
-   * Resolve a node output reference
-   * Path format: nodeId.portName.path.to.value
+   * Values of the sources for an expression's references. Node outputs hold,
+   * for each port, the item paired with the current item.
    */
-  private resolveNodeReference(path: string[]): unknown {
-    if (path.length < 1) {
-      console.warn("Node reference requires at least a node ID");
-      return undefined;
-    }
-
-    const nodeId = path[0]!;
-    const nodeOutputs = this.context.nodes.get(nodeId);
-
-    if (!nodeOutputs) {
-      console.warn(`Node output not found: ${nodeId}`);
-      return undefined;
-    }
-
-    // If only nodeId provided, return all outputs as an object
-    if (path.length === 1) {
-      const result: Record<string, unknown> = {};
+  private getScope(references: ExpressionReference[]): ExpressionScope {
+    const nodes: Record<string, Record<string, unknown>> = {};
+    for (const ref of references) {
+      const nodeId = ref.source === "nodes" ? ref.path[0] : undefined;
+      const nodeOutputs =
+        nodeId !== undefined ? this.context.nodes.get(nodeId) : undefined;
+      if (nodeId === undefined || !nodeOutputs || nodes[nodeId]) continue;
+
+      nodes[nodeId] = {};
       for (const portData of nodeOutputs) {
         if (portData.items.length > 0) {
-          result[portData.portName] = portData.items[0]?.data;
+          nodes[nodeId][portData.portName] = this.getPairedItem(
+            nodeId,
+            portData,
+          )?.data;
         }
       }
-      return result;
-    }
-
-    // Get specific port - handle array indexing on port name (e.g., "output[0]")
-    let portNameSegment = path[1]!;
-    let portArrayIndex: number | undefined;
-
-    const portArrayMatch = portNameSegment.match(/^([^[]+)\[(\d+)\]$/);
-    if (portArrayMatch?.[1] && portArrayMatch[2]) {
-      portNameSegment = portArrayMatch[1];
-      portArrayIndex = parseInt(portArrayMatch[2], 10);
-    }
-
-    const portData = nodeOutputs.find((p) => p.portName === portNameSegment);
-
-    if (!portData || portData.items.length === 0) {
-      console.warn(`Port not found or empty: ${nodeId}.${portNameSegment}`);
-      return undefined;
-    }
-
-    // Get the first item's data
-    let data = portData.items[0]?.data;
-
-    // If port had array index, apply it to the data
-    if (portArrayIndex !== undefined) {
-      if (Array.isArray(data) && portArrayIndex < data.length) {
-        data = data[portArrayIndex];
-      } else {
-        return undefined;
-      }
-    }
-
-    // If there's more path, resolve it
-    if (path.length > 2) {
-      return this.resolvePath(data, path.slice(2));
     }
 
-    return data;
+    return {
+      nodes,
+      vars: this.context.vars,
+      trigger: this.context.trigger,
+      execution: this.context.execution,
+      $item: this.context.loop?.item,
+      $iteration: this.context.loop?.iteration,
+    };
   }
 
   /**
-   * Resolve a vars reference
+   * Warn about references to nodes or ports without output
    */
-  private resolveVarsReference(path: string[]): unknown {
-    if (path.length === 0) {
-      return this.context.vars;
+  private warnMissingNodes(references: ExpressionReference[]): void {
+    for (const ref of references) {
+      const [nodeId, portName] = ref.path;
+      if (ref.source !== "nodes" || nodeId === undefined) continue;
+
+      const nodeOutputs = this.context.nodes.get(nodeId);
+      if (!nodeOutputs) {
+        console.warn(`Node output not found: ${nodeId}`);
+      } else if (
+        portName !== undefined &&
+        !nodeOutputs.some((p) => p.portName === portName && p.items.length > 0)
+      ) {
+        console.warn(`Port not found or empty: ${nodeId}.${portName}`);
+      }
     }
-    return this.resolvePath(this.context.vars, path);
   }
 
   /**
-   * Resolve a path on an object
-   * Supports dot notation and array indexing: path[0].nested
+   * Get the item of a node's port that the current item derives from,
+   * falling back to the first item
    */
-  private resolvePath(obj: unknown, path: string[]): unknown {
-    let current = obj;
-
-    for (const segment of path) {
-      if (current === null || current === undefined) {
-        return undefined;
-      }
-
-      // Check for array index notation: segment[index]
-      const arrayMatch = segment.match(/^([^[]+)\[(\d+)\]$/);
-
-      if (arrayMatch?.[1] && arrayMatch[2]) {
-        const key = arrayMatch[1];
-        const index = parseInt(arrayMatch[2], 10);
-
-        // First access the property
-        if (typeof current === "object" && key in current) {
-          current = (current as Record<string, unknown>)[key];
-        } else {
-          return undefined;
-        }
-
-        // Then access the array index
-        if (Array.isArray(current) && index < current.length) {
-          current = current[index];
-        } else {
-          return undefined;
-        }
-      } else {
-        // Regular property access
-        if (typeof current === "object" && segment in current) {
-          current = (current as Record<string, unknown>)[segment];
-        } else {
-          return undefined;
-        }
-      }
-    }
-
-    return current;
+  private getPairedItem(
+    nodeId: string,
+    portData: PortData,
+  ): ExecutionItem | undefined {
+    const metadata = this.context.item?.metadata;
+    const index =
+      metadata?.sourceNode === nodeId &&
+      metadata.sourcePort === portData.portName
+        ? metadata.sourceItemIndex
+        : metadata?.lineage?.[nodeId];
+
+    return (
+      (index !== undefined ? portData.items[index] : undefined) ??
+      portData.items[0]
+    );
   }
 
   /**
    * Check if a string contains expressions
    */
   hasExpressions(value: string): boolean {
-    EXPRESSION_PATTERN.lastIndex = 0;
-    return EXPRESSION_PATTERN.test(value);
+    return containsExpressions(value);
   }
 
   /**
@@ -290,34 +226,32 @@ export class ExpressionResolver {
    */
   private collectReferences(value: unknown, refs: VariableReference[]): void {
     if (typeof value === "string") {
-      EXPRESSION_PATTERN.lastIndex = 0;
-      let match = EXPRESSION_PATTERN.exec(value);
-      while (match !== null) {
-        const exprMatch = match[1];
-        if (exprMatch) {
-          const expr = exprMatch.trim();
-          const parts = expr.split(".");
-          const source = parts[0] as VariableReference["source"];
-
-          if (VALID_SOURCES.includes(source)) {
-            const ref: VariableReference = {
-              source,
-              path: parts.slice(1),
-              expression: match[0],
-            };
+      for (const expression of findExpressions(value)) {
+        let node: ExpressionNode;
+        try {
+          node = parseExpression(expression.source);
+        } catch {
+          // Invalid expressions reference nothing
+          continue;
+        }
 
-            // Add node-specific info
-            if (source === "nodes" && parts.length >= 2) {
-              ref.nodeId = parts[1];
-              if (parts.length >= 3) {
-                ref.portName = parts[2];
-              }
+        for (const { source, path } of collectReferences(node)) {
+          const ref: VariableReference = {
+            source,
+            path,
+            expression: value.slice(expression.start, expression.end),
+          };
+
+          // Add node-specific info
+          if (source === "nodes" && path.length >= 1) {
+            ref.nodeId = path[0];
+            if (path.length >= 2) {
+              ref.portName = path[1];
             }
-
-            refs.push(ref);
           }
+
+          refs.push(ref);
         }
-        match = EXPRESSION_PATTERN.exec(value);
       }
     } else if (Array.isArray(value)) {
       for (const item of value) {
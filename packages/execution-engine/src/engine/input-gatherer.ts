@@ -22,7 +22,7 @@ import type { ExecutionState } from "./execution-state.js";
  * 2. For each edge, gets outputs from source node:
  *    - Handle-based: only from specified handle
  *    - Flow-based: all outputs merged
- * 3. Maps data to target port
+ * 3. Maps data to target port, in the order source nodes completed
  * 4. Adds lineage metadata to track data flow
  */
 export function gatherNodeInputs(
@@ -30,7 +30,13 @@ export function gatherNodeInputs(
   graph: ExecutionGraph,
   state: ExecutionState,
 ): PortData[] {
-  const incomingEdges = graph.edgesByTarget.get(nodeId) || [];
+  // Visit sources in the order they completed, so items (and ports) are
+  // listed in arrival order
+  const incomingEdges = [...(graph.edgesByTarget.get(nodeId) || [])].sort(
+    (a, b) =>
+      state.getLastPathIndex(a.sourceNodeId) -
+      state.getLastPathIndex(b.sourceNodeId),
+  );
   const portDataMap = new Map<string, ExecutionItem[]>();
 
   for (const edge of incomingEdges) {
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  executeForItems,
+  getOutputData,
+  type ItemRun,
+} from "./item-execution.js";
+import {
+  createEmptyContext,
+  type ExpressionContext,
+} from "./expression-resolver.js";
+import type { PortData } from "../types/execution.js";
+
+describe("executeForItems", () => {
+  let context: ExpressionContext;
+
+  beforeEach(() => {
+    context = createEmptyContext();
+    context.nodes.set("split", [
+      {
+        portName: "output",
+        items: [
+          { data: { name: "a" }, metadata: {} },
+          { data: { name: "b" }, metadata: {} },
+        ],
+      },
+    ]);
+  });
+
+  const inputs: PortData[] = [
+    {
+      portName: "input",
+      items: [
+        {
+          data: { name: "a" },
+          metadata: {
+            sourceNode: "split",
+            sourcePort: "output",
+            sourceItemIndex: 0,
+          },
+        },
+        {
+          data: { name: "b" },
+          metadata: {
+            sourceNode: "split",
+            sourcePort: "output",
+            sourceItemIndex: 1,
+          },
+        },
+      ],
+    },
+  ];
+
+  it("should run once per input item", async () => {
+    const runs: ItemRun[] = [];
+
+    const outputs = await executeForItems(
+      "upper",
+      {},
+      inputs,
+      "per-item",
+      context,
+      async (run) => {
+        runs.push(run);
+        const data = run.inputs.input as { name: string };
+        return { output: data.name.toUpperCase() };
+      },
+    );
+
+    expect(runs.map((run) => run.inputs)).toEqual([
+      { input: { name: "a" } },
+      { input: { name: "b" } },
+    ]);
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0]!.items.map((item) => item.data)).toEqual(["A", "B"]);
+  });
+
+  it("should resolve expressions relative to the current item", async () => {
+    const configs: unknown[] = [];
+
+    await executeForItems(
+      "greet",
+      { message: "Hello {{ nodes.split.output.name }}" },
+      inputs,
+      "per-item",
+      context,
+      async ({ config }) => {
+        configs.push(config);
+        return { output: config };
+      },
+    );
+
+    expect(configs).toEqual([{ message: "Hello a" }, { message: "Hello b" }]);
+  });
+
+  it("should record item lineage on outputs", async () => {
+    const outputs = await executeForItems(
+      "upper",
+      {},
+      inputs,
+      "per-item",
+      context,
+      async () => ({ output: "done" }),
+    );
+
+    expect(outputs[0]!.items.map((item) => item.metadata)).toEqual([
+      {
+        sourceNode: "upper",
+        sourcePort: "output",
+        sourceItemIndex: 0,
+        lineage: { split: 0 },
+      },
+      {
+        sourceNode: "upper",
+        sourcePort: "output",
+        sourceItemIndex: 1,
+        lineage: { split: 1 },
+      },
+    ]);
+  });
+
+  it("should keep handles that were not taken as empty ports", async () => {
+    const outputs = await executeForItems(
+      "check",
+      {},
+      inputs,
+      "per-item",
+      context,
+      async (run) => {
+        const data = run.inputs.input as { name: string };
+        return data.name === "a" ? { true: data } : { false: data };
+      },
+    );
+
+    expect(getOutputData(outputs)).toEqual({
+      true: { name: "a" },
+      false: { name: "b" },
+    });
+  });
+
+  it("should run once without inputs", async () => {
+    let runCount = 0;
+
+    const outputs = await executeForItems(
+      "start",
+      {},
+      [],
+      "per-item",
+      context,
+      async () => {
+        runCount++;
+        return { output: { ok: true } };
+      },
+    );
+
+    expect(runCount).toBe(1);
+    expect(getOutputData(outputs)).toEqual({ output: { ok: true } });
+  });
+
+  it("should run batch plugins once for all items", async () => {
+    const runs: ItemRun[] = [];
+
+    const outputs = await executeForItems(
+      "collect",
+      {},
+      inputs,
+      "batch",
+      context,
+      async (run) => {
+        runs.push(run);
+        return { output: run.inputs.input };
+      },
+    );
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]!.inputs).toEqual({
+      input: [{ name: "a" }, { name: "b" }],
+    });
+    // Array outputs become separate items, paired with inputs by position
+    expect(outputs[0]!.items.map((item) => item.metadata.lineage)).toEqual([
+      { split: 0 },
+      { split: 1 },
+    ]);
+  });
+
+  it("should resolve batch parameters for each item", async () => {
+    const runs: ItemRun[] = [];
+
+    await executeForItems(
+      "collect",
+      { name: "{{ nodes.split.output.name }}" },
+      inputs,
+      "batch",
+      context,
+      async (run) => {
+        runs.push(run);
+        return { output: [] };
+      },
+    );
+
+    expect(runs[0]!.config).toEqual({ name: "a" });
+    expect(runs[0]!.itemConfigs).toEqual([{ name: "a" }, { name: "b" }]);
+  });
+
+  it("should emit a single item for non-array batch outputs", async () => {
+    const outputs = await executeForItems(
+      "count",
+      {},
+      inputs,
+      "batch",
+      context,
+      async (run) => ({
+        output: { count: (run.inputs.input as unknown[]).length },
+      }),
+    );
+
+    expect(outputs[0]!.items).toHaveLength(1);
+    expect(getOutputData(outputs)).toEqual({ output: { count: 2 } });
+  });
+});
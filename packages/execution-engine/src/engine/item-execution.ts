@@ -0,0 +1,214 @@
+/**
+ * Multi-item execution
+ *
+ * A node receiving N input items runs its plugin once per item. Each run
+ * resolves expressions relative to its item, so {{ nodes.<id>.<port> }}
+ * reads the upstream item the current item was derived from. Output items
+ * record their lineage for nodes further downstream.
+ *
+ * Plugins can opt into batch execution instead: one run for all items,
+ * receiving every item's data and returning an array of output items per
+ * handle. Batch runs resolve expressions relative to the first item, and
+ * also get the parameters resolved for each item when those differ.
+ */
+
+import type { ExecutionItem, PortData } from "../types/execution.js";
+import {
+  type ExpressionContext,
+  ExpressionResolver,
+} from "./expression-resolver.js";
+
+/**
+ * How a plugin runs when its node receives several items
+ * - per-item: once per input item (default)
+ * - batch: once for all input items
+ */
+export type ItemExecutionMode = "per-item" | "batch";
+
+/**
+ * A single plugin run
+ */
+export interface ItemRun {
+  /** Node parameters with expressions resolved for this run */
+  config: Record<string, unknown>;
+  /**
+   * Plugin inputs by port: the current item's data for per-item runs,
+   * an array of all items' data for batch runs
+   */
+  inputs: Record<string, unknown>;
+  /** Input item for per-item runs (undefined for nodes without inputs) */
+  item?: ExecutionItem;
+  /**
+   * Batch runs over several items: node parameters resolved relative to
+   * each input item, in input order (only when they contain expressions)
+   */
+  itemConfigs?: Record<string, unknown>[];
+  /**
+   * Aborted when the attempt times out or the execution is cancelled (set
+   * by withRetry)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the plugin and returns its outputs by handle
+ */
+export type ItemRunner = (run: ItemRun) => Promise<Record<string, unknown>>;
+
+/**
+ * Execute a node for its input items
+ *
+ * @param nodeId - Node being executed (recorded as the items' source)
+ * @param parameters - Node parameters, possibly containing expressions
+ * @param inputs - Gathered input items by port
+ * @param mode - Per-item or batch execution
+ * @param context - Expression context shared by all runs
+ * @param run - Runs the plugin once
+ * @returns Output items by port, in input order
+ */
+export async function executeForItems(
+  nodeId: string,
+  parameters: Record<string, unknown>,
+  inputs: PortData[],
+  mode: ItemExecutionMode,
+  context: ExpressionContext,
+  run: ItemRunner,
+): Promise<PortData[]> {
+  const inputItems = inputs.flatMap((port) =>
+    port.items.map((item) => ({ portName: port.portName, item })),
+  );
+  const outputs = new Map<string, ExecutionItem[]>();
+
+  const addOutput = (
+    portName: string,
+    data: unknown,
+    source: ExecutionItem | undefined,
+    sourceItemIndex: number | undefined,
+  ) => {
+    const items = outputs.get(portName) || [];
+    outputs.set(portName, items);
+
+    // Null/undefined means the handle was not taken
+    if (data === undefined || data === null) return;
+
+    items.push({
+      data,
+      metadata: {
+        sourceNode: nodeId,
+        sourcePort: portName,
+        sourceItemIndex,
+        lineage: source ? getLineage(source) : undefined,
+      },
+    });
+  };
+
+  if (mode === "batch") {
+    // One run; expressions resolve relative to the first item
+    const first = inputItems[0]?.item;
+    const config = resolveParameters(parameters, context, first);
+
+    const batchInputs: Record<string, unknown> = {};
+    for (const port of inputs) {
+      batchInputs[port.portName] = port.items.map((item) => item.data);
+    }
+
+    // Per-item values, e.g. {{ nodes.<upstream>.output.price }} for each row
+    const itemConfigs =
+      inputItems.length > 1 && hasExpressions(parameters)
+        ? inputItems.map(({ item }) =>
+            resolveParameters(parameters, context, item),
+          )
+        : undefined;
+
+    const result = await run({ config, inputs: batchInputs, itemConfigs });
+
+    for (const [portName, value] of Object.entries(result)) {
+      // Keep the port even when it emitted no items
+      outputs.set(portName, outputs.get(portName) || []);
+
+      // Pair outputs with the only input item, or with inputs by position
+      // when the counts match
+      const items = Array.isArray(value) ? value : [value];
+      items.forEach((data, index) => {
+        const sourceIndex =
+          inputItems.length === 1
+            ? 0
+            : items.length === inputItems.length
+              ? index
+              : undefined;
+        addOutput(
+          portName,
+          data,
+          sourceIndex !== undefined ? inputItems[sourceIndex]?.item : undefined,
+          sourceIndex,
+        );
+      });
+    }
+  } else if (inputItems.length === 0) {
+    // Entry nodes (or nodes whose upstream produced no items) run once
+    const config = resolveParameters(parameters, context);
+    const result = await run({ config, inputs: {} });
+    for (const [portName, value] of Object.entries(result)) {
+      addOutput(portName, value, undefined, undefined);
+    }
+  } else {
+    // Sequential runs keep side effects and node state in item order
+    for (const [index, { portName, item }] of inputItems.entries()) {
+      const config = resolveParameters(parameters, context, item);
+      const result = await run({
+        config,
+        inputs: { [portName]: item.data },
+        item,
+      });
+      for (const [outputPort, value] of Object.entries(result)) {
+        addOutput(outputPort, value, item, index);
+      }
+    }
+  }
+
+  return Array.from(outputs.entries()).map(([portName, items]) => ({
+    portName,
+    items,
+  }));
+}
+
+/**
+ * Summarize output items for storage and display:
+ * port -> data for a single item, port -> data[] for several
+ */
+export function getOutputData(outputs: PortData[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const port of outputs) {
+    if (port.items.length === 1) {
+      result[port.portName] = port.items[0]?.data;
+    } else if (port.items.length > 1) {
+      result[port.portName] = port.items.map((item) => item.data);
+    }
+  }
+  return result;
+}
+
+/**
+ * Lineage of items derived from an input item: the input's own lineage
+ * plus the upstream item it came from
+ */
+function getLineage(item: ExecutionItem): Record<string, number> {
+  const { sourceNode, sourceItemIndex, lineage } = item.metadata;
+  return {
+    ...lineage,
+    ...(sourceNode !== undefined &&
+      sourceItemIndex !== undefined && { [sourceNode]: sourceItemIndex }),
+  };
+}
+
+function hasExpressions(parameters: Record<string, unknown>): boolean {
+  return JSON.stringify(parameters).includes("{{");
+}
+
+function resolveParameters(
+  parameters: Record<string, unknown>,
+  context: ExpressionContext,
+  item?: ExecutionItem,
+): Record<string, unknown> {
+  return new ExpressionResolver({ ...context, item }).resolve(parameters);
+}
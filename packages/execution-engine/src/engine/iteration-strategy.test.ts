@@ -272,11 +272,140 @@ describe("BFSIterationStrategy", () => {
     expect(state.hasExecuted("falseNode")).toBe(false);
   });
 
-  it.todo("should support loops via re-queueing", async () => {
+  it("should run nodes where skipped branches reconverge", async () => {
+    const graph = createGraph(
+      [
+        { id: "ifNode", pluginId: "if", label: "IF Node", parameters: {} },
+        { id: "trueNode", pluginId: "test", label: "True", parameters: {} },
+        { id: "falseNode", pluginId: "test", label: "False", parameters: {} },
+        { id: "falseNext", pluginId: "test", label: "Next", parameters: {} },
+        { id: "merge", pluginId: "merge", label: "Merge", parameters: {} },
+      ],
+      [
+        {
+          id: "e1",
+          sourceNodeId: "ifNode",
+          sourcePort: "true",
+          targetNodeId: "trueNode",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e2",
+          sourceNodeId: "ifNode",
+          sourcePort: "false",
+          targetNodeId: "falseNode",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e3",
+          sourceNodeId: "falseNode",
+          sourcePort: "out",
+          targetNodeId: "falseNext",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e4",
+          sourceNodeId: "trueNode",
+          sourcePort: "out",
+          targetNodeId: "merge",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e5",
+          sourceNodeId: "falseNext",
+          sourcePort: "out",
+          targetNodeId: "merge",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+      ],
+    );
+
+    const outputs: Record<string, NodeExecutionResult> = {
+      ifNode: {
+        outputs: [
+          { portName: "true", items: [{ data: 1, metadata: {} }] },
+          { portName: "false", items: [] },
+        ],
+        executionTime: 10,
+        status: "success",
+      },
+      trueNode: {
+        outputs: [{ portName: "out", items: [{ data: 2, metadata: {} }] }],
+        executionTime: 10,
+        status: "success",
+      },
+      merge: {
+        outputs: [],
+        executionTime: 10,
+        status: "success",
+      },
+    };
+
+    await strategy.execute(graph, state, createMockExecutor(outputs));
+
+    // The false branch never runs, so the merge doesn't wait for it
+    expect(state.executionPath.map((p) => p.nodeId)).toEqual([
+      "ifNode",
+      "trueNode",
+      "merge",
+    ]);
+  });
+
+  it("should wait for branches that are still running", async () => {
     const graph = createGraph(
       [
         { id: "start", pluginId: "test", label: "Start", parameters: {} },
-        { id: "loop", pluginId: "test", label: "Loop", parameters: {} },
+        { id: "short", pluginId: "test", label: "Short", parameters: {} },
+        { id: "long1", pluginId: "test", label: "Long 1", parameters: {} },
+        { id: "long2", pluginId: "test", label: "Long 2", parameters: {} },
+        { id: "merge", pluginId: "merge", label: "Merge", parameters: {} },
+      ],
+      [
+        { id: "e1", sourceNodeId: "start", targetNodeId: "short" },
+        { id: "e2", sourceNodeId: "start", targetNodeId: "long1" },
+        { id: "e3", sourceNodeId: "long1", targetNodeId: "long2" },
+        { id: "e4", sourceNodeId: "short", targetNodeId: "merge" },
+        { id: "e5", sourceNodeId: "long2", targetNodeId: "merge" },
+      ],
+    );
+
+    const result: NodeExecutionResult = {
+      outputs: [{ portName: "output", items: [{ data: 1, metadata: {} }] }],
+      executionTime: 10,
+      status: "success",
+    };
+
+    await strategy.execute(
+      graph,
+      state,
+      createMockExecutor({
+        start: result,
+        short: result,
+        long1: result,
+        long2: result,
+        merge: result,
+      }),
+    );
+
+    expect(state.executionPath.map((p) => p.nodeId)).toEqual([
+      "start",
+      "short",
+      "long1",
+      "long2",
+      "merge",
+    ]);
+  });
+
+  it("should support loops via re-queueing", async () => {
+    const graph = createGraph(
+      [
+        { id: "start", pluginId: "test", label: "Start", parameters: {} },
+        { id: "loop", pluginId: "loop", label: "Loop", parameters: {} },
         { id: "end", pluginId: "test", label: "End", parameters: {} },
       ],
       [
@@ -421,6 +550,44 @@ describe("BFSIterationStrategy", () => {
     ).rejects.toThrow("Execution timeout");
   });
 
+  it("should not count waiting time toward maxExecutionTime", async () => {
+    const graph = createGraph(
+      [
+        { id: "approval", pluginId: "test", label: "Approval", parameters: {} },
+        { id: "notify", pluginId: "test", label: "Notify", parameters: {} },
+      ],
+      [
+        {
+          id: "e1",
+          sourceNodeId: "approval",
+          sourcePort: "out",
+          targetNodeId: "notify",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+      ],
+    );
+
+    const waitingExecutor: NodeExecutor = async (nodeId: string) => {
+      // The approval node waits for someone longer than the time limit
+      if (nodeId === "approval") {
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        state.addWaitingTime(60);
+      }
+      state.addNodeResult(nodeId, {
+        outputs: [{ portName: "out", items: [{ data: 1, metadata: {} }] }],
+        executionTime: 1,
+        status: "success",
+      });
+    };
+
+    await strategy.execute(graph, state, waitingExecutor, {
+      maxExecutionTime: 40,
+    });
+
+    expect(state.hasExecuted("notify")).toBe(true);
+  });
+
   it("should respect maxExecutions option", async () => {
     const graph = createGraph(
       [
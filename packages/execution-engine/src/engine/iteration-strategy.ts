@@ -8,8 +8,9 @@
  * not by special edge types. The iteration strategy just traverses the graph normally.
  */
 
-import type { ExecutionGraph, Node } from "../types/graph.js";
+import type { Edge, ExecutionGraph, Node } from "../types/graph.js";
 import type { ExecutionState } from "./execution-state.js";
+import { findLoopBackEdges } from "./loop.js";
 
 /**
  * Node executor function (provided by the Executor)
@@ -40,12 +41,20 @@ export interface IterationStrategy {
  * Common iteration options
  */
 export interface IterationOptions {
-  /** Maximum execution time in milliseconds */
+  /**
+   * Maximum execution time in milliseconds, excluding time spent waiting
+   * for input (see ExecutionState.waitingTime)
+   */
   maxExecutionTime?: number;
   /** Maximum number of total node executions (not unique nodes) */
   maxExecutions?: number;
   /** Enable verbose logging */
   verbose?: boolean;
+  /**
+   * Nodes to start from instead of the entry nodes (e.g. when re-running
+   * from a node, with upstream outputs seeded into the state)
+   */
+  startNodeIds?: string[];
 }
 
 /**
@@ -64,15 +73,20 @@ export class BFSIterationStrategy implements IterationStrategy {
     executeNode: NodeExecutor,
     options: IterationOptions = {},
   ): Promise<void> {
-    // Find entry nodes (no incoming edges)
-    const entryNodes = this.findEntryNodes(graph);
+    // Edges closing a loop never block the loop node
+    const backEdges = findLoopBackEdges(graph.nodes.values(), graph.edges);
+
+    // Find entry nodes (no incoming edges), unless told where to start
+    const entryNodes =
+      options.startNodeIds ??
+      this.findEntryNodes(graph, backEdges).map((n) => n.id);
 
     if (entryNodes.length === 0) {
       throw new Error("No entry nodes found - routine has no starting point");
     }
 
     // Initialize queue with entry nodes
-    let queue = [...entryNodes.map((n) => n.id)];
+    let queue = [...entryNodes];
     const startTime = Date.now();
     let totalExecutions = 0;
 
@@ -80,7 +94,7 @@ export class BFSIterationStrategy implements IterationStrategy {
       // Check timeout
       if (
         options.maxExecutionTime &&
-        Date.now() - startTime > options.maxExecutionTime
+        Date.now() - startTime - state.waitingTime > options.maxExecutionTime
       ) {
         throw new Error(
           `Execution timeout after ${options.maxExecutionTime}ms`,
@@ -95,7 +109,7 @@ export class BFSIterationStrategy implements IterationStrategy {
       }
 
       // Find nodes ready to execute (all dependencies satisfied)
-      const ready = this.findReadyNodes(queue, graph, state);
+      const ready = this.findReadyNodes(queue, graph, state, backEdges);
 
       if (ready.length === 0) {
         // No nodes ready - check if we're done or have a deadlock
@@ -127,12 +141,17 @@ export class BFSIterationStrategy implements IterationStrategy {
   }
 
   /**
-   * Find entry nodes (nodes with no incoming edges)
+   * Find entry nodes (nodes with no incoming edges, ignoring loop back edges)
    */
-  private findEntryNodes(graph: ExecutionGraph): Node[] {
+  private findEntryNodes(
+    graph: ExecutionGraph,
+    backEdges: Set<string>,
+  ): Node[] {
     const nodes: Node[] = [];
     for (const [nodeId, node] of graph.nodes) {
-      const incomingEdges = graph.edgesByTarget.get(nodeId) || [];
+      const incomingEdges = (graph.edgesByTarget.get(nodeId) || []).filter(
+        (edge) => !backEdges.has(edge.id),
+      );
       if (incomingEdges.length === 0) {
         nodes.push(node);
       }
@@ -141,46 +160,131 @@ export class BFSIterationStrategy implements IterationStrategy {
   }
 
   /**
-   * Find nodes that are ready to execute (all dependencies satisfied)
+   * Find nodes that are ready to execute (all dependencies resolved)
    *
    * Flow-based routing:
    * - If edge has sourceHandle: check if that specific handle has output
    * - If edge has no sourceHandle: check if source node has ANY output
    * - Legacy: sourcePort is treated as sourceHandle for backwards compatibility
+   * - Loop back edges are not dependencies: a loop node runs once before its
+   *   body, then again whenever the body loops back to it
+   * - Edges that will never carry data (their branch was not taken) count as
+   *   resolved, so nodes where branches reconverge don't wait forever
    */
   private findReadyNodes(
     queue: string[],
     graph: ExecutionGraph,
     state: ExecutionState,
+    backEdges: Set<string>,
   ): string[] {
+    const skipped = new Map<string, boolean>();
+
     return queue.filter((nodeId) => {
-      const incomingEdges = graph.edgesByTarget.get(nodeId) || [];
+      const statuses = this.getIncomingEdges(nodeId, graph, backEdges).map(
+        (edge) =>
+          this.getEdgeStatus(edge, graph, state, backEdges, queue, skipped),
+      );
 
-      // All dependencies must have executed and produced the required output
-      return incomingEdges.every((edge) => {
-        const sourceResult = state.getNodeResult(edge.sourceNodeId);
-        if (!sourceResult || sourceResult.status === "error") {
-          return false;
-        }
+      // Entry nodes are always ready. Otherwise every dependency must be
+      // resolved, and at least one must have delivered data.
+      if (statuses.length === 0) return true;
+      return (
+        statuses.every((status) => status !== "pending") &&
+        statuses.some((status) => status === "active")
+      );
+    });
+  }
 
-        // Get the handle (prefer sourceHandle, fallback to sourcePort for backwards compat)
-        const handle = edge.sourceHandle ?? edge.sourcePort;
+  /**
+   * Incoming edges of a node, ignoring loop back edges
+   */
+  private getIncomingEdges(
+    nodeId: string,
+    graph: ExecutionGraph,
+    backEdges: Set<string>,
+  ): Edge[] {
+    return (graph.edgesByTarget.get(nodeId) || []).filter(
+      (edge) => !backEdges.has(edge.id),
+    );
+  }
 
-        if (handle) {
-          // Handle-based routing: check if specific handle has output
-          const hasHandleOutput = sourceResult.outputs.some(
-            (p) => p.portName === handle && p.items.length > 0,
-          );
-          return hasHandleOutput;
-        } else {
-          // Flow-based routing: any output from source node activates edge
-          const hasAnyOutput = sourceResult.outputs.some(
-            (p) => p.items.length > 0,
-          );
-          return hasAnyOutput;
-        }
-      });
-    });
+  /**
+   * Whether an edge delivered data ("active"), never will ("inactive"), or
+   * may still ("pending")
+   */
+  private getEdgeStatus(
+    edge: Edge,
+    graph: ExecutionGraph,
+    state: ExecutionState,
+    backEdges: Set<string>,
+    queue: string[],
+    skipped: Map<string, boolean>,
+  ): "active" | "inactive" | "pending" {
+    const sourceResult = state.getNodeResult(edge.sourceNodeId);
+
+    if (!sourceResult) {
+      return this.isSkipped(
+        edge.sourceNodeId,
+        graph,
+        state,
+        backEdges,
+        queue,
+        skipped,
+      )
+        ? "inactive"
+        : "pending";
+    }
+    if (sourceResult.status === "error") {
+      return "pending";
+    }
+
+    // Get the handle (prefer sourceHandle, fallback to sourcePort for backwards compat)
+    const handle = edge.sourceHandle ?? edge.sourcePort;
+
+    let hasOutput: boolean;
+    if (handle) {
+      // Handle-based routing: check if specific handle has output
+      hasOutput = sourceResult.outputs.some(
+        (p) => p.portName === handle && p.items.length > 0,
+      );
+    } else {
+      // Flow-based routing: any output from source node activates edge
+      hasOutput = sourceResult.outputs.some((p) => p.items.length > 0);
+    }
+
+    return hasOutput ? "active" : "inactive";
+  }
+
+  /**
+   * Whether a node that hasn't run never will: it isn't queued and none of
+   * its incoming edges can deliver data anymore
+   */
+  private isSkipped(
+    nodeId: string,
+    graph: ExecutionGraph,
+    state: ExecutionState,
+    backEdges: Set<string>,
+    queue: string[],
+    skipped: Map<string, boolean>,
+  ): boolean {
+    const cached = skipped.get(nodeId);
+    if (cached !== undefined) return cached;
+
+    // Assume the node may still run while its own dependencies are checked
+    skipped.set(nodeId, false);
+
+    const incomingEdges = this.getIncomingEdges(nodeId, graph, backEdges);
+    const result =
+      !queue.includes(nodeId) &&
+      incomingEdges.length > 0 &&
+      incomingEdges.every(
+        (edge) =>
+          this.getEdgeStatus(edge, graph, state, backEdges, queue, skipped) ===
+          "inactive",
+      );
+
+    skipped.set(nodeId, result);
+    return result;
   }
 
   /**
@@ -245,8 +349,9 @@ export class DFSIterationStrategy implements IterationStrategy {
     executeNode: NodeExecutor,
     options: IterationOptions = {},
   ): Promise<void> {
-    // Find entry nodes
-    const entryNodes = this.findEntryNodes(graph);
+    // Find entry nodes, unless told where to start
+    const entryNodes =
+      options.startNodeIds ?? this.findEntryNodes(graph).map((n) => n.id);
 
     if (entryNodes.length === 0) {
       throw new Error("No entry nodes found - routine has no starting point");
@@ -257,14 +362,7 @@ export class DFSIterationStrategy implements IterationStrategy {
 
     // Execute DFS from each entry node
     for (const entryNode of entryNodes) {
-      await this.dfs(
-        entryNode.id,
-        graph,
-        state,
-        executeNode,
-        options,
-        startTime,
-      );
+      await this.dfs(entryNode, graph, state, executeNode, options, startTime);
     }
   }
 
@@ -279,7 +377,7 @@ export class DFSIterationStrategy implements IterationStrategy {
     // Check timeout
     if (
       options.maxExecutionTime &&
-      Date.now() - startTime > options.maxExecutionTime
+      Date.now() - startTime - state.waitingTime > options.maxExecutionTime
     ) {
       throw new Error(`Execution timeout after ${options.maxExecutionTime}ms`);
     }
@@ -293,7 +391,11 @@ export class DFSIterationStrategy implements IterationStrategy {
     const incomingEdges = graph.edgesByTarget.get(nodeId) || [];
 
     for (const edge of incomingEdges) {
-      if (!this.visited.has(edge.sourceNodeId)) {
+      // Seeded nodes (see IterationOptions.startNodeIds) already have outputs
+      if (
+        !this.visited.has(edge.sourceNodeId) &&
+        !state.hasExecuted(edge.sourceNodeId)
+      ) {
         // Recursively execute dependency first
         await this.dfs(
           edge.sourceNodeId,
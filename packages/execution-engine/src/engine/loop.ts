@@ -0,0 +1,166 @@
+/**
+ * Loop support
+ *
+ * Loops are built from a dedicated loop node (like n8n's SplitInBatches):
+ * its "iteration" handle feeds the loop body, and the last body node
+ * connects back to the loop node. The loop node walks its items using
+ * nodeState and takes its "complete" handle once they are exhausted.
+ *
+ * The edge closing the cycle is a "back edge". It doesn't count as a
+ * dependency of the loop node, so the loop can run before its body and
+ * re-run each time the body finishes.
+ */
+
+import type { Edge, ExecutionGraph, Node } from "../types/graph.js";
+import type { ExecutionState } from "./execution-state.js";
+
+/** Plugin ID of the loop node */
+export const LOOP_PLUGIN_ID = "loop";
+
+/** Handle taken for each batch */
+export const LOOP_ITERATION_HANDLE = "iteration";
+
+/** Handle taken once all items are processed */
+export const LOOP_COMPLETE_HANDLE = "complete";
+
+/**
+ * Current iteration of the innermost loop around a node,
+ * exposed to expressions as {{ $item }} and {{ $iteration }}
+ */
+export interface LoopContext {
+  /** Current item (or the current batch, for batch sizes above 1) */
+  item: unknown;
+  /** Zero-based iteration number */
+  iteration: number;
+}
+
+/**
+ * Check whether a node is a loop node
+ */
+export function isLoopNode(node: Pick<Node, "pluginId">): boolean {
+  return node.pluginId === LOOP_PLUGIN_ID;
+}
+
+/**
+ * Find back edges: edges into a loop node from a node reachable from it
+ *
+ * @returns IDs of the back edges
+ */
+export function findLoopBackEdges(
+  nodes: Iterable<Node>,
+  edges: Edge[],
+): Set<string> {
+  const backEdges = new Set<string>();
+  const adjacency = buildAdjacency(edges);
+
+  for (const node of nodes) {
+    if (!isLoopNode(node)) continue;
+
+    const reachable = collectReachable([node.id], adjacency);
+    for (const edge of edges) {
+      if (edge.targetNodeId === node.id && reachable.has(edge.sourceNodeId)) {
+        backEdges.add(edge.id);
+      }
+    }
+  }
+
+  return backEdges;
+}
+
+/**
+ * Find the body of each loop node: nodes reachable from its iteration
+ * handle without passing through the loop node again
+ *
+ * @returns Loop node ID -> IDs of the nodes in its body
+ */
+export function findLoopBodies(
+  nodes: Iterable<Node>,
+  edges: Edge[],
+): Map<string, Set<string>> {
+  const bodies = new Map<string, Set<string>>();
+
+  for (const node of nodes) {
+    if (!isLoopNode(node)) continue;
+
+    const adjacency = buildAdjacency(
+      edges.filter((edge) => edge.targetNodeId !== node.id),
+    );
+    const entries = edges
+      .filter(
+        (edge) =>
+          edge.sourceNodeId === node.id &&
+          (edge.sourceHandle ?? edge.sourcePort) === LOOP_ITERATION_HANDLE,
+      )
+      .map((edge) => edge.targetNodeId);
+
+    bodies.set(node.id, collectReachable(entries, adjacency));
+  }
+
+  return bodies;
+}
+
+/**
+ * Get the loop context for a node about to execute
+ *
+ * Uses the innermost loop whose body contains the node and whose latest
+ * run took the iteration handle. Nested loops are told apart by which
+ * loop node ran most recently.
+ */
+export function getLoopContext(
+  nodeId: string,
+  graph: ExecutionGraph,
+  state: ExecutionState,
+): LoopContext | undefined {
+  let context: LoopContext | undefined;
+  let latestRun = -1;
+
+  for (const [loopId, body] of findLoopBodies(
+    graph.nodes.values(),
+    graph.edges,
+  )) {
+    if (!body.has(nodeId)) continue;
+
+    const iterationPort = state
+      .getNodeResult(loopId)
+      ?.outputs.find((port) => port.portName === LOOP_ITERATION_HANDLE);
+    const data = iterationPort?.items[0]?.data as
+      | { item?: unknown; iteration?: number }
+      | undefined;
+    if (!data) continue;
+
+    const lastRun = state.getLastPathIndex(loopId);
+    if (lastRun > latestRun) {
+      latestRun = lastRun;
+      context = { item: data.item, iteration: data.iteration ?? 0 };
+    }
+  }
+
+  return context;
+}
+
+function buildAdjacency(edges: Edge[]): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    const targets = adjacency.get(edge.sourceNodeId) || [];
+    targets.push(edge.targetNodeId);
+    adjacency.set(edge.sourceNodeId, targets);
+  }
+  return adjacency;
+}
+
+function collectReachable(
+  start: string[],
+  adjacency: Map<string, string[]>,
+): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...start];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    queue.push(...(adjacency.get(nodeId) || []));
+  }
+
+  return reachable;
+}
@@ -0,0 +1,26 @@
+/**
+ * Pinned sample data
+ *
+ * Nodes can pin sample output for design-time testing. Test runs emit the
+ * pinned data instead of running the node's plugin; production runs ignore
+ * it.
+ */
+
+import type { PortData } from "../types/execution.js";
+import type { Node } from "../types/graph.js";
+import { restoreOutputs } from "./rerun.js";
+
+/**
+ * Check whether a node has pinned data
+ */
+export function hasPinnedData(node: Node): boolean {
+  return node.pinnedData !== undefined;
+}
+
+/**
+ * Output ports for a node's pinned data (undefined when nothing is pinned)
+ */
+export function getPinnedOutputs(node: Node): PortData[] | undefined {
+  if (!node.pinnedData) return undefined;
+  return restoreOutputs(node.id, node.pinnedData);
+}
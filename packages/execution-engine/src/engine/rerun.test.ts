@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDownstreamNodes,
+  restoreOutputs,
+  seedRerunState,
+} from "./rerun.js";
+import { ExecutionState } from "./execution-state.js";
+import type { PortData } from "../types/execution.js";
+import type { Edge, ExecutionGraph, Node } from "../types/graph.js";
+
+function createGraph(nodeIds: string[], edges: Edge[]): ExecutionGraph {
+  const nodes = new Map<string, Node>(
+    nodeIds.map((id) => [
+      id,
+      { id, pluginId: "test", label: id, parameters: {} },
+    ]),
+  );
+  const edgesByTarget = new Map<string, Edge[]>();
+  const edgesBySource = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    edgesByTarget.set(edge.targetNodeId, [
+      ...(edgesByTarget.get(edge.targetNodeId) || []),
+      edge,
+    ]);
+    edgesBySource.set(edge.sourceNodeId, [
+      ...(edgesBySource.get(edge.sourceNodeId) || []),
+      edge,
+    ]);
+  }
+  return {
+    routineId: "test-routine",
+    variables: {},
+    nodes,
+    edges,
+    edgesByTarget,
+    edgesBySource,
+  };
+}
+
+function edge(source: string, target: string): Edge {
+  return {
+    id: `${source}-${target}`,
+    sourceNodeId: source,
+    targetNodeId: target,
+  };
+}
+
+function output(nodeId: string, data: unknown): PortData[] {
+  return [
+    {
+      portName: "output",
+      items: [{ data, metadata: { sourceNode: nodeId } }],
+    },
+  ];
+}
+
+// trigger -> fetch -> summarize -> notify, with a side branch
+// trigger -> audit
+const graph = createGraph(
+  ["trigger", "fetch", "summarize", "notify", "audit"],
+  [
+    edge("trigger", "fetch"),
+    edge("fetch", "summarize"),
+    edge("summarize", "notify"),
+    edge("trigger", "audit"),
+  ],
+);
+
+describe("findDownstreamNodes", () => {
+  it("should include the start node and everything after it", () => {
+    expect(findDownstreamNodes(graph, "fetch")).toEqual(
+      new Set(["fetch", "summarize", "notify"]),
+    );
+    expect(findDownstreamNodes(graph, "notify")).toEqual(new Set(["notify"]));
+  });
+});
+
+describe("seedRerunState", () => {
+  it("should seed every node that doesn't run again", () => {
+    const state = new ExecutionState();
+
+    seedRerunState(graph, state, {
+      startNodeId: "summarize",
+      nodeOutputs: {
+        trigger: output("trigger", { id: 1 }),
+        fetch: output("fetch", { body: "text" }),
+        summarize: output("summarize", "old summary"),
+      },
+    });
+
+    expect(state.nodeOutputs.get("fetch")).toEqual(
+      output("fetch", { body: "text" }),
+    );
+    expect(state.hasExecuted("trigger")).toBe(true);
+    expect(state.hasExecuted("summarize")).toBe(false);
+    expect(state.hasExecuted("notify")).toBe(false);
+    // Seeded nodes aren't part of the new execution's path
+    expect(state.executionPath).toEqual([]);
+  });
+
+  it("should seed nodes without stored outputs as producing nothing", () => {
+    const state = new ExecutionState();
+
+    seedRerunState(graph, state, {
+      startNodeId: "fetch",
+      nodeOutputs: { trigger: output("trigger", { id: 1 }) },
+    });
+
+    expect(state.getNodeResult("audit")).toMatchObject({
+      outputs: [],
+      status: "success",
+    });
+  });
+
+  it("should reject unknown start nodes", () => {
+    expect(() =>
+      seedRerunState(graph, new ExecutionState(), {
+        startNodeId: "missing",
+        nodeOutputs: {},
+      }),
+    ).toThrow("Node not found: missing");
+  });
+
+  it("should reject start nodes whose inputs never produced data", () => {
+    expect(() =>
+      seedRerunState(graph, new ExecutionState(), {
+        startNodeId: "notify",
+        nodeOutputs: { trigger: output("trigger", { id: 1 }) },
+      }),
+    ).toThrow("Cannot re-run from node notify");
+  });
+});
+
+describe("restoreOutputs", () => {
+  it("should rebuild ports from an output summary", () => {
+    expect(restoreOutputs("fetch", { output: { ok: true } })).toEqual([
+      {
+        portName: "output",
+        items: [
+          {
+            data: { ok: true },
+            metadata: { sourceNode: "fetch", sourcePort: "output" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should read arrays as one item per element", () => {
+    const [port] = restoreOutputs("split", { output: [1, 2, 3] });
+
+    expect(port?.items.map((item) => item.data)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Re-running from a node
+ *
+ * Runs a node and everything downstream of it again, reusing an earlier
+ * execution's outputs for the rest of the routine. Upstream nodes are
+ * seeded into the execution state instead of running, so slow or expensive
+ * calls before the chosen node aren't repeated.
+ */
+
+import type { PortData, RerunOptions } from "../types/execution.js";
+import type { ExecutionGraph } from "../types/graph.js";
+import type { ExecutionState } from "./execution-state.js";
+
+/**
+ * Find a node and every node reachable from it
+ */
+export function findDownstreamNodes(
+  graph: ExecutionGraph,
+  startNodeId: string,
+): Set<string> {
+  const downstream = new Set<string>([startNodeId]);
+  const queue = [startNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const edge of graph.edgesBySource.get(nodeId) || []) {
+      if (!downstream.has(edge.targetNodeId)) {
+        downstream.add(edge.targetNodeId);
+        queue.push(edge.targetNodeId);
+      }
+    }
+  }
+
+  return downstream;
+}
+
+/**
+ * Seed the state with the earlier execution's outputs for every node that
+ * won't run again. Nodes without stored outputs (e.g. a branch that wasn't
+ * taken) are seeded as producing nothing, so nodes waiting on them still run.
+ */
+export function seedRerunState(
+  graph: ExecutionGraph,
+  state: ExecutionState,
+  rerun: RerunOptions,
+): void {
+  const { startNodeId, nodeOutputs } = rerun;
+  if (!graph.nodes.has(startNodeId)) {
+    throw new Error(`Node not found: ${startNodeId}`);
+  }
+
+  const downstream = findDownstreamNodes(graph, startNodeId);
+
+  // The start node needs data from at least one node that isn't re-run
+  const incomingEdges = (graph.edgesByTarget.get(startNodeId) || []).filter(
+    (edge) => !downstream.has(edge.sourceNodeId),
+  );
+  const hasInputs = incomingEdges.some((edge) =>
+    nodeOutputs[edge.sourceNodeId]?.some((port) => port.items.length > 0),
+  );
+  if (incomingEdges.length > 0 && !hasInputs) {
+    throw new Error(
+      `Cannot re-run from node ${startNodeId}: the previous execution has no outputs for the nodes before it`,
+    );
+  }
+
+  for (const nodeId of graph.nodes.keys()) {
+    if (!downstream.has(nodeId)) {
+      state.seedNodeOutputs(nodeId, nodeOutputs[nodeId] ?? []);
+    }
+  }
+}
+
+/**
+ * Rebuild output ports from a stored output summary (see getOutputData),
+ * for executions that didn't keep their output items. Arrays are read as
+ * one item per element.
+ */
+export function restoreOutputs(
+  nodeId: string,
+  output: Record<string, unknown>,
+): PortData[] {
+  return Object.entries(output).map(([portName, data]) => ({
+    portName,
+    items: (Array.isArray(data) ? data : [data]).map((itemData) => ({
+      data: itemData,
+      metadata: { sourceNode: nodeId, sourcePort: portName },
+    })),
+  }));
+}
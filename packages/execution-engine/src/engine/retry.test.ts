@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_NODE_TIMEOUT,
+  DEFAULT_RETRY_POLICY,
+  getNodeTimeout,
+  getRetryDelay,
+  getRetryPolicy,
+  isRetryableError,
+  withRetry,
+} from "./retry.js";
+import { ExecutionCancelledError } from "./cancellation.js";
+import type { ItemRun } from "./item-execution.js";
+import type { Node } from "../types/graph.js";
+
+function createNode(overrides: Partial<Node> = {}): Node {
+  return {
+    id: "risky",
+    pluginId: "http-request",
+    label: "Risky",
+    parameters: {},
+    ...overrides,
+  };
+}
+
+function codedError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+const run = { config: {}, inputs: {} };
+
+describe("getRetryPolicy", () => {
+  it("should use the defaults for nodes without a policy", () => {
+    expect(getRetryPolicy(createNode())).toEqual(DEFAULT_RETRY_POLICY);
+    expect(getNodeTimeout(createNode())).toBe(DEFAULT_NODE_TIMEOUT);
+  });
+
+  it("should override the defaults with the node's settings", () => {
+    const node = createNode({ retry: { maxAttempts: 5 }, timeout: 1000 });
+
+    expect(getRetryPolicy(node)).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+    });
+    expect(getNodeTimeout(node)).toBe(1000);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("should back off exponentially up to the maximum interval", () => {
+    const policy = {
+      maxAttempts: 10,
+      initialInterval: 100,
+      backoffCoefficient: 3,
+      maximumInterval: 1000,
+    };
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(300);
+    expect(getRetryDelay(policy, 3)).toBe(900);
+    expect(getRetryDelay(policy, 4)).toBe(1000);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should retry every error when no codes are listed", () => {
+    expect(isRetryableError(new Error("boom"), {})).toBe(true);
+    expect(
+      isRetryableError(new Error("boom"), { retryableErrorCodes: [] }),
+    ).toBe(true);
+  });
+
+  it("should only retry listed codes and timeouts", () => {
+    const policy = { retryableErrorCodes: ["ECONNRESET"] };
+
+    expect(isRetryableError(codedError("reset", "ECONNRESET"), policy)).toBe(
+      true,
+    );
+    expect(isRetryableError(codedError("slow", "TIMEOUT"), policy)).toBe(true);
+    expect(isRetryableError(codedError("denied", "FORBIDDEN"), policy)).toBe(
+      false,
+    );
+    expect(isRetryableError(new Error("boom"), policy)).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry failed attempts until one succeeds", async () => {
+    const runner = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue({ output: "ok" });
+    const node = createNode({ retry: { maxAttempts: 3, initialInterval: 1 } });
+
+    await expect(withRetry(runner, node)(run)).resolves.toEqual({
+      output: "ok",
+    });
+    expect(runner).toHaveBeenCalledTimes(3);
+  });
+
+  it("should throw the last error once attempts run out", async () => {
+    const runner = vi.fn().mockRejectedValue(new Error("down"));
+    const node = createNode({ retry: { maxAttempts: 2, initialInterval: 1 } });
+
+    await expect(withRetry(runner, node)(run)).rejects.toThrow("down");
+    expect(runner).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry errors without a retryable code", async () => {
+    const runner = vi.fn().mockRejectedValue(codedError("denied", "FORBIDDEN"));
+    const node = createNode({
+      retry: {
+        maxAttempts: 3,
+        initialInterval: 1,
+        retryableErrorCodes: ["ECONNRESET"],
+      },
+    });
+
+    await expect(withRetry(runner, node)(run)).rejects.toThrow("denied");
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail attempts exceeding the timeout", async () => {
+    const runner = vi.fn(() => new Promise<Record<string, unknown>>(() => {}));
+    const node = createNode({ retry: { maxAttempts: 1 }, timeout: 10 });
+
+    await expect(withRetry(runner, node)(run)).rejects.toMatchObject({
+      message: "Node risky timed out after 10ms",
+      code: "TIMEOUT",
+    });
+  });
+
+  it("should abort an attempt that timed out before retrying", async () => {
+    const signals: AbortSignal[] = [];
+    const runner = vi.fn(({ signal }: ItemRun) => {
+      signals.push(signal!);
+      // The first attempt hangs, the retry succeeds
+      return signals.length === 1
+        ? new Promise<Record<string, unknown>>(() => {})
+        : Promise.resolve({ output: "ok" });
+    });
+    const node = createNode({
+      retry: { maxAttempts: 2, initialInterval: 1 },
+      timeout: 10,
+    });
+
+    await expect(withRetry(runner, node)(run)).resolves.toEqual({
+      output: "ok",
+    });
+    expect(signals).toHaveLength(2);
+    expect(signals[0]!.aborted).toBe(true);
+    expect(signals[0]!.reason).toMatchObject({ code: "TIMEOUT" });
+    expect(signals[1]!.aborted).toBe(false);
+  });
+
+  it("should abort the attempt when the execution is cancelled", async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | undefined;
+    const runner = vi.fn(({ signal }: ItemRun) => {
+      attemptSignal = signal;
+      controller.abort();
+      return Promise.resolve({ output: "ok" });
+    });
+
+    await withRetry(runner, createNode(), controller.signal)(run);
+
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it("should stop waiting to retry when the execution is cancelled", async () => {
+    const controller = new AbortController();
+    const runner = vi.fn().mockImplementation(() => {
+      setTimeout(() => controller.abort(), 5);
+      return Promise.reject(new Error("flaky"));
+    });
+    const node = createNode({
+      retry: { maxAttempts: 3, initialInterval: 60_000 },
+    });
+
+    await expect(
+      withRetry(runner, node, controller.signal)(run),
+    ).rejects.toBeInstanceOf(ExecutionCancelledError);
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+});
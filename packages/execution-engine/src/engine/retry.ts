@@ -0,0 +1,148 @@
+/**
+ * Per-node retry and timeout policies
+ *
+ * Each plugin attempt is limited by the node's timeout, and failed attempts
+ * are retried with exponential backoff until the node's attempts run out.
+ * Nodes without a policy use the same defaults as the Temporal workflow, so
+ * routines behave the same in test runs and production.
+ *
+ * Retries apply per run: with multiple items, only the failing item's run
+ * is repeated. Errors left after the last attempt follow the node's error
+ * mode.
+ */
+
+import type { Node, NodeRetryPolicy } from "../types/graph.js";
+import { delay, isCancellationError } from "./cancellation.js";
+import type { ItemRun, ItemRunner } from "./item-execution.js";
+
+/**
+ * Retry policy for nodes that don't configure one
+ */
+export const DEFAULT_RETRY_POLICY: Required<
+  Omit<NodeRetryPolicy, "retryableErrorCodes">
+> = {
+  maxAttempts: 3,
+  initialInterval: 1000,
+  backoffCoefficient: 2,
+  maximumInterval: 60_000,
+};
+
+/** Time limit for each plugin attempt, in milliseconds */
+export const DEFAULT_NODE_TIMEOUT = 5 * 60_000;
+
+/** Code of the error thrown when an attempt exceeds the node's timeout */
+export const TIMEOUT_ERROR_CODE = "TIMEOUT";
+
+/**
+ * Get a node's retry policy, filled in with the defaults
+ */
+export function getRetryPolicy(
+  node: Node,
+): typeof DEFAULT_RETRY_POLICY & Pick<NodeRetryPolicy, "retryableErrorCodes"> {
+  return { ...DEFAULT_RETRY_POLICY, ...node.retry };
+}
+
+/**
+ * Get a node's time limit per attempt, in milliseconds
+ */
+export function getNodeTimeout(node: Node): number {
+  return node.timeout ?? DEFAULT_NODE_TIMEOUT;
+}
+
+/**
+ * Check whether a failed attempt may be retried
+ *
+ * Cancellation is never retried and timeouts always are; other errors
+ * must carry one of the policy's retryable codes when it lists any.
+ */
+export function isRetryableError(
+  error: unknown,
+  policy: Pick<NodeRetryPolicy, "retryableErrorCodes">,
+): boolean {
+  if (isCancellationError(error)) return false;
+
+  const codes = policy.retryableErrorCodes;
+  if (!codes || codes.length === 0) return true;
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    code === TIMEOUT_ERROR_CODE ||
+    (typeof code === "string" && codes.includes(code))
+  );
+}
+
+/**
+ * Delay before the retry following the given attempt (1-based)
+ */
+export function getRetryDelay(
+  policy: typeof DEFAULT_RETRY_POLICY,
+  attempt: number,
+): number {
+  return Math.min(
+    policy.initialInterval * policy.backoffCoefficient ** (attempt - 1),
+    policy.maximumInterval,
+  );
+}
+
+/**
+ * Wrap a runner so each attempt is time-limited and failed attempts are
+ * retried following the node's policy. Each attempt gets its own signal,
+ * aborted when it times out, so it stops before the next attempt starts.
+ * Cancelling the execution aborts the current attempt and the backoff.
+ */
+export function withRetry(
+  run: ItemRunner,
+  node: Node,
+  signal?: AbortSignal,
+): ItemRunner {
+  const policy = getRetryPolicy(node);
+  const timeout = getNodeTimeout(node);
+
+  return async (itemRun) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await runAttempt(run, itemRun, timeout, node.id, signal);
+      } catch (error) {
+        if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+          throw error;
+        }
+        await delay(getRetryDelay(policy, attempt), signal);
+      }
+    }
+  };
+}
+
+async function runAttempt(
+  run: ItemRunner,
+  itemRun: ItemRun,
+  timeout: number,
+  nodeId: string,
+  signal?: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = Object.assign(
+        new Error(`Node ${nodeId} timed out after ${timeout}ms`),
+        { code: TIMEOUT_ERROR_CODE },
+      );
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([
+      run({ ...itemRun, signal: controller.signal }),
+      timedOut,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
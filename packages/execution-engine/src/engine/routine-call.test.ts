@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_ROUTINE_CALL_DEPTH,
+  assertRoutineCallAllowed,
+  getCalledRoutineId,
+  getFinalOutputs,
+  getRoutineCall,
+  getRoutineCallOutput,
+  isExecuteRoutineNode,
+} from "./routine-call.js";
+import { ExecutionState } from "./execution-state.js";
+import type { Edge, ExecutionGraph, Node } from "../types/graph.js";
+
+describe("isExecuteRoutineNode", () => {
+  it("should only match execute-routine nodes", () => {
+    expect(isExecuteRoutineNode({ pluginId: "execute-routine" })).toBe(true);
+    expect(isExecuteRoutineNode({ pluginId: "http-request" })).toBe(false);
+  });
+});
+
+describe("getCalledRoutineId", () => {
+  it("should return static routine IDs only", () => {
+    const node = (routineId: unknown) => ({
+      pluginId: "execute-routine",
+      parameters: { routineId },
+    });
+
+    expect(getCalledRoutineId(node("r2"))).toBe("r2");
+    expect(getCalledRoutineId(node("{{ trigger.routineId }}"))).toBeUndefined();
+    expect(getCalledRoutineId(node(""))).toBeUndefined();
+    expect(
+      getCalledRoutineId({ pluginId: "wait", parameters: { routineId: "r2" } }),
+    ).toBeUndefined();
+  });
+});
+
+describe("getRoutineCall", () => {
+  it("should read the call from the node config", () => {
+    expect(
+      getRoutineCall({
+        routineId: "r2",
+        mode: "fire-and-forget",
+        input: { orderId: 42 },
+      }),
+    ).toEqual({
+      routineId: "r2",
+      mode: "fire-and-forget",
+      input: { orderId: 42 },
+    });
+  });
+
+  it("should default to waiting with empty input", () => {
+    expect(getRoutineCall({ routineId: "r2" })).toEqual({
+      routineId: "r2",
+      mode: "wait",
+      input: {},
+    });
+  });
+
+  it("should reject invalid calls", () => {
+    expect(() => getRoutineCall({})).toThrow("Choose a routine to execute");
+    expect(() => getRoutineCall({ routineId: "r2", mode: "later" })).toThrow(
+      "Invalid routine call mode: later",
+    );
+    expect(() => getRoutineCall({ routineId: "r2", input: [1, 2] })).toThrow(
+      "Routine input must be an object",
+    );
+  });
+});
+
+describe("assertRoutineCallAllowed", () => {
+  it("should allow calls to routines outside the call stack", () => {
+    expect(() => assertRoutineCallAllowed(["r1", "r2"], "r3")).not.toThrow();
+  });
+
+  it("should reject recursive calls", () => {
+    expect(() => assertRoutineCallAllowed(["r1", "r2"], "r1")).toThrow(
+      "Recursive routine call: r1 → r2 → r1",
+    );
+  });
+
+  it("should reject calls nested too deep", () => {
+    const callStack = Array.from(
+      { length: MAX_ROUTINE_CALL_DEPTH },
+      (_, i) => `r${i}`,
+    );
+    expect(() => assertRoutineCallAllowed(callStack, "other")).toThrow(
+      "nested more than",
+    );
+  });
+});
+
+describe("getFinalOutputs", () => {
+  function createGraph(nodeIds: string[], edges: Edge[]): ExecutionGraph {
+    const nodes = new Map<string, Node>(
+      nodeIds.map((id) => [
+        id,
+        { id, pluginId: "test", label: id, parameters: {} },
+      ]),
+    );
+    return {
+      routineId: "r1",
+      variables: {},
+      nodes,
+      edges,
+      edgesByTarget: new Map(),
+      edgesBySource: new Map(),
+    };
+  }
+
+  function edge(sourceNodeId: string, targetNodeId: string): Edge {
+    return {
+      id: `${sourceNodeId}-${targetNodeId}`,
+      sourceNodeId,
+      targetNodeId,
+      sourcePort: "output",
+      targetPort: "input",
+    };
+  }
+
+  function succeed(state: ExecutionState, nodeId: string, data: unknown) {
+    state.addNodeResult(nodeId, {
+      outputs: [{ portName: "output", items: [{ data, metadata: {} }] }],
+      executionTime: 1,
+      status: "success",
+    });
+  }
+
+  it("should return the outputs of the last node that ran on each branch", () => {
+    // a → b → c, a → d (d didn't run)
+    const graph = createGraph(
+      ["a", "b", "c", "d"],
+      [edge("a", "b"), edge("b", "c"), edge("a", "d")],
+    );
+    const state = new ExecutionState();
+    succeed(state, "a", 1);
+    succeed(state, "b", 2);
+    succeed(state, "c", 3);
+
+    expect(getFinalOutputs(graph, state)).toEqual({ c: { output: 3 } });
+  });
+
+  it("should leave out final nodes that failed", () => {
+    const graph = createGraph(["a", "b"], [edge("a", "b")]);
+    const state = new ExecutionState();
+    succeed(state, "a", 1);
+    state.addNodeResult("b", {
+      outputs: [],
+      executionTime: 1,
+      status: "error",
+      error: { message: "Boom" },
+    });
+
+    expect(getFinalOutputs(graph, state)).toEqual({});
+  });
+});
+
+describe("getRoutineCallOutput", () => {
+  it("should include the final outputs when waiting", () => {
+    expect(
+      getRoutineCallOutput(
+        { routineId: "r2", mode: "wait", input: {} },
+        "exec-2",
+        { last: { output: 3 } },
+      ),
+    ).toEqual({
+      output: {
+        routineId: "r2",
+        executionId: "exec-2",
+        status: "completed",
+        outputs: { last: { output: 3 } },
+      },
+    });
+  });
+
+  it("should report started calls for fire and forget", () => {
+    expect(
+      getRoutineCallOutput(
+        { routineId: "r2", mode: "fire-and-forget", input: {} },
+        "exec-2",
+      ),
+    ).toEqual({
+      output: { routineId: "r2", executionId: "exec-2", status: "started" },
+    });
+  });
+});
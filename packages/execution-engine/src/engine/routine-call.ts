@@ -0,0 +1,168 @@
+/**
+ * Routine call support
+ *
+ * Execute-routine nodes run another routine of the same user as a step.
+ * The node's input object becomes the called routine's trigger data, and
+ * the node either waits for the called routine and outputs its final node
+ * outputs, or starts it and continues right away (fire and forget).
+ *
+ * Starting routines is up to the runtime (the Temporal workflow starts a
+ * child workflow), so execute-routine nodes don't run their plugin: the
+ * runtime reads the call from the node's resolved config.
+ */
+
+import type { ExecutionGraph, Node } from "../types/graph.js";
+import type { ExecutionState } from "./execution-state.js";
+import { getOutputData } from "./item-execution.js";
+
+/** Plugin ID of the execute-routine node */
+export const EXECUTE_ROUTINE_PLUGIN_ID = "execute-routine";
+
+/**
+ * Routine calls nested deeper than this fail, so routines calling each
+ * other can't run forever even if the validator was bypassed
+ */
+export const MAX_ROUTINE_CALL_DEPTH = 10;
+
+/**
+ * Whether the node waits for the called routine
+ * - wait: wait for it to finish and output its final outputs
+ * - fire-and-forget: start it and continue right away
+ */
+export type RoutineCallMode = "wait" | "fire-and-forget";
+
+/**
+ * A call to another routine
+ */
+export interface RoutineCall {
+  routineId: string;
+  mode: RoutineCallMode;
+  /** Passed to the called routine as trigger data */
+  input: Record<string, unknown>;
+}
+
+/**
+ * Check whether a node is an execute-routine node
+ */
+export function isExecuteRoutineNode(node: Pick<Node, "pluginId">): boolean {
+  return node.pluginId === EXECUTE_ROUTINE_PLUGIN_ID;
+}
+
+/**
+ * Routine ID an execute-routine node calls, if it's set statically
+ * (undefined for expressions, which are only known at run time)
+ */
+export function getCalledRoutineId(
+  node: Pick<Node, "pluginId" | "parameters">,
+): string | undefined {
+  if (!isExecuteRoutineNode(node)) return undefined;
+
+  const routineId = node.parameters.routineId;
+  return typeof routineId === "string" &&
+    routineId.length > 0 &&
+    !routineId.includes("{{")
+    ? routineId
+    : undefined;
+}
+
+/**
+ * Read and validate the routine call from a node's resolved config
+ */
+export function getRoutineCall(config: Record<string, unknown>): RoutineCall {
+  const { routineId, mode = "wait", input } = config;
+
+  if (typeof routineId !== "string" || routineId.length === 0) {
+    throw new Error("Choose a routine to execute");
+  }
+  if (mode !== "wait" && mode !== "fire-and-forget") {
+    throw new Error(`Invalid routine call mode: ${String(mode)}`);
+  }
+  if (
+    input !== undefined &&
+    input !== null &&
+    (typeof input !== "object" || Array.isArray(input))
+  ) {
+    throw new Error("Routine input must be an object");
+  }
+
+  return {
+    routineId,
+    mode,
+    input: (input ?? {}) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Check that a routine may call another: the called routine must not
+ * already be running in the call chain, which must stay within
+ * MAX_ROUTINE_CALL_DEPTH
+ *
+ * @param callStack - Routine IDs of the calling executions, outermost first,
+ *   ending with the routine making the call
+ * @param routineId - Routine being called
+ */
+export function assertRoutineCallAllowed(
+  callStack: string[],
+  routineId: string,
+): void {
+  if (callStack.includes(routineId)) {
+    throw new Error(
+      `Recursive routine call: ${[...callStack, routineId].join(" → ")}`,
+    );
+  }
+  if (callStack.length >= MAX_ROUTINE_CALL_DEPTH) {
+    throw new Error(
+      `Routine calls are nested more than ${MAX_ROUTINE_CALL_DEPTH} levels deep`,
+    );
+  }
+}
+
+/**
+ * Final outputs of an execution: outputs of nodes that ran and don't feed
+ * into another node that ran, by node ID. For a linear routine this is the
+ * last node; for branching routines it's the end of each taken branch.
+ */
+export function getFinalOutputs(
+  graph: ExecutionGraph,
+  state: ExecutionState,
+): Record<string, unknown> {
+  const feedsExecutedNode = new Set<string>();
+  for (const edge of graph.edges) {
+    if (state.hasExecuted(edge.targetNodeId)) {
+      feedsExecutedNode.add(edge.sourceNodeId);
+    }
+  }
+
+  const outputs: Record<string, unknown> = {};
+  for (const nodeId of graph.nodes.keys()) {
+    if (!state.hasExecuted(nodeId) || feedsExecutedNode.has(nodeId)) continue;
+
+    const results = state.nodeResults.get(nodeId) ?? [];
+    const latest = results[results.length - 1];
+    if (latest?.status === "success") {
+      outputs[nodeId] = getOutputData(latest.outputs);
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Output of an execute-routine node
+ *
+ * @param executionId - Execution (workflow) ID of the called routine
+ * @param outputs - The called routine's final outputs (when waiting)
+ */
+export function getRoutineCallOutput(
+  call: RoutineCall,
+  executionId: string,
+  outputs?: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    output: {
+      routineId: call.routineId,
+      executionId,
+      status: call.mode === "wait" ? "completed" : "started",
+      ...(outputs !== undefined && { outputs }),
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { getWaitOutput, getWaitUntil, isWaitNode } from "./wait.js";
+
+// Wednesday, 2025-01-15 10:00 UTC
+const NOW = Date.UTC(2025, 0, 15, 10, 0);
+
+describe("isWaitNode", () => {
+  it("should only match wait nodes", () => {
+    expect(isWaitNode({ pluginId: "wait" })).toBe(true);
+    expect(isWaitNode({ pluginId: "static-data" })).toBe(false);
+  });
+});
+
+describe("getWaitUntil", () => {
+  describe("duration", () => {
+    it("should add the duration to now", () => {
+      expect(
+        getWaitUntil({ mode: "duration", amount: 2, unit: "hours" }, NOW),
+      ).toBe(NOW + 2 * 60 * 60 * 1000);
+      expect(getWaitUntil({ amount: 30 }, NOW)).toBe(NOW + 30 * 1000);
+    });
+
+    it("should reject invalid durations", () => {
+      expect(() => getWaitUntil({ amount: -1 }, NOW)).toThrow(
+        "Invalid wait amount: -1",
+      );
+      expect(() => getWaitUntil({ amount: 1, unit: "weeks" }, NOW)).toThrow(
+        "Invalid wait unit: weeks",
+      );
+      expect(() => getWaitUntil({ amount: 400, unit: "days" }, NOW)).toThrow(
+        "more than a year away",
+      );
+    });
+  });
+
+  describe("until", () => {
+    it("should wait until a date string or timestamp", () => {
+      expect(
+        getWaitUntil({ mode: "until", until: "2025-01-16T08:30:00Z" }, NOW),
+      ).toBe(Date.UTC(2025, 0, 16, 8, 30));
+      expect(getWaitUntil({ mode: "until", until: NOW + 5000 }, NOW)).toBe(
+        NOW + 5000,
+      );
+    });
+
+    it("should continue right away for past dates", () => {
+      expect(
+        getWaitUntil({ mode: "until", until: "2020-01-01T00:00:00Z" }, NOW),
+      ).toBe(NOW);
+    });
+
+    it("should reject invalid dates", () => {
+      expect(() =>
+        getWaitUntil({ mode: "until", until: "next week" }, NOW),
+      ).toThrow("Invalid wait until date: next week");
+    });
+  });
+
+  describe("weekday", () => {
+    it("should wait until the next matching weekday and time", () => {
+      // Monday and Friday at 09:00 -> Friday the 17th
+      expect(
+        getWaitUntil({ mode: "weekday", weekdays: [1, 5], time: "09:00" }, NOW),
+      ).toBe(Date.UTC(2025, 0, 17, 9, 0));
+    });
+
+    it("should use today when the time is still ahead", () => {
+      expect(
+        getWaitUntil({ mode: "weekday", weekdays: [3], time: "17:30" }, NOW),
+      ).toBe(Date.UTC(2025, 0, 15, 17, 30));
+    });
+
+    it("should wait a week when today's time has passed", () => {
+      expect(
+        getWaitUntil({ mode: "weekday", weekdays: [3], time: "09:00" }, NOW),
+      ).toBe(Date.UTC(2025, 0, 22, 9, 0));
+    });
+
+    it("should evaluate the time in the timezone", () => {
+      // 09:00 in New York is 14:00 UTC in January
+      expect(
+        getWaitUntil(
+          {
+            mode: "weekday",
+            weekdays: [4],
+            time: "09:00",
+            timezone: "America/New_York",
+          },
+          NOW,
+        ),
+      ).toBe(Date.UTC(2025, 0, 16, 14, 0));
+    });
+
+    it("should reject invalid weekdays, times and timezones", () => {
+      expect(() =>
+        getWaitUntil({ mode: "weekday", weekdays: [], time: "09:00" }, NOW),
+      ).toThrow("Choose at least one weekday");
+      expect(() =>
+        getWaitUntil({ mode: "weekday", weekdays: [1], time: "9am" }, NOW),
+      ).toThrow("Invalid wait time: 9am");
+      expect(() =>
+        getWaitUntil(
+          {
+            mode: "weekday",
+            weekdays: [1],
+            time: "09:00",
+            timezone: "Mars/Olympus",
+          },
+          NOW,
+        ),
+      ).toThrow("Invalid timezone: Mars/Olympus");
+    });
+  });
+
+  it("should reject unknown modes", () => {
+    expect(() => getWaitUntil({ mode: "forever" }, NOW)).toThrow(
+      "Invalid wait mode: forever",
+    );
+  });
+});
+
+describe("getWaitOutput", () => {
+  it("should pass input items on", () => {
+    expect(getWaitOutput({ input: [{ id: 1 }, { id: 2 }] }, NOW)).toEqual({
+      output: [{ id: 1 }, { id: 2 }],
+    });
+  });
+
+  it("should emit the wake-up time without input items", () => {
+    expect(getWaitOutput({}, NOW)).toEqual({
+      output: { waitedUntil: "2025-01-15T10:00:00.000Z" },
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Wait support
+ *
+ * Wait nodes pause an execution for a fixed duration, until a timestamp or
+ * until the next matching weekday and time, then pass their input items
+ * on unchanged.
+ *
+ * Waiting is up to the runtime (the Temporal workflow sleeps on a durable
+ * timer, the in-memory executor on a regular one), so wait nodes don't run
+ * their plugin: the runtime computes the wake-up time from the node's
+ * resolved config with getWaitUntil.
+ */
+
+import type { Node } from "../types/graph.js";
+
+/** Plugin ID of the wait node */
+export const WAIT_PLUGIN_ID = "wait";
+
+/** Longest time a wait node can wait: one year */
+export const MAX_WAIT_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * How a wait node decides when to continue
+ * - duration: after a fixed amount of time
+ * - until: at a timestamp (usually an expression)
+ * - weekday: at the next matching weekday and time of day
+ */
+export type WaitMode = "duration" | "until" | "weekday";
+
+/** Units for duration waits */
+export type WaitUnit = "seconds" | "minutes" | "hours" | "days";
+
+const UNIT_MS: Record<WaitUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check whether a node is a wait node
+ */
+export function isWaitNode(node: Pick<Node, "pluginId">): boolean {
+  return node.pluginId === WAIT_PLUGIN_ID;
+}
+
+/**
+ * Compute when a wait node continues, from its resolved config
+ *
+ * Timestamps in the past continue right away (the result is never before
+ * `now`).
+ *
+ * @param config - Node config with expressions resolved
+ * @param now - Current time (ms)
+ * @returns Wake-up time (ms)
+ */
+export function getWaitUntil(
+  config: Record<string, unknown>,
+  now: number,
+): number {
+  const mode = config.mode ?? "duration";
+  let until: number;
+
+  switch (mode) {
+    case "duration":
+      until = now + getDurationMs(config.amount, config.unit);
+      break;
+    case "until":
+      until = Math.max(now, parseTimestamp(config.until));
+      break;
+    case "weekday":
+      until = getNextWeekdayTime(
+        now,
+        config.weekdays,
+        config.time,
+        config.timezone,
+      );
+      break;
+    default:
+      throw new Error(`Invalid wait mode: ${String(mode)}`);
+  }
+
+  if (until - now > MAX_WAIT_MS) {
+    throw new Error(
+      `Wait until ${new Date(until).toISOString()} is more than a year away`,
+    );
+  }
+  return until;
+}
+
+/**
+ * Output of a wait node: its input items, unchanged (wait nodes run once
+ * for all items). Without input items it emits the time it waited until.
+ */
+export function getWaitOutput(
+  inputs: Record<string, unknown>,
+  waitedUntil: number,
+): Record<string, unknown> {
+  const items = Object.values(inputs).flatMap((value) =>
+    Array.isArray(value) ? value : [value],
+  );
+
+  return {
+    output:
+      items.length > 0
+        ? items
+        : { waitedUntil: new Date(waitedUntil).toISOString() },
+  };
+}
+
+function getDurationMs(amount: unknown, unit: unknown = "seconds"): number {
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid wait amount: ${String(amount)}`);
+  }
+  if (typeof unit !== "string" || !(unit in UNIT_MS)) {
+    throw new Error(`Invalid wait unit: ${String(unit)}`);
+  }
+  return amount * UNIT_MS[unit as WaitUnit];
+}
+
+/**
+ * Parse a timestamp: milliseconds, or a date string such as ISO 8601
+ */
+function parseTimestamp(value: unknown): number {
+  const timestamp =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim()
+        ? Date.parse(value)
+        : Number.NaN;
+
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`Invalid wait until date: ${String(value)}`);
+  }
+  return timestamp;
+}
+
+/**
+ * Find the next time after `now` falling on one of the weekdays at the
+ * given time of day, in the given IANA timezone (UTC by default)
+ */
+function getNextWeekdayTime(
+  now: number,
+  weekdays: unknown,
+  time: unknown,
+  timezone: unknown = "UTC",
+): number {
+  if (
+    !Array.isArray(weekdays) ||
+    weekdays.length === 0 ||
+    !weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  ) {
+    throw new Error("Choose at least one weekday to wait for");
+  }
+
+  const match = typeof time === "string" ? TIME_PATTERN.exec(time) : null;
+  if (!match) {
+    throw new Error(`Invalid wait time: ${String(time)} (use HH:MM)`);
+  }
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone: ${String(timezone)}`);
+  }
+
+  // Today in the timezone, then each following day of the week
+  const today = getZonedParts(now, timezone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = new Date(
+      Date.UTC(today.year, today.month - 1, today.day + offset),
+    );
+    if (!weekdays.includes(date.getUTCDay())) continue;
+
+    const candidate = zonedTimeToTimestamp(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      hour,
+      minute,
+      timezone,
+    );
+    if (candidate > now) return candidate;
+  }
+
+  // Unreachable: the same weekday a week later always matches
+  throw new Error("No matching weekday found");
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar date and time of a timestamp in a timezone
+ */
+function getZonedParts(timestamp: number, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year ?? 1970,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: parts.hour ?? 0,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a timestamp (ms)
+ */
+function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const parts = getZonedParts(timestamp, timezone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Timestamp of a wall-clock time in a timezone. Times skipped by a DST
+ * change resolve to the moment after the gap.
+ */
+function zonedTimeToTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string,
+): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimezoneOffset(wallClock, timezone);
+  const timestamp = wallClock - offset;
+
+  // The offset may differ at the actual moment (around DST changes)
+  const actualOffset = getTimezoneOffset(timestamp, timezone);
+  return actualOffset === offset ? timestamp : wallClock - actualOffset;
+}
@@ -28,6 +28,106 @@ export {
   type NodeExecutor,
 } from "./engine/iteration-strategy";
 
+// Loops
+export {
+  LOOP_PLUGIN_ID,
+  LOOP_ITERATION_HANDLE,
+  LOOP_COMPLETE_HANDLE,
+  isLoopNode,
+  findLoopBackEdges,
+  findLoopBodies,
+  getLoopContext,
+} from "./engine/loop";
+export type { LoopContext } from "./engine/loop";
+
+// Multi-item execution
+export { executeForItems, getOutputData } from "./engine/item-execution";
+export type {
+  ItemExecutionMode,
+  ItemRun,
+  ItemRunner,
+} from "./engine/item-execution";
+
+// Error handling
+export {
+  ERROR_HANDLE,
+  CONTINUE_HANDLE,
+  getErrorMode,
+  getErrorOutputs,
+  toExecutionError,
+  withErrorHandling,
+} from "./engine/error-handling";
+export type { NodeErrorMode } from "./engine/error-handling";
+
+// Retries and timeouts
+export {
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_NODE_TIMEOUT,
+  TIMEOUT_ERROR_CODE,
+  getRetryPolicy,
+  getNodeTimeout,
+  getRetryDelay,
+  isRetryableError,
+  withRetry,
+} from "./engine/retry";
+
+// Cancellation
+export {
+  ExecutionCancelledError,
+  isCancellationError,
+  throwIfCancelled,
+  withCancellation,
+} from "./engine/cancellation";
+
+// Re-running from a node
+export {
+  findDownstreamNodes,
+  seedRerunState,
+  restoreOutputs,
+} from "./engine/rerun";
+
+// Pinned sample data
+export { hasPinnedData, getPinnedOutputs } from "./engine/pinned-data";
+
+// Approvals
+export {
+  APPROVAL_PLUGIN_ID,
+  DEFAULT_APPROVAL_TIMEOUT_MINUTES,
+  MAX_APPROVAL_TIMEOUT_MINUTES,
+  isApprovalNode,
+  getApprovalRequest,
+  getApprovalOutput,
+} from "./engine/approval";
+export type {
+  ApprovalDecision,
+  ApprovalField,
+  ApprovalRequest,
+  ApprovalResponse,
+} from "./engine/approval";
+
+// Waits
+export {
+  WAIT_PLUGIN_ID,
+  MAX_WAIT_MS,
+  isWaitNode,
+  getWaitUntil,
+  getWaitOutput,
+} from "./engine/wait";
+export type { WaitMode, WaitUnit } from "./engine/wait";
+
+// Routine calls
+export {
+  EXECUTE_ROUTINE_PLUGIN_ID,
+  MAX_ROUTINE_CALL_DEPTH,
+  isExecuteRoutineNode,
+  getCalledRoutineId,
+  getRoutineCall,
+  assertRoutineCallAllowed,
+  getFinalOutputs,
+  getRoutineCallOutput,
+} from "./engine/routine-call";
+export type { RoutineCall, RoutineCallMode } from "./engine/routine-call";
+
 // Types
 export type {
   ExecutionItem,
@@ -37,6 +137,7 @@ export type {
   ExecutionError,
   ExecutionCallbacks,
   ExecutorOptions,
+  RerunOptions,
   ExecutionContext,
   ExecutionHelpers,
   HttpRequestOptions,
@@ -48,6 +149,7 @@ export type {
 
 export type {
   Node,
+  NodeRetryPolicy,
   Edge,
   RoutineDefinition,
   RoutineVariable,
@@ -62,6 +164,7 @@ export { PortType } from "./types/graph";
 
 // Execution state
 export { ExecutionState } from "./engine/execution-state";
+export { gatherNodeInputs } from "./engine/input-gatherer";
 
 // Validation
 export { validateGraph } from "./validation/graph-validator";
@@ -76,3 +179,14 @@ export type {
   ExpressionValidationWarning,
   ExpressionValidationResult,
 } from "./validation/expression-validator";
+export { validateExpressionTypes } from "./validation/expression-type-validator";
+export type {
+  ExpressionTypeValidationError,
+  NodeSchemaLookup,
+  NodeSchemas,
+} from "./validation/expression-type-validator";
+export { validateRoutineCalls } from "./validation/routine-call-validator";
+export type {
+  CallableRoutine,
+  RoutineCallValidationError,
+} from "./validation/routine-call-validator";
@@ -212,6 +212,314 @@ describe("Integration Tests with Real Plugins", () => {
     expect(falseNodeResult).toBeUndefined();
   });
 
+  it("should execute switch plugin routing to the matching case", async () => {
+    const routine: RoutineDefinition = {
+      id: "test-switch",
+      name: "Switch Test",
+      nodes: [
+        {
+          id: "static1",
+          pluginId: "static-data",
+          label: "Input Data",
+          parameters: {
+            data: "order-42",
+          },
+        },
+        {
+          id: "switch1",
+          pluginId: "switch",
+          label: "Route",
+          parameters: {
+            value: "{{ nodes.static1.output }}",
+            cases: [
+              { key: "refund", operator: "==", compareValue: "refund" },
+              {
+                key: "order",
+                operator: "matches",
+                compareValue: "^order-\\d+$",
+              },
+            ],
+          },
+        },
+        {
+          id: "refundNode",
+          pluginId: "static-data",
+          label: "Refund Branch",
+          parameters: { data: { branch: "refund" } },
+        },
+        {
+          id: "orderNode",
+          pluginId: "static-data",
+          label: "Order Branch",
+          parameters: { data: { branch: "order" } },
+        },
+        {
+          id: "defaultNode",
+          pluginId: "static-data",
+          label: "Default Branch",
+          parameters: { data: { branch: "default" } },
+        },
+      ],
+      connections: [
+        {
+          id: "e1",
+          sourceNodeId: "static1",
+          sourcePort: "output",
+          targetNodeId: "switch1",
+          targetPort: "data",
+          type: PortType.Main,
+        },
+        {
+          id: "e2",
+          sourceNodeId: "switch1",
+          sourcePort: "refund",
+          targetNodeId: "refundNode",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e3",
+          sourceNodeId: "switch1",
+          sourcePort: "order",
+          targetNodeId: "orderNode",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+        {
+          id: "e4",
+          sourceNodeId: "switch1",
+          sourcePort: "default",
+          targetNodeId: "defaultNode",
+          targetPort: "in",
+          type: PortType.Main,
+        },
+      ],
+    };
+
+    const result = await executor.execute(routine);
+
+    expect(result.status).toBe("completed");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "static1",
+      "switch1",
+      "orderNode",
+    ]);
+
+    const switchResult = result.nodeResults.get("switch1");
+    expect(switchResult?.[0]?.outputs.map((o) => o.portName)).toEqual([
+      "order",
+    ]);
+    expect(switchResult?.[0]?.outputs[0]?.items[0]?.data).toEqual({
+      value: "order-42",
+      matchedCase: "order",
+    });
+  });
+
+  it("should execute loop plugin body once per batch", async () => {
+    const routine: RoutineDefinition = {
+      id: "test-loop",
+      name: "Loop Test",
+      nodes: [
+        {
+          id: "loop1",
+          pluginId: "loop",
+          label: "Loop",
+          parameters: {
+            items: ["a", "b", "c"],
+            batchSize: 2,
+          },
+        },
+        {
+          id: "body",
+          pluginId: "static-data",
+          label: "Body",
+          parameters: {
+            data: { batch: "{{ $item }}", iteration: "{{ $iteration }}" },
+          },
+        },
+        {
+          id: "done",
+          pluginId: "static-data",
+          label: "Done",
+          parameters: { data: "{{ nodes.loop1.complete.iterations }}" },
+        },
+      ],
+      connections: [
+        {
+          id: "e1",
+          sourceNodeId: "loop1",
+          sourceHandle: "iteration",
+          targetNodeId: "body",
+        },
+        {
+          id: "e2",
+          sourceNodeId: "body",
+          targetNodeId: "loop1",
+        },
+        {
+          id: "e3",
+          sourceNodeId: "loop1",
+          sourceHandle: "complete",
+          targetNodeId: "done",
+        },
+      ],
+    };
+
+    const result = await executor.execute(routine);
+
+    expect(result.status).toBe("completed");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "loop1",
+      "body",
+      "loop1",
+      "body",
+      "loop1",
+      "done",
+    ]);
+
+    const bodyResults = result.nodeResults.get("body");
+    expect(bodyResults?.map((r) => r.outputs[0]?.items[0]?.data)).toEqual([
+      { batch: ["a", "b"], iteration: 0 },
+      { batch: ["c"], iteration: 1 },
+    ]);
+
+    const doneResult = result.nodeResults.get("done");
+    expect(doneResult?.[0]?.outputs[0]?.items[0]?.data).toBe(2);
+  });
+
+  it("should merge branches after if-else", async () => {
+    const routine: RoutineDefinition = {
+      id: "test-merge-branches",
+      name: "Merge Branches Test",
+      nodes: [
+        {
+          id: "if1",
+          pluginId: "if-else",
+          label: "Check Value",
+          parameters: {
+            value: 10,
+            conditionGroups: [
+              { conditions: [{ operator: ">", compareValue: 5 }] },
+            ],
+          },
+        },
+        {
+          id: "trueNode",
+          pluginId: "static-data",
+          label: "True Branch",
+          parameters: { data: { branch: "true" } },
+        },
+        {
+          id: "falseNode",
+          pluginId: "static-data",
+          label: "False Branch",
+          parameters: { data: { branch: "false" } },
+        },
+        {
+          id: "merge1",
+          pluginId: "merge",
+          label: "Merge",
+          parameters: { mode: "first" },
+        },
+      ],
+      connections: [
+        {
+          id: "e1",
+          sourceNodeId: "if1",
+          sourceHandle: "true",
+          targetNodeId: "trueNode",
+        },
+        {
+          id: "e2",
+          sourceNodeId: "if1",
+          sourceHandle: "false",
+          targetNodeId: "falseNode",
+        },
+        {
+          id: "e3",
+          sourceNodeId: "trueNode",
+          targetNodeId: "merge1",
+          targetHandle: "input1",
+        },
+        {
+          id: "e4",
+          sourceNodeId: "falseNode",
+          targetNodeId: "merge1",
+          targetHandle: "input2",
+        },
+      ],
+    };
+
+    const result = await executor.execute(routine);
+
+    expect(result.status).toBe("completed");
+    expect(result.executionPath.map((p) => p.nodeId)).toEqual([
+      "if1",
+      "trueNode",
+      "merge1",
+    ]);
+
+    const mergeResult = result.nodeResults.get("merge1");
+    expect(mergeResult?.[0]?.outputs[0]?.items[0]?.data).toEqual({
+      branch: "true",
+    });
+  });
+
+  it("should join merge inputs by key", async () => {
+    const routine: RoutineDefinition = {
+      id: "test-merge-join",
+      name: "Merge Join Test",
+      nodes: [
+        {
+          id: "users",
+          pluginId: "static-data",
+          label: "Users",
+          parameters: {
+            data: [
+              { id: 1, name: "Ada" },
+              { id: 2, name: "Grace" },
+            ],
+          },
+        },
+        {
+          id: "orders",
+          pluginId: "static-data",
+          label: "Orders",
+          parameters: { data: [{ id: 2, total: 30 }] },
+        },
+        {
+          id: "merge1",
+          pluginId: "merge",
+          label: "Merge",
+          parameters: { mode: "join", key: "id", joinType: "left" },
+        },
+      ],
+      connections: [
+        {
+          id: "e1",
+          sourceNodeId: "users",
+          targetNodeId: "merge1",
+          targetHandle: "input1",
+        },
+        {
+          id: "e2",
+          sourceNodeId: "orders",
+          targetNodeId: "merge1",
+          targetHandle: "input2",
+        },
+      ],
+    };
+
+    const result = await executor.execute(routine);
+
+    expect(result.status).toBe("completed");
+    const items = result.nodeResults.get("merge1")?.[0]?.outputs[0]?.items;
+    expect(items?.map((item) => item.data)).toEqual([
+      { id: 1, name: "Ada" },
+      { id: 2, name: "Grace", total: 30 },
+    ]);
+  });
+
   it("should handle missing plugin", async () => {
     const routine: RoutineDefinition = {
       id: "test-missing",
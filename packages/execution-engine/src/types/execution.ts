@@ -4,6 +4,8 @@
  * These types define the structure of execution data, results, and state.
  */
 
+import type { CodeSandbox } from "@kianax/plugin-sdk";
+
 /**
  * A single item of data flowing through the routine
  */
@@ -19,6 +21,12 @@ export interface ExecutionItem {
     sourcePort?: string;
     /** Index of the source item that produced this */
     sourceItemIndex?: number;
+    /**
+     * Ancestor items this item was derived from: upstream node ID -> index
+     * of the item in that node's output port. Used to resolve expressions
+     * relative to the current item.
+     */
+    lineage?: Record<string, number>;
     /** Loop iteration number (if inside a loop) */
     iteration?: number;
   };
@@ -51,7 +59,10 @@ export interface NodeExecutionResult {
   executionTime: number;
   /** Execution status */
   status: "success" | "error";
-  /** Error information if status is error */
+  /**
+   * Error information if status is error, or the error a node handled
+   * itself (see Node.onError)
+   */
   error?: ExecutionError;
 }
 
@@ -70,8 +81,11 @@ export interface ExecutionError {
  */
 export interface ExecutionResult {
   /** Final status */
-  status: "completed" | "failed";
-  /** Results for each node (keyed by node ID) */
+  status: "completed" | "failed" | "cancelled";
+  /**
+   * Results for each node (keyed by node ID), including outputs reused from
+   * an earlier execution when re-running from a node
+   */
   nodeResults: Map<string, NodeExecutionResult[]>;
   /** Execution path (order of node execution with run indexes) */
   executionPath: Array<{ nodeId: string; runIndex: number }>;
@@ -80,6 +94,8 @@ export interface ExecutionResult {
     nodeId: string;
     error: ExecutionError;
   }>;
+  /** Nodes that never ran because the execution was cancelled */
+  skippedNodes?: string[];
 }
 
 /**
@@ -121,6 +137,25 @@ export interface ExecutorOptions {
   maxNodes?: number;
   /** Enable detailed logging */
   verbose?: boolean;
+  /** Cancels the execution when aborted */
+  signal?: AbortSignal;
+  /**
+   * Emit nodes' pinned data instead of running their plugins. Only for test
+   * runs: production executions always run every node.
+   */
+  usePinnedData?: boolean;
+  /** Runs user code for plugins such as code (they fail without one) */
+  sandbox?: CodeSandbox;
+}
+
+/**
+ * Re-run a routine from a node, reusing an earlier execution's outputs
+ */
+export interface RerunOptions {
+  /** Node to start from; it and every node downstream of it run again */
+  startNodeId: string;
+  /** Outputs of the earlier execution by node ID (latest run of each node) */
+  nodeOutputs: Record<string, PortData[]>;
 }
 
 /**
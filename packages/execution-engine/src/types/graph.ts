@@ -33,6 +33,44 @@ export interface Node {
    * Mapping of Credential Request Alias (or ID) -> User Credential ID
    */
   credentialMappings?: Record<string, string>;
+  /**
+   * What happens when the plugin throws (default "stop"):
+   * - stop: fail the routine
+   * - continue: output { error } on the "output" handle and keep going
+   * - error-handle: route the error to the node's "error" handle
+   */
+  onError?: "stop" | "continue" | "error-handle";
+  /** Retries for failed plugin runs (defaults to DEFAULT_RETRY_POLICY) */
+  retry?: NodeRetryPolicy;
+  /** Time limit for each plugin attempt, in milliseconds (default 5 minutes) */
+  timeout?: number;
+  /**
+   * Sample output (port -> data) emitted instead of running the plugin in
+   * test runs. Arrays are emitted as one item per element.
+   */
+  pinnedData?: Record<string, unknown>;
+}
+
+/**
+ * How a node retries failed plugin runs
+ *
+ * The delay before attempt n + 1 is initialInterval * backoffCoefficient^(n - 1),
+ * capped at maximumInterval.
+ */
+export interface NodeRetryPolicy {
+  /** Total attempts, including the first (1 disables retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry, in milliseconds */
+  initialInterval?: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffCoefficient?: number;
+  /** Upper bound for the delay, in milliseconds */
+  maximumInterval?: number;
+  /**
+   * Only retry errors with one of these codes (e.g. "ECONNRESET");
+   * when empty, every error is retried
+   */
+  retryableErrorCodes?: string[];
 }
 
 /**
@@ -156,7 +194,11 @@ export interface GraphValidationError {
  * Graph validation warning
  */
 export interface GraphValidationWarning {
-  type: "unreachable_node" | "dead_end" | "multiple_entry_points";
+  type:
+    | "unreachable_node"
+    | "dead_end"
+    | "multiple_entry_points"
+    | "unconnected_error_handle";
   nodeId?: string;
   message: string;
 }
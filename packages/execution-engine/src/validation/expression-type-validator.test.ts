@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  validateExpressionTypes,
+  type NodeSchemas,
+} from "./expression-type-validator.js";
+import type { Node, RoutineDefinition } from "../types/graph.js";
+
+const PLUGINS: Record<string, NodeSchemas> = {
+  "http-request": {
+    outputs: {
+      success: z.object({
+        status: z.number(),
+        data: z.object({
+          items: z.array(z.object({ id: z.string(), price: z.number() })),
+          total: z.number().optional(),
+        }),
+        headers: z.record(z.string(), z.string()),
+      }),
+      error: z.object({ message: z.string() }),
+    },
+    config: z.object({
+      url: z.string(),
+      timeout: z.number().default(30000),
+      retries: z.coerce.number().optional(),
+      followRedirects: z.boolean().default(true),
+      headers: z.record(z.string(), z.string()).optional(),
+      body: z.unknown().optional(),
+    }),
+  },
+  "static-data": {
+    outputs: { output: z.unknown() },
+    config: z.object({ data: z.unknown() }),
+  },
+};
+
+function getSchemas(node: Pick<Node, "pluginId">): NodeSchemas | undefined {
+  return PLUGINS[node.pluginId];
+}
+
+function createRoutine(
+  parameters: Record<string, unknown>,
+  source: Partial<Node> = {},
+): Pick<RoutineDefinition, "nodes" | "variables"> {
+  return {
+    nodes: [
+      {
+        id: "http_1",
+        pluginId: "http-request",
+        label: "Fetch",
+        parameters: { url: "https://example.com" },
+        ...source,
+      },
+      { id: "target", pluginId: "http-request", label: "Target", parameters },
+    ],
+    variables: [
+      { id: "v1", name: "limit", type: "number", value: 10 },
+      { id: "v2", name: "settings", type: "json", value: {} },
+    ],
+  };
+}
+
+function validate(parameters: Record<string, unknown>, source?: Partial<Node>) {
+  return validateExpressionTypes(createRoutine(parameters, source), getSchemas);
+}
+
+describe("validateExpressionTypes", () => {
+  it("should pass for paths that exist and fields of the right type", () => {
+    const errors = validate({
+      url: "https://api.com/{{ nodes.http_1.success.data.items[0].id }}",
+      timeout: "{{ nodes.http_1.success.data.items[0].price * 1000 }}",
+      retries: "{{ vars.limit }}",
+      followRedirects: "{{ nodes.http_1.success.status == 200 }}",
+      headers: {
+        "X-Count": "{{ nodes.http_1.success.data.items.length }} items",
+      },
+      body: "{{ nodes.http_1.success.headers['content-type'] }}",
+    });
+    expect(errors).toEqual([]);
+  });
+
+  describe("unknown handles", () => {
+    it("should detect handles the plugin doesn't declare", () => {
+      const errors = validate({ url: "{{ nodes.http_1.sucess.data }}" });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        nodeId: "target",
+        expression: "{{ nodes.http_1.sucess.data }}",
+        type: "UNKNOWN_HANDLE",
+        message:
+          'Node "Fetch" has no "sucess" output. Its outputs are: success, error',
+      });
+    });
+
+    it("should allow the handles the engine adds for the error mode", () => {
+      expect(
+        validate(
+          { url: "{{ nodes.http_1.output.error.message }}" },
+          { onError: "continue" },
+        ),
+      ).toEqual([]);
+      expect(
+        validate(
+          { url: "{{ nodes.http_1.error.code }}" },
+          { onError: "error-handle" },
+        ),
+      ).toEqual([]);
+    });
+
+    it("should skip nodes whose plugin is unknown", () => {
+      expect(
+        validate({ url: "{{ nodes.http_1.anything }}" }, { pluginId: "x" }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("unknown fields", () => {
+    it("should detect fields missing from the output schema", () => {
+      const errors = validate({ url: "{{ nodes.http_1.success.data.item }}" });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        type: "UNKNOWN_FIELD",
+        message: 'nodes.http_1.success.data has no field "item"',
+      });
+    });
+
+    it("should detect fields read from lists and primitives", () => {
+      const errors = validate({
+        url: "{{ nodes.http_1.success.data.items.id }}",
+        body: "{{ nodes.http_1.success.status.code }}",
+      });
+
+      expect(errors.map((e) => e.message)).toEqual([
+        'nodes.http_1.success.data.items has no field "id" (it is a list)',
+        'nodes.http_1.success.status has no field "code" (it is a number)',
+      ]);
+    });
+
+    it("should check references inside operators and function calls", () => {
+      const errors = validate({
+        url: "{{ nodes.http_1.success.data.items | pluck('nme') | join(', ') }} {{ upper(nodes.http_1.success.statusText) }}",
+      });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        type: "UNKNOWN_FIELD",
+        expression: "{{ upper(nodes.http_1.success.statusText) }}",
+      });
+    });
+
+    it("should not check data without a schema", () => {
+      expect(
+        validate(
+          { url: "{{ nodes.http_1.output.anything.at.all }}" },
+          { pluginId: "static-data" },
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("type mismatches", () => {
+    it("should detect text feeding a number field", () => {
+      const errors = validate({
+        timeout: "{{ nodes.http_1.error.message }}",
+      });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        nodeId: "target",
+        expression: "{{ nodes.http_1.error.message }}",
+        type: "TYPE_MISMATCH",
+        message:
+          'Field "timeout" expects a number, but the expression gives text',
+      });
+    });
+
+    it("should treat text with expressions as text", () => {
+      const errors = validate({
+        timeout: "{{ vars.limit }}000",
+      });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.message).toBe(
+        'Field "timeout" expects a number, but text with expressions is text',
+      );
+    });
+
+    it("should infer types of variables, functions and operators", () => {
+      const errors = validate({
+        url: "{{ vars.limit + 1 }}",
+        timeout: "{{ round(vars.limit) }}",
+        followRedirects: "{{ length(nodes.http_1.success.data.items) }}",
+      });
+
+      expect(errors.map((e) => e.message)).toEqual([
+        'Field "url" expects text, but the expression gives a number',
+        'Field "followRedirects" expects true/false, but the expression gives a number',
+      ]);
+    });
+
+    it("should accept values whose type isn't known statically", () => {
+      expect(
+        validate({
+          url: "{{ vars.settings.url }}",
+          timeout: "{{ trigger.timeout }}",
+          followRedirects: "{{ vars.settings.followRedirects ?? false }}",
+        }),
+      ).toEqual([]);
+    });
+
+    it("should accept values coerced by the field", () => {
+      expect(validate({ retries: "{{ nodes.http_1.error.message }}" })).toEqual(
+        [],
+      );
+    });
+  });
+});
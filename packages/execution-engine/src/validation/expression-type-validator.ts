@@ -0,0 +1,658 @@
+/**
+ * Expression Type Validator
+ *
+ * Checks expressions against the schemas plugins declare:
+ * - {{ nodes.nodeId.handle }} must name an output handle the source plugin
+ *   declares for the node's config
+ * - Paths into a handle's data must exist in the handle's output schema
+ * - An expression filling a whole config field must have a type the
+ *   field's schema accepts (e.g. not text for a number field)
+ *
+ * Types are inferred from output schemas, variable types, function return
+ * types and operators. Where a schema can't be followed (unknown data,
+ * records, unions of different types), checking stops instead of guessing.
+ */
+
+import {
+  EXPRESSION_FUNCTIONS,
+  type ExpressionNode,
+  type ExpressionValueType,
+  findExpressions,
+  getSingleExpression,
+  getValueType,
+  parseExpression,
+} from "@kianax/shared/expressions";
+import { z } from "zod";
+import { CONTINUE_HANDLE, ERROR_HANDLE } from "../engine/error-handling";
+import type { Node, RoutineDefinition } from "../types/graph";
+
+/**
+ * Schemas of a node's plugin, for the node's config
+ */
+export interface NodeSchemas {
+  /** Data schema of each output handle the plugin declares */
+  outputs: Record<string, z.ZodType | undefined>;
+  /** Schema of the node's config */
+  config?: z.ZodType;
+}
+
+/**
+ * Get the schemas of a node's plugin; undefined for unknown plugins
+ */
+export type NodeSchemaLookup = (
+  node: Pick<Node, "pluginId" | "parameters">,
+) => NodeSchemas | undefined;
+
+/**
+ * Expression type validation error
+ */
+export interface ExpressionTypeValidationError {
+  /** The node containing the expression */
+  nodeId: string;
+  /** Node label for display */
+  nodeLabel?: string;
+  /** The expression string */
+  expression: string;
+  /** Error message */
+  message: string;
+  /** Error type for categorization */
+  type: "UNKNOWN_HANDLE" | "UNKNOWN_FIELD" | "TYPE_MISMATCH";
+}
+
+/**
+ * What an expression (or part of one) evaluates to: a source, a node's
+ * outputs, data described by a schema, or just a type
+ */
+type Inferred =
+  | { kind: "nodes" }
+  | { kind: "node"; node: Node }
+  | { kind: "vars" }
+  | { kind: "schema"; schema: z.ZodType }
+  | { kind: "type"; type: ExpressionValueType };
+
+/** Result of reading a key from a schema */
+type ChildSchema = z.ZodType | "missing" | "unknown";
+
+/**
+ * Subset of Zod 4 schema definitions read here
+ */
+interface ZodDef {
+  type: string;
+  innerType?: z.ZodType;
+  shape?: Record<string, z.ZodType>;
+  catchall?: z.ZodType;
+  valueType?: z.ZodType;
+  element?: z.ZodType;
+  items?: z.ZodType[];
+  rest?: z.ZodType | null;
+  options?: z.ZodType[];
+  left?: z.ZodType;
+  right?: z.ZodType;
+  values?: unknown[];
+  coerce?: boolean;
+  getter?: () => z.ZodType;
+}
+
+/** Wrappers that don't change which keys a value has */
+const WRAPPERS = new Set([
+  "optional",
+  "nullable",
+  "default",
+  "prefault",
+  "nonoptional",
+  "readonly",
+  "catch",
+]);
+
+const TYPE_NAMES: Record<ExpressionValueType, string> = {
+  string: "text",
+  number: "a number",
+  boolean: "true/false",
+  array: "a list",
+  object: "an object",
+  null: "null",
+  unknown: "an unknown value",
+};
+
+/**
+ * Errors that nodes not set to "stop" send downstream (see ExecutionError)
+ */
+const ExecutionErrorSchema = z.object({
+  message: z.string(),
+  code: z.string().optional(),
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Validate the expressions of a routine against its plugins' schemas
+ *
+ * Expressions that don't parse or reference nodes that don't exist are
+ * skipped; validateExpressions reports those.
+ *
+ * @param routine - The routine definition to validate
+ * @param getSchemas - Schemas of each node's plugin
+ */
+export function validateExpressionTypes(
+  routine: Pick<RoutineDefinition, "nodes" | "variables">,
+  getSchemas: NodeSchemaLookup,
+): ExpressionTypeValidationError[] {
+  const checker = new TypeChecker(routine, getSchemas);
+  for (const node of routine.nodes) checker.checkNode(node);
+  return checker.errors;
+}
+
+class TypeChecker {
+  readonly errors: ExpressionTypeValidationError[] = [];
+  private readonly nodes: Map<string, Node>;
+  private readonly variableTypes: Map<string, ExpressionValueType>;
+  private readonly schemas = new Map<string, NodeSchemas | undefined>();
+
+  /** Node and expression being checked, for reporting */
+  private current?: { node: Node; source: string; expression: string };
+
+  constructor(
+    routine: Pick<RoutineDefinition, "nodes" | "variables">,
+    private readonly getSchemas: NodeSchemaLookup,
+  ) {
+    this.nodes = new Map(routine.nodes.map((n) => [n.id, n]));
+    this.variableTypes = new Map(
+      (routine.variables ?? []).map((v) => [
+        v.name,
+        v.type === "json" ? "unknown" : v.type,
+      ]),
+    );
+  }
+
+  checkNode(node: Node): void {
+    const config = this.getNodeSchemas(node)?.config;
+    this.checkValue(node, node.parameters, [], config ? [config] : []);
+  }
+
+  /**
+   * Check the expressions in a config value
+   *
+   * @param path - Keys of the config field holding the value
+   * @param fields - Schemas of the field, if known
+   */
+  private checkValue(
+    node: Node,
+    value: unknown,
+    path: string[],
+    fields: z.ZodType[],
+  ): void {
+    if (typeof value === "string") {
+      this.checkTemplate(node, value, path, fields);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const key = String(index);
+        this.checkValue(node, item, [...path, key], getFields(fields, key));
+      });
+    } else if (typeof value === "object" && value !== null) {
+      for (const [key, item] of Object.entries(value)) {
+        this.checkValue(node, item, [...path, key], getFields(fields, key));
+      }
+    }
+  }
+
+  private checkTemplate(
+    node: Node,
+    template: string,
+    path: string[],
+    fields: z.ZodType[],
+  ): void {
+    const expressions = findExpressions(template);
+    if (expressions.length === 0) return;
+
+    let type: ExpressionValueType = "unknown";
+    for (const expression of expressions) {
+      let parsed: ExpressionNode;
+      try {
+        parsed = parseExpression(expression.source);
+      } catch {
+        continue;
+      }
+
+      this.current = {
+        node,
+        source: expression.source,
+        expression: template.slice(expression.start, expression.end),
+      };
+      type = getType(this.infer(parsed));
+    }
+
+    // A single expression keeps its type; text with expressions is text
+    const single = getSingleExpression(template);
+    const valueType = single ? type : "string";
+    const [field] = fields;
+    if (!field || fields.some((f) => acceptsType(f, valueType))) return;
+
+    this.current = {
+      node,
+      source: "",
+      expression: single
+        ? template.slice(single.start, single.end)
+        : template.trim(),
+    };
+    this.report(
+      `Field "${path.join(".")}" expects ${describeExpected(field)}, but ${single ? "the expression gives" : "text with expressions is"} ${TYPE_NAMES[valueType]}`,
+      "TYPE_MISMATCH",
+    );
+  }
+
+  /**
+   * Infer what an expression evaluates to, reporting unknown handles and
+   * fields along the way
+   */
+  private infer(node: ExpressionNode): Inferred {
+    switch (node.type) {
+      case "literal":
+        return { kind: "type", type: getValueType(node.value) };
+
+      case "array":
+        for (const element of node.elements) this.infer(element);
+        return { kind: "type", type: "array" };
+
+      case "identifier":
+        if (node.name === "nodes") return { kind: "nodes" };
+        if (node.name === "vars") return { kind: "vars" };
+        return { kind: "type", type: "unknown" };
+
+      case "member":
+        return this.readKey(this.infer(node.object), node.property, node);
+
+      case "index": {
+        const object = this.infer(node.object);
+        this.infer(node.index);
+        const { index } = node;
+        if (
+          index.type === "literal" &&
+          (typeof index.value === "number" || typeof index.value === "string")
+        ) {
+          return this.readKey(object, String(index.value), node);
+        }
+        return readComputedKey(object);
+      }
+
+      case "call": {
+        const types = node.args.map((arg) => getType(this.infer(arg)));
+        // default(value, fallback) is whichever of its arguments is set
+        if (node.name === "default") {
+          return { kind: "type", type: mergeTypes(types) };
+        }
+        const fn = EXPRESSION_FUNCTIONS.get(node.name);
+        return { kind: "type", type: fn?.returns ?? "unknown" };
+      }
+
+      case "unary":
+        this.infer(node.argument);
+        return {
+          kind: "type",
+          type: node.operator === "!" ? "boolean" : "number",
+        };
+
+      case "conditional":
+        this.infer(node.test);
+        return {
+          kind: "type",
+          type: mergeTypes([
+            getType(this.infer(node.consequent)),
+            getType(this.infer(node.alternate)),
+          ]),
+        };
+
+      case "binary": {
+        const left = getType(this.infer(node.left));
+        const right = getType(this.infer(node.right));
+        return {
+          kind: "type",
+          type: getOperatorType(node.operator, left, right),
+        };
+      }
+    }
+  }
+
+  /**
+   * Read a key: a node of nodes, a handle of a node, a variable, or a
+   * field of schema-described data
+   *
+   * @param access - The member or index expression reading the key
+   */
+  private readKey(
+    object: Inferred,
+    key: string,
+    access: ExpressionNode & { type: "member" | "index" },
+  ): Inferred {
+    switch (object.kind) {
+      case "nodes": {
+        const node = this.nodes.get(key);
+        return node ? { kind: "node", node } : unknownValue();
+      }
+
+      case "node":
+        return this.readHandle(object.node, key);
+
+      case "vars":
+        return { kind: "type", type: this.variableTypes.get(key) ?? "unknown" };
+
+      case "schema": {
+        const parentType = getSchemaType(object.schema);
+        if (
+          key === "length" &&
+          (parentType === "array" || parentType === "string")
+        ) {
+          return { kind: "type", type: "number" };
+        }
+
+        const child = getChildSchema(object.schema, key);
+        if (child === "missing") {
+          const path = this.getSource(access.object);
+          this.report(
+            `${path} has no field "${key}"${parentType === "object" ? "" : ` (it is ${TYPE_NAMES[parentType]})`}`,
+            "UNKNOWN_FIELD",
+          );
+          return unknownValue();
+        }
+        return child === "unknown"
+          ? unknownValue()
+          : { kind: "schema", schema: child };
+      }
+
+      case "type":
+        return unknownValue();
+    }
+  }
+
+  /**
+   * Data of a node's output handle, including the handles the engine adds
+   * for the node's error mode
+   */
+  private readHandle(node: Node, handle: string): Inferred {
+    const schemas = this.getNodeSchemas(node);
+    if (!schemas) return unknownValue();
+
+    const schema = getHandleSchema(node, handle, schemas);
+    if (schema) return { kind: "schema", schema };
+    if (Object.hasOwn(schemas.outputs, handle)) return unknownValue();
+
+    const handles = Object.keys(schemas.outputs);
+    this.report(
+      `Node "${node.label ?? node.id}" has no "${handle}" output${handles.length > 0 ? `. Its outputs are: ${handles.join(", ")}` : ""}`,
+      "UNKNOWN_HANDLE",
+    );
+    return unknownValue();
+  }
+
+  private getNodeSchemas(node: Node): NodeSchemas | undefined {
+    if (!this.schemas.has(node.id)) {
+      this.schemas.set(node.id, this.getSchemas(node));
+    }
+    return this.schemas.get(node.id);
+  }
+
+  /** Text of part of the current expression */
+  private getSource(node: ExpressionNode): string {
+    return this.current?.source.slice(node.start, node.end) ?? "";
+  }
+
+  private report(
+    message: string,
+    type: ExpressionTypeValidationError["type"],
+  ): void {
+    if (!this.current) return;
+    const { node, expression } = this.current;
+    this.errors.push({
+      nodeId: node.id,
+      nodeLabel: node.label,
+      expression,
+      message,
+      type,
+    });
+  }
+}
+
+/**
+ * Data schema of a node's output handle, including the errors the engine
+ * sends for the node's error mode
+ */
+function getHandleSchema(
+  node: Node,
+  handle: string,
+  schemas: NodeSchemas,
+): z.ZodType | undefined {
+  const declared = Object.hasOwn(schemas.outputs, handle)
+    ? schemas.outputs[handle]
+    : undefined;
+
+  if (node.onError === "error-handle" && handle === ERROR_HANDLE) {
+    return declared
+      ? z.union([declared, ExecutionErrorSchema])
+      : ExecutionErrorSchema;
+  }
+  if (node.onError === "continue" && handle === CONTINUE_HANDLE) {
+    const failed = z.object({ error: ExecutionErrorSchema });
+    return declared ? z.union([declared, failed]) : failed;
+  }
+  return declared;
+}
+
+function unknownValue(): Inferred {
+  return { kind: "type", type: "unknown" };
+}
+
+function getType(inferred: Inferred): ExpressionValueType {
+  switch (inferred.kind) {
+    case "schema":
+      return getSchemaType(inferred.schema);
+    case "type":
+      return inferred.type;
+    default:
+      return "object";
+  }
+}
+
+/**
+ * Value read with a computed key: a list item or record value
+ */
+function readComputedKey(object: Inferred): Inferred {
+  if (object.kind !== "schema") return unknownValue();
+  const schema = unwrap(object.schema);
+  const def = getDef(schema);
+  if (def.type === "array" && def.element) {
+    return { kind: "schema", schema: def.element };
+  }
+  if (def.type === "record" && def.valueType) {
+    return { kind: "schema", schema: def.valueType };
+  }
+  return unknownValue();
+}
+
+/**
+ * One type if all are the same, otherwise unknown
+ */
+function mergeTypes(types: ExpressionValueType[]): ExpressionValueType {
+  const [first] = types;
+  return first && types.every((type) => type === first) ? first : "unknown";
+}
+
+function getOperatorType(
+  operator: string,
+  left: ExpressionValueType,
+  right: ExpressionValueType,
+): ExpressionValueType {
+  switch (operator) {
+    case "+":
+      if (left === "number" && right === "number") return "number";
+      if (left === "array" && right === "array") return "array";
+      if (left === "string" || right === "string") return "string";
+      return "unknown";
+    case "-":
+    case "*":
+    case "/":
+    case "%":
+      return "number";
+    case "??":
+    case "||":
+    case "&&":
+      return mergeTypes([left, right]);
+    default:
+      // Equality and comparisons
+      return "boolean";
+  }
+}
+
+function getDef(schema: z.ZodType): ZodDef {
+  return schema._zod.def as unknown as ZodDef;
+}
+
+/**
+ * Unwrap optional, nullable, default and similar schemas, and lazy ones
+ */
+function unwrap(schema: z.ZodType): z.ZodType {
+  let current = schema;
+  for (;;) {
+    const def = getDef(current);
+    if (WRAPPERS.has(def.type) && def.innerType) {
+      current = def.innerType;
+    } else if (def.type === "lazy" && def.getter) {
+      current = def.getter();
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Type of the values a schema describes
+ */
+function getSchemaType(schema: z.ZodType): ExpressionValueType {
+  const def = getDef(unwrap(schema));
+  switch (def.type) {
+    case "string":
+    case "enum":
+    case "template_literal":
+      return "string";
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "object":
+    case "record":
+      return "object";
+    case "array":
+    case "tuple":
+      return "array";
+    case "literal":
+      return mergeTypes((def.values ?? []).map(getValueType));
+    case "union":
+      return mergeTypes((def.options ?? []).map(getSchemaType));
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Schema of a key of the values a schema describes: "missing" if they
+ * can't have the key, "unknown" if the schema doesn't say
+ */
+function getChildSchema(schema: z.ZodType, key: string): ChildSchema {
+  const unwrapped = unwrap(schema);
+  const def = getDef(unwrapped);
+  const isIndex = /^\d+$/.test(key);
+
+  switch (def.type) {
+    case "object": {
+      const shape = def.shape ?? {};
+      if (Object.hasOwn(shape, key)) return shape[key]!;
+      if (def.catchall && getDef(def.catchall).type !== "never") {
+        return def.catchall;
+      }
+      return "missing";
+    }
+    case "record":
+      return def.valueType ?? "unknown";
+    case "array":
+      if (key === "length") return "unknown";
+      return isIndex ? (def.element ?? "unknown") : "missing";
+    case "tuple": {
+      if (key === "length") return "unknown";
+      if (!isIndex) return "missing";
+      return def.items?.[Number(key)] ?? def.rest ?? "missing";
+    }
+    case "string":
+    case "enum":
+    case "template_literal":
+      return key === "length" || isIndex ? "unknown" : "missing";
+    case "number":
+    case "boolean":
+    case "null":
+      return "missing";
+    case "union":
+    case "intersection": {
+      const options =
+        def.type === "union"
+          ? (def.options ?? [])
+          : [def.left, def.right].filter((s): s is z.ZodType => !!s);
+      const children = options.map((option) => getChildSchema(option, key));
+      const found = children.filter(
+        (child): child is z.ZodType => typeof child !== "string",
+      );
+      if (children.includes("unknown")) return "unknown";
+      if (found.length === 1) return found[0]!;
+      if (found.length > 1) return "unknown";
+      return "missing";
+    }
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Schemas of a config field, given the schemas of the object holding it.
+ * Fields the schemas don't describe aren't checked.
+ */
+function getFields(fields: z.ZodType[], key: string): z.ZodType[] {
+  return fields.flatMap((field) => {
+    const child = getChildSchema(field, key);
+    return typeof child === "string" ? [] : [child];
+  });
+}
+
+/**
+ * Whether a config field accepts values of a type
+ */
+function acceptsType(schema: z.ZodType, type: ExpressionValueType): boolean {
+  if (type === "unknown") return true;
+
+  const def = getDef(schema);
+  if (WRAPPERS.has(def.type) && def.innerType) {
+    if (type === "null" && def.type === "nullable") return true;
+    return acceptsType(def.innerType, type);
+  }
+  if (def.type === "union") {
+    return (def.options ?? []).some((option) => acceptsType(option, type));
+  }
+
+  const expected = getSchemaType(schema);
+  if (expected === "unknown" || expected === type) return true;
+  // z.coerce schemas convert other primitives
+  return def.coerce === true && type !== "array" && type !== "object";
+}
+
+/**
+ * Types a config field accepts, e.g. "a number or text"
+ */
+function describeExpected(schema: z.ZodType): string {
+  const types = new Set<string>();
+  const collect = (current: z.ZodType) => {
+    const def = getDef(unwrap(current));
+    if (def.type === "union") {
+      for (const option of def.options ?? []) collect(option);
+    } else {
+      types.add(TYPE_NAMES[getSchemaType(current)]);
+    }
+  };
+  collect(schema);
+  return [...types].join(" or ");
+}
@@ -311,6 +311,44 @@ describe("validateExpressions", () => {
     });
   });
 
+  describe("loop references", () => {
+    it("should pass for $item and $iteration inside a loop body", () => {
+      const routine = createRoutine(
+        [
+          { ...createNode("loop"), pluginId: "loop" },
+          createNode("body", {
+            name: "{{ $item.name }}",
+            label: "Item {{ $iteration }}",
+          }),
+        ],
+        [
+          { ...createEdge("loop", "body"), sourceHandle: "iteration" },
+          createEdge("body", "loop"),
+        ],
+      );
+
+      const result = validateExpressions(routine);
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it("should error on $item outside a loop body", () => {
+      const routine = createRoutine(
+        [
+          { ...createNode("loop"), pluginId: "loop" },
+          createNode("done", { value: "{{ $item }}" }),
+        ],
+        [{ ...createEdge("loop", "done"), sourceHandle: "complete" }],
+      );
+
+      const result = validateExpressions(routine);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.type).toBe("OUTSIDE_LOOP");
+    });
+  });
+
   describe("complex scenarios", () => {
     it("should validate diamond dependency correctly", () => {
       // Diamond: node1 -> node2 -> node4
@@ -403,6 +441,48 @@ describe("validateExpressions", () => {
     });
   });
 
+  describe("invalid expression errors", () => {
+    it("should error on syntax errors", () => {
+      const routine = createRoutine([
+        createNode("node1", { value: "{{ trigger.count + }}" }),
+      ]);
+
+      const result = validateExpressions(routine);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.type).toBe("INVALID_EXPRESSION");
+      expect(result.errors[0]?.expression).toBe("{{ trigger.count + }}");
+    });
+
+    it("should error on unknown functions and wrong argument counts", () => {
+      const routine = createRoutine([
+        createNode("node1", {
+          a: "{{ trigger.name | shout }}",
+          b: "{{ round() }}",
+        }),
+      ]);
+
+      const result = validateExpressions(routine);
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]?.message).toContain("Unknown function: shout");
+      expect(result.errors[1]?.message).toContain("round() takes");
+    });
+
+    it("should validate references inside operators and pipes", () => {
+      const routine = createRoutine([
+        createNode("node1", {
+          value: "{{ trigger.count + vars.missing | round }}",
+        }),
+      ]);
+
+      const result = validateExpressions(routine);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.type).toBe("UNDEFINED_VARIABLE");
+    });
+  });
+
   describe("warnings", () => {
     it("should warn on unknown expression source", () => {
       const routine = createRoutine([
@@ -412,7 +492,8 @@ describe("validateExpressions", () => {
       const result = validateExpressions(routine);
 
       // Unknown source returns undefined at runtime but doesn't block
-      expect(result.warnings.length).toBeGreaterThanOrEqual(0);
+      expect(result.valid).toBe(true);
+      expect(result.warnings[0]?.type).toBe("UNKNOWN_SOURCE");
     });
   });
 });
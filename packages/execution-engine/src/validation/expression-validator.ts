@@ -5,13 +5,18 @@
  * - {{ vars.name }} references must point to existing routine variables
  * - {{ nodes.nodeId.port }} references must point to upstream nodes
  * - {{ trigger.* }} and {{ execution.* }} are always valid (runtime data)
+ * - {{ $item }} and {{ $iteration }} are only valid inside a loop body
+ * - Expressions must parse, and call standard library functions with the
+ *   right number of arguments
  */
 
+import { checkExpression, findExpressions } from "@kianax/shared/expressions";
 import {
   ExpressionResolver,
   createEmptyContext,
   type VariableReference,
 } from "../engine/expression-resolver";
+import { findLoopBodies } from "../engine/loop";
 import type { Node, Edge, RoutineDefinition } from "../types/graph";
 
 /**
@@ -31,7 +36,9 @@ export interface ExpressionValidationError {
     | "UNDEFINED_VARIABLE"
     | "INVALID_NODE_REF"
     | "NOT_UPSTREAM"
-    | "SELF_REFERENCE";
+    | "SELF_REFERENCE"
+    | "OUTSIDE_LOOP"
+    | "INVALID_EXPRESSION";
 }
 
 /**
@@ -78,11 +85,22 @@ export function validateExpressions(
   // Build upstream map for each node
   const upstreamMap = buildUpstreamMap(routine.nodes, routine.connections);
 
+  // Nodes inside any loop body
+  const loopBodyNodes = new Set<string>();
+  for (const body of findLoopBodies(
+    routine.nodes,
+    routine.connections,
+  ).values()) {
+    for (const nodeId of body) loopBodyNodes.add(nodeId);
+  }
+
   // Create a resolver just for extracting references (context doesn't matter)
   const resolver = new ExpressionResolver(createEmptyContext());
 
   // Validate each node's parameters
   for (const node of routine.nodes) {
+    validateSyntax(node, node.parameters, errors, warnings);
+
     const references = resolver.extractReferences(node.parameters);
     const upstreamNodes = upstreamMap.get(node.id) || new Set<string>();
 
@@ -93,6 +111,7 @@ export function validateExpressions(
         validVariables,
         allNodeIds,
         upstreamNodes,
+        loopBodyNodes.has(node.id),
         errors,
         warnings,
       );
@@ -106,6 +125,49 @@ export function validateExpressions(
   };
 }
 
+/**
+ * Check that the expressions in a value parse and call known functions.
+ * Unknown sources only warn: they resolve to undefined at runtime.
+ */
+function validateSyntax(
+  node: Node,
+  value: unknown,
+  errors: ExpressionValidationError[],
+  warnings: ExpressionValidationWarning[],
+): void {
+  if (typeof value === "string") {
+    for (const expression of findExpressions(value)) {
+      const problem = checkExpression(expression.source);
+      if (!problem) continue;
+
+      const text = value.slice(expression.start, expression.end);
+      if (problem.code === "UNKNOWN_SOURCE") {
+        warnings.push({
+          nodeId: node.id,
+          nodeLabel: node.label,
+          expression: text,
+          message: problem.message,
+          type: "UNKNOWN_SOURCE",
+        });
+      } else {
+        errors.push({
+          nodeId: node.id,
+          nodeLabel: node.label,
+          expression: text,
+          message: `Invalid expression: ${problem.message}`,
+          type: "INVALID_EXPRESSION",
+        });
+      }
+    }
+  } else if (Array.isArray(value)) {
+    for (const item of value) validateSyntax(node, item, errors, warnings);
+  } else if (typeof value === "object" && value !== null) {
+    for (const item of Object.values(value)) {
+      validateSyntax(node, item, errors, warnings);
+    }
+  }
+}
+
 /**
  * Validate a single variable reference
  */
@@ -115,6 +177,7 @@ function validateReference(
   validVariables: Set<string>,
   allNodeIds: Set<string>,
   upstreamNodes: Set<string>,
+  inLoopBody: boolean,
   errors: ExpressionValidationError[],
   warnings: ExpressionValidationWarning[],
 ): void {
@@ -132,6 +195,19 @@ function validateReference(
       // These are always valid - they reference runtime data
       break;
 
+    case "$item":
+    case "$iteration":
+      if (!inLoopBody) {
+        errors.push({
+          nodeId: node.id,
+          nodeLabel: node.label,
+          expression: ref.expression,
+          message: `${ref.source} is only available inside a loop body. Connect this node to a Loop node's Iteration output.`,
+          type: "OUTSIDE_LOOP",
+        });
+      }
+      break;
+
     default:
       // Unknown source type
       warnings.push({
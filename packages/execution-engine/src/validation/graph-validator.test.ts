@@ -256,6 +256,91 @@ describe("validateGraph", () => {
       expect(result.errors.some((e) => e.type === "cycle_detected")).toBe(true);
     });
 
+    it("should allow cycles through a loop node", () => {
+      const routine = createRoutine(
+        [
+          { id: "start", pluginId: "test", label: "Start", parameters: {} },
+          { id: "loop", pluginId: "loop", label: "Loop", parameters: {} },
+          { id: "body", pluginId: "test", label: "Body", parameters: {} },
+          { id: "done", pluginId: "test", label: "Done", parameters: {} },
+        ],
+        [
+          {
+            id: "e1",
+            sourceNodeId: "start",
+            targetNodeId: "loop",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+          {
+            id: "e2",
+            sourceNodeId: "loop",
+            sourceHandle: "iteration",
+            targetNodeId: "body",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+          {
+            id: "e3",
+            sourceNodeId: "body",
+            targetNodeId: "loop",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+          {
+            id: "e4",
+            sourceNodeId: "loop",
+            sourceHandle: "complete",
+            targetNodeId: "done",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+        ],
+      );
+
+      const result = validateGraph(routine);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+
+    it("should detect cycles that bypass the loop node", () => {
+      const routine = createRoutine(
+        [
+          { id: "loop", pluginId: "loop", label: "Loop", parameters: {} },
+          { id: "node1", pluginId: "test", label: "Node 1", parameters: {} },
+          { id: "node2", pluginId: "test", label: "Node 2", parameters: {} },
+        ],
+        [
+          {
+            id: "e1",
+            sourceNodeId: "loop",
+            sourceHandle: "iteration",
+            targetNodeId: "node1",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+          {
+            id: "e2",
+            sourceNodeId: "node1",
+            targetNodeId: "node2",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+          {
+            id: "e3",
+            sourceNodeId: "node2",
+            targetNodeId: "node1",
+            targetPort: "in",
+            type: PortType.Main,
+          },
+        ],
+      );
+
+      const result = validateGraph(routine);
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.type === "cycle_detected")).toBe(true);
+    });
+
     it("should pass for DAG (directed acyclic graph)", () => {
       const routine = createRoutine(
         [
@@ -360,6 +445,67 @@ describe("validateGraph", () => {
     });
   });
 
+  describe("error handle warning", () => {
+    it("should warn when an error handle has no connection", () => {
+      const routine = createRoutine(
+        [
+          {
+            id: "http",
+            pluginId: "http-request",
+            label: "Fetch",
+            parameters: {},
+            onError: "error-handle",
+          },
+          { id: "next", pluginId: "test", label: "Next", parameters: {} },
+        ],
+        [
+          {
+            id: "e1",
+            sourceNodeId: "http",
+            sourceHandle: "success",
+            targetNodeId: "next",
+          },
+        ],
+      );
+
+      const result = validateGraph(routine);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContainEqual({
+        type: "unconnected_error_handle",
+        nodeId: "http",
+        message: expect.stringContaining("error handle"),
+      });
+    });
+
+    it("should not warn when the error handle is connected", () => {
+      const routine = createRoutine(
+        [
+          {
+            id: "http",
+            pluginId: "http-request",
+            label: "Fetch",
+            parameters: {},
+            onError: "error-handle",
+          },
+          { id: "notify", pluginId: "test", label: "Notify", parameters: {} },
+        ],
+        [
+          {
+            id: "e1",
+            sourceNodeId: "http",
+            sourceHandle: "error",
+            targetNodeId: "notify",
+          },
+        ],
+      );
+
+      const result = validateGraph(routine);
+      expect(
+        result.warnings.filter((w) => w.type === "unconnected_error_handle"),
+      ).toEqual([]);
+    });
+  });
+
   describe("complex scenarios", () => {
     it("should validate complex graph with multiple branches", () => {
       const routine = createRoutine(
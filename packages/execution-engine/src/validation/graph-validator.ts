@@ -6,6 +6,13 @@
  * - No orphaned nodes
  * - No cycles (or valid cycles for loops)
  * - All connections are valid
+ *
+ * Cycles are allowed only when they pass through a loop node: the edge
+ * closing such a cycle is a loop back edge and is left out of the entry
+ * node and cycle checks.
+ *
+ * Nodes that route errors to their "error" handle get a warning when
+ * nothing is connected to it, since their errors would be dropped.
  */
 
 import type {
@@ -16,6 +23,8 @@ import type {
   Node,
   RoutineDefinition,
 } from "../types/graph.js";
+import { ERROR_HANDLE, getErrorMode } from "../engine/error-handling.js";
+import { findLoopBackEdges } from "../engine/loop.js";
 
 /**
  * Validate a routine graph structure
@@ -26,8 +35,14 @@ export function validateGraph(
   const errors: GraphValidationError[] = [];
   const warnings: GraphValidationWarning[] = [];
 
+  // Edges that don't close a loop
+  const backEdges = findLoopBackEdges(routine.nodes, routine.connections);
+  const forwardEdges = routine.connections.filter(
+    (edge) => !backEdges.has(edge.id),
+  );
+
   // 1. Check for entry nodes (nodes with no incoming edges)
-  const entryNodes = findEntryNodes(routine.nodes, routine.connections);
+  const entryNodes = findEntryNodes(routine.nodes, forwardEdges);
   if (entryNodes.length === 0) {
     errors.push({
       type: "no_entry_nodes",
@@ -69,7 +84,7 @@ export function validateGraph(
   }
 
   // 4. Check for cycles (excluding valid loop edges)
-  const cycles = detectCycles(routine.nodes, routine.connections);
+  const cycles = detectCycles(routine.nodes, forwardEdges);
   for (const cycle of cycles) {
     errors.push({
       type: "cycle_detected",
@@ -99,6 +114,24 @@ export function validateGraph(
     });
   }
 
+  // 7. Warn about error handles that go nowhere
+  for (const node of routine.nodes) {
+    if (getErrorMode(node) !== "error-handle") continue;
+
+    const hasErrorEdge = routine.connections.some(
+      (edge) =>
+        edge.sourceNodeId === node.id &&
+        (edge.sourceHandle ?? edge.sourcePort) === ERROR_HANDLE,
+    );
+    if (!hasErrorEdge) {
+      warnings.push({
+        type: "unconnected_error_handle",
+        nodeId: node.id,
+        message: `Node "${node.label}" (${node.id}) routes errors to its error handle, but nothing is connected to it`,
+      });
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateRoutineCalls,
+  type CallableRoutine,
+} from "./routine-call-validator.js";
+import type { Node } from "../types/graph.js";
+
+function callNode(id: string, routineId: string): Node {
+  return {
+    id,
+    pluginId: "execute-routine",
+    label: `Call ${routineId}`,
+    parameters: { routineId, mode: "wait" },
+  };
+}
+
+function otherNode(id: string): Node {
+  return { id, pluginId: "static-data", label: id, parameters: {} };
+}
+
+function createRoutines(
+  routines: Record<string, CallableRoutine>,
+): Map<string, CallableRoutine> {
+  return new Map(Object.entries(routines));
+}
+
+describe("validateRoutineCalls", () => {
+  it("should pass for calls to other routines", () => {
+    const routines = createRoutines({
+      r2: { name: "Child", nodes: [otherNode("n1")] },
+    });
+
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [otherNode("start"), callNode("call", "r2")] },
+      routines,
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it("should detect routines calling themselves", () => {
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [callNode("call", "r1")] },
+      createRoutines({}),
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      nodeId: "call",
+      type: "RECURSIVE_CALL",
+      callPath: ["Parent", "Parent"],
+    });
+  });
+
+  it("should detect recursion through other routines", () => {
+    const routines = createRoutines({
+      r2: { name: "Child", nodes: [callNode("c1", "r3")] },
+      r3: { name: "Grandchild", nodes: [callNode("c2", "r1")] },
+    });
+
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [callNode("call", "r2")] },
+      routines,
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.callPath).toEqual([
+      "Parent",
+      "Child",
+      "Grandchild",
+      "Parent",
+    ]);
+    expect(errors[0]?.message).toContain(
+      "Parent → Child → Grandchild → Parent",
+    );
+  });
+
+  it("should use the routine being edited over its saved version", () => {
+    // Saved version called r2, which calls back; the edit removed the call
+    const routines = createRoutines({
+      r1: { name: "Parent", nodes: [callNode("call", "r2")] },
+      r2: { name: "Child", nodes: [callNode("c1", "r1")] },
+    });
+
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [otherNode("start")] },
+      routines,
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it("should not loop on cycles between other routines", () => {
+    const routines = createRoutines({
+      r2: { name: "A", nodes: [callNode("c1", "r3")] },
+      r3: { name: "B", nodes: [callNode("c2", "r2")] },
+    });
+
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [callNode("call", "r2")] },
+      routines,
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it("should report unknown routines", () => {
+    const errors = validateRoutineCalls(
+      "r1",
+      { name: "Parent", nodes: [callNode("call", "missing")] },
+      createRoutines({}),
+    );
+
+    expect(errors).toEqual([
+      expect.objectContaining({ nodeId: "call", type: "UNKNOWN_ROUTINE" }),
+    ]);
+  });
+
+  it("should skip routine IDs set by expressions", () => {
+    const errors = validateRoutineCalls(
+      "r1",
+      {
+        name: "Parent",
+        nodes: [callNode("call", "{{ trigger.routineId }}")],
+      },
+      createRoutines({}),
+    );
+    expect(errors).toEqual([]);
+  });
+});
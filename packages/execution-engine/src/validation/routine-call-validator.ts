@@ -0,0 +1,118 @@
+/**
+ * Routine Call Validator
+ *
+ * Validates execute-routine nodes against the user's other routines:
+ * - The called routine must exist
+ * - Calls must not lead back to the calling routine, directly or through
+ *   other routines, since the routines would call each other forever
+ *
+ * Only routine IDs set statically are followed; IDs from expressions are
+ * checked at run time.
+ */
+
+import { getCalledRoutineId } from "../engine/routine-call.js";
+import type { Node, RoutineDefinition } from "../types/graph.js";
+
+/**
+ * A routine that execute-routine nodes can call
+ */
+export interface CallableRoutine {
+  name: string;
+  nodes: Array<Pick<Node, "pluginId" | "parameters">>;
+}
+
+/**
+ * Routine call validation error
+ */
+export interface RoutineCallValidationError {
+  /** The execute-routine node making the call */
+  nodeId: string;
+  /** Node label for display */
+  nodeLabel?: string;
+  /** Error message */
+  message: string;
+  /** Error type for categorization */
+  type: "UNKNOWN_ROUTINE" | "RECURSIVE_CALL";
+  /** Names of the routines in the recursive call chain */
+  callPath?: string[];
+}
+
+/**
+ * Validate the routine calls of a routine
+ *
+ * @param routineId - ID of the routine being validated
+ * @param routine - The routine being validated (its saved version in
+ *   `routines` is ignored)
+ * @param routines - The user's routines by ID
+ */
+export function validateRoutineCalls(
+  routineId: string,
+  routine: Pick<RoutineDefinition, "name" | "nodes">,
+  routines: ReadonlyMap<string, CallableRoutine>,
+): RoutineCallValidationError[] {
+  const errors: RoutineCallValidationError[] = [];
+
+  for (const node of routine.nodes) {
+    const calledId = getCalledRoutineId(node);
+    if (!calledId) continue;
+
+    const called = calledId === routineId ? routine : routines.get(calledId);
+    if (!called) {
+      errors.push({
+        nodeId: node.id,
+        nodeLabel: node.label,
+        message: `Node "${node.label}" calls a routine that doesn't exist or isn't yours`,
+        type: "UNKNOWN_ROUTINE",
+      });
+      continue;
+    }
+
+    const path = findCallPath(calledId, routineId, routine, routines);
+    if (path) {
+      const callPath = [routine.name, ...path];
+      errors.push({
+        nodeId: node.id,
+        nodeLabel: node.label,
+        message: `Node "${node.label}" calls its own routine: ${callPath.join(" → ")}`,
+        type: "RECURSIVE_CALL",
+        callPath,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find a chain of calls from one routine to another (depth-first)
+ *
+ * @returns Names of the routines along the chain, both ends included, or
+ *   undefined when `to` can't be reached
+ */
+function findCallPath(
+  from: string,
+  to: string,
+  routine: Pick<RoutineDefinition, "name" | "nodes">,
+  routines: ReadonlyMap<string, CallableRoutine>,
+): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (id: string): string[] | undefined => {
+    const current = id === to ? routine : routines.get(id);
+    if (!current) return undefined;
+    if (id === to) return [current.name];
+    if (visited.has(id)) return undefined;
+    visited.add(id);
+
+    for (const node of current.nodes) {
+      const calledId = getCalledRoutineId(node);
+      if (!calledId) continue;
+
+      const path = visit(calledId);
+      if (path) return [current.name, ...path];
+    }
+    return undefined;
+  };
+
+  return visit(from);
+}
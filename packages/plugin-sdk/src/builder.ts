@@ -49,7 +49,11 @@ import type {
   CredentialSchemasRecord,
   InferCredentialsData,
 } from "./types/plugin-base";
-import type { OutputHandle } from "./types/common";
+import type {
+  OutputHandle,
+  OutputHandlesResolver,
+  OutputSchemaResolver,
+} from "./types/common";
 import type { CredentialType } from "./types/credentials"; // Import CredentialType
 
 /**
@@ -71,8 +75,9 @@ export interface BuilderPortDefinition {
 /**
  * Execute function signature for flow-based plugins
  *
- * In the flow-based system, all data comes through config (with expressions resolved).
- * There is no separate `inputs` parameter - everything is in `config`.
+ * In the flow-based system, data comes through config (with expressions resolved).
+ * `inputs` and `items` expose the received items for plugins that work on
+ * them directly (e.g. merging branches).
  */
 export type ExecuteFunction<
   TOutputs,
@@ -85,6 +90,16 @@ export type ExecuteFunction<
   context: PluginContext<TCredentialsData>;
   /** Persistent node state (for loop nodes, stateful operations, etc.) */
   nodeState: Record<string, unknown>;
+  /**
+   * Data of the input items for this run: the current item for per-item
+   * plugins, every input item for batch plugins (see `executionMode`)
+   */
+  items: unknown[];
+  /**
+   * Input item data by input handle: the current item for per-item plugins,
+   * an array of items (in arrival order) for batch plugins
+   */
+  inputs: Record<string, unknown>;
 }) => Promise<Partial<TOutputs>>;
 
 /**
@@ -137,6 +152,9 @@ export class PluginBuilder<
   // Flow-based system additions
   private _outputSchema?: z.ZodType; // Single output schema for flow-based plugins
   private _outputHandles: OutputHandle[] = []; // Control flow handles
+  private _outputHandlesResolver?: OutputHandlesResolver<any>; // Config-dependent handles
+  private _dynamicHandleSchema?: z.ZodType;
+  private _outputSchemaResolvers = new Map<string, OutputSchemaResolver<any>>(); // Config-dependent output schemas
 
   constructor(id: string) {
     this._id = id;
@@ -319,6 +337,75 @@ export class PluginBuilder<
     return this;
   }
 
+  /**
+   * Define output handles computed from each node's config
+   *
+   * For control flow plugins whose paths are configured per node (e.g. one
+   * handle per switch case). The resolver runs in the editor to render the
+   * node's handles and at runtime to validate the plugin's output, so it
+   * must be pure and tolerate incomplete config. Data sent to any dynamic
+   * handle is validated against `schema`.
+   *
+   * @example
+   * ```typescript
+   * createPlugin("switch")
+   *   .withConfig(z.object({ cases: z.array(z.object({ key: z.string() })) }))
+   *   .withDynamicOutputHandles(
+   *     (config) => [
+   *       ...(config.cases ?? []).map((c) => ({ name: c.key, label: c.key })),
+   *       { name: "default", label: "Default" },
+   *     ],
+   *     SwitchOutputSchema,
+   *   )
+   * ```
+   */
+  withDynamicOutputHandles<TSchema extends z.ZodType>(
+    resolve: OutputHandlesResolver<TConfig>,
+    schema: TSchema,
+  ): PluginBuilder<
+    TInputSchemas,
+    TOutputSchemas & Record<string, TSchema>,
+    TConfig,
+    TCredentialSchemas,
+    TCredentialsData
+  > {
+    this._outputHandlesResolver = resolve;
+    this._dynamicHandleSchema = schema;
+    return this as any;
+  }
+
+  /**
+   * Compute an output's schema from each node's config
+   *
+   * For plugins whose output shape is configured per node (e.g. one field
+   * per aggregation). The resolver runs in the editor to offer the output's
+   * fields in expressions and at runtime to validate the plugin's output,
+   * so it must be pure and tolerate incomplete config. The schema given to
+   * withOutput() is used when there's no config.
+   *
+   * @example
+   * ```typescript
+   * createPlugin("aggregate")
+   *   .withOutput("output", { label: "Output", schema: z.unknown() })
+   *   .withDynamicOutputSchema("output", (config) =>
+   *     z.object({ count: z.number(), ...groupFields(config.groupBy) }),
+   *   )
+   * ```
+   */
+  withDynamicOutputSchema(
+    name: keyof TOutputSchemas & string,
+    resolve: OutputSchemaResolver<TConfig>,
+  ): PluginBuilder<
+    TInputSchemas,
+    TOutputSchemas,
+    TConfig,
+    TCredentialSchemas,
+    TCredentialsData
+  > {
+    this._outputSchemaResolvers.set(name, resolve);
+    return this;
+  }
+
   /**
    * Get the registered output handles
    * Used internally for execution engine and UI
@@ -488,7 +575,7 @@ export class PluginBuilder<
       throw new Error("Plugin execute function is required (use .execute())");
     }
 
-    if (this._outputs.size === 0) {
+    if (this._outputs.size === 0 && !this._outputHandlesResolver) {
       throw new Error("At least one output is required (use .withOutput())");
     }
 
@@ -503,11 +590,15 @@ export class PluginBuilder<
       });
     }
 
-    // Add output handles to metadata if any are defined
+    // Add output handles to metadata if any are defined. Dynamic handles
+    // are listed as they'd be for an empty config.
+    const outputHandles = this._outputHandlesResolver
+      ? mergeOutputHandles(this._outputHandles, this._outputHandlesResolver({}))
+      : this._outputHandles;
     const metadata: PluginMetadata = {
       ...(this._metadata as PluginMetadata),
-      outputHandles:
-        this._outputHandles.length > 0 ? this._outputHandles : undefined,
+      outputHandles: outputHandles.length > 0 ? outputHandles : undefined,
+      dynamicOutputHandles: this._outputHandlesResolver ? true : undefined,
     };
 
     // Create and return BuiltPlugin instance
@@ -520,10 +611,33 @@ export class PluginBuilder<
       execute: this._execute as any, // Cast due to complex generic type matching
       configUI: this._configUI as any, // Cast
       credentialSchemas: this._credentialSchemas,
+      outputHandles: this._outputHandles,
+      outputHandlesResolver: this._outputHandlesResolver,
+      dynamicHandleSchema: this._dynamicHandleSchema,
+      outputSchemaResolvers: this._outputSchemaResolvers,
     });
   }
 }
 
+/**
+ * Combine static and dynamic handles, static handles first.
+ * Dynamic handles can't shadow a static handle of the same name.
+ */
+function mergeOutputHandles(
+  staticHandles: OutputHandle[],
+  dynamicHandles: OutputHandle[],
+): OutputHandle[] {
+  const names = new Set(staticHandles.map((h) => h.name));
+  const merged = [...staticHandles];
+  for (const handle of dynamicHandles) {
+    if (!names.has(handle.name)) {
+      names.add(handle.name);
+      merged.push(handle);
+    }
+  }
+  return merged;
+}
+
 /**
  * BuiltPlugin - Adapter class that makes builder output compatible with Plugin interface
  *
@@ -543,6 +657,10 @@ class BuiltPlugin<
   private _configSchema?: z.ZodType;
   private _execute: ExecuteFunction<any, any, TCredentialsData>;
   private _configUI?: ComponentType<PluginConfigUIProps<any, TCredentialsData>>;
+  private _outputHandles: OutputHandle[];
+  private _outputHandlesResolver?: OutputHandlesResolver<any>;
+  private _dynamicHandleSchema?: z.ZodType;
+  private _outputSchemaResolvers: Map<string, OutputSchemaResolver<any>>;
 
   constructor(config: {
     metadata: PluginMetadata;
@@ -553,6 +671,10 @@ class BuiltPlugin<
     execute: ExecuteFunction<any, any, TCredentialsData>;
     configUI?: ComponentType<PluginConfigUIProps<any, TCredentialsData>>;
     credentialSchemas: CredentialSchemasRecord;
+    outputHandles: OutputHandle[];
+    outputHandlesResolver?: OutputHandlesResolver<any>;
+    dynamicHandleSchema?: z.ZodType;
+    outputSchemaResolvers: Map<string, OutputSchemaResolver<any>>;
   }) {
     super();
 
@@ -565,6 +687,10 @@ class BuiltPlugin<
     this._configSchema = config.configSchema;
     this._execute = config.execute;
     this._configUI = config.configUI;
+    this._outputHandles = config.outputHandles;
+    this._outputHandlesResolver = config.outputHandlesResolver;
+    this._dynamicHandleSchema = config.dynamicHandleSchema;
+    this._outputSchemaResolvers = config.outputSchemaResolvers;
   }
 
   /**
@@ -593,6 +719,48 @@ class BuiltPlugin<
     };
   }
 
+  /**
+   * Override getOutputHandles() to resolve dynamic handles from node config
+   */
+  getOutputHandles(config?: TConfig): OutputHandle[] {
+    if (!this._outputHandlesResolver) {
+      return super.getOutputHandles(config);
+    }
+    return mergeOutputHandles(
+      this._outputHandles,
+      this._outputHandlesResolver(config ?? {}),
+    );
+  }
+
+  /**
+   * Override getOutputs() to include ports for dynamic handles and resolve
+   * config-dependent output schemas
+   */
+  getOutputs(config?: TConfig): Record<string, PluginPort> {
+    const outputs = Object.fromEntries(this._outputs);
+    if (config) {
+      for (const [name, resolve] of this._outputSchemaResolvers) {
+        const port = outputs[name];
+        if (port) outputs[name] = { ...port, schema: resolve(config) };
+      }
+    }
+    if (!this._outputHandlesResolver || !this._dynamicHandleSchema) {
+      return outputs;
+    }
+
+    for (const handle of this.getOutputHandles(config)) {
+      if (!outputs[handle.name]) {
+        outputs[handle.name] = {
+          name: handle.name,
+          label: handle.label,
+          description: handle.description,
+          schema: this._dynamicHandleSchema,
+        };
+      }
+    }
+    return outputs;
+  }
+
   /**
    * Implement getConfigUI() from Plugin base class
    */
@@ -606,16 +774,30 @@ class BuiltPlugin<
   /**
    * Implement execute() from Plugin base class
    *
-   * In the flow-based system, inputs are ignored - all data comes through config.
+   * In the flow-based system, data comes through config - inputs are passed
+   * along as received, and as the flat list of input item data.
    */
   async execute(
-    _inputs: Record<string, any>, // Ignored in flow-based system
+    inputs: Record<string, any>,
     config: TConfig,
     context: PluginContext<TCredentialsData>,
     nodeState: Record<string, unknown>,
   ): Promise<Record<string, any>> {
-    // Flow-based: pass only config (with expressions resolved), context, and nodeState
-    const result = await this._execute({ config, context, nodeState });
+    // Batch plugins receive an array of item data per input port
+    const items =
+      this.getMetadata().executionMode === "batch"
+        ? Object.values(inputs).flatMap((value) =>
+            Array.isArray(value) ? value : [value],
+          )
+        : Object.values(inputs);
+
+    const result = await this._execute({
+      config,
+      context,
+      nodeState,
+      items,
+      inputs,
+    });
     return result as Record<string, any>;
   }
 }
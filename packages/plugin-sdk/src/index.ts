@@ -13,6 +13,8 @@ export type {
   CredentialSchemasRecord,
   InferCredentialsData,
   OutputHandle,
+  OutputHandlesResolver,
+  OutputSchemaResolver,
 } from "./types/common";
 
 export type {
@@ -44,6 +46,17 @@ export {
   type DisplayCondition,
 } from "./types/parameters";
 
+// Export code sandbox types
+export {
+  CODE_ERROR_CODE,
+  CodeExecutionError,
+  getCodeErrorLocation,
+  type CodeLanguage,
+  type CodeSandbox,
+  type CodeSandboxOptions,
+  type CodeSandboxResult,
+} from "./types/sandbox";
+
 // Export Plugin base class and core types
 export {
   Plugin,
@@ -72,5 +85,8 @@ export {
   PluginValidationError,
 } from "./validation";
 
+// Export field path utilities
+export { getPath, removePath, setPath } from "./paths";
+
 // Export testing utilities (separate entry point)
 // import from "@kianax/plugin-sdk/testing"
@@ -0,0 +1,58 @@
+/**
+ * Field Path Utilities
+ *
+ * Read, set and remove dot-separated paths ("customer.address.city") in
+ * plugin data, without modifying the original values.
+ */
+
+/**
+ * Read a dot-separated path from a value
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Copy a value with a dot-separated path set, creating objects on the way
+ * (non-object values on the path are replaced)
+ */
+export function setPath(
+  value: unknown,
+  path: string,
+  fieldValue: unknown,
+): Record<string, unknown> {
+  const [segment, ...rest] = path.split(".") as [string, ...string[]];
+  const object = isRecord(value) ? value : {};
+  return {
+    ...object,
+    [segment]:
+      rest.length === 0
+        ? fieldValue
+        : setPath(object[segment], rest.join("."), fieldValue),
+  };
+}
+
+/**
+ * Copy a value with a dot-separated path removed
+ */
+export function removePath(value: unknown, path: string): unknown {
+  if (!isRecord(value)) return value;
+
+  const [segment, ...rest] = path.split(".") as [string, ...string[]];
+  if (!(segment in value)) return value;
+
+  if (rest.length === 0) {
+    const { [segment]: _removed, ...remaining } = value;
+    return remaining;
+  }
+  return { ...value, [segment]: removePath(value[segment], rest.join(".")) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
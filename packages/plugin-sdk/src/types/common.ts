@@ -5,6 +5,7 @@
  */
 
 import type { CredentialRequest } from "./credentials";
+import type { CodeSandbox } from "./sandbox";
 import type { z } from "zod";
 
 /**
@@ -60,6 +61,24 @@ export interface PluginContext<
    */
   credentials?: TCredentialsData;
   triggerData?: unknown;
+  /** Routine variables by name */
+  variables?: Record<string, unknown>;
+  /**
+   * Aborted when the execution is cancelled. Pass it to long-running work
+   * (e.g. fetch) so it stops with the routine.
+   */
+  signal?: AbortSignal;
+  /**
+   * Runs user code in isolation. Only provided by runtimes that can sandbox
+   * code (the worker); plugins running user code fail without it.
+   */
+  sandbox?: CodeSandbox;
+  /**
+   * Batch runs over several items: the node's config resolved relative to
+   * each input item, in input order. Only set when the config contains
+   * expressions; use it for values that differ per item.
+   */
+  itemConfigs?: Record<string, unknown>[];
 }
 
 /**
@@ -77,6 +96,26 @@ export interface OutputHandle {
   description?: string;
 }
 
+/**
+ * Computes output handles from a node's config
+ *
+ * Receives whatever config the node currently has, which may be incomplete
+ * while the node is being edited.
+ */
+export type OutputHandlesResolver<TConfig = unknown> = (
+  config: Partial<TConfig>,
+) => OutputHandle[];
+
+/**
+ * Computes an output's schema from a node's config
+ *
+ * Receives whatever config the node currently has, which may be incomplete
+ * while the node is being edited.
+ */
+export type OutputSchemaResolver<TConfig = unknown> = (
+  config: Partial<TConfig>,
+) => z.ZodType;
+
 /**
  * Plugin metadata (static properties)
  */
@@ -120,6 +159,24 @@ export interface PluginMetadata {
    */
   outputHandles?: OutputHandle[];
 
+  /**
+   * Whether output handles depend on node config (e.g. switch cases)
+   *
+   * When true, `outputHandles` only lists the handles for an empty config.
+   * Use `Plugin.getOutputHandles(config)` to get a node's actual handles.
+   */
+  dynamicOutputHandles?: boolean;
+
+  /**
+   * How the plugin runs when its node receives several items
+   *
+   * - "per-item" (default): once per input item, with expressions resolved
+   *   relative to that item
+   * - "batch": once for all input items; `items` holds every item's data
+   *   and each output handle returns an array of output items
+   */
+  executionMode?: "per-item" | "batch";
+
   /** JSON Schema exports for UI/documentation (optional, usually generated) */
   inputSchemaJson?: Record<string, unknown>;
   outputSchemaJson?: Record<string, unknown>;
@@ -5,6 +5,7 @@ import type {
   PluginMetadata,
   CredentialSchemasRecord,
   InferCredentialsData,
+  OutputHandle,
 } from "./common";
 
 export type {
@@ -12,6 +13,7 @@ export type {
   PluginMetadata,
   CredentialSchemasRecord,
   InferCredentialsData,
+  OutputHandle,
 };
 
 /**
@@ -198,11 +200,23 @@ export abstract class Plugin<
 
   /**
    * Get all output port definitions
+   *
+   * Pass the node's config for plugins whose outputs depend on it
+   * (see `getOutputHandles`).
    */
-  getOutputs(): Record<string, PluginPort> {
+  getOutputs(_config?: TConfig): Record<string, PluginPort> {
     return this.defineSchemas().outputs;
   }
 
+  /**
+   * Get the output handles of a node using this plugin
+   *
+   * Static by default; plugins with config-dependent handles override this.
+   */
+  getOutputHandles(_config?: TConfig): OutputHandle[] {
+    return this.getMetadata().outputHandles ?? [];
+  }
+
   /**
    * Get a specific input port
    */
@@ -213,8 +227,8 @@ export abstract class Plugin<
   /**
    * Get a specific output port
    */
-  getOutput(name: string): PluginPort | undefined {
-    return this.getOutputs()[name];
+  getOutput(name: string, config?: TConfig): PluginPort | undefined {
+    return this.getOutputs(config)[name];
   }
 
   /**
@@ -0,0 +1,97 @@
+/**
+ * Code Sandbox Types
+ *
+ * Plugins that run user-written code (e.g. the code plugin) do so through a
+ * sandbox provided by the runtime in the plugin context. The sandbox runs
+ * the code isolated from the host, with CPU-time and memory limits and no
+ * access to the network or filesystem.
+ */
+
+/**
+ * Language of user code
+ */
+export type CodeLanguage = "javascript" | "typescript";
+
+/**
+ * Code to run in the sandbox
+ */
+export interface CodeSandboxOptions {
+  /**
+   * Body of an async function: may use `await` and ends with `return`.
+   * Line 1 of the code is line 1 in error locations.
+   */
+  code: string;
+  language: CodeLanguage;
+  /** JSON-serializable values available to the code as globals */
+  globals: Record<string, unknown>;
+  /** CPU time limit, in milliseconds */
+  timeoutMs: number;
+  /** Heap size limit, in megabytes */
+  memoryLimitMb: number;
+  /** Stops the run when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of running code in the sandbox
+ */
+export interface CodeSandboxResult {
+  /** The code's return value (JSON round-tripped) */
+  result: unknown;
+  /** Lines the code logged with console.log / warn / error */
+  logs: string[];
+}
+
+/**
+ * Runs user code in isolation
+ *
+ * @throws {CodeExecutionError} When the code fails to compile, throws, or
+ *   exceeds its limits
+ */
+export interface CodeSandbox {
+  run(options: CodeSandboxOptions): Promise<CodeSandboxResult>;
+}
+
+/** Error code of CodeExecutionError */
+export const CODE_ERROR_CODE = "CODE_ERROR";
+
+/**
+ * User code failed, optionally at a location in the code
+ *
+ * The location is also appended to the message (" (line 3, column 7)"),
+ * since only messages survive being stored with the node's result; read it
+ * back with getCodeErrorLocation.
+ */
+export class CodeExecutionError extends Error {
+  readonly code = CODE_ERROR_CODE;
+
+  constructor(
+    message: string,
+    public readonly line?: number,
+    public readonly column?: number,
+  ) {
+    super(
+      line === undefined
+        ? message
+        : `${message} (line ${line}${column === undefined ? "" : `, column ${column}`})`,
+    );
+    this.name = "CodeExecutionError";
+  }
+}
+
+const LOCATION_PATTERN = /\(line (\d+)(?:, column (\d+))?\)$/;
+
+/**
+ * Read the code location from a CodeExecutionError message
+ */
+export function getCodeErrorLocation(
+  message: string,
+): { line: number; column?: number } | undefined {
+  const match = LOCATION_PATTERN.exec(message);
+  if (!match) return undefined;
+
+  return {
+    line: Number(match[1]),
+    column: match[2] === undefined ? undefined : Number(match[2]),
+  };
+}
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Aggregation,
+  aggregate,
+  aggregateGroup,
+  getAggregationName,
+  groupItems,
+} from "./aggregations";
+
+const orders = [
+  { customer: { id: "c1" }, price: 10, status: "paid" },
+  { customer: { id: "c2" }, price: "5", status: "open" },
+  { customer: { id: "c1" }, price: null, status: "paid" },
+  { customer: { id: "c1" }, price: 25, status: "open" },
+];
+
+function run(aggregation: Aggregation, items: unknown[] = orders): unknown {
+  return aggregate(items, aggregation);
+}
+
+describe("getAggregationName", () => {
+  it("should use the name when set", () => {
+    expect(
+      getAggregationName({ operation: "sum", field: "price", name: " total " }),
+    ).toBe("total");
+  });
+
+  it("should derive the name from the operation and field", () => {
+    expect(getAggregationName({ operation: "sum", field: "price" })).toBe(
+      "sum_price",
+    );
+    expect(getAggregationName({ operation: "max", field: "a.b" })).toBe(
+      "max_a_b",
+    );
+    expect(getAggregationName({ operation: "count" })).toBe("count");
+    expect(getAggregationName({})).toBe("count");
+  });
+});
+
+describe("aggregate", () => {
+  describe("count", () => {
+    it("should count items without a field", () => {
+      expect(run({ operation: "count" })).toBe(4);
+    });
+
+    it("should count present values of a field", () => {
+      expect(run({ operation: "count", field: "price" })).toBe(3);
+    });
+  });
+
+  describe("sum", () => {
+    it("should add numbers and numeric strings", () => {
+      expect(run({ operation: "sum", field: "price" })).toBe(40);
+    });
+
+    it("should skip non-numeric values", () => {
+      expect(
+        run({ operation: "sum", field: "v" }, [
+          { v: 1 },
+          { v: "abc" },
+          { v: true },
+          { v: { n: 2 } },
+          { v: Number.NaN },
+          { v: 2 },
+        ]),
+      ).toBe(3);
+    });
+
+    it("should be 0 for empty input", () => {
+      expect(run({ operation: "sum", field: "price" }, [])).toBe(0);
+    });
+  });
+
+  describe("avg", () => {
+    it("should average numeric values, ignoring missing ones", () => {
+      expect(run({ operation: "avg", field: "price" })).toBeCloseTo(40 / 3);
+    });
+
+    it("should be null without numeric values", () => {
+      expect(run({ operation: "avg", field: "price" }, [])).toBeNull();
+      expect(
+        run({ operation: "avg", field: "v" }, [{ v: "abc" }, { v: null }]),
+      ).toBeNull();
+    });
+  });
+
+  describe("min and max", () => {
+    it("should compare numbers numerically", () => {
+      const items = [{ v: 9 }, { v: 10 }, { v: 2 }];
+      expect(run({ operation: "min", field: "v" }, items)).toBe(2);
+      expect(run({ operation: "max", field: "v" }, items)).toBe(10);
+    });
+
+    it("should compare strings with numeric parts naturally", () => {
+      const items = [{ v: "item10" }, { v: "item9" }, { v: "apple" }];
+      expect(run({ operation: "min", field: "v" }, items)).toBe("apple");
+      expect(run({ operation: "max", field: "v" }, items)).toBe("item10");
+    });
+
+    it("should ignore missing values", () => {
+      expect(run({ operation: "min", field: "price" })).toBe("5");
+      expect(run({ operation: "max", field: "price" })).toBe(25);
+    });
+
+    it("should be null for empty input", () => {
+      expect(run({ operation: "min", field: "v" }, [])).toBeNull();
+      expect(run({ operation: "max", field: "v" }, [])).toBeNull();
+    });
+  });
+
+  describe("first and last", () => {
+    it("should take the first and last present values", () => {
+      const items = [{ v: null }, { v: "a" }, { v: "b" }, {}];
+      expect(run({ operation: "first", field: "v" }, items)).toBe("a");
+      expect(run({ operation: "last", field: "v" }, items)).toBe("b");
+    });
+
+    it("should be null for empty input", () => {
+      expect(run({ operation: "first", field: "v" }, [])).toBeNull();
+      expect(run({ operation: "last", field: "v" }, [])).toBeNull();
+    });
+  });
+
+  describe("concat", () => {
+    it("should join values with the default separator", () => {
+      expect(run({ operation: "concat", field: "status" })).toBe(
+        "paid, open, paid, open",
+      );
+    });
+
+    it("should join values with a custom separator", () => {
+      expect(run({ operation: "concat", field: "price", separator: "|" })).toBe(
+        "10|5|25",
+      );
+    });
+
+    it("should serialize objects as JSON", () => {
+      expect(
+        run({ operation: "concat", field: "customer" }, orders.slice(0, 2)),
+      ).toBe('{"id":"c1"}, {"id":"c2"}');
+    });
+
+    it("should be an empty string for empty input", () => {
+      expect(run({ operation: "concat", field: "status" }, [])).toBe("");
+    });
+  });
+
+  describe("collect", () => {
+    it("should collect present values", () => {
+      expect(run({ operation: "collect", field: "price" })).toEqual([
+        10,
+        "5",
+        25,
+      ]);
+    });
+
+    it("should collect whole items without a field", () => {
+      expect(run({ operation: "collect" }, [1, null, 2])).toEqual([1, 2]);
+    });
+
+    it("should be an empty list for empty input", () => {
+      expect(run({ operation: "collect", field: "price" }, [])).toEqual([]);
+    });
+  });
+});
+
+describe("groupItems", () => {
+  it("should group by nested fields in order of first appearance", () => {
+    const groups = groupItems(orders, ["customer.id"]);
+
+    expect(groups.map((group) => group.keys)).toEqual([["c1"], ["c2"]]);
+    expect(groups[0]!.items).toHaveLength(3);
+    expect(groups[1]!.items).toEqual([orders[1]]);
+  });
+
+  it("should group by several fields", () => {
+    const groups = groupItems(orders, ["customer.id", "status"]);
+
+    expect(groups.map((group) => group.keys)).toEqual([
+      ["c1", "paid"],
+      ["c2", "open"],
+      ["c1", "open"],
+    ]);
+  });
+
+  it("should group items missing a key field together", () => {
+    const groups = groupItems([{ k: "a" }, {}, { k: null }], ["k"]);
+
+    expect(groups.map((group) => group.keys)).toEqual([["a"], [null]]);
+    expect(groups[1]!.items).toHaveLength(2);
+  });
+
+  it("should keep keys of different types apart", () => {
+    expect(groupItems([{ k: 1 }, { k: "1" }], ["k"])).toHaveLength(2);
+  });
+
+  it("should put all items in one group without key fields", () => {
+    expect(groupItems(orders, [])).toEqual([{ keys: [], items: orders }]);
+  });
+
+  it("should return no groups for empty input", () => {
+    expect(groupItems([], ["k"])).toEqual([]);
+  });
+});
+
+describe("aggregateGroup", () => {
+  it("should output the key fields, then the aggregations", () => {
+    const [group] = groupItems(orders, ["customer.id"]);
+
+    expect(
+      aggregateGroup(
+        group!,
+        ["customer.id"],
+        [
+          { operation: "count" },
+          { operation: "sum", field: "price", name: "total" },
+        ],
+      ),
+    ).toEqual({ customer: { id: "c1" }, count: 3, total: 35 });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Grouping and aggregation functions
+ *
+ * Fields are dot-separated paths ("customer.id"). Missing values (null or
+ * undefined) are ignored by every aggregation except count without a field.
+ */
+
+import { getPath, setPath, z } from "@kianax/plugin-sdk";
+
+export const AggregationOperation = z.enum([
+  "count",
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "first",
+  "last",
+  "concat",
+  "collect",
+]);
+
+export type AggregationOperation = z.infer<typeof AggregationOperation>;
+
+export const Aggregation = z.object({
+  operation: AggregationOperation.describe("How to aggregate the field"),
+  field: z
+    .string()
+    .optional()
+    .describe("Field to aggregate (count counts items when unset)"),
+  name: z.string().optional().describe("Output field name"),
+  separator: z
+    .string()
+    .optional()
+    .describe('Separator for concat (default ", ")'),
+});
+
+export type Aggregation = z.infer<typeof Aggregation>;
+
+/**
+ * Output field name of an aggregation: its name, or e.g. "sum_price" for
+ * sum of "price" ("count" for counting items)
+ */
+export function getAggregationName(aggregation: Partial<Aggregation>): string {
+  const name = aggregation.name?.trim();
+  if (name) return name;
+
+  const operation = aggregation.operation ?? "count";
+  const field = aggregation.field?.trim();
+  return field ? `${operation}_${field.replaceAll(".", "_")}` : operation;
+}
+
+/**
+ * Group items by the values of their key fields, in order of first
+ * appearance. Without key fields, all items form one group.
+ */
+export function groupItems(
+  items: unknown[],
+  groupBy: string[],
+): Array<{ keys: unknown[]; items: unknown[] }> {
+  const groups = new Map<string, { keys: unknown[]; items: unknown[] }>();
+
+  for (const item of items) {
+    const keys = groupBy.map((field) => getPath(item, field) ?? null);
+    const id = JSON.stringify(keys);
+    const group = groups.get(id) ?? { keys, items: [] };
+    group.items.push(item);
+    groups.set(id, group);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Build the output item of a group: its key fields, then one field per
+ * aggregation
+ */
+export function aggregateGroup(
+  group: { keys: unknown[]; items: unknown[] },
+  groupBy: string[],
+  aggregations: Aggregation[],
+): Record<string, unknown> {
+  let result: Record<string, unknown> = {};
+  groupBy.forEach((field, index) => {
+    result = setPath(result, field, group.keys[index]);
+  });
+
+  for (const aggregation of aggregations) {
+    result[getAggregationName(aggregation)] = aggregate(
+      group.items,
+      aggregation,
+    );
+  }
+  return result;
+}
+
+/**
+ * Compute one aggregation over a group's items
+ */
+export function aggregate(items: unknown[], aggregation: Aggregation): unknown {
+  const { operation, field } = aggregation;
+  if (operation === "count" && !field) return items.length;
+
+  const values = items
+    .map((item) => (field ? getPath(item, field) : item))
+    .filter((value) => value !== null && value !== undefined);
+
+  switch (operation) {
+    case "count":
+      return values.length;
+
+    case "sum":
+      return getNumbers(values).reduce((sum, value) => sum + value, 0);
+
+    case "avg": {
+      const numbers = getNumbers(values);
+      return numbers.length > 0
+        ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+        : null;
+    }
+
+    case "min":
+    case "max": {
+      const sign = operation === "min" ? 1 : -1;
+      return values.reduce<unknown>(
+        (best, value) =>
+          best === null || sign * compareValues(value, best) < 0 ? value : best,
+        null,
+      );
+    }
+
+    case "first":
+      return values[0] ?? null;
+
+    case "last":
+      return values[values.length - 1] ?? null;
+
+    case "concat":
+      return values
+        .map((value) =>
+          typeof value === "object" ? JSON.stringify(value) : String(value),
+        )
+        .join(aggregation.separator ?? ", ");
+
+    case "collect":
+      return values;
+  }
+}
+
+/**
+ * Numeric values (numbers and numeric strings)
+ */
+function getNumbers(values: unknown[]): number[] {
+  return values
+    .map((value) => (typeof value === "string" ? Number(value) : value))
+    .filter(
+      (value): value is number =>
+        typeof value === "number" && Number.isFinite(value),
+    );
+}
+
+/**
+ * Order values: numbers numerically, everything else as strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconPlus } from "@tabler/icons-react";
+import { BaseConfigUI, ConfigCard, ConfigSection, InfoCard } from "../ui";
+import {
+  type Aggregation,
+  type AggregationOperation,
+  getAggregationName,
+} from "./aggregations";
+
+export interface AggregateConfig {
+  groupBy?: string[];
+  aggregations: Aggregation[];
+}
+
+interface AggregateConfigUIProps {
+  value?: AggregateConfig;
+  onChange: (value: AggregateConfig) => void;
+}
+
+const OPERATIONS: Array<{ value: AggregationOperation; label: string }> = [
+  { value: "count", label: "Count" },
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Minimum" },
+  { value: "max", label: "Maximum" },
+  { value: "first", label: "First" },
+  { value: "last", label: "Last" },
+  { value: "concat", label: "Concatenate" },
+  { value: "collect", label: "Collect into list" },
+];
+
+/**
+ * Parse a comma-separated list of fields
+ */
+function parseFields(text: string): string[] {
+  return text
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Configuration UI for Aggregate Plugin
+ *
+ * Edits the key fields to group by and the aggregations computed for each
+ * group. Each aggregation shows the output field it produces.
+ */
+export function AggregateConfigUI({ value, onChange }: AggregateConfigUIProps) {
+  const [config, setConfig] = useState<AggregateConfig>(
+    value?.aggregations && Array.isArray(value.aggregations)
+      ? value
+      : { groupBy: [], aggregations: [{ operation: "count" }] },
+  );
+  // Kept as typed, so trailing commas don't disappear while typing
+  const [groupByText, setGroupByText] = useState(
+    (config.groupBy ?? []).join(", "),
+  );
+  const idPrefix = useId();
+
+  const handleChange = (updates: Partial<AggregateConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const updateAggregation = (index: number, updates: Partial<Aggregation>) => {
+    handleChange({
+      aggregations: config.aggregations.map((aggregation, i) =>
+        i === index ? { ...aggregation, ...updates } : aggregation,
+      ),
+    });
+  };
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Group By"
+        description="Comma-separated fields; leave empty to aggregate all items together"
+      >
+        <Input
+          value={groupByText}
+          onChange={(e) => {
+            setGroupByText(e.target.value);
+            handleChange({ groupBy: parseFields(e.target.value) });
+          }}
+          placeholder="customer.id, status"
+        />
+      </ConfigSection>
+
+      <ConfigSection
+        label="Aggregations"
+        description="Each adds a field to the group's output item"
+        action={
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              handleChange({
+                aggregations: [
+                  ...config.aggregations,
+                  { operation: "sum", field: "" },
+                ],
+              })
+            }
+          >
+            <IconPlus className="mr-2 size-3.5" />
+            Add
+          </Button>
+        }
+      >
+        {config.aggregations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No aggregations - outputs only the group keys
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {config.aggregations.map((aggregation, index) => {
+              const id = `${idPrefix}-${index}`;
+              return (
+                <ConfigCard
+                  key={index}
+                  title={`Output field · ${getAggregationName(aggregation)}`}
+                  removable
+                  onRemove={() =>
+                    handleChange({
+                      aggregations: config.aggregations.filter(
+                        (_, i) => i !== index,
+                      ),
+                    })
+                  }
+                  className="bg-card"
+                >
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5 min-w-0">
+                        <label
+                          htmlFor={`${id}-operation`}
+                          className="text-xs font-medium text-muted-foreground"
+                        >
+                          Operation
+                        </label>
+                        <Select
+                          value={aggregation.operation}
+                          onValueChange={(operation) =>
+                            updateAggregation(index, {
+                              operation: operation as AggregationOperation,
+                            })
+                          }
+                        >
+                          <SelectTrigger
+                            id={`${id}-operation`}
+                            className="h-9 w-full"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {OPERATIONS.map((operation) => (
+                              <SelectItem
+                                key={operation.value}
+                                value={operation.value}
+                              >
+                                {operation.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5 min-w-0">
+                        <label
+                          htmlFor={`${id}-field`}
+                          className="text-xs font-medium text-muted-foreground"
+                        >
+                          Field
+                        </label>
+                        <Input
+                          id={`${id}-field`}
+                          value={aggregation.field ?? ""}
+                          onChange={(e) =>
+                            updateAggregation(index, {
+                              field: e.target.value || undefined,
+                            })
+                          }
+                          placeholder={
+                            aggregation.operation === "count"
+                              ? "All items"
+                              : "total"
+                          }
+                          className="h-9"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5 min-w-0">
+                        <label
+                          htmlFor={`${id}-name`}
+                          className="text-xs font-medium text-muted-foreground"
+                        >
+                          Output Name
+                        </label>
+                        <Input
+                          id={`${id}-name`}
+                          value={aggregation.name ?? ""}
+                          onChange={(e) =>
+                            updateAggregation(index, {
+                              name: e.target.value || undefined,
+                            })
+                          }
+                          placeholder={getAggregationName({
+                            ...aggregation,
+                            name: undefined,
+                          })}
+                          className="h-9"
+                        />
+                      </div>
+                      {aggregation.operation === "concat" && (
+                        <div className="space-y-1.5 min-w-0">
+                          <label
+                            htmlFor={`${id}-separator`}
+                            className="text-xs font-medium text-muted-foreground"
+                          >
+                            Separator
+                          </label>
+                          <Input
+                            id={`${id}-separator`}
+                            value={aggregation.separator ?? ""}
+                            onChange={(e) =>
+                              updateAggregation(index, {
+                                separator: e.target.value || undefined,
+                              })
+                            }
+                            placeholder=", "
+                            className="h-9"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </ConfigCard>
+              );
+            })}
+          </div>
+        )}
+      </ConfigSection>
+
+      <InfoCard title="Output">
+        <p>
+          One item per group, with the group-by fields and the output fields
+          above, e.g. <code>{"{{ nodes.<this node>.output.sum_total }}"}</code>.
+          Missing values are skipped; count without a field counts every item.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
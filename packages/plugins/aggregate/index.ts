@@ -0,0 +1,145 @@
+/**
+ * Aggregate Plugin (Flow-Based)
+ *
+ * Groups the node's input items by one or more key fields and outputs one
+ * item per group, holding the key fields and one field per aggregation:
+ * count, sum, avg, min, max, first, last, concat or collect (a list of the
+ * values). Without key fields, all items form a single group.
+ *
+ * Items holding arrays (e.g. a static-data list) count as that many items.
+ * The output schema follows the configured keys and aggregations, so the
+ * result fields are offered in expressions.
+ *
+ * Usage Examples:
+ * - Revenue per customer: groupBy ["customerId"], sum of "total"
+ * - Row count and latest date: count, max of "createdAt"
+ * - Emails per team: groupBy ["team"], collect "email"
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+import {
+  Aggregation,
+  type AggregationOperation,
+  aggregateGroup,
+  getAggregationName,
+  groupItems,
+} from "./aggregations";
+
+const AggregateConfig = z.object({
+  groupBy: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Fields to group by (one group for all items when empty)"),
+  aggregations: z
+    .array(Aggregation)
+    .describe("Aggregations computed for each group"),
+});
+
+type AggregateConfig = z.infer<typeof AggregateConfig>;
+
+/** Output field type of each aggregation */
+const AGGREGATION_SCHEMAS: Record<AggregationOperation, () => z.ZodType> = {
+  count: () => z.number(),
+  sum: () => z.number(),
+  avg: () => z.number().nullable(),
+  min: () => z.unknown(),
+  max: () => z.unknown(),
+  first: () => z.unknown(),
+  last: () => z.unknown(),
+  concat: () => z.string(),
+  collect: () => z.array(z.unknown()),
+};
+
+type SchemaTree = { [key: string]: SchemaTree | z.ZodType };
+
+/**
+ * Output item schema for a (possibly incomplete) config: nested objects
+ * for the key fields, then the aggregation fields
+ */
+function getGroupSchema(config: Partial<AggregateConfig>): z.ZodType {
+  const tree: SchemaTree = {};
+
+  for (const field of config.groupBy ?? []) {
+    const segments = field.split(".").filter(Boolean);
+    let node = tree;
+    segments.forEach((segment, index) => {
+      if (index === segments.length - 1) {
+        node[segment] = z.unknown().describe(`Group key ${field}`);
+        return;
+      }
+      const next = node[segment];
+      node[segment] = next instanceof z.ZodType || !next ? {} : next;
+      node = node[segment] as SchemaTree;
+    });
+  }
+
+  for (const aggregation of config.aggregations ?? []) {
+    const operation = aggregation?.operation ?? "count";
+    const description = aggregation?.field
+      ? `${operation} of ${aggregation.field}`
+      : operation;
+    const schema = AGGREGATION_SCHEMAS[operation]?.() ?? z.unknown();
+    tree[getAggregationName(aggregation ?? {})] = schema.describe(description);
+  }
+
+  return toObjectSchema(tree);
+}
+
+function toObjectSchema(tree: SchemaTree): z.ZodType {
+  return z.object(
+    Object.fromEntries(
+      Object.entries(tree).map(([key, value]) => [
+        key,
+        value instanceof z.ZodType ? value : toObjectSchema(value),
+      ]),
+    ),
+  );
+}
+
+export const aggregatePlugin = createPlugin("aggregate")
+  .withMetadata({
+    name: "Aggregate",
+    description:
+      "Groups items by key fields and computes count, sum, average, min, max, first, last, concat or a list per group.",
+    version: "1.0.0",
+    icon: "📊",
+    tags: ["logic"],
+    // One run with all items, so groups span every item
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input", {
+    label: "Input",
+    description: "Items to group and aggregate",
+    schema: z.unknown(),
+  })
+  .withConfig(AggregateConfig)
+  .withOutput("output", {
+    label: "Output",
+    description: "One item per group",
+    schema: z.unknown(),
+  })
+  .withDynamicOutputSchema("output", getGroupSchema)
+  .execute(async ({ inputs, config }) => {
+    // Items holding arrays count as that many items
+    const items = ((inputs.input as unknown[] | undefined) ?? []).flatMap(
+      (item) => (Array.isArray(item) ? item : [item]),
+    );
+    const groupBy = config.groupBy ?? [];
+
+    // Without key fields there's always one group, even for no items
+    const groups = groupItems(items, groupBy);
+    if (groupBy.length === 0 && groups.length === 0) {
+      groups.push({ keys: [], items: [] });
+    }
+
+    return {
+      output: groups.map((group) =>
+        aggregateGroup(group, groupBy, config.aggregations),
+      ),
+    };
+  })
+  .build();
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Checkbox } from "@kianax/ui/components/checkbox";
+import { Input } from "@kianax/ui/components/input";
+import { Textarea } from "@kianax/ui/components/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconPlus } from "@tabler/icons-react";
+import {
+  BaseConfigUI,
+  ConfigSection,
+  ConfigCard,
+  InfoCard,
+  ExpressionField,
+} from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+interface ApprovalField {
+  name: string;
+  label?: string;
+  type: "text" | "number" | "boolean";
+  required?: boolean;
+}
+
+export interface ApprovalConfig {
+  title: string;
+  instructions?: string;
+  /** Data to review - typically an expression like {{ nodes.upstream.output }} */
+  data?: unknown;
+  fields?: ApprovalField[];
+  timeoutMinutes?: number;
+}
+
+interface ApprovalConfigUIProps {
+  value?: ApprovalConfig;
+  onChange: (value: ApprovalConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+const FIELD_TYPES: Array<{ value: ApprovalField["type"]; label: string }> = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Yes / No" },
+];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Configuration UI for Approval Plugin
+ *
+ * Configures what the reviewer sees, the form they fill in and how long
+ * the routine waits for them.
+ */
+export function ApprovalConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: ApprovalConfigUIProps) {
+  const [config, setConfig] = useState<ApprovalConfig>(
+    value || { title: "Approval required", timeoutMinutes: 24 * 60 },
+  );
+
+  const handleChange = (updates: Partial<ApprovalConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const fields = config.fields ?? [];
+
+  const updateField = (index: number, updates: Partial<ApprovalField>) => {
+    handleChange({
+      fields: fields.map((field, i) =>
+        i === index ? { ...field, ...updates } : field,
+      ),
+    });
+  };
+
+  const hours = (config.timeoutMinutes ?? 24 * 60) / 60;
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Title"
+        description="What is being approved, shown in the dashboard"
+        required
+      >
+        <Input
+          value={config.title}
+          onChange={(e) => handleChange({ title: e.target.value })}
+          placeholder="Approve refund"
+        />
+      </ConfigSection>
+
+      <ConfigSection
+        label="Instructions"
+        description="What the reviewer should check"
+      >
+        <Textarea
+          value={config.instructions ?? ""}
+          onChange={(e) =>
+            handleChange({ instructions: e.target.value || undefined })
+          }
+          rows={3}
+          placeholder="Check the amount before approving"
+        />
+      </ConfigSection>
+
+      <ExpressionField
+        label="Data to Review"
+        description="Shown to the reviewer and passed on with the decision"
+        value={
+          config.data === undefined
+            ? ""
+            : typeof config.data === "string"
+              ? config.data
+              : JSON.stringify(config.data, null, 2)
+        }
+        onChange={(val) => {
+          try {
+            handleChange({ data: val ? JSON.parse(val) : undefined });
+          } catch {
+            // Plain text or expression
+            handleChange({ data: val || undefined });
+          }
+        }}
+        expressionContext={expressionContext}
+        multiline
+        rows={4}
+        placeholder="{{ nodes.upstream.output }}"
+      />
+
+      <ConfigSection
+        label="Form Fields"
+        description="Values the reviewer fills in, available as {{ nodes.<approval>.approved.values }}"
+        action={
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              handleChange({
+                fields: [
+                  ...fields,
+                  { name: `field_${fields.length + 1}`, type: "text" },
+                ],
+              })
+            }
+          >
+            <IconPlus className="mr-2 size-3.5" />
+            Add Field
+          </Button>
+        }
+      >
+        {fields.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No form - the reviewer only approves or rejects
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {fields.map((field, index) => (
+              <ConfigCard
+                key={index}
+                title={`Field ${index + 1}`}
+                removable
+                onRemove={() =>
+                  handleChange({
+                    fields: fields.filter((_, i) => i !== index),
+                  })
+                }
+                className="bg-card"
+              >
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      value={field.name}
+                      onChange={(e) =>
+                        updateField(index, { name: e.target.value })
+                      }
+                      placeholder="name"
+                      className="h-9 font-mono"
+                      aria-invalid={!FIELD_NAME_PATTERN.test(field.name)}
+                    />
+                    <Select
+                      value={field.type}
+                      onValueChange={(type) =>
+                        updateField(index, {
+                          type: type as ApprovalField["type"],
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-9 w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIELD_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    value={field.label ?? ""}
+                    onChange={(e) =>
+                      updateField(index, {
+                        label: e.target.value || undefined,
+                      })
+                    }
+                    placeholder="Label (defaults to the name)"
+                    className="h-9"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`approval-field-${index}-required`}
+                      checked={field.required === true}
+                      onCheckedChange={(checked) =>
+                        updateField(index, { required: checked === true })
+                      }
+                    />
+                    <label
+                      htmlFor={`approval-field-${index}-required`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      Required to approve
+                    </label>
+                  </div>
+                </div>
+              </ConfigCard>
+            ))}
+          </div>
+        )}
+      </ConfigSection>
+
+      <ConfigSection
+        label="Timeout (hours)"
+        description="How long to wait before continuing on Timeout (up to 30 days)"
+      >
+        <Input
+          type="number"
+          min={1 / 60}
+          step="any"
+          value={Number.isFinite(hours) ? String(hours) : ""}
+          onChange={(e) => {
+            const parsed = Number(e.target.value);
+            handleChange({
+              timeoutMinutes:
+                e.target.value && Number.isFinite(parsed)
+                  ? Math.max(1, Math.round(parsed * 60))
+                  : undefined,
+            });
+          }}
+        />
+      </ConfigSection>
+
+      <InfoCard title="Responding">
+        <p>
+          While the routine waits, the request is listed under{" "}
+          <strong>Approvals</strong> in the dashboard. Approving, rejecting or
+          running out of time continues on the matching output.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
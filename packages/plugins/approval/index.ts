@@ -0,0 +1,147 @@
+/**
+ * Approval Plugin (Flow-Based)
+ *
+ * Pauses the routine until someone approves or rejects a request, optionally
+ * filling in a form, then continues on the matching handle:
+ * - approved: the request was approved (with the submitted form values)
+ * - rejected: the request was rejected
+ * - timeout: nobody responded within the node's approval timeout
+ *
+ * The workflow runs approval nodes itself: it records the request as a
+ * pending approval shown in the dashboard, waits for the response and
+ * routes it (see the execution engine's approval support). Per-item nodes
+ * ask for one approval per item.
+ *
+ * Usage Examples:
+ * - Review a refund: data {{ nodes.order.output }}, approve to run it
+ * - Ask for input: fields [{ name: "amount", type: "number", required: true }]
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+/** Default time to wait for a response: one day (as in the engine) */
+const DEFAULT_TIMEOUT_MINUTES = 24 * 60;
+
+/** Longest time to wait for a response: 30 days */
+const MAX_TIMEOUT_MINUTES = 30 * 24 * 60;
+
+const FieldName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, {
+  message: "Use letters, digits and underscores, not starting with a digit",
+});
+
+/**
+ * Form field filled in when responding
+ */
+const ApprovalFieldSchema = z.object({
+  name: FieldName.describe("Key of the value in the response"),
+  label: z.string().optional().describe("Label shown on the form"),
+  type: z.enum(["text", "number", "boolean"]).describe("Value type"),
+  required: z.boolean().optional().describe("Required to approve"),
+});
+
+/**
+ * Output: the decision with the reviewed data and the response
+ */
+const ApprovalOutputSchema = z.object({
+  decision: z
+    .enum(["approved", "rejected", "timeout"])
+    .describe("How the approval ended"),
+  data: z.unknown().describe("The data that was reviewed"),
+  values: z
+    .record(z.string(), z.unknown())
+    .describe("Form values submitted with the response"),
+  comment: z.string().optional().describe("Comment left by the responder"),
+  respondedBy: z
+    .object({
+      userId: z.string(),
+      name: z.string(),
+    })
+    .optional()
+    .describe("Who responded (unset on timeout)"),
+  respondedAt: z
+    .number()
+    .optional()
+    .describe("When the response was given (ms timestamp)"),
+});
+
+export const approvalPlugin = createPlugin("approval")
+  .withMetadata({
+    name: "Wait for Approval",
+    description:
+      "Pauses the routine until someone approves, rejects or fills in a form, then continues on the Approved, Rejected or Timeout handle.",
+    version: "1.0.0",
+    icon: "✋",
+    tags: ["logic", "input"],
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withConfig(
+    z.object({
+      title: z
+        .string()
+        .min(1)
+        .default("Approval required")
+        .describe("What is being approved, shown in the dashboard"),
+      instructions: z
+        .string()
+        .optional()
+        .describe("Instructions for the reviewer"),
+      // Data to review (via expression: {{ nodes.upstream.output }})
+      data: z.unknown().optional().describe("Context data to review"),
+      fields: z
+        .array(ApprovalFieldSchema)
+        .optional()
+        .describe("Form fields filled in when responding"),
+      timeoutMinutes: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_TIMEOUT_MINUTES)
+        .optional()
+        .describe(
+          `Minutes to wait before continuing on Timeout (default ${DEFAULT_TIMEOUT_MINUTES})`,
+        ),
+    }),
+  )
+  // Control flow handles for routing
+  .withOutputHandles([
+    {
+      name: "approved",
+      label: "Approved",
+      description: "Executed when the request is approved",
+    },
+    {
+      name: "rejected",
+      label: "Rejected",
+      description: "Executed when the request is rejected",
+    },
+    {
+      name: "timeout",
+      label: "Timeout",
+      description: "Executed when nobody responds in time",
+    },
+  ])
+  .withOutput("approved", {
+    label: "Approved",
+    description: "Executed when the request is approved",
+    schema: ApprovalOutputSchema,
+  })
+  .withOutput("rejected", {
+    label: "Rejected",
+    description: "Executed when the request is rejected",
+    schema: ApprovalOutputSchema,
+  })
+  .withOutput("timeout", {
+    label: "Timeout",
+    description: "Executed when nobody responds in time",
+    schema: ApprovalOutputSchema,
+  })
+  .execute(async () => {
+    // Only the workflow can wait for a response
+    throw new Error(
+      "Approval nodes are run by the routine workflow, not as a plugin",
+    );
+  })
+  .build();
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { getCodeErrorLocation } from "@kianax/plugin-sdk";
+import { CodeEditor } from "@kianax/ui/components/code-editor";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { BaseConfigUI, ConfigSection, InfoCard } from "../ui";
+
+export interface CodeConfig {
+  code: string;
+  language?: "javascript" | "typescript";
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+}
+
+interface CodeConfigUIProps {
+  value?: CodeConfig;
+  onChange: (value: CodeConfig) => void;
+  /** Error of the node's latest test run */
+  executionError?: string;
+}
+
+const LANGUAGES: Array<{
+  value: NonNullable<CodeConfig["language"]>;
+  label: string;
+}> = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "typescript", label: "TypeScript" },
+];
+
+const DEFAULT_CODE = `// items: input items, vars: routine variables, trigger: trigger data
+return items.map((item) => ({
+  ...item,
+}));`;
+
+/**
+ * Configuration UI for Code Plugin
+ *
+ * Edits the code and its language and limits. The line of the latest test
+ * run's error is highlighted until the code is edited.
+ */
+export function CodeConfigUI({
+  value,
+  onChange,
+  executionError,
+}: CodeConfigUIProps) {
+  const [config, setConfig] = useState<CodeConfig>(
+    value || { code: DEFAULT_CODE, language: "javascript" },
+  );
+  // The error belongs to the code that ran, not to edits made since
+  const [ranCode] = useState(config.code);
+
+  const handleChange = (updates: Partial<CodeConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const codeError =
+    executionError && config.code === ranCode ? executionError : undefined;
+  const errorLocation = codeError && getCodeErrorLocation(codeError);
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection label="Language">
+        <Select
+          value={config.language ?? "javascript"}
+          onValueChange={(language) =>
+            handleChange({ language: language as CodeConfig["language"] })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGES.map((language) => (
+              <SelectItem key={language.value} value={language.value}>
+                {language.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      <ConfigSection
+        label="Code"
+        description="Body of an async function: may use await, returns the output items"
+        error={codeError}
+        required
+      >
+        <CodeEditor
+          value={config.code}
+          onChange={(code) => handleChange({ code })}
+          errorLine={errorLocation ? errorLocation.line : undefined}
+          minHeight={200}
+        />
+      </ConfigSection>
+
+      <div className="grid grid-cols-2 gap-3">
+        <ConfigSection label="CPU time limit (ms)">
+          <Input
+            type="number"
+            min={100}
+            max={60000}
+            value={config.timeoutMs ?? ""}
+            placeholder="5000"
+            onChange={(e) =>
+              handleChange({
+                timeoutMs: e.target.value ? Number(e.target.value) : undefined,
+              })
+            }
+          />
+        </ConfigSection>
+        <ConfigSection label="Memory limit (MB)">
+          <Input
+            type="number"
+            min={16}
+            max={256}
+            value={config.memoryLimitMb ?? ""}
+            placeholder="64"
+            onChange={(e) =>
+              handleChange({
+                memoryLimitMb: e.target.value
+                  ? Number(e.target.value)
+                  : undefined,
+              })
+            }
+          />
+        </ConfigSection>
+      </div>
+
+      <InfoCard title="Globals">
+        <p>
+          <code>items</code> holds the input items' data, <code>vars</code> the
+          routine variables and <code>trigger</code> the trigger data. Return an
+          array for one item per element, or a single value. The code can't use
+          the network or files; <code>console.log</code> output goes to the
+          worker logs.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Code Plugin (Flow-Based)
+ *
+ * Runs a JavaScript or TypeScript snippet over the node's input items. The
+ * snippet is the body of an async function with these globals:
+ * - items: the input items' data (an array)
+ * - vars: the routine's variables
+ * - trigger: the trigger data
+ *
+ * It returns the output items: an array is one item per element, any other
+ * value a single item, and nothing means no items.
+ *
+ * The code runs in the worker's sandbox (see CodeSandbox in the plugin SDK):
+ * isolated, with CPU-time and memory limits and without network or
+ * filesystem access. Errors report the line of the snippet they happened
+ * at, which the editor highlights.
+ *
+ * Usage Examples:
+ * - Compute a field: return items.map((item) => ({ ...item, total: item.price * item.qty }));
+ * - Summarize: return { count: items.length };
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+/** Default CPU time limit of a run */
+export const DEFAULT_CODE_TIMEOUT_MS = 5000;
+
+/** Default heap size limit of a run */
+export const DEFAULT_CODE_MEMORY_LIMIT_MB = 64;
+
+export const codePlugin = createPlugin("code")
+  .withMetadata({
+    name: "Code",
+    description:
+      "Runs your JavaScript or TypeScript on the input items, with access to variables and trigger data, and outputs the items it returns.",
+    version: "1.0.0",
+    icon: "💻",
+    tags: ["logic"],
+    // One run with all items, so code can filter, split or combine them
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input", {
+    label: "Input",
+    description: "Items available to the code as `items`",
+    schema: z.unknown(),
+  })
+  .withConfig(
+    z.object({
+      code: z.string().min(1).describe("Body of an async function"),
+      language: z
+        .enum(["javascript", "typescript"])
+        .optional()
+        .describe("Language of the code (default JavaScript)"),
+      timeoutMs: z
+        .number()
+        .int()
+        .min(100)
+        .max(60000)
+        .optional()
+        .describe(`CPU time limit in ms (default ${DEFAULT_CODE_TIMEOUT_MS})`),
+      memoryLimitMb: z
+        .number()
+        .int()
+        .min(16)
+        .max(256)
+        .optional()
+        .describe(
+          `Memory limit in MB (default ${DEFAULT_CODE_MEMORY_LIMIT_MB})`,
+        ),
+    }),
+  )
+  .withOutput("output", {
+    label: "Output",
+    description: "Items returned by the code",
+    schema: z.unknown(),
+  })
+  .execute(async ({ inputs, config, context }) => {
+    if (!context.sandbox) {
+      throw new Error("Code nodes can only run where a code sandbox exists");
+    }
+
+    const { result, logs } = await context.sandbox.run({
+      code: config.code,
+      language: config.language ?? "javascript",
+      globals: {
+        items: (inputs.input as unknown[] | undefined) ?? [],
+        vars: context.variables ?? {},
+        trigger: context.triggerData ?? null,
+      },
+      timeoutMs: config.timeoutMs ?? DEFAULT_CODE_TIMEOUT_MS,
+      memoryLimitMb: config.memoryLimitMb ?? DEFAULT_CODE_MEMORY_LIMIT_MB,
+      signal: context.signal,
+    });
+
+    for (const line of logs) {
+      console.log(`  [code] ${line}`);
+    }
+
+    // Batch output: an array is one item per element
+    return {
+      output:
+        result === undefined || result === null
+          ? []
+          : Array.isArray(result)
+            ? result
+            : [result],
+    };
+  })
+  .build();
@@ -1,13 +1,47 @@
 /**
  * Plugin Configuration UI Registry
  *
- * Gets configuration UI components from plugin classes.
- * This allows the web app to dynamically load and render plugin config UIs.
+ * Maps plugins to their configuration UI components, so the web app can
+ * render them. The components live here rather than on the plugins, which
+ * keeps the plugin registry free of React for the server and the workers.
  */
 
 import type { ComponentType } from "react";
 import { createPluginInstance } from "./registry";
 
+import { aggregatePlugin } from "./aggregate";
+import { AggregateConfigUI } from "./aggregate/config-ui";
+import { approvalPlugin } from "./approval";
+import { ApprovalConfigUI } from "./approval/config-ui";
+import { codePlugin } from "./code";
+import { CodeConfigUI } from "./code/config-ui";
+import { emitEventPlugin } from "./emit-event";
+import { EmitEventConfigUI } from "./emit-event/config-ui";
+import { executeRoutinePlugin } from "./execute-routine";
+import { ExecuteRoutineConfigUI } from "./execute-routine/config-ui";
+import { googleSheetsPlugin } from "./google-sheets";
+import { GoogleSheetsConfigUI } from "./google-sheets/config-ui";
+import { httpRequestPlugin } from "./http";
+import { HttpRequestConfigUI } from "./http/config-ui";
+import { ifElsePlugin } from "./if-else";
+import { IfElseConfigUI } from "./if-else/config-ui";
+import { loopPlugin } from "./loop";
+import { LoopConfigUI } from "./loop/config-ui";
+import { mergePlugin } from "./merge";
+import { MergeConfigUI } from "./merge/config-ui";
+import { openaiMessagePlugin } from "./openai";
+import { OpenAIConfigUI } from "./openai/config-ui";
+import { respondToWebhookPlugin } from "./respond-to-webhook";
+import { RespondToWebhookConfigUI } from "./respond-to-webhook/config-ui";
+import { staticDataPlugin } from "./static-data";
+import { StaticDataConfigUI } from "./static-data/config-ui";
+import { switchPlugin } from "./switch";
+import { SwitchConfigUI } from "./switch/config-ui";
+import { transformPlugin } from "./transform";
+import { TransformConfigUI } from "./transform/config-ui";
+import { waitPlugin } from "./wait";
+import { WaitConfigUI } from "./wait/config-ui";
+
 /**
  * Expression context for autocomplete suggestions in plugin config UIs.
  * Provided by the routine editor when the node is being configured.
@@ -31,6 +65,29 @@ export interface ExpressionContext {
 
   /** Whether trigger context is available */
   hasTrigger?: boolean;
+
+  /** Sample trigger payload for previews, if one was captured */
+  triggerData?: unknown;
+
+  /** Whether the node is inside a loop body ($item / $iteration available) */
+  inLoop?: boolean;
+
+  /** Pinned sample data of upstream nodes (nodeId -> port -> data) */
+  pinnedData?: Record<string, unknown>;
+
+  /** Validation errors of the node's expressions, shown inline */
+  errors?: Array<{ expression: string; message: string; type: string }>;
+
+  /** Create a routine variable (quick-fix for undefined variables) */
+  onCreateVariable?: (name: string) => void;
+}
+
+/**
+ * A routine that plugin config UIs can reference (e.g. to execute it)
+ */
+export interface RoutineOption {
+  id: string;
+  name: string;
 }
 
 /**
@@ -41,13 +98,39 @@ export interface PluginConfigProps<T = any> {
   onChange: (value: T) => void;
   /** Expression context for autocomplete (optional, provided by routine editor) */
   expressionContext?: ExpressionContext;
+  /** The user's other routines (optional, provided by routine editor) */
+  routines?: RoutineOption[];
+  /** Error of the node's latest test run (optional, provided by routine editor) */
+  executionError?: string;
 }
 
+/**
+ * Config UI component of each core plugin, by plugin ID
+ */
+const CONFIG_UIS = new Map<string, ComponentType<PluginConfigProps<any>>>([
+  [aggregatePlugin.getId(), AggregateConfigUI],
+  [approvalPlugin.getId(), ApprovalConfigUI],
+  [codePlugin.getId(), CodeConfigUI],
+  [emitEventPlugin.getId(), EmitEventConfigUI],
+  [executeRoutinePlugin.getId(), ExecuteRoutineConfigUI],
+  [googleSheetsPlugin.getId(), GoogleSheetsConfigUI],
+  [httpRequestPlugin.getId(), HttpRequestConfigUI],
+  [ifElsePlugin.getId(), IfElseConfigUI],
+  [loopPlugin.getId(), LoopConfigUI],
+  [mergePlugin.getId(), MergeConfigUI],
+  [openaiMessagePlugin.getId(), OpenAIConfigUI],
+  [respondToWebhookPlugin.getId(), RespondToWebhookConfigUI],
+  [staticDataPlugin.getId(), StaticDataConfigUI],
+  [switchPlugin.getId(), SwitchConfigUI],
+  [transformPlugin.getId(), TransformConfigUI],
+  [waitPlugin.getId(), WaitConfigUI],
+]);
+
 /**
  * Get config component for a plugin
  *
- * This function gets the config UI component from the plugin class's getConfigUI() method.
- * Plugin authors define their config UI in the plugin class, so no manual registry needed.
+ * Core plugins' components are registered above; other plugins can set
+ * theirs with the builder's withConfigUI().
  *
  * @param pluginId - The unique plugin identifier
  * @returns The config component, or null if none exists
@@ -55,6 +138,9 @@ export interface PluginConfigProps<T = any> {
 export function getPluginConfigComponent(
   pluginId: string,
 ): ComponentType<PluginConfigProps<any>> | null {
+  const component = CONFIG_UIS.get(pluginId);
+  if (component) return component;
+
   const plugin = createPluginInstance(pluginId);
   if (!plugin) return null;
 
@@ -65,8 +151,5 @@ export function getPluginConfigComponent(
  * Check if a plugin has a config UI
  */
 export function hasPluginConfigUI(pluginId: string): boolean {
-  const plugin = createPluginInstance(pluginId);
-  if (!plugin) return false;
-
-  return plugin.getConfigUI() !== null;
+  return getPluginConfigComponent(pluginId) !== null;
 }
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@kianax/ui/components/input";
+import { BaseConfigUI, ConfigSection, InfoCard, ExpressionField } from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+export interface EmitEventConfig {
+  eventName: string;
+  payload?: unknown;
+}
+
+interface EmitEventConfigUIProps {
+  value?: EmitEventConfig;
+  onChange: (value: EmitEventConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+const EVENT_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+
+/**
+ * Configuration UI for Emit Event Plugin
+ *
+ * Configures the event name and the payload passed to subscribed routines.
+ */
+export function EmitEventConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: EmitEventConfigUIProps) {
+  const [config, setConfig] = useState<EmitEventConfig>(
+    value || { eventName: "" },
+  );
+
+  const handleChange = (updates: Partial<EmitEventConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const eventNameError =
+    config.eventName && !EVENT_NAME_PATTERN.test(config.eventName)
+      ? 'Use letters, digits, ".", "_", ":" or "-"'
+      : undefined;
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Event Name"
+        description="Routines with an event trigger for this name will run"
+        error={eventNameError}
+        required
+      >
+        <Input
+          value={config.eventName}
+          onChange={(e) => handleChange({ eventName: e.target.value })}
+          placeholder="order.created"
+          className="font-mono"
+        />
+      </ConfigSection>
+
+      <ExpressionField
+        label="Payload"
+        description="Data passed to subscribed routines as {{ trigger.payload }}"
+        value={
+          config.payload === undefined
+            ? ""
+            : typeof config.payload === "string"
+              ? config.payload
+              : JSON.stringify(config.payload, null, 2)
+        }
+        onChange={(val) => {
+          try {
+            handleChange({ payload: val ? JSON.parse(val) : undefined });
+          } catch {
+            // Plain text or expression
+            handleChange({ payload: val || undefined });
+          }
+        }}
+        expressionContext={expressionContext}
+        multiline
+        rows={6}
+        placeholder={'{"orderId": "{{ nodes.order.output.id }}"}'}
+      />
+
+      <InfoCard title="Subscribing to Events">
+        <p>
+          Create a routine with an <strong>Event</strong> trigger, choose
+          "Custom event" and enter the same name. Events only reach your own
+          active routines.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Emit Event Plugin
+ *
+ * Publishes a named custom event. Active routines with an event trigger
+ * for that name (owned by the same user) start with the payload as their
+ * trigger data, so routines can be chained without copying nodes.
+ *
+ * The event is published by the workflow after the node runs; in editor
+ * test runs the node only outputs the event it would publish.
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+/**
+ * Event names shared with the server's event trigger config
+ */
+const EventName = z.string().regex(/^[A-Za-z0-9_.:-]{1,100}$/, {
+  message: 'Use letters, digits, ".", "_", ":" or "-" (max 100 characters)',
+});
+
+export const emitEventPlugin = createPlugin("emit-event")
+  .withMetadata({
+    name: "Emit Event",
+    description:
+      "Publishes a custom event that starts other routines subscribed to it, passing a payload as their trigger data.",
+    version: "1.0.0",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+    tags: ["output", "action"],
+    icon: "📣",
+  })
+  .withConfig(
+    z.object({
+      eventName: EventName.describe("Name of the event to publish"),
+      payload: z
+        .unknown()
+        .optional()
+        .describe("Data passed to subscribed routines as trigger payload"),
+    }),
+  )
+  .withOutputSchema(
+    z.object({
+      eventName: z.string().describe("Name of the published event"),
+      payload: z.unknown().describe("Published payload"),
+    }),
+  )
+  .execute(async ({ config }) => {
+    const eventName = EventName.safeParse(config.eventName);
+    if (!eventName.success) {
+      throw new Error(
+        `Invalid event name "${config.eventName}": ${eventName.error.issues[0]?.message}`,
+      );
+    }
+
+    return {
+      output: {
+        eventName: eventName.data,
+        payload: config.payload,
+      },
+    };
+  })
+  .build();
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { BaseConfigUI, ConfigSection, ExpressionField, InfoCard } from "../ui";
+import type { ExpressionContext, RoutineOption } from "../config-registry";
+
+export interface ExecuteRoutineConfig {
+  routineId: string;
+  mode?: "wait" | "fire-and-forget";
+  /** Trigger data for the called routine - values are typically expressions */
+  input?: Record<string, unknown>;
+}
+
+interface ExecuteRoutineConfigUIProps {
+  value?: ExecuteRoutineConfig;
+  onChange: (value: ExecuteRoutineConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+  /** The user's routines to choose from */
+  routines?: RoutineOption[];
+}
+
+const MODES: Array<{
+  value: NonNullable<ExecuteRoutineConfig["mode"]>;
+  label: string;
+}> = [
+  { value: "wait", label: "Wait for it to finish" },
+  { value: "fire-and-forget", label: "Start it and continue" },
+];
+
+/**
+ * Configuration UI for Execute Routine Plugin
+ *
+ * Picks the routine to run, whether to wait for it and the trigger data it
+ * receives.
+ */
+export function ExecuteRoutineConfigUI({
+  value,
+  onChange,
+  expressionContext,
+  routines = [],
+}: ExecuteRoutineConfigUIProps) {
+  const [config, setConfig] = useState<ExecuteRoutineConfig>(
+    value || { routineId: "", mode: "wait" },
+  );
+  const [inputText, setInputText] = useState(
+    config.input ? JSON.stringify(config.input, null, 2) : "",
+  );
+
+  const handleChange = (updates: Partial<ExecuteRoutineConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const inputError = getInputError(inputText);
+  const selectedMissing =
+    config.routineId !== "" &&
+    routines.length > 0 &&
+    !routines.some((routine) => routine.id === config.routineId);
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Routine"
+        description="One of your routines to run"
+        error={selectedMissing ? "This routine no longer exists" : undefined}
+        required
+      >
+        <Select
+          value={config.routineId}
+          onValueChange={(routineId) => handleChange({ routineId })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Choose a routine" />
+          </SelectTrigger>
+          <SelectContent>
+            {routines.map((routine) => (
+              <SelectItem key={routine.id} value={routine.id}>
+                {routine.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      <ConfigSection
+        label="Mode"
+        description="Whether this routine waits for the called one"
+      >
+        <Select
+          value={config.mode ?? "wait"}
+          onValueChange={(mode) =>
+            handleChange({ mode: mode as ExecuteRoutineConfig["mode"] })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      <ExpressionField
+        label="Input"
+        description="JSON object passed to the routine, available there as {{ trigger.<key> }}"
+        value={inputText}
+        onChange={(val) => {
+          setInputText(val);
+          if (!getInputError(val)) {
+            handleChange({ input: val.trim() ? JSON.parse(val) : undefined });
+          }
+        }}
+        error={inputError}
+        expressionContext={expressionContext}
+        multiline
+        rows={6}
+        placeholder={'{"orderId": "{{ nodes.order.output.id }}"}'}
+      />
+
+      <InfoCard title="Outputs">
+        <p>
+          When waiting, the called routine's final node outputs are available as{" "}
+          <code>{"{{ nodes.<this node>.output.outputs }}"}</code>, by node ID.
+          Started routines keep running even if this one stops.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
+
+/**
+ * Check that the input text is empty or a JSON object
+ */
+function getInputError(text: string): string | undefined {
+  if (!text.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed !== null &&
+      typeof parsed === "object" &&
+      !Array.isArray(parsed)
+      ? undefined
+      : "Input must be a JSON object";
+  } catch {
+    return "Input must be a JSON object";
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Execute Routine Plugin (Flow-Based)
+ *
+ * Runs another of the user's routines as a step, passing the node's input
+ * as the called routine's trigger data ({{ trigger.<key> }}):
+ * - wait: wait for the called routine to finish and output its final node
+ *   outputs
+ * - fire-and-forget: start the called routine and continue right away
+ *
+ * The workflow runs the called routine itself, as a child workflow linked
+ * to this execution (see the execution engine's routine call support).
+ * Routines can't call themselves, directly or through other routines.
+ *
+ * Usage Examples:
+ * - Reuse a "Notify team" routine: input { message: "{{ nodes.summary.output }}" }
+ * - Kick off slow follow-up work: mode "fire-and-forget"
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+export const executeRoutinePlugin = createPlugin("execute-routine")
+  .withMetadata({
+    name: "Execute Routine",
+    description:
+      "Runs another of your routines with the given input, then continues with its final outputs or right away.",
+    version: "1.0.0",
+    icon: "🔁",
+    tags: ["logic"],
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input", {
+    label: "Input",
+    description: "Data available to the input mapping",
+    schema: z.unknown(),
+  })
+  .withConfig(
+    z.object({
+      routineId: z.string().min(1).describe("Routine to execute"),
+      mode: z
+        .enum(["wait", "fire-and-forget"])
+        .optional()
+        .describe("Wait for the routine to finish (default) or not"),
+      // Mapped via expressions: { orderId: "{{ nodes.order.output.id }}" }
+      input: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe("Trigger data passed to the routine"),
+    }),
+  )
+  .withOutput("output", {
+    label: "Output",
+    description: "The called routine's execution and final outputs",
+    schema: z.object({
+      routineId: z.string().describe("ID of the called routine"),
+      executionId: z.string().describe("Execution ID of the called routine"),
+      status: z
+        .enum(["completed", "started"])
+        .describe("completed when waiting, started for fire and forget"),
+      outputs: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe("Final node outputs by node ID (when waiting)"),
+    }),
+  })
+  .execute(async () => {
+    // Only the workflow can start the called routine
+    throw new Error(
+      "Execute-routine nodes are run by the routine workflow, not as a plugin",
+    );
+  })
+  .build();
@@ -7,7 +7,6 @@
 
 import { createPlugin, z } from "@kianax/plugin-sdk";
 import { googleSheetsOAuth } from "../credentials/definitions/google-sheets";
-import { GoogleSheetsConfigUI } from "./config-ui";
 
 /**
  * Output schema for Google Sheets operations
@@ -48,7 +47,6 @@ export const googleSheetsPlugin = createPlugin("google-sheets")
     }),
   )
   .withOutputSchema(OutputSchema)
-  .withConfigUI(GoogleSheetsConfigUI)
   .execute(async ({ config, context }) => {
     const token = context.credentials?.googleSheets?.access_token;
 
@@ -10,7 +10,6 @@
  */
 
 import { createPlugin, z } from "@kianax/plugin-sdk";
-import { HttpRequestConfigUI } from "./config-ui";
 
 /**
  * HTTP methods enum
@@ -116,8 +115,7 @@ export const httpRequestPlugin = createPlugin("http-request")
     description: "Error response (4xx, 5xx, network errors, timeouts)",
     schema: ErrorResponseSchema,
   })
-  .withConfigUI(HttpRequestConfigUI)
-  .execute(async ({ config }) => {
+  .execute(async ({ config, context }) => {
     const { url: baseUrl, method, headers, body, queryParams } = config;
 
     try {
@@ -156,6 +154,10 @@ export const httpRequestPlugin = createPlugin("http-request")
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), config.timeout);
 
+        // Abort the request when the routine is cancelled
+        const abortRequest = () => controller.abort();
+        context.signal?.addEventListener("abort", abortRequest);
+
         try {
           const response = await fetch(url.toString(), {
             ...options,
@@ -213,6 +215,13 @@ export const httpRequestPlugin = createPlugin("http-request")
         } catch (err) {
           clearTimeout(timeoutId);
           lastError = err instanceof Error ? err : new Error(String(err));
+        } finally {
+          context.signal?.removeEventListener("abort", abortRequest);
+        }
+
+        // Cancellation ends the node instead of taking the error handle
+        if (context.signal?.aborted) {
+          throw lastError ?? new Error("Request cancelled");
         }
 
         // Wait before retry (exponential backoff)
@@ -229,6 +238,8 @@ export const httpRequestPlugin = createPlugin("http-request")
         new Error(`Request failed after ${config.retries + 1} attempts`)
       );
     } catch (error) {
+      if (context.signal?.aborted) throw error;
+
       const message = error instanceof Error ? error.message : String(error);
       const isTimeout = message.includes("aborted");
 
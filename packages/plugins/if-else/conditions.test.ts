@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { ComparisonOperator, evaluateCondition } from "./conditions";
+
+/**
+ * Values each operator accepts and rejects, as [value, compareValue]
+ */
+const CASES: Record<
+  ComparisonOperator,
+  { true: Array<[unknown, unknown]>; false: Array<[unknown, unknown]> }
+> = {
+  "==": {
+    true: [
+      ["a", "a"],
+      [1, 1],
+      [null, null],
+    ],
+    false: [
+      [1, "1"],
+      [{ a: 1 }, { a: 1 }],
+      [null, undefined],
+    ],
+  },
+  "!=": {
+    true: [
+      [1, "1"],
+      ["a", "b"],
+    ],
+    false: [[true, true]],
+  },
+  ">": {
+    true: [
+      [2, 1],
+      ["10", 9],
+    ],
+    false: [
+      [1, 1],
+      ["abc", 1],
+    ],
+  },
+  "<": {
+    true: [
+      [1, 2],
+      [null, 1],
+    ],
+    false: [[2, "2"]],
+  },
+  ">=": {
+    true: [
+      [2, 2],
+      ["3", "2"],
+    ],
+    false: [[1, 2]],
+  },
+  "<=": {
+    true: [
+      [2, 2],
+      [false, 0],
+    ],
+    false: [[undefined, 1]],
+  },
+  contains: {
+    true: [
+      ["hello world", "lo w"],
+      [[1, "a"], "a"],
+    ],
+    false: [
+      ["hello", "Hello"],
+      [[1, 2], "1"],
+      [{ a: 1 }, "a"],
+      [12345, "3"],
+    ],
+  },
+  startsWith: {
+    true: [["invoice-1", "invoice"]],
+    false: [
+      ["invoice-1", "1"],
+      [123, "1"],
+    ],
+  },
+  endsWith: {
+    true: [["report.pdf", ".pdf"]],
+    false: [
+      ["report.pdf", "report"],
+      ["report.pdf", null],
+    ],
+  },
+  matches: {
+    true: [
+      ["order-123", "^order-\\d+$"],
+      ["abc", "b"],
+    ],
+    false: [
+      ["order-x", "^order-\\d+$"],
+      ["abc", "("],
+      [123, "\\d"],
+    ],
+  },
+  exists: {
+    true: [
+      [0, undefined],
+      ["", undefined],
+      [false, undefined],
+    ],
+    false: [
+      [null, undefined],
+      [undefined, undefined],
+    ],
+  },
+  empty: {
+    true: [
+      [null, undefined],
+      [undefined, undefined],
+      ["", undefined],
+      [[], undefined],
+      [{}, undefined],
+    ],
+    false: [
+      [" ", undefined],
+      [[0], undefined],
+      [{ a: undefined }, undefined],
+      [0, undefined],
+      [false, undefined],
+    ],
+  },
+};
+
+describe("evaluateCondition", () => {
+  for (const [operator, cases] of Object.entries(CASES)) {
+    it(`should evaluate ${operator}`, () => {
+      for (const [value, compareValue] of cases.true) {
+        expect(
+          evaluateCondition(
+            value,
+            operator as ComparisonOperator,
+            compareValue,
+          ),
+        ).toBe(true);
+      }
+      for (const [value, compareValue] of cases.false) {
+        expect(
+          evaluateCondition(
+            value,
+            operator as ComparisonOperator,
+            compareValue,
+          ),
+        ).toBe(false);
+      }
+    });
+  }
+
+  it("should test every operator", () => {
+    expect(Object.keys(CASES).sort()).toEqual(
+      [...ComparisonOperator.options].sort(),
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Comparison operators and condition evaluation
+ *
+ * Shared by the if-else and switch plugins.
+ */
+
+import { z } from "@kianax/plugin-sdk";
+
+/**
+ * Comparison operators
+ */
+export const ComparisonOperator = z.enum([
+  "==",
+  "!=",
+  ">",
+  "<",
+  ">=",
+  "<=",
+  "contains",
+  "startsWith",
+  "endsWith",
+  "matches",
+  "exists",
+  "empty",
+]);
+
+export type ComparisonOperator = z.infer<typeof ComparisonOperator>;
+
+/**
+ * Evaluate a single condition
+ */
+export function evaluateCondition(
+  value: unknown,
+  operator: ComparisonOperator,
+  compareValue: unknown,
+): boolean {
+  switch (operator) {
+    case "==":
+      return value === compareValue;
+
+    case "!=":
+      return value !== compareValue;
+
+    case ">":
+      return Number(value) > Number(compareValue);
+
+    case "<":
+      return Number(value) < Number(compareValue);
+
+    case ">=":
+      return Number(value) >= Number(compareValue);
+
+    case "<=":
+      return Number(value) <= Number(compareValue);
+
+    case "contains":
+      if (typeof value === "string" && typeof compareValue === "string") {
+        return value.includes(compareValue);
+      }
+      if (Array.isArray(value)) {
+        return value.includes(compareValue);
+      }
+      return false;
+
+    case "startsWith":
+      return (
+        typeof value === "string" &&
+        typeof compareValue === "string" &&
+        value.startsWith(compareValue)
+      );
+
+    case "endsWith":
+      return (
+        typeof value === "string" &&
+        typeof compareValue === "string" &&
+        value.endsWith(compareValue)
+      );
+
+    case "matches":
+      if (typeof value === "string" && typeof compareValue === "string") {
+        try {
+          const regex = new RegExp(compareValue);
+          return regex.test(value);
+        } catch {
+          return false;
+        }
+      }
+      return false;
+
+    case "exists":
+      return value !== null && value !== undefined;
+
+    case "empty":
+      if (value === null || value === undefined) return true;
+      if (typeof value === "string") return value.length === 0;
+      if (Array.isArray(value)) return value.length === 0;
+      if (typeof value === "object") return Object.keys(value).length === 0;
+      return false;
+  }
+}
@@ -56,7 +56,7 @@ interface IfElseConfigUIProps {
   expressionContext?: ExpressionContext;
 }
 
-const OPERATORS = [
+export const OPERATORS = [
   { value: "==", label: "Equals (==)" },
   { value: "!=", label: "Not Equals (!=)" },
   { value: ">", label: "Greater Than (>)" },
@@ -18,27 +18,7 @@
  */
 
 import { createPlugin, z } from "@kianax/plugin-sdk";
-import { IfElseConfigUI } from "./config-ui";
-
-/**
- * Comparison operators
- */
-const ComparisonOperator = z.enum([
-  "==",
-  "!=",
-  ">",
-  "<",
-  ">=",
-  "<=",
-  "contains",
-  "startsWith",
-  "endsWith",
-  "matches",
-  "exists",
-  "empty",
-]);
-
-type ComparisonOperator = z.infer<typeof ComparisonOperator>;
+import { ComparisonOperator, evaluateCondition } from "./conditions";
 
 /**
  * Single condition (configured at design-time)
@@ -85,79 +65,6 @@ const BranchOutputSchema = z.object({
     .describe("Results for each condition group (groups are ORed together)"),
 });
 
-/**
- * Evaluate a single condition
- */
-function evaluateCondition(
-  value: unknown,
-  operator: ComparisonOperator,
-  compareValue: unknown,
-): boolean {
-  switch (operator) {
-    case "==":
-      return value === compareValue;
-
-    case "!=":
-      return value !== compareValue;
-
-    case ">":
-      return Number(value) > Number(compareValue);
-
-    case "<":
-      return Number(value) < Number(compareValue);
-
-    case ">=":
-      return Number(value) >= Number(compareValue);
-
-    case "<=":
-      return Number(value) <= Number(compareValue);
-
-    case "contains":
-      if (typeof value === "string" && typeof compareValue === "string") {
-        return value.includes(compareValue);
-      }
-      if (Array.isArray(value)) {
-        return value.includes(compareValue);
-      }
-      return false;
-
-    case "startsWith":
-      return (
-        typeof value === "string" &&
-        typeof compareValue === "string" &&
-        value.startsWith(compareValue)
-      );
-
-    case "endsWith":
-      return (
-        typeof value === "string" &&
-        typeof compareValue === "string" &&
-        value.endsWith(compareValue)
-      );
-
-    case "matches":
-      if (typeof value === "string" && typeof compareValue === "string") {
-        try {
-          const regex = new RegExp(compareValue);
-          return regex.test(value);
-        } catch {
-          return false;
-        }
-      }
-      return false;
-
-    case "exists":
-      return value !== null && value !== undefined;
-
-    case "empty":
-      if (value === null || value === undefined) return true;
-      if (typeof value === "string") return value.length === 0;
-      if (Array.isArray(value)) return value.length === 0;
-      if (typeof value === "object") return Object.keys(value).length === 0;
-      return false;
-  }
-}
-
 export const ifElsePlugin = createPlugin("if-else")
   .withMetadata({
     name: "Conditional Branch",
@@ -211,7 +118,6 @@ export const ifElsePlugin = createPlugin("if-else")
     description: "Executed when conditions fail",
     schema: BranchOutputSchema,
   })
-  .withConfigUI(IfElseConfigUI)
   .execute(async ({ config }) => {
     // Value comes from config (resolved from expression)
     const value = config.value;
@@ -17,8 +17,10 @@ export {
   getAllPluginMetadata,
   createPluginInstance,
   getPluginOutputs,
+  getPluginSchemas,
   getPluginOutputSchemaFields,
   type OutputSchemaField,
+  type PluginSchemaSet,
 } from "./registry";
 
 // Export config registry
@@ -27,6 +29,7 @@ export {
   hasPluginConfigUI,
   type PluginConfigProps,
   type ExpressionContext as PluginExpressionContext,
+  type RoutineOption,
 } from "./config-registry";
 
 // Export credential registry
@@ -45,3 +48,14 @@ export { openaiMessagePlugin } from "./openai";
 export { googleSheetsPlugin } from "./google-sheets";
 export { ifElsePlugin } from "./if-else";
 export { httpRequestPlugin } from "./http";
+export { respondToWebhookPlugin } from "./respond-to-webhook";
+export { emitEventPlugin } from "./emit-event";
+export { switchPlugin } from "./switch";
+export { loopPlugin } from "./loop";
+export { mergePlugin } from "./merge";
+export { approvalPlugin } from "./approval";
+export { waitPlugin } from "./wait";
+export { executeRoutinePlugin } from "./execute-routine";
+export { codePlugin } from "./code";
+export { transformPlugin } from "./transform";
+export { aggregatePlugin } from "./aggregate";
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@kianax/ui/components/input";
+import { BaseConfigUI, ConfigSection, InfoCard, ExpressionField } from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+export interface LoopConfig {
+  /** Array to loop over - typically an expression like {{ nodes.upstream.output.items }} */
+  items: unknown;
+  batchSize?: number;
+}
+
+interface LoopConfigUIProps {
+  value?: LoopConfig;
+  onChange: (value: LoopConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+/**
+ * Configuration UI for Loop Plugin
+ *
+ * Configures the array to walk and how many items each iteration receives.
+ */
+export function LoopConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: LoopConfigUIProps) {
+  const [config, setConfig] = useState<LoopConfig>(
+    value || { items: "", batchSize: 1 },
+  );
+
+  const handleChange = (updates: Partial<LoopConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const batchSizeError =
+    config.batchSize !== undefined &&
+    (!Number.isInteger(config.batchSize) || config.batchSize < 1)
+      ? "Must be a whole number of at least 1"
+      : undefined;
+
+  return (
+    <BaseConfigUI>
+      <ExpressionField
+        label="Items"
+        description="The array to loop over. Use an expression to reference data from other nodes."
+        value={
+          config.items === undefined
+            ? ""
+            : typeof config.items === "string"
+              ? config.items
+              : JSON.stringify(config.items)
+        }
+        onChange={(val) => {
+          try {
+            handleChange({ items: val ? JSON.parse(val) : undefined });
+          } catch {
+            // Expression
+            handleChange({ items: val || undefined });
+          }
+        }}
+        expressionContext={expressionContext}
+        placeholder="{{ nodes.upstream.output.items }}"
+      />
+
+      <ConfigSection
+        label="Batch Size"
+        description="Items per iteration"
+        error={batchSizeError}
+      >
+        <Input
+          type="number"
+          min={1}
+          step={1}
+          value={config.batchSize ?? ""}
+          onChange={(e) =>
+            handleChange({
+              batchSize:
+                e.target.value === "" ? undefined : Number(e.target.value),
+            })
+          }
+          placeholder="1"
+          className="h-9"
+        />
+      </ConfigSection>
+
+      <InfoCard title="Building a Loop">
+        <div className="space-y-2">
+          <p>
+            Connect the loop body to the{" "}
+            <span className="font-medium text-foreground">Iteration</span>{" "}
+            output, and connect the last body node back to this node. After the
+            last item, execution continues on{" "}
+            <span className="font-medium text-foreground">Complete</span>.
+          </p>
+          <p>
+            Inside the body, use <code>{"{{ $item }}"}</code> for the current
+            item (or batch) and <code>{"{{ $iteration }}"}</code> for the
+            iteration number, starting at 0.
+          </p>
+        </div>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
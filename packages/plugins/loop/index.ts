@@ -0,0 +1,142 @@
+/**
+ * Loop Plugin (Flow-Based)
+ *
+ * Walks an array in batches, like n8n's SplitInBatches. Each run emits the
+ * next batch on the "iteration" handle; the loop body processes it and
+ * connects back to this node. Once all items are processed, the node emits
+ * on the "complete" handle instead and resets for its next use.
+ *
+ * Progress is kept in nodeState, so the node must run once per batch.
+ * Inside the loop body, {{ $item }} is the current item (or batch) and
+ * {{ $iteration }} the zero-based iteration number.
+ *
+ * Usage Examples:
+ * - One item at a time: items {{ nodes.http.success.data.users }}
+ * - Batches of 10: items {{ trigger.rows }}, batchSize 10
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+/**
+ * Progress across runs, kept in nodeState
+ */
+interface LoopProgress {
+  /** Items captured on the first run */
+  items?: unknown[];
+  /** Index of the next unprocessed item */
+  index?: number;
+  /** Number of batches emitted so far */
+  iteration?: number;
+}
+
+const IterationOutputSchema = z.object({
+  item: z
+    .unknown()
+    .describe("Current item, or the current batch when batch size is above 1"),
+  items: z.array(z.unknown()).describe("Items in the current batch"),
+  iteration: z.number().describe("Zero-based iteration number"),
+  index: z.number().describe("Index of the batch's first item"),
+  total: z.number().describe("Total number of items"),
+});
+
+const CompleteOutputSchema = z.object({
+  items: z.array(z.unknown()).describe("All items that were processed"),
+  iterations: z.number().describe("Number of iterations run"),
+});
+
+export const loopPlugin = createPlugin("loop")
+  .withMetadata({
+    name: "Loop",
+    description:
+      "Runs the connected nodes once per item (or batch of items), then continues on Complete.",
+    version: "1.0.0",
+    icon: "🔁",
+    tags: ["logic"],
+    // One run per arrival, however many items reach the node - progress
+    // lives in node state
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withConfig(
+    z.object({
+      // Array to walk (via expression: {{ nodes.upstream.output.items }})
+      items: z.unknown().describe("The array of items to loop over"),
+
+      batchSize: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Number of items per iteration (default 1)"),
+    }),
+  )
+  .withOutputHandles([
+    {
+      name: "iteration",
+      label: "Iteration",
+      description: "Executed once per batch - connect the loop body here",
+    },
+    {
+      name: "complete",
+      label: "Complete",
+      description: "Executed after all items are processed",
+    },
+  ])
+  .withOutput("iteration", {
+    label: "Iteration",
+    description: "Executed once per batch - connect the loop body here",
+    schema: IterationOutputSchema,
+  })
+  .withOutput("complete", {
+    label: "Complete",
+    description: "Executed after all items are processed",
+    schema: CompleteOutputSchema,
+  })
+  .execute(async ({ config, nodeState }) => {
+    const progress = nodeState as LoopProgress;
+
+    // First run: capture the items so later runs walk the same array
+    if (!progress.items) {
+      if (!Array.isArray(config.items)) {
+        throw new Error(
+          `Loop items must be an array, got ${config.items === null ? "null" : typeof config.items}`,
+        );
+      }
+      progress.items = config.items;
+      progress.index = 0;
+      progress.iteration = 0;
+    }
+
+    const items = progress.items;
+    const index = progress.index ?? 0;
+    const iteration = progress.iteration ?? 0;
+
+    if (index >= items.length) {
+      // Reset so an enclosing loop can run this loop again
+      delete progress.items;
+      delete progress.index;
+      delete progress.iteration;
+
+      return { complete: { items, iterations: iteration } };
+    }
+
+    const batchSize = Math.max(1, Math.floor(config.batchSize ?? 1));
+    const batch = items.slice(index, index + batchSize);
+
+    progress.index = index + batch.length;
+    progress.iteration = iteration + 1;
+
+    return {
+      iteration: {
+        item: batchSize === 1 ? batch[0] : batch,
+        items: batch,
+        iteration,
+        index,
+        total: items.length,
+      },
+    };
+  })
+  .build();
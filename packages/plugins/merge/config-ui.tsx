@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { BaseConfigUI, ConfigSection, InfoCard } from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+export interface MergeConfig {
+  mode: "wait-all" | "first" | "append" | "join";
+  /** Field to match on in join mode, e.g. "id" or "customer.id" */
+  key?: string;
+  joinType?: "inner" | "left";
+}
+
+interface MergeConfigUIProps {
+  value?: MergeConfig;
+  onChange: (value: MergeConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+const MODES: Array<{ value: MergeConfig["mode"]; label: string }> = [
+  { value: "wait-all", label: "Wait for all inputs" },
+  { value: "first", label: "First input to arrive" },
+  { value: "append", label: "Append items" },
+  { value: "join", label: "Join by key" },
+];
+
+/**
+ * Configuration UI for Merge Plugin
+ *
+ * Picks how converging branches are combined; join mode also takes the
+ * key field and join type.
+ */
+export function MergeConfigUI({ value, onChange }: MergeConfigUIProps) {
+  const [config, setConfig] = useState<MergeConfig>(
+    value || { mode: "wait-all" },
+  );
+
+  const handleChange = (updates: Partial<MergeConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection label="Mode" description="How to combine the inputs">
+        <Select
+          value={config.mode}
+          onValueChange={(mode) =>
+            handleChange({ mode: mode as MergeConfig["mode"] })
+          }
+        >
+          <SelectTrigger className="h-9 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      {config.mode === "join" && (
+        <>
+          <ConfigSection
+            label="Key Field"
+            description="Field matched between Input 1 and Input 2 items"
+            error={config.key ? undefined : "Required for join mode"}
+          >
+            <Input
+              value={config.key ?? ""}
+              onChange={(e) =>
+                handleChange({ key: e.target.value || undefined })
+              }
+              placeholder="id"
+              className="h-9 font-mono"
+            />
+          </ConfigSection>
+
+          <ConfigSection
+            label="Join Type"
+            description="What happens to Input 1 items without a match"
+          >
+            <Select
+              value={config.joinType ?? "inner"}
+              onValueChange={(joinType) =>
+                handleChange({
+                  joinType: joinType as MergeConfig["joinType"],
+                })
+              }
+            >
+              <SelectTrigger className="h-9 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inner">Drop unmatched (inner)</SelectItem>
+                <SelectItem value="left">Keep unmatched (left)</SelectItem>
+              </SelectContent>
+            </Select>
+          </ConfigSection>
+        </>
+      )}
+
+      <InfoCard title="Converging Branches">
+        <p>
+          The node runs once every connected branch has produced data or been
+          skipped, so it can follow a Conditional Branch or Switch where only
+          one path runs.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
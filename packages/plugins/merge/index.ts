@@ -0,0 +1,167 @@
+/**
+ * Merge Plugin (Flow-Based)
+ *
+ * Brings converging branches back together. The engine runs the node once
+ * every branch has either delivered items or been skipped (e.g. the branch
+ * an if-else didn't take), then merges what arrived:
+ * - wait-all: one item holding each input's data
+ * - first: the items of the first input to arrive
+ * - append: the items of every input, in arrival order
+ * - join: items of Input 1 and Input 2 paired by a key field
+ *
+ * Append and join treat an item holding an array (e.g. a static-data or
+ * HTTP response list) as that many items.
+ *
+ * Usage Examples:
+ * - After an if-else: connect both branches to Input 1, mode "first"
+ * - Enrich records: users on Input 1, orders on Input 2, join by "userId"
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+const MergeMode = z.enum(["wait-all", "first", "append", "join"]);
+
+const JoinType = z.enum(["inner", "left"]);
+
+/**
+ * Read a dot-separated path ("customer.id") from an item
+ */
+function getKey(item: unknown, path: string): unknown {
+  let value = item;
+  for (const segment of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Expand items holding arrays into their elements
+ */
+function toList(items: unknown[] | undefined): unknown[] {
+  return (items ?? []).flatMap((item) => (Array.isArray(item) ? item : [item]));
+}
+
+/**
+ * Pair items of both inputs whose key fields are equal, merging each pair
+ * into one object. Left joins keep unmatched Input 1 items as they are.
+ */
+function joinItems(
+  left: unknown[],
+  right: unknown[],
+  key: string,
+  joinType: z.infer<typeof JoinType>,
+): unknown[] {
+  const rightByKey = new Map<unknown, unknown[]>();
+  for (const item of right) {
+    const value = getKey(item, key);
+    if (value === undefined) continue;
+    const matches = rightByKey.get(value) || [];
+    matches.push(item);
+    rightByKey.set(value, matches);
+  }
+
+  const joined: unknown[] = [];
+  for (const item of left) {
+    const value = getKey(item, key);
+    const matches = value !== undefined ? rightByKey.get(value) : undefined;
+
+    if (!matches) {
+      if (joinType === "left") joined.push(item);
+      continue;
+    }
+    for (const match of matches) {
+      joined.push({
+        ...(item as Record<string, unknown>),
+        ...(match as Record<string, unknown>),
+      });
+    }
+  }
+  return joined;
+}
+
+export const mergePlugin = createPlugin("merge")
+  .withMetadata({
+    name: "Merge",
+    description:
+      "Waits for converging branches and combines their data: all inputs, the first to arrive, appended, or joined by key.",
+    version: "1.0.0",
+    icon: "🔗",
+    tags: ["logic"],
+    // One run with the items of every branch
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input1", {
+    label: "Input 1",
+    description: "First branch (left side of a join)",
+    schema: z.unknown(),
+  })
+  .withInput("input2", {
+    label: "Input 2",
+    description: "Second branch (right side of a join)",
+    schema: z.unknown(),
+  })
+  .withConfig(
+    z.object({
+      mode: MergeMode.describe("How to combine the inputs"),
+
+      // Field to match on in join mode (e.g. "id" or "customer.id")
+      key: z.string().optional().describe("Key field for join mode"),
+
+      joinType: JoinType.optional().describe(
+        "Keep unmatched Input 1 items (left) or drop them (inner, default)",
+      ),
+    }),
+  )
+  .withOutput("output", {
+    label: "Output",
+    description: "Merged data",
+    schema: z.unknown(),
+  })
+  .execute(async ({ config, inputs }) => {
+    // Inputs that received items, in arrival order. Inputs whose branch
+    // was skipped are absent or empty.
+    const received = Object.entries(inputs as Record<string, unknown[]>).filter(
+      ([, items]) => items.length > 0,
+    );
+
+    switch (config.mode) {
+      case "wait-all":
+        return {
+          output: Object.fromEntries(
+            received.map(([name, items]) => [
+              name,
+              items.length === 1 ? items[0] : items,
+            ]),
+          ),
+        };
+
+      case "first":
+        return { output: received[0]?.[1] ?? [] };
+
+      case "append":
+        return { output: received.flatMap(([, items]) => toList(items)) };
+
+      case "join": {
+        if (!config.key) {
+          throw new Error("Join mode requires a key field");
+        }
+        return {
+          output: joinItems(
+            toList(inputs.input1 as unknown[] | undefined),
+            toList(inputs.input2 as unknown[] | undefined),
+            config.key,
+            config.joinType ?? "inner",
+          ),
+        };
+      }
+
+      default:
+        throw new Error(`Unknown merge mode: ${config.mode}`);
+    }
+  })
+  .build();
@@ -6,9 +6,8 @@
  */
 
 import { createPlugin, z } from "@kianax/plugin-sdk";
-import OpenAI from "openai";
+import type OpenAI from "openai";
 import { openaiApi } from "../credentials/definitions/openai-api";
-import { OpenAIConfigUI } from "./config-ui";
 
 /**
  * Output schema for OpenAI response
@@ -55,7 +54,6 @@ export const openaiMessagePlugin = createPlugin("openai-message")
     }),
   )
   .withOutputSchema(OutputSchema)
-  .withConfigUI(OpenAIConfigUI)
   .execute(async ({ config, context }) => {
     // Access the resolved credential
     const credential = context.credentials?.["openai-api"];
@@ -66,7 +64,10 @@ export const openaiMessagePlugin = createPlugin("openai-message")
       );
     }
 
-    const openai = new OpenAI({
+    // Loaded on first use, so reading the plugin registry (e.g. for
+    // schemas on the server) doesn't load the client
+    const { default: OpenAIClient } = await import("openai");
+    const openai = new OpenAIClient({
       apiKey: credential.apiKey,
     });
 
@@ -3,6 +3,9 @@
  *
  * Central registry for all available plugins in the platform.
  * Flat structure - all plugins in root level folders.
+ *
+ * Free of UI code, so the server can import it as
+ * "@kianax/plugins/registry" (config UIs are in config-registry.ts).
  */
 
 import {
@@ -10,6 +13,7 @@ import {
   type PluginMetadata,
   type PluginTag,
 } from "@kianax/plugin-sdk";
+import type { z } from "zod";
 
 // Import all builder-based plugins
 import { staticDataPlugin } from "./static-data";
@@ -17,6 +21,17 @@ import { ifElsePlugin } from "./if-else";
 import { httpRequestPlugin } from "./http";
 import { openaiMessagePlugin } from "./openai";
 import { googleSheetsPlugin } from "./google-sheets";
+import { respondToWebhookPlugin } from "./respond-to-webhook";
+import { emitEventPlugin } from "./emit-event";
+import { switchPlugin } from "./switch";
+import { loopPlugin } from "./loop";
+import { mergePlugin } from "./merge";
+import { approvalPlugin } from "./approval";
+import { waitPlugin } from "./wait";
+import { executeRoutinePlugin } from "./execute-routine";
+import { codePlugin } from "./code";
+import { transformPlugin } from "./transform";
+import { aggregatePlugin } from "./aggregate";
 
 const PLUGINS: Plugin<any, any>[] = [
   staticDataPlugin,
@@ -24,6 +39,17 @@ const PLUGINS: Plugin<any, any>[] = [
   httpRequestPlugin,
   openaiMessagePlugin,
   googleSheetsPlugin,
+  respondToWebhookPlugin,
+  emitEventPlugin,
+  switchPlugin,
+  loopPlugin,
+  mergePlugin,
+  approvalPlugin,
+  waitPlugin,
+  executeRoutinePlugin,
+  codePlugin,
+  transformPlugin,
+  aggregatePlugin,
 ];
 
 /**
@@ -126,19 +152,58 @@ export function createPluginInstance(
 
 /**
  * Get output port names for a plugin
+ *
+ * Pass the node's config for plugins with config-dependent output handles.
  */
-export function getPluginOutputs(pluginId: string): string[] {
+export function getPluginOutputs(
+  pluginId: string,
+  config?: Record<string, unknown>,
+): string[] {
   const plugin = getPlugin(pluginId);
   if (!plugin) return ["data"]; // Default fallback
 
   try {
-    const schemas = plugin.defineSchemas();
-    return Object.keys(schemas.outputs);
+    return Object.keys(plugin.getOutputs(config));
   } catch {
     return ["data"]; // Default fallback if defineSchemas fails
   }
 }
 
+/**
+ * Output and config schemas of a plugin, for type checking expressions
+ */
+export interface PluginSchemaSet {
+  /** Data schema of each output port, by name */
+  outputs: Record<string, z.ZodType | undefined>;
+  /** Config schema */
+  config?: z.ZodType;
+}
+
+/**
+ * Get the output and config schemas of a plugin
+ *
+ * Pass the node's config for plugins with config-dependent outputs.
+ */
+export function getPluginSchemas(
+  pluginId: string,
+  config?: Record<string, unknown>,
+): PluginSchemaSet | undefined {
+  const plugin = getPlugin(pluginId);
+  if (!plugin) return undefined;
+
+  try {
+    const outputs = plugin.getOutputs(config);
+    return {
+      outputs: Object.fromEntries(
+        Object.entries(outputs).map(([name, port]) => [name, port.schema]),
+      ),
+      config: plugin.defineSchemas().config,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Output schema field for expression autocomplete
  */
@@ -155,28 +220,30 @@ export interface OutputSchemaField {
  *
  * @param pluginId - Plugin identifier
  * @param outputPortName - Output port name (optional, defaults to "output" for flow-based plugins)
+ * @param config - Node config, for plugins with config-dependent output handles
  * @returns Array of schema fields for autocomplete
  */
 export function getPluginOutputSchemaFields(
   pluginId: string,
   outputPortName?: string,
+  config?: Record<string, unknown>,
 ): OutputSchemaField[] {
   const plugin = getPlugin(pluginId);
   if (!plugin) return [];
 
   try {
-    const schemas = plugin.defineSchemas();
+    const outputs = plugin.getOutputs(config);
 
     // If no output port specified, try "output" (flow-based) then first available
     let targetPort = outputPortName;
     if (!targetPort) {
-      const portNames = Object.keys(schemas.outputs);
+      const portNames = Object.keys(outputs);
       targetPort = portNames.includes("output") ? "output" : portNames[0];
     }
 
     if (!targetPort) return [];
 
-    const portDef = schemas.outputs[targetPort];
+    const portDef = outputs[targetPort];
     if (!portDef?.schema) return [];
 
     // Extract fields from the Zod schema
@@ -191,18 +258,20 @@ export function getPluginOutputSchemaFields(
  * Recursively traverses object schemas to build the completion tree.
  */
 function extractSchemaFields(schema: any): OutputSchemaField[] {
-  if (!schema || !schema._def) return [];
+  const unwrapped = unwrapSchema(schema);
+  if (!unwrapped) return [];
 
-  const def = schema._def;
-  const typeName = def.typeName;
+  const def = unwrapped._def;
+  const kind = getZodKind(unwrapped);
 
   // Handle ZodObject - extract shape keys
-  if (typeName === "ZodObject" && def.shape) {
+  if (kind === "object" && def.shape) {
     const shape = typeof def.shape === "function" ? def.shape() : def.shape;
     return Object.entries(shape).map(([key, value]) => {
       const fieldSchema = value as any;
       const fieldType = getZodTypeSimple(fieldSchema);
-      const description = fieldSchema._def?.description;
+      const description =
+        fieldSchema.description ?? fieldSchema._def?.description;
 
       // Recursively get children for nested objects
       let children: OutputSchemaField[] | undefined;
@@ -211,7 +280,7 @@ function extractSchemaFields(schema: any): OutputSchemaField[] {
         if (children.length === 0) children = undefined;
       } else if (fieldType === "arr") {
         // For arrays, try to get the element type
-        const elementType = fieldSchema._def?.type;
+        const elementType = getArrayElement(fieldSchema);
         if (elementType && getZodTypeSimple(elementType) === "obj") {
           children = extractSchemaFields(elementType);
           if (children.length === 0) children = undefined;
@@ -228,7 +297,7 @@ function extractSchemaFields(schema: any): OutputSchemaField[] {
   }
 
   // Handle ZodRecord - generic key-value
-  if (typeName === "ZodRecord") {
+  if (kind === "record") {
     return [
       {
         name: "[key]",
@@ -241,36 +310,66 @@ function extractSchemaFields(schema: any): OutputSchemaField[] {
   return [];
 }
 
+/**
+ * Kind of a Zod schema ("object", "string", ...). Zod 4 names it in
+ * `_def.type`, Zod 3 in `_def.typeName` ("ZodObject", ...).
+ */
+function getZodKind(schema: any): string | undefined {
+  const def = schema?._def;
+  if (!def) return undefined;
+  if (typeof def.type === "string") return def.type;
+  if (typeof def.typeName === "string") {
+    return def.typeName.replace(/^Zod/, "").toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Unwrap optional, nullable and default schemas
+ */
+function unwrapSchema(schema: any): any {
+  let current = schema;
+  while (
+    current?._def &&
+    ["optional", "nullable", "default"].includes(getZodKind(current) ?? "")
+  ) {
+    current = current._def.innerType;
+  }
+  return current?._def ? current : undefined;
+}
+
+/**
+ * Element schema of an array schema
+ */
+function getArrayElement(schema: any): any {
+  const def = unwrapSchema(schema)?._def;
+  // Zod 4: element; Zod 3: type
+  return def?.element ?? (typeof def?.type === "object" ? def.type : undefined);
+}
+
 /**
  * Get a simple type string from a Zod schema
  */
 function getZodTypeSimple(
   schema: any,
 ): "str" | "num" | "bool" | "obj" | "arr" | "null" | "unknown" {
-  if (!schema || !schema._def) return "unknown";
+  const unwrapped = unwrapSchema(schema);
 
-  const typeName = schema._def.typeName;
-
-  switch (typeName) {
-    case "ZodString":
+  switch (getZodKind(unwrapped)) {
+    case "string":
+    case "enum":
       return "str";
-    case "ZodNumber":
+    case "number":
       return "num";
-    case "ZodBoolean":
+    case "boolean":
       return "bool";
-    case "ZodObject":
-    case "ZodRecord":
+    case "object":
+    case "record":
       return "obj";
-    case "ZodArray":
+    case "array":
       return "arr";
-    case "ZodNull":
+    case "null":
       return "null";
-    case "ZodOptional":
-    case "ZodNullable":
-      return getZodTypeSimple(schema._def.innerType);
-    case "ZodUnknown":
-    case "ZodAny":
-      return "unknown";
     default:
       return "unknown";
   }
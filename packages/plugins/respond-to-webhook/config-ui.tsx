@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Input } from "@kianax/ui/components/input";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import { BaseConfigUI, ConfigSection, InfoCard, ExpressionField } from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+export interface RespondToWebhookConfig {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface RespondToWebhookConfigUIProps {
+  value?: RespondToWebhookConfig;
+  onChange: (value: RespondToWebhookConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+interface HeaderRow {
+  key: string;
+  value: string;
+}
+
+/**
+ * Configuration UI for Respond to Webhook Plugin
+ *
+ * Configures the status code, headers and body sent back to the webhook
+ * caller.
+ */
+export function RespondToWebhookConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: RespondToWebhookConfigUIProps) {
+  const [config, setConfig] = useState<RespondToWebhookConfig>(
+    value || { statusCode: 200 },
+  );
+
+  // Rows are kept separately so half-typed (empty) header names survive
+  const [headerRows, setHeaderRows] = useState<HeaderRow[]>(() =>
+    Object.entries(value?.headers ?? {}).map(([key, val]) => ({
+      key,
+      value: val,
+    })),
+  );
+
+  const handleChange = (updates: Partial<RespondToWebhookConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const handleHeadersChange = (rows: HeaderRow[]) => {
+    setHeaderRows(rows);
+
+    const headers: Record<string, string> = {};
+    for (const row of rows) {
+      if (row.key.trim()) {
+        headers[row.key.trim()] = row.value;
+      }
+    }
+    handleChange({
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+    });
+  };
+
+  const updateHeaderRow = (index: number, updates: Partial<HeaderRow>) => {
+    handleHeadersChange(
+      headerRows.map((row, i) => (i === index ? { ...row, ...updates } : row)),
+    );
+  };
+
+  const statusCodeError =
+    !Number.isInteger(config.statusCode) ||
+    config.statusCode < 200 ||
+    config.statusCode > 599
+      ? "Status code must be between 200 and 599"
+      : undefined;
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Status Code"
+        description="HTTP status code returned to the caller"
+        error={statusCodeError}
+      >
+        <Input
+          type="number"
+          value={String(config.statusCode)}
+          onChange={(e) => handleChange({ statusCode: Number(e.target.value) })}
+          placeholder="200"
+          min={200}
+          max={599}
+          step={1}
+        />
+      </ConfigSection>
+
+      <ConfigSection
+        label="Headers"
+        description="Response headers. Values support expressions."
+        action={
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setHeaderRows([...headerRows, { key: "", value: "" }])
+            }
+            className="h-7 text-xs"
+          >
+            <IconPlus className="mr-1 size-3" />
+            Add Header
+          </Button>
+        }
+      >
+        {headerRows.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No custom headers</p>
+        ) : (
+          <div className="space-y-2">
+            {headerRows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={row.key}
+                  onChange={(e) =>
+                    updateHeaderRow(index, { key: e.target.value })
+                  }
+                  placeholder="Content-Type"
+                  className="font-mono text-xs"
+                />
+                <Input
+                  value={row.value}
+                  onChange={(e) =>
+                    updateHeaderRow(index, { value: e.target.value })
+                  }
+                  placeholder="application/json"
+                  className="font-mono text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    handleHeadersChange(
+                      headerRows.filter((_, i) => i !== index),
+                    )
+                  }
+                  title="Remove header"
+                >
+                  <IconTrash className="size-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </ConfigSection>
+
+      <ExpressionField
+        label="Body"
+        description="Response body. JSON is sent as application/json, anything else as text."
+        value={
+          config.body === undefined
+            ? ""
+            : typeof config.body === "string"
+              ? config.body
+              : JSON.stringify(config.body, null, 2)
+        }
+        onChange={(val) => {
+          try {
+            handleChange({ body: val ? JSON.parse(val) : undefined });
+          } catch {
+            // Plain text or expression
+            handleChange({ body: val || undefined });
+          }
+        }}
+        expressionContext={expressionContext}
+        multiline
+        rows={6}
+        placeholder={'{"ok": true} or {{ nodes.upstream.output }}'}
+      />
+
+      <InfoCard title="Webhook Response">
+        <div className="space-y-2">
+          <p>
+            The response is sent when the routine's webhook trigger is set to
+            respond with a Respond to Webhook node. Only the first Respond node
+            that runs sends a response; the routine continues afterwards.
+          </p>
+          <p>
+            If no Respond node runs before the trigger's timeout, the caller
+            gets a fallback error response.
+          </p>
+        </div>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
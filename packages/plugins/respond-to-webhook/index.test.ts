@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { PluginTester } from "@kianax/plugin-sdk/testing";
+import { respondToWebhookPlugin } from "./index";
+
+const tester = new PluginTester(respondToWebhookPlugin);
+
+describe("respond-to-webhook", () => {
+  it("should output the configured response", async () => {
+    const result = await tester.execute({
+      inputs: {},
+      config: {
+        statusCode: 201,
+        headers: { "X-Request-Id": "abc" },
+        body: { id: 1 },
+      },
+    });
+
+    expect(result.output).toEqual({
+      statusCode: 201,
+      headers: { "X-Request-Id": "abc" },
+      body: { id: 1 },
+    });
+  });
+
+  it("should leave out the body of no-content responses", async () => {
+    for (const statusCode of [204, 205, 304]) {
+      const result = await tester.execute({
+        inputs: {},
+        config: { statusCode, headers: {}, body: "ignored" },
+      });
+
+      expect(result.output).toEqual({
+        statusCode,
+        headers: {},
+        body: undefined,
+      });
+    }
+  });
+
+  it("should reject informational status codes", async () => {
+    await expect(
+      tester.execute({ inputs: {}, config: { statusCode: 101 } }),
+    ).rejects.toThrow("Invalid status code: 101");
+  });
+
+  it("should only accept status codes from 200 to 599 in its config", () => {
+    const schema = respondToWebhookPlugin.defineSchemas().config!;
+    expect(schema.safeParse({ statusCode: 100 }).success).toBe(false);
+    expect(schema.safeParse({ statusCode: 204 }).success).toBe(true);
+    expect(schema.safeParse({ statusCode: 600 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Respond to Webhook Plugin
+ *
+ * Sends the HTTP response for a webhook-triggered routine.
+ * Status code, headers and body come through config expressions, e.g.
+ * {{ nodes.lookup.output.user }} as the body.
+ *
+ * The response is only sent when the routine's webhook trigger is set to
+ * respond with this node. The first Respond node to run wins; the routine
+ * keeps running afterwards, so later nodes can do follow-up work.
+ * In other runs (manual, scheduled, tests) the node just outputs the response.
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+/** Status codes whose responses can't have a body */
+const NO_BODY_STATUS_CODES = new Set([204, 205, 304]);
+
+/**
+ * Response sent back to the webhook caller
+ */
+const WebhookResponseSchema = z.object({
+  statusCode: z.number().describe("HTTP status code"),
+  headers: z.record(z.string(), z.string()).describe("Response headers"),
+  body: z.unknown().describe("Response body (objects are sent as JSON)"),
+});
+
+export const respondToWebhookPlugin = createPlugin("respond-to-webhook")
+  .withMetadata({
+    name: "Respond to Webhook",
+    description:
+      "Sends the HTTP response to the caller of a webhook-triggered routine, with a configurable status code, headers and body.",
+    version: "1.0.0",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+    tags: ["output", "action"],
+    icon: "↩️",
+  })
+  .withConfig(
+    z.object({
+      statusCode: z
+        .number()
+        .int()
+        .min(200)
+        .max(599)
+        .default(200)
+        .describe("HTTP status code (200-599)"),
+      headers: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Response headers (key-value pairs)"),
+      body: z
+        .unknown()
+        .optional()
+        .describe(
+          "Response body (strings are sent as-is, anything else as JSON)",
+        ),
+    }),
+  )
+  .withOutputSchema(WebhookResponseSchema)
+  .execute(async ({ config }) => {
+    const statusCode = Number(config.statusCode ?? 200);
+    if (!Number.isInteger(statusCode) || statusCode < 200 || statusCode > 599) {
+      throw new Error(`Invalid status code: ${config.statusCode}`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(config.headers ?? {})) {
+      headers[key] = String(value);
+    }
+
+    return {
+      output: {
+        statusCode,
+        headers,
+        // No-content responses can't have a body
+        body: NO_BODY_STATUS_CODES.has(statusCode) ? undefined : config.body,
+      },
+    };
+  })
+  .build();
@@ -11,7 +11,6 @@
  */
 
 import { createPlugin, z } from "@kianax/plugin-sdk";
-import { StaticDataConfigUI } from "./config-ui";
 
 export const staticDataPlugin = createPlugin("static-data")
   .withMetadata({
@@ -35,9 +34,7 @@ export const staticDataPlugin = createPlugin("static-data")
     }),
   )
   .withOutputSchema(z.unknown())
-  .withConfigUI(StaticDataConfigUI)
   .execute(async ({ config }) => {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
     return {
       output: config.data,
     };
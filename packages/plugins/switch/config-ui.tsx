@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconPlus } from "@tabler/icons-react";
+import {
+  BaseConfigUI,
+  ConfigSection,
+  ConfigCard,
+  InfoCard,
+  ExpressionField,
+} from "../ui";
+import { OPERATORS } from "../if-else/config-ui";
+import type { ComparisonOperator } from "../if-else/conditions";
+import type { ExpressionContext } from "../config-registry";
+
+interface SwitchCase {
+  /** Output handle name, fixed once created so connections survive edits */
+  key: string;
+  label?: string;
+  operator: ComparisonOperator;
+  compareValue: unknown;
+}
+
+export interface SwitchConfig {
+  /** Value to match - typically an expression like {{ nodes.upstream.output }} */
+  value?: unknown;
+  cases: SwitchCase[];
+  mode?: "first" | "all";
+}
+
+interface SwitchConfigUIProps {
+  value?: SwitchConfig;
+  onChange: (value: SwitchConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+/**
+ * Next unused case key (case_1, case_2, ...)
+ */
+function nextCaseKey(cases: SwitchCase[]): string {
+  const used = new Set(cases.map((c) => c.key));
+  let n = cases.length + 1;
+  while (used.has(`case_${n}`)) n++;
+  return `case_${n}`;
+}
+
+/**
+ * Configuration UI for Switch Plugin
+ *
+ * Each case becomes an output handle on the node; values that match no
+ * case go to the Default handle.
+ */
+export function SwitchConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: SwitchConfigUIProps) {
+  const [localConfig, setLocalConfig] = useState<SwitchConfig>(() => {
+    if (value?.cases && Array.isArray(value.cases)) {
+      return value;
+    }
+    return {
+      cases: [{ key: "case_1", operator: "==", compareValue: "" }],
+      mode: "first",
+    };
+  });
+
+  const handleChange = (updates: Partial<SwitchConfig>) => {
+    const newConfig = { ...localConfig, ...updates };
+    setLocalConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  const addCase = () => {
+    handleChange({
+      cases: [
+        ...localConfig.cases,
+        {
+          key: nextCaseKey(localConfig.cases),
+          operator: "==",
+          compareValue: "",
+        },
+      ],
+    });
+  };
+
+  const removeCase = (index: number) => {
+    handleChange({
+      cases: localConfig.cases.filter((_, i) => i !== index),
+    });
+  };
+
+  const updateCase = (index: number, updates: Partial<SwitchCase>) => {
+    handleChange({
+      cases: localConfig.cases.map((c, i) =>
+        i === index ? { ...c, ...updates } : c,
+      ),
+    });
+  };
+
+  return (
+    <BaseConfigUI>
+      <ExpressionField
+        label="Value"
+        description="The value to match against each case. Use expressions to reference data from other nodes."
+        value={localConfig.value !== undefined ? String(localConfig.value) : ""}
+        onChange={(val) => handleChange({ value: val || undefined })}
+        expressionContext={expressionContext}
+        multiline
+        rows={2}
+        placeholder="{{ nodes.upstream.output }}"
+      />
+
+      <ConfigSection
+        label="Routing"
+        description="Whether a value can take more than one path"
+      >
+        <Select
+          value={localConfig.mode ?? "first"}
+          onValueChange={(mode) =>
+            handleChange({ mode: mode as SwitchConfig["mode"] })
+          }
+        >
+          <SelectTrigger className="h-9 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="first">First matching case</SelectItem>
+            <SelectItem value="all">All matching cases</SelectItem>
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      <ConfigSection
+        label="Cases"
+        description="Checked in order. Each case adds an output to the node."
+        action={
+          <Button size="sm" variant="outline" onClick={addCase}>
+            <IconPlus className="mr-2 size-3.5" />
+            Add Case
+          </Button>
+        }
+      >
+        {localConfig.cases.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No cases - everything goes to Default
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {localConfig.cases.map((c, index) => {
+              const labelId = `switch-label-${c.key}`;
+              const operatorId = `switch-operator-${c.key}`;
+              const compareValueId = `switch-compare-value-${c.key}`;
+              return (
+                <ConfigCard
+                  key={c.key}
+                  title={`Case ${index + 1} · ${c.key}`}
+                  removable
+                  onRemove={() => removeCase(index)}
+                  className="bg-card"
+                >
+                  <div className="space-y-3">
+                    <div className="space-y-1.5">
+                      <label
+                        htmlFor={labelId}
+                        className="text-xs font-medium text-muted-foreground"
+                      >
+                        Label
+                      </label>
+                      <Input
+                        id={labelId}
+                        value={c.label ?? ""}
+                        onChange={(e) =>
+                          updateCase(index, {
+                            label: e.target.value || undefined,
+                          })
+                        }
+                        placeholder={c.key}
+                        className="h-9"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5 min-w-0">
+                        <label
+                          htmlFor={operatorId}
+                          className="text-xs font-medium text-muted-foreground"
+                        >
+                          Operator
+                        </label>
+                        <Select
+                          value={c.operator}
+                          onValueChange={(operator) =>
+                            updateCase(index, {
+                              operator: operator as ComparisonOperator,
+                            })
+                          }
+                        >
+                          <SelectTrigger id={operatorId} className="h-9 w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {OPERATORS.map((op) => (
+                              <SelectItem key={op.value} value={op.value}>
+                                {op.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {!["exists", "empty"].includes(c.operator) && (
+                        <div className="space-y-1.5 min-w-0">
+                          <label
+                            htmlFor={compareValueId}
+                            className="text-xs font-medium text-muted-foreground"
+                          >
+                            Compare Value
+                          </label>
+                          <Input
+                            id={compareValueId}
+                            value={String(c.compareValue ?? "")}
+                            onChange={(e) =>
+                              updateCase(index, {
+                                compareValue: e.target.value,
+                              })
+                            }
+                            placeholder={
+                              c.operator === "matches"
+                                ? "^order-\\d+$"
+                                : "Value to compare..."
+                            }
+                            className="h-9"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </ConfigCard>
+              );
+            })}
+          </div>
+        )}
+      </ConfigSection>
+
+      <InfoCard title="Output Behavior">
+        <div className="space-y-2">
+          <p>
+            Each case is an output on the node. Execution flows to the first
+            matching case, or to every matching case when routing to all
+            matches. If nothing matches, it flows to the{" "}
+            <span className="font-medium text-foreground">Default</span> output.
+          </p>
+          <p>
+            Downstream nodes read the tested value as{" "}
+            <code>{"{{ nodes.<switch>.<case>.value }}"}</code>. Removing a case
+            removes its connections.
+          </p>
+        </div>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Switch Plugin (Flow-Based)
+ *
+ * Routes execution to one of several paths based on a value.
+ * Each configured case gets its own output handle, plus a "default" handle
+ * taken when no case matches. Cases use the same operators as the
+ * Conditional Branch plugin (equality, regex, comparisons, ...).
+ *
+ * Usage Examples:
+ * - Route by status: value {{ nodes.http.output.status }},
+ *   cases [{ key: "ok", operator: "==", compareValue: 200 }]
+ * - Route by pattern: value {{ trigger.email }},
+ *   cases [{ key: "internal", operator: "matches", compareValue: "@kianax\\.com$" }]
+ */
+
+import { createPlugin, z, type OutputHandle } from "@kianax/plugin-sdk";
+import { ComparisonOperator, evaluateCondition } from "../if-else/conditions";
+
+/**
+ * Handle taken when no case matches
+ */
+const DEFAULT_HANDLE = "default";
+
+/**
+ * Case keys become handle names and expression path segments
+ * ({{ nodes.switch_1.<key>.value }}), so they must be identifiers
+ */
+const CASE_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const CaseSchema = z.object({
+  key: z
+    .string()
+    .regex(CASE_KEY_PATTERN)
+    .describe("Output handle name for this case"),
+  label: z.string().optional().describe("Display label for the handle"),
+  operator: ComparisonOperator.describe("Comparison operator"),
+  compareValue: z.unknown().describe("Value to compare against"),
+});
+
+type SwitchCase = z.infer<typeof CaseSchema>;
+
+const SwitchOutputSchema = z.object({
+  value: z.unknown().describe("The value that was tested"),
+  matchedCase: z
+    .string()
+    .describe(`Key of the matched case, or "${DEFAULT_HANDLE}"`),
+});
+
+/**
+ * Cases that produce a handle: valid keys, first occurrence of each key,
+ * and never shadowing the default handle
+ */
+function getRoutableCases(cases: SwitchCase[] | undefined): SwitchCase[] {
+  const seen = new Set<string>([DEFAULT_HANDLE]);
+  return (cases ?? []).filter((c) => {
+    if (!c?.key || !CASE_KEY_PATTERN.test(c.key) || seen.has(c.key)) {
+      return false;
+    }
+    seen.add(c.key);
+    return true;
+  });
+}
+
+export const switchPlugin = createPlugin("switch")
+  .withMetadata({
+    name: "Switch",
+    description:
+      "Routes execution to one of several paths by matching a value against configured cases.",
+    version: "1.0.0",
+    icon: "🔀",
+    tags: ["logic"],
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withConfig(
+    z.object({
+      // Value to test (via expression: {{ nodes.upstream.output }})
+      value: z.unknown().optional().describe("The value to match against"),
+
+      cases: z.array(CaseSchema).describe("Cases, checked in order"),
+
+      mode: z
+        .enum(["first", "all"])
+        .optional()
+        .describe(
+          "Route to the first matching case only (default), or to every matching case",
+        ),
+    }),
+  )
+  // One handle per case, plus the default handle
+  .withDynamicOutputHandles(
+    (config): OutputHandle[] => [
+      ...getRoutableCases(config.cases).map((c) => ({
+        name: c.key,
+        label: c.label?.trim() || c.key,
+        description: `Executed when the value ${c.operator} ${String(c.compareValue ?? "")}`,
+      })),
+      {
+        name: DEFAULT_HANDLE,
+        label: "Default",
+        description: "Executed when no case matches",
+      },
+    ],
+    SwitchOutputSchema,
+  )
+  .execute(async ({ config }) => {
+    const value = config.value;
+    const mode = config.mode ?? "first";
+
+    const matched: string[] = [];
+    for (const c of getRoutableCases(config.cases)) {
+      let passed = false;
+      try {
+        passed = evaluateCondition(value, c.operator, c.compareValue);
+      } catch {
+        // Errors count as no match (graceful degradation)
+      }
+
+      if (passed) {
+        matched.push(c.key);
+        if (mode === "first") break;
+      }
+    }
+
+    if (matched.length === 0) {
+      matched.push(DEFAULT_HANDLE);
+    }
+
+    // Only matched handles receive output
+    return Object.fromEntries(
+      matched.map((key) => [key, { value, matchedCase: key }]),
+    );
+  })
+  .build();
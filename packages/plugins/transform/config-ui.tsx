@@ -0,0 +1,541 @@
+"use client";
+
+import { useId, useRef, useState } from "react";
+import { Button } from "@kianax/ui/components/button";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import { IconArrowDown, IconArrowUp, IconPlus } from "@tabler/icons-react";
+import {
+  BaseConfigUI,
+  ConfigCard,
+  ConfigSection,
+  ExpressionField,
+  InfoCard,
+} from "../ui";
+import { OPERATORS } from "../if-else/config-ui";
+import type { ComparisonOperator } from "../if-else/conditions";
+import type { ExpressionContext } from "../config-registry";
+import type { TransformOperation, TransformOperationType } from "./operations";
+
+export interface TransformConfig {
+  operations: TransformOperation[];
+}
+
+interface TransformConfigUIProps {
+  value?: TransformConfig;
+  onChange: (value: TransformConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+const OPERATION_TYPES: Array<{
+  value: TransformOperationType;
+  label: string;
+}> = [
+  { value: "set", label: "Set field" },
+  { value: "rename", label: "Rename field" },
+  { value: "remove", label: "Remove fields" },
+  { value: "pick", label: "Keep only fields" },
+  { value: "filter", label: "Filter items" },
+  { value: "sort", label: "Sort items" },
+  { value: "limit", label: "Limit items" },
+  { value: "dedupe", label: "Remove duplicates" },
+  { value: "flatten", label: "Flatten array" },
+];
+
+/**
+ * New operation of a type, with empty fields
+ */
+function createOperation(type: TransformOperationType): TransformOperation {
+  switch (type) {
+    case "set":
+      return { type, field: "", value: "" };
+    case "rename":
+      return { type, field: "", to: "" };
+    case "remove":
+    case "pick":
+      return { type, fields: [] };
+    case "filter":
+      return { type, field: "", operator: "==", compareValue: "" };
+    case "sort":
+      return { type, field: "", direction: "asc" };
+    case "limit":
+      return { type, limit: 10 };
+    case "dedupe":
+    case "flatten":
+      return { type };
+  }
+}
+
+/**
+ * Parse a comma-separated list of fields
+ */
+function parseFields(text: string): string[] {
+  return text
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Configuration UI for Transform Plugin
+ *
+ * Edits the ordered list of operations: add, remove and reorder steps, and
+ * configure each one.
+ */
+export function TransformConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: TransformConfigUIProps) {
+  const [config, setConfig] = useState<TransformConfig>(
+    value?.operations && Array.isArray(value.operations)
+      ? value
+      : { operations: [] },
+  );
+  const [newType, setNewType] = useState<TransformOperationType>("set");
+  const idPrefix = useId();
+
+  // Stable keys for operations, so fields keep their state when reordered
+  const nextKey = useRef(0);
+  const [keys, setKeys] = useState(() =>
+    config.operations.map(() => nextKey.current++),
+  );
+
+  const setOperations = (operations: TransformOperation[], order: number[]) => {
+    const newConfig = { ...config, operations };
+    setConfig(newConfig);
+    setKeys(order);
+    onChange(newConfig);
+  };
+
+  const addOperation = () => {
+    setOperations(
+      [...config.operations, createOperation(newType)],
+      [...keys, nextKey.current++],
+    );
+  };
+
+  const removeOperation = (index: number) => {
+    setOperations(
+      config.operations.filter((_, i) => i !== index),
+      keys.filter((_, i) => i !== index),
+    );
+  };
+
+  const moveOperation = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    const operations = [...config.operations];
+    const order = [...keys];
+    [operations[index], operations[target]] = [
+      operations[target]!,
+      operations[index]!,
+    ];
+    [order[index], order[target]] = [order[target]!, order[index]!];
+    setOperations(operations, order);
+  };
+
+  const updateOperation = (
+    index: number,
+    updates: Partial<TransformOperation>,
+  ) => {
+    setOperations(
+      config.operations.map((operation, i) =>
+        i === index
+          ? ({ ...operation, ...updates } as TransformOperation)
+          : operation,
+      ),
+      keys,
+    );
+  };
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection
+        label="Operations"
+        description="Applied to the items in order"
+        action={
+          <div className="flex items-center gap-2">
+            <Select
+              value={newType}
+              onValueChange={(type) =>
+                setNewType(type as TransformOperationType)
+              }
+            >
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OPERATION_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" onClick={addOperation}>
+              <IconPlus className="mr-2 size-3.5" />
+              Add
+            </Button>
+          </div>
+        }
+      >
+        {config.operations.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No operations - items pass through unchanged
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {config.operations.map((operation, index) => {
+              const key = keys[index]!;
+              const typeLabel = OPERATION_TYPES.find(
+                (type) => type.value === operation.type,
+              )?.label;
+              return (
+                <ConfigCard
+                  key={key}
+                  title={`Step ${index + 1} · ${typeLabel}`}
+                  removable
+                  onRemove={() => removeOperation(index)}
+                  className="bg-card"
+                >
+                  <div className="space-y-3">
+                    <OperationFields
+                      id={`${idPrefix}-${key}`}
+                      operation={operation}
+                      onChange={(updates) => updateOperation(index, updates)}
+                      expressionContext={expressionContext}
+                    />
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={index === 0}
+                        onClick={() => moveOperation(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <IconArrowUp className="size-3.5" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={index === config.operations.length - 1}
+                        onClick={() => moveOperation(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <IconArrowDown className="size-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </ConfigCard>
+              );
+            })}
+          </div>
+        )}
+      </ConfigSection>
+
+      <InfoCard title="Fields and Expressions">
+        <p>
+          Fields are paths like <code>customer.email</code>. Set values and
+          filter values are resolved for each item, so{" "}
+          <code>{"{{ nodes.<upstream>.output.price }}"}</code> reads the price
+          of the item being transformed.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
+
+interface OperationFieldsProps {
+  /** Prefix for input IDs */
+  id: string;
+  operation: TransformOperation;
+  onChange: (updates: Partial<TransformOperation>) => void;
+  expressionContext?: ExpressionContext;
+}
+
+/**
+ * Inputs of a single operation, by type
+ */
+function OperationFields({
+  id,
+  operation,
+  onChange,
+  expressionContext,
+}: OperationFieldsProps) {
+  switch (operation.type) {
+    case "set":
+      return (
+        <>
+          <TextField
+            id={`${id}-field`}
+            label="Field"
+            value={operation.field}
+            onChange={(field) => onChange({ field })}
+            placeholder="total"
+          />
+          <ExpressionField
+            label="Value"
+            value={String(operation.value ?? "")}
+            onChange={(value) => onChange({ value })}
+            expressionContext={expressionContext}
+            placeholder="{{ nodes.upstream.output.price }}"
+          />
+        </>
+      );
+
+    case "rename":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <TextField
+            id={`${id}-field`}
+            label="Field"
+            value={operation.field}
+            onChange={(field) => onChange({ field })}
+            placeholder="email"
+          />
+          <TextField
+            id={`${id}-to`}
+            label="New Name"
+            value={operation.to}
+            onChange={(to) => onChange({ to })}
+            placeholder="contact.email"
+          />
+        </div>
+      );
+
+    case "remove":
+    case "pick":
+      return (
+        <FieldListField
+          id={`${id}-fields`}
+          fields={operation.fields}
+          onChange={(fields) => onChange({ fields })}
+        />
+      );
+
+    case "filter":
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <TextField
+              id={`${id}-field`}
+              label="Field"
+              value={operation.field}
+              onChange={(field) => onChange({ field })}
+              placeholder="status"
+            />
+            <div className="space-y-1.5 min-w-0">
+              <label
+                htmlFor={`${id}-operator`}
+                className="text-xs font-medium text-muted-foreground"
+              >
+                Operator
+              </label>
+              <Select
+                value={operation.operator}
+                onValueChange={(operator) =>
+                  onChange({ operator: operator as ComparisonOperator })
+                }
+              >
+                <SelectTrigger id={`${id}-operator`} className="h-9 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATORS.map((op) => (
+                    <SelectItem key={op.value} value={op.value}>
+                      {op.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {!["exists", "empty"].includes(operation.operator) && (
+            <ExpressionField
+              label="Compare Value"
+              value={String(operation.compareValue ?? "")}
+              onChange={(compareValue) => onChange({ compareValue })}
+              expressionContext={expressionContext}
+              placeholder="paid"
+            />
+          )}
+        </>
+      );
+
+    case "sort":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <TextField
+            id={`${id}-field`}
+            label="Field"
+            value={operation.field}
+            onChange={(field) => onChange({ field })}
+            placeholder="createdAt"
+          />
+          <div className="space-y-1.5 min-w-0">
+            <label
+              htmlFor={`${id}-direction`}
+              className="text-xs font-medium text-muted-foreground"
+            >
+              Direction
+            </label>
+            <Select
+              value={operation.direction ?? "asc"}
+              onValueChange={(direction) =>
+                onChange({ direction: direction as "asc" | "desc" })
+              }
+            >
+              <SelectTrigger id={`${id}-direction`} className="h-9 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="asc">Ascending</SelectItem>
+                <SelectItem value="desc">Descending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+
+    case "limit":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <NumberField
+            id={`${id}-offset`}
+            label="Skip"
+            value={operation.offset}
+            onChange={(offset) => onChange({ offset })}
+            placeholder="0"
+          />
+          <NumberField
+            id={`${id}-limit`}
+            label="Keep"
+            value={operation.limit}
+            onChange={(limit) => onChange({ limit })}
+            placeholder="All"
+          />
+        </div>
+      );
+
+    case "dedupe":
+    case "flatten":
+      return (
+        <TextField
+          id={`${id}-field`}
+          label={operation.type === "dedupe" ? "Key Field" : "Array Field"}
+          value={operation.field ?? ""}
+          onChange={(field) => onChange({ field: field || undefined })}
+          placeholder={
+            operation.type === "dedupe"
+              ? "Whole item when empty"
+              : "Items that are arrays when empty"
+          }
+        />
+      );
+  }
+}
+
+interface TextFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+function TextField({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+}: TextFieldProps) {
+  return (
+    <div className="space-y-1.5 min-w-0">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground">
+        {label}
+      </label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="h-9"
+      />
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value?: number;
+  onChange: (value: number | undefined) => void;
+  placeholder?: string;
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+}: NumberFieldProps) {
+  return (
+    <div className="space-y-1.5 min-w-0">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground">
+        {label}
+      </label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        value={value ?? ""}
+        onChange={(e) =>
+          onChange(e.target.value ? Number(e.target.value) : undefined)
+        }
+        placeholder={placeholder}
+        className="h-9"
+      />
+    </div>
+  );
+}
+
+interface FieldListFieldProps {
+  id: string;
+  fields: string[];
+  onChange: (fields: string[]) => void;
+}
+
+/**
+ * Comma-separated field list. The text is kept as typed and parsed on
+ * every change, so trailing commas don't disappear while typing.
+ */
+function FieldListField({ id, fields, onChange }: FieldListFieldProps) {
+  const [text, setText] = useState(fields.join(", "));
+
+  return (
+    <div className="space-y-1.5 min-w-0">
+      <label htmlFor={id} className="text-xs font-medium text-muted-foreground">
+        Fields
+      </label>
+      <Input
+        id={id}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseFields(e.target.value));
+        }}
+        placeholder="id, name, customer.email"
+        className="h-9"
+      />
+    </div>
+  );
+}
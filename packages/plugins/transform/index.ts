@@ -0,0 +1,80 @@
+/**
+ * Transform Plugin (Flow-Based)
+ *
+ * Reshapes the node's input items with an ordered list of operations:
+ * - set: set a field, usually to an expression resolved for each item
+ * - rename / remove / pick: rename fields, drop them, or keep only some
+ * - filter: keep items whose field passes a condition (if-else operators)
+ * - sort: order items by a field
+ * - limit: keep a page of items (offset, then limit)
+ * - dedupe: drop items repeating a field's value (or a whole item)
+ * - flatten: one item per element of an array field (or of array items)
+ *
+ * Fields are dot-separated paths, e.g. "customer.email".
+ *
+ * Usage Examples:
+ * - Tidy API rows: pick ["id", "name", "email"], rename "email" to "contact"
+ * - Top 5 orders: filter "status" == "paid", sort "total" desc, limit 5
+ * - Add a computed field: set "fullName" to "{{ nodes.users.output.first }} {{ nodes.users.output.last }}"
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+import {
+  applyOperations,
+  TransformOperation,
+  type TransformItem,
+} from "./operations";
+
+export const transformPlugin = createPlugin("transform")
+  .withMetadata({
+    name: "Transform",
+    description:
+      "Reshapes items step by step: set, rename, remove or pick fields, filter, sort, limit, dedupe and flatten.",
+    version: "1.0.0",
+    icon: "🛠️",
+    tags: ["logic"],
+    // One run for all items, so operations like sort and dedupe see them all
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input", {
+    label: "Input",
+    description: "Items to transform",
+    schema: z.unknown(),
+  })
+  .withConfig(
+    z.object({
+      operations: z
+        .array(TransformOperation)
+        .describe("Operations applied to the items, in order"),
+    }),
+  )
+  .withOutput("output", {
+    label: "Output",
+    description: "Transformed items",
+    schema: z.unknown(),
+  })
+  .execute(async ({ inputs, config, context }) => {
+    const items: TransformItem[] = (
+      (inputs.input as unknown[] | undefined) ?? []
+    ).map((data, source) => ({ data, source }));
+
+    // Operations as resolved for each input item (set values and compare
+    // values are usually expressions about the item)
+    const itemOperations = context.itemConfigs?.map(
+      (itemConfig) => itemConfig.operations as TransformOperation[] | undefined,
+    );
+
+    const transformed = applyOperations(
+      items,
+      config.operations,
+      (index, source) =>
+        itemOperations?.[source]?.[index] ?? config.operations[index]!,
+    );
+
+    return { output: transformed.map((item) => item.data) };
+  })
+  .build();
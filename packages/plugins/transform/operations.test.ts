@@ -0,0 +1,362 @@
+import { describe, expect, it } from "vitest";
+import { getPath, removePath, setPath } from "@kianax/plugin-sdk";
+import { applyOperations, type TransformOperation } from "./operations";
+
+/**
+ * Apply operations whose values are the same for every item
+ */
+function transform(data: unknown[], operations: TransformOperation[]) {
+  return applyOperations(
+    data.map((item, source) => ({ data: item, source })),
+    operations,
+    (index) => operations[index]!,
+  ).map((item) => item.data);
+}
+
+describe("field paths", () => {
+  const value = { customer: { address: { city: "Oslo" }, tags: ["a", "b"] } };
+
+  it("should read nested paths", () => {
+    expect(getPath(value, "customer.address.city")).toBe("Oslo");
+    expect(getPath(value, "customer.tags.1")).toBe("b");
+  });
+
+  it("should read missing paths as undefined", () => {
+    expect(getPath(value, "customer.phone")).toBeUndefined();
+    expect(getPath(value, "customer.address.city.name")).toBeUndefined();
+    expect(getPath(null, "customer")).toBeUndefined();
+    expect(getPath("text", "length")).toBeUndefined();
+  });
+
+  it("should set nested paths without modifying the value", () => {
+    const updated = setPath(value, "customer.address.zip", "0150");
+
+    expect(updated).toEqual({
+      customer: {
+        address: { city: "Oslo", zip: "0150" },
+        tags: ["a", "b"],
+      },
+    });
+    expect(value.customer.address).toEqual({ city: "Oslo" });
+  });
+
+  it("should create and replace objects on the way", () => {
+    expect(setPath(undefined, "a.b", 1)).toEqual({ a: { b: 1 } });
+    expect(setPath({ a: 5 }, "a.b", 1)).toEqual({ a: { b: 1 } });
+  });
+
+  it("should remove nested paths without modifying the value", () => {
+    expect(removePath(value, "customer.address.city")).toEqual({
+      customer: { address: {}, tags: ["a", "b"] },
+    });
+    expect(value.customer.address).toEqual({ city: "Oslo" });
+  });
+
+  it("should leave values without the path unchanged", () => {
+    expect(removePath(value, "phone")).toBe(value);
+    expect(removePath(value, "customer.phone")).toEqual(value);
+    expect(removePath("text", "length")).toBe("text");
+  });
+});
+
+describe("applyOperations", () => {
+  describe("set", () => {
+    it("should set a nested field on each item", () => {
+      expect(
+        transform(
+          [{ id: 1 }, { id: 2, meta: { seen: false } }],
+          [{ type: "set", field: "meta.seen", value: true }],
+        ),
+      ).toEqual([
+        { id: 1, meta: { seen: true } },
+        { id: 2, meta: { seen: true } },
+      ]);
+    });
+
+    it("should use the value resolved for each item", () => {
+      const operation: TransformOperation = {
+        type: "set",
+        field: "rank",
+        value: 0,
+      };
+      const result = applyOperations(
+        [
+          { data: { id: "a" }, source: 0 },
+          { data: { id: "b" }, source: 1 },
+        ],
+        [operation],
+        (_index, source) => ({ ...operation, value: source + 1 }),
+      );
+
+      expect(result.map((item) => item.data)).toEqual([
+        { id: "a", rank: 1 },
+        { id: "b", rank: 2 },
+      ]);
+    });
+
+    it("should turn non-object items into objects", () => {
+      expect(
+        transform([42], [{ type: "set", field: "value", value: 1 }]),
+      ).toEqual([{ value: 1 }]);
+    });
+  });
+
+  describe("rename", () => {
+    it("should move a field to a new path", () => {
+      expect(
+        transform(
+          [{ user: { first: "Ada" }, id: 1 }],
+          [{ type: "rename", field: "user.first", to: "name.first" }],
+        ),
+      ).toEqual([{ user: {}, name: { first: "Ada" }, id: 1 }]);
+    });
+
+    it("should leave items without the field unchanged", () => {
+      const item = { id: 1 };
+      expect(
+        transform([item], [{ type: "rename", field: "name", to: "title" }]),
+      ).toEqual([item]);
+    });
+  });
+
+  describe("remove", () => {
+    it("should remove top-level and nested fields", () => {
+      expect(
+        transform(
+          [{ id: 1, secret: "x", user: { token: "t", name: "Ada" } }],
+          [
+            {
+              type: "remove",
+              fields: ["secret", "user.token", "missing.path"],
+            },
+          ],
+        ),
+      ).toEqual([{ id: 1, user: { name: "Ada" } }]);
+    });
+  });
+
+  describe("pick", () => {
+    it("should keep only the listed fields", () => {
+      expect(
+        transform(
+          [{ id: 1, user: { name: "Ada", email: "a@x.io" }, extra: true }],
+          [{ type: "pick", fields: ["id", "user.name"] }],
+        ),
+      ).toEqual([{ id: 1, user: { name: "Ada" } }]);
+    });
+
+    it("should skip missing fields", () => {
+      expect(
+        transform([{ id: 1 }], [{ type: "pick", fields: ["id", "name"] }]),
+      ).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe("filter", () => {
+    const items = [
+      { name: "a", price: 5 },
+      { name: "b", price: "15" },
+      { name: "c" },
+      { name: "d", price: 25 },
+    ];
+
+    it("should keep items matching the condition", () => {
+      expect(
+        transform(items, [
+          { type: "filter", field: "name", operator: "==", compareValue: "d" },
+        ]),
+      ).toEqual([{ name: "d", price: 25 }]);
+    });
+
+    it("should coerce numeric comparisons", () => {
+      expect(
+        transform(items, [
+          { type: "filter", field: "price", operator: ">", compareValue: "10" },
+        ]),
+      ).toEqual([
+        { name: "b", price: "15" },
+        { name: "d", price: 25 },
+      ]);
+    });
+
+    it("should compare equality strictly", () => {
+      expect(
+        transform(items, [
+          { type: "filter", field: "price", operator: "==", compareValue: 15 },
+        ]),
+      ).toEqual([]);
+    });
+
+    it("should test missing fields", () => {
+      expect(
+        transform(items, [
+          { type: "filter", field: "price", operator: "empty" },
+        ]),
+      ).toEqual([{ name: "c" }]);
+    });
+
+    it("should drop items whose condition can't be evaluated", () => {
+      expect(
+        transform(
+          [{ text: "abc" }],
+          [
+            {
+              type: "filter",
+              field: "text",
+              operator: "matches",
+              compareValue: "(",
+            },
+          ],
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("sort", () => {
+    it("should sort by a nested field", () => {
+      expect(
+        transform(
+          [{ a: { n: 3 } }, { a: { n: 1 } }, { a: { n: 2 } }],
+          [{ type: "sort", field: "a.n" }],
+        ),
+      ).toEqual([{ a: { n: 1 } }, { a: { n: 2 } }, { a: { n: 3 } }]);
+    });
+
+    it("should sort descending", () => {
+      expect(
+        transform(
+          [{ n: 1 }, { n: 3 }, { n: 2 }],
+          [{ type: "sort", field: "n", direction: "desc" }],
+        ),
+      ).toEqual([{ n: 3 }, { n: 2 }, { n: 1 }]);
+    });
+
+    it("should order numeric strings numerically", () => {
+      expect(
+        transform(
+          [{ v: "item10" }, { v: "item9" }, { v: 2 }],
+          [{ type: "sort", field: "v" }],
+        ),
+      ).toEqual([{ v: 2 }, { v: "item9" }, { v: "item10" }]);
+    });
+
+    it("should put missing values last, keeping their order", () => {
+      expect(
+        transform(
+          [
+            { id: "x" },
+            { id: "y", n: 2 },
+            { id: "z", n: null },
+            { id: "w", n: 1 },
+          ],
+          [{ type: "sort", field: "n" }],
+        ),
+      ).toEqual([
+        { id: "w", n: 1 },
+        { id: "y", n: 2 },
+        { id: "x" },
+        { id: "z", n: null },
+      ]);
+    });
+  });
+
+  describe("limit", () => {
+    const items = [1, 2, 3, 4, 5];
+
+    it("should keep the first items", () => {
+      expect(transform(items, [{ type: "limit", limit: 2 }])).toEqual([1, 2]);
+    });
+
+    it("should skip items first", () => {
+      expect(
+        transform(items, [{ type: "limit", offset: 1, limit: 2 }]),
+      ).toEqual([2, 3]);
+      expect(transform(items, [{ type: "limit", offset: 3 }])).toEqual([4, 5]);
+    });
+
+    it("should keep nothing with a limit of 0", () => {
+      expect(transform(items, [{ type: "limit", limit: 0 }])).toEqual([]);
+    });
+  });
+
+  describe("dedupe", () => {
+    it("should drop items with a duplicate field, keeping the first", () => {
+      expect(
+        transform(
+          [
+            { id: 1, v: "a" },
+            { id: 2, v: "b" },
+            { id: 1, v: "c" },
+          ],
+          [{ type: "dedupe", field: "id" }],
+        ),
+      ).toEqual([
+        { id: 1, v: "a" },
+        { id: 2, v: "b" },
+      ]);
+    });
+
+    it("should not treat values of different types as duplicates", () => {
+      expect(
+        transform([{ id: 1 }, { id: "1" }], [{ type: "dedupe", field: "id" }]),
+      ).toEqual([{ id: 1 }, { id: "1" }]);
+    });
+
+    it("should treat items missing the field as duplicates of each other", () => {
+      expect(
+        transform([{ a: 1 }, { b: 2 }], [{ type: "dedupe", field: "id" }]),
+      ).toEqual([{ a: 1 }]);
+    });
+
+    it("should compare whole items when no field is set", () => {
+      expect(
+        transform([{ a: 1 }, { a: 1 }, { a: 2 }], [{ type: "dedupe" }]),
+      ).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+  });
+
+  describe("flatten", () => {
+    it("should split an array field into one item per element", () => {
+      expect(
+        transform(
+          [{ order: 1, line: { items: ["a", "b"] } }, { order: 2 }],
+          [{ type: "flatten", field: "line.items" }],
+        ),
+      ).toEqual([
+        { order: 1, line: { items: "a" } },
+        { order: 1, line: { items: "b" } },
+        { order: 2 },
+      ]);
+    });
+
+    it("should split items that are arrays when no field is set", () => {
+      expect(transform([[1, 2], 3], [{ type: "flatten" }])).toEqual([1, 2, 3]);
+    });
+
+    it("should keep the source of split items", () => {
+      const result = applyOperations(
+        [{ data: { list: [1, 2] }, source: 4 }],
+        [{ type: "flatten", field: "list" }],
+        () => ({ type: "flatten", field: "list" }),
+      );
+      expect(result.map((item) => item.source)).toEqual([4, 4]);
+    });
+  });
+
+  it("should apply operations in order", () => {
+    expect(
+      transform(
+        [
+          { name: "b", score: 2 },
+          { name: "a", score: 3 },
+          { name: "c", score: 1 },
+        ],
+        [
+          { type: "filter", field: "score", operator: ">=", compareValue: 2 },
+          { type: "sort", field: "name" },
+          { type: "pick", fields: ["name"] },
+        ],
+      ),
+    ).toEqual([{ name: "a" }, { name: "b" }]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Transform operations
+ *
+ * Each operation takes the current list of items and returns the next one.
+ * Fields are dot-separated paths ("customer.address.city"); operations
+ * never modify the input items, only copies of them.
+ */
+
+import { getPath, removePath, setPath, z } from "@kianax/plugin-sdk";
+import { ComparisonOperator, evaluateCondition } from "../if-else/conditions";
+
+const FieldPath = z.string().min(1);
+
+export const TransformOperation = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set"),
+    field: FieldPath.describe("Field to set"),
+    // Typically an expression: {{ nodes.upstream.output.price }}
+    value: z.unknown().describe("Value to set, resolved for each item"),
+  }),
+  z.object({
+    type: z.literal("rename"),
+    field: FieldPath.describe("Field to rename"),
+    to: FieldPath.describe("New name (or path) of the field"),
+  }),
+  z.object({
+    type: z.literal("remove"),
+    fields: z.array(FieldPath).min(1).describe("Fields to remove"),
+  }),
+  z.object({
+    type: z.literal("pick"),
+    fields: z.array(FieldPath).min(1).describe("Fields to keep"),
+  }),
+  z.object({
+    type: z.literal("filter"),
+    field: FieldPath.describe("Field to test"),
+    operator: ComparisonOperator.describe("Comparison operator"),
+    compareValue: z
+      .unknown()
+      .optional()
+      .describe("Value to compare against, resolved for each item"),
+  }),
+  z.object({
+    type: z.literal("sort"),
+    field: FieldPath.describe("Field to sort by"),
+    direction: z
+      .enum(["asc", "desc"])
+      .optional()
+      .describe("Sort direction (default ascending)"),
+  }),
+  z.object({
+    type: z.literal("limit"),
+    limit: z.number().int().min(0).optional().describe("Items to keep"),
+    offset: z.number().int().min(0).optional().describe("Items to skip first"),
+  }),
+  z.object({
+    type: z.literal("dedupe"),
+    field: FieldPath.optional().describe(
+      "Field identifying duplicates (whole item when unset)",
+    ),
+  }),
+  z.object({
+    type: z.literal("flatten"),
+    field: FieldPath.optional().describe(
+      "Array field to split into one item per element (items that are arrays when unset)",
+    ),
+  }),
+]);
+
+export type TransformOperation = z.infer<typeof TransformOperation>;
+
+export type TransformOperationType = TransformOperation["type"];
+
+/**
+ * An item being transformed, with the index of the input item it came from
+ * (so per-item config values can be looked up after filtering or sorting)
+ */
+export interface TransformItem {
+  data: unknown;
+  source: number;
+}
+
+/**
+ * Get the operation as resolved for an input item
+ */
+export type OperationResolver = (
+  index: number,
+  source: number,
+) => TransformOperation;
+
+/**
+ * Apply the operations to the items, in order
+ */
+export function applyOperations(
+  items: TransformItem[],
+  operations: TransformOperation[],
+  resolve: OperationResolver,
+): TransformItem[] {
+  return operations.reduce(
+    (current, operation, index) =>
+      applyOperation(current, operation, (source) => resolve(index, source)),
+    items,
+  );
+}
+
+function applyOperation(
+  items: TransformItem[],
+  operation: TransformOperation,
+  forItem: (source: number) => TransformOperation,
+): TransformItem[] {
+  switch (operation.type) {
+    case "set":
+      return items.map((item) => {
+        const { value } = forItem(item.source) as typeof operation;
+        return { ...item, data: setPath(item.data, operation.field, value) };
+      });
+
+    case "rename":
+      return items.map((item) => {
+        const value = getPath(item.data, operation.field);
+        if (value === undefined) return item;
+        const removed = removePath(item.data, operation.field);
+        return { ...item, data: setPath(removed, operation.to, value) };
+      });
+
+    case "remove":
+      return items.map((item) => ({
+        ...item,
+        data: operation.fields.reduce(removePath, item.data),
+      }));
+
+    case "pick":
+      return items.map((item) => ({
+        ...item,
+        data: operation.fields.reduce((picked: unknown, field) => {
+          const value = getPath(item.data, field);
+          return value === undefined ? picked : setPath(picked, field, value);
+        }, {}),
+      }));
+
+    case "filter":
+      return items.filter((item) => {
+        const { compareValue } = forItem(item.source) as typeof operation;
+        try {
+          return evaluateCondition(
+            getPath(item.data, operation.field),
+            operation.operator,
+            compareValue,
+          );
+        } catch {
+          return false;
+        }
+      });
+
+    case "sort": {
+      const sign = operation.direction === "desc" ? -1 : 1;
+      // Array.prototype.sort is stable, so equal items keep their order
+      return [...items].sort(
+        (a, b) =>
+          sign *
+          compareValues(
+            getPath(a.data, operation.field),
+            getPath(b.data, operation.field),
+          ),
+      );
+    }
+
+    case "limit": {
+      const start = operation.offset ?? 0;
+      return items.slice(
+        start,
+        operation.limit === undefined ? undefined : start + operation.limit,
+      );
+    }
+
+    case "dedupe": {
+      const seen = new Set<string>();
+      return items.filter((item) => {
+        const value = operation.field
+          ? getPath(item.data, operation.field)
+          : item.data;
+        const key = JSON.stringify(value) ?? "undefined";
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    case "flatten":
+      return items.flatMap((item) => {
+        const { field } = operation;
+        const value = field ? getPath(item.data, field) : item.data;
+        if (!Array.isArray(value)) return [item];
+        return value.map((element) => ({
+          ...item,
+          data: field ? setPath(item.data, field, element) : element,
+        }));
+      });
+  }
+}
+
+/**
+ * Order values: undefined and null last, numbers numerically, everything
+ * else as strings
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@kianax/ui/components/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@kianax/ui/components/select";
+import {
+  ToggleGroup,
+  ToggleGroupItem,
+} from "@kianax/ui/components/toggle-group";
+import { BaseConfigUI, ConfigSection, ExpressionField, InfoCard } from "../ui";
+import type { ExpressionContext } from "../config-registry";
+
+export interface WaitConfig {
+  mode: "duration" | "until" | "weekday";
+  amount?: number;
+  unit?: "seconds" | "minutes" | "hours" | "days";
+  /** Date string or timestamp - typically an expression */
+  until?: string | number;
+  /** Weekdays to continue on (0 = Sunday) */
+  weekdays?: number[];
+  /** Time of day, HH:MM */
+  time?: string;
+  timezone?: string;
+}
+
+interface WaitConfigUIProps {
+  value?: WaitConfig;
+  onChange: (value: WaitConfig) => void;
+  /** Expression context for autocomplete suggestions */
+  expressionContext?: ExpressionContext;
+}
+
+const MODES: Array<{ value: WaitConfig["mode"]; label: string }> = [
+  { value: "duration", label: "For a duration" },
+  { value: "until", label: "Until a date" },
+  { value: "weekday", label: "Until a weekday and time" },
+];
+
+const UNITS: Array<{ value: NonNullable<WaitConfig["unit"]>; label: string }> =
+  [
+    { value: "seconds", label: "Seconds" },
+    { value: "minutes", label: "Minutes" },
+    { value: "hours", label: "Hours" },
+    { value: "days", label: "Days" },
+  ];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Configuration UI for Wait Plugin
+ *
+ * Picks the wait mode, then the duration, the date expression, or the
+ * weekdays and time to continue at.
+ */
+export function WaitConfigUI({
+  value,
+  onChange,
+  expressionContext,
+}: WaitConfigUIProps) {
+  const [config, setConfig] = useState<WaitConfig>(
+    value || { mode: "duration", amount: 1, unit: "hours" },
+  );
+
+  const handleChange = (updates: Partial<WaitConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onChange(newConfig);
+  };
+
+  return (
+    <BaseConfigUI>
+      <ConfigSection label="Mode" description="When to continue">
+        <Select
+          value={config.mode}
+          onValueChange={(mode) =>
+            handleChange({ mode: mode as WaitConfig["mode"] })
+          }
+        >
+          <SelectTrigger className="h-9 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfigSection>
+
+      {config.mode === "duration" && (
+        <ConfigSection
+          label="Duration"
+          description="How long to wait"
+          error={config.amount === undefined ? "Required" : undefined}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={config.amount ?? ""}
+              onChange={(e) => {
+                const parsed = Number(e.target.value);
+                handleChange({
+                  amount:
+                    e.target.value && Number.isFinite(parsed)
+                      ? parsed
+                      : undefined,
+                });
+              }}
+              className="h-9"
+            />
+            <Select
+              value={config.unit ?? "seconds"}
+              onValueChange={(unit) =>
+                handleChange({ unit: unit as WaitConfig["unit"] })
+              }
+            >
+              <SelectTrigger className="h-9 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNITS.map((unit) => (
+                  <SelectItem key={unit.value} value={unit.value}>
+                    {unit.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </ConfigSection>
+      )}
+
+      {config.mode === "until" && (
+        <ExpressionField
+          label="Wait Until"
+          description="ISO date (e.g. 2025-01-31T09:00:00Z) or timestamp in ms. Dates in the past continue right away."
+          value={config.until === undefined ? "" : String(config.until)}
+          onChange={(val) => handleChange({ until: val || undefined })}
+          expressionContext={expressionContext}
+          placeholder="{{ nodes.upstream.output.dueAt }}"
+        />
+      )}
+
+      {config.mode === "weekday" && (
+        <>
+          <ConfigSection
+            label="Weekdays"
+            description="Continue on the next of these days"
+            error={config.weekdays?.length ? undefined : "Pick at least one"}
+          >
+            <ToggleGroup
+              type="multiple"
+              value={(config.weekdays ?? []).map(String)}
+              onValueChange={(days) =>
+                handleChange({
+                  weekdays: days.map(Number).sort((a, b) => a - b),
+                })
+              }
+              variant="outline"
+              className="w-full"
+            >
+              {WEEKDAYS.map((day, index) => (
+                <ToggleGroupItem
+                  key={day}
+                  value={String(index)}
+                  size="sm"
+                  className="flex-1 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+                >
+                  {day}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </ConfigSection>
+
+          <div className="grid grid-cols-2 gap-3">
+            <ConfigSection
+              label="Time"
+              error={config.time ? undefined : "Required"}
+            >
+              <Input
+                type="time"
+                value={config.time ?? ""}
+                onChange={(e) =>
+                  handleChange({ time: e.target.value || undefined })
+                }
+                className="h-9"
+              />
+            </ConfigSection>
+            <ConfigSection label="Timezone">
+              <Input
+                value={config.timezone ?? ""}
+                onChange={(e) =>
+                  handleChange({ timezone: e.target.value || undefined })
+                }
+                placeholder="UTC"
+                className="h-9 font-mono"
+              />
+            </ConfigSection>
+          </div>
+        </>
+      )}
+
+      <InfoCard title="Waiting">
+        <p>
+          The routine sleeps without using a worker and continues with the same
+          data. Waits can last up to a year and don't count toward the routine's
+          time limit.
+        </p>
+      </InfoCard>
+    </BaseConfigUI>
+  );
+}
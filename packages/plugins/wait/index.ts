@@ -0,0 +1,84 @@
+/**
+ * Wait Plugin (Flow-Based)
+ *
+ * Pauses the routine, then passes its input items on unchanged:
+ * - duration: wait a fixed amount of time (e.g. 2 hours)
+ * - until: wait until a timestamp, usually an expression
+ * - weekday: wait until the next matching weekday and time of day
+ *
+ * The routine runner waits for wait nodes itself instead of running the
+ * plugin (the Temporal workflow sleeps on a durable timer, so nothing is
+ * blocked while waiting; see the execution engine's wait support). Time
+ * spent waiting doesn't count toward the routine's time limit.
+ *
+ * Usage Examples:
+ * - Follow up later: mode "duration", amount 2, unit "hours"
+ * - Remind before a meeting: until {{ nodes.calendar.output.reminderAt }}
+ * - Next business morning: weekdays [1, 2, 3, 4, 5], time "09:00"
+ */
+
+import { createPlugin, z } from "@kianax/plugin-sdk";
+
+export const waitPlugin = createPlugin("wait")
+  .withMetadata({
+    name: "Wait",
+    description:
+      "Pauses the routine for a duration, until a date, or until a weekday and time, then continues with the same data.",
+    version: "1.0.0",
+    icon: "⏳",
+    tags: ["logic"],
+    // Waits once for all items
+    executionMode: "batch",
+    author: {
+      name: "Kianax",
+      url: "https://kianax.com",
+    },
+  })
+  .withInput("input", {
+    label: "Input",
+    description: "Data passed on after waiting",
+    schema: z.unknown(),
+  })
+  .withConfig(
+    z.object({
+      mode: z
+        .enum(["duration", "until", "weekday"])
+        .describe("When to continue"),
+
+      // Duration mode
+      amount: z.number().min(0).optional().describe("Time to wait"),
+      unit: z
+        .enum(["seconds", "minutes", "hours", "days"])
+        .optional()
+        .describe("Unit of the amount (default seconds)"),
+
+      // Until mode (via expression: {{ nodes.upstream.output.date }})
+      until: z
+        .union([z.string(), z.number()])
+        .optional()
+        .describe("Date string or timestamp (ms) to wait until"),
+
+      // Weekday mode
+      weekdays: z
+        .array(z.number().int().min(0).max(6))
+        .optional()
+        .describe("Weekdays to continue on (0 = Sunday)"),
+      time: z.string().optional().describe("Time of day (HH:MM)"),
+      timezone: z
+        .string()
+        .optional()
+        .describe("IANA timezone of the time (default UTC)"),
+    }),
+  )
+  .withOutput("output", {
+    label: "Output",
+    description: "The input items, after waiting",
+    schema: z.unknown(),
+  })
+  .execute(async () => {
+    // Only the routine runner can wait without blocking a worker
+    throw new Error(
+      "Wait nodes are run by the routine runner, not as a plugin",
+    );
+  })
+  .build();
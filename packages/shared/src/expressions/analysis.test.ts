@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { checkExpression, collectReferences } from "./analysis";
+import { parseExpression } from "./parser";
+
+function references(source: string) {
+  return collectReferences(parseExpression(source)).map(
+    ({ source, path }) => `${source}:${path.join(".")}`,
+  );
+}
+
+describe("collectReferences", () => {
+  it("should collect the paths read from each source in order", () => {
+    expect(
+      references("nodes.http_1.success.data[0].id + vars['rate'] | round"),
+    ).toEqual(["nodes:http_1.success.data.0.id", "vars:rate"]);
+  });
+
+  it("should stop paths at computed indices", () => {
+    expect(references("nodes.a.items[vars.index].name")).toEqual([
+      "vars:index",
+      "nodes:a.items",
+    ]);
+  });
+
+  it("should record the range of each reference", () => {
+    expect(collectReferences(parseExpression("1 + vars.price"))).toMatchObject([
+      { source: "vars", start: 4, end: 14 },
+    ]);
+  });
+});
+
+describe("checkExpression", () => {
+  it("should accept valid expressions", () => {
+    expect(checkExpression("vars.price | round(2)")).toBeUndefined();
+    expect(checkExpression("now()")).toBeUndefined();
+  });
+
+  it("should report syntax errors", () => {
+    expect(checkExpression("vars.a +")).toMatchObject({
+      code: "SYNTAX_ERROR",
+      start: 8,
+    });
+  });
+
+  it("should report unknown sources and functions", () => {
+    expect(checkExpression("1 + window")).toMatchObject({
+      code: "UNKNOWN_SOURCE",
+      start: 4,
+      end: 10,
+    });
+    expect(checkExpression("vars.a | shout")).toMatchObject({
+      code: "UNKNOWN_FUNCTION",
+    });
+  });
+
+  it("should report wrong argument counts, counting piped values", () => {
+    expect(checkExpression("vars.a | round(1, 2)")).toMatchObject({
+      code: "ARGUMENT_COUNT",
+    });
+    expect(checkExpression("vars.a | upper")).toBeUndefined();
+  });
+});
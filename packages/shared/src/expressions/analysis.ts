@@ -0,0 +1,168 @@
+/**
+ * Static analysis of expressions: the source paths they read and the
+ * problems detectable without running them
+ */
+
+import {
+  getArgumentCountError,
+  isExpressionSource,
+  type ExpressionSource,
+} from "./evaluator";
+import { EXPRESSION_FUNCTIONS } from "./functions";
+import { ExpressionError } from "./lexer";
+import { type ExpressionNode, parseExpression } from "./parser";
+
+/**
+ * A path read from a source, e.g. nodes.http_1.success.data[0]
+ */
+export interface ExpressionReference {
+  source: ExpressionSource;
+  /**
+   * Keys after the source; list indices as digits ("0"). Stops before the
+   * first index that is computed (e.g. items[vars.index]).
+   */
+  path: string[];
+  /** Offset of the reference in the expression source */
+  start: number;
+  end: number;
+}
+
+/**
+ * Collect the source paths an expression reads, in order
+ */
+export function collectReferences(node: ExpressionNode): ExpressionReference[] {
+  const references: ExpressionReference[] = [];
+  visit(node, references);
+  return references;
+}
+
+/**
+ * Find the first problem in an expression: a syntax error, an unknown
+ * source or function, or a wrong number of function arguments
+ */
+export function checkExpression(source: string): ExpressionError | undefined {
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+  return findProblem(node);
+}
+
+function findProblem(node: ExpressionNode): ExpressionError | undefined {
+  switch (node.type) {
+    case "literal":
+      return undefined;
+    case "identifier":
+      return isExpressionSource(node.name)
+        ? undefined
+        : new ExpressionError(
+            `Unknown source: ${node.name}`,
+            node.start,
+            node.end,
+            "UNKNOWN_SOURCE",
+          );
+    case "call": {
+      if (!EXPRESSION_FUNCTIONS.has(node.name)) {
+        return new ExpressionError(
+          `Unknown function: ${node.name}`,
+          node.start,
+          node.end,
+          "UNKNOWN_FUNCTION",
+        );
+      }
+      const argumentError = getArgumentCountError(node.name, node.args.length);
+      if (argumentError) {
+        return new ExpressionError(
+          argumentError,
+          node.start,
+          node.end,
+          "ARGUMENT_COUNT",
+        );
+      }
+      return firstProblem(node.args);
+    }
+    default:
+      return firstProblem(getChildren(node));
+  }
+}
+
+function firstProblem(nodes: ExpressionNode[]): ExpressionError | undefined {
+  for (const child of nodes) {
+    const problem = findProblem(child);
+    if (problem) return problem;
+  }
+  return undefined;
+}
+
+function visit(node: ExpressionNode, references: ExpressionReference[]): void {
+  if (node.type === "identifier") {
+    if (isExpressionSource(node.name)) {
+      references.push({
+        source: node.name,
+        path: [],
+        start: node.start,
+        end: node.end,
+      });
+    }
+    return;
+  }
+
+  if (node.type !== "member" && node.type !== "index") {
+    for (const child of getChildren(node)) visit(child, references);
+    return;
+  }
+
+  // Walk the access chain down to its root, collecting keys right to left
+  let path: string[] = [];
+  let end = node.end;
+  let current: ExpressionNode = node;
+  while (current.type === "member" || current.type === "index") {
+    if (current.type === "member") {
+      path.unshift(current.property);
+    } else {
+      const { index } = current;
+      visit(index, references);
+      if (
+        index.type === "literal" &&
+        (typeof index.value === "number" || typeof index.value === "string")
+      ) {
+        path.unshift(String(index.value));
+      } else {
+        // Keys after a computed index are unknown
+        path = [];
+        end = index.start - 1;
+      }
+    }
+    current = current.object;
+  }
+
+  if (current.type === "identifier" && isExpressionSource(current.name)) {
+    references.push({ source: current.name, path, start: current.start, end });
+  } else {
+    visit(current, references);
+  }
+}
+
+function getChildren(node: ExpressionNode): ExpressionNode[] {
+  switch (node.type) {
+    case "array":
+      return node.elements;
+    case "member":
+      return [node.object];
+    case "index":
+      return [node.object, node.index];
+    case "call":
+      return node.args;
+    case "unary":
+      return [node.argument];
+    case "binary":
+      return [node.left, node.right];
+    case "conditional":
+      return [node.test, node.consequent, node.alternate];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { type ExpressionScope, evaluateExpression } from "./evaluator";
+
+const scope: ExpressionScope = {
+  nodes: {
+    "node-1": { output: { items: [{ id: 1 }, { id: 2 }], name: "Ada" } },
+  },
+  vars: { price: 19.99, count: "3", empty: "", zero: 0, list: [1, 2] },
+  trigger: { body: { tags: ["a", "b"] } },
+  $item: { index: 1 },
+};
+
+function run(source: string): unknown {
+  return evaluateExpression(source, scope);
+}
+
+function runError(source: string) {
+  try {
+    run(source);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected "${source}" to fail`);
+}
+
+describe("evaluateExpression", () => {
+  describe("operators", () => {
+    it("should follow arithmetic precedence", () => {
+      expect(run("1 + 2 * 3")).toBe(7);
+      expect(run("(1 + 2) * 3")).toBe(9);
+      expect(run("10 - 4 - 3")).toBe(3);
+      expect(run("7 % 4 * 2")).toBe(6);
+      expect(run("-2 * 3")).toBe(-6);
+    });
+
+    it("should convert numeric text and booleans in arithmetic", () => {
+      expect(run("vars.count * 2")).toBe(6);
+      expect(run("vars.count - 1")).toBe(2);
+      expect(run("true + 1")).toBe(2);
+      expect(run("+vars.count")).toBe(3);
+    });
+
+    it("should concatenate text and lists with +", () => {
+      expect(run("'n=' + vars.count")).toBe("n=3");
+      expect(run("vars.count + 1")).toBe("31");
+      expect(run("'items: ' + vars.list")).toBe("items: [1,2]");
+      expect(run("vars.list + [3]")).toEqual([1, 2, 3]);
+    });
+
+    it("should compare text as text and everything else as numbers", () => {
+      expect(run("'2024-02-01' > '2024-01-31'")).toBe(true);
+      expect(run("'10' < '9'")).toBe(true);
+      expect(run("vars.count > 2")).toBe(true);
+      expect(run("vars.price >= 19.99")).toBe(true);
+    });
+
+    it("should compare equality deeply", () => {
+      expect(run("vars.list == [1, 2]")).toBe(true);
+      expect(run("vars.list === [2, 1]")).toBe(false);
+      expect(run("null == vars.missing")).toBe(true);
+      expect(run("1 == '1'")).toBe(false);
+      expect(run("1 != '1'")).toBe(true);
+    });
+
+    it("should short-circuit logical operators", () => {
+      expect(run("vars.zero || 'fallback'")).toBe("fallback");
+      expect(run("vars.zero ?? 'fallback'")).toBe(0);
+      expect(run("vars.missing ?? 'fallback'")).toBe("fallback");
+      expect(run("vars.zero && unknownSource")).toBe(0);
+      expect(run("true || unknownSource")).toBe(true);
+      expect(run("!vars.empty")).toBe(true);
+    });
+
+    it("should evaluate only the chosen conditional branch", () => {
+      expect(run("vars.price > 10 ? 'high' : unknownSource")).toBe("high");
+      expect(run("vars.zero ? 1 : 2")).toBe(2);
+    });
+
+    it("should reject operands that aren't numbers", () => {
+      expect(runError("'abc' * 2")).toMatchObject({
+        message: '"*": Expected a number but got string "abc"',
+        code: "INVALID_OPERAND",
+        start: 0,
+        end: 9,
+      });
+      expect(runError("-vars.list")).toMatchObject({
+        message: '"-": Expected a number but got array',
+        code: "INVALID_OPERAND",
+      });
+    });
+  });
+
+  describe("member access", () => {
+    it("should read nested keys, hyphenated keys and indices", () => {
+      expect(run("nodes.node-1.output.name")).toBe("Ada");
+      expect(run("nodes['node-1'].output.items[1].id")).toBe(2);
+      expect(run("nodes.node-1.output.items[$item.index].id")).toBe(2);
+      expect(run("trigger.body.tags.0")).toBe("a");
+    });
+
+    it("should read the length and characters of lists and text", () => {
+      expect(run("trigger.body.tags.length")).toBe(2);
+      expect(run("nodes.node-1.output.name.length")).toBe(3);
+      expect(run("nodes.node-1.output.name[0]")).toBe("A");
+    });
+
+    it("should read missing keys as undefined", () => {
+      expect(run("vars.missing")).toBeUndefined();
+      expect(run("vars.missing.deeper.still")).toBeUndefined();
+      expect(run("vars?.missing?.deeper")).toBeUndefined();
+      expect(run("vars.list[5]")).toBeUndefined();
+      expect(run("execution")).toBeUndefined();
+    });
+
+    it("should only read own properties", () => {
+      expect(run("vars.constructor")).toBeUndefined();
+      expect(run("vars['__proto__']")).toBeUndefined();
+      expect(run("vars.toString")).toBeUndefined();
+      expect(run("vars.list.map")).toBeUndefined();
+      expect(run("vars.list['constructor']")).toBeUndefined();
+      expect(run("nodes.node-1.output.name.toUpperCase")).toBeUndefined();
+      expect(run("vars.price.toFixed")).toBeUndefined();
+      expect(run("vars.hasOwnProperty")).toBeUndefined();
+    });
+
+    it("should read keys of objects without a prototype", () => {
+      const bare = Object.assign(Object.create(null), { key: "value" });
+      expect(evaluateExpression("vars.key", { vars: bare })).toBe("value");
+    });
+  });
+
+  describe("sources and functions", () => {
+    it("should reject unknown sources", () => {
+      expect(runError("window.location")).toMatchObject({
+        message: "Unknown source: window",
+        code: "UNKNOWN_SOURCE",
+        start: 0,
+        end: 6,
+      });
+    });
+
+    it("should call functions directly and as pipes", () => {
+      expect(run("round(vars.price, 1)")).toBe(20);
+      expect(run("vars.price | round(1)")).toBe(20);
+      expect(run("nodes.node-1.output.name | upper | lower")).toBe("ada");
+    });
+
+    it("should reject unknown functions", () => {
+      expect(runError("vars.price | eval")).toMatchObject({
+        message: "Unknown function: eval",
+        code: "UNKNOWN_FUNCTION",
+        start: 0,
+        end: 17,
+      });
+    });
+
+    it("should count a piped value as an argument", () => {
+      expect(runError("vars.price | round(1, 2)")).toMatchObject({
+        message:
+          "round() takes 1 to 2 arguments but got 3 (round(number, digits?))",
+        code: "ARGUMENT_COUNT",
+      });
+      expect(runError("upper()")).toMatchObject({
+        message: "upper() takes 1 argument but got 0 (upper(text))",
+      });
+    });
+
+    it("should report invalid arguments at the call", () => {
+      expect(
+        runError("vars.count | parseJson | keys | first(1)"),
+      ).toMatchObject({ code: "ARGUMENT_COUNT" });
+      expect(runError("1 + first('text')")).toMatchObject({
+        message: "first(): Expected a list but got string",
+        code: "INVALID_OPERAND",
+        start: 4,
+        end: 17,
+      });
+    });
+  });
+});
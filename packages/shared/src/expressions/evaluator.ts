@@ -0,0 +1,274 @@
+/**
+ * Expression Evaluator
+ *
+ * Evaluates a parsed expression against the values of its sources. Property
+ * access only reads own data (object keys, list items, length), so
+ * expressions can't reach prototypes, and they can call nothing but the
+ * standard library.
+ */
+
+import {
+  EXPRESSION_FUNCTIONS,
+  ExpressionFunctionError,
+  isEqual,
+  toNumber,
+  toText,
+} from "./functions";
+import { ExpressionError } from "./lexer";
+import {
+  type BinaryOperator,
+  type ExpressionNode,
+  parseExpression,
+} from "./parser";
+
+/**
+ * Sources expressions can reference
+ */
+export const EXPRESSION_SOURCES = [
+  "nodes",
+  "vars",
+  "trigger",
+  "execution",
+  "$item",
+  "$iteration",
+] as const;
+
+export type ExpressionSource = (typeof EXPRESSION_SOURCES)[number];
+
+/**
+ * Values of the sources; a missing source evaluates to undefined
+ */
+export type ExpressionScope = Partial<Record<ExpressionSource, unknown>>;
+
+export function isExpressionSource(name: string): name is ExpressionSource {
+  return (EXPRESSION_SOURCES as readonly string[]).includes(name);
+}
+
+/**
+ * Parse and evaluate an expression (the text between {{ and }})
+ *
+ * @throws ExpressionError on syntax errors, unknown sources or functions,
+ *         and invalid operands or arguments
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope,
+): unknown {
+  return evaluate(parseExpression(source), scope);
+}
+
+/**
+ * Evaluate a parsed expression
+ */
+export function evaluate(
+  node: ExpressionNode,
+  scope: ExpressionScope,
+): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "array":
+      return node.elements.map((element) => evaluate(element, scope));
+
+    case "identifier":
+      if (!isExpressionSource(node.name)) {
+        throw new ExpressionError(
+          `Unknown source: ${node.name}`,
+          node.start,
+          node.end,
+          "UNKNOWN_SOURCE",
+        );
+      }
+      return scope[node.name];
+
+    case "member":
+      return getMember(evaluate(node.object, scope), node.property);
+
+    case "index": {
+      const index = evaluate(node.index, scope);
+      return getMember(
+        evaluate(node.object, scope),
+        typeof index === "number" ? String(index) : toText(index),
+      );
+    }
+
+    case "call": {
+      const fn = EXPRESSION_FUNCTIONS.get(node.name);
+      if (!fn) {
+        throw new ExpressionError(
+          `Unknown function: ${node.name}`,
+          node.start,
+          node.end,
+          "UNKNOWN_FUNCTION",
+        );
+      }
+      const argumentError = getArgumentCountError(node.name, node.args.length);
+      if (argumentError) {
+        throw new ExpressionError(
+          argumentError,
+          node.start,
+          node.end,
+          "ARGUMENT_COUNT",
+        );
+      }
+      const args = node.args.map((arg) => evaluate(arg, scope));
+      return withRange(node, `${node.name}()`, () => fn.call(...args));
+    }
+
+    case "unary": {
+      const value = evaluate(node.argument, scope);
+      if (node.operator === "!") return !value;
+      return withRange(node, `"${node.operator}"`, () =>
+        node.operator === "-" ? -toNumber(value) : toNumber(value),
+      );
+    }
+
+    case "conditional":
+      return evaluate(node.test, scope)
+        ? evaluate(node.consequent, scope)
+        : evaluate(node.alternate, scope);
+
+    case "binary": {
+      const left = evaluate(node.left, scope);
+
+      // Short-circuit operators only evaluate the right side when needed
+      switch (node.operator) {
+        case "??":
+          return left ?? evaluate(node.right, scope);
+        case "||":
+          return left || evaluate(node.right, scope);
+        case "&&":
+          return left && evaluate(node.right, scope);
+      }
+
+      const right = evaluate(node.right, scope);
+      return withRange(node, `"${node.operator}"`, () =>
+        applyOperator(node.operator, left, right),
+      );
+    }
+  }
+}
+
+/**
+ * Error for calling a function with the wrong number of arguments
+ * (including a piped value), if any
+ */
+export function getArgumentCountError(
+  name: string,
+  count: number,
+): string | undefined {
+  const fn = EXPRESSION_FUNCTIONS.get(name);
+  if (!fn) return undefined;
+  if (
+    count >= fn.minArgs &&
+    (fn.maxArgs === undefined || count <= fn.maxArgs)
+  ) {
+    return undefined;
+  }
+
+  const expected =
+    fn.maxArgs === undefined
+      ? `at least ${fn.minArgs}`
+      : fn.minArgs === fn.maxArgs
+        ? String(fn.minArgs)
+        : `${fn.minArgs} to ${fn.maxArgs}`;
+  return `${name}() takes ${expected} argument${expected === "1" ? "" : "s"} but got ${count} (${fn.signature})`;
+}
+
+/**
+ * Own value of a key: object keys, list items and text characters by
+ * index, and the length of lists and text
+ */
+function getMember(object: unknown, key: string): unknown {
+  if (typeof object === "string" || Array.isArray(object)) {
+    if (key === "length") return object.length;
+    return /^\d+$/.test(key) ? object[Number(key)] : undefined;
+  }
+  if (
+    typeof object === "object" &&
+    object !== null &&
+    Object.hasOwn(object, key)
+  ) {
+    return (object as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+function applyOperator(
+  operator: BinaryOperator,
+  left: unknown,
+  right: unknown,
+): unknown {
+  switch (operator) {
+    case "==":
+    case "===":
+      return isEqual(left, right);
+    case "!=":
+    case "!==":
+      return !isEqual(left, right);
+    case "<":
+      return compareOperands(left, right) < 0;
+    case "<=":
+      return compareOperands(left, right) <= 0;
+    case ">":
+      return compareOperands(left, right) > 0;
+    case ">=":
+      return compareOperands(left, right) >= 0;
+    case "+":
+      if (typeof left === "number" && typeof right === "number") {
+        return left + right;
+      }
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return [...left, ...right];
+      }
+      if (typeof left === "string" || typeof right === "string") {
+        return toText(left) + toText(right);
+      }
+      return toNumber(left) + toNumber(right);
+    case "-":
+      return toNumber(left) - toNumber(right);
+    case "*":
+      return toNumber(left) * toNumber(right);
+    case "/":
+      return toNumber(left) / toNumber(right);
+    case "%":
+      return toNumber(left) % toNumber(right);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compare text with text (so ISO dates order correctly), everything else
+ * as numbers
+ */
+function compareOperands(left: unknown, right: unknown): number {
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return toNumber(left) - toNumber(right);
+}
+
+/**
+ * Run an operation, reporting invalid operands or arguments at the node
+ */
+function withRange(
+  node: ExpressionNode,
+  label: string,
+  operation: () => unknown,
+): unknown {
+  try {
+    return operation();
+  } catch (error) {
+    if (error instanceof ExpressionFunctionError) {
+      throw new ExpressionError(
+        `${label}: ${error.message}`,
+        node.start,
+        node.end,
+        "INVALID_OPERAND",
+      );
+    }
+    throw error;
+  }
+}
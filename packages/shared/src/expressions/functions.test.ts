@@ -0,0 +1,331 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  compareValues,
+  EXPRESSION_FUNCTIONS,
+  ExpressionFunctionError,
+  getValueType,
+  isEqual,
+  toNumber,
+  toText,
+} from "./functions";
+
+/**
+ * Results of each function for given arguments
+ */
+const CASES: Record<string, Array<[args: unknown[], result: unknown]>> = {
+  // String
+  upper: [
+    [["abc"], "ABC"],
+    [[null], ""],
+  ],
+  lower: [[["AbC"], "abc"]],
+  capitalize: [
+    [["hello world"], "Hello world"],
+    [[""], ""],
+  ],
+  trim: [[["  a b \n"], "a b"]],
+  replace: [
+    [["a-b-c", "-", "+"], "a+b+c"],
+    [["a.b", ".", ""], "ab"],
+  ],
+  split: [
+    [
+      ["a,b,,c", ","],
+      ["a", "b", "", "c"],
+    ],
+    [
+      [12345, 3],
+      ["12", "45"],
+    ],
+  ],
+  startsWith: [
+    [["invoice-1", "invoice"], true],
+    [["invoice-1", "1"], false],
+  ],
+  endsWith: [
+    [["report.pdf", ".pdf"], true],
+    [[10, 0], true],
+  ],
+  string: [
+    [[12.5], "12.5"],
+    [[{ a: [1] }], '{"a":[1]}'],
+    [[undefined], ""],
+  ],
+
+  // Math
+  round: [
+    [[2.5], 3],
+    [[1.005, 2], 1],
+    [[19.987, 2], 19.99],
+    [["4.44", "1"], 4.4],
+    [[1234, -2], 1200],
+  ],
+  floor: [
+    [[2.9], 2],
+    [[-2.1], -3],
+  ],
+  ceil: [
+    [[2.1], 3],
+    [["-2.9"], -2],
+  ],
+  abs: [[[-3], 3]],
+  min: [
+    [[3, 1, 2], 1],
+    [[[5, "2", null], 4], 2],
+  ],
+  max: [
+    [[3, 1, 2], 3],
+    [[[5, "12"]], 12],
+  ],
+  sum: [
+    [[[1, "2", null, 3.5]], 6.5],
+    [[[]], 0],
+    [[null], 0],
+  ],
+  avg: [
+    [[[1, 2, "6"]], 3],
+    [[[]], null],
+  ],
+  number: [
+    [["42"], 42],
+    [[" 1e3 "], 1000],
+    [[true], 1],
+    [[false], 0],
+  ],
+
+  // Date
+  date: [
+    [["2024-03-05T10:20:30Z"], "2024-03-05T10:20:30.000Z"],
+    [[0], "1970-01-01T00:00:00.000Z"],
+  ],
+  timestamp: [[["1970-01-02T00:00:00Z"], 86_400_000]],
+  formatDate: [
+    [["2024-03-05T07:08:09Z", "DD/MM/YYYY HH:mm:ss"], "05/03/2024 07:08:09"],
+    [[0, "YYYY-MM-DD"], "1970-01-01"],
+  ],
+  addTime: [
+    [["2024-01-31T00:00:00Z", 1, "days"], "2024-02-01T00:00:00.000Z"],
+    [["2024-01-01T00:00:00Z", -90, "minute"], "2023-12-31T22:30:00.000Z"],
+    [["2024-01-01T00:00:00Z", "2", "weeks"], "2024-01-15T00:00:00.000Z"],
+  ],
+  timeBetween: [
+    [["2024-01-01T00:00:00Z", "2024-01-03T12:00:00Z", "days"], 2.5],
+    [["2024-01-01T01:00:00Z", "2024-01-01T00:00:00Z", "hour"], -1],
+    [[0, 1500, "seconds"], 1.5],
+  ],
+
+  // Array
+  length: [
+    [[[1, 2, 3]], 3],
+    [["abcd"], 4],
+    [[{ a: 1, b: 2 }], 2],
+    [[42], 0],
+    [[null], 0],
+  ],
+  includes: [
+    [[[1, { a: 1 }], { a: 1 }], true],
+    [[[1, 2], "1"], false],
+    [["hello", "ell"], true],
+    [["a1", 1], true],
+    [[null, 1], false],
+  ],
+  first: [
+    [[[3, 4]], 3],
+    [[[]], null],
+  ],
+  last: [
+    [[[3, 4]], 4],
+    [[null], null],
+  ],
+  slice: [
+    [
+      [[1, 2, 3, 4], 1, 3],
+      [2, 3],
+    ],
+    [
+      [[1, 2, 3], -2],
+      [2, 3],
+    ],
+    [["abcdef", "2", 4], "cd"],
+  ],
+  join: [
+    [[["a", 1, null]], "a, 1, "],
+    [[["a", "b"], "-"], "a-b"],
+    [[[{ a: 1 }], ""], '{"a":1}'],
+  ],
+  pluck: [
+    [
+      [[{ user: { id: 1 } }, { user: { id: 2 } }, {}, null], "user.id"],
+      [1, 2, undefined, undefined],
+    ],
+    [[[[1, 2]], "length"], [undefined]],
+  ],
+  unique: [[[[1, "1", 1, { a: 1 }, { a: 1 }]], [1, "1", { a: 1 }]]],
+  sort: [
+    [[[10, 9, 1]], [1, 9, 10]],
+    [[["item10", "item9", "apple"]], ["apple", "item9", "item10"]],
+  ],
+  reverse: [[[[1, 2, 3]], [3, 2, 1]]],
+  flatten: [[[[1, [2, [3]], []]], [1, 2, [3]]]],
+  compact: [[[[0, null, "", false, undefined, "a"]], [0, false, "a"]]],
+  keys: [
+    [[{ a: 1, b: 2 }], ["a", "b"]],
+    [[[1, 2]], []],
+    [["text"], []],
+  ],
+  values: [
+    [[{ a: 1, b: [2] }], [1, [2]]],
+    [[null], []],
+  ],
+
+  // JSON
+  toJson: [
+    [[{ a: [1, "b"] }], '{"a":[1,"b"]}'],
+    [[{ a: 1 }, 2], '{\n  "a": 1\n}'],
+    [[undefined], "null"],
+  ],
+  parseJson: [
+    [['{"a":[1,true,null]}'], { a: [1, true, null] }],
+    [["3"], 3],
+  ],
+
+  // Other
+  default: [
+    [[null, "x"], "x"],
+    [[undefined, "x"], "x"],
+    [["", "x"], "x"],
+    [[0, "x"], 0],
+    [[false, "x"], false],
+  ],
+  typeOf: [
+    [["a"], "string"],
+    [[1], "number"],
+    [[true], "boolean"],
+    [[[1]], "array"],
+    [[{}], "object"],
+    [[null], "null"],
+    [[undefined], "null"],
+  ],
+};
+
+/**
+ * Arguments each function rejects
+ */
+const INVALID: Record<string, Array<[args: unknown[], message: string]>> = {
+  round: [[["abc"], 'Expected a number but got string "abc"']],
+  abs: [[[null], "Expected a number but got null"]],
+  sum: [[[[1, "x"]], 'Expected a number but got string "x"']],
+  min: [[[[1, {}]], "Expected a number but got object"]],
+  number: [
+    [[""], 'Expected a number but got string ""'],
+    [[[1]], "Expected a number but got array"],
+  ],
+  date: [
+    [["not a date"], "Invalid date: not a date"],
+    [[true], "Invalid date: true"],
+  ],
+  addTime: [
+    [
+      ["2024-01-01", 1, "months"],
+      'Unknown time unit "months" (use milliseconds, seconds, minutes, hours, days, weeks)',
+    ],
+  ],
+  first: [[["text"], "Expected a list but got string"]],
+  join: [[[{ a: 1 }], "Expected a list but got object"]],
+  parseJson: [[["{bad"], "Invalid JSON"]],
+};
+
+function call(name: string, args: unknown[]): unknown {
+  return EXPRESSION_FUNCTIONS.get(name)!.call(...args);
+}
+
+describe("standard library", () => {
+  for (const [name, cases] of Object.entries(CASES)) {
+    it(`${name}()`, () => {
+      for (const [args, result] of cases) {
+        expect(call(name, args)).toEqual(result);
+      }
+    });
+  }
+
+  for (const [name, cases] of Object.entries(INVALID)) {
+    it(`${name}() with invalid arguments`, () => {
+      for (const [args, message] of cases) {
+        expect(() => call(name, args)).toThrow(
+          new ExpressionFunctionError(message),
+        );
+      }
+    });
+  }
+
+  describe("now()", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should return the current time", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2024-06-01T12:00:00Z"));
+
+      expect(call("now", [])).toBe("2024-06-01T12:00:00.000Z");
+    });
+  });
+
+  it("should test every function", () => {
+    const tested = new Set([...Object.keys(CASES), "now"]);
+    expect(
+      [...EXPRESSION_FUNCTIONS.keys()].filter((name) => !tested.has(name)),
+    ).toEqual([]);
+  });
+
+  it("should describe every function consistently", () => {
+    for (const [name, fn] of EXPRESSION_FUNCTIONS) {
+      expect(fn.name).toBe(name);
+      expect(fn.signature.startsWith(`${name}(`)).toBe(true);
+      expect(fn.maxArgs ?? Number.POSITIVE_INFINITY).toBeGreaterThanOrEqual(
+        fn.minArgs,
+      );
+    }
+  });
+
+  it("should not modify list arguments", () => {
+    const list = [3, 1, 2];
+    call("sort", [list]);
+    call("reverse", [list]);
+    expect(list).toEqual([3, 1, 2]);
+  });
+});
+
+describe("conversions", () => {
+  it("should convert values to text", () => {
+    expect(toText(null)).toBe("");
+    expect(toText(undefined)).toBe("");
+    expect(toText(false)).toBe("false");
+    expect(toText([1, "a"])).toBe('[1,"a"]');
+  });
+
+  it("should convert values to numbers", () => {
+    expect(toNumber(" 12 ")).toBe(12);
+    expect(toNumber(true)).toBe(1);
+    expect(() => toNumber("  ")).toThrow(ExpressionFunctionError);
+    expect(() => toNumber(undefined)).toThrow("Expected a number but got null");
+  });
+
+  it("should compare values deeply", () => {
+    expect(isEqual({ a: [1, 2] }, { a: [1, 2] })).toBe(true);
+    expect(isEqual(null, undefined)).toBe(true);
+    expect(isEqual([], {})).toBe(false);
+    expect(isEqual(0, false)).toBe(false);
+  });
+
+  it("should order numbers numerically and the rest as text", () => {
+    expect(compareValues(9, 10)).toBeLessThan(0);
+    expect(compareValues("item9", "item10")).toBeLessThan(0);
+    expect(compareValues(null, "a")).toBeLessThan(0);
+  });
+
+  it("should name value types", () => {
+    expect(getValueType(() => 1)).toBe("unknown");
+    expect(getValueType(undefined)).toBe("null");
+  });
+});
@@ -0,0 +1,686 @@
+/**
+ * Expression Standard Library
+ *
+ * The only functions expressions can call, either directly
+ * (`round(vars.price, 2)`) or as a pipe (`vars.price | round(2)`).
+ * They are pure and never reach outside the values they are given.
+ */
+
+export type ExpressionValueType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null"
+  | "unknown";
+
+export interface ExpressionFunction {
+  name: string;
+  /** Usage, e.g. "round(value, digits?)" */
+  signature: string;
+  description: string;
+  category: "string" | "math" | "date" | "array" | "json" | "other";
+  /** Type of the result */
+  returns: ExpressionValueType;
+  minArgs: number;
+  /** Omitted for any number of arguments */
+  maxArgs?: number;
+  call: (...args: unknown[]) => unknown;
+}
+
+/**
+ * Error thrown by a function for invalid arguments
+ */
+export class ExpressionFunctionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionFunctionError";
+  }
+}
+
+const DATE_UNITS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+const FUNCTIONS: ExpressionFunction[] = [
+  // String
+  {
+    name: "upper",
+    signature: "upper(text)",
+    description: "Text in upper case",
+    category: "string",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toText(value).toUpperCase(),
+  },
+  {
+    name: "lower",
+    signature: "lower(text)",
+    description: "Text in lower case",
+    category: "string",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toText(value).toLowerCase(),
+  },
+  {
+    name: "capitalize",
+    signature: "capitalize(text)",
+    description: "Text with its first letter in upper case",
+    category: "string",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      const text = toText(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  {
+    name: "trim",
+    signature: "trim(text)",
+    description: "Text without leading and trailing whitespace",
+    category: "string",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toText(value).trim(),
+  },
+  {
+    name: "replace",
+    signature: "replace(text, search, replacement)",
+    description: "Text with every occurrence of search replaced",
+    category: "string",
+    returns: "string",
+    minArgs: 3,
+    maxArgs: 3,
+    call: (value, search, replacement) =>
+      toText(value).replaceAll(toText(search), toText(replacement)),
+  },
+  {
+    name: "split",
+    signature: "split(text, separator)",
+    description: "List of the parts of text between separators",
+    category: "string",
+    returns: "array",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, separator) => toText(value).split(toText(separator)),
+  },
+  {
+    name: "startsWith",
+    signature: "startsWith(text, prefix)",
+    description: "Whether text starts with prefix",
+    category: "string",
+    returns: "boolean",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  },
+  {
+    name: "endsWith",
+    signature: "endsWith(text, suffix)",
+    description: "Whether text ends with suffix",
+    category: "string",
+    returns: "boolean",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  },
+  {
+    name: "string",
+    signature: "string(value)",
+    description: "Value as text (objects as JSON)",
+    category: "string",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toText(value),
+  },
+
+  // Math
+  {
+    name: "round",
+    signature: "round(number, digits?)",
+    description: "Number rounded to digits decimals (default 0)",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 2,
+    call: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  {
+    name: "floor",
+    signature: "floor(number)",
+    description: "Largest integer not above number",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => Math.floor(toNumber(value)),
+  },
+  {
+    name: "ceil",
+    signature: "ceil(number)",
+    description: "Smallest integer not below number",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => Math.ceil(toNumber(value)),
+  },
+  {
+    name: "abs",
+    signature: "abs(number)",
+    description: "Absolute value of number",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => Math.abs(toNumber(value)),
+  },
+  {
+    name: "min",
+    signature: "min(numbers...)",
+    description: "Smallest of the numbers (or of a list)",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    call: (...values) => Math.min(...toNumbers(values)),
+  },
+  {
+    name: "max",
+    signature: "max(numbers...)",
+    description: "Largest of the numbers (or of a list)",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    call: (...values) => Math.max(...toNumbers(values)),
+  },
+  {
+    name: "sum",
+    signature: "sum(list)",
+    description: "Sum of the numbers in a list",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => toNumbers([list]).reduce((total, n) => total + n, 0),
+  },
+  {
+    name: "avg",
+    signature: "avg(list)",
+    description: "Average of the numbers in a list (null when empty)",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => {
+      const numbers = toNumbers([list]);
+      if (numbers.length === 0) return null;
+      return numbers.reduce((total, n) => total + n, 0) / numbers.length;
+    },
+  },
+  {
+    name: "number",
+    signature: "number(value)",
+    description: "Value as a number",
+    category: "math",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toNumber(value),
+  },
+
+  // Date
+  {
+    name: "now",
+    signature: "now()",
+    description: "Current time as an ISO 8601 string",
+    category: "date",
+    returns: "string",
+    minArgs: 0,
+    maxArgs: 0,
+    call: () => new Date().toISOString(),
+  },
+  {
+    name: "date",
+    signature: "date(value)",
+    description: "Date (ISO string or timestamp) as an ISO 8601 string",
+    category: "date",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toDate(value).toISOString(),
+  },
+  {
+    name: "timestamp",
+    signature: "timestamp(date)",
+    description: "Date as milliseconds since 1970",
+    category: "date",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => toDate(value).getTime(),
+  },
+  {
+    name: "formatDate",
+    signature: "formatDate(date, format)",
+    description:
+      "Date formatted in UTC with YYYY, MM, DD, HH, mm and ss, e.g. formatDate(now(), 'YYYY-MM-DD')",
+    category: "date",
+    returns: "string",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, format) => formatDate(toDate(value), toText(format)),
+  },
+  {
+    name: "addTime",
+    signature: "addTime(date, amount, unit)",
+    description:
+      "Date plus an amount of seconds, minutes, hours, days or weeks, as an ISO string",
+    category: "date",
+    returns: "string",
+    minArgs: 3,
+    maxArgs: 3,
+    call: (value, amount, unit) =>
+      new Date(
+        toDate(value).getTime() + toNumber(amount) * getDateUnit(unit),
+      ).toISOString(),
+  },
+  {
+    name: "timeBetween",
+    signature: "timeBetween(start, end, unit)",
+    description:
+      "Time from start to end in seconds, minutes, hours, days or weeks",
+    category: "date",
+    returns: "number",
+    minArgs: 3,
+    maxArgs: 3,
+    call: (start, end, unit) =>
+      (toDate(end).getTime() - toDate(start).getTime()) / getDateUnit(unit),
+  },
+
+  // Array
+  {
+    name: "length",
+    signature: "length(value)",
+    description: "Number of items in a list, characters in text or keys",
+    category: "array",
+    returns: "number",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+      }
+      if (isRecord(value)) return Object.keys(value).length;
+      return 0;
+    },
+  },
+  {
+    name: "includes",
+    signature: "includes(listOrText, value)",
+    description: "Whether a list holds value, or text contains it",
+    category: "array",
+    returns: "boolean",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (container, value) =>
+      typeof container === "string"
+        ? container.includes(toText(value))
+        : toList(container).some((item) => isEqual(item, value)),
+  },
+  {
+    name: "first",
+    signature: "first(list)",
+    description: "First item of a list",
+    category: "array",
+    returns: "unknown",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => toList(list)[0] ?? null,
+  },
+  {
+    name: "last",
+    signature: "last(list)",
+    description: "Last item of a list",
+    category: "array",
+    returns: "unknown",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => toList(list).at(-1) ?? null,
+  },
+  {
+    name: "slice",
+    signature: "slice(listOrText, start, end?)",
+    description: "Part of a list or text, from start up to end",
+    category: "array",
+    returns: "unknown",
+    minArgs: 2,
+    maxArgs: 3,
+    call: (value, start, end) => {
+      const from = toNumber(start);
+      const to = end === undefined ? undefined : toNumber(end);
+      return typeof value === "string"
+        ? value.slice(from, to)
+        : toList(value).slice(from, to);
+    },
+  },
+  {
+    name: "join",
+    signature: "join(list, separator?)",
+    description:
+      'Items of a list as text, separated by separator (default ", ")',
+    category: "array",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 2,
+    call: (list, separator) =>
+      toList(list)
+        .map(toText)
+        .join(separator === undefined ? ", " : toText(separator)),
+  },
+  {
+    name: "pluck",
+    signature: "pluck(list, field)",
+    description: "Value of a field (dot-separated path) of each item",
+    category: "array",
+    returns: "array",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (list, field) => {
+      const path = toText(field).split(".");
+      return toList(list).map((item) =>
+        path.reduce<unknown>(
+          (value, key) =>
+            isRecord(value) && Object.hasOwn(value, key)
+              ? value[key]
+              : undefined,
+          item,
+        ),
+      );
+    },
+  },
+  {
+    name: "unique",
+    signature: "unique(list)",
+    description: "List without repeated items",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => {
+      const seen = new Set<string>();
+      return toList(list).filter((item) => {
+        const key = JSON.stringify(item) ?? "undefined";
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    },
+  },
+  {
+    name: "sort",
+    signature: "sort(list)",
+    description: "List sorted ascending (numbers numerically)",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => [...toList(list)].sort(compareValues),
+  },
+  {
+    name: "reverse",
+    signature: "reverse(list)",
+    description: "List in reverse order",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => [...toList(list)].reverse(),
+  },
+  {
+    name: "flatten",
+    signature: "flatten(list)",
+    description: "List with nested lists merged in, one level deep",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) => toList(list).flat(),
+  },
+  {
+    name: "compact",
+    signature: "compact(list)",
+    description: "List without null, undefined and empty text items",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (list) =>
+      toList(list).filter(
+        (item) => item !== null && item !== undefined && item !== "",
+      ),
+  },
+  {
+    name: "keys",
+    signature: "keys(object)",
+    description: "Keys of an object",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => (isRecord(value) ? Object.keys(value) : []),
+  },
+  {
+    name: "values",
+    signature: "values(object)",
+    description: "Values of an object",
+    category: "array",
+    returns: "array",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => (isRecord(value) ? Object.values(value) : []),
+  },
+
+  // JSON
+  {
+    name: "toJson",
+    signature: "toJson(value, indent?)",
+    description: "Value as JSON text",
+    category: "json",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 2,
+    call: (value, indent) =>
+      JSON.stringify(
+        value ?? null,
+        null,
+        indent === undefined ? undefined : toNumber(indent),
+      ),
+  },
+  {
+    name: "parseJson",
+    signature: "parseJson(text)",
+    description: "Value of JSON text",
+    category: "json",
+    returns: "unknown",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => {
+      try {
+        return JSON.parse(toText(value));
+      } catch {
+        throw new ExpressionFunctionError("Invalid JSON");
+      }
+    },
+  },
+
+  // Other
+  {
+    name: "default",
+    signature: "default(value, fallback)",
+    description: "Value, or fallback when it is null, undefined or empty text",
+    category: "other",
+    returns: "unknown",
+    minArgs: 2,
+    maxArgs: 2,
+    call: (value, fallback) =>
+      value === null || value === undefined || value === "" ? fallback : value,
+  },
+  {
+    name: "typeOf",
+    signature: "typeOf(value)",
+    description:
+      'Type of value: "string", "number", "boolean", "array", "object" or "null"',
+    category: "other",
+    returns: "string",
+    minArgs: 1,
+    maxArgs: 1,
+    call: (value) => getValueType(value),
+  },
+];
+
+/**
+ * Standard library functions by name
+ */
+export const EXPRESSION_FUNCTIONS: ReadonlyMap<string, ExpressionFunction> =
+  new Map(FUNCTIONS.map((fn) => [fn.name, fn]));
+
+/**
+ * Type of a runtime value (undefined counts as null)
+ */
+export function getValueType(value: unknown): ExpressionValueType {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value as ExpressionValueType;
+    case "object":
+      return "object";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Value as text: nothing for null/undefined, JSON for objects and arrays
+ */
+export function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Value as a number; numeric text and booleans convert, anything else fails
+ */
+export function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    if (!Number.isNaN(number)) return number;
+  }
+  throw new ExpressionFunctionError(
+    `Expected a number but got ${getValueType(value)}${typeof value === "string" ? ` "${value}"` : ""}`,
+  );
+}
+
+/**
+ * Deep equality of values (as compared by == in expressions)
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if ((a === null || a === undefined) && (b === null || b === undefined)) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Order values: numbers numerically, everything else as text
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return toText(a).localeCompare(toText(b), undefined, { numeric: true });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  throw new ExpressionFunctionError(
+    `Expected a list but got ${getValueType(value)}`,
+  );
+}
+
+/** Numbers from arguments, spreading list arguments */
+function toNumbers(values: unknown[]): number[] {
+  return values
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value !== null && value !== undefined)
+    .map(toNumber);
+}
+
+function toDate(value: unknown): Date {
+  const date =
+    typeof value === "number" || typeof value === "string"
+      ? new Date(value)
+      : value instanceof Date
+        ? value
+        : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ExpressionFunctionError(`Invalid date: ${toText(value)}`);
+  }
+  return date;
+}
+
+function getDateUnit(unit: unknown): number {
+  const text = toText(unit);
+  // Singular units ("day") work too
+  const unitName = Object.hasOwn(DATE_UNITS, text) ? text : `${text}s`;
+  const factor = Object.hasOwn(DATE_UNITS, unitName)
+    ? DATE_UNITS[unitName]
+    : undefined;
+  if (!factor) {
+    throw new ExpressionFunctionError(
+      `Unknown time unit "${text}" (use ${Object.keys(DATE_UNITS).join(", ")})`,
+    );
+  }
+  return factor;
+}
+
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]!);
+}
@@ -0,0 +1,15 @@
+/**
+ * Expressions Module
+ *
+ * The {{ expression }} language shared by the execution engine and the
+ * editor: parser, evaluator, standard library, static analysis and
+ * refactoring.
+ */
+
+export * from "./lexer";
+export * from "./parser";
+export * from "./evaluator";
+export * from "./functions";
+export * from "./analysis";
+export * from "./template";
+export * from "./refactor";
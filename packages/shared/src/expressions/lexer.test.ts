@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { ExpressionError, tokenize } from "./lexer";
+
+function tokenValues(source: string) {
+  return tokenize(source).map((token) => [token.type, token.value]);
+}
+
+describe("tokenize", () => {
+  it("should split an expression into tokens with their offsets", () => {
+    expect(tokenize("a.b + 12")).toEqual([
+      { type: "identifier", value: "a", start: 0, end: 1 },
+      { type: "punctuation", value: ".", start: 1, end: 2 },
+      { type: "identifier", value: "b", start: 2, end: 3 },
+      { type: "operator", value: "+", start: 4, end: 5 },
+      { type: "number", value: "12", start: 6, end: 8 },
+    ]);
+  });
+
+  it("should read the longest operator", () => {
+    expect(tokenValues("a === b !== c <= d ?? e")).toEqual([
+      ["identifier", "a"],
+      ["operator", "==="],
+      ["identifier", "b"],
+      ["operator", "!=="],
+      ["identifier", "c"],
+      ["operator", "<="],
+      ["identifier", "d"],
+      ["operator", "??"],
+      ["identifier", "e"],
+    ]);
+  });
+
+  it("should read decimal and exponent numbers", () => {
+    expect(tokenValues("1.5 2e3 4E-2")).toEqual([
+      ["number", "1.5"],
+      ["number", "2e3"],
+      ["number", "4E-2"],
+    ]);
+  });
+
+  it("should unescape strings in either quote", () => {
+    expect(tokenValues(`"a\\"b\\n" 'it\\'s'`)).toEqual([
+      ["string", 'a"b\n'],
+      ["string", "it's"],
+    ]);
+  });
+
+  it("should allow hyphens and leading digits in property names", () => {
+    expect(tokenValues("nodes.node-1712345.output")).toEqual([
+      ["identifier", "nodes"],
+      ["punctuation", "."],
+      ["identifier", "node-1712345"],
+      ["punctuation", "."],
+      ["identifier", "output"],
+    ]);
+    // Outside property names, "-" is subtraction
+    expect(tokenValues("a-b")).toEqual([
+      ["identifier", "a"],
+      ["operator", "-"],
+      ["identifier", "b"],
+    ]);
+  });
+
+  it("should read optional chaining as a dot", () => {
+    expect(tokenValues("a?.b")).toEqual([
+      ["identifier", "a"],
+      ["punctuation", "."],
+      ["identifier", "b"],
+    ]);
+    // "?.5" is a conditional with a number
+    expect(tokenValues("a?.5:1")[1]).toEqual(["operator", "?"]);
+  });
+
+  it("should report unexpected characters at their position", () => {
+    expect(() => tokenize("a # b")).toThrow(
+      expect.objectContaining({
+        message: 'Unexpected character "#"',
+        start: 2,
+        end: 3,
+      }),
+    );
+  });
+
+  it("should report unterminated strings from the quote to the end", () => {
+    try {
+      tokenize("a + 'abc");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect(error).toMatchObject({
+        message: "Unterminated string",
+        start: 4,
+        end: 8,
+        code: "SYNTAX_ERROR",
+      });
+    }
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Expression Lexer
+ * Splits the text between {{ and }} into tokens
+ */
+
+export type TokenType =
+  | "number"
+  | "string"
+  | "identifier"
+  | "operator"
+  | "punctuation";
+
+export interface Token {
+  type: TokenType;
+  /** Token text; for strings, the unescaped contents */
+  value: string;
+  /** Offset of the first character in the source */
+  start: number;
+  /** Offset after the last character in the source */
+  end: number;
+}
+
+export type ExpressionErrorCode =
+  | "SYNTAX_ERROR"
+  | "UNKNOWN_SOURCE"
+  | "UNKNOWN_FUNCTION"
+  | "ARGUMENT_COUNT"
+  | "INVALID_OPERAND";
+
+/**
+ * Syntax or evaluation error, with the offending range of the source
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number,
+    public readonly code: ExpressionErrorCode = "SYNTAX_ERROR",
+  ) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+/** Longest first, so "==" wins over "=" */
+const OPERATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "|",
+  "?",
+  ":",
+];
+
+const PUNCTUATION = new Set([".", ",", "(", ")", "[", "]"]);
+
+const NUMBER = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+/**
+ * Property names after a dot may contain hyphens and start with a digit,
+ * as node IDs do ("nodes.node-1712345.output")
+ */
+const PROPERTY = /[\w$]+(?:-[\w$]+)*/y;
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+};
+
+/**
+ * Read the token starting at a position (which must not be whitespace).
+ * Returns null at the end of the source.
+ *
+ * @param previous - The token before, which decides whether a property
+ *                   name (after ".") may contain hyphens
+ */
+export function readToken(
+  source: string,
+  position: number,
+  previous?: Token,
+): Token | null {
+  if (position >= source.length) return null;
+  const char = source[position]!;
+
+  if (char === '"' || char === "'") {
+    return readString(source, position);
+  }
+
+  const afterDot = previous?.type === "punctuation" && previous.value === ".";
+  const word = matchAt(afterDot ? PROPERTY : IDENTIFIER, source, position);
+  if (word) {
+    return {
+      type: "identifier",
+      value: word,
+      start: position,
+      end: position + word.length,
+    };
+  }
+
+  const number = matchAt(NUMBER, source, position);
+  if (number) {
+    return {
+      type: "number",
+      value: number,
+      start: position,
+      end: position + number.length,
+    };
+  }
+
+  // Optional chaining reads like a dot: member access is null-safe anyway
+  if (
+    source.startsWith("?.", position) &&
+    !/\d/.test(source[position + 2] ?? "")
+  ) {
+    return {
+      type: "punctuation",
+      value: ".",
+      start: position,
+      end: position + 2,
+    };
+  }
+
+  if (PUNCTUATION.has(char)) {
+    return {
+      type: "punctuation",
+      value: char,
+      start: position,
+      end: position + 1,
+    };
+  }
+
+  const operator = OPERATORS.find((op) => source.startsWith(op, position));
+  if (operator) {
+    return {
+      type: "operator",
+      value: operator,
+      start: position,
+      end: position + operator.length,
+    };
+  }
+
+  throw new ExpressionError(
+    `Unexpected character "${char}"`,
+    position,
+    position + 1,
+  );
+}
+
+/**
+ * Split an expression into tokens, skipping whitespace
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    if (/\s/.test(source[position]!)) {
+      position++;
+      continue;
+    }
+    const token = readToken(source, position, tokens[tokens.length - 1]);
+    if (!token) break;
+    tokens.push(token);
+    position = token.end;
+  }
+
+  return tokens;
+}
+
+function matchAt(
+  pattern: RegExp,
+  source: string,
+  position: number,
+): string | undefined {
+  pattern.lastIndex = position;
+  return pattern.exec(source)?.[0];
+}
+
+/**
+ * Read a single- or double-quoted string with backslash escapes
+ */
+function readString(source: string, start: number): Token {
+  const quote = source[start];
+  let value = "";
+  let position = start + 1;
+
+  while (position < source.length) {
+    const char = source[position]!;
+    if (char === quote) {
+      return { type: "string", value, start, end: position + 1 };
+    }
+    if (char === "\\" && position + 1 < source.length) {
+      const next = source[position + 1]!;
+      value += ESCAPES[next] ?? next;
+      position += 2;
+      continue;
+    }
+    value += char;
+    position++;
+  }
+
+  throw new ExpressionError("Unterminated string", start, source.length);
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { type ExpressionNode, parseExpression } from "./parser";
+
+/**
+ * Parenthesized form of a parsed expression, to check its structure
+ */
+function show(node: ExpressionNode): string {
+  switch (node.type) {
+    case "literal":
+      return JSON.stringify(node.value);
+    case "identifier":
+      return node.name;
+    case "array":
+      return `[${node.elements.map(show).join(", ")}]`;
+    case "member":
+      return `${show(node.object)}.${node.property}`;
+    case "index":
+      return `${show(node.object)}[${show(node.index)}]`;
+    case "call":
+      return `${node.name}(${node.args.map(show).join(", ")})`;
+    case "unary":
+      return `(${node.operator}${show(node.argument)})`;
+    case "binary":
+      return `(${show(node.left)} ${node.operator} ${show(node.right)})`;
+    case "conditional":
+      return `(${show(node.test)} ? ${show(node.consequent)} : ${show(node.alternate)})`;
+  }
+}
+
+function parse(source: string): string {
+  return show(parseExpression(source));
+}
+
+function parseError(source: string) {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected "${source}" to fail`);
+}
+
+describe("parseExpression", () => {
+  describe("precedence", () => {
+    it("should bind multiplication tighter than addition", () => {
+      expect(parse("1 + 2 * 3")).toBe("(1 + (2 * 3))");
+      expect(parse("1 * 2 + 3 % 4")).toBe("((1 * 2) + (3 % 4))");
+    });
+
+    it("should associate operators of the same level to the left", () => {
+      expect(parse("1 - 2 - 3")).toBe("((1 - 2) - 3)");
+      expect(parse("8 / 4 / 2")).toBe("((8 / 4) / 2)");
+    });
+
+    it("should order comparison, equality, and, or and nullish", () => {
+      expect(parse("a ?? b || c && d == e < f + g")).toBe(
+        "(a ?? (b || (c && (d == (e < (f + g))))))",
+      );
+    });
+
+    it("should bind unary operators tightest", () => {
+      expect(parse("-a * b")).toBe("((-a) * b)");
+      expect(parse("!a && b")).toBe("((!a) && b)");
+      expect(parse("!!a")).toBe("(!(!a))");
+    });
+
+    it("should bind member access tighter than unary operators", () => {
+      expect(parse("-a.b[0]")).toBe("(-a.b[0])");
+    });
+
+    it("should respect parentheses", () => {
+      expect(parse("(1 + 2) * 3")).toBe("((1 + 2) * 3)");
+    });
+
+    it("should parse conditionals below the binary operators", () => {
+      expect(parse("a > 1 ? b + 1 : c")).toBe("((a > 1) ? (b + 1) : c)");
+      expect(parse("a ? b : c ? d : e")).toBe("(a ? b : (c ? d : e))");
+    });
+
+    it("should apply pipes to the whole expression before them", () => {
+      expect(parse("a + b | round")).toBe("round((a + b))");
+      expect(parse("a | round(2) | string")).toBe("string(round(a, 2))");
+    });
+
+    it("should let conditional branches take pipes", () => {
+      expect(parse("a ? b | upper : c | lower")).toBe(
+        "(a ? upper(b) : lower(c))",
+      );
+      expect(parse("(a ? b : c) | upper")).toBe("upper((a ? b : c))");
+    });
+  });
+
+  it("should parse literals", () => {
+    expect(parse("[1, 'a', true, false, null]")).toBe(
+      '[1, "a", true, false, null]',
+    );
+    expect(parse("[]")).toBe("[]");
+  });
+
+  it("should parse calls and index access", () => {
+    expect(parse("round(vars.price, 2)")).toBe("round(vars.price, 2)");
+    expect(parse("now()")).toBe("now()");
+    expect(parse("nodes['my node'].output[vars.i]")).toBe(
+      'nodes["my node"].output[vars.i]',
+    );
+  });
+
+  it("should record the range of each node", () => {
+    const node = parseExpression("vars.a + round(2)");
+    expect(node).toMatchObject({
+      type: "binary",
+      start: 0,
+      end: 17,
+      left: { type: "member", start: 0, end: 6 },
+      right: { type: "call", start: 9, end: 17 },
+    });
+  });
+
+  it("should mark piped calls", () => {
+    expect(parseExpression("a | upper")).toMatchObject({
+      type: "call",
+      pipe: true,
+      start: 0,
+      end: 9,
+    });
+    expect(parseExpression("upper(a)")).toMatchObject({ pipe: false });
+  });
+
+  describe("errors", () => {
+    it("should reject empty expressions", () => {
+      expect(parseError("  ")).toMatchObject({
+        message: "Empty expression",
+        start: 0,
+        end: 2,
+      });
+    });
+
+    it("should point at unexpected tokens", () => {
+      expect(parseError("a b")).toMatchObject({
+        message: 'Unexpected "b"',
+        start: 2,
+        end: 3,
+      });
+      expect(parseError("1 + * 2")).toMatchObject({
+        message: 'Unexpected "*"',
+        start: 4,
+        end: 5,
+      });
+    });
+
+    it("should point at the end of incomplete expressions", () => {
+      expect(parseError("vars.a +")).toMatchObject({
+        message: "Unexpected end of expression",
+        start: 8,
+        end: 8,
+      });
+      expect(parseError("round(1, 2")).toMatchObject({
+        message: 'Expected ")"',
+        start: 10,
+        end: 10,
+      });
+    });
+
+    it("should describe what was expected", () => {
+      expect(parseError("vars.")).toMatchObject({
+        message: "Expected property name after .",
+      });
+      expect(parseError("a | 1")).toMatchObject({
+        message: 'Expected function name after | but found "1"',
+        start: 4,
+        end: 5,
+      });
+      expect(parseError("a ? b")).toMatchObject({
+        message: 'Expected ":"',
+        start: 5,
+      });
+      expect(parseError("a[1")).toMatchObject({ message: 'Expected "]"' });
+    });
+
+    it("should report syntax errors with their code", () => {
+      expect(parseError("(a")).toMatchObject({
+        name: "ExpressionError",
+        code: "SYNTAX_ERROR",
+      });
+    });
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Expression Parser
+ *
+ * Grammar, lowest precedence first:
+ *   pipe        := conditional ( "|" name ( "(" args ")" )? )*
+ *   conditional := nullish ( "?" pipe ":" pipe )?
+ *   nullish     := or ( "??" or )*
+ *   or          := and ( "||" and )*
+ *   and         := equality ( "&&" equality )*
+ *   equality    := comparison ( ( "==" | "!=" | "===" | "!==" ) comparison )*
+ *   comparison  := additive ( ( "<" | "<=" | ">" | ">=" ) additive )*
+ *   additive    := term ( ( "+" | "-" ) term )*
+ *   term        := unary ( ( "*" | "/" | "%" ) unary )*
+ *   unary       := ( "!" | "-" | "+" ) unary | postfix
+ *   postfix     := primary ( "." name | "[" pipe "]" )*
+ *   primary     := number | string | true | false | null | name
+ *                | name "(" args ")" | "[" args "]" | "(" pipe ")"
+ *
+ * `value | fn(a)` is the call `fn(value, a)`.
+ */
+
+import { ExpressionError, type Token, tokenize } from "./lexer";
+
+interface BaseNode {
+  /** Offset of the node in the expression source */
+  start: number;
+  end: number;
+}
+
+export type ExpressionNode =
+  | (BaseNode & {
+      type: "literal";
+      value: string | number | boolean | null;
+    })
+  | (BaseNode & { type: "array"; elements: ExpressionNode[] })
+  | (BaseNode & { type: "identifier"; name: string })
+  | (BaseNode & { type: "member"; object: ExpressionNode; property: string })
+  | (BaseNode & {
+      type: "index";
+      object: ExpressionNode;
+      index: ExpressionNode;
+    })
+  | (BaseNode & {
+      type: "call";
+      name: string;
+      args: ExpressionNode[];
+      /** Written as a pipe, with the piped value as first argument */
+      pipe: boolean;
+    })
+  | (BaseNode & {
+      type: "unary";
+      operator: UnaryOperator;
+      argument: ExpressionNode;
+    })
+  | (BaseNode & {
+      type: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    })
+  | (BaseNode & {
+      type: "conditional";
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    });
+
+export type UnaryOperator = "!" | "-" | "+";
+
+export type BinaryOperator =
+  | "??"
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "==="
+  | "!=="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+/** Binary operator levels, lowest precedence first */
+const BINARY_LEVELS: BinaryOperator[][] = [
+  ["??"],
+  ["||"],
+  ["&&"],
+  ["==", "!=", "===", "!=="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+/** Parsed expressions by source, as the same strings are resolved per item */
+const cache = new Map<string, ExpressionNode>();
+const MAX_CACHE_SIZE = 500;
+
+/**
+ * Parse an expression (the text between {{ and }})
+ *
+ * @throws ExpressionError on syntax errors
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  const node = new Parser(source).parse();
+  if (cache.size >= MAX_CACHE_SIZE) cache.clear();
+  cache.set(source, node);
+  return node;
+}
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("Empty expression", 0, this.source.length);
+    }
+    const node = this.parsePipe();
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(
+        `Unexpected "${this.text(extra)}"`,
+        extra.start,
+        extra.end,
+      );
+    }
+    return node;
+  }
+
+  private parsePipe(): ExpressionNode {
+    let node = this.parseConditional();
+
+    while (this.matchOperator("|")) {
+      const name = this.expectIdentifier("function name after |");
+      const args = this.matchPunctuation("(")
+        ? this.parseArguments(")")
+        : { nodes: [], end: name.end };
+      node = {
+        type: "call",
+        name: name.value,
+        args: [node, ...args.nodes],
+        pipe: true,
+        start: node.start,
+        end: args.end,
+      };
+    }
+
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.matchOperator("?")) return test;
+
+    const consequent = this.parsePipe();
+    this.expectOperator(":");
+    const alternate = this.parsePipe();
+    return {
+      type: "conditional",
+      test,
+      consequent,
+      alternate,
+      start: test.start,
+      end: alternate.end,
+    };
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    const operators = BINARY_LEVELS[level];
+    if (!operators) return this.parseUnary();
+
+    let node = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = operators.find(
+        (op) => token?.type === "operator" && token.value === op,
+      );
+      if (!operator) return node;
+
+      this.position++;
+      const right = this.parseBinary(level + 1);
+      node = {
+        type: "binary",
+        operator,
+        left: node,
+        right,
+        start: node.start,
+        end: right.end,
+      };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      token?.type === "operator" &&
+      (token.value === "!" || token.value === "-" || token.value === "+")
+    ) {
+      this.position++;
+      const argument = this.parseUnary();
+      return {
+        type: "unary",
+        operator: token.value,
+        argument,
+        start: token.start,
+        end: argument.end,
+      };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(object: ExpressionNode): ExpressionNode {
+    let node = object;
+
+    for (;;) {
+      if (this.matchPunctuation(".")) {
+        const property = this.expectIdentifier("property name after .");
+        node = {
+          type: "member",
+          object: node,
+          property: property.value,
+          start: node.start,
+          end: property.end,
+        };
+      } else if (this.matchPunctuation("[")) {
+        const index = this.parsePipe();
+        const close = this.expectPunctuation("]");
+        node = {
+          type: "index",
+          object: node,
+          index,
+          start: node.start,
+          end: close.end,
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    if (!token) {
+      throw new ExpressionError(
+        "Unexpected end of expression",
+        this.source.length,
+        this.source.length,
+      );
+    }
+    const { start, end } = token;
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value), start, end };
+
+      case "string":
+        return { type: "literal", value: token.value, start, end };
+
+      case "identifier": {
+        if (Object.hasOwn(LITERALS, token.value)) {
+          return {
+            type: "literal",
+            value: LITERALS[token.value]!,
+            start,
+            end,
+          };
+        }
+        if (this.matchPunctuation("(")) {
+          const args = this.parseArguments(")");
+          return {
+            type: "call",
+            name: token.value,
+            args: args.nodes,
+            pipe: false,
+            start,
+            end: args.end,
+          };
+        }
+        return { type: "identifier", name: token.value, start, end };
+      }
+
+      case "punctuation":
+        if (token.value === "(") {
+          const node = this.parsePipe();
+          this.expectPunctuation(")");
+          return node;
+        }
+        if (token.value === "[") {
+          const elements = this.parseArguments("]");
+          return {
+            type: "array",
+            elements: elements.nodes,
+            start,
+            end: elements.end,
+          };
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected "${this.text(token)}"`, start, end);
+  }
+
+  /**
+   * Comma-separated expressions up to a closing bracket (already past the
+   * opening one)
+   */
+  private parseArguments(close: ")" | "]"): {
+    nodes: ExpressionNode[];
+    end: number;
+  } {
+    const nodes: ExpressionNode[] = [];
+
+    if (!this.isPunctuation(this.peek(), close)) {
+      do {
+        nodes.push(this.parsePipe());
+      } while (this.matchPunctuation(","));
+    }
+
+    return { nodes, end: this.expectPunctuation(close).end };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private text(token: Token): string {
+    return this.source.slice(token.start, token.end);
+  }
+
+  private isPunctuation(token: Token | undefined, value: string): boolean {
+    return token?.type === "punctuation" && token.value === value;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (!this.isPunctuation(this.peek(), value)) return false;
+    this.position++;
+    return true;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token?.type !== "operator" || token.value !== value) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek();
+    if (!this.isPunctuation(token, value)) this.fail(`"${value}"`);
+    return this.next()!;
+  }
+
+  private expectOperator(value: string): Token {
+    if (!this.matchOperator(value)) this.fail(`"${value}"`);
+    return this.tokens[this.position - 1]!;
+  }
+
+  private expectIdentifier(description: string): Token {
+    const token = this.peek();
+    if (token?.type !== "identifier") this.fail(description);
+    return this.next()!;
+  }
+
+  private fail(expected: string): never {
+    const token = this.peek();
+    if (!token) {
+      throw new ExpressionError(
+        `Expected ${expected}`,
+        this.source.length,
+        this.source.length,
+      );
+    }
+    throw new ExpressionError(
+      `Expected ${expected} but found "${this.text(token)}"`,
+      token.start,
+      token.end,
+    );
+  }
+}
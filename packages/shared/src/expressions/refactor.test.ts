@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  findNodeReferences,
+  isValidNodeId,
+  renameNodeReferences,
+} from "./refactor";
+
+function rename(template: string, renames: Record<string, string>): string {
+  return renameNodeReferences(template, new Map(Object.entries(renames)));
+}
+
+describe("isValidNodeId", () => {
+  it("should accept IDs expressions can read", () => {
+    expect(isValidNodeId("http_1")).toBe(true);
+    expect(isValidNodeId("node-1712345")).toBe(true);
+    expect(isValidNodeId("1st")).toBe(true);
+  });
+
+  it("should reject IDs expressions can't read", () => {
+    expect(isValidNodeId("")).toBe(false);
+    expect(isValidNodeId("my node")).toBe(false);
+    expect(isValidNodeId("a.b")).toBe(false);
+    expect(isValidNodeId("-a")).toBe(false);
+    expect(isValidNodeId("a--b")).toBe(false);
+  });
+});
+
+describe("renameNodeReferences", () => {
+  it("should rename dotted and bracketed references", () => {
+    expect(
+      rename("{{ nodes.http_1.success.data }} {{ nodes['http_1'].error }}", {
+        http_1: "fetch",
+      }),
+    ).toBe("{{ nodes.fetch.success.data }} {{ nodes['fetch'].error }}");
+  });
+
+  it("should keep other nodes, sources and plain text", () => {
+    expect(
+      rename("http_1: {{ nodes.http_10.x + vars.http_1 + nodes.other }}", {
+        http_1: "fetch",
+      }),
+    ).toBe("http_1: {{ nodes.http_10.x + vars.http_1 + nodes.other }}");
+  });
+
+  it("should rename repeated references", () => {
+    expect(
+      rename("{{ nodes.a.x + nodes.a.y }} and {{ nodes.a }}", { a: "long_id" }),
+    ).toBe("{{ nodes.long_id.x + nodes.long_id.y }} and {{ nodes.long_id }}");
+  });
+
+  it("should rename nested references", () => {
+    expect(
+      rename("{{ nodes.a.items[nodes.b.idx] }}", { a: "A1", b: "B2" }),
+    ).toBe("{{ nodes.A1.items[nodes.B2.idx] }}");
+    expect(
+      rename("{{ nodes.a.items[nodes.a.idx].name | upper }}", { a: "x" }),
+    ).toBe("{{ nodes.x.items[nodes.x.idx].name | upper }}");
+  });
+
+  it("should rename references in pipes and function arguments", () => {
+    expect(
+      rename("{{ nodes.b.v | default(nodes.a.v) }}", { a: "A", b: "B" }),
+    ).toBe("{{ nodes.B.v | default(nodes.A.v) }}");
+  });
+
+  it("should swap IDs", () => {
+    expect(rename("{{ nodes.a.v + nodes.b.v }}", { a: "b", b: "a" })).toBe(
+      "{{ nodes.b.v + nodes.a.v }}",
+    );
+  });
+
+  it("should rename hyphenated IDs", () => {
+    expect(
+      rename("{{ nodes.node-1.output }}", { "node-1": "node-1-copy" }),
+    ).toBe("{{ nodes.node-1-copy.output }}");
+  });
+
+  it("should leave expressions that don't parse as they are", () => {
+    const template = "{{ nodes.a.x + }} {{ nodes.a.y }}";
+    expect(rename(template, { a: "b" })).toBe(
+      "{{ nodes.a.x + }} {{ nodes.b.y }}",
+    );
+  });
+});
+
+describe("findNodeReferences", () => {
+  it("should find the expressions reading a matching node", () => {
+    const template =
+      "{{ nodes.a.x }} {{ vars.a }} {{ nodes.c.items[nodes.a.i] }}";
+
+    expect(
+      findNodeReferences(template, (id) => id === "a").map((e) => e.source),
+    ).toEqual(["nodes.a.x", "nodes.c.items[nodes.a.i]"]);
+  });
+
+  it("should skip expressions that don't parse", () => {
+    expect(findNodeReferences("{{ nodes.a. }}", () => true)).toEqual([]);
+  });
+});
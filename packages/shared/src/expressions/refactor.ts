@@ -0,0 +1,88 @@
+/**
+ * Refactoring of templates: finding and rewriting the node IDs their
+ * expressions read, for when nodes are renamed, deleted or copied
+ */
+
+import { collectReferences } from "./analysis";
+import { parseExpression } from "./parser";
+import { findExpressions, type TemplateExpression } from "./template";
+
+/**
+ * Node IDs are read as property names after "nodes.", which may contain
+ * hyphens and start with a digit
+ */
+const NODE_ID = /^[\w$]+(?:-[\w$]+)*$/;
+
+/**
+ * Check if a node ID can be read by expressions ({{ nodes.<id> }})
+ */
+export function isValidNodeId(id: string): boolean {
+  return NODE_ID.test(id);
+}
+
+/**
+ * Find the expressions of a template that read a matching node.
+ * Expressions that don't parse are skipped.
+ */
+export function findNodeReferences(
+  template: string,
+  matches: (nodeId: string) => boolean,
+): TemplateExpression[] {
+  return findExpressions(template).filter(
+    (expression) => findNodeKeys(expression.source, matches).length > 0,
+  );
+}
+
+/**
+ * Rewrite the node IDs the expressions of a template read, e.g.
+ * {{ nodes.http_1.success }} to {{ nodes.http_2.success }}.
+ * Expressions that don't parse are left as they are.
+ */
+export function renameNodeReferences(
+  template: string,
+  renames: ReadonlyMap<string, string>,
+): string {
+  const edits = findExpressions(template).flatMap((expression) =>
+    findNodeKeys(expression.source, (id) => renames.has(id)).map((key) => ({
+      start: expression.sourceStart + key.start,
+      end: expression.sourceStart + key.start + key.id.length,
+      text: renames.get(key.id)!,
+    })),
+  );
+
+  // Apply the edits from the end, so the offsets of earlier ones still hold
+  let result = template;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Offsets of the node IDs an expression reads (the "http_1" of
+ * nodes.http_1.success or nodes['http_1']), in source order. References
+ * come out of the expression tree in evaluation order, which differs for
+ * nested references like nodes.a.items[nodes.b.index].
+ */
+function findNodeKeys(
+  source: string,
+  matches: (id: string) => boolean,
+): Array<{ id: string; start: number }> {
+  let references: ReturnType<typeof collectReferences>;
+  try {
+    references = collectReferences(parseExpression(source));
+  } catch {
+    return [];
+  }
+
+  return references
+    .flatMap((reference) => {
+      const [id] = reference.path;
+      if (reference.source !== "nodes" || id === undefined || !matches(id)) {
+        return [];
+      }
+      const start = source.indexOf(id, reference.start + "nodes".length);
+      return start === -1 ? [] : [{ id, start }];
+    })
+    .sort((a, b) => a.start - b.start);
+}
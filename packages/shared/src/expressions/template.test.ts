@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression } from "./evaluator";
+import {
+  containsExpressions,
+  findExpressions,
+  getSingleExpression,
+  renderTemplate,
+} from "./template";
+
+const vars = {
+  name: "Ada",
+  count: 3,
+  list: [1, 2],
+  user: { id: 7 },
+  missing: null,
+};
+
+function render(template: string): unknown {
+  return renderTemplate(template, (expression) =>
+    evaluateExpression(expression.source, { vars }),
+  );
+}
+
+describe("findExpressions", () => {
+  it("should find each expression with its offsets", () => {
+    expect(findExpressions("Hi {{ vars.name }}, {{vars.count}}!")).toEqual([
+      { source: "vars.name", start: 3, end: 18, sourceStart: 6 },
+      { source: "vars.count", start: 20, end: 34, sourceStart: 22 },
+    ]);
+  });
+
+  it("should not close an expression at braces inside quotes", () => {
+    expect(findExpressions("{{ 'a}}b' + \"}}\" }} tail")).toEqual([
+      { source: "'a}}b' + \"}}\"", start: 0, end: 19, sourceStart: 3 },
+    ]);
+  });
+
+  it("should close at the first braces after an unterminated quote", () => {
+    expect(findExpressions("{{ 'a }} b")).toMatchObject([
+      { source: "'a", end: 8 },
+    ]);
+  });
+
+  it("should skip empty and unclosed braces", () => {
+    expect(findExpressions("{{}} {{  }} {{ vars.a")).toEqual([]);
+    expect(containsExpressions("plain text")).toBe(false);
+    expect(containsExpressions("{{ vars.a }}")).toBe(true);
+  });
+});
+
+describe("getSingleExpression", () => {
+  it("should find a template that is one expression", () => {
+    expect(getSingleExpression("  {{ vars.list }}\n")).toMatchObject({
+      source: "vars.list",
+    });
+  });
+
+  it("should ignore templates with text or several expressions", () => {
+    expect(getSingleExpression("n: {{ vars.count }}")).toBeUndefined();
+    expect(getSingleExpression("{{ vars.a }}{{ vars.b }}")).toBeUndefined();
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should keep the type of a single expression", () => {
+    expect(render("{{ vars.count }}")).toBe(3);
+    expect(render(" {{ vars.list }} ")).toEqual([1, 2]);
+    expect(render("{{ vars.missing }}")).toBeNull();
+  });
+
+  it("should insert values into text", () => {
+    expect(
+      render("Hi {{ vars.name | upper }}, you have {{ vars.count }}"),
+    ).toBe("Hi ADA, you have 3");
+  });
+
+  it("should insert nothing for missing values", () => {
+    expect(render("[{{ vars.missing }}{{ vars.other }}]")).toBe("[]");
+  });
+
+  it("should insert objects and lists as JSON", () => {
+    expect(render("user={{ vars.user }} list={{ vars.list }}")).toBe(
+      'user={"id":7} list=[1,2]',
+    );
+  });
+
+  it("should return text without expressions unchanged", () => {
+    expect(render("no {{}} expressions")).toBe("no {{}} expressions");
+  });
+
+  it("should pass errors of the resolver through", () => {
+    expect(() => render("a {{ vars.name * 2 }}")).toThrow(
+      '"*": Expected a number but got string "Ada"',
+    );
+  });
+});
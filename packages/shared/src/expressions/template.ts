@@ -0,0 +1,118 @@
+/**
+ * Templates: text with {{ expression }} parts
+ */
+
+import { toText } from "./functions";
+
+/**
+ * A {{ ... }} part of a template
+ */
+export interface TemplateExpression {
+  /** The expression between the braces, trimmed */
+  source: string;
+  /** Offset of "{{" in the template */
+  start: number;
+  /** Offset after "}}" in the template */
+  end: number;
+  /** Offset of the (trimmed) expression in the template */
+  sourceStart: number;
+}
+
+/**
+ * Find the {{ ... }} parts of a template. A "}}" inside a quoted string
+ * doesn't close the expression; empty braces ("{{}}") aren't expressions.
+ */
+export function findExpressions(template: string): TemplateExpression[] {
+  const expressions: TemplateExpression[] = [];
+  let open = template.indexOf("{{");
+
+  while (open !== -1) {
+    const close = findClose(template, open + 2);
+    if (close === -1) break;
+
+    const inner = template.slice(open + 2, close);
+    const source = inner.trim();
+    if (source) {
+      expressions.push({
+        source,
+        start: open,
+        end: close + 2,
+        sourceStart: open + 2 + (inner.length - inner.trimStart().length),
+      });
+    }
+    open = template.indexOf("{{", close + 2);
+  }
+
+  return expressions;
+}
+
+/**
+ * The expression of a template that is a single {{ ... }} (ignoring
+ * surrounding whitespace), whose value keeps its type when resolved
+ */
+export function getSingleExpression(
+  template: string,
+): TemplateExpression | undefined {
+  const expressions = findExpressions(template);
+  const [expression] = expressions;
+  if (
+    expressions.length === 1 &&
+    expression &&
+    !template.slice(0, expression.start).trim() &&
+    !template.slice(expression.end).trim()
+  ) {
+    return expression;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a template. A single expression resolves to its value as is;
+ * otherwise each expression's value is inserted as text (nothing for
+ * null/undefined, JSON for objects and arrays).
+ */
+export function renderTemplate(
+  template: string,
+  resolve: (expression: TemplateExpression) => unknown,
+): unknown {
+  const single = getSingleExpression(template);
+  if (single) return resolve(single);
+
+  let result = "";
+  let position = 0;
+  for (const expression of findExpressions(template)) {
+    result += template.slice(position, expression.start);
+    result += toText(resolve(expression));
+    position = expression.end;
+  }
+  return result + template.slice(position);
+}
+
+/**
+ * Check if a template contains expressions
+ */
+export function containsExpressions(template: string): boolean {
+  return findExpressions(template).length > 0;
+}
+
+/**
+ * Offset of the "}}" closing an expression, skipping quoted strings.
+ * An unterminated quote falls back to the first "}}".
+ */
+function findClose(template: string, from: number): number {
+  let quote: string | undefined;
+
+  for (let i = from; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "}" && template[i + 1] === "}") {
+      return i;
+    }
+  }
+
+  return quote ? template.indexOf("}}", from) : -1;
+}
@@ -14,10 +14,39 @@ export interface RoutineVariable {
 export interface RoutineInput {
   routineId: string;
   userId: string;
+  routineVersion?: number; // Version of the routine graph (see routine_versions)
   nodes: Node[];
   connections: Connection[];
   variables?: RoutineVariable[];
   triggerData?: unknown;
+  rerun?: RerunFrom; // Re-run only part of the routine (see RerunFrom)
+  testRun?: boolean; // Test runs from the editor emit nodes' pinned data
+  parentExecution?: ParentExecution; // Set when run by an execute-routine node
+}
+
+/**
+ * The execution whose execute-routine node started a routine
+ */
+export interface ParentExecution {
+  workflowId: string;
+  nodeId: string;
+  callStack: string[]; // Routine IDs of the calling executions, outermost first
+}
+
+/**
+ * Result of the routineExecutor workflow
+ */
+export interface RoutineResult {
+  outputs: Record<string, unknown>; // Final node outputs by node ID
+}
+
+/**
+ * Re-run a routine from a node: the node and everything downstream of it
+ * run again, other nodes reuse the parent execution's outputs
+ */
+export interface RerunFrom {
+  parentWorkflowId: string; // Execution whose outputs are reused
+  startNodeId: string;
 }
 
 export interface Node {
@@ -33,6 +62,25 @@ export interface Node {
    * Mapping of Credential Request Alias (or ID) -> User Credential ID
    */
   credentialMappings?: Record<string, string>;
+  /**
+   * What happens when the node fails: stop the routine (default), continue
+   * with the error as output, or route it to the "error" handle
+   */
+  onError?: "stop" | "continue" | "error-handle";
+  /** Retries for failed plugin runs (defaults to 3 attempts) */
+  retry?: NodeRetryPolicy;
+  /** Time limit for each plugin attempt, in milliseconds (default 5 minutes) */
+  timeout?: number;
+  /** Sample output (port -> data) emitted instead of running in test runs */
+  pinnedData?: Record<string, unknown>;
+}
+
+export interface NodeRetryPolicy {
+  maxAttempts?: number; // Total attempts, including the first
+  initialInterval?: number; // Delay before the first retry (ms)
+  backoffCoefficient?: number; // Multiplier applied to the delay per retry
+  maximumInterval?: number; // Upper bound for the delay (ms)
+  retryableErrorCodes?: string[]; // Only retry these error codes (all when empty)
 }
 
 export interface Connection {
@@ -52,6 +100,7 @@ export interface ExecutePluginInput {
   };
   nodeState?: Record<string, unknown>; // Persistent state for stateful nodes (e.g., loops)
   credentialMappings?: Record<string, string>; // Pass mappings to activity
+  retryableErrorCodes?: string[]; // Errors with other codes fail without retrying
 }
 
 export interface PluginContext {
@@ -60,6 +109,8 @@ export interface PluginContext {
   executionId: string;
   credentials?: Record<string, any>;
   triggerData?: unknown;
+  variables?: Record<string, unknown>; // Routine variables by name
+  itemConfigs?: Record<string, unknown>[]; // Batch runs: config resolved per input item
 }
 
 export interface CreateRoutineExecutionInput {
@@ -67,14 +118,17 @@ export interface CreateRoutineExecutionInput {
   userId: string;
   workflowId: string;
   runId: string;
-  triggerType: "manual" | "scheduled" | "webhook" | "event";
+  triggerType: "manual" | "scheduled" | "webhook" | "event" | "routine";
   triggerData?: unknown;
+  routineVersion?: number;
+  rerun?: RerunFrom;
+  parentExecution?: Omit<ParentExecution, "callStack">;
 }
 
 export interface UpdateRoutineStatusInput {
   workflowId: string; // Temporal workflow ID for tracking
   routineId: string;
-  status: "running" | "completed" | "failed";
+  status: "running" | "completed" | "failed" | "cancelled";
   startedAt?: number;
   completedAt?: number;
   error?: {
@@ -88,12 +142,92 @@ export interface StoreNodeResultInput {
   workflowId: string; // Temporal workflow ID for tracking
   routineId: string;
   nodeId: string;
-  status: "running" | "completed" | "failed";
+  // "cancelled" for nodes interrupted by cancellation, "skipped" for nodes
+  // that never ran
+  status: "running" | "completed" | "failed" | "cancelled" | "skipped";
   output?: unknown;
+  outputs?: unknown[]; // Output items by port (PortData[]), reused by re-runs
   error?: {
     message: string;
     stack?: string;
   };
   startedAt?: number;
   completedAt?: number;
+  waitingUntil?: number; // Set on running nodes that wait (e.g. wait nodes)
+}
+
+export interface GetExecutionOutputsInput {
+  workflowId: string; // Temporal workflow ID of the earlier execution
+}
+
+export interface GetCalledRoutineInput {
+  routineId: string; // From the execute-routine node's config (untrusted)
+  userId: string; // Owner of the calling routine
+}
+
+export interface EmitEventInput {
+  workflowId: string; // Temporal workflow ID of the emitting execution
+  nodeId: string;
+  name: string;
+  payload?: unknown;
 }
+
+/**
+ * Form field filled in when responding to an approval
+ */
+export interface ApprovalField {
+  name: string; // Key in the response values
+  label?: string;
+  type: "text" | "number" | "boolean";
+  required?: boolean; // Required to approve
+}
+
+export interface CreateApprovalInput {
+  workflowId: string; // Temporal workflow ID of the waiting execution
+  nodeId: string;
+  title: string;
+  instructions?: string;
+  data?: unknown; // Context data to review
+  fields?: ApprovalField[];
+  expiresAt: number; // When the node stops waiting and takes "timeout"
+}
+
+export interface CloseApprovalInput {
+  workflowId: string;
+  nodeId: string;
+  status: "timeout" | "cancelled"; // Closed without anyone responding
+}
+
+/**
+ * Payload of routineExecutor's "approval" signal, sent when someone
+ * approves or rejects a pending approval
+ */
+export interface ApprovalResponse {
+  nodeId: string;
+  decision: "approved" | "rejected";
+  values?: Record<string, unknown>; // Submitted form field values
+  comment?: string;
+  respondedBy: {
+    userId: string;
+    name: string;
+  };
+  respondedAt: number;
+}
+
+/**
+ * HTTP response produced by a respond-to-webhook node
+ */
+export interface WebhookResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Result of routineExecutor's "webhookResponse" update, used by webhooks
+ * that wait for the routine to respond
+ */
+export type WebhookResponseResult =
+  | { type: "response"; response: WebhookResponse }
+  | { type: "timeout" }
+  | { type: "no-response" };
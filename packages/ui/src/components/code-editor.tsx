@@ -0,0 +1,212 @@
+"use client";
+
+/**
+ * Code editor (CodeMirror 6) for user-written code, e.g. the code node.
+ *
+ * Shows line numbers, indents with Tab and can highlight the line an error
+ * was reported at.
+ */
+
+import { useEffect, useRef } from "react";
+import { EditorState, StateEffect, StateField } from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderExt,
+} from "@codemirror/view";
+import { cn } from "@kianax/ui/lib/utils";
+
+export interface CodeEditorProps {
+  /** Current code */
+  value: string;
+  /** Called when the code changes */
+  onChange: (value: string) => void;
+  /** 1-based line to highlight as erroneous */
+  errorLine?: number;
+  /** Placeholder text when empty */
+  placeholder?: string;
+  /** Whether the editor is read-only */
+  disabled?: boolean;
+  /** Minimum height of the editor, in pixels */
+  minHeight?: number;
+  /** CSS class for the container */
+  className?: string;
+}
+
+const INDENT = "  ";
+
+const errorLineDecoration = Decoration.line({ class: "cm-errorLine" });
+
+const codeEditorTheme = EditorView.theme({
+  "&": {
+    fontSize: "12px",
+    backgroundColor: "transparent",
+  },
+  "&.cm-focused": {
+    outline: "none",
+  },
+  ".cm-content": {
+    fontFamily: "var(--font-mono, ui-monospace, monospace)",
+    caretColor: "var(--foreground)",
+    padding: "8px 0",
+  },
+  ".cm-scroller": {
+    fontFamily: "var(--font-mono, ui-monospace, monospace)",
+    lineHeight: "1.6",
+  },
+  ".cm-cursor": {
+    borderLeftColor: "var(--foreground)",
+  },
+  "&.cm-focused .cm-selectionBackground, .cm-selectionBackground": {
+    backgroundColor: "oklch(from var(--primary) l c h / 0.2)",
+  },
+  ".cm-gutters": {
+    backgroundColor: "transparent",
+    color: "var(--muted-foreground)",
+    border: "none",
+  },
+  ".cm-activeLine, .cm-activeLineGutter": {
+    backgroundColor: "oklch(from var(--muted) l c h / 0.5)",
+  },
+  ".cm-errorLine": {
+    backgroundColor: "oklch(from var(--destructive) l c h / 0.15)",
+  },
+  ".cm-placeholder": {
+    color: "var(--muted-foreground)",
+  },
+});
+
+/** Sets the highlighted error line (undefined to clear it) */
+const setErrorLine = StateEffect.define<number | undefined>();
+
+/**
+ * The highlighted error line, moved along with edits until it's set again.
+ * Lines outside of the document are ignored.
+ */
+const errorLineField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, transaction) {
+    let next = decorations.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (!effect.is(setErrorLine)) continue;
+      const line = effect.value;
+      const { doc } = transaction.state;
+      next =
+        line !== undefined && line >= 1 && line <= doc.lines
+          ? Decoration.set([errorLineDecoration.range(doc.line(line).from)])
+          : Decoration.none;
+    }
+    return next;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+/**
+ * Tab indents instead of moving focus; Shift-Tab keeps the browser default
+ * so keyboard users can leave the editor
+ */
+const indentKeymap = keymap.of([
+  {
+    key: "Tab",
+    run: (view) => {
+      view.dispatch(view.state.replaceSelection(INDENT));
+      return true;
+    },
+  },
+]);
+
+/**
+ * Editor for code, with line numbers and error line highlighting
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  errorLine,
+  placeholder,
+  disabled = false,
+  minHeight = 160,
+  className,
+}: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  const isInternalUpdate = useRef(false);
+  const errorLineRef = useRef(errorLine);
+
+  onChangeRef.current = onChange;
+  errorLineRef.current = errorLine;
+
+  // Initialize editor (the value is synced below, the placeholder is fixed)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: recreated only when disabled/minHeight change
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const state = EditorState.create({
+      doc: value,
+      extensions: [
+        lineNumbers(),
+        highlightActiveLine(),
+        highlightActiveLineGutter(),
+        indentKeymap,
+        codeEditorTheme,
+        EditorView.theme({ ".cm-content": { minHeight: `${minHeight}px` } }),
+        EditorState.tabSize.of(INDENT.length),
+        EditorState.readOnly.of(disabled),
+        ...(placeholder ? [placeholderExt(placeholder)] : []),
+        errorLineField,
+        EditorView.updateListener.of((update) => {
+          if (update.docChanged && !isInternalUpdate.current) {
+            onChangeRef.current(update.state.doc.toString());
+          }
+        }),
+      ],
+    });
+
+    const view = new EditorView({ state, parent: containerRef.current });
+    view.dispatch({ effects: setErrorLine.of(errorLineRef.current) });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [disabled, minHeight]);
+
+  // Sync external value changes to editor
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const currentValue = view.state.doc.toString();
+    if (currentValue !== value) {
+      isInternalUpdate.current = true;
+      view.dispatch({
+        changes: { from: 0, to: currentValue.length, insert: value },
+      });
+      isInternalUpdate.current = false;
+    }
+  }, [value]);
+
+  // Highlight the error line
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    view.dispatch({ effects: setErrorLine.of(errorLine) });
+  }, [errorLine]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "border-input dark:bg-input/30 w-full overflow-hidden rounded-md border shadow-xs focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50",
+        className,
+      )}
+    />
+  );
+}
@@ -6,7 +6,8 @@
  * at any nesting level.
  *
  * The completion source is agnostic to what the items represent - it simply
- * traverses the tree structure provided in the ExpressionContext.
+ * traverses the tree structure provided in the ExpressionContext. Standard
+ * library functions are offered at the root of a path and after a pipe (|).
  */
 
 import type {
@@ -14,6 +15,7 @@ import type {
   CompletionResult,
   Completion,
 } from "@codemirror/autocomplete";
+import { EXPRESSION_FUNCTIONS } from "@kianax/shared/expressions";
 import type { ExpressionContext, CompletionItem } from "./index";
 
 /**
@@ -50,22 +52,38 @@ export function createExpressionCompletionSource(
       return null;
     }
 
-    // We're inside an expression - get the text after {{
-    const expressionText = betweenBraces.trimStart();
-    const expressionStart =
-      line.from +
-      lastOpenBrace +
-      2 +
-      (betweenBraces.length - betweenBraces.trimStart().length);
+    // After a pipe, complete function names: {{ vars.name | up
+    const pipeMatch = betweenBraces.match(/(?:^|[^|])\|\s*([A-Za-z_]\w*)?$/);
+    if (pipeMatch) {
+      const typed = pipeMatch[1] ?? "";
+      return {
+        from: ctx.pos - typed.length,
+        options: getFunctionCompletions(typed),
+        validFor: /^[A-Za-z_]\w*$/,
+      };
+    }
+
+    // No completions inside string literals
+    if (isInsideString(betweenBraces)) {
+      return null;
+    }
+
+    // Complete the reference path ending at the cursor, e.g. the
+    // "nodes.http_1.da" of {{ nodes.http_1.da }} or {{ 1 + nodes.http_1.da }}
+    const expressionText = betweenBraces.match(REFERENCE_AT_END)?.[0] ?? "";
+    const expressionStart = ctx.pos - expressionText.length;
 
     // Parse the expression path
     const path = expressionText.split(".");
 
-    // Get completions by traversing the tree
+    // Get completions by traversing the tree; at the root, functions too
     const completions = getCompletionsForPath(
       expressionContext?.completions ?? [],
       path,
     );
+    if (path.length === 1) {
+      completions.push(...getFunctionCompletions(path[0] ?? ""));
+    }
 
     if (completions.length === 0) {
       return null;
@@ -80,11 +98,48 @@ export function createExpressionCompletionSource(
     return {
       from: replaceFrom,
       options: completions,
-      validFor: /^[a-zA-Z_][a-zA-Z0-9_-]*$/,
+      validFor: /^\$?[a-zA-Z_][a-zA-Z0-9_-]*$/,
     };
   };
 }
 
+/**
+ * A reference path at the end of the text: a source or function name, then
+ * property names (which may contain hyphens, like node IDs) and indices
+ */
+const REFERENCE_AT_END = /\$?[A-Za-z_][\w$]*(?:\.[\w$-]*|\[\d+\])*$/;
+
+/**
+ * Whether the end of an expression is inside a quoted string
+ */
+function isInsideString(text: string): boolean {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    }
+  }
+  return quote !== undefined;
+}
+
+/**
+ * Standard library functions starting with a prefix
+ */
+function getFunctionCompletions(prefix: string): Completion[] {
+  return Array.from(EXPRESSION_FUNCTIONS.values())
+    .filter((fn) => fn.name.startsWith(prefix))
+    .map((fn) => ({
+      label: fn.name,
+      type: "function",
+      detail: fn.signature,
+      info: fn.description,
+    }));
+}
+
 /**
  * Get completions for a given path by traversing the completion tree.
  *
@@ -8,6 +8,7 @@
  * - Syncs value changes between React state and editor
  * - Applies extensions and configuration
  * - Provides autocomplete for expressions
+ * - Shows inline diagnostics, quick-fixes and hover previews
  */
 
 import { useEffect, useRef, useCallback, useMemo } from "react";
@@ -17,6 +18,10 @@ import { autocompletion } from "@codemirror/autocomplete";
 import { expressionLanguage } from "../../lib/expression-language";
 import { expressionHighlight } from "../../lib/expression-highlight";
 import { expressionDecoration } from "../../lib/expression-decoration";
+import {
+  expressionLint,
+  refreshExpressionDiagnostics,
+} from "../../lib/expression-lint";
 import { getExpressionInputTheme } from "./theme";
 import { createExpressionCompletionSource } from "./completions";
 import type { ExpressionContext } from "./index";
@@ -26,7 +31,7 @@ export interface EditorProps {
   value: string;
   /** Called when value changes */
   onChange: (value: string) => void;
-  /** Expression context for autocomplete suggestions */
+  /** Expression context for autocomplete suggestions, diagnostics and previews */
   expressionContext?: ExpressionContext;
   /** Placeholder text when empty */
   placeholder?: string;
@@ -96,6 +101,12 @@ export function Editor({
     [],
   );
 
+  // Create diagnostics extension, reading validation errors from the context
+  const lintExtension = useMemo(
+    () => expressionLint(() => expressionContextRef.current),
+    [],
+  );
+
   // Create update listener extension
   const updateListener = useCallback(
     () =>
@@ -228,6 +239,9 @@ export function Editor({
       // Autocomplete
       autocompleteExtension,
 
+      // Diagnostics, quick-fixes and hover previews
+      lintExtension,
+
       // Theme
       ...getExpressionInputTheme(multiline),
 
@@ -265,8 +279,9 @@ export function Editor({
       viewRef.current = null;
     };
     // Only recreate on mount/unmount and when multiline/disabled/acceptDrop change
+    // (lintExtension is created once)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [multiline, disabled, acceptDrop]);
+  }, [multiline, disabled, acceptDrop, lintExtension]);
 
   // Sync external value changes to editor
   useEffect(() => {
@@ -287,5 +302,13 @@ export function Editor({
     }
   }, [value]);
 
+  // Recompute diagnostics when the context's validation errors change
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the extension reads the context from a ref
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: refreshExpressionDiagnostics.of(null),
+    });
+  }, [expressionContext?.errors]);
+
   return <div ref={containerRef} className={className} />;
 }
@@ -10,6 +10,7 @@
  * - Syntax highlighting for expressions ({{ vars.*, nodes.*, etc. }})
  * - Autocomplete suggestions when typing {{ (triggered by context)
  * - Live preview of resolved expression values (debounced)
+ * - Inline errors with quick-fixes, and hover previews of values and types
  * - Single-line and multi-line modes
  * - Matches shadcn/ui Input and Textarea styling
  * - Supports placeholder, disabled states
@@ -51,6 +52,7 @@ import {
   resolvePreview,
   containsExpression,
   formatPreviewValue,
+  getPreviewContext,
   PENDING_VALUE,
   type PreviewResult,
 } from "../../lib/expression-preview";
@@ -97,78 +99,26 @@ export interface CompletionItem {
 export interface ExpressionContext {
   /** Root-level completion items */
   completions: CompletionItem[];
+  /**
+   * Validation errors of the expressions of the field's node (e.g. from the
+   * execution engine's getExpressionErrors), shown inline on every matching
+   * expression
+   */
+  errors?: ExpressionContextError[];
+  /** Create a routine variable; enables the "Create variable" quick-fix */
+  onCreateVariable?: (name: string) => void;
 }
 
 /**
- * Internal context for resolving preview values.
- * Extracted automatically from ExpressionContext.
+ * A validation error of an expression
  */
-interface PreviewData {
-  vars: Record<string, unknown>;
-  nodes: Record<string, Record<string, unknown>>;
-  trigger?: unknown;
-  execution?: { id: string; routineId: string; startedAt: number };
-}
-
-/**
- * Extract preview data from the context tree.
- * This derives the preview values from CompletionItem.value fields.
- */
-function extractPreviewData(
-  context: ExpressionContext | undefined,
-): PreviewData {
-  const result: PreviewData = { vars: {}, nodes: {} };
-
-  if (!context?.completions) return result;
-
-  for (const item of context.completions) {
-    if (item.name === "vars" && item.children) {
-      for (const child of item.children) {
-        if (child.value !== undefined) {
-          result.vars[child.name] = child.value;
-        }
-      }
-    } else if (item.name === "nodes" && item.children) {
-      for (const nodeItem of item.children) {
-        if (nodeItem.value !== undefined) {
-          result.nodes[nodeItem.name] = nodeItem.value as Record<
-            string,
-            unknown
-          >;
-        } else if (nodeItem.children) {
-          // Build from nested children if no direct value
-          const nodeOutputs: Record<string, unknown> = {};
-          for (const outputItem of nodeItem.children) {
-            if (outputItem.value !== undefined) {
-              nodeOutputs[outputItem.name] = outputItem.value;
-            }
-          }
-          if (Object.keys(nodeOutputs).length > 0) {
-            result.nodes[nodeItem.name] = nodeOutputs;
-          }
-        }
-      }
-    } else if (item.name === "trigger") {
-      // Handle trigger - use value if present, otherwise build from children
-      if (item.value !== undefined) {
-        result.trigger = item.value;
-      } else if (item.children) {
-        const triggerData: Record<string, unknown> = {};
-        for (const child of item.children) {
-          if (child.value !== undefined) {
-            triggerData[child.name] = child.value;
-          }
-        }
-        if (Object.keys(triggerData).length > 0) {
-          result.trigger = triggerData;
-        }
-      }
-    } else if (item.name === "execution" && item.value !== undefined) {
-      result.execution = item.value as PreviewData["execution"];
-    }
-  }
-
-  return result;
+export interface ExpressionContextError {
+  /** The invalid expression, including its braces ("{{ vars.foo }}") */
+  expression: string;
+  /** Error message */
+  message: string;
+  /** Error type, e.g. "UNDEFINED_VARIABLE" or "NOT_UPSTREAM" */
+  type: string;
 }
 
 export interface ExpressionInputProps {
@@ -314,16 +264,11 @@ export const ExpressionInput = forwardRef<HTMLDivElement, ExpressionInputProps>(
       setIsResolvingPreview(true);
 
       // Extract preview data from context tree
-      const previewData = extractPreviewData(context);
+      const previewContext = getPreviewContext(context);
 
       // Debounce the resolution
       debounceTimerRef.current = setTimeout(() => {
-        const result = resolvePreview(value, {
-          vars: previewData.vars,
-          nodes: previewData.nodes,
-          trigger: previewData.trigger,
-          execution: previewData.execution,
-        });
+        const result = resolvePreview(value, previewContext);
         setPreview(result);
         setIsResolvingPreview(false);
       }, PREVIEW_DEBOUNCE_MS);
@@ -588,6 +533,8 @@ export interface DomainExpressionContext {
   variables?: DomainVariable[];
   upstreamNodes?: DomainNode[];
   hasTrigger?: boolean;
+  /** Whether the node is inside a loop body ($item / $iteration available) */
+  inLoop?: boolean;
   /** Additional root completion sources */
   additionalSources?: CompletionItem[];
   /**
@@ -596,11 +543,20 @@ export interface DomainExpressionContext {
    * When provided, shows real values in expression preview instead of "pending".
    */
   executionResults?: Record<string, unknown>;
+  /**
+   * Pinned sample data, mapping nodeId -> port name -> data.
+   * Takes precedence over executionResults, like it does in test runs.
+   */
+  pinnedData?: Record<string, unknown>;
   /**
    * Trigger data from a test run.
    * When provided, shows real values in trigger expression preview.
    */
   triggerData?: unknown;
+  /** Validation errors of the node's expressions, shown inline */
+  errors?: ExpressionContextError[];
+  /** Create a routine variable; enables the "Create variable" quick-fix */
+  onCreateVariable?: (name: string) => void;
 }
 
 /**
@@ -695,8 +651,9 @@ export function buildExpressionContext(
       detail: "Node outputs",
       info: `Access outputs from ${domain.upstreamNodes.length} upstream node(s)`,
       children: domain.upstreamNodes.map((node) => {
-        // Get execution output for this node if available
-        const nodeExecutionOutput = domain.executionResults?.[node.id];
+        // Get pinned or execution output for this node if available
+        const nodeExecutionOutput =
+          domain.pinnedData?.[node.id] ?? domain.executionResults?.[node.id];
 
         return {
           name: node.id,
@@ -769,10 +726,34 @@ export function buildExpressionContext(
     ],
   });
 
+  // Add loop sources inside a loop body
+  if (domain.inLoop) {
+    completions.push(
+      {
+        name: "$item",
+        type: "obj",
+        detail: "Current loop item",
+        info: "The item (or batch) of the current loop iteration",
+        value: PENDING_VALUE,
+      },
+      {
+        name: "$iteration",
+        type: "num",
+        detail: "Loop iteration",
+        info: "Zero-based number of the current loop iteration",
+        value: PENDING_VALUE,
+      },
+    );
+  }
+
   // Add any additional custom sources
   if (domain.additionalSources) {
     completions.push(...domain.additionalSources);
   }
 
-  return { completions };
+  return {
+    completions,
+    errors: domain.errors,
+    onCreateVariable: domain.onCreateVariable,
+  };
 }
@@ -13,6 +13,7 @@ import {
   type ViewUpdate,
 } from "@codemirror/view";
 import { RangeSetBuilder } from "@codemirror/state";
+import { findExpressions } from "@kianax/shared/expressions";
 
 /**
  * Decoration mark for expression blocks.
@@ -30,15 +31,9 @@ function buildDecorations(view: EditorView): DecorationSet {
   const doc = view.state.doc;
   const text = doc.toString();
 
-  // Match all {{ ... }} patterns (non-greedy)
-  const regex = /\{\{.*?\}\}/g;
-  let match = regex.exec(text);
-
-  while (match !== null) {
-    const from = match.index;
-    const to = from + match[0].length;
-    builder.add(from, to, expressionMark);
-    match = regex.exec(text);
+  // Same {{ ... }} parts the engine resolves ("}}" in strings doesn't close)
+  for (const expression of findExpressions(text)) {
+    builder.add(expression.start, expression.end, expressionMark);
   }
 
   return builder.finish();
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "bun:test";
+import {
+  getExpressionDiagnostics,
+  getExpressionHover,
+} from "./expression-diagnostics";
+import {
+  buildExpressionContext,
+  type DomainExpressionContext,
+} from "../components/expression-input";
+
+function createContext(overrides: Partial<DomainExpressionContext> = {}) {
+  return buildExpressionContext({
+    variables: [
+      { name: "apiUrl", type: "string", value: "https://api.example.com" },
+      { name: "limit", type: "number", value: 10 },
+    ],
+    upstreamNodes: [
+      { id: "http_1", label: "Fetch", outputs: ["success", "error"] },
+    ],
+    hasTrigger: true,
+    onCreateVariable: () => {},
+    ...overrides,
+  });
+}
+
+describe("getExpressionDiagnostics", () => {
+  it("returns nothing for valid expressions without errors", () => {
+    const text = "{{ vars.apiUrl }}/users?limit={{ vars.limit }}";
+    expect(getExpressionDiagnostics(text, createContext())).toEqual([]);
+  });
+
+  it("locates syntax errors while typing", () => {
+    const text = "Total: {{ vars.limit + }}";
+    const [diagnostic] = getExpressionDiagnostics(text, createContext());
+
+    expect(diagnostic?.severity).toBe("error");
+    expect(diagnostic?.from).toBeGreaterThanOrEqual(text.indexOf("vars"));
+    expect(diagnostic?.to).toBeLessThanOrEqual(text.indexOf("}}"));
+  });
+
+  it("warns about unknown sources and suggests the closest one", () => {
+    const text = "{{ nodse.http_1.success }}";
+    const [diagnostic] = getExpressionDiagnostics(text, createContext());
+
+    expect(diagnostic).toMatchObject({
+      from: 3,
+      to: 8,
+      severity: "warning",
+      fixes: [
+        {
+          label: "Did you mean nodes?",
+          change: { from: 3, to: 8, insert: "nodes" },
+        },
+      ],
+    });
+  });
+
+  it("underlines undefined variables with create and rename fixes", () => {
+    const text = "{{ vars.apiUrll }}";
+    const context = createContext({
+      errors: [
+        {
+          expression: text,
+          message: 'Variable "apiUrll" is not defined',
+          type: "UNDEFINED_VARIABLE",
+        },
+      ],
+    });
+
+    const [diagnostic] = getExpressionDiagnostics(text, context);
+
+    expect(diagnostic).toMatchObject({ from: 8, to: 15, severity: "error" });
+    expect(diagnostic?.fixes).toEqual([
+      {
+        label: "Did you mean vars.apiUrl?",
+        change: { from: 8, to: 15, insert: "apiUrl" },
+      },
+      { label: "Create variable vars.apiUrll", createVariable: "apiUrll" },
+    ]);
+  });
+
+  it("only offers to create variables when the context can", () => {
+    const text = "{{ vars.token }}";
+    const context = createContext({
+      onCreateVariable: undefined,
+      errors: [
+        {
+          expression: text,
+          message: 'Variable "token" is not defined',
+          type: "UNDEFINED_VARIABLE",
+        },
+      ],
+    });
+
+    const [diagnostic] = getExpressionDiagnostics(text, context);
+    expect(diagnostic?.fixes).toEqual([]);
+  });
+
+  it("suggests upstream nodes for misspelled IDs and labels", () => {
+    const typo = "{{ nodes.htp_1.success.data }}";
+    const label = "{{ nodes.fetch.success.data }}";
+    const context = createContext({
+      errors: [typo, label].map((expression) => ({
+        expression,
+        message: "Node is not upstream of this node",
+        type: "NOT_UPSTREAM",
+      })),
+    });
+
+    const diagnostics = getExpressionDiagnostics(`${typo} ${label}`, context);
+
+    expect(diagnostics.map((d) => d.fixes)).toEqual([
+      [
+        {
+          label: "Did you mean nodes.http_1?",
+          change: { from: 9, to: 14, insert: "http_1" },
+        },
+      ],
+      [
+        {
+          label: "Did you mean nodes.http_1?",
+          change: { from: 40, to: 45, insert: "http_1" },
+        },
+      ],
+    ]);
+  });
+
+  it("falls back to the whole expression for other errors", () => {
+    const text = "Timeout: {{ vars.apiUrl }}";
+    const context = createContext({
+      errors: [
+        {
+          expression: "{{ vars.apiUrl }}",
+          message:
+            'Field "timeout" expects a number, but the expression gives text',
+          type: "TYPE_MISMATCH",
+        },
+      ],
+    });
+
+    expect(getExpressionDiagnostics(text, context)).toEqual([
+      {
+        from: 12,
+        to: 23,
+        message:
+          'Field "timeout" expects a number, but the expression gives text',
+        severity: "error",
+        fixes: [],
+      },
+    ]);
+  });
+});
+
+describe("getExpressionHover", () => {
+  it("previews the reference under the position", () => {
+    const text = "{{ vars.limit * 2 }}";
+    const hover = getExpressionHover(text, 8, createContext());
+
+    expect(hover).toMatchObject({
+      from: 3,
+      to: 13,
+      expression: "vars.limit",
+      schemaType: "num",
+    });
+    expect(hover?.preview.value).toBe(10);
+    expect(hover?.preview.type).toBe("number");
+  });
+
+  it("previews the whole expression between references", () => {
+    const text = "{{ vars.limit * 2 }}";
+    const hover = getExpressionHover(text, 14, createContext());
+
+    expect(hover?.expression).toBe("vars.limit * 2");
+    expect(hover?.preview.value).toBe(20);
+  });
+
+  it("reports pending values with the type from the completions", () => {
+    const hover = getExpressionHover(
+      "{{ nodes.http_1.success }}",
+      10,
+      createContext(),
+    );
+
+    expect(hover?.preview.pending).toBe(true);
+    expect(hover?.schemaType).toBe("obj");
+  });
+
+  it("returns null outside expressions", () => {
+    expect(
+      getExpressionHover("Hello {{ vars.limit }}", 2, createContext()),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Expression diagnostics for ExpressionInput
+ *
+ * Locates problems in the {{ ... }} parts of a field: syntax errors found
+ * while typing, and the validation errors of the context (e.g. from the
+ * execution engine's getExpressionErrors), narrowed to the reference they
+ * are about. Offers quick-fixes such as creating a missing variable or
+ * correcting a misspelled name, and hover previews of values and types.
+ */
+
+import {
+  checkExpression,
+  collectReferences,
+  EXPRESSION_SOURCES,
+  type ExpressionReference,
+  findExpressions,
+  parseExpression,
+  type TemplateExpression,
+} from "@kianax/shared/expressions";
+import type {
+  CompletionItem,
+  CompletionItemType,
+  ExpressionContext,
+  ExpressionContextError,
+} from "../components/expression-input";
+import {
+  getPreviewContext,
+  resolvePreview,
+  type PreviewResult,
+} from "./expression-preview";
+
+/**
+ * A quick-fix for a diagnostic: either a text change or creating a variable
+ */
+export interface QuickFix {
+  /** Button label, e.g. "Did you mean nodes.http_1?" */
+  label: string;
+  /** Replace a range of the text */
+  change?: { from: number; to: number; insert: string };
+  /** Name of a routine variable to create */
+  createVariable?: string;
+}
+
+/**
+ * A problem in the text of an expression field
+ */
+export interface ExpressionDiagnostic {
+  /** Offset of the problem in the text */
+  from: number;
+  to: number;
+  message: string;
+  /** Unknown sources only warn: they resolve to undefined at runtime */
+  severity: "error" | "warning";
+  fixes: QuickFix[];
+}
+
+/**
+ * Hover information for a position in an expression
+ */
+export interface ExpressionHover {
+  /** Range of the hovered reference, or of the whole expression */
+  from: number;
+  to: number;
+  /** The previewed expression, e.g. "nodes.http_1.success.data" */
+  expression: string;
+  /** Preview of the value, with the type inferred from it */
+  preview: PreviewResult;
+  /**
+   * Type from the output schemas of the context, for references without a
+   * value to preview yet
+   */
+  schemaType?: CompletionItemType;
+}
+
+/** Sources whose keys validation errors are about, by error type */
+const ERROR_SOURCES: Record<string, readonly string[]> = {
+  UNDEFINED_VARIABLE: ["vars"],
+  INVALID_NODE_REF: ["nodes"],
+  NOT_UPSTREAM: ["nodes"],
+  SELF_REFERENCE: ["nodes"],
+  OUTSIDE_LOOP: ["$item", "$iteration"],
+};
+
+/**
+ * Find the problems in the expressions of a field's text
+ */
+export function getExpressionDiagnostics(
+  text: string,
+  context: ExpressionContext | undefined,
+): ExpressionDiagnostic[] {
+  const diagnostics: ExpressionDiagnostic[] = [];
+
+  for (const expression of findExpressions(text)) {
+    const problem = checkExpression(expression.source);
+    if (problem) {
+      const from = expression.sourceStart + problem.start;
+      const name = expression.source.slice(problem.start, problem.end);
+      const suggestion =
+        problem.code === "UNKNOWN_SOURCE"
+          ? suggestName(name, EXPRESSION_SOURCES)
+          : undefined;
+      diagnostics.push({
+        ...widen(from, expression.sourceStart + problem.end, expression),
+        message: problem.message,
+        severity: problem.code === "UNKNOWN_SOURCE" ? "warning" : "error",
+        fixes: suggestion
+          ? [replaceFix(suggestion, from, from + name.length)]
+          : [],
+      });
+      // Validation errors of an expression that doesn't parse repeat the
+      // syntax error
+      continue;
+    }
+
+    const written = text.slice(expression.start, expression.end);
+    const errors = (context?.errors ?? []).filter(
+      (error) => error.expression === written,
+    );
+    if (errors.length === 0) continue;
+
+    const references = collectReferences(parseExpression(expression.source));
+    for (const error of errors) {
+      diagnostics.push(...locateError(error, expression, references, context));
+    }
+  }
+
+  return dedupe(diagnostics);
+}
+
+/**
+ * Hover information at a position of a field's text: the reference under
+ * the position, or else the whole expression, with its previewed value
+ */
+export function getExpressionHover(
+  text: string,
+  position: number,
+  context: ExpressionContext | undefined,
+): ExpressionHover | null {
+  const expression = findExpressions(text).find(
+    (e) => e.start <= position && position <= e.end,
+  );
+  if (!expression) return null;
+
+  let references: ExpressionReference[];
+  try {
+    references = collectReferences(parseExpression(expression.source));
+  } catch {
+    return null;
+  }
+
+  const offset = expression.sourceStart;
+  const reference = references.find(
+    (ref) => offset + ref.start <= position && position <= offset + ref.end,
+  );
+  const [start, end] = reference
+    ? [reference.start, reference.end]
+    : [0, expression.source.length];
+  const source = expression.source.slice(start, end);
+
+  return {
+    from: offset + start,
+    to: offset + end,
+    expression: source,
+    preview: resolvePreview(`{{ ${source} }}`, getPreviewContext(context)),
+    schemaType: reference
+      ? findCompletionItem(context?.completions ?? [], [
+          reference.source,
+          ...reference.path,
+        ])?.type
+      : undefined,
+  };
+}
+
+/**
+ * Diagnostics for a validation error: on the references it is about, with
+ * quick-fixes, or on the whole expression
+ */
+function locateError(
+  error: ExpressionContextError,
+  expression: TemplateExpression,
+  references: ExpressionReference[],
+  context: ExpressionContext | undefined,
+): ExpressionDiagnostic[] {
+  const sources = ERROR_SOURCES[error.type] ?? [];
+  let located = references.filter((ref) => {
+    if (!sources.includes(ref.source)) return false;
+    if (ref.source !== "vars" && ref.source !== "nodes") return true;
+    const [name] = ref.path;
+    return name !== undefined && !getChildNames(context, ref.source).has(name);
+  });
+
+  // Errors name the variable or node they are about
+  const named = located.filter((ref) =>
+    error.message.includes(`"${ref.path[0]}"`),
+  );
+  if (named.length > 0) located = named;
+
+  if (located.length === 0) {
+    return [
+      {
+        from: expression.sourceStart,
+        to: expression.sourceStart + expression.source.length,
+        message: error.message,
+        severity: "error",
+        fixes: [],
+      },
+    ];
+  }
+
+  return located.map((ref): ExpressionDiagnostic => {
+    const [name] = ref.path;
+    if (
+      name === undefined ||
+      (ref.source !== "vars" && ref.source !== "nodes")
+    ) {
+      return {
+        ...widen(
+          expression.sourceStart + ref.start,
+          expression.sourceStart + ref.end,
+          expression,
+        ),
+        message: error.message,
+        severity: "error",
+        fixes: [],
+      };
+    }
+
+    // The key after the source, e.g. "http_1" of nodes.http_1.success
+    const from =
+      expression.sourceStart +
+      expression.source.indexOf(name, ref.start + ref.source.length);
+    const to = from + name.length;
+
+    const fixes: QuickFix[] = [];
+    const suggestion = suggestName(
+      name,
+      [...getChildNames(context, ref.source)],
+      ref.source === "nodes" ? getNodeLabels(context) : undefined,
+    );
+    if (suggestion) {
+      fixes.push({
+        ...replaceFix(suggestion, from, to),
+        label: `Did you mean ${ref.source}.${suggestion}?`,
+      });
+    }
+    if (ref.source === "vars" && context?.onCreateVariable) {
+      fixes.push({
+        label: `Create variable vars.${name}`,
+        createVariable: name,
+      });
+    }
+
+    return { from, to, message: error.message, severity: "error", fixes };
+  });
+}
+
+/**
+ * Names of the children of a root completion item (variable names, or
+ * IDs of upstream nodes)
+ */
+function getChildNames(
+  context: ExpressionContext | undefined,
+  source: string,
+): Set<string> {
+  const item = context?.completions.find((c) => c.name === source);
+  return new Set(item?.children?.map((child) => child.name) ?? []);
+}
+
+/**
+ * Upstream node IDs by label, so "did you mean" finds nodes by the name
+ * users see
+ */
+function getNodeLabels(
+  context: ExpressionContext | undefined,
+): Map<string, string> {
+  const nodes = context?.completions.find((c) => c.name === "nodes");
+  return new Map(
+    (nodes?.children ?? [])
+      .filter((child) => child.detail)
+      .map((child) => [child.detail!.toLowerCase(), child.name]),
+  );
+}
+
+/**
+ * The candidate a name was probably meant to be: same but for case, a
+ * node's label, or a few typos away
+ */
+function suggestName(
+  name: string,
+  candidates: readonly string[],
+  labels?: Map<string, string>,
+): string | undefined {
+  const lower = name.toLowerCase();
+  const sameCase = candidates.find((c) => c.toLowerCase() === lower);
+  if (sameCase) return sameCase;
+
+  const byLabel = labels?.get(lower);
+  if (byLabel) return byLabel;
+
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = getEditDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Edit distance between two strings, counting swapped neighbours as one
+ * edit (optimal string alignment)
+ */
+function getEditDistance(a: string, b: string): number {
+  const rows = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        rows[i - 1]![j]! + 1,
+        row[j - 1]! + 1,
+        rows[i - 1]![j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j]!, rows[i - 2]![j - 2]! + 1);
+      }
+    }
+    rows.push(row);
+  }
+  return rows[a.length]![b.length]!;
+}
+
+function replaceFix(insert: string, from: number, to: number): QuickFix {
+  return { label: `Did you mean ${insert}?`, change: { from, to, insert } };
+}
+
+/**
+ * Find the completion item at a path, e.g. ["vars", "apiUrl"]
+ */
+function findCompletionItem(
+  items: CompletionItem[],
+  path: string[],
+): CompletionItem | undefined {
+  let item: CompletionItem | undefined;
+  let children: CompletionItem[] | undefined = items;
+  for (const key of path) {
+    item = children?.find((child) => child.name === key);
+    if (!item) return undefined;
+    children = item.children;
+  }
+  return item;
+}
+
+/**
+ * A range of at least one character within the expression (errors at the
+ * end of an expression are empty ranges)
+ */
+function widen(
+  from: number,
+  to: number,
+  expression: TemplateExpression,
+): { from: number; to: number } {
+  if (to > from) return { from, to };
+  const end = expression.sourceStart + expression.source.length;
+  return from < end ? { from, to: from + 1 } : { from: end - 1, to: end };
+}
+
+function dedupe(diagnostics: ExpressionDiagnostic[]): ExpressionDiagnostic[] {
+  const seen = new Set<string>();
+  return diagnostics.filter((d) => {
+    const key = `${d.from}:${d.to}:${d.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
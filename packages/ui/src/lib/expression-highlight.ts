@@ -13,11 +13,14 @@ import { tags } from "@lezer/highlight";
  *
  * Token types from expression-language.ts:
  * - brace: {{ and }}
- * - keyword: vars, nodes, trigger, execution
+ * - keyword: vars, nodes, trigger, execution, $item, $iteration
  * - variableName: identifiers
- * - punctuation: dots
+ * - variableName.function: called or piped function names
+ * - punctuation: dots and commas
  * - squareBracket: [ and ]
- * - number: array indices
+ * - paren: ( and )
+ * - number, string, bool, null: literals
+ * - operator: arithmetic, comparison and logical operators, ternary, pipe
  * - invalid: unknown characters inside expressions
  */
 export const expressionHighlightStyle = HighlightStyle.define([
@@ -31,6 +34,11 @@ export const expressionHighlightStyle = HighlightStyle.define([
     color: "hsl(var(--chart-1))",
     fontWeight: "500",
   },
+  {
+    tag: tags.function(tags.variableName),
+    color: "hsl(var(--chart-2))",
+    fontWeight: "500",
+  },
   {
     tag: tags.variableName,
     color: "hsl(var(--foreground))",
@@ -44,9 +52,21 @@ export const expressionHighlightStyle = HighlightStyle.define([
     color: "hsl(var(--primary))",
   },
   {
-    tag: tags.number,
+    tag: [tags.number, tags.bool, tags.null],
     color: "hsl(var(--chart-4))",
   },
+  {
+    tag: tags.string,
+    color: "hsl(var(--chart-3))",
+  },
+  {
+    tag: tags.operator,
+    color: "hsl(var(--primary))",
+  },
+  {
+    tag: tags.paren,
+    color: "hsl(var(--muted-foreground))",
+  },
   {
     tag: tags.invalid,
     color: "hsl(var(--destructive))",
@@ -63,6 +63,18 @@ describe("extractExpressions", () => {
       "{{ nodes.loop.items[0].name }}",
     ]);
   });
+
+  it("extracts expressions with operators and pipes", () => {
+    expect(
+      extractExpressions("{{ vars.count + 1 }} {{ vars.name | upper }}"),
+    ).toEqual(["{{ vars.count + 1 }}", "{{ vars.name | upper }}"]);
+  });
+
+  it("does not end an expression at }} inside a string", () => {
+    expect(extractExpressions("{{ vars.list | join('}}') }}!")).toEqual([
+      "{{ vars.list | join('}}') }}",
+    ]);
+  });
 });
 
 describe("expressionLanguage", () => {
@@ -1,18 +1,28 @@
 /**
  * CodeMirror 6 StreamLanguage definition for Kianax expression syntax.
  *
- * Tokenizes {{ expression }} patterns within text:
+ * Tokenizes {{ expression }} patterns within text, with the lexer the
+ * execution engine uses (@kianax/shared/expressions):
  * - {{ and }} are marked as braces
- * - vars, nodes, trigger, execution are keywords
- * - Identifiers, dots, brackets are styled accordingly
+ * - vars, nodes, trigger, execution, $item, $iteration are keywords
+ * - Function names (called or piped), strings, numbers, booleans, null and
+ *   operators are styled accordingly, as are identifiers, dots and brackets
  * - Text outside expressions is left unstyled
  */
 
 import { StreamLanguage, type StringStream } from "@codemirror/language";
+import {
+  findExpressions,
+  isExpressionSource,
+  readToken,
+  type Token,
+} from "@kianax/shared/expressions";
 
 interface ExpressionState {
   /** Whether we're currently inside an expression {{ ... }} */
   inExpression: boolean;
+  /** The previous token inside the expression */
+  previous?: Token;
 }
 
 /**
@@ -21,18 +31,20 @@ interface ExpressionState {
  * Returns CodeMirror token tags that map to highlight styles.
  */
 function tokenize(stream: StringStream, state: ExpressionState): string | null {
-  // Match opening braces
-  if (stream.match("{{")) {
+  // Inside expression: strings first, so "}}" in a string doesn't close it
+  if (state.inExpression && !stream.match(/^["']/, false)) {
+    // Match closing braces
+    if (stream.match("}}")) {
+      state.inExpression = false;
+      state.previous = undefined;
+      return "brace";
+    }
+  } else if (!state.inExpression && stream.match("{{")) {
+    // Match opening braces
     state.inExpression = true;
     return "brace";
   }
 
-  // Match closing braces
-  if (stream.match("}}")) {
-    state.inExpression = false;
-    return "brace";
-  }
-
   // Inside expression: highlight tokens
   if (state.inExpression) {
     // Skip whitespace
@@ -40,38 +52,22 @@ function tokenize(stream: StringStream, state: ExpressionState): string | null {
       return null;
     }
 
-    // Source keywords
-    if (stream.match(/vars|nodes|trigger|execution/)) {
-      return "keyword";
+    let token: Token | null;
+    try {
+      token = readToken(stream.string, stream.pos, state.previous);
+    } catch {
+      // Unknown character or unterminated string - skip one character
+      token = null;
     }
-
-    // Dot separator
-    if (stream.match(".")) {
-      return "punctuation";
+    if (!token) {
+      stream.next();
+      return "invalid";
     }
 
-    // Array access brackets
-    if (stream.match("[")) {
-      return "squareBracket";
-    }
-    if (stream.match("]")) {
-      return "squareBracket";
-    }
-
-    // Numeric indices
-    if (stream.match(/\d+/)) {
-      return "number";
-    }
-
-    // Identifiers (variable names, node IDs, port names)
-    // Allow hyphens in identifiers for node IDs like "http-request_1"
-    if (stream.match(/[a-zA-Z_][a-zA-Z0-9_-]*/)) {
-      return "variableName";
-    }
-
-    // Unknown character inside expression - skip it
-    stream.next();
-    return "invalid";
+    const previous = state.previous;
+    stream.pos = token.end;
+    state.previous = token;
+    return getTokenStyle(token, previous, stream);
   }
 
   // Outside expression: plain text (no highlighting)
@@ -86,6 +82,42 @@ function tokenize(stream: StringStream, state: ExpressionState): string | null {
   return null;
 }
 
+/**
+ * Token tag for an expression token
+ */
+function getTokenStyle(
+  token: Token,
+  previous: Token | undefined,
+  stream: StringStream,
+): string {
+  switch (token.type) {
+    case "number":
+      return "number";
+    case "string":
+      return "string";
+    case "operator":
+      return "operator";
+    case "punctuation":
+      if (token.value === "[" || token.value === "]") return "squareBracket";
+      if (token.value === "(" || token.value === ")") return "paren";
+      return "punctuation";
+    case "identifier": {
+      const afterDot =
+        previous?.type === "punctuation" && previous.value === ".";
+      if (afterDot) return "variableName";
+      if (token.value === "true" || token.value === "false") return "bool";
+      if (token.value === "null") return "null";
+      // Function calls: fn(...) or value | fn
+      const isPipe = previous?.type === "operator" && previous.value === "|";
+      if (isPipe || stream.match(/^\s*\(/, false)) {
+        return "variableName.function";
+      }
+      if (isExpressionSource(token.value)) return "keyword";
+      return "variableName";
+    }
+  }
+}
+
 /**
  * CodeMirror StreamLanguage for expression syntax.
  *
@@ -108,13 +140,14 @@ export const expressionLanguage = StreamLanguage.define<ExpressionState>({
  * Check if a string contains expression syntax.
  */
 export function containsExpression(text: string): boolean {
-  return /\{\{.*?\}\}/.test(text);
+  return findExpressions(text).length > 0;
 }
 
 /**
  * Extract all expression strings from text.
  */
 export function extractExpressions(text: string): string[] {
-  const matches = text.match(/\{\{.*?\}\}/g);
-  return matches ?? [];
+  return findExpressions(text).map((expression) =>
+    text.slice(expression.start, expression.end),
+  );
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "bun:test";
+import type { DecorationSet } from "@codemirror/view";
+import {
+  describeHoverPreview,
+  getDiagnosticDecorations,
+  getTooltipContent,
+} from "./expression-lint";
+import {
+  getExpressionDiagnostics,
+  type ExpressionDiagnostic,
+  type ExpressionHover,
+} from "./expression-diagnostics";
+import { buildExpressionContext } from "../components/expression-input";
+
+const context = buildExpressionContext({
+  variables: [{ name: "limit", type: "number", value: 10 }],
+  upstreamNodes: [
+    { id: "http_1", label: "Fetch", outputs: ["success", "error"] },
+  ],
+  hasTrigger: true,
+});
+
+function diagnostic(
+  from: number,
+  to: number,
+  severity: ExpressionDiagnostic["severity"] = "error",
+): ExpressionDiagnostic {
+  return { from, to, message: `Problem at ${from}`, severity, fixes: [] };
+}
+
+function hover(preview: Partial<ExpressionHover["preview"]>): ExpressionHover {
+  return {
+    from: 3,
+    to: 13,
+    expression: "vars.limit",
+    preview: { value: undefined, type: "undefined", success: true, ...preview },
+  };
+}
+
+function marks(decorations: DecorationSet) {
+  const result: Array<{ from: number; to: number; class: string }> = [];
+  for (const cursor = decorations.iter(); cursor.value; cursor.next()) {
+    result.push({
+      from: cursor.from,
+      to: cursor.to,
+      class: cursor.value.spec.class,
+    });
+  }
+  return result;
+}
+
+describe("getDiagnosticDecorations", () => {
+  it("underlines errors and warnings in order", () => {
+    const decorations = getDiagnosticDecorations([
+      diagnostic(10, 14, "warning"),
+      diagnostic(2, 6),
+    ]);
+
+    expect(marks(decorations)).toEqual([
+      { from: 2, to: 6, class: "cm-expression-error" },
+      { from: 10, to: 14, class: "cm-expression-warning" },
+    ]);
+  });
+
+  it("underlines the problems found in an expression", () => {
+    const text = "{{ nodse.http_1.success }}";
+
+    expect(
+      marks(getDiagnosticDecorations(getExpressionDiagnostics(text, context))),
+    ).toEqual([{ from: 3, to: 8, class: "cm-expression-warning" }]);
+  });
+});
+
+describe("getTooltipContent", () => {
+  it("shows the problems at the position", () => {
+    const problems = [diagnostic(0, 4), diagnostic(3, 8), diagnostic(9, 12)];
+
+    expect(getTooltipContent("plain text", 4, problems, undefined)).toEqual({
+      from: 0,
+      to: 8,
+      diagnostics: [problems[0]!, problems[1]!],
+      hover: null,
+    });
+  });
+
+  it("covers the problems and the hovered reference", () => {
+    const text = "{{ vars.limit * 2 }}";
+    const content = getTooltipContent(text, 8, [diagnostic(6, 16)], context);
+
+    expect(content?.from).toBe(3);
+    expect(content?.to).toBe(16);
+    expect(content?.hover?.expression).toBe("vars.limit");
+  });
+
+  it("returns null when there's nothing to show", () => {
+    expect(
+      getTooltipContent("Hello {{ vars.limit }}", 2, [], context),
+    ).toBeNull();
+    expect(
+      getTooltipContent("{{ vars.limit }}", 5, [diagnostic(10, 12)], undefined),
+    ).toBeNull();
+  });
+});
+
+describe("describeHoverPreview", () => {
+  it("shows the value with a short type label", () => {
+    expect(describeHoverPreview(hover({ value: 10, type: "number" }))).toEqual({
+      type: "num",
+      text: "vars.limit = 10",
+    });
+    expect(
+      describeHoverPreview(hover({ value: "abc", type: "string" })),
+    ).toEqual({ type: "str", text: 'vars.limit = "abc"' });
+  });
+
+  it("prefers the schema type for values only available at runtime", () => {
+    const pending = hover({ type: "pending", pending: true });
+
+    expect(describeHoverPreview({ ...pending, schemaType: "obj" })).toEqual({
+      type: "obj",
+      text: "vars.limit: available at runtime",
+    });
+    expect(describeHoverPreview(pending).type).toBe("pending");
+  });
+
+  it("shows the error of previews that failed", () => {
+    expect(
+      describeHoverPreview(
+        hover({ success: false, error: "Division by zero" }),
+      ),
+    ).toEqual({ type: "error", text: "Division by zero" });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * CodeMirror 6 inline diagnostics for expressions.
+ *
+ * Underlines the problems found by getExpressionDiagnostics (wavy red for
+ * errors, amber for warnings) and shows a tooltip on hover with the
+ * problem, its quick-fixes, and the previewed value and type of the
+ * hovered reference.
+ */
+
+import {
+  ViewPlugin,
+  Decoration,
+  EditorView,
+  hoverTooltip,
+  type DecorationSet,
+  type ViewUpdate,
+} from "@codemirror/view";
+import { StateEffect, type Extension } from "@codemirror/state";
+import type { ExpressionContext } from "../components/expression-input";
+import {
+  getExpressionDiagnostics,
+  getExpressionHover,
+  type ExpressionDiagnostic,
+  type ExpressionHover,
+  type QuickFix,
+} from "./expression-diagnostics";
+import { formatPreviewValue } from "./expression-preview";
+
+/**
+ * Effect that recomputes diagnostics, for when the expression context
+ * (and so its validation errors) changes without the document changing
+ */
+export const refreshExpressionDiagnostics = StateEffect.define<null>();
+
+const errorMark = Decoration.mark({ class: "cm-expression-error" });
+const warningMark = Decoration.mark({ class: "cm-expression-warning" });
+
+/** Type labels, matching the preview badge of ExpressionInput */
+const TYPE_LABELS: Record<string, string> = {
+  string: "str",
+  number: "num",
+  boolean: "bool",
+  object: "obj",
+  array: "arr",
+  null: "null",
+  undefined: "?",
+  pending: "pending",
+};
+
+/**
+ * Expression lint extension for CodeMirror.
+ *
+ * @param getContext - Function that returns the current expression context.
+ *                     Called on each update to get fresh validation errors.
+ */
+export function expressionLint(
+  getContext: () => ExpressionContext | undefined,
+): Extension[] {
+  const diagnosticsPlugin = ViewPlugin.fromClass(
+    class {
+      diagnostics: ExpressionDiagnostic[] = [];
+      decorations: DecorationSet = Decoration.none;
+
+      constructor(view: EditorView) {
+        this.compute(view);
+      }
+
+      update(update: ViewUpdate) {
+        const refreshed = update.transactions.some((tr) =>
+          tr.effects.some((effect) => effect.is(refreshExpressionDiagnostics)),
+        );
+        if (update.docChanged || refreshed) {
+          this.compute(update.view);
+        }
+      }
+
+      compute(view: EditorView) {
+        this.diagnostics = getExpressionDiagnostics(
+          view.state.doc.toString(),
+          getContext(),
+        );
+        this.decorations = getDiagnosticDecorations(this.diagnostics);
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    },
+  );
+
+  const tooltip = hoverTooltip((view, pos) => {
+    const content = getTooltipContent(
+      view.state.doc.toString(),
+      pos,
+      view.plugin(diagnosticsPlugin)?.diagnostics ?? [],
+      getContext(),
+    );
+    if (!content) return null;
+
+    const { diagnostics, hover } = content;
+    return {
+      pos: content.from,
+      end: content.to,
+      above: true,
+      create: () => ({
+        dom: renderTooltip(view, diagnostics, hover, getContext),
+      }),
+    };
+  });
+
+  return [diagnosticsPlugin, tooltip, expressionLintTheme];
+}
+
+/**
+ * Underlines for the problems of an expression field
+ */
+export function getDiagnosticDecorations(
+  diagnostics: ExpressionDiagnostic[],
+): DecorationSet {
+  return Decoration.set(
+    diagnostics.map((d) =>
+      (d.severity === "warning" ? warningMark : errorMark).range(d.from, d.to),
+    ),
+    true,
+  );
+}
+
+/**
+ * What the hover tooltip shows: the problems at a position and the preview
+ * of the hovered reference, over the range they cover
+ */
+export interface TooltipContent {
+  from: number;
+  to: number;
+  diagnostics: ExpressionDiagnostic[];
+  hover: ExpressionHover | null;
+}
+
+/**
+ * Get the tooltip content at a position, or null when there's nothing to
+ * show there
+ */
+export function getTooltipContent(
+  text: string,
+  pos: number,
+  diagnostics: ExpressionDiagnostic[],
+  context: ExpressionContext | undefined,
+): TooltipContent | null {
+  const hovered = diagnostics.filter((d) => d.from <= pos && pos <= d.to);
+  // Previews need the values of a context
+  const hover = context ? getExpressionHover(text, pos, context) : null;
+  if (hovered.length === 0 && !hover) return null;
+
+  const ranges = [...hovered, ...(hover ? [hover] : [])];
+  return {
+    from: Math.min(...ranges.map((r) => r.from)),
+    to: Math.max(...ranges.map((r) => r.to)),
+    diagnostics: hovered,
+    hover,
+  };
+}
+
+/**
+ * Type badge and text of a hover preview
+ */
+export function describeHoverPreview(hover: ExpressionHover): {
+  type: string;
+  text: string;
+} {
+  const { preview } = hover;
+  if (!preview.success) {
+    return { type: "error", text: preview.error ?? "" };
+  }
+  if (preview.pending) {
+    return {
+      type: hover.schemaType ?? TYPE_LABELS[preview.type] ?? preview.type,
+      text: `${hover.expression}: available at runtime`,
+    };
+  }
+  return {
+    type: TYPE_LABELS[preview.type] ?? preview.type,
+    text: `${hover.expression} = ${formatPreviewValue(preview.value)}`,
+  };
+}
+
+/**
+ * Build the tooltip: problems with their quick-fixes, then the preview
+ */
+function renderTooltip(
+  view: EditorView,
+  diagnostics: ExpressionDiagnostic[],
+  hover: ExpressionHover | null,
+  getContext: () => ExpressionContext | undefined,
+): HTMLElement {
+  const dom = document.createElement("div");
+  dom.className = "cm-expression-tooltip";
+
+  for (const diagnostic of diagnostics) {
+    const row = document.createElement("div");
+    row.className = `cm-expression-tooltip-${diagnostic.severity}`;
+    row.textContent = diagnostic.message;
+    dom.appendChild(row);
+
+    for (const fix of diagnostic.fixes) {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "cm-expression-fix";
+      button.textContent = fix.label;
+      button.onmousedown = (event) => {
+        // Keep the editor focused
+        event.preventDefault();
+        applyFix(view, fix, getContext());
+      };
+      dom.appendChild(button);
+    }
+  }
+
+  if (hover) {
+    const row = document.createElement("div");
+    row.className = "cm-expression-tooltip-preview";
+
+    const { type, text } = describeHoverPreview(hover);
+    const badge = document.createElement("span");
+    badge.className = "cm-expression-tooltip-type";
+    badge.textContent = type;
+
+    const value = document.createElement("code");
+    value.textContent = text;
+
+    row.append(badge, value);
+    dom.appendChild(row);
+  }
+
+  return dom;
+}
+
+function applyFix(
+  view: EditorView,
+  fix: QuickFix,
+  context: ExpressionContext | undefined,
+) {
+  if (fix.change) {
+    view.dispatch({ changes: fix.change });
+  }
+  if (fix.createVariable) {
+    context?.onCreateVariable?.(fix.createVariable);
+  }
+}
+
+/**
+ * Styles for diagnostics and the hover tooltip.
+ * Uses color-mix() for opacity since theme colors may be in oklch format.
+ */
+const expressionLintTheme = EditorView.baseTheme({
+  ".cm-expression-error": {
+    textDecoration: "underline wavy var(--destructive)",
+    textDecorationSkipInk: "none",
+  },
+  ".cm-expression-warning": {
+    textDecoration: "underline wavy #d97706",
+    textDecorationSkipInk: "none",
+  },
+  ".cm-tooltip.cm-tooltip-hover": {
+    backgroundColor: "var(--popover)",
+    color: "var(--popover-foreground)",
+    border: "1px solid var(--border)",
+    borderRadius: "var(--radius)",
+  },
+  ".cm-expression-tooltip": {
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "flex-start",
+    gap: "4px",
+    maxWidth: "360px",
+    padding: "6px 8px",
+    fontSize: "12px",
+  },
+  ".cm-expression-tooltip-error": {
+    color: "var(--destructive)",
+  },
+  ".cm-expression-tooltip-warning": {
+    color: "#d97706",
+  },
+  ".cm-expression-fix": {
+    padding: "2px 6px",
+    borderRadius: "4px",
+    backgroundColor: "color-mix(in srgb, var(--primary) 12%, transparent)",
+    color: "var(--primary)",
+    cursor: "pointer",
+  },
+  ".cm-expression-tooltip-preview": {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    color: "var(--muted-foreground)",
+  },
+  ".cm-expression-tooltip-type": {
+    padding: "0 4px",
+    borderRadius: "4px",
+    backgroundColor: "var(--muted)",
+    fontWeight: "500",
+  },
+});
@@ -3,6 +3,7 @@ import {
   resolvePreview,
   containsExpression,
   formatPreviewValue,
+  PENDING_VALUE,
   type PreviewContext,
 } from "./expression-preview";
 
@@ -134,6 +135,41 @@ describe("resolvePreview", () => {
     });
   });
 
+  describe("loop expressions", () => {
+    const loopContext: PreviewContext = {
+      ...context,
+      loop: { item: { name: "Ada", tags: ["a", "b"] }, iteration: 2 },
+    };
+
+    it("resolves current item property", () => {
+      const result = resolvePreview("{{ $item.name }}", loopContext);
+      expect(result.success).toBe(true);
+      expect(result.value).toBe("Ada");
+    });
+
+    it("resolves iteration number", () => {
+      const result = resolvePreview("{{ $iteration }}", loopContext);
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(2);
+      expect(result.type).toBe("number");
+    });
+
+    it("returns pending when the loop has no data yet", () => {
+      const result = resolvePreview("{{ $item.name }}", {
+        ...context,
+        loop: { item: PENDING_VALUE, iteration: PENDING_VALUE },
+      });
+      expect(result.success).toBe(true);
+      expect(result.pending).toBe(true);
+    });
+
+    it("returns error outside a loop body", () => {
+      const result = resolvePreview("{{ $item }}", context);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("only available inside a loop body");
+    });
+  });
+
   describe("string interpolation", () => {
     it("interpolates multiple expressions", () => {
       const result = resolvePreview(
@@ -155,12 +191,59 @@ describe("resolvePreview", () => {
     });
   });
 
+  describe("operators and functions", () => {
+    it("evaluates arithmetic and comparisons", () => {
+      const result = resolvePreview("{{ vars.count * 2 > 80 }}", context);
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(true);
+      expect(result.type).toBe("boolean");
+    });
+
+    it("evaluates pipes", () => {
+      const result = resolvePreview(
+        "{{ nodes.http_1.data.body | upper }}",
+        context,
+      );
+      expect(result.success).toBe(true);
+      expect(result.value).toBe("HELLO");
+    });
+
+    it("evaluates ternaries and function calls in text", () => {
+      const result = resolvePreview(
+        "{{ vars.enabled ? 'on' : 'off' }} / {{ sum(nodes.transform_1.output) }}",
+        context,
+      );
+      expect(result.value).toBe("on / 6");
+    });
+
+    it("returns pending when an operand has no data yet", () => {
+      const result = resolvePreview("{{ $item.price * 2 }}", {
+        ...context,
+        loop: { item: PENDING_VALUE, iteration: PENDING_VALUE },
+      });
+      expect(result.success).toBe(true);
+      expect(result.pending).toBe(true);
+    });
+  });
+
   describe("error handling", () => {
     it("returns error for invalid source", () => {
       const result = resolvePreview("{{ invalid.path }}", context);
       expect(result.success).toBe(false);
       expect(result.error).toContain("Unknown source");
     });
+
+    it("returns error for syntax errors", () => {
+      const result = resolvePreview("{{ vars.count + }}", context);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unexpected end of expression");
+    });
+
+    it("returns error for unknown functions", () => {
+      const result = resolvePreview("{{ vars.baseUrl | shout }}", context);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unknown function: shout");
+    });
   });
 });
 
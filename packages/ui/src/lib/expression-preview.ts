@@ -2,9 +2,22 @@
  * Expression Preview Resolver for UI
  *
  * Browser-compatible expression resolver for live preview in ExpressionInput.
- * Uses simplified context (default values, sample data) instead of runtime context.
+ * Uses simplified context (default values, sample data) instead of runtime context,
+ * with the same grammar and functions as the execution engine.
  */
 
+import {
+  collectReferences,
+  containsExpressions,
+  evaluate,
+  type ExpressionReference,
+  type ExpressionScope,
+  getSingleExpression,
+  parseExpression,
+  renderTemplate,
+} from "@kianax/shared/expressions";
+import type { ExpressionContext } from "../components/expression-input";
+
 /**
  * Symbol to mark values that are valid paths but have no runtime data yet.
  * Used during configuration when nodes haven't executed.
@@ -24,7 +37,7 @@ export function isPendingValue(value: unknown): boolean {
 export interface PreviewContext {
   /** Variable values (name -> value) */
   vars: Record<string, unknown>;
-  /** Node outputs (nodeId -> portName -> value) */
+  /** Node outputs (nodeId -> portName -> value), from pinned data or a test run */
   nodes: Record<string, Record<string, unknown>>;
   /** Trigger data */
   trigger?: unknown;
@@ -34,6 +47,14 @@ export interface PreviewContext {
     routineId: string;
     startedAt: number;
   };
+  /**
+   * Current loop item and iteration, for nodes inside a loop body.
+   * Either may be PENDING_VALUE until a test run provides data.
+   */
+  loop?: {
+    item: unknown;
+    iteration: unknown;
+  };
 }
 
 /**
@@ -61,14 +82,71 @@ export interface PreviewResult {
 }
 
 /**
- * Expression pattern: {{ source.path.to.value }}
+ * Extract the preview context from an expression context tree.
+ * This derives the preview values from CompletionItem.value fields.
  */
-const EXPRESSION_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+export function getPreviewContext(
+  context: ExpressionContext | undefined,
+): PreviewContext {
+  const result: PreviewContext = { vars: {}, nodes: {} };
+
+  if (!context?.completions) return result;
+
+  for (const item of context.completions) {
+    if (item.name === "vars" && item.children) {
+      for (const child of item.children) {
+        if (child.value !== undefined) {
+          result.vars[child.name] = child.value;
+        }
+      }
+    } else if (item.name === "nodes" && item.children) {
+      for (const nodeItem of item.children) {
+        if (nodeItem.value !== undefined) {
+          result.nodes[nodeItem.name] = nodeItem.value as Record<
+            string,
+            unknown
+          >;
+        } else if (nodeItem.children) {
+          // Build from nested children if no direct value
+          const nodeOutputs: Record<string, unknown> = {};
+          for (const outputItem of nodeItem.children) {
+            if (outputItem.value !== undefined) {
+              nodeOutputs[outputItem.name] = outputItem.value;
+            }
+          }
+          if (Object.keys(nodeOutputs).length > 0) {
+            result.nodes[nodeItem.name] = nodeOutputs;
+          }
+        }
+      }
+    } else if (item.name === "trigger") {
+      // Handle trigger - use value if present, otherwise build from children
+      if (item.value !== undefined) {
+        result.trigger = item.value;
+      } else if (item.children) {
+        const triggerData: Record<string, unknown> = {};
+        for (const child of item.children) {
+          if (child.value !== undefined) {
+            triggerData[child.name] = child.value;
+          }
+        }
+        if (Object.keys(triggerData).length > 0) {
+          result.trigger = triggerData;
+        }
+      }
+    } else if (item.name === "execution" && item.value !== undefined) {
+      result.execution = item.value as PreviewContext["execution"];
+    } else if (item.name === "$item" || item.name === "$iteration") {
+      // Both are present inside a loop body; a missing value stays pending
+      result.loop ??= { item: PENDING_VALUE, iteration: PENDING_VALUE };
+      if (item.value !== undefined) {
+        result.loop[item.name === "$item" ? "item" : "iteration"] = item.value;
+      }
+    }
+  }
 
-/**
- * Valid source types for expressions
- */
-const VALID_SOURCES = ["nodes", "vars", "trigger", "execution"] as const;
+  return result;
+}
 
 /**
  * Resolve expressions for preview display.
@@ -79,7 +157,12 @@ export function resolvePreview(
   context: PreviewContext,
 ): PreviewResult {
   try {
-    const resolved = resolveExpressions(value, context);
+    const single = getSingleExpression(value) !== undefined;
+    const resolved = renderTemplate(value, (expression) => {
+      const result = resolveExpression(expression.source, context);
+      // Show a friendly placeholder for pending values inside text
+      return isPendingValue(result) && !single ? "[pending]" : result;
+    });
 
     // Check if the resolved value is a pending marker
     if (isPendingValue(resolved)) {
@@ -107,148 +190,65 @@ export function resolvePreview(
 }
 
 /**
- * Resolve all expressions in a string value.
- */
-function resolveExpressions(value: string, context: PreviewContext): unknown {
-  // Check if the entire string is a single expression
-  const trimmed = value.trim();
-  const singleExprMatch = trimmed.match(/^\{\{\s*([^}]+?)\s*\}\}$/);
-
-  if (singleExprMatch?.[1]) {
-    // Single expression - return the resolved value directly (preserves type)
-    return resolveExpression(singleExprMatch[1], context);
-  }
-
-  // Multiple expressions or mixed content - interpolate as string
-  return value.replace(EXPRESSION_PATTERN, (_match, expr) => {
-    const resolved = resolveExpression(expr, context);
-    if (resolved === undefined || resolved === null) {
-      return "";
-    }
-    // Handle pending values - show friendly placeholder instead of Symbol string
-    if (isPendingValue(resolved)) {
-      return "[pending]";
-    }
-    if (typeof resolved === "object") {
-      return JSON.stringify(resolved);
-    }
-    return String(resolved);
-  });
-}
-
-/**
- * Resolve a single expression (without the {{ }} delimiters)
+ * Resolve a single expression (without the {{ }} delimiters).
+ * Expressions reading a value without runtime data yet resolve to
+ * PENDING_VALUE.
  */
 function resolveExpression(expr: string, context: PreviewContext): unknown {
-  const parts = expr.trim().split(".");
-  if (parts.length === 0) {
-    return undefined;
-  }
+  const node = parseExpression(expr);
+  const scope: ExpressionScope = {
+    nodes: context.nodes,
+    vars: context.vars,
+    trigger: context.trigger,
+    execution: context.execution ?? createDefaultExecution(),
+    $item: context.loop?.item,
+    $iteration: context.loop?.iteration,
+  };
 
-  const source = parts[0] as (typeof VALID_SOURCES)[number];
-  if (!VALID_SOURCES.includes(source)) {
-    throw new Error(`Unknown source: ${source}`);
+  let pending = false;
+  for (const ref of collectReferences(node)) {
+    checkReference(ref, context);
+    pending ||= readsPendingValue(scope[ref.source], ref.path);
   }
 
-  const path = parts.slice(1);
-
-  switch (source) {
-    case "nodes":
-      return resolveNodeReference(path, context);
-    case "vars":
-      return resolvePath(context.vars, path);
-    case "trigger":
-      return resolvePath(context.trigger, path);
-    case "execution":
-      return resolvePath(context.execution ?? createDefaultExecution(), path);
-    default:
-      return undefined;
-  }
+  return pending ? PENDING_VALUE : evaluate(node, scope);
 }
 
 /**
- * Resolve a node output reference.
- * Path format: nodeId.portName.path.to.value
+ * Check that a reference's node, port or loop exists in the preview context
  */
-function resolveNodeReference(
-  path: string[],
-  context: PreviewContext,
-): unknown {
-  if (path.length < 1) {
-    throw new Error("Node reference requires a node ID");
+function checkReference(ref: ExpressionReference, context: PreviewContext) {
+  if (ref.source === "$item" || ref.source === "$iteration") {
+    if (!context.loop) {
+      throw new Error(`${ref.source} is only available inside a loop body`);
+    }
+    return;
   }
+  if (ref.source !== "nodes" || ref.path.length === 0) return;
 
-  const nodeId = path[0]!;
+  const [nodeId, portName] = ref.path as [string, string | undefined];
   const nodeOutputs = context.nodes[nodeId];
-
   if (!nodeOutputs) {
     throw new Error(`Node not found: ${nodeId}`);
   }
-
-  // If only nodeId provided, return all outputs
-  if (path.length === 1) {
-    return nodeOutputs;
-  }
-
-  // Get specific port
-  const portName = path[1]!;
-  const portData = nodeOutputs[portName];
-
-  if (portData === undefined) {
+  if (portName !== undefined && nodeOutputs[portName] === undefined) {
     throw new Error(`Port not found: ${nodeId}.${portName}`);
   }
-
-  // If there's more path, resolve it
-  if (path.length > 2) {
-    return resolvePath(portData, path.slice(2));
-  }
-
-  return portData;
 }
 
 /**
- * Resolve a path on an object.
- * Supports dot notation and array indexing: path[0].nested
+ * Whether a path passes through a value without runtime data yet
  */
-function resolvePath(obj: unknown, path: string[]): unknown {
-  let current = obj;
-
-  for (const segment of path) {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-
-    // Check for array index notation: segment[index]
-    const arrayMatch = segment.match(/^([^[]+)\[(\d+)\]$/);
-
-    if (arrayMatch?.[1] && arrayMatch[2]) {
-      const key = arrayMatch[1];
-      const index = parseInt(arrayMatch[2], 10);
-
-      // First access the property
-      if (typeof current === "object" && key in current) {
-        current = (current as Record<string, unknown>)[key];
-      } else {
-        return undefined;
-      }
-
-      // Then access the array index
-      if (Array.isArray(current) && index < current.length) {
-        current = current[index];
-      } else {
-        return undefined;
-      }
-    } else {
-      // Regular property access
-      if (typeof current === "object" && segment in current) {
-        current = (current as Record<string, unknown>)[segment];
-      } else {
-        return undefined;
-      }
-    }
+function readsPendingValue(value: unknown, path: string[]): boolean {
+  let current = value;
+  for (const key of path) {
+    if (isPendingValue(current)) return true;
+    if (typeof current !== "object" || current === null) return false;
+    current = Object.hasOwn(current, key)
+      ? (current as Record<string, unknown>)[key]
+      : undefined;
   }
-
-  return current;
+  return isPendingValue(current);
 }
 
 /**
@@ -273,11 +273,10 @@ function createDefaultExecution() {
 }
 
 /**
- * Check if a string contains expressions.
- * Uses a non-global regex to avoid state issues with lastIndex.
+ * Check if a string contains expressions
  */
 export function containsExpression(value: string): boolean {
-  return /\{\{\s*[^}]+?\s*\}\}/.test(value);
+  return containsExpressions(value);
 }
 
 /**